@@ -0,0 +1,67 @@
+import type { ApiError } from '../../client/src/types/index.js'
+import type { CliConfig } from './config.js'
+
+const USER_AGENT = 'auroracraft-cli/0.1.0'
+
+/** A non-2xx reply. `body` keeps the parsed payload for routes that send more than a message. */
+export class ApiRequestError extends Error implements ApiError {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public body: unknown = null,
+  ) {
+    super(message)
+    this.name = 'ApiRequestError'
+  }
+}
+
+export type Api = ReturnType<typeof createApi>
+
+export function createApi(config: CliConfig) {
+  if (!config.token) {
+    throw new Error('Not logged in. Run `auroracraft login` or set AURORACRAFT_TOKEN.')
+  }
+
+  const request = async (method: string, path: string, init: { body?: unknown; headers?: Record<string, string> } = {}) => {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${config.token}`,
+      'User-Agent': USER_AGENT,
+      ...init.headers,
+    }
+    if (init.body !== undefined) headers['Content-Type'] = 'application/json'
+
+    let response: Response
+    try {
+      response = await fetch(`${config.url}/api${path}`, {
+        method,
+        headers,
+        body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      })
+    } catch (err) {
+      throw new Error(`Could not reach ${config.url}: ${(err as Error).cause ?? (err as Error).message}`)
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as { message?: string; error?: string } | null
+      // Newer routes reply { message }, older ones (github, coderabbit) { error }
+      const message = body?.message || body?.error || `${method} ${path} failed with HTTP ${response.status}`
+      throw new ApiRequestError(message, response.status, body)
+    }
+    return response
+  }
+
+  const json = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    const response = await request(method, path, { body })
+    if (response.status === 204) return undefined as T
+    return await response.json() as T
+  }
+
+  return {
+    url: config.url,
+    get: <T>(path: string) => json<T>('GET', path),
+    post: <T>(path: string, body?: unknown) => json<T>('POST', path, body ?? {}),
+    delete: <T>(path: string) => json<T>('DELETE', path),
+    /** Raw response, for file downloads and event streams. */
+    raw: (path: string, headers?: Record<string, string>) => request('GET', path, { headers }),
+  }
+}
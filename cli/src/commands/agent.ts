@@ -0,0 +1,239 @@
+import { createInterface } from 'readline/promises'
+import type { AgentMessage, AgentSession, AgentSessionWithMessages, StreamEvent } from '../../../client/src/types/index.js'
+import { ApiRequestError, type Api } from '../api.js'
+import { readEvents } from '../sse.js'
+import { cyan, dim, green, red, table, yellow } from '../output.js'
+import { resolveProject } from './projects.js'
+
+const TERMINAL_STATUSES: AgentSession['status'][] = ['completed', 'failed', 'cancelled']
+const STATUS_POLL_MS = 10_000
+const RECONNECT_DELAY_MS = 3_000
+
+const sessionsPath = (projectId: string) => `/projects/${projectId}/agent/sessions`
+
+/** The given session, or the project's most recent one. */
+async function resolveSession(api: Api, projectId: string, sessionId: string | undefined): Promise<AgentSession> {
+  if (sessionId) return api.get<AgentSession>(`${sessionsPath(projectId)}/${sessionId}`)
+  const [latest] = await api.get<AgentSession[]>(sessionsPath(projectId))
+  if (!latest) throw new Error('This project has no agent sessions yet. Send one with `auroracraft prompt`.')
+  return latest
+}
+
+export async function listSessions(api: Api, projectRef: string | undefined, options: { json?: boolean }) {
+  const project = await resolveProject(api, projectRef)
+  const sessions = await api.get<AgentSession[]>(sessionsPath(project.id))
+  if (options.json) {
+    console.log(JSON.stringify(sessions, null, 2))
+    return
+  }
+  if (sessions.length === 0) {
+    console.log('No agent sessions yet.')
+    return
+  }
+  table(
+    ['ID', 'STATUS', 'BRIDGE', 'MODE', 'STARTED'],
+    sessions.map((s) => [s.id, s.status, s.bridge ?? 'opencode', s.mode ?? 'direct', new Date(s.createdAt).toLocaleString()]),
+  )
+}
+
+export interface PromptOptions {
+  session?: string
+  new?: boolean
+  model?: string
+  detach?: boolean
+}
+
+export async function prompt(api: Api, projectRef: string | undefined, content: string, options: PromptOptions) {
+  if (!content.trim()) throw new Error('Missing prompt text')
+  const project = await resolveProject(api, projectRef)
+
+  // Continue the latest session unless asked otherwise; the first prompt starts one
+  let session: AgentSession | undefined
+  if (options.session) session = await resolveSession(api, project.id, options.session)
+  else if (!options.new) [session] = await api.get<AgentSession[]>(sessionsPath(project.id))
+  session ??= await api.post<AgentSession>(sessionsPath(project.id), { bridge: project.bridge })
+
+  const message = await api.post<AgentMessage>(`${sessionsPath(project.id)}/${session.id}/messages`, {
+    content,
+    model: options.model,
+  })
+  const queued = message.queueStatus === 'queued'
+  console.error(dim(`${project.name} · session ${session.id}${queued ? ' · queued behind the current run' : ''}`))
+
+  if (options.detach) {
+    console.log(session.id)
+    return
+  }
+  await followSession(api, project.id, session.id, queued ? message.id : undefined)
+}
+
+export async function tail(api: Api, projectRef: string | undefined, options: { session?: string }) {
+  const project = await resolveProject(api, projectRef)
+  const session = await resolveSession(api, project.id, options.session)
+  console.error(dim(`${project.name} · session ${session.id} · ${session.status}`))
+  await followSession(api, project.id, session.id)
+}
+
+export async function answer(
+  api: Api,
+  projectRef: string | undefined,
+  questionId: string | undefined,
+  text: string,
+  options: { session?: string },
+) {
+  if (!questionId || !text.trim()) throw new Error('Usage: auroracraft answer <project> <question-id> <answer>')
+  const project = await resolveProject(api, projectRef)
+  const session = await resolveSession(api, project.id, options.session)
+  await api.post(`${sessionsPath(project.id)}/${session.id}/answer`, { questionId, answer: text })
+  console.log(green('Answer sent'))
+}
+
+export async function cancel(api: Api, projectRef: string | undefined, options: { session?: string }) {
+  const project = await resolveProject(api, projectRef)
+  const session = await resolveSession(api, project.id, options.session)
+  await api.post(`${sessionsPath(project.id)}/${session.id}/cancel`)
+  console.log(`Cancelled session ${session.id}`)
+}
+
+// ── Streaming ────────────────────────────────────────────────────────────────
+
+/**
+ * Print a session's live output until its run ends. Reconnects with
+ * Last-Event-ID when the connection drops, and asks the agent's questions
+ * inline when stdin is a terminal.
+ *
+ * `waitForMessageId`: a queued follow-up — keep following through the runs
+ * ahead of it until it has been dispatched and answered.
+ */
+async function followSession(api: Api, projectId: string, sessionId: string, waitForMessageId?: string) {
+  const sessionPath = `${sessionsPath(projectId)}/${sessionId}`
+  const printer = createPrinter()
+  const asked = new Set<string>()
+  const done = new AbortController()
+  let lastEventId: string | undefined
+  let failed = false
+
+  const runFinished = async () => {
+    const session = await api.get<AgentSessionWithMessages>(sessionPath)
+    if (!TERMINAL_STATUSES.includes(session.status)) return false
+    failed = session.status !== 'completed'
+    if (!waitForMessageId) return true
+    return !session.messages.some((m) => m.id === waitForMessageId && m.queueStatus === 'queued')
+  }
+
+  // Late joiners don't get a replayed `complete`, so a run that ended before
+  // we attached (or while we were reconnecting) is caught by polling.
+  const poll = setInterval(() => {
+    runFinished().then((finished) => { if (finished) done.abort() }).catch(() => {})
+  }, STATUS_POLL_MS)
+
+  try {
+    while (!done.signal.aborted) {
+      try {
+        const response = await api.raw(`${sessionPath}/stream`, lastEventId ? { 'Last-Event-ID': lastEventId } : undefined)
+        for await (const { id, event } of readEvents(response, done.signal)) {
+          if (id) lastEventId = id
+          printer.print(event)
+          if (event.type === 'question' && event.status === 'running' && event.question && !asked.has(event.id)) {
+            asked.add(event.id)
+            await askQuestion(api, projectId, sessionId, event.id, event.question, printer)
+          }
+          if (event.type === 'complete' && await runFinished()) done.abort()
+        }
+      } catch (err) {
+        // Auth, permission and not-found errors won't fix themselves
+        if (err instanceof ApiRequestError && err.statusCode < 500) throw err
+        if (done.signal.aborted) break
+      }
+      if (!done.signal.aborted) await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS))
+    }
+  } finally {
+    clearInterval(poll)
+    printer.end()
+  }
+
+  if (failed) {
+    console.error(red('Agent run did not complete'))
+    process.exitCode = 1
+  }
+}
+
+async function askQuestion(api: Api, projectId: string, sessionId: string, questionId: string, question: string, printer: Printer) {
+  printer.line(yellow(`? ${question}`))
+  if (!process.stdin.isTTY) {
+    printer.line(dim(`  answer with: auroracraft answer ${projectId} ${questionId} "<answer>" --session ${sessionId}`))
+    return
+  }
+  const rl = createInterface({ input: process.stdin, output: process.stdout })
+  try {
+    const reply = (await rl.question('> ')).trim()
+    if (!reply) return
+    await api.post(`${sessionsPath(projectId)}/${sessionId}/answer`, { questionId, answer: reply })
+  } finally {
+    rl.close()
+  }
+}
+
+interface Printer {
+  print(event: StreamEvent): void
+  /** A full line, starting on a fresh one if text is mid-line */
+  line(text: string): void
+  end(): void
+}
+
+function createPrinter(): Printer {
+  let midLine = false
+  const shownFileOps = new Set<string>()
+  const shownThinking = new Set<string>()
+
+  const line = (text: string) => {
+    if (midLine) process.stdout.write('\n')
+    midLine = false
+    console.log(text)
+  }
+
+  return {
+    line,
+    print(event) {
+      switch (event.type) {
+        case 'text-delta':
+          process.stdout.write(event.content)
+          midLine = !event.content.endsWith('\n')
+          break
+        case 'thinking':
+          // Each event carries the whole block so far; print it once, when finished
+          if (event.done && event.content && !shownThinking.has(event.id)) {
+            shownThinking.add(event.id)
+            line(dim(event.content.trim()))
+          }
+          break
+        case 'file-op':
+          if (event.status !== 'running' && !shownFileOps.has(event.id)) {
+            shownFileOps.add(event.id)
+            const target = event.newPath ? `${event.path} → ${event.newPath}` : event.path
+            line(event.status === 'error' ? red(`  ✗ ${event.action} ${target}`) : cyan(`  • ${event.action} ${target}`))
+          }
+          break
+        case 'todo':
+          line(dim(event.items.map((t) => `  [${t.status === 'completed' ? 'x' : ' '}] ${t.content}`).join('\n')))
+          break
+        case 'build-log':
+          (event.stream === 'stderr' ? process.stderr : process.stdout).write(dim(event.content))
+          break
+        case 'status':
+          if (event.message) line(dim(`[${event.status}] ${event.message}`))
+          break
+        case 'error':
+          line(red(`Error: ${event.message}`))
+          break
+        case 'complete':
+          line(dim('── run finished ──'))
+          break
+      }
+    },
+    end() {
+      if (midLine) process.stdout.write('\n')
+      midLine = false
+    },
+  }
+}
@@ -0,0 +1,33 @@
+import { createInterface } from 'readline/promises'
+import type { User } from '../../../client/src/types/index.js'
+import { createApi, type Api } from '../api.js'
+import { configPath, loadConfig, saveConfig } from '../config.js'
+import { green } from '../output.js'
+
+/** Check a token against the server and save it for later commands. */
+export async function login(options: { url?: string; token?: string }) {
+  const current = await loadConfig()
+  const url = (options.url ?? current.url).replace(/\/+$/, '')
+
+  let token = options.token
+  if (!token) {
+    if (!process.stdin.isTTY) throw new Error('Pass --token when not running in a terminal')
+    const rl = createInterface({ input: process.stdin, output: process.stdout })
+    try {
+      console.log(`Create a token at ${url}/settings/security`)
+      token = (await rl.question('Token: ')).trim()
+    } finally {
+      rl.close()
+    }
+  }
+
+  const user = await createApi({ url, token }).get<User>('/auth/me')
+  await saveConfig({ url, token })
+  console.log(green(`Logged in to ${url} as ${user.username}`))
+  console.log(`Saved to ${configPath()}`)
+}
+
+export async function whoami(api: Api) {
+  const user = await api.get<User>('/auth/me')
+  console.log(`${user.username} <${user.email}> · ${user.tier ?? 'free'} · ${api.url}`)
+}
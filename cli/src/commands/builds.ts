@@ -0,0 +1,88 @@
+import { createWriteStream } from 'fs'
+import { resolve } from 'path'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { Build, BuildArtifact, BuildTool } from '../../../client/src/types/index.js'
+import type { Api } from '../api.js'
+import { formatBytes, green, red, table } from '../output.js'
+import { resolveProject } from './projects.js'
+
+const BUILD_POLL_MS = 3_000
+
+export async function listBuilds(api: Api, projectRef: string | undefined, options: { json?: boolean }) {
+  const project = await resolveProject(api, projectRef)
+  const { builds } = await api.get<{ builds: Build[] }>(`/projects/${project.id}/builds`)
+  if (options.json) {
+    console.log(JSON.stringify(builds, null, 2))
+    return
+  }
+  if (builds.length === 0) {
+    console.log('No builds yet.')
+    return
+  }
+  table(
+    ['ID', 'STATUS', 'TOOL', 'ARTIFACTS', 'STARTED'],
+    builds.map((b) => [
+      b.id,
+      b.status,
+      b.tool,
+      b.artifacts.map((a) => a.name).join(', ') || '-',
+      new Date(b.createdAt).toLocaleString(),
+    ]),
+  )
+}
+
+/** Start a build and wait for it to finish. */
+export async function build(api: Api, projectRef: string | undefined, options: { tool?: string }) {
+  const project = await resolveProject(api, projectRef)
+  const tool = parseTool(options.tool)
+  const { buildId } = await api.post<{ buildId: string }>(`/projects/${project.id}/builds`, { tool })
+  console.error(`Building ${project.name} (${buildId})...`)
+
+  let current: Build
+  do {
+    await new Promise((r) => setTimeout(r, BUILD_POLL_MS))
+    current = await api.get<Build>(`/projects/${project.id}/builds/${buildId}`)
+  } while (current.status === 'running')
+
+  if (current.status !== 'success') {
+    if (current.log) console.error(current.log.split('\n').slice(-30).join('\n'))
+    console.error(red(`Build ${current.status}${current.error ? `: ${current.error}` : ''}`))
+    process.exitCode = 1
+    return
+  }
+  console.log(green(`Build succeeded in ${((current.durationMs ?? 0) / 1000).toFixed(1)}s`))
+  for (const artifact of current.artifacts) console.log(`  ${artifact.name} (${formatBytes(artifact.size)})`)
+}
+
+/** Download the newest JAR from the most recent successful build. */
+export async function downloadJar(api: Api, projectRef: string | undefined, options: { tool?: string; out?: string }) {
+  const project = await resolveProject(api, projectRef)
+  const tool = parseTool(options.tool)
+  const { builds } = await api.get<{ builds: Build[] }>(`/projects/${project.id}/builds`)
+
+  let latest: { build: Build; artifact: BuildArtifact } | undefined
+  for (const b of builds) {
+    if (b.status !== 'success') continue
+    const artifact = b.artifacts.find((a) => !tool || tool === 'both' || a.tool === tool)
+    if (artifact) {
+      latest = { build: b, artifact }
+      break
+    }
+  }
+  if (!latest) {
+    throw new Error('No successful build with a JAR yet. Run `auroracraft build` first.')
+  }
+
+  const { build: b, artifact } = latest
+  const response = await api.raw(`/projects/${project.id}/builds/${b.id}/artifacts/${encodeURIComponent(artifact.name)}`)
+  const target = resolve(options.out ?? artifact.name)
+  await pipeline(Readable.fromWeb(response.body as import('stream/web').ReadableStream), createWriteStream(target))
+  console.log(`${target} (${formatBytes(artifact.size)}, built ${new Date(b.createdAt).toLocaleString()})`)
+}
+
+function parseTool(tool: string | undefined): BuildTool | undefined {
+  if (tool === undefined) return undefined
+  if (tool === 'maven' || tool === 'gradle' || tool === 'both') return tool
+  throw new Error(`Unknown build tool "${tool}" (expected maven, gradle or both)`)
+}
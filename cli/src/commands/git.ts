@@ -0,0 +1,89 @@
+import type { SecretFinding } from '../../../client/src/types/index.js'
+import { ApiRequestError, type Api } from '../api.js'
+import { green, red, yellow } from '../output.js'
+import { resolveProject } from './projects.js'
+
+const REVIEW_SCOPES = ['full', 'uncommitted', 'recent']
+const REVIEW_POLL_MS = 5_000
+
+// Mirror GET /api/projects/:id/review-status
+interface ReviewStatus {
+  locked: boolean
+  review: { id: string; status: string; scope: string; createdAt: string; issuesCount: number } | null
+  error: { id: string; message: string; status: string } | null
+}
+
+/** Request a CodeRabbit review; with --wait, block until it finishes. */
+export async function review(api: Api, projectRef: string | undefined, options: { scope?: string; wait?: boolean }) {
+  const scope = options.scope ?? 'full'
+  if (!REVIEW_SCOPES.includes(scope)) {
+    throw new Error(`Unknown review scope "${scope}" (expected ${REVIEW_SCOPES.join(', ')})`)
+  }
+  const project = await resolveProject(api, projectRef)
+  const started = await api.post<{ reviewId: string; message: string }>(`/projects/${project.id}/coderabbit/review`, { scope })
+  if (!options.wait) {
+    console.log(`Review ${started.reviewId} started. ${started.message}`)
+    return
+  }
+
+  console.error(`Reviewing ${project.name} (${scope})...`)
+  let status: ReviewStatus
+  do {
+    await new Promise((r) => setTimeout(r, REVIEW_POLL_MS))
+    status = await api.get<ReviewStatus>(`/projects/${project.id}/review-status`)
+  } while (status.locked)
+
+  if (status.error) {
+    console.error(red(`Review ${status.error.status}: ${status.error.message}`))
+    process.exitCode = 1
+  } else if (status.review?.status === 'passed') {
+    console.log(green('Review passed'))
+  } else if (status.review) {
+    console.log(yellow(`Review ${status.review.status}: ${status.review.issuesCount} issue(s). Open the workspace to see them.`))
+    process.exitCode = 1
+  }
+}
+
+export interface PushOptions {
+  message?: string
+  branch?: string
+  force?: boolean
+  /** Secret-scan findings to push anyway (ids from a previous attempt) */
+  allow?: string
+}
+
+export async function push(api: Api, projectRef: string | undefined, options: PushOptions) {
+  if (!options.message) throw new Error('Missing --message for the commit')
+  const project = await resolveProject(api, projectRef)
+  const branch = options.branch
+    ?? (await api.get<{ repoBranch: string }>(`/projects/${project.id}/git/status`)).repoBranch
+
+  let warnings: SecretFinding[] = []
+  try {
+    const result = await api.post<{ warnings?: SecretFinding[] }>(`/projects/${project.id}/git/push`, {
+      branch,
+      message: options.message,
+      force: options.force ?? false,
+      allowedFindings: options.allow ? options.allow.split(',').map((id) => id.trim()).filter(Boolean) : [],
+    })
+    warnings = result.warnings ?? []
+  } catch (err) {
+    const findings = err instanceof ApiRequestError && err.statusCode === 409
+      ? (err.body as { findings?: SecretFinding[] } | null)?.findings
+      : undefined
+    if (!findings) throw err
+
+    console.error(red((err as ApiRequestError).message))
+    for (const f of findings) {
+      console.error(`  ${f.severity === 'block' ? red('block') : yellow('warn ')} ${f.file}:${f.line}  ${f.message}  ${f.preview}`)
+    }
+    console.error(`Remove the secrets, or if these are false positives push again with --allow ${findings.map((f) => f.id).join(',')}`)
+    process.exitCode = 1
+    return
+  }
+  console.log(green(`Pushed to ${branch}`))
+  // Heuristic hits that didn't stop the push
+  for (const f of warnings) {
+    console.error(`  ${yellow('warn ')} ${f.file}:${f.line}  ${f.message}  ${f.preview}`)
+  }
+}
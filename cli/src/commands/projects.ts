@@ -0,0 +1,42 @@
+import type { Project } from '../../../client/src/types/index.js'
+import type { Api } from '../api.js'
+import { table } from '../output.js'
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Accept a project id, or a name / link id for convenience. */
+export async function resolveProject(api: Api, ref: string | undefined): Promise<Project> {
+  if (!ref) throw new Error('Missing <project> (an id or a project name)')
+  if (UUID.test(ref)) return api.get<Project>(`/projects/${ref}`)
+
+  const projects = await api.get<Project[]>('/projects')
+  const wanted = ref.toLowerCase()
+  const matches = projects.filter((p) => p.name.toLowerCase() === wanted || p.linkId === ref)
+  if (matches.length === 1) return matches[0]
+  if (matches.length > 1) {
+    throw new Error(`"${ref}" matches ${matches.length} projects; use the project id instead`)
+  }
+  throw new Error(`No project named "${ref}". Run \`auroracraft projects\` to list them.`)
+}
+
+export async function listProjects(api: Api, options: { json?: boolean }) {
+  const projects = await api.get<Project[]>('/projects')
+  if (options.json) {
+    console.log(JSON.stringify(projects, null, 2))
+    return
+  }
+  if (projects.length === 0) {
+    console.log('No projects yet.')
+    return
+  }
+  table(
+    ['ID', 'NAME', 'ROLE', 'SOFTWARE', 'UPDATED'],
+    projects.map((p) => [
+      p.id,
+      p.ownerUsername ? `${p.name} (${p.ownerUsername})` : p.name,
+      p.role ?? 'owner',
+      `${p.software} · ${p.compiler}`,
+      new Date(p.updatedAt).toLocaleDateString(),
+    ]),
+  )
+}
@@ -0,0 +1,359 @@
+import { watch, promises as fs } from 'fs'
+import { join, resolve } from 'path'
+import type { Api } from '../api.js'
+import { hashLocalFile, removeLocalFile, scanLocal, sha256, writeLocalFile, type LocalFile } from '../local-files.js'
+import { cyan, dim, green, red, yellow } from '../output.js'
+import { resolveProject } from './projects.js'
+
+// ── Types (mirror server/src/utils/workspace-sync.ts) ────────────────────────
+
+interface SyncManifest {
+  files: { path: string; hash: string; size: number }[]
+  truncated: boolean
+  skipped: string[]
+  ignoredDirs: string[]
+  ignoredFiles: string[]
+  maxFileBytes: number
+  maxTransferBytes: number
+}
+
+interface SyncChange {
+  path: string
+  baseHash: string | null
+  content: string | null
+}
+
+interface SyncUploadResult {
+  applied: { path: string; hash: string | null }[]
+  conflicts: { path: string; hash: string | null }[]
+}
+
+// ── Local state ──────────────────────────────────────────────────────────────
+
+/** Kept in the synced folder: what both sides looked like after the last sync */
+const STATE_FILE = '.auroracraft-sync.json'
+
+interface SyncState {
+  url: string
+  projectId: string
+  /** path → sha256 at the last sync */
+  files: Record<string, string>
+}
+
+const REMOTE_POLL_MS = 3_000
+const LOCAL_DEBOUNCE_MS = 300
+
+export interface SyncOptions {
+  watch?: boolean
+  prefer?: string
+  dryRun?: boolean
+}
+
+type Action =
+  | { kind: 'push'; path: string; remoteHash: string | null; local: LocalFile | undefined }
+  | { kind: 'pull'; path: string; remoteHash: string | null; localHash: string | null }
+  | { kind: 'conflict'; path: string; localHash: string | null; remoteHash: string | null }
+
+/**
+ * Mirror a local folder and a project workspace both ways.
+ *
+ * Each side is compared with the state saved after the last sync: a file
+ * changed on one side only is copied to the other (deletes included), a file
+ * changed on both is a conflict and is left alone unless --prefer picks a
+ * side. Uploads carry the hash they were based on, so an agent edit that
+ * lands mid-sync is reported as a conflict rather than overwritten.
+ */
+export async function sync(api: Api, projectRef: string | undefined, dir: string | undefined, options: SyncOptions) {
+  if (options.prefer && options.prefer !== 'local' && options.prefer !== 'remote') {
+    throw new Error('--prefer must be local or remote')
+  }
+  const project = await resolveProject(api, projectRef)
+  const root = resolve(dir ?? '.')
+  await fs.mkdir(root, { recursive: true })
+
+  const state = await loadState(root)
+  if (state && (state.projectId !== project.id || state.url !== api.url)) {
+    throw new Error(`${root} is synced with another project (${state.projectId}). Use an empty folder.`)
+  }
+  const session = new SyncSession(api, project.id, root, state ?? { url: api.url, projectId: project.id, files: {} }, options)
+
+  console.error(dim(`${project.name} ⇄ ${root}`))
+  await session.run()
+  if (options.dryRun) return
+  if (!options.watch) {
+    session.summary()
+    return
+  }
+
+  console.error(dim('Watching for changes (Ctrl+C to stop)...'))
+  await session.watch()
+}
+
+class SyncSession {
+  private pushed = 0
+  private pulled = 0
+  /** Conflicts and skipped files already reported, so --watch doesn't repeat them every poll */
+  private reported = new Set<string>()
+  private unresolved = 0
+  private skipped = 0
+
+  private running: Promise<void> | null = null
+  private again = false
+
+  constructor(
+    private api: Api,
+    private projectId: string,
+    private root: string,
+    private state: SyncState,
+    private options: SyncOptions,
+  ) {}
+
+  /** One sync pass; calls made while one is running are folded into a single follow-up pass. */
+  run(): Promise<void> {
+    if (this.running) {
+      this.again = true
+      return this.running
+    }
+    this.running = (async () => {
+      try {
+        do {
+          this.again = false
+          await this.pass()
+        } while (this.again)
+      } finally {
+        this.running = null
+      }
+    })()
+    return this.running
+  }
+
+  async watch(): Promise<void> {
+    const rerun = () => this.run().catch((err: Error) => console.error(red(`Sync failed: ${err.message}`)))
+
+    let debounce: ReturnType<typeof setTimeout> | null = null
+    let watcher: ReturnType<typeof watch> | null = null
+    try {
+      watcher = watch(this.root, { recursive: true }, (_event, file) => {
+        if (file === STATE_FILE || file?.endsWith('.tmp')) return
+        if (debounce) clearTimeout(debounce)
+        debounce = setTimeout(rerun, LOCAL_DEBOUNCE_MS)
+      })
+    } catch {
+      console.error(yellow('File watching is unavailable here; checking for local changes every few seconds instead'))
+    }
+    // Agent and editor changes on the server are picked up by polling the manifest
+    const poll = setInterval(rerun, REMOTE_POLL_MS)
+
+    await new Promise<void>((done) => {
+      process.once('SIGINT', () => {
+        clearInterval(poll)
+        if (debounce) clearTimeout(debounce)
+        watcher?.close()
+        done()
+      })
+    })
+    await this.running
+    this.summary()
+  }
+
+  summary() {
+    const parts = [`${this.pulled} downloaded`, `${this.pushed} uploaded`]
+    if (this.skipped > 0) parts.push(`${this.skipped} skipped`)
+    if (this.unresolved > 0) parts.push(yellow(`${this.unresolved} conflict(s)`))
+    console.error(dim(parts.join(' · ')))
+    if (this.unresolved > 0) {
+      console.error(dim('Resolve conflicts by editing one side to match, or rerun with --prefer local|remote'))
+      process.exitCode = 1
+    }
+  }
+
+  private async pass() {
+    const manifest = await this.api.get<SyncManifest>(`/projects/${this.projectId}/sync/manifest`)
+    if (manifest.truncated && !this.reported.has('truncated')) {
+      this.reported.add('truncated')
+      console.error(yellow('The workspace has more files than can be synced; some are left out and nothing is deleted here'))
+    }
+
+    const remote = new Map(manifest.files.filter((f) => isSafePath(f.path) && f.path !== STATE_FILE).map((f) => [f.path, f]))
+    const local = await scanLocal(this.root, { ...manifest, ignoredFiles: [...manifest.ignoredFiles, STATE_FILE] })
+
+    // Files one side has but doesn't sync (symlinks, over the size limit) are
+    // left alone on both sides — missing from a listing isn't a delete
+    const remoteSkipped = new Set(manifest.skipped.filter(isSafePath))
+    const skipped = new Set([...remoteSkipped, ...local.skipped])
+    this.skipped = skipped.size
+    const limit = `${manifest.maxFileBytes / 1024 / 1024} MB`
+    for (const path of [...skipped].sort()) {
+      const key = `skipped:${path}`
+      if (this.reported.has(key)) continue
+      this.reported.add(key)
+      const where = remoteSkipped.has(path) ? 'on the server' : 'here'
+      console.log(dim(`- ${path} (not synced: a symlink or over ${limit} ${where})`))
+    }
+
+    const actions = this.plan(local.files, remote, skipped, manifest.truncated)
+    this.unresolved = actions.filter((a) => a.kind === 'conflict').length
+
+    for (const action of actions) {
+      if (action.kind !== 'conflict') continue
+      const key = `${action.path}:${action.localHash}:${action.remoteHash}`
+      if (this.reported.has(key)) continue
+      this.reported.add(key)
+      const what = action.localHash === null ? 'deleted here, changed on the server'
+        : action.remoteHash === null ? 'changed here, deleted on the server'
+          : 'changed on both sides'
+      console.log(yellow(`! ${action.path} (${what})`))
+    }
+
+    const pulls = actions.filter((a) => a.kind === 'pull')
+    const pushes = actions.filter((a) => a.kind === 'push')
+    if (this.options.dryRun) {
+      for (const a of pulls) console.log(cyan(`↓ ${a.path}${a.remoteHash === null ? ' (delete)' : ''}`))
+      for (const a of pushes) console.log(green(`↑ ${a.path}${a.local ? '' : ' (delete)'}`))
+      return
+    }
+
+    await this.pull(pulls, manifest.maxFileBytes)
+    await this.push(pushes, manifest)
+    await saveState(this.root, this.state)
+  }
+
+  private plan(
+    local: Map<string, LocalFile>,
+    remote: Map<string, { hash: string }>,
+    skipped: Set<string>,
+    truncated: boolean,
+  ): Action[] {
+    const actions: Action[] = []
+    const paths = new Set([...local.keys(), ...remote.keys(), ...Object.keys(this.state.files)])
+    for (const path of [...paths].sort()) {
+      if (isSkipped(path, skipped)) continue
+      const base = this.state.files[path]
+      const localHash = local.get(path)?.hash ?? null
+      const remoteHash = remote.get(path)?.hash ?? null
+      // A truncated manifest can leave out a file that still exists
+      if (truncated && remoteHash === null && base !== undefined) continue
+
+      if (localHash === remoteHash) {
+        if (localHash) this.state.files[path] = localHash
+        else delete this.state.files[path]
+        continue
+      }
+      const localChanged = localHash !== (base ?? null)
+      const remoteChanged = remoteHash !== (base ?? null)
+      const prefer = localChanged && remoteChanged ? this.options.prefer : undefined
+
+      if ((!localChanged && remoteChanged) || prefer === 'remote') {
+        actions.push({ kind: 'pull', path, remoteHash, localHash })
+      } else if ((localChanged && !remoteChanged) || prefer === 'local') {
+        actions.push({ kind: 'push', path, remoteHash, local: local.get(path) })
+      } else {
+        actions.push({ kind: 'conflict', path, localHash, remoteHash })
+      }
+    }
+    return actions
+  }
+
+  private async pull(actions: Extract<Action, { kind: 'pull' }>[], maxFileBytes: number) {
+    const byPath = new Map(actions.map((a) => [a.path, a]))
+    const stillLocal = async (action: Extract<Action, { kind: 'pull' }>) =>
+      ((await hashLocalFile(join(this.root, action.path), maxFileBytes))?.hash ?? null) === action.localHash
+
+    for (const action of actions) {
+      if (action.remoteHash !== null) continue
+      // Edited again since the scan: leave it for the next pass
+      if (!(await stillLocal(action))) continue
+      await removeLocalFile(this.root, action.path)
+      delete this.state.files[action.path]
+      this.pulled++
+      console.log(cyan(`↓ ${action.path} (deleted)`))
+    }
+
+    let pending = actions.filter((a) => a.remoteHash !== null).map((a) => a.path)
+    while (pending.length > 0) {
+      const { files } = await this.api.post<{ files: { path: string; hash: string | null; content: string | null }[] }>(
+        `/projects/${this.projectId}/sync/download`,
+        { paths: pending.slice(0, 1000) },
+      )
+      if (files.length === 0) break
+      const received = new Set(files.map((f) => f.path))
+      pending = pending.filter((p) => !received.has(p))
+
+      for (const file of files) {
+        const action = byPath.get(file.path)
+        // Changed or removed since the manifest: the next pass sees the new state
+        if (!action || file.content === null || file.hash === null) continue
+        if (!(await stillLocal(action))) continue
+        const data = Buffer.from(file.content, 'base64')
+        if (sha256(data) !== file.hash) continue
+        await writeLocalFile(this.root, file.path, data)
+        this.state.files[file.path] = file.hash
+        this.pulled++
+        console.log(cyan(`↓ ${file.path}`))
+      }
+    }
+  }
+
+  private async push(actions: Extract<Action, { kind: 'push' }>[], { maxFileBytes, maxTransferBytes }: SyncManifest) {
+    let batch: SyncChange[] = []
+    let batchBytes = 0
+
+    const flush = async () => {
+      if (batch.length === 0) return
+      const result = await this.api.post<SyncUploadResult>(`/projects/${this.projectId}/sync/upload`, { changes: batch })
+      for (const applied of result.applied) {
+        if (applied.hash) this.state.files[applied.path] = applied.hash
+        else delete this.state.files[applied.path]
+        this.pushed++
+        console.log(green(`↑ ${applied.path}${applied.hash ? '' : ' (deleted)'}`))
+      }
+      for (const conflict of result.conflicts) {
+        console.log(yellow(`! ${conflict.path} (changed on the server during the upload)`))
+      }
+      batch = []
+      batchBytes = 0
+    }
+
+    for (const action of actions) {
+      let content: string | null = null
+      if (action.local) {
+        const data = await fs.readFile(join(this.root, action.path)).catch(() => null)
+        // Gone or grown past the limit since the scan: the next pass handles it
+        if (!data || data.length > maxFileBytes) continue
+        content = data.toString('base64')
+      }
+      const size = action.local?.size ?? 0
+      if (batch.length >= 500 || (batch.length > 0 && batchBytes + size > maxTransferBytes)) await flush()
+      batch.push({ path: action.path, baseHash: action.remoteHash, content })
+      batchBytes += size
+    }
+    await flush()
+  }
+}
+
+/** Reject paths a manifest should never contain: absolute or escaping the folder. */
+function isSafePath(path: string): boolean {
+  return !!path && !path.startsWith('/') && !path.split('/').some((s) => s === '..' || s === '' || s === '.')
+}
+
+/** Whether the path, or a folder it is in, is one a scan skipped. */
+function isSkipped(path: string, skipped: Set<string>): boolean {
+  if (skipped.size === 0) return false
+  const segments = path.split('/')
+  for (let i = 1; i <= segments.length; i++) {
+    if (skipped.has(segments.slice(0, i).join('/'))) return true
+  }
+  return false
+}
+
+async function loadState(root: string): Promise<SyncState | null> {
+  try {
+    return JSON.parse(await fs.readFile(join(root, STATE_FILE), 'utf8')) as SyncState
+  } catch {
+    return null
+  }
+}
+
+async function saveState(root: string, state: SyncState): Promise<void> {
+  await writeLocalFile(root, STATE_FILE, Buffer.from(JSON.stringify(state, null, 2) + '\n'))
+}
@@ -0,0 +1,41 @@
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { homedir } from 'os'
+import { dirname, join } from 'path'
+
+export interface CliConfig {
+  /** Base URL of the AuroraCraft server, e.g. https://auroracraft.example.com */
+  url: string
+  /** Personal access token (acp_...) created on Settings → Security */
+  token: string
+}
+
+const DEFAULT_URL = 'http://localhost:3000'
+
+export function configPath(): string {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), '.config')
+  return join(base, 'auroracraft', 'config.json')
+}
+
+async function readConfigFile(): Promise<Partial<CliConfig>> {
+  try {
+    return JSON.parse(await readFile(configPath(), 'utf8')) as Partial<CliConfig>
+  } catch {
+    return {}
+  }
+}
+
+/** Environment variables win over the saved file, so CI never needs `login`. */
+export async function loadConfig(): Promise<CliConfig> {
+  const saved = await readConfigFile()
+  return {
+    url: (process.env.AURORACRAFT_URL || saved.url || DEFAULT_URL).replace(/\/+$/, ''),
+    token: process.env.AURORACRAFT_TOKEN || saved.token || '',
+  }
+}
+
+export async function saveConfig(config: CliConfig): Promise<void> {
+  const path = configPath()
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 })
+  // The token is a credential: keep the file private to the user
+  await writeFile(path, JSON.stringify(config, null, 2) + '\n', { mode: 0o600 })
+}
@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util'
+import { createApi } from './api.js'
+import { loadConfig } from './config.js'
+import { red } from './output.js'
+import { login, whoami } from './commands/auth.js'
+import { listProjects } from './commands/projects.js'
+import { answer, cancel, listSessions, prompt, tail } from './commands/agent.js'
+import { build, downloadJar, listBuilds } from './commands/builds.js'
+import { push, review } from './commands/git.js'
+import { sync } from './commands/sync.js'
+
+const USAGE = `Usage: auroracraft <command> [options]
+
+Authenticates with a personal access token (Settings → Security), read from
+AURORACRAFT_TOKEN or saved by \`login\`. AURORACRAFT_URL overrides the server.
+<project> is a project id or name.
+
+Account
+  login [--url URL] [--token TOKEN]     Save a token for this machine
+  whoami                                Show the token's user
+
+Projects                                          (projects:read)
+  projects [--json]                     List your projects
+
+Agent                                             (agent:read / agent:write)
+  prompt <project> <text...>            Send a prompt and stream the reply
+      [--session ID | --new] [--model ID] [--detach]
+  tail <project> [--session ID]         Follow a session's live output
+  answer <project> <question-id> <text...> [--session ID]
+                                        Answer a question the agent asked
+  sessions <project> [--json]           List agent sessions
+  cancel <project> [--session ID]       Stop the running agent turn
+
+Builds                                            (builds:read / builds:write)
+  builds <project> [--json]             List recent builds
+  build <project> [--tool maven|gradle|both]
+                                        Build and wait for the result
+  jar <project> [--tool maven|gradle] [--out FILE]
+                                        Download the latest built JAR
+
+Git & review                                      (projects:write, paid plan)
+  review <project> [--scope full|uncommitted|recent] [--wait]
+                                        Request a CodeRabbit review
+  push <project> --message MSG [--branch NAME] [--force] [--allow IDS]
+                                        Commit and push to GitHub
+
+Folder sync                                       (projects:read / projects:write, paid plan)
+  sync <project> [dir] [--watch] [--prefer local|remote] [--dry-run]
+                                        Mirror a local folder (default: the
+                                        current one) with the workspace
+
+Without --session, agent commands use the project's most recent session.`
+
+async function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      token: { type: 'string' },
+      json: { type: 'boolean' },
+      session: { type: 'string', short: 's' },
+      new: { type: 'boolean' },
+      model: { type: 'string', short: 'm' },
+      detach: { type: 'boolean', short: 'd' },
+      tool: { type: 'string' },
+      out: { type: 'string', short: 'o' },
+      scope: { type: 'string' },
+      wait: { type: 'boolean', short: 'w' },
+      message: { type: 'string' },
+      branch: { type: 'string', short: 'b' },
+      force: { type: 'boolean' },
+      allow: { type: 'string' },
+      watch: { type: 'boolean' },
+      prefer: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+  const [command, project, ...rest] = positionals
+
+  if (!command || values.help || command === 'help') {
+    console.log(USAGE)
+    return
+  }
+  if (command === 'login') return login(values)
+
+  const api = createApi(await loadConfig())
+  switch (command) {
+    case 'whoami':
+      return whoami(api)
+    case 'projects':
+      return listProjects(api, values)
+    case 'prompt':
+      return prompt(api, project, rest.join(' '), values)
+    case 'tail':
+      return tail(api, project, values)
+    case 'answer':
+      return answer(api, project, rest[0], rest.slice(1).join(' '), values)
+    case 'sessions':
+      return listSessions(api, project, values)
+    case 'cancel':
+      return cancel(api, project, values)
+    case 'builds':
+      return listBuilds(api, project, values)
+    case 'build':
+      return build(api, project, values)
+    case 'jar':
+      return downloadJar(api, project, values)
+    case 'review':
+      return review(api, project, values)
+    case 'push':
+      return push(api, project, values)
+    case 'sync':
+      return sync(api, project, rest[0], { ...values, dryRun: values['dry-run'] })
+    default:
+      throw new Error(`Unknown command "${command}". Run \`auroracraft help\`.`)
+  }
+}
+
+main().catch((err: Error) => {
+  console.error(red(err.message))
+  process.exit(1)
+})
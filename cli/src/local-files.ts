@@ -0,0 +1,97 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import { dirname, join, relative, sep } from 'path'
+
+export interface LocalFile {
+  hash: string
+  size: number
+}
+
+export interface ScanRules {
+  ignoredDirs: string[]
+  /** Names ignored at the top level only */
+  ignoredFiles: string[]
+  maxFileBytes: number
+}
+
+// Hashes keyed by absolute path; reused while size and mtime are unchanged
+const hashCache = new Map<string, { size: number; mtimeMs: number; hash: string }>()
+
+export const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex')
+
+export async function hashLocalFile(full: string, maxFileBytes: number): Promise<LocalFile | null> {
+  let stat
+  try {
+    stat = await fs.lstat(full)
+  } catch {
+    return null
+  }
+  if (!stat.isFile() || stat.size > maxFileBytes) return null
+
+  const cached = hashCache.get(full)
+  if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) return { hash: cached.hash, size: stat.size }
+  const hash = sha256(await fs.readFile(full))
+  hashCache.set(full, { size: stat.size, mtimeMs: stat.mtimeMs, hash })
+  return { hash, size: stat.size }
+}
+
+export interface LocalScan {
+  /** Keyed by posix relative path */
+  files: Map<string, LocalFile>
+  /** Paths that exist but aren't synced: symlinks and files over maxFileBytes */
+  skipped: Set<string>
+}
+
+/** Every file under `root` the server would sync, plus what exists but is skipped. */
+export async function scanLocal(root: string, rules: ScanRules): Promise<LocalScan> {
+  const ignoredDirs = new Set(rules.ignoredDirs)
+  const ignoredFiles = new Set(rules.ignoredFiles)
+  const files = new Map<string, LocalFile>()
+  const skipped = new Set<string>()
+  const toPath = (full: string) => relative(root, full).split(sep).join('/')
+
+  const walk = async (dir: string) => {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => [])
+    for (const e of entries) {
+      if (ignoredDirs.has(e.name)) continue
+      const full = join(dir, e.name)
+      if (dir === root && ignoredFiles.has(e.name)) continue
+      if (e.isDirectory()) {
+        await walk(full)
+      } else if (e.isSymbolicLink()) {
+        skipped.add(toPath(full))
+      } else if (e.isFile()) {
+        const file = await hashLocalFile(full, rules.maxFileBytes)
+        if (file) files.set(toPath(full), file)
+        // Grown past the limit (or replaced since the listing): not a delete
+        else skipped.add(toPath(full))
+      }
+    }
+  }
+  await walk(root)
+  return { files, skipped }
+}
+
+/** Write through a temporary file so an editor never sees a half-written file. */
+export async function writeLocalFile(root: string, path: string, data: Buffer): Promise<void> {
+  const full = join(root, path)
+  await fs.mkdir(dirname(full), { recursive: true })
+  const temp = `${full}.auroracraft-${process.pid}.tmp`
+  await fs.writeFile(temp, data)
+  await fs.rename(temp, full)
+}
+
+/** Delete a file and any directories that leaves empty, up to `root`. */
+export async function removeLocalFile(root: string, path: string): Promise<void> {
+  const full = join(root, path)
+  await fs.rm(full, { force: true })
+  let dir = dirname(full)
+  while (dir.startsWith(root + sep)) {
+    try {
+      await fs.rmdir(dir)
+    } catch {
+      return
+    }
+    dir = dirname(dir)
+  }
+}
@@ -0,0 +1,52 @@
+import type { StreamEvent } from '../../client/src/types/index.js'
+
+export interface ServerSentEvent {
+  /** Durable event id, for resuming with Last-Event-ID */
+  id?: string
+  event: StreamEvent
+}
+
+/**
+ * Parse a text/event-stream body into StreamEvents. Only the `id:` and
+ * `data:` fields the server writes are handled; comments (heartbeats) and
+ * malformed payloads are skipped.
+ */
+export async function* readEvents(response: Response, signal?: AbortSignal): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) return
+  const decoder = new TextDecoder()
+  const reader = response.body.getReader()
+  const onAbort = () => { reader.cancel().catch(() => {}) }
+  signal?.addEventListener('abort', onAbort)
+
+  let buffer = ''
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) return
+      buffer += decoder.decode(value, { stream: true })
+
+      let boundary: number
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
+
+        let id: string | undefined
+        const data: string[] = []
+        for (const line of block.split('\n')) {
+          if (line.startsWith('id:')) id = line.slice(3).trim()
+          else if (line.startsWith('data:')) data.push(line.slice(5).trimStart())
+        }
+        if (data.length === 0) continue
+        try {
+          yield { id, event: JSON.parse(data.join('\n')) as StreamEvent }
+        } catch {
+          // ignore malformed events
+        }
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort)
+    // Closes the connection when the consumer stops early
+    reader.cancel().catch(() => {})
+  }
+}
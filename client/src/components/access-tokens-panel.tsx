@@ -0,0 +1,226 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { KeySquare, Copy, Plus, Trash2 } from 'lucide-react'
+import { useAccessTokens, type AccessToken, type CreatedAccessToken, type TokenScope } from '@/hooks/use-access-tokens'
+import { CustomSelect } from '@/components/ui/custom-select'
+import { cn } from '@/lib/utils'
+import type { ApiError } from '@/types'
+
+const EXPIRY_OPTIONS = [
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiration' },
+]
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+function tokenStatus(token: AccessToken): string {
+  const parts = [token.lastUsedAt ? `last used ${formatDate(token.lastUsedAt)}` : 'never used']
+  if (!token.expiresAt) parts.push('no expiration')
+  else if (new Date(token.expiresAt).getTime() < Date.now()) parts.push(`expired ${formatDate(token.expiresAt)}`)
+  else parts.push(`expires ${formatDate(token.expiresAt)}`)
+  return parts.join(' · ')
+}
+
+/** Create and revoke personal access tokens (Security page). */
+export function AccessTokensPanel() {
+  const { tokens, scopes, isLoading, create, revoke } = useAccessTokens()
+  const [creating, setCreating] = useState(false)
+  const [name, setName] = useState('')
+  const [selected, setSelected] = useState<TokenScope[]>([])
+  const [expiry, setExpiry] = useState('30')
+  const [created, setCreated] = useState<CreatedAccessToken | null>(null)
+  const [confirmRevoke, setConfirmRevoke] = useState<string | null>(null)
+
+  const toggleScope = (scope: TokenScope) =>
+    setSelected((current) => current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope])
+
+  const reset = () => {
+    setCreating(false)
+    setName('')
+    setSelected([])
+    setExpiry('30')
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const token = await create.mutateAsync({
+        name: name.trim(),
+        scopes: selected,
+        expiresInDays: expiry === 'never' ? null : Number(expiry),
+      })
+      reset()
+      setCreated(token)
+    } catch (err) {
+      toast.error((err as ApiError).message || 'Failed to create token')
+    }
+  }
+
+  const handleRevoke = async (tokenId: string) => {
+    try {
+      await revoke.mutateAsync(tokenId)
+      toast.success('Token revoked')
+    } catch (err) {
+      toast.error((err as ApiError).message || 'Failed to revoke token')
+    } finally {
+      setConfirmRevoke(null)
+    }
+  }
+
+  const copyToken = async () => {
+    if (!created) return
+    await navigator.clipboard.writeText(created.token)
+    toast.success('Token copied')
+  }
+
+  return (
+    <section className="rounded-xl border border-border bg-surface p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="font-semibold text-text">Personal access tokens</h2>
+          <p className="mt-1 text-sm text-text-muted">
+            Script AuroraCraft from CI or a terminal. Send a token as <code className="text-text">Authorization: Bearer &lt;token&gt;</code>; it can only reach what its scopes allow.
+          </p>
+        </div>
+        {!creating && (
+          <button
+            onClick={() => { setCreating(true); setCreated(null) }}
+            className="inline-flex shrink-0 items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary-hover"
+          >
+            <Plus className="h-4 w-4" /> New token
+          </button>
+        )}
+      </div>
+
+      {created && (
+        <div className="mt-4 rounded-lg border border-success/40 bg-success/10 p-4">
+          <p className="text-sm font-medium text-text">Copy &ldquo;{created.name}&rdquo; now — it won&apos;t be shown again.</p>
+          <div className="mt-3 flex items-center gap-2">
+            <code className="min-w-0 flex-1 truncate rounded-md border border-border bg-background px-3 py-2 font-mono text-sm text-text">
+              {created.token}
+            </code>
+            <button
+              onClick={copyToken}
+              className="inline-flex items-center gap-1.5 rounded-lg border border-border px-3 py-2 text-sm text-text-muted transition-colors hover:bg-surface-hover hover:text-text"
+            >
+              <Copy className="h-4 w-4" /> Copy
+            </button>
+          </div>
+        </div>
+      )}
+
+      {creating && (
+        <form onSubmit={handleCreate} className="mt-6 space-y-4 rounded-lg border border-border bg-background p-4">
+          <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+            <div>
+              <label htmlFor="token-name" className="mb-1.5 block text-sm font-medium text-text">Name</label>
+              <input
+                id="token-name"
+                required
+                autoFocus
+                maxLength={100}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. GitHub Actions build"
+                className="w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text placeholder:text-text-dim focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+              />
+            </div>
+            <CustomSelect label="Expiration" value={expiry} onChange={setExpiry} options={EXPIRY_OPTIONS} />
+          </div>
+
+          <fieldset>
+            <legend className="mb-2 text-sm font-medium text-text">Scopes</legend>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {scopes.map((scope) => (
+                <label
+                  key={scope.id}
+                  className={cn(
+                    'flex cursor-pointer items-start gap-3 rounded-lg border px-3 py-2 transition-colors',
+                    selected.includes(scope.id) ? 'border-primary bg-primary/5' : 'border-border hover:bg-surface-hover',
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(scope.id)}
+                    onChange={() => toggleScope(scope.id)}
+                    className="mt-1 accent-primary"
+                  />
+                  <span>
+                    <span className="block font-mono text-sm text-text">{scope.id}</span>
+                    <span className="block text-xs text-text-muted">{scope.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-text-dim">A write scope includes read access to the same area.</p>
+          </fieldset>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={create.isPending || selected.length === 0 || !name.trim()}
+              className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary-hover disabled:opacity-50"
+            >
+              {create.isPending ? 'Creating...' : 'Create token'}
+            </button>
+            <button
+              type="button"
+              onClick={reset}
+              className="rounded-lg border border-border px-4 py-2 text-sm text-text-muted transition-colors hover:bg-surface-hover hover:text-text"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <ul className="mt-4 divide-y divide-border">
+        {isLoading && <li className="py-3 text-sm text-text-muted">Loading...</li>}
+        {!isLoading && tokens.length === 0 && (
+          <li className="py-3 text-sm text-text-muted">No tokens yet.</li>
+        )}
+        {tokens.map((token) => (
+          <li key={token.id} className="flex items-center gap-4 py-3">
+            <KeySquare className="h-5 w-5 shrink-0 text-text-dim" />
+            <div className="min-w-0 flex-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-text">{token.name}</span>
+                <code className="text-xs text-text-dim">{token.tokenPrefix}…</code>
+              </div>
+              <div className="mt-1 flex flex-wrap gap-1">
+                {token.scopes.map((scope) => (
+                  <span key={scope} className="rounded bg-surface-hover px-1.5 py-0.5 font-mono text-[11px] text-text-muted">{scope}</span>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-text-muted" title={token.lastUsedIp ?? undefined}>{tokenStatus(token)}</p>
+            </div>
+            {confirmRevoke === token.id ? (
+              <div className="flex shrink-0 items-center gap-2">
+                <button
+                  onClick={() => handleRevoke(token.id)}
+                  disabled={revoke.isPending}
+                  className="rounded-md bg-destructive px-2.5 py-1 text-sm font-medium text-white transition-colors hover:bg-destructive/90 disabled:opacity-50"
+                >
+                  Revoke
+                </button>
+                <button onClick={() => setConfirmRevoke(null)} className="text-sm text-text-muted hover:text-text">Cancel</button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmRevoke(token.id)}
+                className="shrink-0 rounded-md p-1.5 text-text-muted transition-colors hover:bg-surface-hover hover:text-destructive"
+                title="Revoke token"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
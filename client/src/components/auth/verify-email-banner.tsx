@@ -0,0 +1,33 @@
+import { MailWarning } from 'lucide-react'
+import { useAuth, useResendVerification } from '@/hooks/use-auth'
+
+/** Reminder for accounts whose email isn't verified yet; paid features wait for it. */
+export function VerifyEmailBanner() {
+  const { user } = useAuth()
+  const resend = useResendVerification()
+
+  if (!user || user.emailVerified !== false) return null
+
+  return (
+    <div className="border-b border-warning/30 bg-warning/10 px-4 py-2">
+      <div className="mx-auto flex max-w-7xl flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+        <MailWarning className="h-4 w-4 shrink-0 text-warning" />
+        <span className="text-text">
+          Verify <span className="font-medium">{user.email}</span> to unlock paid features.
+        </span>
+        {resend.isSuccess ? (
+          <span className="text-text-muted">Sent — check your inbox.</span>
+        ) : (
+          <button
+            onClick={() => resend.mutate()}
+            disabled={resend.isPending}
+            className="font-medium text-primary hover:text-primary-hover disabled:opacity-50"
+          >
+            {resend.isPending ? 'Sending...' : 'Resend email'}
+          </button>
+        )}
+        {resend.error && <span className="text-destructive">{resend.error.message}</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+import { useEffect, useRef, useState } from 'react'
+import { Package, Play, Loader2, CheckCircle2, XCircle, Ban, Download, ScrollText, Square, X, Wand2 } from 'lucide-react'
+import { useBuilds, useBuildLog, useDiagnostics, artifactDownloadUrl } from '@/hooks/use-builds'
+import type { ApiError, Build, BuildDiagnostic } from '@/types'
+
+const TOOL_LABELS: Record<string, string> = { maven: 'Maven', gradle: 'Gradle', both: 'Maven + Gradle' }
+
+function formatDuration(ms: number | null) {
+  if (ms == null) return ''
+  const s = Math.round(ms / 1000)
+  return s < 60 ? `${s}s` : `${Math.floor(s / 60)}m ${s % 60}s`
+}
+
+function formatSize(bytes: number) {
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function StatusIcon({ status }: { status: Build['status'] }) {
+  if (status === 'running') return <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin text-primary" />
+  if (status === 'success') return <CheckCircle2 className="h-3.5 w-3.5 shrink-0 text-success" />
+  if (status === 'cancelled') return <Ban className="h-3.5 w-3.5 shrink-0 text-text-dim" />
+  return <XCircle className="h-3.5 w-3.5 shrink-0 text-destructive" />
+}
+
+function BuildLogModal({ projectId, build, onClose, onDone }: { projectId: string; build: Build; onClose: () => void; onDone: () => void }) {
+  const { log, done, error } = useBuildLog(projectId, build.id, onDone)
+  const preRef = useRef<HTMLPreElement>(null)
+
+  useEffect(() => {
+    if (preRef.current) preRef.current.scrollTop = preRef.current.scrollHeight
+  }, [log])
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div className="flex h-[80vh] w-full max-w-4xl flex-col rounded-lg border border-border bg-surface shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2 border-b border-border px-4 py-3">
+          <StatusIcon status={done ? (error ? 'failed' : 'success') : build.status} />
+          <span className="text-sm font-medium text-text">{TOOL_LABELS[build.tool] ?? build.tool} build</span>
+          <span className="text-xs text-text-dim">{new Date(build.createdAt).toLocaleString()}</span>
+          <button onClick={onClose} className="ml-auto rounded-md p-1 text-text-dim hover:text-text-muted" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <pre ref={preRef} className="flex-1 overflow-auto whitespace-pre-wrap break-words bg-background p-4 font-mono text-xs text-text-muted">
+          {log || (done ? 'No output.' : 'Waiting for output…')}
+        </pre>
+        {error && <div className="border-t border-border px-4 py-2 text-xs text-destructive">{error}</div>}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Workspace build menu: runs a server-side build with the project's configured
+ * compiler and lists recent builds with their artifacts and logs.
+ * `compact` renders the icon-only trigger used in the mobile header.
+ * `onFixDiagnostics` hands the latest build's compiler diagnostics to the
+ * workspace's error-fix flow.
+ */
+export function BuildMenu({
+  projectId,
+  compact = false,
+  disabled = false,
+  onNotify,
+  onFixDiagnostics,
+}: {
+  projectId: string
+  compact?: boolean
+  disabled?: boolean
+  onNotify?: (message: string, type: 'success' | 'error' | 'info') => void
+  onFixDiagnostics?: (diagnostics: BuildDiagnostic[]) => void
+}) {
+  const { builds, activeBuild, invalidate, start, isStarting, cancel } = useBuilds(projectId)
+  const { buildId: diagnosticsBuildId, diagnostics } = useDiagnostics(projectId)
+  const [open, setOpen] = useState(false)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [logBuild, setLogBuild] = useState<Build | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false)
+    }
+    if (open) document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [open])
+
+  const handleStart = async () => {
+    try {
+      const { buildId } = await start(undefined)
+      setExpanded(buildId)
+      onNotify?.('Build started', 'info')
+    } catch (err) {
+      onNotify?.((err as ApiError).message || 'Failed to start build', 'error')
+    }
+  }
+
+  const handleCancel = async (buildId: string) => {
+    try {
+      await cancel(buildId)
+    } catch (err) {
+      onNotify?.((err as ApiError).message || 'Failed to cancel build', 'error')
+    }
+  }
+
+  const running = !!activeBuild || isStarting
+
+  return (
+    <div className="relative" ref={menuRef}>
+      {compact ? (
+        <button
+          onClick={() => !disabled && setOpen(!open)}
+          disabled={disabled}
+          className="rounded-md p-1.5 text-text-dim hover:text-text-muted disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Builds"
+        >
+          {running ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Package className="h-3.5 w-3.5" />}
+        </button>
+      ) : (
+        <button
+          onClick={() => !disabled && setOpen(!open)}
+          disabled={disabled}
+          className="inline-flex items-center gap-1.5 rounded-md bg-success/10 px-3 py-1.5 text-xs font-medium text-success transition-colors hover:bg-success/20 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Build plugin"
+        >
+          {running ? <Loader2 className="h-3 w-3 animate-spin" /> : <Play className="h-3 w-3" />}
+          Compile
+        </button>
+      )}
+
+      {open && (
+        <div className="absolute right-0 top-full z-50 mt-1 w-80 rounded-md border border-border bg-surface shadow-lg">
+          <div className="flex items-center gap-2 border-b border-border px-3 py-2">
+            <span className="text-xs font-medium text-text">Builds</span>
+            {activeBuild ? (
+              <button
+                onClick={() => handleCancel(activeBuild.id)}
+                className="ml-auto inline-flex items-center gap-1 rounded bg-destructive px-2 py-1 text-xs text-destructive-foreground hover:bg-destructive/80"
+              >
+                <Square className="h-3 w-3" /> Cancel
+              </button>
+            ) : (
+              <button
+                onClick={handleStart}
+                disabled={isStarting || disabled}
+                className="ml-auto inline-flex items-center gap-1 rounded bg-primary px-2 py-1 text-xs text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              >
+                {isStarting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Play className="h-3 w-3" />} Run build
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto">
+            {builds.length === 0 ? (
+              <p className="px-3 py-4 text-center text-xs text-text-dim">No builds yet</p>
+            ) : (
+              builds.map((b) => (
+                <div key={b.id} className="border-b border-border last:border-b-0">
+                  <button
+                    onClick={() => setExpanded(expanded === b.id ? null : b.id)}
+                    className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs hover:bg-surface-hover"
+                  >
+                    <StatusIcon status={b.status} />
+                    <span className="text-text">{TOOL_LABELS[b.tool] ?? b.tool}</span>
+                    <span className="truncate text-text-dim">{new Date(b.createdAt).toLocaleString()}</span>
+                    <span className="ml-auto shrink-0 text-text-dim">{formatDuration(b.durationMs)}</span>
+                  </button>
+                  {expanded === b.id && (
+                    <div className="space-y-1 px-3 pb-2">
+                      {b.error && <p className="text-xs text-destructive">{b.error}</p>}
+                      {b.artifacts.map((a) => (
+                        <a
+                          key={`${a.tool}:${a.name}`}
+                          href={artifactDownloadUrl(projectId, b.id, a.name)}
+                          download
+                          className="flex items-center gap-1.5 rounded px-2 py-1 text-xs text-text-muted hover:bg-surface-hover hover:text-text"
+                        >
+                          <Download className="h-3 w-3 shrink-0" />
+                          <span className="truncate">{a.name}</span>
+                          <span className="ml-auto shrink-0 text-text-dim">{formatSize(a.size)}</span>
+                        </a>
+                      ))}
+                      {onFixDiagnostics && b.id === diagnosticsBuildId && diagnostics.length > 0 && (
+                        <button
+                          onClick={() => {
+                            setOpen(false)
+                            onFixDiagnostics(diagnostics)
+                          }}
+                          disabled={disabled}
+                          className="flex items-center gap-1.5 rounded px-2 py-1 text-xs text-primary hover:bg-primary/10 disabled:opacity-50"
+                        >
+                          <Wand2 className="h-3 w-3" /> Fix {diagnostics.length} problem{diagnostics.length !== 1 ? 's' : ''} with AI
+                        </button>
+                      )}
+                      {b.status === 'success' && b.artifacts.length === 0 && (
+                        <p className="text-xs text-text-dim">Build produced no JAR</p>
+                      )}
+                      <button
+                        onClick={() => setLogBuild(b)}
+                        className="flex items-center gap-1.5 rounded px-2 py-1 text-xs text-text-muted hover:bg-surface-hover hover:text-text"
+                      >
+                        <ScrollText className="h-3 w-3" /> {b.status === 'running' ? 'Follow log' : 'View log'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      {logBuild && (
+        <BuildLogModal projectId={projectId} build={logBuild} onClose={() => setLogBuild(null)} onDone={invalidate} />
+      )}
+    </div>
+  )
+}
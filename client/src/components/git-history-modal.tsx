@@ -0,0 +1,225 @@
+import { useState } from 'react'
+import { History, X, Loader2, Undo2, ArchiveRestore, ChevronDown, ChevronRight, AlertCircle } from 'lucide-react'
+import { GlassyConfirmModal } from '@/components/ui/glassy'
+import { PatchView } from '@/components/patch-view'
+import { useCommitLog, useCommit, useRevertCommit, useRestoreFile, type GitFileDiff } from '@/hooks/use-git-history'
+import { cn } from '@/lib/utils'
+import type { ApiError } from '@/types'
+
+const STATUS_LETTERS: Record<GitFileDiff['status'], { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-success' },
+  modified: { letter: 'M', className: 'text-warning' },
+  deleted: { letter: 'D', className: 'text-destructive' },
+  renamed: { letter: 'R', className: 'text-primary' },
+}
+
+type PendingAction = { kind: 'revert' } | { kind: 'restore'; path: string }
+
+function FileDiff({ file, canRestore, onRestore }: { file: GitFileDiff; canRestore: boolean; onRestore: () => void }) {
+  const [open, setOpen] = useState(true)
+  const status = STATUS_LETTERS[file.status]
+  return (
+    <div className="border-b border-border/50">
+      <div className="flex items-center gap-2 px-4 py-1.5 text-xs">
+        <button onClick={() => setOpen((o) => !o)} className="flex min-w-0 flex-1 items-center gap-2 text-left">
+          {open ? <ChevronDown className="h-3 w-3 shrink-0 text-text-dim" /> : <ChevronRight className="h-3 w-3 shrink-0 text-text-dim" />}
+          <span className={cn('w-3 shrink-0 font-mono font-semibold', status.className)}>{status.letter}</span>
+          <span className="truncate text-text-muted" title={file.path}>
+            {file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+          </span>
+        </button>
+        {!file.binary && (
+          <span className="shrink-0 font-mono text-[11px]">
+            <span className="text-success">+{file.additions}</span> <span className="text-destructive">−{file.deletions}</span>
+          </span>
+        )}
+        {canRestore && file.status !== 'deleted' && (
+          <button
+            onClick={onRestore}
+            className="flex shrink-0 items-center gap-1 rounded px-1.5 py-0.5 text-[11px] text-text-dim hover:bg-surface-hover hover:text-text-muted"
+            title="Restore the file to this version (as an uncommitted change)"
+          >
+            <ArchiveRestore className="h-3 w-3" />
+            Restore
+          </button>
+        )}
+      </div>
+      {open && (
+        file.binary ? (
+          <p className="px-4 pb-2 text-[11px] text-text-dim">Binary file</p>
+        ) : file.patch ? (
+          <PatchView patch={file.patch.trimEnd()} truncated={file.truncated} className="max-h-[50vh] py-2" />
+        ) : null
+      )}
+    </div>
+  )
+}
+
+/**
+ * Browse the project's git log and what each commit changed; editors can
+ * revert a commit or restore a single file to a past version. With
+ * `filePath`, shows only that file's history.
+ */
+export function GitHistoryModal({ projectId, filePath, initialSha, readOnly, onClose, onNotify }: {
+  projectId: string
+  filePath: string | null
+  initialSha?: string | null
+  readOnly?: boolean
+  onClose: () => void
+  onNotify?: (message: string, type?: 'success' | 'error' | 'info') => void
+}) {
+  const log = useCommitLog(projectId, filePath)
+  const commits = log.data?.pages.flatMap((p) => p.commits) ?? []
+  const [selectedSha, setSelectedSha] = useState<string | null>(initialSha ?? null)
+  const sha = selectedSha ?? commits[0]?.sha ?? null
+  const { data: commit, isLoading: commitLoading, error: commitError } = useCommit(projectId, sha, filePath)
+
+  const revert = useRevertCommit(projectId)
+  const restore = useRestoreFile(projectId)
+  const [pending, setPending] = useState<PendingAction | null>(null)
+  const [actionError, setActionError] = useState('')
+
+  const handleConfirm = () => {
+    if (!pending || !commit) return
+    const action = pending
+    setPending(null)
+    setActionError('')
+    if (action.kind === 'revert') {
+      revert.mutate(commit.sha, {
+        onSuccess: (data) => {
+          setSelectedSha(data.sha)
+          onNotify?.(`Reverted ${commit.shortSha}`, 'success')
+        },
+        onError: (err) => setActionError((err as unknown as ApiError).message || 'Failed to revert commit'),
+      })
+    } else {
+      restore.mutate({ sha: commit.sha, path: action.path }, {
+        onSuccess: (data) => onNotify?.(`Restored ${data.path} from ${commit.shortSha}`, 'success'),
+        onError: (err) => setActionError((err as unknown as ApiError).message || 'Failed to restore file'),
+      })
+    }
+  }
+
+  const busy = revert.isPending || restore.isPending
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div className="flex h-[80vh] w-full max-w-6xl flex-col rounded-lg border border-border bg-surface shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2 border-b border-border px-4 py-3">
+          <History className="h-4 w-4 text-primary" />
+          <span className="truncate text-sm font-medium text-text">
+            {filePath ? <>History of <span className="font-mono">{filePath}</span></> : 'Commit history'}
+          </span>
+          <button onClick={onClose} className="ml-auto rounded-md p-1 text-text-dim hover:text-text-muted" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="flex min-h-0 flex-1">
+          <div className="w-80 shrink-0 overflow-y-auto border-r border-border">
+            {log.isLoading ? (
+              <div className="flex h-full items-center justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-text-dim" />
+              </div>
+            ) : log.error ? (
+              <p className="p-4 text-xs text-destructive">{(log.error as unknown as ApiError).message || 'Failed to load history'}</p>
+            ) : commits.length === 0 ? (
+              <p className="p-4 text-xs text-text-dim">{filePath ? 'No commits touch this file yet.' : 'Nothing has been committed yet.'}</p>
+            ) : (
+              <>
+                {commits.map((c) => (
+                  <button
+                    key={c.sha}
+                    onClick={() => { setSelectedSha(c.sha); setActionError('') }}
+                    className={cn(
+                      'block w-full border-b border-border/50 px-4 py-2 text-left hover:bg-surface-hover',
+                      c.sha === sha && 'bg-surface-hover',
+                    )}
+                  >
+                    <p className="truncate text-xs text-text">{c.subject || '(no message)'}</p>
+                    <p className="mt-0.5 truncate text-[11px] text-text-dim">
+                      <span className="font-mono">{c.shortSha}</span> · {c.author} · {new Date(c.date).toLocaleString()}
+                    </p>
+                  </button>
+                ))}
+                {log.hasNextPage && (
+                  <button
+                    onClick={() => log.fetchNextPage()}
+                    disabled={log.isFetchingNextPage}
+                    className="flex w-full items-center justify-center gap-1.5 py-2 text-xs text-text-dim hover:text-text-muted disabled:opacity-50"
+                  >
+                    {log.isFetchingNextPage && <Loader2 className="h-3 w-3 animate-spin" />}
+                    Load older commits
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="min-w-0 flex-1 overflow-y-auto">
+            {commitLoading ? (
+              <div className="flex h-full items-center justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-text-dim" />
+              </div>
+            ) : commitError ? (
+              <p className="p-4 text-xs text-destructive">{(commitError as unknown as ApiError).message || 'Failed to load commit'}</p>
+            ) : commit ? (
+              <>
+                <div className="border-b border-border px-4 py-3">
+                  <div className="flex items-start gap-3">
+                    <pre className="min-w-0 flex-1 whitespace-pre-wrap break-words font-sans text-sm text-text">{commit.message || '(no message)'}</pre>
+                    {!readOnly && (
+                      <button
+                        onClick={() => setPending({ kind: 'revert' })}
+                        disabled={busy}
+                        className="flex shrink-0 items-center gap-1.5 rounded-md border border-border px-2.5 py-1 text-xs text-text-muted hover:bg-surface-hover disabled:opacity-50"
+                        title="Commit the inverse of this commit on the current branch"
+                      >
+                        {revert.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Undo2 className="h-3 w-3" />}
+                        Revert
+                      </button>
+                    )}
+                  </div>
+                  <p className="mt-1.5 text-[11px] text-text-dim">
+                    <span className="font-mono">{commit.sha}</span> · {commit.author} &lt;{commit.authorEmail}&gt; · {new Date(commit.date).toLocaleString()}
+                    {commit.parents.length > 1 && ' · merge (diff against first parent)'}
+                  </p>
+                  {actionError && (
+                    <p className="mt-2 flex items-center gap-1.5 text-xs text-destructive">
+                      <AlertCircle className="h-3 w-3 shrink-0" />
+                      {actionError}
+                    </p>
+                  )}
+                </div>
+                {commit.files.length === 0 ? (
+                  <p className="p-4 text-xs text-text-dim">No file changes.</p>
+                ) : (
+                  commit.files.map((file) => (
+                    <FileDiff
+                      key={file.path}
+                      file={file}
+                      canRestore={!readOnly && !busy}
+                      onRestore={() => setPending({ kind: 'restore', path: file.path })}
+                    />
+                  ))
+                )}
+              </>
+            ) : null}
+          </div>
+        </div>
+
+        <GlassyConfirmModal
+          isOpen={pending !== null}
+          onClose={() => setPending(null)}
+          onConfirm={handleConfirm}
+          title={pending?.kind === 'restore' ? 'Restore file' : 'Revert commit'}
+          description={pending?.kind === 'restore'
+            ? `Replace the current contents of ${pending.path} with the version from ${commit?.shortSha}? The change is left uncommitted.`
+            : `Create a new commit that undoes ${commit?.shortSha} "${commit?.subject}"?`}
+          icon={pending?.kind === 'restore' ? ArchiveRestore : Undo2}
+          confirmText={pending?.kind === 'restore' ? 'Restore' : 'Revert'}
+        />
+      </div>
+    </div>
+  )
+}
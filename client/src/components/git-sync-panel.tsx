@@ -0,0 +1,277 @@
+import { useEffect, useState } from 'react'
+import { Download, GitMerge, X, Loader2, AlertCircle, Bot, Ban, ArrowRight, FileWarning } from 'lucide-react'
+import { GlassyConfirmModal } from '@/components/ui/glassy'
+import { useFetchRemote, usePull, useContinueSync, useAbortSync, sideLabels, type ConflictFile, type SyncOperation, type SyncResult } from '@/hooks/use-git-sync'
+import { cn } from '@/lib/utils'
+import type { ApiError } from '@/types'
+
+const KIND_LABELS: Record<ConflictFile['kind'], string> = {
+  'both-modified': 'both modified',
+  'both-added': 'both added',
+  'both-deleted': 'both deleted',
+  'added-by-us': 'added by us',
+  'added-by-them': 'added by them',
+  'deleted-by-us': 'deleted by us',
+  'deleted-by-them': 'deleted by them',
+}
+
+function describeResult(result: SyncResult, branch: string): string {
+  if (result.status === 'up-to-date') return `Already up to date with origin/${branch}`
+  if (result.status === 'pulled') return `Pulled origin/${branch} (${result.files.length} file${result.files.length === 1 ? '' : 's'} changed)`
+  return `${result.conflicts.length} file${result.conflicts.length === 1 ? '' : 's'} need${result.conflicts.length === 1 ? 's' : ''} resolving`
+}
+
+/** Prompt that hands the conflicted files to the agent; the user reviews and marks them resolved. */
+function conflictPrompt(operation: SyncOperation, branch: string, conflicts: ConflictFile[]): string {
+  const labels = sideLabels(operation, branch)
+  return [
+    `A git ${operation} with origin/${branch} stopped on conflicts in these files:`,
+    ...conflicts.map((c) => `- ${c.path} (${KIND_LABELS[c.kind]})`),
+    '',
+    `In each file, the part between <<<<<<< and ======= is "${labels.ours}" and the part between ======= and >>>>>>> is "${labels.theirs}".`,
+    'Resolve every conflict by keeping the right combination of both changes, then remove all the markers.',
+    'Where a file was deleted on one side, decide whether it should still exist and say so.',
+    'Do not run any git commands (no add, commit, merge or rebase) — I will review the files and mark them resolved.',
+  ].join('\n')
+}
+
+/** Fetch the connected branch and merge or rebase the workspace onto it. */
+export function PullModal({ projectId, branch, onClose, onPulled, onNotify }: {
+  projectId: string
+  branch: string
+  onClose: () => void
+  onPulled: (result: SyncResult) => void
+  onNotify?: (message: string, type?: 'success' | 'error' | 'info') => void
+}) {
+  const [strategy, setStrategy] = useState<SyncOperation>('merge')
+  const [error, setError] = useState('')
+  const pull = usePull(projectId)
+  const { mutate: fetchNow, data: fetched, isPending: fetching, error: fetchError } = useFetchRemote(projectId)
+
+  // Fetch on open so the ahead/behind counts are current
+  useEffect(() => {
+    fetchNow()
+  }, [fetchNow])
+
+  const handlePull = () => {
+    setError('')
+    pull.mutate(strategy, {
+      onSuccess: (result) => {
+        onNotify?.(describeResult(result, branch), result.status === 'conflicts' ? 'info' : 'success')
+        onPulled(result)
+      },
+      onError: (err) => setError((err as unknown as ApiError).message || 'Failed to pull'),
+    })
+  }
+
+  const option = (value: SyncOperation, title: string, description: string) => (
+    <label
+      className={cn(
+        'flex cursor-pointer gap-3 rounded-md border px-3 py-2',
+        strategy === value ? 'border-primary bg-primary/5' : 'border-border hover:bg-surface-hover',
+      )}
+    >
+      <input type="radio" name="pull-strategy" checked={strategy === value} onChange={() => setStrategy(value)} className="mt-0.5" />
+      <span>
+        <span className="block text-sm text-text">{title}</span>
+        <span className="block text-xs text-text-dim">{description}</span>
+      </span>
+    </label>
+  )
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div className="w-full max-w-md rounded-lg border border-border bg-surface p-6 shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <h2 className="mb-1 text-lg font-semibold text-text">Pull from GitHub</h2>
+        <p className="mb-4 text-sm text-text-muted">
+          Bring new commits from <span className="font-mono">origin/{branch}</span> into the workspace. Uncommitted changes are set aside and put back afterwards.
+        </p>
+        <p className="mb-4 flex items-center gap-1.5 text-xs text-text-dim">
+          {fetching ? (
+            <><Loader2 className="h-3 w-3 animate-spin" /> Checking origin/{branch}…</>
+          ) : fetchError ? (
+            <span className="text-destructive">{(fetchError as unknown as ApiError).message || 'Failed to fetch from the remote'}</span>
+          ) : fetched ? (
+            fetched.behind === 0
+              ? 'Already up to date.'
+              : `${fetched.behind} new commit${fetched.behind === 1 ? '' : 's'} on the remote; ${fetched.ahead} local commit${fetched.ahead === 1 ? '' : 's'} not pushed yet.`
+          ) : null}
+        </p>
+        <div className="space-y-2">
+          {option('merge', 'Merge', 'Keep your commits as they are and add a merge commit.')}
+          {option('rebase', 'Rebase', 'Replay your commits on top of the remote for a linear history.')}
+        </div>
+        {error && (
+          <p className="mt-3 flex items-start gap-1.5 text-xs text-destructive">
+            <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" />
+            {error}
+          </p>
+        )}
+        <div className="mt-5 flex justify-end gap-2">
+          <button onClick={onClose} className="rounded-md px-4 py-2 text-sm text-text-muted hover:bg-surface-hover">
+            Cancel
+          </button>
+          <button
+            onClick={handlePull}
+            disabled={pull.isPending}
+            className="flex items-center gap-1.5 rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary-hover disabled:opacity-50"
+          >
+            {pull.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            {pull.isPending ? 'Pulling...' : 'Pull'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Sidebar list of the files a stopped merge/rebase left conflicted, with
+ * continue/abort and a hand-off to the agent.
+ */
+export function ConflictsPanel({ projectId, operation, branch, conflicts, activePath, readOnly, onOpenConflict, onAskAgent, onClose, onNotify }: {
+  projectId: string
+  operation: SyncOperation
+  branch: string
+  conflicts: ConflictFile[]
+  activePath: string | null
+  readOnly?: boolean
+  onOpenConflict: (path: string) => void
+  onAskAgent: (prompt: string) => void
+  onClose: () => void
+  onNotify?: (message: string, type?: 'success' | 'error' | 'info') => void
+}) {
+  const continueSync = useContinueSync(projectId)
+  const abortSync = useAbortSync(projectId)
+  const [confirmAbort, setConfirmAbort] = useState(false)
+  const [prompt, setPrompt] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const busy = continueSync.isPending || abortSync.isPending
+
+  const handleContinue = () => {
+    setError('')
+    continueSync.mutate(undefined, {
+      onSuccess: (result) => onNotify?.(describeResult(result, branch), result.status === 'conflicts' ? 'info' : 'success'),
+      onError: (err) => setError((err as unknown as ApiError).message || `Failed to continue the ${operation}`),
+    })
+  }
+
+  const handleAbort = () => {
+    setConfirmAbort(false)
+    setError('')
+    abortSync.mutate(undefined, {
+      onSuccess: () => onNotify?.(`Aborted the ${operation}`, 'info'),
+      onError: (err) => setError((err as unknown as ApiError).message || `Failed to abort the ${operation}`),
+    })
+  }
+
+  return (
+    <div className="flex h-full flex-col bg-surface py-2">
+      <div className="mb-2 flex items-center justify-between px-3">
+        <p className="text-xs font-medium uppercase tracking-wider text-text-dim">
+          {operation === 'rebase' ? 'Rebase' : 'Merge'} conflicts
+        </p>
+        <button onClick={onClose} className="rounded p-0.5 text-text-dim hover:text-text-muted" title="Back to files">
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+      <p className="mb-2 px-3 text-[11px] text-text-dim">
+        {conflicts.length > 0
+          ? `Pulling origin/${branch} stopped on ${conflicts.length} conflicted file${conflicts.length === 1 ? '' : 's'}. Open one to resolve it.`
+          : `All conflicts are resolved. Continue to finish the ${operation}.`}
+      </p>
+
+      <div className="min-h-0 flex-1 overflow-y-auto">
+        {conflicts.map((c) => (
+          <button
+            key={c.path}
+            onClick={() => onOpenConflict(c.path)}
+            className={cn(
+              'flex w-full items-center gap-2 px-3 py-1 text-left text-xs hover:bg-surface-hover',
+              c.path === activePath && 'bg-surface-hover',
+            )}
+            title={c.path}
+          >
+            <FileWarning className="h-3.5 w-3.5 shrink-0 text-warning" />
+            <span className="min-w-0 flex-1 truncate text-text-muted">{c.path}</span>
+            <span className="shrink-0 text-[10px] text-text-dim">{KIND_LABELS[c.kind]}</span>
+          </button>
+        ))}
+      </div>
+
+      {prompt !== null && (
+        <div className="border-t border-border px-3 pt-2">
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            rows={8}
+            className="w-full resize-none rounded border border-border bg-background px-2 py-1 text-[11px] text-text focus:border-primary focus:outline-none"
+          />
+          <div className="mt-1 flex justify-end gap-1.5">
+            <button onClick={() => setPrompt(null)} className="rounded px-2 py-1 text-[11px] text-text-dim hover:text-text-muted">
+              Cancel
+            </button>
+            <button
+              onClick={() => { onAskAgent(prompt); setPrompt(null) }}
+              disabled={!prompt.trim()}
+              className="flex items-center gap-1 rounded bg-primary px-2 py-1 text-[11px] font-medium text-primary-foreground hover:bg-primary-hover disabled:opacity-50"
+            >
+              <Bot className="h-3 w-3" />
+              Send to agent
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="flex items-start gap-1.5 px-3 pt-2 text-[11px] text-destructive">
+          <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {!readOnly && (
+        <div className="flex flex-wrap gap-1.5 border-t border-border px-3 pt-2">
+          {conflicts.length > 0 && prompt === null && (
+            <button
+              onClick={() => setPrompt(conflictPrompt(operation, branch, conflicts))}
+              disabled={busy}
+              className="flex items-center gap-1 rounded-md border border-border px-2 py-1 text-[11px] text-text-muted hover:bg-surface-hover disabled:opacity-50"
+              title="Ask the agent to resolve the conflict markers"
+            >
+              <Bot className="h-3 w-3" />
+              Ask the agent
+            </button>
+          )}
+          <button
+            onClick={() => setConfirmAbort(true)}
+            disabled={busy}
+            className="flex items-center gap-1 rounded-md border border-destructive/30 px-2 py-1 text-[11px] text-destructive hover:bg-destructive/10 disabled:opacity-50"
+          >
+            {abortSync.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Ban className="h-3 w-3" />}
+            Abort
+          </button>
+          <button
+            onClick={handleContinue}
+            disabled={busy || conflicts.length > 0}
+            className="ml-auto flex items-center gap-1 rounded-md bg-primary/10 px-2 py-1 text-[11px] font-medium text-primary hover:bg-primary/20 disabled:opacity-50"
+            title={conflicts.length > 0 ? 'Resolve every file first' : `Finish the ${operation}`}
+          >
+            {continueSync.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <ArrowRight className="h-3 w-3" />}
+            Continue
+          </button>
+        </div>
+      )}
+
+      <GlassyConfirmModal
+        isOpen={confirmAbort}
+        onClose={() => setConfirmAbort(false)}
+        onConfirm={handleAbort}
+        title={`Abort ${operation}`}
+        description="Undo the pull and put the workspace back as it was before it? Conflict resolutions made so far are lost."
+        icon={GitMerge}
+        confirmText="Abort"
+      />
+    </div>
+  )
+}
@@ -1,10 +1,12 @@
 import { Outlet } from 'react-router'
 import { Navbar } from './navbar'
+import { VerifyEmailBanner } from '@/components/auth/verify-email-banner'
 
 export function AppLayout() {
   return (
     <>
       <Navbar />
+      <VerifyEmailBanner />
       <main className="flex-1">
         <Outlet />
       </main>
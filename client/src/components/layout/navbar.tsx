@@ -55,7 +55,13 @@ export function Navbar() {
                 </Link>
               )}
               <div className="ml-2 flex items-center gap-2 border-l border-border pl-4">
-                <span className="text-sm text-text-muted">{user?.username}</span>
+                <Link
+                  to="/settings/security"
+                  title="Security settings"
+                  className="text-sm text-text-muted transition-colors hover:text-text"
+                >
+                  {user?.username}
+                </Link>
                 <button
                   onClick={() => logout()}
                   className="rounded-md bg-surface px-3 py-1.5 text-sm text-text-muted transition-colors hover:bg-surface-hover hover:text-text"
@@ -123,6 +129,13 @@ export function Navbar() {
                     Admin Panel
                   </Link>
                 )}
+                <Link
+                  to="/settings/security"
+                  onClick={() => setMobileOpen(false)}
+                  className="rounded-md px-3 py-2 text-sm text-text-muted transition-colors hover:text-text"
+                >
+                  Security
+                </Link>
                 <button
                   onClick={() => { logout(); setMobileOpen(false) }}
                   className="rounded-md px-3 py-2 text-left text-sm text-text-muted transition-colors hover:text-text"
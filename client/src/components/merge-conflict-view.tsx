@@ -0,0 +1,198 @@
+import { useState } from 'react'
+import Editor from '@monaco-editor/react'
+import { GitMerge, Loader2, AlertCircle, Check, Trash2, RefreshCw, X } from 'lucide-react'
+import { GlassyConfirmModal } from '@/components/ui/glassy'
+import { useConflictVersions, useResolveConflict, sideLabels, type SyncOperation } from '@/hooks/use-git-sync'
+import { cn } from '@/lib/utils'
+import type { ApiError } from '@/types'
+
+const MARKER_RE = /^(<{7}|>{7})( |$)/gm
+
+const PANE_OPTIONS = {
+  minimap: { enabled: false },
+  fontSize: 13,
+  fontFamily: "'JetBrains Mono', 'Fira Code', ui-monospace, monospace",
+  scrollBeyondLastLine: false,
+  wordWrap: 'on',
+  padding: { top: 8 },
+  renderLineHighlight: 'line',
+} as const
+
+function SidePane({ label, content, language, className }: { label: string; content: string | null; language: string; className?: string }) {
+  return (
+    <div className={cn('flex min-w-0 flex-1 flex-col', className)}>
+      <div className="shrink-0 border-b border-border px-3 py-1 text-[11px] font-medium text-text-dim">{label}</div>
+      {content === null ? (
+        <p className="flex flex-1 items-center justify-center text-xs text-text-dim">Deleted on this side</p>
+      ) : (
+        <Editor height="100%" theme="vs-dark" language={language} value={content} options={{ ...PANE_OPTIONS, readOnly: true }} />
+      )}
+    </div>
+  )
+}
+
+/**
+ * Three-way view of one conflicted file: both sides (and optionally the
+ * common base) read-only on top, the editable result below, pre-filled with
+ * git's conflict markers. Resolve by editing the result, taking one side
+ * whole, or deleting the file.
+ */
+export function MergeConflictView({ projectId, path, operation, branch, language, readOnly, onResolved, onClose, onNotify }: {
+  projectId: string
+  path: string
+  operation: SyncOperation
+  branch: string
+  language: string
+  readOnly?: boolean
+  onResolved: (path: string) => void
+  onClose: () => void
+  onNotify?: (message: string, type?: 'success' | 'error' | 'info') => void
+}) {
+  const { data: versions, isLoading, error, refetch, isFetching } = useConflictVersions(projectId, path)
+  const resolve = useResolveConflict(projectId)
+  const [edited, setEdited] = useState<string | null>(null)
+  const [showBase, setShowBase] = useState(false)
+  const [confirmMarkers, setConfirmMarkers] = useState(false)
+  const [actionError, setActionError] = useState('')
+  const labels = sideLabels(operation, branch)
+
+  const result = edited ?? versions?.merged ?? ''
+  const markers = (result.match(MARKER_RE) ?? []).length
+
+  const submit = (resolution: { content: string } | { take: 'ours' | 'theirs' } | { delete: true }, message: string) => {
+    setActionError('')
+    resolve.mutate({ path, ...resolution }, {
+      onSuccess: () => {
+        onNotify?.(message, 'success')
+        onResolved(path)
+      },
+      onError: (err) => setActionError((err as unknown as ApiError).message || 'Failed to resolve the conflict'),
+    })
+  }
+
+  const handleMarkResolved = () => {
+    if (markers > 0 && !confirmMarkers) {
+      setConfirmMarkers(true)
+      return
+    }
+    setConfirmMarkers(false)
+    submit({ content: result }, `Resolved ${path}`)
+  }
+
+  const busy = resolve.isPending || !!readOnly
+  const oneSideDeleted = !!versions && (versions.ours === null || versions.theirs === null)
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex shrink-0 items-center gap-2 border-b border-border px-4 py-2">
+        <GitMerge className="h-3.5 w-3.5 shrink-0 text-warning" />
+        <span className="truncate font-mono text-xs text-text" title={path}>{path}</span>
+        {versions && (
+          <span className={cn('shrink-0 text-[10px]', markers > 0 ? 'text-warning' : 'text-success')}>
+            {markers > 0 ? `${Math.ceil(markers / 2)} conflict${markers > 2 ? 's' : ''} left` : 'No markers left'}
+          </span>
+        )}
+        <div className="ml-auto flex shrink-0 items-center gap-1.5">
+          <button
+            onClick={() => setShowBase((b) => !b)}
+            className={cn('rounded px-1.5 py-0.5 text-[11px] text-text-dim hover:text-text-muted', showBase && 'bg-primary/20 text-primary')}
+            title="Show the common ancestor both sides started from"
+          >
+            Base
+          </button>
+          <button
+            onClick={() => { setEdited(null); refetch() }}
+            className="rounded p-0.5 text-text-dim hover:text-text-muted"
+            title="Reload from disk (discards edits to the result)"
+          >
+            <RefreshCw className={cn('h-3.5 w-3.5', isFetching && 'animate-spin')} />
+          </button>
+          <button onClick={onClose} className="rounded p-0.5 text-text-dim hover:text-text-muted" title="Close">
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-1 items-center justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-text-dim" />
+        </div>
+      ) : error || !versions ? (
+        <div className="flex flex-1 flex-col items-center justify-center text-center">
+          <AlertCircle className="h-6 w-6 text-destructive" />
+          <p className="mt-2 text-sm text-text-muted">{(error as unknown as ApiError)?.message || 'Failed to load the conflicted file'}</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex min-h-0 flex-1 divide-x divide-border border-b border-border">
+            <SidePane label={labels.ours} content={versions.ours} language={language} />
+            {showBase && <SidePane label="Base" content={versions.base} language={language} />}
+            <SidePane label={labels.theirs} content={versions.theirs} language={language} />
+          </div>
+
+          <div className="flex shrink-0 flex-wrap items-center gap-1.5 border-b border-border px-3 py-1.5">
+            <span className="mr-auto text-[11px] font-medium text-text-dim">Result</span>
+            <button
+              onClick={() => submit({ take: 'ours' }, `Took ${labels.ours.toLowerCase()} for ${path}`)}
+              disabled={busy || versions.ours === null}
+              className="rounded-md border border-border px-2 py-0.5 text-[11px] text-text-muted hover:bg-surface-hover disabled:opacity-40"
+            >
+              Accept {labels.ours}
+            </button>
+            <button
+              onClick={() => submit({ take: 'theirs' }, `Took ${labels.theirs.toLowerCase()} for ${path}`)}
+              disabled={busy || versions.theirs === null}
+              className="rounded-md border border-border px-2 py-0.5 text-[11px] text-text-muted hover:bg-surface-hover disabled:opacity-40"
+            >
+              Accept {labels.theirs}
+            </button>
+            {oneSideDeleted && (
+              <button
+                onClick={() => submit({ delete: true }, `Deleted ${path}`)}
+                disabled={busy}
+                className="flex items-center gap-1 rounded-md border border-destructive/30 px-2 py-0.5 text-[11px] text-destructive hover:bg-destructive/10 disabled:opacity-40"
+              >
+                <Trash2 className="h-3 w-3" />
+                Delete file
+              </button>
+            )}
+            <button
+              onClick={handleMarkResolved}
+              disabled={busy || (versions.merged === null && edited === null)}
+              className="flex items-center gap-1 rounded-md bg-primary/10 px-2 py-0.5 text-[11px] font-medium text-primary hover:bg-primary/20 disabled:opacity-40"
+            >
+              {resolve.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Check className="h-3 w-3" />}
+              Mark resolved
+            </button>
+          </div>
+          {actionError && (
+            <div className="flex shrink-0 items-center gap-1.5 border-b border-destructive/10 bg-destructive/5 px-4 py-1.5 text-[11px] text-destructive">
+              <AlertCircle className="h-3 w-3 shrink-0" />
+              <span className="truncate">{actionError}</span>
+            </div>
+          )}
+          <div className="min-h-0 flex-1">
+            <Editor
+              height="100%"
+              theme="vs-dark"
+              language={language}
+              value={result}
+              onChange={(value) => setEdited(value ?? '')}
+              options={{ ...PANE_OPTIONS, readOnly: busy }}
+            />
+          </div>
+        </>
+      )}
+
+      <GlassyConfirmModal
+        isOpen={confirmMarkers}
+        onClose={() => setConfirmMarkers(false)}
+        onConfirm={handleMarkResolved}
+        title="Conflict markers left"
+        description={`The result still contains conflict markers. Mark ${path} resolved anyway?`}
+        icon={GitMerge}
+        confirmText="Mark resolved"
+      />
+    </div>
+  )
+}
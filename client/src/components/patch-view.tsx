@@ -0,0 +1,21 @@
+import { cn } from '@/lib/utils'
+
+function patchLineClass(line: string) {
+  if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff --git')) return 'text-text font-medium'
+  if (line.startsWith('+')) return 'bg-success/10 text-success'
+  if (line.startsWith('-')) return 'bg-destructive/10 text-destructive'
+  if (line.startsWith('@@')) return 'text-primary'
+  return 'text-text-muted'
+}
+
+/** Unified diff with added/removed/hunk lines coloured. */
+export function PatchView({ patch, truncated, className }: { patch: string; truncated?: boolean; className?: string }) {
+  return (
+    <pre className={cn('overflow-auto bg-background p-4 font-mono text-xs', className)}>
+      {patch.split('\n').map((line, i) => (
+        <div key={i} className={patchLineClass(line)}>{line || ' '}</div>
+      ))}
+      {truncated && <div className="mt-2 text-text-dim">… diff truncated</div>}
+    </pre>
+  )
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react'
+import { GitPullRequest, Loader2, AlertCircle, ExternalLink, Sparkles } from 'lucide-react'
+import { usePullRequestDraft, useCreatePullRequest, type CreatedPullRequest, type CreatePullRequestError, type PullRequestDraft, type PullRequestInfo } from '@/hooks/use-pull-requests'
+import { SecretFindings } from '@/components/secret-findings'
+import { cn } from '@/lib/utils'
+import type { ApiError, SecretFinding } from '@/types'
+
+const PR_STATE_STYLES: Record<PullRequestInfo['state'] | 'draft', string> = {
+  open: 'border-green-500 text-green-500',
+  draft: 'border-border text-text-dim',
+  merged: 'border-purple-500 text-purple-500',
+  closed: 'border-destructive text-destructive',
+}
+
+/** Link to the latest PR with its GitHub state, for the workspace header. */
+export function PullRequestBadge({ pr, compact }: { pr: PullRequestInfo; compact?: boolean }) {
+  const state = pr.state === 'open' && pr.draft ? 'draft' : pr.state
+  return (
+    <a
+      href={pr.url}
+      target="_blank"
+      rel="noreferrer"
+      className={cn('flex items-center gap-1 rounded-md border p-1.5 hover:bg-surface-hover', PR_STATE_STYLES[state], compact && 'border-transparent')}
+      title={`#${pr.number} ${pr.title} (${state}) — ${pr.headBranch} → ${pr.baseBranch}`}
+    >
+      <GitPullRequest className={compact ? 'h-3.5 w-3.5' : 'h-4 w-4'} />
+      <span className="text-[10px] font-medium">#{pr.number}{compact ? '' : ` ${state}`}</span>
+    </a>
+  )
+}
+
+const inputClass = 'w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-text placeholder:text-text-dim focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary'
+
+function PullRequestForm({ projectId, initial, onClose, onCreated }: {
+  projectId: string
+  initial: PullRequestDraft
+  onClose: () => void
+  onCreated: (pr: CreatedPullRequest) => void
+}) {
+  const [branch, setBranch] = useState(initial.branch)
+  const [title, setTitle] = useState(initial.title)
+  const [body, setBody] = useState(initial.body)
+  const [draft, setDraft] = useState(false)
+  const [error, setError] = useState('')
+  const [findings, setFindings] = useState<SecretFinding[]>([])
+  const [allowedFindings, setAllowedFindings] = useState<string[]>([])
+  const create = useCreatePullRequest(projectId)
+  const prefilled = !!initial.body
+
+  const handleCreate = () => {
+    setError('')
+    create.mutate({ title: title.trim(), body, branch: branch.trim(), draft, allowedFindings }, {
+      onSuccess: onCreated,
+      onError: (err) => {
+        const apiError = err as unknown as CreatePullRequestError
+        if (apiError.findings) {
+          setFindings(apiError.findings)
+          // Heuristic hits are pre-ticked; known credential formats need an explicit tick
+          setAllowedFindings((prev) => [...new Set([...prev, ...apiError.findings!.filter((f) => f.severity === 'warn').map((f) => f.id)])])
+          return
+        }
+        setFindings([])
+        setError(apiError.message || 'Failed to open the pull request')
+      },
+    })
+  }
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex items-end gap-2">
+          <div className="min-w-0 flex-1">
+            <label className="mb-1.5 block text-sm font-medium text-text">New branch</label>
+            <input value={branch} onChange={(e) => setBranch(e.target.value)} className={`${inputClass} font-mono`} />
+          </div>
+          <span className="pb-2 text-sm text-text-dim">→ <span className="font-mono">{initial.baseBranch}</span></span>
+        </div>
+        <div>
+          <label className="mb-1.5 block text-sm font-medium text-text">Title</label>
+          <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Add spawn protection" className={inputClass} />
+        </div>
+        <div>
+          <label className="mb-1.5 flex items-center gap-1.5 text-sm font-medium text-text">
+            Description
+            {prefilled && (
+              <span className="flex items-center gap-1 text-[11px] font-normal text-text-dim">
+                <Sparkles className="h-3 w-3" /> from the Assistant's session summary
+              </span>
+            )}
+          </label>
+          <textarea value={body} onChange={(e) => setBody(e.target.value)} rows={8} className={`${inputClass} resize-none`} />
+        </div>
+        <label className="flex cursor-pointer items-center gap-2 text-sm text-text-muted">
+          <input type="checkbox" checked={draft} onChange={(e) => setDraft(e.target.checked)} className="rounded border-border" />
+          Open as draft
+        </label>
+        <p className="text-xs text-text-dim">
+          Uncommitted changes are committed with the title as the message, then pushed to the new branch. The workspace stays on its current branch.
+        </p>
+        {findings.length > 0 && (
+          <SecretFindings
+            findings={findings}
+            allowed={allowedFindings}
+            onToggle={(id, allow) => setAllowedFindings((prev) => allow ? [...prev, id] : prev.filter((x) => x !== id))}
+          />
+        )}
+        {error && (
+          <p className="flex items-start gap-1.5 text-xs text-destructive">
+            <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" />
+            {error}
+          </p>
+        )}
+      </div>
+
+      <div className="mt-6 flex gap-3">
+        <button
+          onClick={onClose}
+          className="flex-1 rounded-lg border border-border px-4 py-2 text-sm font-medium text-text hover:bg-surface-hover"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleCreate}
+          disabled={!title.trim() || !branch.trim() || create.isPending}
+          className="flex flex-1 items-center justify-center gap-1.5 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          {create.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          {create.isPending ? 'Opening...' : 'Create pull request'}
+        </button>
+      </div>
+    </>
+  )
+}
+
+/**
+ * Push the workspace to a new branch and open a PR against the connected
+ * branch, instead of pushing (or force-pushing) straight to it.
+ */
+export function PullRequestModal({ projectId, onClose, onNotify }: {
+  projectId: string
+  onClose: () => void
+  onNotify?: (message: string, type?: 'success' | 'error' | 'info') => void
+}) {
+  const { data: initial, isLoading, error } = usePullRequestDraft(projectId)
+  const [created, setCreated] = useState<PullRequestInfo | null>(null)
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div className="w-full max-w-lg rounded-lg border border-border bg-surface p-6 shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold text-text">
+          <GitPullRequest className="h-5 w-5 text-primary" />
+          {created ? `Pull request #${created.number} opened` : 'Create pull request'}
+        </h2>
+        {created ? (
+          <>
+            <p className="text-sm text-text-muted">
+              <span className="font-mono">{created.headBranch}</span> → <span className="font-mono">{created.baseBranch}</span>: {created.title}
+            </p>
+            <div className="mt-6 flex gap-3">
+              <button
+                onClick={onClose}
+                className="flex-1 rounded-lg border border-border px-4 py-2 text-sm font-medium text-text hover:bg-surface-hover"
+              >
+                Close
+              </button>
+              <a
+                href={created.url}
+                target="_blank"
+                rel="noreferrer"
+                className="flex flex-1 items-center justify-center gap-1.5 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90"
+              >
+                View on GitHub
+                <ExternalLink className="h-4 w-4" />
+              </a>
+            </div>
+          </>
+        ) : isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-text-dim" />
+          </div>
+        ) : error || !initial ? (
+          <p className="text-sm text-destructive">{(error as unknown as ApiError)?.message || 'Failed to prepare the pull request'}</p>
+        ) : (
+          <PullRequestForm
+            projectId={projectId}
+            initial={initial}
+            onClose={onClose}
+            onCreated={(pr) => {
+              setCreated(pr)
+              onNotify?.(`Opened pull request #${pr.number}`, 'success')
+              if (pr.warnings.length > 0) {
+                onNotify?.(`${pr.warnings.length} possible secret${pr.warnings.length === 1 ? '' : 's'} flagged in the commit — check the pushed files`, 'info')
+              }
+            }}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,300 @@
+import { useState } from 'react'
+import { Search, Replace, ChevronRight, ChevronDown, CaseSensitive, WholeWord, Regex, SlidersHorizontal, X, Loader2 } from 'lucide-react'
+import { GlassyConfirmModal } from '@/components/ui/glassy'
+import { useProjectSearch, useReplacePreview, useReplaceInFiles, type SearchMatch, type SearchOptions } from '@/hooks/use-search'
+import { cn } from '@/lib/utils'
+import type { ApiError } from '@/types'
+
+function MatchPreview({ match }: { match: SearchMatch }) {
+  const before = match.preview.slice(0, match.previewOffset)
+  const matched = match.preview.slice(match.previewOffset, match.previewOffset + match.length)
+  const after = match.preview.slice(match.previewOffset + match.length)
+  if (match.replaced === undefined) {
+    return (
+      <span className="truncate font-mono">
+        {before}<span className="rounded-sm bg-primary/25 text-text">{matched}</span>{after}
+      </span>
+    )
+  }
+  const replacedEnd = match.replaced.length - after.length
+  return (
+    <span className="truncate font-mono">
+      {before}
+      <span className="bg-red-500/20 text-red-300 line-through">{matched}</span>
+      <span className="bg-green-500/20 text-green-300">{match.replaced.slice(match.previewOffset, replacedEnd)}</span>
+      {after}
+    </span>
+  )
+}
+
+function ToggleButton({ active, onClick, title, children }: { active: boolean; onClick: () => void; title: string; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn('rounded p-0.5', active ? 'bg-primary/20 text-primary' : 'text-text-dim hover:text-text-muted')}
+      title={title}
+      aria-pressed={active}
+    >
+      {children}
+    </button>
+  )
+}
+
+export function SearchPanel({ projectId, readOnly, onOpenMatch, onClose }: {
+  projectId: string
+  readOnly?: boolean
+  onOpenMatch: (path: string, match: SearchMatch) => void
+  onClose: () => void
+}) {
+  const [query, setQuery] = useState('')
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [wholeWord, setWholeWord] = useState(false)
+  const [regex, setRegex] = useState(false)
+  const [showFilters, setShowFilters] = useState(false)
+  const [include, setInclude] = useState('')
+  const [exclude, setExclude] = useState('')
+  const [showReplace, setShowReplace] = useState(false)
+  const [replacement, setReplacement] = useState('')
+
+  // What the results are for; only changes on submit so typing doesn't search every keystroke
+  const [submitted, setSubmitted] = useState<SearchOptions | null>(null)
+  const [previewReplacement, setPreviewReplacement] = useState<string | null>(null)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  // Files left out of "Replace all"
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set())
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [notice, setNotice] = useState('')
+
+  const search = useProjectSearch(projectId, previewReplacement === null ? submitted : null)
+  const preview = useReplacePreview(projectId, submitted, previewReplacement)
+  const replaceInFiles = useReplaceInFiles(projectId)
+  const active = previewReplacement === null ? search : preview
+  const result = active.data
+  const files = result?.files.filter((f) => !dismissed.has(f.path)) ?? []
+  const matchCount = files.reduce((sum, f) => sum + f.matches.length, 0)
+
+  const submit = (overrides: Partial<SearchOptions> = {}) => {
+    const options: SearchOptions = {
+      query,
+      regex,
+      caseSensitive,
+      wholeWord,
+      include: include.trim() || undefined,
+      exclude: exclude.trim() || undefined,
+      ...overrides,
+    }
+    setNotice('')
+    setDismissed(new Set())
+    setPreviewReplacement(null)
+    setSubmitted(options.query ? options : null)
+  }
+
+  // Toggles re-run the current search right away
+  const toggle = (key: 'regex' | 'caseSensitive' | 'wholeWord', value: boolean) => {
+    if (key === 'regex') setRegex(value)
+    else if (key === 'caseSensitive') setCaseSensitive(value)
+    else setWholeWord(value)
+    if (submitted) submit({ [key]: value })
+  }
+
+  const handlePreview = () => {
+    if (!submitted) submit()
+    setNotice('')
+    setPreviewReplacement(replacement)
+  }
+
+  const handleReplaceAll = () => {
+    if (!submitted) return
+    setConfirmOpen(false)
+    replaceInFiles.mutate(
+      { ...submitted, replacement, paths: dismissed.size > 0 ? files.map((f) => f.path) : undefined },
+      {
+        onSuccess: (data) => {
+          setPreviewReplacement(null)
+          setDismissed(new Set())
+          setNotice(`Replaced ${data.totalReplacements} occurrence${data.totalReplacements === 1 ? '' : 's'} in ${data.files.length} file${data.files.length === 1 ? '' : 's'}`)
+        },
+        onError: (err) => setNotice((err as unknown as ApiError).message || 'Replace failed'),
+      },
+    )
+  }
+
+  const toggleCollapsed = (path: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(path)) next.delete(path)
+      else next.add(path)
+      return next
+    })
+  }
+
+  const inputClass = 'w-full rounded border border-border bg-background px-2 py-1 text-xs text-text placeholder:text-text-dim focus:border-primary focus:outline-none'
+
+  return (
+    <div className="flex h-full flex-col bg-surface py-2">
+      <div className="mb-2 flex items-center justify-between px-3">
+        <p className="text-xs font-medium uppercase tracking-wider text-text-dim">Search</p>
+        <button onClick={onClose} className="rounded p-0.5 text-text-dim hover:text-text-muted" title="Back to files">
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+
+      <div className="space-y-1.5 px-3">
+        <div className="flex items-start gap-1">
+          <button
+            onClick={() => setShowReplace((v) => !v)}
+            disabled={readOnly}
+            className="mt-1 rounded p-0.5 text-text-dim hover:text-text-muted disabled:opacity-40"
+            title={showReplace ? 'Hide replace' : 'Replace'}
+          >
+            {showReplace ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          </button>
+          <div className="min-w-0 flex-1 space-y-1.5">
+            <div className="relative">
+              <input
+                autoFocus
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') submit() }}
+                placeholder="Search"
+                className={cn(inputClass, 'pr-16')}
+              />
+              <div className="absolute right-1 top-1/2 flex -translate-y-1/2 items-center gap-0.5">
+                <ToggleButton active={caseSensitive} onClick={() => toggle('caseSensitive', !caseSensitive)} title="Match case">
+                  <CaseSensitive className="h-3.5 w-3.5" />
+                </ToggleButton>
+                <ToggleButton active={wholeWord} onClick={() => toggle('wholeWord', !wholeWord)} title="Match whole word">
+                  <WholeWord className="h-3.5 w-3.5" />
+                </ToggleButton>
+                <ToggleButton active={regex} onClick={() => toggle('regex', !regex)} title="Use regular expression">
+                  <Regex className="h-3.5 w-3.5" />
+                </ToggleButton>
+              </div>
+            </div>
+            {showReplace && !readOnly && (
+              <div className="flex items-center gap-1">
+                <input
+                  value={replacement}
+                  onChange={(e) => setReplacement(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handlePreview() }}
+                  placeholder={regex ? 'Replace ($1 for groups)' : 'Replace'}
+                  className={inputClass}
+                />
+                <button
+                  onClick={handlePreview}
+                  disabled={!query}
+                  className="rounded p-1 text-text-dim hover:text-text-muted disabled:opacity-40"
+                  title="Preview replace"
+                >
+                  <Search className="h-3 w-3" />
+                </button>
+                <button
+                  onClick={() => setConfirmOpen(true)}
+                  disabled={!submitted || matchCount === 0 || replaceInFiles.isPending}
+                  className="rounded p-1 text-text-dim hover:text-text-muted disabled:opacity-40"
+                  title="Replace all"
+                >
+                  {replaceInFiles.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Replace className="h-3 w-3" />}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <button
+          onClick={() => setShowFilters((v) => !v)}
+          className="flex items-center gap-1 text-[11px] text-text-dim hover:text-text-muted"
+        >
+          <SlidersHorizontal className="h-3 w-3" />
+          Files to include/exclude
+        </button>
+        {showFilters && (
+          <div className="space-y-1.5">
+            <input
+              value={include}
+              onChange={(e) => setInclude(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') submit() }}
+              placeholder="Include, e.g. *.java, src/**"
+              className={inputClass}
+            />
+            <input
+              value={exclude}
+              onChange={(e) => setExclude(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') submit() }}
+              placeholder="Exclude, e.g. **/generated/**"
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="mt-2 px-3 text-[11px] text-text-dim">
+        {active.isFetching ? (
+          <span className="flex items-center gap-1"><Loader2 className="h-3 w-3 animate-spin" /> Searching…</span>
+        ) : active.error ? (
+          <span className="text-red-400">{(active.error as unknown as ApiError).message || 'Search failed'}</span>
+        ) : notice ? (
+          <span>{notice}</span>
+        ) : result && submitted ? (
+          <span>
+            {matchCount === 0
+              ? 'No results'
+              : `${matchCount} result${matchCount === 1 ? '' : 's'} in ${files.length} file${files.length === 1 ? '' : 's'}`}
+            {result.truncated && ' (showing the first matches only)'}
+            {previewReplacement !== null && matchCount > 0 && ' · previewing replace'}
+          </span>
+        ) : null}
+      </div>
+
+      <div className="mt-1 flex-1 overflow-y-auto">
+        {submitted && !active.error && files.map((file) => {
+          const isCollapsed = collapsed.has(file.path)
+          const slash = file.path.lastIndexOf('/')
+          return (
+            <div key={file.path}>
+              <div className="group flex items-center gap-1 px-2 py-0.5 text-xs hover:bg-surface-hover">
+                <button onClick={() => toggleCollapsed(file.path)} className="flex min-w-0 flex-1 items-center gap-1 text-left">
+                  {isCollapsed ? <ChevronRight className="h-3 w-3 shrink-0 text-text-dim" /> : <ChevronDown className="h-3 w-3 shrink-0 text-text-dim" />}
+                  <span className="truncate text-text">{file.path.slice(slash + 1)}</span>
+                  {slash > 0 && <span className="truncate text-[11px] text-text-dim">{file.path.slice(0, slash)}</span>}
+                </button>
+                <span className="rounded-full bg-surface-hover px-1.5 text-[10px] text-text-dim">{file.matches.length}</span>
+                {showReplace && !readOnly && (
+                  <button
+                    onClick={() => setDismissed((prev) => new Set(prev).add(file.path))}
+                    className="hidden rounded p-0.5 text-text-dim hover:text-text-muted group-hover:block"
+                    title="Leave this file out"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+              {!isCollapsed && file.matches.map((match) => (
+                <button
+                  key={`${match.line}:${match.column}`}
+                  onClick={() => onOpenMatch(file.path, match)}
+                  className="flex w-full items-center gap-2 py-0.5 pl-7 pr-2 text-left text-[11px] text-text-muted hover:bg-surface-hover"
+                  title={`Line ${match.line}, column ${match.column}`}
+                >
+                  <span className="w-7 shrink-0 text-right text-text-dim">{match.line}</span>
+                  <MatchPreview match={match} />
+                </button>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+
+      <GlassyConfirmModal
+        isOpen={confirmOpen}
+        onClose={() => setConfirmOpen(false)}
+        onConfirm={handleReplaceAll}
+        title="Replace in files"
+        description={`Replace ${matchCount} occurrence${matchCount === 1 ? '' : 's'} across ${files.length} file${files.length === 1 ? '' : 's'} with "${replacement}"? Files are written immediately.`}
+        icon={Replace}
+        confirmText="Replace all"
+      />
+    </div>
+  )
+}
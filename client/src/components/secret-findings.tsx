@@ -0,0 +1,53 @@
+import { ShieldAlert, AlertTriangle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { SecretFinding } from '@/types'
+
+/**
+ * What the pre-push secret scan found, with a per-finding "commit anyway"
+ * checkbox. Ticked ids are sent back as `allowedFindings` on the retry.
+ */
+export function SecretFindings({ findings, allowed, onToggle }: {
+  findings: SecretFinding[]
+  allowed: string[]
+  onToggle: (id: string, allow: boolean) => void
+}) {
+  const blocking = findings.filter((f) => f.severity === 'block' && !allowed.includes(f.id)).length
+  return (
+    <div className="rounded-lg border border-destructive/40 bg-destructive/5 p-3">
+      <p className="mb-2 flex items-center gap-1.5 text-sm font-medium text-text">
+        <ShieldAlert className="h-4 w-4 text-destructive" />
+        Possible secrets in the changes to commit
+      </p>
+      <p className="mb-2 text-xs text-text-dim">
+        Remove them from the files, or tick the ones that are safe to commit and try again.
+        {blocking > 0 && ` ${blocking} likely credential${blocking === 1 ? '' : 's'} still unticked.`}
+      </p>
+      <ul className="max-h-56 space-y-1.5 overflow-y-auto">
+        {findings.map((finding) => (
+          <li key={finding.id}>
+            <label className="flex cursor-pointer items-start gap-2 rounded-md p-1.5 hover:bg-surface-hover">
+              <input
+                type="checkbox"
+                checked={allowed.includes(finding.id)}
+                onChange={(e) => onToggle(finding.id, e.target.checked)}
+                className="mt-0.5 rounded border-border"
+              />
+              {finding.severity === 'block'
+                ? <ShieldAlert className="mt-0.5 h-3.5 w-3.5 shrink-0 text-destructive" />
+                : <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-warning" />}
+              <div className="min-w-0 flex-1">
+                <div className="flex items-baseline gap-1.5 text-xs">
+                  <span className="truncate font-mono text-text">{finding.file}{finding.line > 0 ? `:${finding.line}` : ''}</span>
+                  <span className={cn('shrink-0', finding.severity === 'block' ? 'text-destructive' : 'text-text-dim')}>{finding.message}</span>
+                </div>
+                {finding.preview && (
+                  <div className="truncate font-mono text-[11px] text-text-dim" title={finding.preview}>{finding.preview}</div>
+                )}
+              </div>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,289 @@
+import { useEffect, useRef, useState } from 'react'
+import { Terminal as XTerm } from '@xterm/xterm'
+import { FitAddon } from '@xterm/addon-fit'
+import '@xterm/xterm/css/xterm.css'
+import { TerminalSquare, History, RotateCcw, X, Loader2 } from 'lucide-react'
+import { useTerminalCommands, type TerminalCommand } from '@/hooks/use-terminal'
+import { cn } from '@/lib/utils'
+
+type ServerMessage =
+  | { type: 'ready'; cwd: string }
+  | { type: 'output'; data: string }
+  | { type: 'exit'; code: number | null; cwd: string }
+  | { type: 'closed'; reason: string }
+
+type ConnectionState = 'connecting' | 'ready' | 'closed'
+
+const MAX_HISTORY = 200
+
+function formatPrompt(cwd: string) {
+  return `\x1b[32m~${cwd ? `/${cwd}` : ''}\x1b[0m $ `
+}
+
+const STATUS_LABELS: Record<TerminalCommand['status'], string> = {
+  running: 'Running',
+  completed: 'Done',
+  killed: 'Stopped',
+  timeout: 'Timed out',
+  interrupted: 'Interrupted',
+}
+
+function CommandHistoryModal({ projectId, onClose }: { projectId: string; onClose: () => void }) {
+  const { data: commands, isLoading } = useTerminalCommands(projectId, true)
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div className="flex h-[70vh] w-full max-w-3xl flex-col rounded-lg border border-border bg-surface shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2 border-b border-border px-4 py-3">
+          <History className="h-4 w-4 text-primary" />
+          <span className="text-sm font-medium text-text">Terminal command history</span>
+          <button onClick={onClose} className="ml-auto rounded-md p-1 text-text-dim hover:text-text-muted" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <div className="flex-1 overflow-auto">
+          {isLoading ? (
+            <div className="flex h-full items-center justify-center">
+              <Loader2 className="h-5 w-5 animate-spin text-text-dim" />
+            </div>
+          ) : !commands?.length ? (
+            <p className="p-4 text-xs text-text-dim">No commands have been run yet.</p>
+          ) : (
+            <table className="w-full text-left text-xs">
+              <thead className="sticky top-0 bg-surface text-text-dim">
+                <tr>
+                  <th className="px-4 py-2 font-medium">When</th>
+                  <th className="px-2 py-2 font-medium">User</th>
+                  <th className="px-2 py-2 font-medium">Command</th>
+                  <th className="px-4 py-2 font-medium">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {commands.map((c) => (
+                  <tr key={c.id} className="border-t border-border/50 align-top">
+                    <td className="whitespace-nowrap px-4 py-1.5 text-text-dim">{new Date(c.startedAt).toLocaleString()}</td>
+                    <td className="px-2 py-1.5 text-text-muted">{c.username}</td>
+                    <td className="px-2 py-1.5 font-mono text-text-muted">
+                      <span className="text-text-dim">~{c.cwd ? `/${c.cwd}` : ''} $ </span>
+                      <span className="break-all">{c.command}</span>
+                    </td>
+                    <td className={cn('whitespace-nowrap px-4 py-1.5', c.status === 'completed' && c.exitCode === 0 ? 'text-success' : 'text-text-dim')}>
+                      {STATUS_LABELS[c.status] ?? c.status}
+                      {c.exitCode !== null && c.exitCode !== 0 && ` (exit ${c.exitCode})`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Workspace terminal: an xterm front end for the sandboxed command runner on
+ * the server (routes/terminal.ts). Lines are edited locally (arrows, history,
+ * Ctrl+C) and sent whole; while a command runs, keystrokes go to it instead.
+ */
+export function TerminalPanel({ projectId, onClose }: { projectId: string; onClose: () => void }) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [state, setState] = useState<ConnectionState>('connecting')
+  const [attempt, setAttempt] = useState(0)
+  const [historyOpen, setHistoryOpen] = useState(false)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const term = new XTerm({
+      fontSize: 12,
+      fontFamily: "'JetBrains Mono', 'Fira Code', ui-monospace, monospace",
+      cursorBlink: true,
+      theme: { background: '#09090b', foreground: '#f4f4f5', cursor: '#3b82f6' },
+    })
+    const fit = new FitAddon()
+    term.loadAddon(fit)
+    term.open(container)
+    fit.fit()
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+    const socket = new WebSocket(`${protocol}//${window.location.host}/api/projects/${projectId}/terminal`)
+    const send = (message: unknown) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+    }
+
+    // Local line editor
+    let cwd = ''
+    let line = ''
+    let cursor = 0
+    let running = false
+    let closed = false
+    const history: string[] = []
+    let historyIndex = 0
+
+    const redraw = () => {
+      term.write(`\r\x1b[K${formatPrompt(cwd)}${line}`)
+      if (cursor < line.length) term.write(`\x1b[${line.length - cursor}D`)
+    }
+    const prompt = () => {
+      if (term.buffer.active.cursorX !== 0) term.write('\r\n')
+      line = ''
+      cursor = 0
+      historyIndex = history.length
+      redraw()
+    }
+    const submit = () => {
+      term.write('\r\n')
+      const command = line
+      if (!command.trim()) return prompt()
+      if (history[history.length - 1] !== command) history.push(command)
+      if (history.length > MAX_HISTORY) history.shift()
+      running = true
+      send({ type: 'run', command })
+    }
+    const insert = (text: string) => {
+      line = line.slice(0, cursor) + text + line.slice(cursor)
+      cursor += text.length
+      redraw()
+    }
+
+    const dataListener = term.onData((data) => {
+      if (closed) return
+      if (running) {
+        send({ type: 'input', data })
+        return
+      }
+      switch (data) {
+        case '\r':
+          return submit()
+        case '\x7f':
+          if (cursor > 0) {
+            line = line.slice(0, cursor - 1) + line.slice(cursor)
+            cursor--
+            redraw()
+          }
+          return
+        case '\x03':
+          term.write('^C')
+          return prompt()
+        case '\x0c':
+          term.clear()
+          return redraw()
+        case '\x1b[A':
+        case '\x1b[B': {
+          const next = historyIndex + (data === '\x1b[A' ? -1 : 1)
+          if (next < 0 || next > history.length) return
+          historyIndex = next
+          line = history[next] ?? ''
+          cursor = line.length
+          return redraw()
+        }
+        case '\x1b[C':
+          if (cursor < line.length) {
+            cursor++
+            term.write(data)
+          }
+          return
+        case '\x1b[D':
+          if (cursor > 0) {
+            cursor--
+            term.write(data)
+          }
+          return
+        case '\x1b[H':
+          cursor = 0
+          return redraw()
+        case '\x1b[F':
+          cursor = line.length
+          return redraw()
+      }
+      if (data.startsWith('\x1b')) return
+      // Typed or pasted text; a newline in a paste runs what came before it
+      const [first, ...rest] = data.split(/\r\n|\r|\n/)
+      // eslint-disable-next-line no-control-regex
+      insert(first.replace(/[\x00-\x1f\x7f]/g, ''))
+      if (rest.length > 0) submit()
+    })
+
+    const sendSize = () => send({ type: 'resize', cols: term.cols, rows: term.rows })
+    const observer = new ResizeObserver(() => {
+      fit.fit()
+      sendSize()
+    })
+    observer.observe(container)
+
+    socket.onopen = sendSize
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data as string) as ServerMessage
+      switch (message.type) {
+        case 'ready':
+          cwd = message.cwd
+          setState('ready')
+          prompt()
+          break
+        case 'output':
+          term.write(message.data)
+          break
+        case 'exit':
+          running = false
+          cwd = message.cwd
+          prompt()
+          break
+        case 'closed':
+          term.write(`\r\n\x1b[33m${message.reason}\x1b[0m\r\n`)
+          break
+      }
+    }
+    socket.onclose = () => {
+      closed = true
+      setState('closed')
+      term.write('\r\n\x1b[2m[Disconnected]\x1b[0m\r\n')
+    }
+    term.focus()
+
+    return () => {
+      closed = true
+      socket.onclose = null
+      socket.close()
+      observer.disconnect()
+      dataListener.dispose()
+      term.dispose()
+    }
+  }, [projectId, attempt])
+
+  return (
+    <div className="flex h-full flex-col bg-background">
+      <div className="flex h-8 shrink-0 items-center gap-2 border-b border-border bg-surface px-3 text-xs text-text-muted">
+        <TerminalSquare className="h-3.5 w-3.5 text-primary" />
+        <span>Terminal</span>
+        {state === 'connecting' && <Loader2 className="h-3 w-3 animate-spin text-text-dim" />}
+        <span className="text-[10px] text-text-dim">Sandboxed · commands are logged</span>
+        <div className="ml-auto flex items-center gap-1">
+          {state === 'closed' && (
+            <button
+              onClick={() => {
+                setState('connecting')
+                setAttempt((n) => n + 1)
+              }}
+              className="flex items-center gap-1 rounded px-1.5 py-0.5 text-text-dim hover:bg-surface-hover hover:text-text-muted"
+              title="Open a new terminal"
+            >
+              <RotateCcw className="h-3 w-3" />
+              Reconnect
+            </button>
+          )}
+          <button onClick={() => setHistoryOpen(true)} className="rounded p-1 text-text-dim hover:bg-surface-hover hover:text-text-muted" title="Command history">
+            <History className="h-3.5 w-3.5" />
+          </button>
+          <button onClick={onClose} className="rounded p-1 text-text-dim hover:bg-surface-hover hover:text-text-muted" title="Close terminal">
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      </div>
+      <div ref={containerRef} className="min-h-0 flex-1 px-2 py-1" />
+      {historyOpen && <CommandHistoryModal projectId={projectId} onClose={() => setHistoryOpen(false)} />}
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react'
+import { GitCompare, RotateCcw, Loader2, X } from 'lucide-react'
+import { useTurnChanges, useRestoreCheckpoint, type CheckpointFileChange } from '@/hooks/use-checkpoints'
+import { GlassyConfirmModal } from '@/components/ui/glassy'
+import { PatchView } from '@/components/patch-view'
+import type { AgentMessage, ApiError } from '@/types'
+import { cn } from '@/lib/utils'
+
+const STATUS_LABELS: Record<CheckpointFileChange['status'], { label: string; className: string }> = {
+  added: { label: 'A', className: 'text-success' },
+  modified: { label: 'M', className: 'text-warning' },
+  deleted: { label: 'D', className: 'text-destructive' },
+  renamed: { label: 'R', className: 'text-primary' },
+}
+
+function TurnChangesModal({ projectId, sessionId, messageId, onClose, onFileSelect }: {
+  projectId: string
+  sessionId: string
+  messageId: string
+  onClose: () => void
+  onFileSelect?: (path: string) => void
+}) {
+  const { changes, isLoading, error } = useTurnChanges(projectId, sessionId, messageId, true)
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div className="flex h-[80vh] w-full max-w-4xl flex-col rounded-lg border border-border bg-surface shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2 border-b border-border px-4 py-3">
+          <GitCompare className="h-4 w-4 text-text-muted" />
+          <span className="text-sm font-medium text-text">Changes in this turn</span>
+          {changes?.live && <span className="text-xs text-text-dim">(compared with the current workspace)</span>}
+          <button onClick={onClose} className="ml-auto rounded-md p-1 text-text-dim hover:text-text-muted" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-text-dim" />
+          </div>
+        ) : error ? (
+          <p className="p-4 text-sm text-destructive">{error.message || 'Failed to load changes'}</p>
+        ) : !changes || changes.files.length === 0 ? (
+          <p className="p-4 text-sm text-text-dim">This turn didn't change any files.</p>
+        ) : (
+          <>
+            <div className="max-h-48 overflow-y-auto border-b border-border py-1">
+              {changes.files.map((f) => (
+                <button
+                  key={f.path}
+                  onClick={() => {
+                    if (f.status === 'deleted') return
+                    onFileSelect?.(f.path)
+                    onClose()
+                  }}
+                  className="flex w-full items-center gap-2 px-4 py-1 text-left text-xs hover:bg-surface-hover"
+                >
+                  <span className={cn('w-3 shrink-0 font-mono font-semibold', STATUS_LABELS[f.status].className)}>
+                    {STATUS_LABELS[f.status].label}
+                  </span>
+                  <span className="truncate font-mono text-text">
+                    {f.oldPath ? `${f.oldPath} → ${f.path}` : f.path}
+                  </span>
+                  <span className="ml-auto shrink-0 font-mono text-text-dim">
+                    {f.binary ? 'binary' : (
+                      <>
+                        <span className="text-success">+{f.additions}</span>{' '}
+                        <span className="text-destructive">-{f.deletions}</span>
+                      </>
+                    )}
+                  </span>
+                </button>
+              ))}
+            </div>
+            <PatchView patch={changes.patch} truncated={changes.truncated} className="flex-1" />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Per-turn actions under a user message: view what the agent turn changed and
+ * restore the workspace to the checkpoint taken right before it ran.
+ */
+export function TurnCheckpointActions({ projectId, sessionId, message, disabled = false, onFileSelect, onRestored }: {
+  projectId: string
+  sessionId: string
+  message: AgentMessage
+  disabled?: boolean
+  onFileSelect?: (path: string) => void
+  onRestored?: () => void
+}) {
+  const [showChanges, setShowChanges] = useState(false)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [restoreError, setRestoreError] = useState('')
+  const restore = useRestoreCheckpoint(projectId, sessionId)
+
+  if (!message.checkpointBefore) return null
+
+  const handleRestore = async () => {
+    if (restore.isPending) return
+    setRestoreError('')
+    try {
+      await restore.mutateAsync(message.id)
+      setConfirmOpen(false)
+      onRestored?.()
+    } catch (err) {
+      setRestoreError((err as ApiError).message || 'Failed to restore checkpoint')
+    }
+  }
+
+  return (
+    <>
+      <div className="mt-1 flex items-center gap-1">
+        <button
+          onClick={() => setShowChanges(true)}
+          className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-[11px] text-text-dim hover:bg-surface-hover hover:text-text-muted"
+          title="Show what this turn changed"
+        >
+          <GitCompare className="h-3 w-3" /> Changes
+        </button>
+        <button
+          onClick={() => { setRestoreError(''); setConfirmOpen(true) }}
+          disabled={disabled || restore.isPending}
+          className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-[11px] text-text-dim hover:bg-surface-hover hover:text-text-muted disabled:cursor-not-allowed disabled:opacity-40"
+          title={disabled ? 'Stop the agent to restore' : 'Restore the workspace to before this message'}
+        >
+          {restore.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />} Restore
+        </button>
+      </div>
+
+      {showChanges && (
+        <TurnChangesModal
+          projectId={projectId}
+          sessionId={sessionId}
+          messageId={message.id}
+          onClose={() => setShowChanges(false)}
+          onFileSelect={onFileSelect}
+        />
+      )}
+
+      <GlassyConfirmModal
+        isOpen={confirmOpen}
+        onClose={() => setConfirmOpen(false)}
+        onConfirm={handleRestore}
+        title="Restore to before this message?"
+        description="Every file change made from this turn onward is undone. Build output (target/, build/) is left as is."
+        icon={RotateCcw}
+        confirmText={restore.isPending ? 'Restoring…' : 'Restore'}
+        error={restoreError}
+      />
+    </>
+  )
+}
@@ -0,0 +1,65 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+
+// ── Types (mirror server/src/routes/access-tokens.ts) ─────────────────────────
+
+export type TokenScope =
+  | 'projects:read'
+  | 'projects:write'
+  | 'agent:read'
+  | 'agent:write'
+  | 'builds:read'
+  | 'builds:write'
+
+export interface AccessToken {
+  id: string
+  name: string
+  /** First characters of the token, to tell tokens apart */
+  tokenPrefix: string
+  scopes: TokenScope[]
+  expiresAt: string | null
+  lastUsedAt: string | null
+  lastUsedIp: string | null
+  createdAt: string
+}
+
+/** Only the create response carries the token itself */
+export type CreatedAccessToken = AccessToken & { token: string }
+
+export interface CreateAccessTokenInput {
+  name: string
+  scopes: TokenScope[]
+  /** Null = never expires */
+  expiresInDays: number | null
+}
+
+const accessTokensKey = ['auth', 'access-tokens'] as const
+
+export function useAccessTokens() {
+  const queryClient = useQueryClient()
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: accessTokensKey })
+
+  const query = useQuery({
+    queryKey: accessTokensKey,
+    queryFn: () =>
+      api.get<{ tokens: AccessToken[]; scopes: { id: TokenScope; description: string }[] }>('/auth/access-tokens'),
+  })
+
+  const create = useMutation({
+    mutationFn: (input: CreateAccessTokenInput) => api.post<CreatedAccessToken>('/auth/access-tokens', input),
+    onSuccess: invalidate,
+  })
+
+  const revoke = useMutation({
+    mutationFn: (tokenId: string) => api.delete<{ success: boolean }>(`/auth/access-tokens/${tokenId}`),
+    onSuccess: invalidate,
+  })
+
+  return {
+    tokens: query.data?.tokens ?? [],
+    scopes: query.data?.scopes ?? [],
+    isLoading: query.isLoading,
+    create,
+    revoke,
+  }
+}
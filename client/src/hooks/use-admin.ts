@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '@/lib/api'
-import type { AdminStats, AdminProject, User, KiroAuthStatus } from '@/types'
+import type { AdminStats, AdminProject, User, KiroAuthStatus, LedgerDrift } from '@/types'
 
 export interface AdminProviderKey {
   id: string
@@ -68,3 +68,40 @@ export function useKiroAuthenticate() {
     },
   })
 }
+
+/** Open token-ledger drift flags + run-now / resolve mutations. */
+export function useLedgerDrift() {
+  const queryClient = useQueryClient()
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin', 'ledger-drift'],
+    queryFn: () => api.get<LedgerDrift[]>('/admin/token-ledger/drift'),
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin', 'ledger-drift'] })
+    queryClient.invalidateQueries({ queryKey: ['admin', 'stats'] })
+  }
+
+  const checkMutation = useMutation({
+    mutationFn: () => api.post<{ checked: number; drifted: number }>('/admin/token-ledger/check'),
+    onSuccess: invalidate,
+  })
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: 'keep_balance' | 'restore_ledger' }) =>
+      api.post<{ success: boolean; balance: number }>(`/admin/token-ledger/drift/${id}/resolve`, { action }),
+    onSuccess: () => {
+      invalidate()
+      queryClient.invalidateQueries({ queryKey: ['admin', 'users'] })
+    },
+  })
+
+  return {
+    drift: data ?? [],
+    isLoading,
+    check: checkMutation.mutateAsync,
+    isChecking: checkMutation.isPending,
+    resolve: resolveMutation.mutateAsync,
+    isResolving: resolveMutation.isPending,
+  }
+}
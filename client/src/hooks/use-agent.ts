@@ -23,7 +23,7 @@ export function useAgentSessions(projectId: string) {
   })
 
   const createSessionMutation = useMutation({
-    mutationFn: (body?: { bridge?: 'opencode' | 'kiro' }) =>
+    mutationFn: (body?: { bridge?: 'opencode' | 'kiro'; mode?: 'direct' | 'staged' }) =>
       api.post<AgentSession>(`/projects/${projectId}/agent/sessions`, body ?? {}),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'agent', 'sessions'] })
@@ -57,7 +57,8 @@ export function useAgentSession(projectId: string, sessionId: string) {
     enabled: !!projectId && !!sessionId,
     refetchInterval: (query) => {
       const data = query.state.data
-      if (data && (data.status === 'running' || data.status === 'idle')) {
+      // Keep polling while follow-ups are queued so dispatches show up
+      if (data && (data.status === 'running' || data.status === 'idle' || data.messages.some((m) => m.queueStatus === 'queued'))) {
         return 2000
       }
       return false
@@ -85,6 +86,30 @@ export function useAgentSession(projectId: string, sessionId: string) {
     },
   })
 
+  const updateQueuedMutation = useMutation({
+    mutationFn: ({ messageId, content }: { messageId: string; content: string }) =>
+      api.patch<AgentMessage>(`/projects/${projectId}/agent/sessions/${sessionId}/messages/${messageId}`, { content }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'agent', 'sessions', sessionId] })
+    },
+  })
+
+  const removeQueuedMutation = useMutation({
+    mutationFn: (messageId: string) =>
+      api.delete(`/projects/${projectId}/agent/sessions/${sessionId}/messages/${messageId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'agent', 'sessions', sessionId] })
+    },
+  })
+
+  const resumeQueueMutation = useMutation({
+    mutationFn: () =>
+      api.post<{ success: boolean }>(`/projects/${projectId}/agent/sessions/${sessionId}/queue/resume`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'agent', 'sessions', sessionId] })
+    },
+  })
+
   return {
     session: session ?? null,
     messages: session?.messages ?? [],
@@ -95,6 +120,10 @@ export function useAgentSession(projectId: string, sessionId: string) {
     invalidateAndRefetch,
     cancelSession: cancelSessionMutation.mutateAsync,
     isCancelling: cancelSessionMutation.isPending,
+    updateQueued: updateQueuedMutation.mutateAsync,
+    removeQueued: removeQueuedMutation.mutateAsync,
+    resumeQueue: resumeQueueMutation.mutateAsync,
+    isResumingQueue: resumeQueueMutation.isPending,
   }
 }
 
@@ -400,47 +429,70 @@ export function useStreamingAgent(
     return () => clearInterval(interval)
   }, [isActive, storageKey])
 
-  // EventSource connection
+  // EventSource connection. Events carry durable ids: the browser resends the
+  // last one (Last-Event-ID) when it auto-reconnects, and if it gives up (e.g. the
+  // server answered a restart with an error page) we reconnect with ?lastEventId=.
   useEffect(() => {
     if (!isActive || !projectId || !sessionId) {
       return
     }
 
     const url = `/api/projects/${projectId}/agent/sessions/${sessionId}/stream`
-    const es = new EventSource(url, { withCredentials: true })
-    eventSourceRef.current = es
+    let es: EventSource | null = null
+    let lastEventId = ''
+    let retryTimer: ReturnType<typeof setTimeout> | null = null
+    let disposed = false
+
+    const connect = () => {
+      const resuming = !!lastEventId
+      const source = new EventSource(resuming ? `${url}?lastEventId=${encodeURIComponent(lastEventId)}` : url, { withCredentials: true })
+      es = source
+      eventSourceRef.current = source
+      let opened = false
+
+      source.onopen = () => {
+        setIsConnected(true)
+        // Only a fresh connection replays the whole run; resumed ones pick up where they left off
+        if (opened || resuming) return
+        opened = true
+        // Server replays the run's stored events per connection; wiping local accumulator avoids
+        // doubling content that was persisted in localStorage before refresh.
+        setSnapshot(EMPTY_STREAMING_STATE)
+        accRef.current = createEmptyAccumulator()
+        dirtyRef.current = true
+        try {
+          window.localStorage.removeItem(storageKey)
+        } catch {
+          // ignore storage failures
+        }
+      }
 
-    es.onopen = () => {
-      setIsConnected(true)
-      // Server replays buffered OpenCode events per connection; wiping local accumulator avoids
-      // doubling content that was persisted in localStorage before refresh.
-      setSnapshot(EMPTY_STREAMING_STATE)
-      accRef.current = createEmptyAccumulator()
-      dirtyRef.current = true
-      try {
-        window.localStorage.removeItem(storageKey)
-      } catch {
-        // ignore storage failures
+      source.onmessage = (e) => {
+        if (e.lastEventId) lastEventId = e.lastEventId
+        try {
+          const event = JSON.parse(e.data) as StreamEvent
+          processStreamEvent(accRef.current, event)
+          dirtyRef.current = true
+        } catch {
+          // ignore malformed events
+        }
       }
-    }
 
-    es.onmessage = (e) => {
-      try {
-        const event = JSON.parse(e.data) as StreamEvent
-        processStreamEvent(accRef.current, event)
-        dirtyRef.current = true
-      } catch {
-        // ignore malformed events
+      source.onerror = () => {
+        // EventSource auto-reconnects; we track connection state
+        setIsConnected(false)
+        if (source.readyState === EventSource.CLOSED && !disposed) {
+          retryTimer = setTimeout(connect, 3000)
+        }
       }
     }
 
-    es.onerror = () => {
-      // EventSource auto-reconnects; we track connection state
-      setIsConnected(false)
-    }
+    connect()
 
     return () => {
-      es.close()
+      disposed = true
+      if (retryTimer) clearTimeout(retryTimer)
+      es?.close()
       eventSourceRef.current = null
       setIsConnected(false)
     }
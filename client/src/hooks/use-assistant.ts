@@ -87,7 +87,7 @@ export function useAssistant(projectId: string, active = true) {
   })
 
   const errorFix = useMutation({
-    mutationFn: (body: { issues: unknown[] }) =>
+    mutationFn: (body: { issues?: unknown[]; diagnostics?: unknown[] }) =>
       api.post<{ jobId: string }>(`/projects/${projectId}/assistant/error-fix`, body),
     onSuccess: invalidateActive,
   })
@@ -1,14 +1,20 @@
+import axios from 'axios'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { api } from '@/lib/api'
+import { api, apiClient } from '@/lib/api'
 import { useAuthStore } from '@/stores/auth-store'
-import type { User } from '@/types'
+import type { ApiError, User } from '@/types'
 import { useEffect } from 'react'
 
 interface LoginInput {
   login: string
   password: string
+  /** TOTP or recovery code, once the server has asked for one */
+  code?: string
 }
 
+/** A 401/429 on an account with 2FA on says so, so the form can ask for the code */
+export type LoginError = ApiError & { twoFactorRequired?: boolean }
+
 interface RegisterInput {
   username: string
   email: string
@@ -44,7 +50,18 @@ export function useAuth() {
 
   const loginMutation = useMutation({
     mutationFn: (input: LoginInput) =>
-      api.post<User>('/auth/login', input),
+      apiClient.post<User>('/auth/login', input).then(
+        (response) => response.data,
+        (error: unknown) => {
+          if (!axios.isAxiosError(error)) throw error
+          const loginError: LoginError = {
+            message: error.response?.data?.message || 'An unexpected error occurred',
+            statusCode: error.response?.status || 500,
+            twoFactorRequired: error.response?.data?.twoFactorRequired,
+          }
+          throw loginError
+        },
+      ),
     onSuccess: (data) => {
       setUser(data)
       queryClient.setQueryData(['auth', 'me'], data)
@@ -83,3 +100,42 @@ export function useAuth() {
     isLoggingOut: logoutMutation.isPending,
   }
 }
+
+export function useForgotPassword() {
+  return useMutation({
+    mutationFn: (email: string) => api.post<{ success: boolean }>('/auth/forgot-password', { email }),
+  })
+}
+
+export function useResetPassword() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (input: { token: string; password: string }) =>
+      api.post<{ success: boolean }>('/auth/reset-password', input),
+    // Every session was signed out, including this one if there was one
+    onSuccess: () => queryClient.setQueryData(['auth', 'me'], null),
+  })
+}
+
+/** Confirms the emailed token once; a query (not a mutation) so a remount doesn't spend it twice. */
+export function useVerifyEmail(token: string) {
+  const queryClient = useQueryClient()
+  return useQuery({
+    queryKey: ['auth', 'verify-email', token],
+    queryFn: async () => {
+      const result = await api.post<{ success: boolean }>('/auth/verify-email', { token })
+      queryClient.invalidateQueries({ queryKey: ['auth', 'me'] })
+      return result
+    },
+    enabled: !!token,
+    retry: false,
+    staleTime: Infinity,
+    gcTime: Infinity,
+  })
+}
+
+export function useResendVerification() {
+  return useMutation({
+    mutationFn: () => api.post<{ success: boolean }>('/auth/verify-email/resend'),
+  })
+}
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+import type { Build, BuildDiagnostic, BuildStatus, BuildTool, StreamEvent } from '@/types'
+
+export function artifactDownloadUrl(projectId: string, buildId: string, name: string) {
+  return `/api/projects/${projectId}/builds/${buildId}/artifacts/${encodeURIComponent(name)}`
+}
+
+/** Recent builds for a project + start/cancel mutations. Polls while a build is running. */
+export function useBuilds(projectId: string) {
+  const queryClient = useQueryClient()
+  const key = ['projects', projectId, 'builds']
+
+  const { data, isLoading } = useQuery({
+    queryKey: key,
+    queryFn: () => api.get<{ builds: Build[] }>(`/projects/${projectId}/builds`),
+    enabled: !!projectId,
+    refetchInterval: (q) =>
+      ((q.state.data as { builds: Build[] } | undefined)?.builds.some((b) => b.status === 'running') ? 3000 : false),
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: key })
+
+  const startMutation = useMutation({
+    mutationFn: (tool?: BuildTool) =>
+      api.post<{ buildId: string }>(`/projects/${projectId}/builds`, tool ? { tool } : {}),
+    onSuccess: invalidate,
+  })
+
+  const cancelMutation = useMutation({
+    mutationFn: (buildId: string) => api.post(`/projects/${projectId}/builds/${buildId}/cancel`),
+    onSuccess: invalidate,
+  })
+
+  const builds = data?.builds ?? []
+
+  return {
+    builds,
+    isLoading,
+    activeBuild: builds.find((b) => b.status === 'running') ?? null,
+    invalidate,
+    start: startMutation.mutateAsync,
+    isStarting: startMutation.isPending,
+    cancel: cancelMutation.mutateAsync,
+  }
+}
+
+export interface ProjectDiagnostics {
+  buildId: string | null
+  status: BuildStatus | null
+  createdAt: string | null
+  diagnostics: BuildDiagnostic[]
+}
+
+/**
+ * Compiler diagnostics from the project's latest finished build. Keyed on that
+ * build's id (read from the shared builds query) so it refetches exactly when a
+ * new build finishes.
+ */
+export function useDiagnostics(projectId: string) {
+  const { builds } = useBuilds(projectId)
+  const latestId = builds.find((b) => b.status !== 'running')?.id ?? null
+
+  const { data } = useQuery({
+    queryKey: ['projects', projectId, 'builds', 'diagnostics', latestId],
+    queryFn: () => api.get<ProjectDiagnostics>(`/projects/${projectId}/diagnostics`),
+    enabled: !!projectId && !!latestId,
+  })
+
+  return {
+    buildId: data?.buildId ?? null,
+    diagnostics: data?.diagnostics ?? [],
+  }
+}
+
+export interface BuildLogState { log: string; done: boolean; error: string | null }
+
+const EMPTY_LOG: BuildLogState = { log: '', done: false, error: null }
+
+/**
+ * Follow a build's log over SSE. For finished builds the server replays the
+ * persisted log and the terminal event, so the same hook serves both cases.
+ */
+export function useBuildLog(projectId: string, buildId: string | null, onDone?: () => void): BuildLogState {
+  // Tagged with the build it belongs to so switching builds never shows a stale log.
+  const [state, setState] = useState<BuildLogState & { buildId: string | null }>({ ...EMPTY_LOG, buildId: null })
+
+  useEffect(() => {
+    if (!projectId || !buildId) return
+    const update = (fn: (s: BuildLogState) => BuildLogState) =>
+      setState((prev) => ({ ...fn(prev.buildId === buildId ? prev : EMPTY_LOG), buildId }))
+    const es = new EventSource(`/api/projects/${projectId}/builds/${buildId}/stream`, { withCredentials: true })
+    es.onmessage = (e) => {
+      let ev: StreamEvent
+      try {
+        ev = JSON.parse(e.data)
+      } catch {
+        return
+      }
+      if (ev.type === 'build-log') {
+        update((s) => ({ ...s, log: s.log + ev.content }))
+      } else if (ev.type === 'complete') {
+        update((s) => ({ ...s, done: true }))
+        es.close()
+        onDone?.()
+      } else if (ev.type === 'error') {
+        update((s) => ({ ...s, done: true, error: ev.message }))
+        es.close()
+        onDone?.()
+      }
+    }
+    return () => es.close()
+    // onDone is a callback prop; re-subscribing on identity change would replay the log.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId, buildId])
+
+  if (state.buildId !== buildId) return EMPTY_LOG
+  return { log: state.log, done: state.done, error: state.error }
+}
@@ -0,0 +1,51 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+
+// ── Types (mirror server/src/utils/checkpoint-service.ts) ────────────────────
+
+export interface CheckpointFileChange {
+  path: string
+  oldPath?: string
+  status: 'added' | 'modified' | 'deleted' | 'renamed'
+  additions: number
+  deletions: number
+  binary: boolean
+}
+
+export interface TurnChanges {
+  from: string
+  to: string
+  /** Diffed against the live workspace (the turn is still running or has no "after" snapshot). */
+  live: boolean
+  files: CheckpointFileChange[]
+  patch: string
+  truncated: boolean
+}
+
+const turnPath = (projectId: string, sessionId: string, messageId: string) =>
+  `/projects/${projectId}/agent/sessions/${sessionId}/messages/${messageId}`
+
+/** What one agent turn changed. Only fetched while `enabled` (i.e. the diff view is open). */
+export function useTurnChanges(projectId: string, sessionId: string, messageId: string, enabled: boolean) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['projects', projectId, 'agent', 'sessions', sessionId, 'changes', messageId],
+    queryFn: () => api.get<TurnChanges>(`${turnPath(projectId, sessionId, messageId)}/changes`),
+    enabled: enabled && !!projectId && !!sessionId && !!messageId,
+  })
+
+  return { changes: data ?? null, isLoading, error: error as { message?: string } | null }
+}
+
+/** Restore the workspace to before a turn; refreshes the session and the file tree. */
+export function useRestoreCheckpoint(projectId: string, sessionId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (messageId: string) =>
+      api.post<{ success: boolean; restoredTo: string; undoCheckpoint: string }>(`${turnPath(projectId, sessionId, messageId)}/restore`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'agent', 'sessions', sessionId] })
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'files'] })
+    },
+  })
+}
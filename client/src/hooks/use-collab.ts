@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react'
+import { getCollabConnection, type CollabConnection } from '@/lib/collab'
+
+/** Workspace WebSocket for a project: collaborative documents and presence. */
+export function useCollab(projectId: string | undefined) {
+  const connection = useMemo(() => (projectId ? getCollabConnection(projectId) : null), [projectId])
+
+  const subscribe = useCallback(
+    (listener: () => void) => connection?.subscribe(listener) ?? (() => {}),
+    [connection],
+  )
+  // Re-render on every connection change; the version is only a change marker
+  useSyncExternalStore(subscribe, () => connection?.version ?? 0)
+
+  return {
+    connection,
+    status: connection?.status ?? 'connecting',
+    clientId: connection?.clientId ?? null,
+    peers: connection ? [...connection.peers.values()] : [],
+  }
+}
+
+/** Open `path` as a collaborative document for as long as the caller is mounted. */
+export function useCollabDocument(connection: CollabConnection | null, path: string | null) {
+  useEffect(() => {
+    if (!connection || !path) return
+    connection.open(path)
+    return () => connection.close(path)
+  }, [connection, path])
+
+  const state = connection && path ? connection.document(path) : undefined
+  return {
+    doc: state?.doc ?? null,
+    synced: state?.synced ?? false,
+    error: state?.error ?? null,
+  }
+}
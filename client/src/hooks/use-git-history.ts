@@ -0,0 +1,108 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+
+// ── Types (mirror server/src/utils/git-history-service.ts) ───────────────────
+
+export interface GitCommitSummary {
+  sha: string
+  shortSha: string
+  author: string
+  authorEmail: string
+  date: string
+  parents: string[]
+  subject: string
+}
+
+export interface GitFileDiff {
+  path: string
+  oldPath?: string
+  status: 'added' | 'modified' | 'deleted' | 'renamed'
+  additions: number
+  deletions: number
+  binary: boolean
+  patch: string
+  truncated: boolean
+}
+
+export interface GitCommitDetail extends GitCommitSummary {
+  message: string
+  files: GitFileDiff[]
+}
+
+export interface GitBlame {
+  commits: Record<string, { author: string; date: string; summary: string }>
+  ranges: { sha: string; startLine: number; lineCount: number }[]
+}
+
+/** SHA git blame uses for lines that aren't committed yet. */
+export const UNCOMMITTED_SHA = '0'.repeat(40)
+
+const PAGE_SIZE = 50
+
+const gitKey = (projectId: string) => ['projects', projectId, 'git'] as const
+
+/** Commit log, newest first, a page at a time; `filePath` gives one file's history. */
+export function useCommitLog(projectId: string, filePath: string | null, enabled = true) {
+  return useInfiniteQuery({
+    queryKey: [...gitKey(projectId), 'commits', filePath],
+    queryFn: ({ pageParam }) => {
+      const params = new URLSearchParams({ skip: String(pageParam), limit: String(PAGE_SIZE) })
+      if (filePath) params.set('path', filePath)
+      return api.get<{ commits: GitCommitSummary[]; hasMore: boolean }>(`/projects/${projectId}/git/commits?${params}`)
+    },
+    initialPageParam: 0,
+    getNextPageParam: (last, pages) => (last.hasMore ? pages.length * PAGE_SIZE : undefined),
+    enabled: enabled && !!projectId,
+  })
+}
+
+/** One commit with its per-file diffs (only `filePath`'s when set). */
+export function useCommit(projectId: string, sha: string | null, filePath: string | null) {
+  return useQuery({
+    queryKey: [...gitKey(projectId), 'commit', sha, filePath],
+    queryFn: () => {
+      const query = filePath ? `?path=${encodeURIComponent(filePath)}` : ''
+      return api.get<GitCommitDetail>(`/projects/${projectId}/git/commits/${sha}${query}`)
+    },
+    enabled: !!projectId && !!sha,
+    // A commit never changes
+    staleTime: Infinity,
+  })
+}
+
+/** Who last changed each line of the file. Only fetched while `path` is set. */
+export function useBlame(projectId: string, path: string | null) {
+  return useQuery({
+    queryKey: [...gitKey(projectId), 'blame', path],
+    queryFn: () => api.get<GitBlame>(`/projects/${projectId}/git/blame?path=${encodeURIComponent(path!)}`),
+    enabled: !!projectId && !!path,
+    retry: false,
+  })
+}
+
+function useInvalidateWorkspace(projectId: string) {
+  const queryClient = useQueryClient()
+  return () => {
+    queryClient.invalidateQueries({ queryKey: gitKey(projectId) })
+    queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'files'] })
+  }
+}
+
+export function useRevertCommit(projectId: string) {
+  const invalidate = useInvalidateWorkspace(projectId)
+  return useMutation({
+    mutationFn: (sha: string) =>
+      api.post<{ success: boolean; sha: string; files: string[] }>(`/projects/${projectId}/git/commits/${sha}/revert`),
+    onSuccess: invalidate,
+  })
+}
+
+/** Put one file back to how it was in a commit (left as an uncommitted change). */
+export function useRestoreFile(projectId: string) {
+  const invalidate = useInvalidateWorkspace(projectId)
+  return useMutation({
+    mutationFn: (body: { sha: string; path: string }) =>
+      api.post<{ success: boolean; path: string }>(`/projects/${projectId}/git/restore-file`, body),
+    onSuccess: invalidate,
+  })
+}
@@ -0,0 +1,116 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+
+// ── Types (mirror server/src/utils/git-sync-service.ts) ──────────────────────
+
+export type SyncOperation = 'merge' | 'rebase'
+
+export interface ConflictFile {
+  path: string
+  kind: 'both-modified' | 'both-added' | 'both-deleted' | 'added-by-us' | 'added-by-them' | 'deleted-by-us' | 'deleted-by-them'
+}
+
+export interface SyncState {
+  operation: SyncOperation | null
+  conflicts: ConflictFile[]
+  ahead: number
+  behind: number
+}
+
+export type SyncResult =
+  | { status: 'up-to-date' }
+  | { status: 'pulled'; files: string[] }
+  | { status: 'conflicts'; operation: SyncOperation; conflicts: ConflictFile[] }
+
+export interface ConflictVersions {
+  base: string | null
+  ours: string | null
+  theirs: string | null
+  merged: string | null
+}
+
+export type ConflictResolution = { content: string } | { take: 'ours' | 'theirs' } | { delete: true }
+
+/**
+ * What "ours" and "theirs" mean to the user. A merge brings the remote into
+ * the workspace; a rebase replays the workspace's commits onto the remote, so
+ * git's sides are swapped.
+ */
+export function sideLabels(operation: SyncOperation, branch: string): { ours: string; theirs: string } {
+  return operation === 'rebase'
+    ? { ours: `Remote (origin/${branch})`, theirs: 'Your commit' }
+    : { ours: 'Workspace', theirs: `Remote (origin/${branch})` }
+}
+
+const gitKey = (projectId: string) => ['projects', projectId, 'git'] as const
+const syncKey = (projectId: string) => [...gitKey(projectId), 'sync'] as const
+
+/** Merge/rebase in progress and its conflicts. Only fetched while `enabled` (paid + connected). */
+export function useSyncState(projectId: string, enabled: boolean) {
+  return useQuery({
+    queryKey: syncKey(projectId),
+    queryFn: () => api.get<SyncState & { repoUrl: string | null; repoBranch: string }>(`/projects/${projectId}/git/sync`),
+    enabled: enabled && !!projectId,
+    retry: false,
+  })
+}
+
+/** The three sides of a conflicted file plus the working copy with markers. */
+export function useConflictVersions(projectId: string, path: string | null) {
+  return useQuery({
+    queryKey: [...syncKey(projectId), 'file', path],
+    queryFn: () => api.get<ConflictVersions>(`/projects/${projectId}/git/conflicts/file?path=${encodeURIComponent(path!)}`),
+    enabled: !!projectId && !!path,
+    retry: false,
+  })
+}
+
+function useInvalidateWorkspace(projectId: string) {
+  const queryClient = useQueryClient()
+  return () => {
+    queryClient.invalidateQueries({ queryKey: gitKey(projectId) })
+    queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'files'] })
+  }
+}
+
+export function useFetchRemote(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: () => api.post<SyncState>(`/projects/${projectId}/git/fetch`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: syncKey(projectId) }),
+  })
+}
+
+export function usePull(projectId: string) {
+  const invalidate = useInvalidateWorkspace(projectId)
+  return useMutation({
+    mutationFn: (strategy: SyncOperation) => api.post<SyncResult>(`/projects/${projectId}/git/pull`, { strategy }),
+    onSuccess: invalidate,
+  })
+}
+
+export function useResolveConflict(projectId: string) {
+  const invalidate = useInvalidateWorkspace(projectId)
+  return useMutation({
+    mutationFn: (body: { path: string } & ConflictResolution) =>
+      api.post<{ success: boolean; path: string }>(`/projects/${projectId}/git/conflicts/resolve`, body),
+    onSuccess: invalidate,
+  })
+}
+
+/** Commit the resolved merge, or move the rebase on to its next commit. */
+export function useContinueSync(projectId: string) {
+  const invalidate = useInvalidateWorkspace(projectId)
+  return useMutation({
+    mutationFn: () => api.post<SyncResult>(`/projects/${projectId}/git/sync/continue`),
+    onSuccess: invalidate,
+  })
+}
+
+export function useAbortSync(projectId: string) {
+  const invalidate = useInvalidateWorkspace(projectId)
+  return useMutation({
+    mutationFn: () => api.post<{ success: boolean }>(`/projects/${projectId}/git/sync/abort`),
+    onSuccess: invalidate,
+  })
+}
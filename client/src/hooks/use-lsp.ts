@@ -0,0 +1,16 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react'
+import { getLspConnection, lspLanguageForPath, type LspStatus } from '@/lib/lsp'
+
+/** Language server connection for a file (Java or Kotlin), and its status. */
+export function useLanguageServer(projectId: string, path: string | null) {
+  const language = path ? lspLanguageForPath(path) : null
+  const connection = useMemo(() => (language ? getLspConnection(projectId, language) : null), [projectId, language])
+
+  const subscribe = useCallback(
+    (listener: () => void) => connection?.subscribe(listener) ?? (() => {}),
+    [connection],
+  )
+  const status = useSyncExternalStore<LspStatus | null>(subscribe, () => connection?.status ?? null)
+
+  return { connection, status }
+}
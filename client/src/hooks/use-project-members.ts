@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+import type { MemberRole, PendingInvitation, ProjectMembers } from '@/types'
+
+/** Owner, members and pending invitations of a project, plus the owner's management mutations. */
+export function useProjectMembers(projectId: string) {
+  const queryClient = useQueryClient()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['projects', projectId, 'members'],
+    queryFn: () => api.get<ProjectMembers>(`/projects/${projectId}/members`),
+    enabled: !!projectId,
+  })
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'members'] })
+
+  const inviteMutation = useMutation({
+    mutationFn: (input: { user: string; role: MemberRole }) =>
+      api.post(`/projects/${projectId}/invitations`, input),
+    onSuccess: invalidate,
+  })
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: (invitationId: string) =>
+      api.delete(`/projects/${projectId}/invitations/${invitationId}`),
+    onSuccess: invalidate,
+  })
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: MemberRole }) =>
+      api.patch(`/projects/${projectId}/members/${userId}`, { role }),
+    onSuccess: invalidate,
+  })
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (userId: string) => api.delete(`/projects/${projectId}/members/${userId}`),
+    onSuccess: () => {
+      invalidate()
+      queryClient.invalidateQueries({ queryKey: ['projects'] })
+    },
+  })
+
+  return {
+    members: data ?? null,
+    isLoading,
+    invite: inviteMutation.mutateAsync,
+    isInviting: inviteMutation.isPending,
+    revokeInvitation: revokeInvitationMutation.mutateAsync,
+    updateRole: updateRoleMutation.mutateAsync,
+    removeMember: removeMemberMutation.mutateAsync,
+  }
+}
+
+/** Invitations addressed to the current user, with accept / decline. */
+export function useInvitations() {
+  const queryClient = useQueryClient()
+
+  const { data } = useQuery({
+    queryKey: ['invitations'],
+    queryFn: () => api.get<PendingInvitation[]>('/invitations'),
+  })
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ['invitations'] })
+    queryClient.invalidateQueries({ queryKey: ['projects'] })
+  }
+
+  const acceptMutation = useMutation({
+    mutationFn: (id: string) => api.post(`/invitations/${id}/accept`),
+    onSuccess: onSettled,
+  })
+
+  const declineMutation = useMutation({
+    mutationFn: (id: string) => api.post(`/invitations/${id}/decline`),
+    onSuccess: onSettled,
+  })
+
+  return {
+    invitations: data ?? [],
+    accept: acceptMutation.mutateAsync,
+    decline: declineMutation.mutateAsync,
+    isResponding: acceptMutation.isPending || declineMutation.isPending,
+  }
+}
@@ -0,0 +1,79 @@
+import axios from 'axios'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { api, apiClient } from '@/lib/api'
+import type { ApiError, SecretFinding } from '@/types'
+
+// ── Types (mirror server/src/routes/pull-requests.ts) ────────────────────────
+
+export interface PullRequestInfo {
+  id: string
+  number: number
+  url: string
+  title: string
+  state: 'open' | 'closed' | 'merged'
+  draft: boolean
+  headBranch: string
+  baseBranch: string
+  createdAt: string
+}
+
+export interface PullRequestDraft {
+  title: string
+  body: string
+  branch: string
+  baseBranch: string
+}
+
+/** A just-opened PR plus heuristic secret-scan hits that didn't stop it */
+export type CreatedPullRequest = PullRequestInfo & { warnings: SecretFinding[] }
+
+/** A 409 from the secret scan carries what it found */
+export type CreatePullRequestError = ApiError & { findings?: SecretFinding[] }
+
+const prKey = (projectId: string) => ['projects', projectId, 'git', 'pull-requests'] as const
+
+/** PRs opened from this workspace, newest first. Only fetched while `enabled` (paid + connected). */
+export function usePullRequests(projectId: string, enabled: boolean) {
+  return useQuery({
+    queryKey: prKey(projectId),
+    queryFn: () => api.get<{ pullRequests: PullRequestInfo[] }>(`/projects/${projectId}/git/pull-requests`),
+    enabled: enabled && !!projectId,
+    // GitHub-side state (merged, closed) changes without us
+    refetchInterval: 60_000,
+    retry: false,
+  })
+}
+
+/** Suggested title/body from the Assistant's last post-session summary, plus a fresh branch name. */
+export function usePullRequestDraft(projectId: string) {
+  return useQuery({
+    queryKey: [...prKey(projectId), 'draft'],
+    queryFn: () => api.get<PullRequestDraft>(`/projects/${projectId}/git/pull-requests/draft`),
+    enabled: !!projectId,
+    gcTime: 0,
+    retry: false,
+  })
+}
+
+export function useCreatePullRequest(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (body: { title: string; body: string; branch: string; draft: boolean; allowedFindings?: string[] }) =>
+      apiClient.post<CreatedPullRequest>(`/projects/${projectId}/git/pull-requests`, body).then(
+        (response) => response.data,
+        (error: unknown) => {
+          if (!axios.isAxiosError(error)) throw error
+          const apiError: CreatePullRequestError = {
+            message: error.response?.data?.message || 'An unexpected error occurred',
+            statusCode: error.response?.status || 500,
+            findings: error.response?.data?.findings,
+          }
+          throw apiError
+        },
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'git'] })
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'files'] })
+    },
+  })
+}
@@ -0,0 +1,78 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+
+// ── Types (mirror server/src/utils/workspace-search.ts) ──────────────────────
+
+export interface SearchOptions {
+  query: string
+  regex: boolean
+  caseSensitive: boolean
+  wholeWord: boolean
+  /** Comma-separated globs */
+  include?: string
+  exclude?: string
+}
+
+export interface SearchMatch {
+  line: number
+  column: number
+  length: number
+  preview: string
+  previewOffset: number
+  /** Replace preview: `preview` with this match replaced */
+  replaced?: string
+}
+
+export interface SearchFileResult {
+  path: string
+  matches: SearchMatch[]
+}
+
+export interface SearchResult {
+  files: SearchFileResult[]
+  totalMatches: number
+  truncated: boolean
+}
+
+function searchParams(options: SearchOptions): string {
+  const params = new URLSearchParams({ q: options.query })
+  if (options.regex) params.set('regex', 'true')
+  if (options.caseSensitive) params.set('case', 'true')
+  if (options.wholeWord) params.set('word', 'true')
+  if (options.include) params.set('include', options.include)
+  if (options.exclude) params.set('exclude', options.exclude)
+  return params.toString()
+}
+
+/** Project-wide search; runs whenever `options` is set. */
+export function useProjectSearch(projectId: string, options: SearchOptions | null) {
+  return useQuery({
+    queryKey: ['projects', projectId, 'search', options],
+    queryFn: () => api.get<SearchResult>(`/projects/${projectId}/search?${searchParams(options!)}`),
+    enabled: !!projectId && !!options?.query,
+    placeholderData: keepPreviousData,
+    retry: false,
+  })
+}
+
+/** Matches with their replaced text, before anything is written. */
+export function useReplacePreview(projectId: string, options: SearchOptions | null, replacement: string | null) {
+  return useQuery({
+    queryKey: ['projects', projectId, 'search', 'replace-preview', options, replacement],
+    queryFn: () => api.post<SearchResult>(`/projects/${projectId}/search/replace/preview`, { ...options, replacement }),
+    enabled: !!projectId && !!options?.query && replacement !== null,
+    retry: false,
+  })
+}
+
+export function useReplaceInFiles(projectId: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (body: SearchOptions & { replacement: string; paths?: string[] }) =>
+      api.post<{ files: { path: string; replacements: number }[]; totalReplacements: number }>(`/projects/${projectId}/search/replace`, body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'files'] })
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'search'] })
+    },
+  })
+}
@@ -0,0 +1,104 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+import { useAuthStore } from '@/stores/auth-store'
+
+// ── Types (mirror server/src/routes/security.ts) ──────────────────────────────
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+}
+
+export interface TwoFactorSetup {
+  /** Base32 secret for manual entry */
+  secret: string
+  /** otpauth:// URI for apps that import links */
+  uri: string
+}
+
+export interface SessionInfo {
+  id: string
+  /** Short label derived from the user agent, e.g. "Firefox on Linux" */
+  device: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastSeenAt: string
+  expiresAt: string
+  /** The session this browser is using */
+  current: boolean
+}
+
+const twoFactorKey = ['auth', '2fa'] as const
+const sessionsKey = ['auth', 'sessions'] as const
+
+export function useTwoFactorStatus() {
+  return useQuery({
+    queryKey: twoFactorKey,
+    queryFn: () => api.get<TwoFactorStatus>('/auth/2fa'),
+  })
+}
+
+export function useTwoFactor() {
+  const queryClient = useQueryClient()
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: twoFactorKey })
+
+  const setup = useMutation({
+    mutationFn: (password: string) => api.post<TwoFactorSetup>('/auth/2fa/setup', { password }),
+  })
+
+  const enable = useMutation({
+    mutationFn: (code: string) => api.post<{ recoveryCodes: string[] }>('/auth/2fa/enable', { code }),
+    onSuccess: invalidate,
+  })
+
+  const disable = useMutation({
+    mutationFn: (input: { password: string; code: string }) => api.post<{ success: boolean }>('/auth/2fa/disable', input),
+    onSuccess: invalidate,
+  })
+
+  const regenerate = useMutation({
+    mutationFn: (code: string) => api.post<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code }),
+    onSuccess: invalidate,
+  })
+
+  return { setup, enable, disable, regenerate }
+}
+
+export function useSessions() {
+  const queryClient = useQueryClient()
+  const clearAuth = useAuthStore((state) => state.logout)
+
+  const query = useQuery({
+    queryKey: sessionsKey,
+    queryFn: () => api.get<{ sessions: SessionInfo[] }>('/auth/sessions'),
+    select: (data) => data.sessions,
+  })
+
+  const revoke = useMutation({
+    mutationFn: (session: SessionInfo) => api.delete<{ success: boolean }>(`/auth/sessions/${session.id}`),
+    onSuccess: (_data, session) => {
+      // Revoking this browser's own session is a sign-out
+      if (session.current) {
+        clearAuth()
+        queryClient.setQueryData(['auth', 'me'], null)
+        queryClient.clear()
+        return
+      }
+      queryClient.invalidateQueries({ queryKey: sessionsKey })
+    },
+  })
+
+  const revokeOthers = useMutation({
+    mutationFn: () => api.delete<{ revoked: number }>('/auth/sessions'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: sessionsKey }),
+  })
+
+  return {
+    sessions: query.data ?? [],
+    isLoading: query.isLoading,
+    revoke,
+    revokeOthers,
+  }
+}
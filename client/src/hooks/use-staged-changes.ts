@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+import type { CheckpointFileChange } from '@/hooks/use-checkpoints'
+
+export interface StagedFileDiff extends CheckpointFileChange {
+  patch: string
+  truncated: boolean
+}
+
+const stagedPath = (projectId: string, sessionId: string) =>
+  `/projects/${projectId}/agent/sessions/${sessionId}/staged`
+
+/** Edits a staged (review-before-apply) session has made that are still pending review. */
+export function useStagedChanges(projectId: string, sessionId: string, enabled: boolean) {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['projects', projectId, 'agent', 'sessions', sessionId, 'staged'],
+    queryFn: () => api.get<{ files: CheckpointFileChange[] }>(stagedPath(projectId, sessionId)),
+    enabled: enabled && !!projectId && !!sessionId,
+  })
+
+  return { files: data?.files ?? [], isLoading, refetch }
+}
+
+/** Diff of one staged file against the project. Only fetched while `path` is set. */
+export function useStagedDiff(projectId: string, sessionId: string, path: string | null) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['projects', projectId, 'agent', 'sessions', sessionId, 'staged', 'diff', path],
+    queryFn: () => api.get<StagedFileDiff>(`${stagedPath(projectId, sessionId)}/diff?path=${encodeURIComponent(path!)}`),
+    enabled: !!projectId && !!sessionId && !!path,
+  })
+
+  return { diff: data ?? null, isLoading, error: error as { message?: string } | null }
+}
+
+/** Accept (apply to the project) or reject (discard) staged files. */
+export function useReviewStagedChanges(projectId: string, sessionId: string) {
+  const queryClient = useQueryClient()
+
+  const onSuccess = (data: { files: CheckpointFileChange[] }) => {
+    queryClient.setQueryData(['projects', projectId, 'agent', 'sessions', sessionId, 'staged'], { files: data.files })
+    queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'agent', 'sessions', sessionId, 'staged'] })
+  }
+
+  const acceptMutation = useMutation({
+    mutationFn: (paths: string[]) =>
+      api.post<{ success: boolean; files: CheckpointFileChange[] }>(`${stagedPath(projectId, sessionId)}/accept`, { paths }),
+    onSuccess: (data) => {
+      onSuccess(data)
+      queryClient.invalidateQueries({ queryKey: ['projects', projectId, 'files'] })
+    },
+  })
+
+  const rejectMutation = useMutation({
+    mutationFn: (paths: string[]) =>
+      api.post<{ success: boolean; files: CheckpointFileChange[] }>(`${stagedPath(projectId, sessionId)}/reject`, { paths }),
+    onSuccess,
+  })
+
+  return {
+    accept: acceptMutation.mutateAsync,
+    reject: rejectMutation.mutateAsync,
+    isReviewing: acceptMutation.isPending || rejectMutation.isPending,
+  }
+}
@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query'
+import { api } from '@/lib/api'
+
+// ── Types (mirror server/src/routes/terminal.ts) ─────────────────────────────
+
+export type TerminalCommandStatus = 'running' | 'completed' | 'killed' | 'timeout' | 'interrupted'
+
+export interface TerminalCommand {
+  id: string
+  username: string
+  command: string
+  cwd: string
+  status: TerminalCommandStatus
+  exitCode: number | null
+  startedAt: string
+  finishedAt: string | null
+}
+
+/** Terminal audit trail — every command for the owner, your own otherwise. */
+export function useTerminalCommands(projectId: string, enabled: boolean) {
+  return useQuery({
+    queryKey: ['projects', projectId, 'terminal', 'commands'],
+    queryFn: () => api.get<TerminalCommand[]>(`/projects/${projectId}/terminal/commands`),
+    enabled: !!projectId && enabled,
+  })
+}
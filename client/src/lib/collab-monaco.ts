@@ -0,0 +1,129 @@
+import * as Y from 'yjs'
+import type { editor, IRange } from 'monaco-editor'
+import { LOCAL_ORIGIN, type CollabCursor, type CollabPeer } from '@/lib/collab'
+
+type CodeEditor = editor.IStandaloneCodeEditor
+type TextModel = editor.ITextModel
+
+function rangeAt(model: TextModel, start: number, end: number): IRange {
+  const from = model.getPositionAt(start)
+  const to = model.getPositionAt(end)
+  return { startLineNumber: from.lineNumber, startColumn: from.column, endLineNumber: to.lineNumber, endColumn: to.column }
+}
+
+/**
+ * Keep the editor's model and a Y.Text in step: local typing becomes Yjs
+ * edits (origin LOCAL_ORIGIN), and everyone else's edits are applied to the
+ * model in place so the local cursor and undo history survive. Returns the
+ * unbind function.
+ */
+export function bindEditorToText(codeEditor: CodeEditor, text: Y.Text): () => void {
+  const model = codeEditor.getModel()
+  if (!model) return () => {}
+
+  let applyingRemote = false
+  if (model.getValue() !== text.toString()) {
+    applyingRemote = true
+    model.setValue(text.toString())
+    applyingRemote = false
+  }
+
+  const observer = (event: Y.YTextEvent, transaction: Y.Transaction) => {
+    if (transaction.origin === LOCAL_ORIGIN) return
+    applyingRemote = true
+    try {
+      let index = 0
+      for (const op of event.delta) {
+        if (op.retain !== undefined) {
+          index += op.retain
+        } else if (typeof op.insert === 'string') {
+          model.applyEdits([{ range: rangeAt(model, index, index), text: op.insert }])
+          index += op.insert.length
+        } else if (op.delete !== undefined) {
+          model.applyEdits([{ range: rangeAt(model, index, index + op.delete), text: '' }])
+        }
+      }
+    } finally {
+      applyingRemote = false
+    }
+  }
+  text.observe(observer)
+
+  const subscription = model.onDidChangeContent((event) => {
+    if (applyingRemote) return
+    // Back to front, so each offset still refers to the text before the edit
+    const changes = [...event.changes].sort((a, b) => b.rangeOffset - a.rangeOffset)
+    text.doc?.transact(() => {
+      for (const change of changes) {
+        if (change.rangeLength > 0) text.delete(change.rangeOffset, change.rangeLength)
+        if (change.text) text.insert(change.rangeOffset, change.text)
+      }
+    }, LOCAL_ORIGIN)
+  })
+
+  return () => {
+    text.unobserve(observer)
+    subscription.dispose()
+  }
+}
+
+/** The editor's selection as Yjs relative positions, for presence. */
+export function selectionToCursor(codeEditor: CodeEditor, text: Y.Text): CollabCursor | null {
+  const model = codeEditor.getModel()
+  const selection = codeEditor.getSelection()
+  if (!model || !selection) return null
+  const toJson = (lineNumber: number, column: number) =>
+    Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, model.getOffsetAt({ lineNumber, column })))
+  return {
+    anchor: toJson(selection.selectionStartLineNumber, selection.selectionStartColumn),
+    head: toJson(selection.positionLineNumber, selection.positionColumn),
+  }
+}
+
+// One stylesheet rule set per peer color, added the first time it is seen
+const styledColors = new Set<string>()
+
+function peerClass(color: string): string {
+  const id = color.replace(/[^a-zA-Z0-9]/g, '')
+  if (!styledColors.has(id)) {
+    styledColors.add(id)
+    const style = document.createElement('style')
+    style.textContent =
+      `.collab-selection-${id} { background-color: ${color}33; }\n` +
+      `.collab-cursor-${id} { position: absolute; height: 100%; border-left: 2px solid ${color}; box-sizing: border-box; }`
+    document.head.appendChild(style)
+  }
+  return id
+}
+
+/** Selection and caret decorations for the peers whose cursor is in this document. */
+export function peerDecorations(model: TextModel, text: Y.Text, peers: CollabPeer[]): editor.IModelDeltaDecoration[] {
+  const doc = text.doc
+  if (!doc) return []
+  const resolve = (json: unknown) => {
+    const absolute = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(json), doc)
+    return absolute && absolute.type === text ? absolute.index : null
+  }
+
+  const decorations: editor.IModelDeltaDecoration[] = []
+  for (const peer of peers) {
+    if (!peer.cursor) continue
+    const anchor = resolve(peer.cursor.anchor)
+    const head = resolve(peer.cursor.head)
+    if (anchor === null || head === null) continue
+
+    const id = peerClass(peer.color)
+    const hoverMessage = { value: peer.username }
+    if (anchor !== head) {
+      decorations.push({
+        range: rangeAt(model, Math.min(anchor, head), Math.max(anchor, head)),
+        options: { className: `collab-selection-${id}`, hoverMessage },
+      })
+    }
+    decorations.push({
+      range: rangeAt(model, head, head),
+      options: { beforeContentClassName: `collab-cursor-${id}`, showIfCollapsed: true, hoverMessage, stickiness: 1 },
+    })
+  }
+  return decorations
+}
@@ -0,0 +1,248 @@
+import * as Y from 'yjs'
+
+/**
+ * Client side of the workspace WebSocket (`/api/projects/:id/collab`): one
+ * Yjs document per open file, kept in sync with the server and every other
+ * editor, plus project-wide presence. One connection per project, open while
+ * anything is subscribed to it. Reconnects on its own; documents are replaced
+ * by the server's state after every (re)sync.
+ */
+
+export interface CollabCursor {
+  /** Yjs relative positions (JSON), so they survive concurrent edits */
+  anchor: unknown
+  head: unknown
+}
+
+export interface CollabPeer {
+  clientId: string
+  userId: string
+  username: string
+  color: string
+  path: string | null
+  cursor: CollabCursor | null
+}
+
+export type CollabStatus = 'connecting' | 'connected' | 'disconnected'
+
+type ServerMessage =
+  | { type: 'welcome'; clientId: string; color: string; peers: CollabPeer[] }
+  | { type: 'sync'; path: string; update: string }
+  | { type: 'update'; path: string; update: string }
+  | { type: 'peer'; peer: CollabPeer }
+  | { type: 'peer-left'; clientId: string }
+  | { type: 'error'; path?: string; message: string }
+
+export interface CollabDocumentState {
+  doc: Y.Doc | null
+  synced: boolean
+  error: string | null
+}
+
+/** Transaction origin of edits made in this browser */
+export const LOCAL_ORIGIN = Symbol('local')
+
+const MAX_RECONNECT_DELAY_MS = 10_000
+// Grace period before the last unsubscribe disconnects, so remounts reuse the socket
+const IDLE_DISCONNECT_MS = 1_000
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(data: string): Uint8Array {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+export class CollabConnection {
+  status: CollabStatus = 'connecting'
+  /** Bumped on every change, for useSyncExternalStore */
+  version = 0
+  clientId: string | null = null
+  peers = new Map<string, CollabPeer>()
+
+  private socket: WebSocket | null = null
+  private documents = new Map<string, CollabDocumentState>()
+  private presence: { path: string | null; cursor: CollabCursor | null } = { path: null, cursor: null }
+  private listeners = new Set<() => void>()
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private reconnectDelay = 500
+  private idleTimer: ReturnType<typeof setTimeout> | null = null
+  private readonly projectId: string
+
+  constructor(projectId: string) {
+    this.projectId = projectId
+  }
+
+  /** Notified whenever status, peers or a document's state changes. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+    if (!this.socket && !this.reconnectTimer) this.connect()
+
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size > 0) return
+      this.idleTimer = setTimeout(() => {
+        this.idleTimer = null
+        this.disconnect()
+      }, IDLE_DISCONNECT_MS)
+    }
+  }
+
+  document(path: string): CollabDocumentState | undefined {
+    return this.documents.get(path)
+  }
+
+  open(path: string): void {
+    if (this.documents.has(path)) return
+    this.documents.set(path, { doc: null, synced: false, error: null })
+    this.send({ type: 'open', path })
+    this.notify()
+  }
+
+  close(path: string): void {
+    const state = this.documents.get(path)
+    if (!state) return
+    this.documents.delete(path)
+    state.doc?.destroy()
+    this.send({ type: 'close', path })
+    this.notify()
+  }
+
+  setPresence(path: string | null, cursor: CollabCursor | null): void {
+    this.presence = { path, cursor }
+    this.send({ type: 'presence', path, cursor })
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = null
+    const socket = this.socket
+    this.socket = null
+    socket?.close()
+    this.status = 'disconnected'
+    this.clientId = null
+    this.peers.clear()
+    for (const state of this.documents.values()) state.doc?.destroy()
+    this.documents.clear()
+  }
+
+  private connect(): void {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+    const socket = new WebSocket(`${protocol}//${window.location.host}/api/projects/${this.projectId}/collab`)
+    this.socket = socket
+    this.status = 'connecting'
+
+    socket.onmessage = (event) => {
+      try {
+        this.handle(JSON.parse(event.data as string) as ServerMessage)
+      } catch (err) {
+        console.warn('[Collab] Bad message:', err)
+      }
+    }
+    socket.onclose = () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.status = 'disconnected'
+      this.clientId = null
+      this.peers.clear()
+      // Documents stay visible but read-only until the next sync
+      for (const state of this.documents.values()) state.synced = false
+      this.notify()
+      if (this.listeners.size > 0) this.scheduleReconnect()
+    }
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect()
+    }, this.reconnectDelay)
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS)
+  }
+
+  private handle(message: ServerMessage): void {
+    switch (message.type) {
+      case 'welcome':
+        this.status = 'connected'
+        this.reconnectDelay = 500
+        this.clientId = message.clientId
+        this.peers = new Map(message.peers.map((peer) => [peer.clientId, peer]))
+        for (const [path, state] of this.documents) {
+          state.error = null
+          this.send({ type: 'open', path })
+        }
+        this.send({ type: 'presence', ...this.presence })
+        break
+      case 'sync':
+        this.receiveSync(message.path, message.update)
+        break
+      case 'update': {
+        const doc = this.documents.get(message.path)?.doc
+        if (doc) Y.applyUpdate(doc, fromBase64(message.update), 'remote')
+        return
+      }
+      case 'peer':
+        this.peers.set(message.peer.clientId, message.peer)
+        break
+      case 'peer-left':
+        this.peers.delete(message.clientId)
+        break
+      case 'error': {
+        const state = message.path ? this.documents.get(message.path) : undefined
+        if (state && !state.synced) state.error = message.message
+        else console.warn('[Collab]', message.message)
+        break
+      }
+    }
+    this.notify()
+  }
+
+  private receiveSync(path: string, update: string): void {
+    const state = this.documents.get(path)
+    if (!state) return
+    // A fresh document each time: after a reconnect the server's copy may
+    // have a different history than the one we held
+    state.doc?.destroy()
+    const doc = new Y.Doc()
+    Y.applyUpdate(doc, fromBase64(update), 'remote')
+    doc.on('update', (change: Uint8Array, origin: unknown) => {
+      if (origin === LOCAL_ORIGIN) this.send({ type: 'update', path, update: toBase64(change) })
+    })
+    this.documents.set(path, { doc, synced: true, error: null })
+  }
+
+  private send(message: unknown): void {
+    if (this.socket?.readyState === WebSocket.OPEN && this.status === 'connected') {
+      this.socket.send(JSON.stringify(message))
+    }
+  }
+
+  private notify(): void {
+    this.version++
+    for (const listener of this.listeners) listener()
+  }
+}
+
+const connections = new Map<string, CollabConnection>()
+
+/** The shared connection for a project; it connects once subscribed to. */
+export function getCollabConnection(projectId: string): CollabConnection {
+  let connection = connections.get(projectId)
+  if (!connection) {
+    connection = new CollabConnection(projectId)
+    connections.set(projectId, connection)
+  }
+  return connection
+}
@@ -0,0 +1,313 @@
+import type { editor, languages, IDisposable, IMarkdownString, IPosition, IRange, Uri } from 'monaco-editor'
+import { api } from '@/lib/api'
+import {
+  projectFileUri,
+  projectPathFromUri,
+  type LspConnection,
+  type LspDiagnostic,
+  type LspPosition,
+  type LspRange,
+  type LspTextEdit,
+} from '@/lib/lsp'
+
+type MonacoApi = typeof import('monaco-editor')
+type CodeEditor = editor.IStandaloneCodeEditor
+type TextModel = editor.ITextModel
+
+interface LspLocation {
+  uri: string
+  range: LspRange
+}
+
+interface LspMarkupContent {
+  kind: 'markdown' | 'plaintext'
+  value: string
+}
+
+type LspMarkedString = string | { language: string; value: string }
+
+interface LspCompletionItem {
+  label: string
+  kind?: number
+  detail?: string
+  documentation?: string | LspMarkupContent
+  sortText?: string
+  filterText?: string
+  insertText?: string
+  insertTextFormat?: 1 | 2
+  textEdit?: LspTextEdit | { newText: string; insert: LspRange; replace: LspRange }
+  additionalTextEdits?: LspTextEdit[]
+}
+
+interface LspWorkspaceEdit {
+  changes?: Record<string, LspTextEdit[]>
+  documentChanges?: { textDocument: { uri: string }; edits: LspTextEdit[] }[]
+}
+
+// Full-text sync, so batch keystrokes
+const CHANGE_DEBOUNCE_MS = 300
+
+// LSP CompletionItemKind (1-based) → Monaco's enum member names
+const COMPLETION_KINDS = [
+  'Text', 'Method', 'Function', 'Constructor', 'Field', 'Variable', 'Class', 'Interface', 'Module', 'Property',
+  'Unit', 'Value', 'Enum', 'Keyword', 'Snippet', 'Color', 'File', 'Reference', 'Folder', 'EnumMember',
+  'Constant', 'Struct', 'Event', 'Operator', 'TypeParameter',
+] as const
+
+function toLspPosition(position: IPosition): LspPosition {
+  return { line: position.lineNumber - 1, character: position.column - 1 }
+}
+
+function toRange(range: LspRange): IRange {
+  return {
+    startLineNumber: range.start.line + 1,
+    startColumn: range.start.character + 1,
+    endLineNumber: range.end.line + 1,
+    endColumn: range.end.character + 1,
+  }
+}
+
+function toMarkdown(content: string | LspMarkupContent | LspMarkedString): IMarkdownString {
+  if (typeof content === 'string') return { value: content }
+  if ('language' in content) return { value: `\`\`\`${content.language}\n${content.value}\n\`\`\`` }
+  return { value: content.value }
+}
+
+/** Apply LSP edits to a whole file's text. */
+function applyTextEdits(text: string, edits: LspTextEdit[]): string {
+  const lineStarts = [0]
+  for (let i = 0; i < text.length; i++) if (text[i] === '\n') lineStarts.push(i + 1)
+  const offset = (p: LspPosition) => Math.min((lineStarts[p.line] ?? text.length) + p.character, text.length)
+  // Back to front, so earlier offsets stay valid
+  const sorted = [...edits].sort((a, b) => offset(b.range.start) - offset(a.range.start))
+  let result = text
+  for (const edit of sorted) {
+    result = result.slice(0, offset(edit.range.start)) + edit.newText + result.slice(offset(edit.range.end))
+  }
+  return result
+}
+
+export interface LanguageServerBinding {
+  connection: LspConnection
+  /** Project-relative path of the file in the editor */
+  path: string
+  languageId: string
+  readOnly?: boolean
+  /** Open another project file, e.g. for go-to-definition */
+  openFile(path: string, position?: IPosition): void
+}
+
+/**
+ * Wire the editor's current model to a language server: document sync,
+ * diagnostics as markers (owner `lsp`), completion, hover, go-to-definition
+ * and rename. Definitions in other project files open through `openFile`;
+ * library classes (jdtls `jdt://` URIs) are shown in a peek view. A rename
+ * that touches other files rewrites them on disk. Returns the unbind function.
+ */
+export function bindLanguageServer(codeEditor: CodeEditor, monaco: MonacoApi, binding: LanguageServerBinding): () => void {
+  const model = codeEditor.getModel()
+  if (!model) return () => {}
+  const { connection, path, languageId } = binding
+  const uri = projectFileUri(path)
+  const disposables: IDisposable[] = []
+  const referenceModels: TextModel[] = []
+  const release = connection.retain()
+
+  // Document sync
+  connection.openDocument(uri, languageId, model.getValue())
+  let changeTimer: ReturnType<typeof setTimeout> | null = null
+  const flush = () => {
+    if (changeTimer) clearTimeout(changeTimer)
+    changeTimer = null
+    connection.changeDocument(uri, model.getValue())
+  }
+  disposables.push(model.onDidChangeContent(() => {
+    if (changeTimer) clearTimeout(changeTimer)
+    changeTimer = setTimeout(flush, CHANGE_DEBOUNCE_MS)
+  }))
+
+  // Diagnostics
+  const showDiagnostics = (diagnostics: LspDiagnostic[]) => {
+    const severities = [monaco.MarkerSeverity.Error, monaco.MarkerSeverity.Warning, monaco.MarkerSeverity.Info, monaco.MarkerSeverity.Hint]
+    monaco.editor.setModelMarkers(model, 'lsp', diagnostics.map((d) => ({
+      ...toRange(d.range),
+      severity: severities[(d.severity ?? 1) - 1] ?? monaco.MarkerSeverity.Error,
+      message: d.message,
+      source: d.source,
+      code: d.code !== undefined ? String(d.code) : undefined,
+    })))
+  }
+  showDiagnostics(connection.diagnosticsFor(uri))
+  const stopDiagnostics = connection.onNotification('textDocument/publishDiagnostics', (params) => {
+    const { uri: target, diagnostics } = params as { uri: string; diagnostics: LspDiagnostic[] }
+    if (target === uri) showDiagnostics(diagnostics)
+  })
+
+  const position = (p: IPosition) => ({ textDocument: { uri }, position: toLspPosition(p) })
+
+  // A model for a definition outside this file, so Monaco can show or peek it
+  const modelFor = async (location: LspLocation): Promise<Uri | null> => {
+    if (location.uri === uri) return model.uri
+    const target = monaco.Uri.parse(location.uri)
+    const existing = monaco.editor.getModel(target)
+    if (existing) return existing.uri
+    const filePath = projectPathFromUri(location.uri)
+    let text: string | null
+    if (filePath) {
+      text = (await api.get<{ content: string }>(`/projects/${connection.projectId}/files/content?path=${encodeURIComponent(filePath)}`)).content
+    } else if (location.uri.startsWith('jdt://')) {
+      text = await connection.request<string | null>('java/classFileContents', { uri: location.uri })
+    } else {
+      return null
+    }
+    if (text === null) return null
+    const created = monaco.editor.getModel(target) ?? monaco.editor.createModel(text, filePath ? undefined : 'java', target)
+    referenceModels.push(created)
+    return created.uri
+  }
+
+  disposables.push(monaco.languages.registerCompletionItemProvider(languageId, {
+    triggerCharacters: ['.', '@', ':'],
+    async provideCompletionItems(m, p, context) {
+      if (m !== model) return undefined
+      flush()
+      const result = await connection.request<LspCompletionItem[] | { isIncomplete: boolean; items: LspCompletionItem[] } | null>(
+        'textDocument/completion',
+        { ...position(p), context: { triggerKind: context.triggerKind + 1, triggerCharacter: context.triggerCharacter } },
+      ).catch(() => null)
+      const items = Array.isArray(result) ? result : result?.items ?? []
+      const word = model.getWordUntilPosition(p)
+      const defaultRange = { startLineNumber: p.lineNumber, startColumn: word.startColumn, endLineNumber: p.lineNumber, endColumn: word.endColumn }
+      return {
+        incomplete: !Array.isArray(result) && !!result?.isIncomplete,
+        suggestions: items.map((item): languages.CompletionItem & { lspItem: LspCompletionItem } => {
+          const edit = item.textEdit
+          return {
+            label: item.label,
+            kind: monaco.languages.CompletionItemKind[COMPLETION_KINDS[(item.kind ?? 1) - 1] ?? 'Text'],
+            detail: item.detail,
+            documentation: item.documentation ? toMarkdown(item.documentation) : undefined,
+            sortText: item.sortText,
+            filterText: item.filterText,
+            insertText: edit?.newText ?? item.insertText ?? item.label,
+            insertTextRules: item.insertTextFormat === 2 ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet : undefined,
+            range: !edit ? defaultRange : 'range' in edit ? toRange(edit.range) : { insert: toRange(edit.insert), replace: toRange(edit.replace) },
+            additionalTextEdits: item.additionalTextEdits?.map((e) => ({ range: toRange(e.range), text: e.newText })),
+            lspItem: item,
+          }
+        }),
+      }
+    },
+    // Documentation and auto-imports are filled in lazily
+    async resolveCompletionItem(item) {
+      const lspItem = (item as languages.CompletionItem & { lspItem?: LspCompletionItem }).lspItem
+      if (!lspItem) return item
+      const resolved = await connection.request<LspCompletionItem>('completionItem/resolve', lspItem).catch(() => null)
+      if (!resolved) return item
+      return {
+        ...item,
+        detail: resolved.detail ?? item.detail,
+        documentation: resolved.documentation ? toMarkdown(resolved.documentation) : item.documentation,
+        additionalTextEdits: resolved.additionalTextEdits?.map((e) => ({ range: toRange(e.range), text: e.newText })) ?? item.additionalTextEdits,
+      }
+    },
+  }))
+
+  disposables.push(monaco.languages.registerHoverProvider(languageId, {
+    async provideHover(m, p) {
+      if (m !== model) return undefined
+      flush()
+      const hover = await connection.request<{ contents: LspMarkupContent | LspMarkedString | LspMarkedString[]; range?: LspRange } | null>(
+        'textDocument/hover', position(p),
+      ).catch(() => null)
+      if (!hover) return undefined
+      const contents = (Array.isArray(hover.contents) ? hover.contents : [hover.contents]).map(toMarkdown).filter((c) => c.value)
+      if (contents.length === 0) return undefined
+      return { contents, range: hover.range ? toRange(hover.range) : undefined }
+    },
+  }))
+
+  disposables.push(monaco.languages.registerDefinitionProvider(languageId, {
+    async provideDefinition(m, p) {
+      if (m !== model) return undefined
+      flush()
+      const result = await connection.request<LspLocation | LspLocation[] | null>('textDocument/definition', position(p)).catch(() => null)
+      const locations = !result ? [] : Array.isArray(result) ? result : [result]
+      const resolved = await Promise.all(locations.map(async (location) => {
+        const target = await modelFor(location).catch(() => null)
+        return target ? { uri: target, range: toRange(location.range) } : null
+      }))
+      return resolved.filter((l) => l !== null)
+    },
+  }))
+
+  if (!binding.readOnly) {
+    disposables.push(monaco.languages.registerRenameProvider(languageId, {
+      async resolveRenameLocation(m, p) {
+        if (m !== model) return { range: { startLineNumber: p.lineNumber, startColumn: p.column, endLineNumber: p.lineNumber, endColumn: p.column }, text: '', rejectReason: 'Rename is not available here' }
+        flush()
+        const result = await connection.request<LspRange | { range: LspRange; placeholder: string } | null>('textDocument/prepareRename', position(p)).catch(() => null)
+        if (!result) {
+          const word = model.getWordAtPosition(p)
+          return { range: { startLineNumber: p.lineNumber, startColumn: p.column, endLineNumber: p.lineNumber, endColumn: p.column }, text: word?.word ?? '', rejectReason: 'This element cannot be renamed' }
+        }
+        const range = toRange('range' in result ? result.range : result)
+        return { range, text: 'placeholder' in result ? result.placeholder : model.getValueInRange(range) }
+      },
+      async provideRenameEdits(m, p, newName) {
+        if (m !== model) return undefined
+        flush()
+        const edit = await connection.request<LspWorkspaceEdit | null>('textDocument/rename', { ...position(p), newName })
+        const changes: [string, LspTextEdit[]][] = edit?.documentChanges
+          ? edit.documentChanges.map((c) => [c.textDocument.uri, c.edits])
+          : Object.entries(edit?.changes ?? {})
+
+        // Other files are rewritten on disk; open editors pick that up like any outside write
+        await Promise.all(changes.map(async ([target, edits]) => {
+          const filePath = target === uri ? null : projectPathFromUri(target)
+          if (!filePath) return
+          const { content } = await api.get<{ content: string }>(`/projects/${connection.projectId}/files/content?path=${encodeURIComponent(filePath)}`)
+          await api.put(`/projects/${connection.projectId}/files/content`, { path: filePath, content: applyTextEdits(content, edits) })
+        }))
+
+        return {
+          edits: changes
+            .filter(([target]) => target === uri)
+            .flatMap(([, edits]) => edits.map((e) => ({ resource: model.uri, versionId: undefined, textEdit: { range: toRange(e.range), text: e.newText } }))),
+        }
+      },
+    }))
+  }
+
+  // Definitions elsewhere: project files switch the editor, library classes peek
+  disposables.push(monaco.editor.registerEditorOpener({
+    openCodeEditor(source, resource, selectionOrPosition) {
+      if (source !== codeEditor) return false
+      if (resource.scheme === 'jdt') {
+        codeEditor.trigger('lsp', 'editor.action.peekDefinition', null)
+        return true
+      }
+      const filePath = projectPathFromUri(resource.toString(true))
+      if (!filePath) return false
+      const target = !selectionOrPosition
+        ? undefined
+        : 'startLineNumber' in selectionOrPosition
+          ? { lineNumber: selectionOrPosition.startLineNumber, column: selectionOrPosition.startColumn }
+          : selectionOrPosition
+      binding.openFile(filePath, target)
+      return true
+    },
+  }))
+
+  return () => {
+    if (changeTimer) flush()
+    stopDiagnostics()
+    for (const disposable of disposables) disposable.dispose()
+    monaco.editor.setModelMarkers(model, 'lsp', [])
+    for (const reference of referenceModels) {
+      if (!reference.isDisposed()) reference.dispose()
+    }
+    connection.closeDocument(uri)
+    release()
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Client side of the language server WebSocket (`/api/projects/:id/lsp/:language`):
+ * JSON-RPC to jdtls or kotlin-language-server, shared with everyone else who
+ * has the project open. One connection per project and language, open while
+ * anything holds it. Files are addressed as `file:///project/<path>`; open
+ * documents are re-sent after a reconnect.
+ */
+
+export type LspLanguage = 'java' | 'kotlin'
+
+export type LspStatus = 'connecting' | 'ready' | 'disconnected' | 'unavailable'
+
+export interface LspPosition {
+  line: number
+  character: number
+}
+
+export interface LspRange {
+  start: LspPosition
+  end: LspPosition
+}
+
+export interface LspTextEdit {
+  range: LspRange
+  newText: string
+}
+
+export interface LspDiagnostic {
+  range: LspRange
+  severity?: 1 | 2 | 3 | 4
+  code?: string | number
+  source?: string
+  message: string
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: number | string | null
+  method?: string
+  params?: unknown
+  result?: unknown
+  error?: { code: number; message: string }
+}
+
+export const PROJECT_ROOT_URI = 'file:///project/'
+
+const MAX_RECONNECT_DELAY_MS = 30_000
+// Grace period before the last release disconnects, so switching files reuses the socket
+const IDLE_DISCONNECT_MS = 5_000
+
+/** Language server for a file, if there is one. */
+export function lspLanguageForPath(path: string): LspLanguage | null {
+  if (path.endsWith('.java')) return 'java'
+  if (path.endsWith('.kt') || path.endsWith('.kts')) return 'kotlin'
+  return null
+}
+
+export function projectFileUri(path: string): string {
+  return PROJECT_ROOT_URI + path.split('/').map(encodeURIComponent).join('/')
+}
+
+/** Project-relative path of a `file:///project/...` URI. */
+export function projectPathFromUri(uri: string): string | null {
+  if (!uri.startsWith(PROJECT_ROOT_URI)) return null
+  try {
+    return decodeURIComponent(uri.slice(PROJECT_ROOT_URI.length))
+  } catch {
+    return null
+  }
+}
+
+export class LspConnection {
+  status: LspStatus = 'disconnected'
+  readonly projectId: string
+  readonly language: LspLanguage
+
+  private socket: WebSocket | null = null
+  private nextId = 1
+  private pending = new Map<number, { resolve(result: unknown): void; reject(err: Error): void }>()
+  private handlers = new Map<string, Set<(params: unknown) => void>>()
+  private statusListeners = new Set<() => void>()
+  private documents = new Map<string, { languageId: string; text: string }>()
+  private diagnostics = new Map<string, LspDiagnostic[]>()
+  private holders = 0
+  private idleTimer: ReturnType<typeof setTimeout> | null = null
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private reconnectDelay = 1_000
+
+  constructor(projectId: string, language: LspLanguage) {
+    this.projectId = projectId
+    this.language = language
+  }
+
+  /** Keep the connection open until the returned function is called. */
+  retain(): () => void {
+    this.holders++
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+    if (!this.socket && !this.reconnectTimer) this.connect()
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      this.holders--
+      if (this.holders > 0) return
+      this.idleTimer = setTimeout(() => {
+        this.idleTimer = null
+        this.disconnect()
+      }, IDLE_DISCONNECT_MS)
+    }
+  }
+
+  /** Notified whenever `status` changes. */
+  subscribe(listener: () => void): () => void {
+    this.statusListeners.add(listener)
+    return () => this.statusListeners.delete(listener)
+  }
+
+  onNotification(method: string, handler: (params: unknown) => void): () => void {
+    let set = this.handlers.get(method)
+    if (!set) {
+      set = new Set()
+      this.handlers.set(method, set)
+    }
+    set.add(handler)
+    return () => set.delete(handler)
+  }
+
+  /** Latest diagnostics the server published for a document. */
+  diagnosticsFor(uri: string): LspDiagnostic[] {
+    return this.diagnostics.get(uri) ?? []
+  }
+
+  request<T>(method: string, params: unknown): Promise<T> {
+    if (this.status !== 'ready') return Promise.reject(new Error('Language server is not ready'))
+    const id = this.nextId++
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject })
+      this.send({ jsonrpc: '2.0', id, method, params })
+    })
+  }
+
+  openDocument(uri: string, languageId: string, text: string): void {
+    this.documents.set(uri, { languageId, text })
+    if (this.status === 'ready') this.sendOpen(uri)
+  }
+
+  changeDocument(uri: string, text: string): void {
+    const document = this.documents.get(uri)
+    if (!document || document.text === text) return
+    document.text = text
+    // The server assigns versions; it only needs the full text
+    this.send({ jsonrpc: '2.0', method: 'textDocument/didChange', params: { textDocument: { uri, version: 0 }, contentChanges: [{ text }] } })
+  }
+
+  closeDocument(uri: string): void {
+    if (!this.documents.delete(uri)) return
+    this.send({ jsonrpc: '2.0', method: 'textDocument/didClose', params: { textDocument: { uri } } })
+  }
+
+  private sendOpen(uri: string): void {
+    const document = this.documents.get(uri)
+    if (!document) return
+    this.send({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri, languageId: document.languageId, version: 1, text: document.text } } })
+  }
+
+  private connect(): void {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+    const socket = new WebSocket(`${protocol}//${window.location.host}/api/projects/${this.projectId}/lsp/${this.language}`)
+    this.socket = socket
+    this.setStatus('connecting')
+
+    socket.onopen = () => {
+      // The server answers from the shared session's capabilities
+      const id = this.nextId++
+      this.pending.set(id, {
+        resolve: () => {
+          this.reconnectDelay = 1_000
+          this.send({ jsonrpc: '2.0', method: 'initialized', params: {} })
+          this.setStatus('ready')
+          for (const uri of this.documents.keys()) this.sendOpen(uri)
+        },
+        reject: (err) => console.warn('[LSP] Initialize failed:', err.message),
+      })
+      this.send({ jsonrpc: '2.0', id, method: 'initialize', params: { processId: null, rootUri: PROJECT_ROOT_URI, capabilities: {} } })
+    }
+    socket.onmessage = (event) => {
+      try {
+        this.handle(JSON.parse(event.data as string) as JsonRpcMessage)
+      } catch (err) {
+        console.warn('[LSP] Bad message:', err)
+      }
+    }
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.failPending()
+      // A server that failed to start would fail again; wait for the next file
+      const unavailable = event.code === 1011 && event.reason === 'Language server unavailable'
+      this.setStatus(unavailable ? 'unavailable' : 'disconnected')
+      if (!unavailable && this.holders > 0) this.scheduleReconnect()
+    }
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = null
+    const socket = this.socket
+    this.socket = null
+    socket?.close()
+    this.failPending()
+    this.documents.clear()
+    this.diagnostics.clear()
+    this.setStatus('disconnected')
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect()
+    }, this.reconnectDelay)
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS)
+  }
+
+  private handle(message: JsonRpcMessage): void {
+    if (message.method) {
+      if (message.method === 'textDocument/publishDiagnostics') {
+        const params = message.params as { uri: string; diagnostics: LspDiagnostic[] }
+        this.diagnostics.set(params.uri, params.diagnostics)
+      }
+      for (const handler of this.handlers.get(message.method) ?? []) handler(message.params)
+      return
+    }
+    if (typeof message.id !== 'number') return
+    const pending = this.pending.get(message.id)
+    if (!pending) return
+    this.pending.delete(message.id)
+    if (message.error) pending.reject(new Error(message.error.message))
+    else pending.resolve(message.result ?? null)
+  }
+
+  private failPending(): void {
+    for (const { reject } of this.pending.values()) reject(new Error('Language server disconnected'))
+    this.pending.clear()
+  }
+
+  private send(message: JsonRpcMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message))
+  }
+
+  private setStatus(status: LspStatus): void {
+    if (this.status === status) return
+    this.status = status
+    for (const listener of this.statusListeners) listener()
+  }
+}
+
+const connections = new Map<string, LspConnection>()
+
+/** The shared connection for a project's language server; it connects once retained. */
+export function getLspConnection(projectId: string, language: LspLanguage): LspConnection {
+  const key = `${projectId}:${language}`
+  let connection = connections.get(key)
+  if (!connection) {
+    connection = new LspConnection(projectId, language)
+    connections.set(key, connection)
+  }
+  return connection
+}
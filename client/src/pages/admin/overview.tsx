@@ -1,5 +1,86 @@
-import { Users, FolderKanban, Cpu, Loader2 } from 'lucide-react'
-import { useAdminStats } from '@/hooks/use-admin'
+import { Users, FolderKanban, Cpu, Loader2, AlertTriangle, RefreshCw } from 'lucide-react'
+import { useAdminStats, useLedgerDrift } from '@/hooks/use-admin'
+
+function LedgerDriftPanel() {
+  const { drift, isLoading, check, isChecking, resolve, isResolving } = useLedgerDrift()
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-text">Token ledger</h2>
+          <p className="mt-0.5 text-sm text-text-muted">Balances that disagree with their transaction history</p>
+        </div>
+        <button
+          onClick={() => check()}
+          disabled={isChecking}
+          className="inline-flex items-center gap-1.5 rounded-md border border-border px-3 py-1.5 text-xs text-text-muted hover:bg-surface-hover disabled:opacity-50"
+        >
+          <RefreshCw className={`h-3.5 w-3.5 ${isChecking ? 'animate-spin' : ''}`} />
+          Run check
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="mt-4 flex items-center justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-text-dim" />
+        </div>
+      ) : drift.length === 0 ? (
+        <p className="mt-4 rounded-xl border border-border bg-surface p-5 text-sm text-text-muted">
+          All balances match the ledger.
+        </p>
+      ) : (
+        <div className="mt-4 overflow-x-auto rounded-xl border border-border bg-surface">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border text-left text-xs text-text-dim">
+                <th className="px-4 py-2 font-medium">User</th>
+                <th className="px-4 py-2 font-medium">Balance</th>
+                <th className="px-4 py-2 font-medium">Ledger</th>
+                <th className="px-4 py-2 font-medium">Drift</th>
+                <th className="px-4 py-2 font-medium">Detected</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {drift.map((d) => (
+                <tr key={d.id} className="border-b border-border last:border-b-0">
+                  <td className="px-4 py-2 text-text">{d.username}</td>
+                  <td className="px-4 py-2 text-text-muted">{d.balance.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-text-muted">{d.ledgerBalance.toLocaleString()}</td>
+                  <td className={`px-4 py-2 font-medium ${d.drift > 0 ? 'text-destructive' : 'text-warning'}`}>
+                    {d.drift > 0 ? '+' : ''}{d.drift.toLocaleString()}
+                  </td>
+                  <td className="px-4 py-2 text-text-dim">{new Date(d.detectedAt).toLocaleString()}</td>
+                  <td className="px-4 py-2">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => resolve({ id: d.id, action: 'keep_balance' })}
+                        disabled={isResolving}
+                        className="rounded-md border border-border px-2 py-1 text-xs text-text-muted hover:bg-surface-hover disabled:opacity-50"
+                        title="Keep the current balance and record the difference as a ledger adjustment"
+                      >
+                        Keep balance
+                      </button>
+                      <button
+                        onClick={() => resolve({ id: d.id, action: 'restore_ledger' })}
+                        disabled={isResolving}
+                        className="rounded-md border border-border px-2 py-1 text-xs text-text-muted hover:bg-surface-hover disabled:opacity-50"
+                        title="Reset the balance to the sum of the user's ledger"
+                      >
+                        Restore from ledger
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
 
 export default function AdminOverviewPage() {
   const { stats, isLoading } = useAdminStats()
@@ -10,8 +91,8 @@ export default function AdminOverviewPage() {
       <p className="mt-1 text-sm text-text-muted">System status and key metrics</p>
 
       {isLoading ? (
-        <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-          {[1, 2, 3].map((i) => (
+        <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {[1, 2, 3, 4].map((i) => (
             <div key={i} className="animate-pulse rounded-xl border border-border bg-surface p-5">
               <div className="h-4 w-24 rounded bg-border" />
               <div className="mt-3 h-8 w-16 rounded bg-border" />
@@ -19,7 +100,7 @@ export default function AdminOverviewPage() {
           ))}
         </div>
       ) : stats ? (
-        <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
           <div className="rounded-xl border border-border bg-surface p-5">
             <div className="flex items-center justify-between">
               <p className="text-sm text-text-muted">Total Users</p>
@@ -41,12 +122,21 @@ export default function AdminOverviewPage() {
             </div>
             <p className="mt-2 text-2xl font-bold text-text">{stats.totalAgentSessions}</p>
           </div>
+          <div className="rounded-xl border border-border bg-surface p-5">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-text-muted">Ledger Drift</p>
+              <AlertTriangle className={`h-4 w-4 ${stats.openLedgerDrift > 0 ? 'text-destructive' : 'text-text-dim'}`} />
+            </div>
+            <p className={`mt-2 text-2xl font-bold ${stats.openLedgerDrift > 0 ? 'text-destructive' : 'text-text'}`}>{stats.openLedgerDrift}</p>
+          </div>
         </div>
       ) : (
         <div className="mt-6 flex items-center justify-center py-12">
           <Loader2 className="h-6 w-6 animate-spin text-text-dim" />
         </div>
       )}
+
+      <LedgerDriftPanel />
     </div>
   )
 }
@@ -64,9 +64,9 @@ export default function AdminUsersPage() {
   const [completing, setCompleting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [tokenGrantOpen, setTokenGrantOpen] = useState(false)
-  const [tokenGrantUser, setTokenGrantUser] = useState<{ id: string; username: string } | null>(null)
+  const [tokenGrantUser, setTokenGrantUser] = useState<{ id: string; username: string; requestKey: string } | null>(null)
   const [tokenDeductOpen, setTokenDeductOpen] = useState(false)
-  const [tokenDeductUser, setTokenDeductUser] = useState<{ id: string; username: string; tokens: number } | null>(null)
+  const [tokenDeductUser, setTokenDeductUser] = useState<{ id: string; username: string; tokens: number; requestKey: string } | null>(null)
   const [tierUpdateOpen, setTierUpdateOpen] = useState(false)
   const [tierUpdateUser, setTierUpdateUser] = useState<{ id: string; username: string; tier: string } | null>(null)
 
@@ -238,9 +238,10 @@ export default function AdminUsersPage() {
       return
     }
     setTokenGrantError('')
+    // One key per dialog: a double-submit or retried request grants only once.
     fetch(`/api/admin/users/${tokenGrantUser.id}/tokens`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': tokenGrantUser.requestKey },
       credentials: 'include',
       body: JSON.stringify({ amount, description: 'Admin grant' }),
     }).then(res => {
@@ -267,7 +268,7 @@ export default function AdminUsersPage() {
     setTokenDeductError('')
     fetch(`/api/admin/users/${tokenDeductUser.id}/tokens/deduct`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': tokenDeductUser.requestKey },
       credentials: 'include',
       body: JSON.stringify({ amount, description: 'Admin deduction' }),
     }).then(async res => {
@@ -370,7 +371,7 @@ export default function AdminUsersPage() {
                         <span className="text-xs text-text-muted">{user.aiTokens?.toLocaleString() || 0}</span>
                         <button
                           onClick={() => {
-                            setTokenGrantUser({ id: user.id, username: user.username })
+                            setTokenGrantUser({ id: user.id, username: user.username, requestKey: crypto.randomUUID() })
                             setTokenGrantOpen(true)
                           }}
                           className="text-xs text-primary hover:underline"
@@ -379,7 +380,7 @@ export default function AdminUsersPage() {
                         </button>
                         <button
                           onClick={() => {
-                            setTokenDeductUser({ id: user.id, username: user.username, tokens: user.aiTokens ?? 0 })
+                            setTokenDeductUser({ id: user.id, username: user.username, tokens: user.aiTokens ?? 0, requestKey: crypto.randomUUID() })
                             setTokenDeductOpen(true)
                           }}
                           className="text-xs text-red-500 hover:underline"
@@ -1,7 +1,9 @@
 import { useState } from 'react'
 import { Link } from 'react-router'
-import { Plus, Search, MoreHorizontal, Trash2, Pencil, Archive, Settings } from 'lucide-react'
+import { Plus, Search, MoreHorizontal, Trash2, Pencil, Archive, Settings, Users, Mail, Check, X } from 'lucide-react'
+import { toast } from 'sonner'
 import { useProjects } from '@/hooks/use-projects'
+import { useInvitations } from '@/hooks/use-project-members'
 import { cn } from '@/lib/utils'
 import { SOFTWARE_LABELS } from '@/lib/software-options'
 import { CustomSelect } from '@/components/ui/custom-select'
@@ -25,12 +27,18 @@ function formatRelativeDate(dateStr: string): string {
 
 type SortKey = 'name' | 'updatedAt'
 
+/** Projects another user owns and has shared with the current one */
+function isShared(project: Project): boolean {
+  return !!project.role && project.role !== 'owner'
+}
+
 export default function DashboardPage() {
   const { projects, isLoading, deleteProject, isDeleting } = useProjects()
   const [search, setSearch] = useState('')
   const [sortBy, setSortBy] = useState<SortKey>('updatedAt')
   const [deleteTarget, setDeleteTarget] = useState<Project | null>(null)
   const [openMenu, setOpenMenu] = useState<string | null>(null)
+  const { invitations, accept, decline, isResponding } = useInvitations()
 
   const filtered = projects
     .filter((p) => p.name.toLowerCase().includes(search.toLowerCase()))
@@ -48,6 +56,15 @@ export default function DashboardPage() {
     }
   }
 
+  const respond = async (id: string, action: 'accept' | 'decline') => {
+    try {
+      await (action === 'accept' ? accept(id) : decline(id))
+      toast.success(action === 'accept' ? 'Invitation accepted' : 'Invitation declined')
+    } catch {
+      toast.error(`Failed to ${action} invitation`)
+    }
+  }
+
   return (
     <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6">
       <div className="flex items-center justify-between">
@@ -64,6 +81,43 @@ export default function DashboardPage() {
         </Link>
       </div>
 
+      {invitations.length > 0 && (
+        <div className="mt-6 flex flex-col gap-2">
+          {invitations.map((invitation) => (
+            <div
+              key={invitation.id}
+              className="flex items-center justify-between gap-3 rounded-xl border border-primary/30 bg-primary/5 px-4 py-3"
+            >
+              <div className="flex items-center gap-3 text-sm">
+                <Mail className="h-4 w-4 shrink-0 text-primary" />
+                <p className="text-text-muted">
+                  <span className="font-medium text-text">{invitation.invitedBy}</span> invited you to{' '}
+                  <span className="font-medium text-text">{invitation.projectName}</span> as {invitation.role === 'editor' ? 'an editor' : 'a viewer'}
+                </p>
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <button
+                  onClick={() => respond(invitation.id, 'decline')}
+                  disabled={isResponding}
+                  className="flex items-center gap-1 rounded-lg border border-border px-3 py-1.5 text-xs text-text-muted transition-colors hover:bg-surface-hover disabled:opacity-50"
+                >
+                  <X className="h-3 w-3" />
+                  Decline
+                </button>
+                <button
+                  onClick={() => respond(invitation.id, 'accept')}
+                  disabled={isResponding}
+                  className="flex items-center gap-1 rounded-lg bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground transition-colors hover:bg-primary-hover disabled:opacity-50"
+                >
+                  <Check className="h-3 w-3" />
+                  Accept
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {!isLoading && projects.length > 0 && (
         <div className="mt-6 flex items-center gap-3">
           <div className="relative flex-1">
@@ -138,6 +192,12 @@ export default function DashboardPage() {
                             {project.versions.split(',')[0]}{project.versions.split(',').length > 1 ? ` +${project.versions.split(',').length - 1}` : ''}
                           </span>
                         )}
+                        {isShared(project) && (
+                          <span className="flex items-center gap-1 rounded bg-primary/10 px-2 py-0.5 text-xs text-primary">
+                            <Users className="h-3 w-3" />
+                            {project.ownerUsername} · {project.role}
+                          </span>
+                        )}
                         {project.status === 'archived' && (
                           <span className="flex items-center gap-1 rounded bg-warning/10 px-2 py-0.5 text-xs text-warning">
                             <Archive className="h-3 w-3" />
@@ -183,18 +243,20 @@ export default function DashboardPage() {
                           <Settings className="h-3 w-3" />
                           Project Settings
                         </Link>
-                        <button
-                          onClick={(e) => {
-                            e.preventDefault()
-                            e.stopPropagation()
-                            setOpenMenu(null)
-                            setDeleteTarget(project)
-                          }}
-                          className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs text-destructive hover:bg-destructive/10"
-                        >
-                          <Trash2 className="h-3 w-3" />
-                          Delete Project
-                        </button>
+                        {!isShared(project) && (
+                          <button
+                            onClick={(e) => {
+                              e.preventDefault()
+                              e.stopPropagation()
+                              setOpenMenu(null)
+                              setDeleteTarget(project)
+                            }}
+                            className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs text-destructive hover:bg-destructive/10"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                            Delete Project
+                          </button>
+                        )}
                       </div>
                     </>
                   )}
@@ -1,7 +1,20 @@
+import { useState } from 'react'
 import { Link } from 'react-router'
-import { Blocks, ArrowLeft, ShieldAlert } from 'lucide-react'
+import { Blocks, ArrowLeft, MailCheck } from 'lucide-react'
+import { useForgotPassword } from '@/hooks/use-auth'
+import type { ApiError } from '@/types'
 
 export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('')
+  const forgotPassword = useForgotPassword()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    forgotPassword.mutate(email.trim())
+  }
+
+  const error = (forgotPassword.error as ApiError | null)?.message
+
   return (
     <div className="flex min-h-[calc(100vh-4rem)] items-center justify-center px-4 py-12">
       <div className="w-full max-w-md">
@@ -10,26 +23,64 @@ export default function ForgotPasswordPage() {
             <Blocks className="h-8 w-8 text-primary" />
           </div>
           <h1 className="text-2xl font-bold tracking-tight text-text">Reset your password</h1>
+          <p className="mt-2 text-sm text-text-muted">
+            Enter the email address of your account and we&apos;ll send you a reset link
+          </p>
         </div>
 
-        <div className="rounded-lg border border-border bg-surface p-6 text-center">
-          <div className="mx-auto mb-4 inline-flex rounded-xl bg-warning/10 p-3">
-            <ShieldAlert className="h-6 w-6 text-warning" />
+        {forgotPassword.isSuccess ? (
+          <div className="rounded-lg border border-border bg-surface p-6 text-center">
+            <div className="mx-auto mb-4 inline-flex rounded-xl bg-success/10 p-3">
+              <MailCheck className="h-6 w-6 text-success" />
+            </div>
+            <p className="text-sm font-medium text-text">Check your inbox</p>
+            <p className="mt-2 text-sm text-text-muted">
+              If an account uses <span className="font-medium text-text">{email.trim()}</span>, a link to reset its password
+              is on its way. It works once and expires in an hour.
+            </p>
           </div>
-          <p className="text-sm font-medium text-text">
-            Password reset via email is not available yet
-          </p>
-          <p className="mt-2 text-sm text-text-muted">
-            Please contact a platform administrator to reset your password.
-          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="rounded-lg border border-destructive/50 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="email" className="mb-1.5 block text-sm font-medium text-text">
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text placeholder:text-text-dim focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                placeholder="you@example.com"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={forgotPassword.isPending}
+              className="w-full rounded-lg bg-primary px-4 py-2.5 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary-hover disabled:opacity-50"
+            >
+              {forgotPassword.isPending ? 'Sending...' : 'Send reset link'}
+            </button>
+          </form>
+        )}
+
+        <p className="mt-6 text-center">
           <Link
             to="/login"
-            className="mt-6 inline-flex items-center gap-2 text-sm font-medium text-primary hover:text-primary-hover"
+            className="inline-flex items-center gap-2 text-sm font-medium text-primary hover:text-primary-hover"
           >
             <ArrowLeft className="h-4 w-4" />
             Back to sign in
           </Link>
-        </div>
+        </p>
       </div>
     </div>
   )
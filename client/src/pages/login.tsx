@@ -1,26 +1,38 @@
 import { useState } from 'react'
 import { Link, useNavigate } from 'react-router'
-import { useAuth } from '@/hooks/use-auth'
-import { Blocks, Eye, EyeOff } from 'lucide-react'
-import type { ApiError } from '@/types'
+import { useAuth, type LoginError } from '@/hooks/use-auth'
+import { Blocks, Eye, EyeOff, ShieldCheck } from 'lucide-react'
 
 export default function LoginPage() {
   const navigate = useNavigate()
-  const { login, isLoggingIn, loginError } = useAuth()
-  const [form, setForm] = useState({ login: '', password: '' })
+  const { login, isLoggingIn } = useAuth()
+  const [form, setForm] = useState({ login: '', password: '', code: '' })
   const [showPassword, setShowPassword] = useState(false)
+  // Accounts with 2FA get a second step once the password is accepted
+  const [step, setStep] = useState<'password' | 'code'>('password')
+  const [error, setError] = useState('')
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    setError('')
     try {
-      await login(form)
+      await login({ login: form.login, password: form.password, code: step === 'code' ? form.code : undefined })
       navigate('/dashboard')
-    } catch {
-      // Error is captured in loginError
+    } catch (err) {
+      const loginError = err as LoginError
+      if (step === 'password' && loginError.twoFactorRequired && loginError.statusCode === 401) {
+        setStep('code')
+        return
+      }
+      setError(loginError.message)
     }
   }
 
-  const error = (loginError as ApiError | null)?.message
+  const backToPassword = () => {
+    setStep('password')
+    setForm({ ...form, code: '' })
+    setError('')
+  }
 
   return (
     <div className="flex min-h-[calc(100vh-4rem)] items-center justify-center px-4 py-12">
@@ -42,60 +54,97 @@ export default function LoginPage() {
             </div>
           )}
 
-          <div>
-            <label htmlFor="login" className="mb-1.5 block text-sm font-medium text-text">
-              Email or Username
-            </label>
-            <input
-              id="login"
-              type="text"
-              required
-              value={form.login}
-              onChange={(e) => setForm({ ...form, login: e.target.value })}
-              className="w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text placeholder:text-text-dim focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
-              placeholder="you@example.com"
-            />
-          </div>
-
-          <div>
-            <div className="mb-1.5 flex items-center justify-between">
-              <label htmlFor="password" className="text-sm font-medium text-text">
-                Password
+          {step === 'code' ? (
+            <div>
+              <div className="mb-4 flex items-start gap-3 rounded-lg border border-border bg-surface px-4 py-3">
+                <ShieldCheck className="mt-0.5 h-5 w-5 shrink-0 text-primary" />
+                <p className="text-sm text-text-muted">
+                  Two-factor authentication is on for this account. Enter the code from your authenticator app, or one of your recovery codes.
+                </p>
+              </div>
+              <label htmlFor="code" className="mb-1.5 block text-sm font-medium text-text">
+                Authentication code
               </label>
-              <Link
-                to="/forgot-password"
-                className="text-xs text-primary hover:text-primary-hover"
-              >
-                Forgot password?
-              </Link>
-            </div>
-            <div className="relative">
               <input
-                id="password"
-                type={showPassword ? 'text' : 'password'}
+                id="code"
+                type="text"
                 required
-                value={form.password}
-                onChange={(e) => setForm({ ...form, password: e.target.value })}
-                className="w-full rounded-lg border border-border bg-surface px-3 py-2 pr-10 text-sm text-text placeholder:text-text-dim focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
-                placeholder="Enter your password"
+                autoFocus
+                autoComplete="one-time-code"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                className="w-full rounded-lg border border-border bg-surface px-3 py-2 font-mono text-sm tracking-widest text-text placeholder:text-text-dim focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                placeholder="123456"
               />
-              <button
-                type="button"
-                onClick={() => setShowPassword(!showPassword)}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-text-dim hover:text-text-muted"
-              >
-                {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-              </button>
             </div>
-          </div>
+          ) : (
+            <>
+              <div>
+                <label htmlFor="login" className="mb-1.5 block text-sm font-medium text-text">
+                  Email or Username
+                </label>
+                <input
+                  id="login"
+                  type="text"
+                  required
+                  value={form.login}
+                  onChange={(e) => setForm({ ...form, login: e.target.value })}
+                  className="w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text placeholder:text-text-dim focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                  placeholder="you@example.com"
+                />
+              </div>
+
+              <div>
+                <div className="mb-1.5 flex items-center justify-between">
+                  <label htmlFor="password" className="text-sm font-medium text-text">
+                    Password
+                  </label>
+                  <Link
+                    to="/forgot-password"
+                    className="text-xs text-primary hover:text-primary-hover"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
+                <div className="relative">
+                  <input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    required
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                    className="w-full rounded-lg border border-border bg-surface px-3 py-2 pr-10 text-sm text-text placeholder:text-text-dim focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                    placeholder="Enter your password"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-text-dim hover:text-text-muted"
+                  >
+                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
 
           <button
             type="submit"
             disabled={isLoggingIn}
             className="w-full rounded-lg bg-primary px-4 py-2.5 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary-hover disabled:opacity-50"
           >
-            {isLoggingIn ? 'Signing in...' : 'Sign In'}
+            {isLoggingIn ? 'Signing in...' : step === 'code' ? 'Verify' : 'Sign In'}
           </button>
+
+          {step === 'code' && (
+            <button
+              type="button"
+              onClick={backToPassword}
+              className="w-full text-center text-sm text-text-muted hover:text-text"
+            >
+              Use a different account
+            </button>
+          )}
         </form>
 
         <p className="mt-6 text-center text-sm text-text-muted">
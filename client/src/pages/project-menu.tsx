@@ -19,21 +19,29 @@ import {
   ExternalLink,
   Square,
   CheckSquare,
+  Users,
+  UserPlus,
+  UserMinus,
+  LogOut,
+  Mail,
 } from 'lucide-react'
 import { useIsMobile } from '@/hooks/use-mobile'
 import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
 import { useProject, useProjectStats } from '@/hooks/use-projects'
 import { useUserTokens } from '@/hooks/use-user-tokens'
+import { useProjectMembers } from '@/hooks/use-project-members'
+import { useAuth } from '@/hooks/use-auth'
 import { CustomSelect } from '@/components/ui/custom-select'
-import type { UpdateProjectInput } from '@/types'
+import type { MemberRole, UpdateProjectInput } from '@/types'
 
-type TabId = 'overview' | 'stats' | 'compiler' | 'settings'
+type TabId = 'overview' | 'stats' | 'compiler' | 'members' | 'settings'
 
 const tabs: { id: TabId; label: string; icon: typeof LayoutDashboard }[] = [
   { id: 'overview', label: 'Overview', icon: LayoutDashboard },
   { id: 'stats', label: 'Stats', icon: BarChart3 },
   { id: 'compiler', label: 'Compiler', icon: Blocks },
+  { id: 'members', label: 'Members', icon: Users },
   { id: 'settings', label: 'Settings', icon: Settings },
 ]
 
@@ -59,7 +67,7 @@ export default function ProjectMenuPage() {
   const navigate = useNavigate()
   const isMobile = useIsMobile()
   const { project, isLoading, updateProject, isUpdating, deleteProject, isDeleting } = useProject(projectId ?? '')
-  const [activeTab, setActiveTab] = useState<TabId>('overview')
+  const [selectedTab, setSelectedTab] = useState<TabId>('overview')
 
   if (isLoading) {
     return (
@@ -80,6 +88,11 @@ export default function ProjectMenuPage() {
     )
   }
 
+  // Collaborators only get the read-only tabs; settings are the owner's
+  const isOwner = (project.role ?? 'owner') === 'owner'
+  const visibleTabs = isOwner ? tabs : tabs.filter((tab) => tab.id === 'stats' || tab.id === 'members')
+  const activeTab = visibleTabs.some((tab) => tab.id === selectedTab) ? selectedTab : visibleTabs[0].id
+
   return (
     <div className="flex h-screen flex-col bg-background">
       {/* Header */}
@@ -116,10 +129,10 @@ export default function ProjectMenuPage() {
               <p className="mb-2 px-3 text-xs font-medium uppercase tracking-wider text-text-dim">
                 Project Menu
               </p>
-              {tabs.map((tab) => (
+              {visibleTabs.map((tab) => (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id)}
+                  onClick={() => setSelectedTab(tab.id)}
                   className={cn(
                     'flex items-center gap-3 rounded-lg px-3 py-2 text-sm transition-colors',
                     activeTab === tab.id
@@ -140,10 +153,10 @@ export default function ProjectMenuPage() {
           {/* Horizontal tab bar (mobile) */}
           {isMobile && (
             <div className="flex shrink-0 overflow-x-auto border-b border-border bg-surface px-2">
-              {tabs.map((tab) => (
+              {visibleTabs.map((tab) => (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id)}
+                  onClick={() => setSelectedTab(tab.id)}
                   className={cn(
                     'flex shrink-0 items-center gap-2 px-4 py-3 text-xs font-medium transition-colors',
                     activeTab === tab.id
@@ -176,6 +189,9 @@ export default function ProjectMenuPage() {
                 isUpdating={isUpdating}
               />
             )}
+            {activeTab === 'members' && (
+              <MembersTab projectId={projectId ?? ''} onLeft={() => navigate('/dashboard')} />
+            )}
             {activeTab === 'settings' && (
               <SettingsTab
                 project={project}
@@ -665,6 +681,191 @@ function CompilerTab({
   )
 }
 
+// ── Members Tab ─────────────────────────────────────────────────────
+
+const memberRoleOptions = [
+  { value: 'editor', label: 'Editor', description: 'Can edit files, run the agent, build and review' },
+  { value: 'viewer', label: 'Viewer', description: 'Can browse files, sessions and builds' },
+]
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err !== null && typeof err === 'object' && 'message' in err ? String(err.message) : fallback
+}
+
+function MembersTab({ projectId, onLeft }: { projectId: string; onLeft: () => void }) {
+  const { user } = useAuth()
+  const { members, isLoading, invite, isInviting, revokeInvitation, updateRole, removeMember } =
+    useProjectMembers(projectId)
+  const [identifier, setIdentifier] = useState('')
+  const [inviteRole, setInviteRole] = useState<MemberRole>('editor')
+
+  if (isLoading || !members) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  const isOwner = members.role === 'owner'
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!identifier.trim()) return
+    try {
+      await invite({ user: identifier.trim(), role: inviteRole })
+      toast.success(`Invitation sent to ${identifier.trim()}`)
+      setIdentifier('')
+    } catch (err: unknown) {
+      toast.error(errorMessage(err, 'Failed to send invitation'))
+    }
+  }
+
+  const handleRoleChange = async (userId: string, role: MemberRole) => {
+    try {
+      await updateRole({ userId, role })
+      toast.success('Role updated')
+    } catch (err: unknown) {
+      toast.error(errorMessage(err, 'Failed to update role'))
+    }
+  }
+
+  const handleRemove = async (userId: string) => {
+    const leaving = userId === user?.id
+    try {
+      await removeMember(userId)
+      toast.success(leaving ? 'You left the project' : 'Member removed')
+      if (leaving) onLeft()
+    } catch (err: unknown) {
+      toast.error(errorMessage(err, leaving ? 'Failed to leave project' : 'Failed to remove member'))
+    }
+  }
+
+  const handleRevoke = async (invitationId: string) => {
+    try {
+      await revokeInvitation(invitationId)
+      toast.success('Invitation revoked')
+    } catch (err: unknown) {
+      toast.error(errorMessage(err, 'Failed to revoke invitation'))
+    }
+  }
+
+  return (
+    <div>
+      <h1 className="text-xl font-bold tracking-tight text-text">Members</h1>
+      <p className="mt-1 text-sm text-text-muted">People who can open this project's workspace</p>
+
+      {/* Invite */}
+      {isOwner && (
+        <form onSubmit={handleInvite} className="mt-8 rounded-xl border border-border bg-surface p-6">
+          <h2 className="text-sm font-semibold text-text">Invite a collaborator</h2>
+          <p className="mt-1 text-xs text-text-muted">
+            They will see the invitation on their dashboard and join once they accept it.
+          </p>
+          <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-end">
+            <input
+              type="text"
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              placeholder="Username or email"
+              className="w-full flex-1 rounded-lg border border-border bg-background px-3 py-2 text-sm text-text placeholder:text-text-dim focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+            <CustomSelect
+              value={inviteRole}
+              onChange={(v) => setInviteRole(v as MemberRole)}
+              options={memberRoleOptions}
+              className="sm:w-40"
+            />
+            <button
+              type="submit"
+              disabled={isInviting || !identifier.trim()}
+              className="flex items-center justify-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary-hover disabled:opacity-50"
+            >
+              {isInviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+              Invite
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Members */}
+      <div className="mt-6 rounded-xl border border-border bg-surface">
+        {[members.owner, ...members.members].map((member) => {
+          const isSelf = member.userId === user?.id
+          return (
+            <div
+              key={member.userId}
+              className="flex items-center justify-between gap-3 border-b border-border px-5 py-3 last:border-b-0"
+            >
+              <div className="flex items-center gap-3">
+                <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/10 text-xs font-semibold uppercase text-primary">
+                  {member.username.slice(0, 1)}
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-text">
+                    {member.username}
+                    {isSelf && <span className="ml-1.5 text-xs text-text-dim">(you)</span>}
+                  </p>
+                  <p className="text-xs capitalize text-text-dim">{member.role}</p>
+                </div>
+              </div>
+              {member.role !== 'owner' && (
+                <div className="flex items-center gap-2">
+                  {isOwner && (
+                    <CustomSelect
+                      value={member.role}
+                      onChange={(v) => handleRoleChange(member.userId, v as MemberRole)}
+                      options={memberRoleOptions}
+                      size="sm"
+                    />
+                  )}
+                  {(isOwner || isSelf) && (
+                    <button
+                      onClick={() => handleRemove(member.userId)}
+                      title={isSelf ? 'Leave project' : 'Remove member'}
+                      className="flex items-center gap-1.5 rounded-lg border border-border px-2.5 py-1.5 text-xs text-text-muted transition-colors hover:border-destructive/30 hover:text-destructive"
+                    >
+                      {isSelf ? <LogOut className="h-3.5 w-3.5" /> : <UserMinus className="h-3.5 w-3.5" />}
+                      {isSelf ? 'Leave' : 'Remove'}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Pending invitations */}
+      {isOwner && members.invitations.length > 0 && (
+        <div className="mt-6 rounded-xl border border-border bg-surface p-6">
+          <h2 className="text-sm font-semibold text-text">Pending invitations</h2>
+          <div className="mt-3 flex flex-col gap-2">
+            {members.invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="flex items-center justify-between rounded-lg border border-border bg-background px-4 py-2.5"
+              >
+                <div className="flex items-center gap-2 text-sm">
+                  <Mail className="h-4 w-4 text-text-dim" />
+                  <span className="text-text">{invitation.username}</span>
+                  <span className="text-xs capitalize text-text-dim">· {invitation.role}</span>
+                </div>
+                <button
+                  onClick={() => handleRevoke(invitation.id)}
+                  className="text-xs text-text-muted transition-colors hover:text-destructive"
+                >
+                  Revoke
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
 // ── Settings Tab ────────────────────────────────────────────────────
 
 function SettingsTab({
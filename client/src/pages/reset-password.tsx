@@ -0,0 +1,131 @@
+import { useState } from 'react'
+import { Link, useSearchParams } from 'react-router'
+import { Blocks, Eye, EyeOff, CheckCircle2 } from 'lucide-react'
+import { useResetPassword } from '@/hooks/use-auth'
+import { PasswordStrength } from '@/components/auth/password-strength'
+import type { ApiError } from '@/types'
+
+export default function ResetPasswordPage() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token') ?? ''
+  const resetPassword = useResetPassword()
+  const [form, setForm] = useState({ password: '', confirmPassword: '' })
+  const [showPassword, setShowPassword] = useState(false)
+  const [validationError, setValidationError] = useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setValidationError('')
+
+    if (form.password !== form.confirmPassword) {
+      setValidationError('Passwords do not match')
+      return
+    }
+    if (form.password.length < 8) {
+      setValidationError('Password must be at least 8 characters')
+      return
+    }
+    resetPassword.mutate({ token, password: form.password })
+  }
+
+  const error = validationError || (resetPassword.error as ApiError | null)?.message
+
+  return (
+    <div className="flex min-h-[calc(100vh-4rem)] items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        <div className="mb-8 text-center">
+          <div className="mb-4 inline-flex rounded-xl bg-primary/10 p-3">
+            <Blocks className="h-8 w-8 text-primary" />
+          </div>
+          <h1 className="text-2xl font-bold tracking-tight text-text">Choose a new password</h1>
+        </div>
+
+        {!token ? (
+          <div className="rounded-lg border border-border bg-surface p-6 text-center">
+            <p className="text-sm text-text-muted">This reset link is incomplete. Open the link from the email again, or request a new one.</p>
+            <Link to="/forgot-password" className="mt-4 inline-block text-sm font-medium text-primary hover:text-primary-hover">
+              Request a new link
+            </Link>
+          </div>
+        ) : resetPassword.isSuccess ? (
+          <div className="rounded-lg border border-border bg-surface p-6 text-center">
+            <div className="mx-auto mb-4 inline-flex rounded-xl bg-success/10 p-3">
+              <CheckCircle2 className="h-6 w-6 text-success" />
+            </div>
+            <p className="text-sm font-medium text-text">Your password was changed</p>
+            <p className="mt-2 text-sm text-text-muted">All sessions were signed out. Sign in with your new password.</p>
+            <Link
+              to="/login"
+              className="mt-6 inline-block rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary-hover"
+            >
+              Sign in
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="rounded-lg border border-destructive/50 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+                {error}
+                {resetPassword.error && (
+                  <>
+                    {' '}
+                    <Link to="/forgot-password" className="font-medium underline">Request a new link</Link>
+                  </>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="password" className="mb-1.5 block text-sm font-medium text-text">
+                New password
+              </label>
+              <div className="relative">
+                <input
+                  id="password"
+                  type={showPassword ? 'text' : 'password'}
+                  required
+                  value={form.password}
+                  onChange={(e) => setForm({ ...form, password: e.target.value })}
+                  className="w-full rounded-lg border border-border bg-surface px-3 py-2 pr-10 text-sm text-text placeholder:text-text-dim focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                  placeholder="At least 8 characters"
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-text-dim hover:text-text-muted"
+                >
+                  {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </button>
+              </div>
+              <div className="mt-2">
+                <PasswordStrength password={form.password} />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="confirmPassword" className="mb-1.5 block text-sm font-medium text-text">
+                Confirm new password
+              </label>
+              <input
+                id="confirmPassword"
+                type={showPassword ? 'text' : 'password'}
+                required
+                value={form.confirmPassword}
+                onChange={(e) => setForm({ ...form, confirmPassword: e.target.value })}
+                className="w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-text placeholder:text-text-dim focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={resetPassword.isPending}
+              className="w-full rounded-lg bg-primary px-4 py-2.5 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary-hover disabled:opacity-50"
+            >
+              {resetPassword.isPending ? 'Saving...' : 'Set new password'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
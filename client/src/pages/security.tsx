@@ -0,0 +1,341 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { ShieldCheck, ShieldOff, Monitor, Copy, Download, KeyRound, LogOut } from 'lucide-react'
+import { useAuth } from '@/hooks/use-auth'
+import { useTwoFactor, useTwoFactorStatus, useSessions, type SessionInfo, type TwoFactorSetup } from '@/hooks/use-security'
+import { AccessTokensPanel } from '@/components/access-tokens-panel'
+import { cn } from '@/lib/utils'
+import type { ApiError } from '@/types'
+
+function formatRelativeDate(dateStr: string): string {
+  const diffMins = Math.floor((Date.now() - new Date(dateStr).getTime()) / 60000)
+  if (diffMins < 5) return 'active now'
+  if (diffMins < 60) return `${diffMins}m ago`
+  if (diffMins < 24 * 60) return `${Math.floor(diffMins / 60)}h ago`
+  return `${Math.floor(diffMins / (24 * 60))}d ago`
+}
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+const inputClass =
+  'w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-text placeholder:text-text-dim focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary'
+const primaryButton =
+  'rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary-hover disabled:opacity-50'
+const secondaryButton =
+  'rounded-lg border border-border px-4 py-2 text-sm text-text-muted transition-colors hover:bg-surface-hover hover:text-text disabled:opacity-50'
+
+const errorMessage = (error: unknown) => (error as ApiError | null)?.message
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const text = codes.join('\n')
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(text)
+    toast.success('Recovery codes copied')
+  }
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`AuroraCraft recovery codes\n\n${text}\n`], { type: 'text/plain' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'auroracraft-recovery-codes.txt'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-text-muted">
+        Store these somewhere safe. Each code signs you in once if you lose your authenticator. They won&apos;t be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border border-border bg-background p-4 font-mono text-sm text-text">
+        {codes.map((code) => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button onClick={copy} className={cn(secondaryButton, 'inline-flex items-center gap-2')}>
+          <Copy className="h-4 w-4" /> Copy
+        </button>
+        <button onClick={download} className={cn(secondaryButton, 'inline-flex items-center gap-2')}>
+          <Download className="h-4 w-4" /> Download
+        </button>
+        <button onClick={onDone} className={cn(primaryButton, 'ml-auto')}>
+          I&apos;ve saved them
+        </button>
+      </div>
+    </div>
+  )
+}
+
+type TwoFactorMode = 'idle' | 'setup-password' | 'setup-verify' | 'disable' | 'regenerate'
+
+function TwoFactorSection() {
+  const { data: status, isLoading } = useTwoFactorStatus()
+  const { setup, enable, disable, regenerate } = useTwoFactor()
+  const [mode, setMode] = useState<TwoFactorMode>('idle')
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [pending, setPending] = useState<TwoFactorSetup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [error, setError] = useState('')
+
+  const reset = () => {
+    setMode('idle')
+    setPassword('')
+    setCode('')
+    setPending(null)
+    setError('')
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setError('')
+    try {
+      await action()
+    } catch (err) {
+      setError(errorMessage(err) || 'Something went wrong')
+    }
+  }
+
+  const startSetup = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      setPending(await setup.mutateAsync(password))
+      setPassword('')
+      setMode('setup-verify')
+    })
+  }
+
+  const confirmSetup = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const result = await enable.mutateAsync(code)
+      reset()
+      setRecoveryCodes(result.recoveryCodes)
+      toast.success('Two-factor authentication is on')
+    })
+  }
+
+  const turnOff = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      await disable.mutateAsync({ password, code })
+      reset()
+      toast.success('Two-factor authentication is off')
+    })
+  }
+
+  const newCodes = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const result = await regenerate.mutateAsync(code)
+      reset()
+      setRecoveryCodes(result.recoveryCodes)
+    })
+  }
+
+  const busy = setup.isPending || enable.isPending || disable.isPending || regenerate.isPending
+
+  return (
+    <section className="rounded-xl border border-border bg-surface p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-3">
+          {status?.enabled
+            ? <ShieldCheck className="mt-0.5 h-5 w-5 text-success" />
+            : <ShieldOff className="mt-0.5 h-5 w-5 text-text-dim" />}
+          <div>
+            <h2 className="font-semibold text-text">Two-factor authentication</h2>
+            <p className="mt-1 text-sm text-text-muted">
+              {isLoading
+                ? 'Loading...'
+                : status?.enabled
+                  ? `On since ${formatDate(status.enabledAt!)} · ${status.recoveryCodesRemaining} recovery code${status.recoveryCodesRemaining === 1 ? '' : 's'} left`
+                  : 'Ask for a code from an authenticator app after your password when signing in.'}
+            </p>
+          </div>
+        </div>
+        {!isLoading && mode === 'idle' && !recoveryCodes && (
+          status?.enabled ? (
+            <div className="flex shrink-0 gap-2">
+              <button onClick={() => setMode('regenerate')} className={secondaryButton}>New recovery codes</button>
+              <button onClick={() => setMode('disable')} className={secondaryButton}>Turn off</button>
+            </div>
+          ) : (
+            <button onClick={() => setMode('setup-password')} className={cn(primaryButton, 'shrink-0')}>Set up</button>
+          )
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-destructive/50 bg-destructive/10 px-4 py-3 text-sm text-destructive">
+          {error}
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="mt-6">
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        </div>
+      )}
+
+      {mode === 'setup-password' && (
+        <form onSubmit={startSetup} className="mt-6 space-y-3">
+          <label htmlFor="setup-password" className="block text-sm font-medium text-text">Confirm your password</label>
+          <input id="setup-password" type="password" required autoFocus value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy} className={primaryButton}>Continue</button>
+            <button type="button" onClick={reset} className={secondaryButton}>Cancel</button>
+          </div>
+        </form>
+      )}
+
+      {mode === 'setup-verify' && pending && (
+        <form onSubmit={confirmSetup} className="mt-6 space-y-4">
+          <p className="text-sm text-text-muted">
+            Add an account in your authenticator app (Google Authenticator, 1Password, Authy…) with this key, or{' '}
+            <a href={pending.uri} className="text-primary hover:text-primary-hover">open it in the app</a> on this device.
+          </p>
+          <div className="rounded-lg border border-border bg-background px-4 py-3 font-mono text-sm tracking-wider text-text break-all">
+            {pending.secret.match(/.{1,4}/g)?.join(' ')}
+          </div>
+          <div>
+            <label htmlFor="setup-code" className="mb-1.5 block text-sm font-medium text-text">Enter the 6-digit code the app shows</label>
+            <input
+              id="setup-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              autoFocus
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className={cn(inputClass, 'font-mono tracking-widest')}
+              placeholder="123456"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy} className={primaryButton}>Turn on</button>
+            <button type="button" onClick={reset} className={secondaryButton}>Cancel</button>
+          </div>
+        </form>
+      )}
+
+      {mode === 'disable' && (
+        <form onSubmit={turnOff} className="mt-6 space-y-3">
+          <div>
+            <label htmlFor="disable-password" className="mb-1.5 block text-sm font-medium text-text">Password</label>
+            <input id="disable-password" type="password" required autoFocus value={password} onChange={(e) => setPassword(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="disable-code" className="mb-1.5 block text-sm font-medium text-text">Authentication or recovery code</label>
+            <input id="disable-code" autoComplete="one-time-code" required value={code} onChange={(e) => setCode(e.target.value)} className={cn(inputClass, 'font-mono tracking-widest')} />
+          </div>
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy} className={cn(primaryButton, 'bg-destructive hover:bg-destructive/90')}>Turn off 2FA</button>
+            <button type="button" onClick={reset} className={secondaryButton}>Cancel</button>
+          </div>
+        </form>
+      )}
+
+      {mode === 'regenerate' && (
+        <form onSubmit={newCodes} className="mt-6 space-y-3">
+          <p className="text-sm text-text-muted">Your current recovery codes stop working once new ones are generated.</p>
+          <label htmlFor="regenerate-code" className="block text-sm font-medium text-text">Authentication code</label>
+          <input id="regenerate-code" autoComplete="one-time-code" required autoFocus value={code} onChange={(e) => setCode(e.target.value)} className={cn(inputClass, 'font-mono tracking-widest')} />
+          <div className="flex gap-2">
+            <button type="submit" disabled={busy} className={primaryButton}>Generate</button>
+            <button type="button" onClick={reset} className={secondaryButton}>Cancel</button>
+          </div>
+        </form>
+      )}
+    </section>
+  )
+}
+
+function SessionsSection() {
+  const { sessions, isLoading, revoke, revokeOthers } = useSessions()
+  const others = sessions.filter((s) => !s.current).length
+
+  const revokeOne = async (session: SessionInfo) => {
+    try {
+      await revoke.mutateAsync(session)
+      if (!session.current) toast.success('Session signed out')
+    } catch (err) {
+      toast.error(errorMessage(err) || 'Failed to sign out session')
+    }
+  }
+
+  const revokeAll = async () => {
+    try {
+      const { revoked } = await revokeOthers.mutateAsync()
+      toast.success(`Signed out ${revoked} other session${revoked === 1 ? '' : 's'}`)
+    } catch (err) {
+      toast.error(errorMessage(err) || 'Failed to sign out sessions')
+    }
+  }
+
+  return (
+    <section className="rounded-xl border border-border bg-surface p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="font-semibold text-text">Active sessions</h2>
+          <p className="mt-1 text-sm text-text-muted">Devices signed in to your account. Sign out any you don&apos;t recognise.</p>
+        </div>
+        {others > 0 && (
+          <button onClick={revokeAll} disabled={revokeOthers.isPending} className={cn(secondaryButton, 'shrink-0')}>
+            Sign out all others
+          </button>
+        )}
+      </div>
+
+      <ul className="mt-4 divide-y divide-border">
+        {isLoading && <li className="py-3 text-sm text-text-muted">Loading...</li>}
+        {sessions.map((session) => (
+          <li key={session.id} className="flex items-center gap-4 py-3">
+            <Monitor className="h-5 w-5 shrink-0 text-text-dim" />
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-text">{session.device}</span>
+                {session.current && (
+                  <span className="rounded-full bg-success/10 px-2 py-0.5 text-xs font-medium text-success">This device</span>
+                )}
+              </div>
+              <p className="truncate text-xs text-text-muted" title={session.userAgent ?? undefined}>
+                {session.ipAddress ?? 'Unknown IP'} · {session.current ? 'active now' : formatRelativeDate(session.lastSeenAt)} · signed in {formatDate(session.createdAt)}
+              </p>
+            </div>
+            <button
+              onClick={() => revokeOne(session)}
+              disabled={revoke.isPending}
+              className="inline-flex shrink-0 items-center gap-1.5 rounded-md px-2 py-1 text-sm text-text-muted transition-colors hover:bg-surface-hover hover:text-destructive disabled:opacity-50"
+              title={session.current ? 'Sign out of this browser' : 'Sign out this session'}
+            >
+              <LogOut className="h-4 w-4" />
+              {session.current ? 'Sign out' : 'Revoke'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+export default function SecurityPage() {
+  const { user } = useAuth()
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 py-8 sm:px-6">
+      <div className="flex items-center gap-3">
+        <KeyRound className="h-6 w-6 text-primary" />
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-text">Security</h1>
+          <p className="mt-1 text-sm text-text-muted">Sign-in protection, sessions and access tokens for {user?.username}</p>
+        </div>
+      </div>
+
+      <div className="mt-8 space-y-6">
+        <TwoFactorSection />
+        <SessionsSection />
+        <AccessTokensPanel />
+      </div>
+    </div>
+  )
+}
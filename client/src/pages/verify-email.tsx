@@ -0,0 +1,58 @@
+import { Link, useSearchParams } from 'react-router'
+import { Blocks, CheckCircle2, XCircle, Loader2 } from 'lucide-react'
+import { useAuth, useVerifyEmail } from '@/hooks/use-auth'
+import type { ApiError } from '@/types'
+
+export default function VerifyEmailPage() {
+  const [searchParams] = useSearchParams()
+  const token = searchParams.get('token') ?? ''
+  const { user } = useAuth()
+  const verify = useVerifyEmail(token)
+
+  return (
+    <div className="flex min-h-[calc(100vh-4rem)] items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md">
+        <div className="mb-8 text-center">
+          <div className="mb-4 inline-flex rounded-xl bg-primary/10 p-3">
+            <Blocks className="h-8 w-8 text-primary" />
+          </div>
+          <h1 className="text-2xl font-bold tracking-tight text-text">Email verification</h1>
+        </div>
+
+        <div className="rounded-lg border border-border bg-surface p-6 text-center">
+          {token && verify.isLoading ? (
+            <Loader2 className="mx-auto h-6 w-6 animate-spin text-text-dim" />
+          ) : verify.isSuccess ? (
+            <>
+              <div className="mx-auto mb-4 inline-flex rounded-xl bg-success/10 p-3">
+                <CheckCircle2 className="h-6 w-6 text-success" />
+              </div>
+              <p className="text-sm font-medium text-text">Your email address is verified</p>
+              <p className="mt-2 text-sm text-text-muted">Paid features on your account are now unlocked.</p>
+            </>
+          ) : (
+            <>
+              <div className="mx-auto mb-4 inline-flex rounded-xl bg-destructive/10 p-3">
+                <XCircle className="h-6 w-6 text-destructive" />
+              </div>
+              <p className="text-sm font-medium text-text">
+                {(verify.error as ApiError | null)?.message || 'This verification link is incomplete'}
+              </p>
+              <p className="mt-2 text-sm text-text-muted">
+                {user ? 'Send yourself a new link from the banner on your dashboard.' : 'Sign in to send yourself a new link.'}
+              </p>
+            </>
+          )}
+          {!(token && verify.isLoading) && (
+            <Link
+              to={user ? '/dashboard' : '/login'}
+              className="mt-6 inline-block text-sm font-medium text-primary hover:text-primary-hover"
+            >
+              {user ? 'Go to dashboard' : 'Sign in'}
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
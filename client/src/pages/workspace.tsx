@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect, useCallback, memo } from 'react'
+import { useState, useRef, useEffect, useCallback, useMemo, memo } from 'react'
 import { SOFTWARE_LABELS } from '@/lib/software-options'
 import { CustomSelect } from '@/components/ui/custom-select'
 import { Link, useParams } from 'react-router'
@@ -16,12 +16,10 @@ import {
   FileSearch,
   Folder,
   FolderOpen,
-  Play,
   Settings,
   Send,
   ArrowLeftRight,
   Download,
-  Package,
   GitBranch,
   Upload,
   Square,
@@ -53,8 +51,19 @@ import {
   Coins,
   Network,
   LogOut,
+  Check,
+  Eye,
+  ListPlus,
+  Clock,
+  TerminalSquare,
+  Search,
+  History,
+  GitCommitVertical,
+  GitMerge,
+  GitPullRequest,
 } from 'lucide-react'
-import Editor from '@monaco-editor/react'
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react'
+import type { IPosition } from 'monaco-editor'
 import { cn } from '@/lib/utils'
 import type { AxiosError } from 'axios'
 import { useIsMobile } from '@/hooks/use-mobile'
@@ -75,19 +84,51 @@ import type {
   StreamTodoItem,
   StreamingState,
   StreamingItem,
+  ApiError,
+  SecretFinding,
+  BuildDiagnostic,
 } from '@/types'
 import { GlassyPromptModal, GlassyConfirmModal, useToasts } from '@/components/ui/glassy'
 import { GraphifyControls } from '@/components/graphify-controls'
+import { BuildMenu } from '@/components/build-menu'
+import { TerminalPanel } from '@/components/terminal-panel'
+import { SearchPanel } from '@/components/search-panel'
+import { GitHistoryModal } from '@/components/git-history-modal'
+import { PullModal, ConflictsPanel } from '@/components/git-sync-panel'
+import { MergeConflictView } from '@/components/merge-conflict-view'
+import { PullRequestModal, PullRequestBadge } from '@/components/pull-request-modal'
+import { SecretFindings } from '@/components/secret-findings'
+import { useSyncState, type SyncResult } from '@/hooks/use-git-sync'
+import { usePullRequests } from '@/hooks/use-pull-requests'
+import { useDiagnostics } from '@/hooks/use-builds'
 import { AssistantStatusBadge } from '@/components/assistant-status-badge'
 import { AssistantControls } from '@/components/assistant-controls'
+import { TurnCheckpointActions } from '@/components/turn-checkpoint-actions'
+import { PatchView } from '@/components/patch-view'
+import { useStagedChanges, useStagedDiff, useReviewStagedChanges } from '@/hooks/use-staged-changes'
+import type { CheckpointFileChange } from '@/hooks/use-checkpoints'
 import { AssistantEnhanceModal } from '@/components/assistant-enhance-modal'
 import { AssistantRecommendationModal } from '@/components/assistant-recommendation-modal'
 import { useAssistant, useErrorFixAutoSend, type AssistantAction } from '@/hooks/use-assistant'
+import { useCollab, useCollabDocument } from '@/hooks/use-collab'
+import { bindEditorToText, peerDecorations, selectionToCursor } from '@/lib/collab-monaco'
+import { useLanguageServer } from '@/hooks/use-lsp'
+import { useBlame, UNCOMMITTED_SHA } from '@/hooks/use-git-history'
+import { bindLanguageServer } from '@/lib/lsp-monaco'
+import type { CollabPeer } from '@/lib/collab'
 
 /** Sentinel `selectedFile` value that makes EditorPanel render the Graphify web view
  *  (rendered graph) instead of Monaco. Cannot collide with a real relative file path. */
 const GRAPH_VIEW_PATH = '__graphify_graph_view__'
 
+/** Where to put the cursor once a file opened from a search result or go-to-definition has loaded. */
+interface RevealTarget {
+  path: string
+  position: IPosition
+  /** Select this many characters from `position` */
+  length?: number
+}
+
 function getErrorMessage(err: unknown): string {
   const axErr = err as AxiosError<{ message?: string }>
   return axErr?.response?.data?.message ?? 'An unexpected error occurred'
@@ -497,7 +538,38 @@ function GitConnectionModal({ isOpen, onClose, projectId, githubConnected, githu
 
 // ── File tree ────────────────────────────────────────────────────────
 
-function FileTreeNode({ entry, depth = 0, onFileSelect, selectedFile, fileOps }: { entry: FileTreeEntry; depth?: number; onFileSelect?: (path: string) => void; selectedFile?: string | null; fileOps?: ReturnType<typeof useFileOperations> }) {
+type ProblemCounts = Map<string, { errors: number; warnings: number }>
+
+/** Per-path error/warning counts; every ancestor directory accumulates its descendants' counts. */
+function countProblems(diagnostics: BuildDiagnostic[]): ProblemCounts {
+  const counts: ProblemCounts = new Map()
+  for (const d of diagnostics) {
+    const segments = d.file.split('/')
+    for (let i = 1; i <= segments.length; i++) {
+      const key = segments.slice(0, i).join('/')
+      const c = counts.get(key) ?? { errors: 0, warnings: 0 }
+      if (d.severity === 'error') c.errors++
+      else c.warnings++
+      counts.set(key, c)
+    }
+  }
+  return counts
+}
+
+function ProblemBadge({ counts }: { counts?: { errors: number; warnings: number } }) {
+  if (!counts) return null
+  const isError = counts.errors > 0
+  return (
+    <span
+      className={cn('ml-auto mr-2 shrink-0 text-[10px] font-medium', isError ? 'text-destructive' : 'text-warning')}
+      title={`${counts.errors} error${counts.errors !== 1 ? 's' : ''}, ${counts.warnings} warning${counts.warnings !== 1 ? 's' : ''}`}
+    >
+      {isError ? counts.errors : counts.warnings}
+    </span>
+  )
+}
+
+function FileTreeNode({ entry, depth = 0, onFileSelect, selectedFile, fileOps, problems }: { entry: FileTreeEntry; depth?: number; onFileSelect?: (path: string) => void; selectedFile?: string | null; fileOps?: ReturnType<typeof useFileOperations>; problems?: ProblemCounts }) {
   const [expanded, setExpanded] = useState(false)
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null)
   const [renameOpen, setRenameOpen] = useState(false)
@@ -599,10 +671,11 @@ function FileTreeNode({ entry, depth = 0, onFileSelect, selectedFile, fileOps }:
         >
           <ChevronRight className={cn('h-3 w-3 shrink-0 transition-transform', expanded && 'rotate-90')} />
           <DirIcon className="h-3.5 w-3.5 shrink-0 text-primary/70" />
-          <span className="truncate">{entry.name}</span>
+          <span className={cn('truncate', problems?.get(entry.path)?.errors && 'text-destructive')}>{entry.name}</span>
+          <ProblemBadge counts={problems?.get(entry.path)} />
         </button>
         {expanded && entry.children?.map((child) => (
-          <FileTreeNode key={child.path} entry={child} depth={depth + 1} onFileSelect={onFileSelect} selectedFile={selectedFile} fileOps={fileOps} />
+          <FileTreeNode key={child.path} entry={child} depth={depth + 1} onFileSelect={onFileSelect} selectedFile={selectedFile} fileOps={fileOps} problems={problems} />
         ))}
         {contextMenuEl}
         {modals}
@@ -626,7 +699,8 @@ function FileTreeNode({ entry, depth = 0, onFileSelect, selectedFile, fileOps }:
         title={entry.path}
       >
         <File className="h-3.5 w-3.5 shrink-0" />
-        <span className="truncate">{entry.name}</span>
+        <span className={cn('truncate', problems?.get(entry.path)?.errors && 'text-destructive')}>{entry.name}</span>
+        <ProblemBadge counts={problems?.get(entry.path)} />
       </button>
       {contextMenuEl}
       {modals}
@@ -1410,6 +1484,17 @@ const ChatInput = memo(function ChatInput({ onSend, disabled, isRunning, isCance
     if (textareaRef.current) textareaRef.current.style.height = 'auto'
   }, [input, disabled, onSend])
 
+  const sendButton = (
+    <button
+      onClick={handleSend}
+      disabled={!input.trim() || disabled}
+      title={isRunning ? 'Queue message — sent when the agent finishes (Ctrl+Enter)' : 'Send message (Ctrl+Enter)'}
+      className="shrink-0 rounded-lg bg-primary p-2.5 text-primary-foreground transition-colors hover:bg-primary-hover disabled:opacity-50"
+    >
+      {disabled ? <Loader2 className="h-4 w-4 animate-spin" /> : isRunning ? <ListPlus className="h-4 w-4" /> : <Send className="h-4 w-4" />}
+    </button>
+  )
+
   return (
     <div className="border-t border-border p-4">
       <div className="mb-2 flex items-center gap-2">
@@ -1435,29 +1520,23 @@ const ChatInput = memo(function ChatInput({ onSend, disabled, isRunning, isCance
             e.target.style.height = `${e.target.scrollHeight}px`
           }}
           onKeyDown={(e) => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); handleSend() } }}
-          placeholder="Describe your plugin idea..."
+          placeholder={isRunning ? 'Queue a follow-up...' : 'Describe your plugin idea...'}
           disabled={disabled}
           className="flex-1 resize-none border-0 bg-transparent px-2 py-2 text-sm text-text placeholder:text-text-dim focus:outline-none disabled:opacity-50 min-h-[44px] max-h-[200px] overflow-y-auto"
         />
         {isRunning ? (
-          <button
-            onClick={onCancel}
-            disabled={isCancelling}
-            title="Stop AI"
-            className="shrink-0 rounded-lg bg-destructive p-2.5 text-destructive-foreground transition-colors hover:bg-destructive/80 disabled:opacity-50"
-          >
-            {isCancelling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Square className="h-4 w-4" />}
-          </button>
-        ) : (
-          <button
-            onClick={handleSend}
-            disabled={!input.trim() || disabled}
-            title="Send message (Ctrl+Enter)"
-            className="shrink-0 rounded-lg bg-primary p-2.5 text-primary-foreground transition-colors hover:bg-primary-hover disabled:opacity-50"
-          >
-            {disabled ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
-          </button>
-        )}
+          <>
+            {input.trim() && sendButton}
+            <button
+              onClick={onCancel}
+              disabled={isCancelling}
+              title="Stop AI"
+              className="shrink-0 rounded-lg bg-destructive p-2.5 text-destructive-foreground transition-colors hover:bg-destructive/80 disabled:opacity-50"
+            >
+              {isCancelling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Square className="h-4 w-4" />}
+            </button>
+          </>
+        ) : sendButton}
       </div>
     </div>
   )
@@ -1465,13 +1544,14 @@ const ChatInput = memo(function ChatInput({ onSend, disabled, isRunning, isCance
 
 function ChatEmptyState({ onSessionCreated, createSession, selectedModel, selectedSpeed, onModelChange, onSpeedChange }: {
   onSessionCreated: (id: string, message: string) => void
-  createSession: (body?: { bridge?: 'opencode' | 'kiro' }) => Promise<{ id: string }>
+  createSession: (body?: { bridge?: 'opencode' | 'kiro'; mode?: 'direct' | 'staged' }) => Promise<{ id: string }>
   selectedModel: string
   selectedSpeed?: string
   onModelChange: (modelId: string) => void
   onSpeedChange?: (speed: string) => void
 }) {
   const [isCreating, setIsCreating] = useState(false)
+  const [reviewMode, setReviewMode] = useState(false)
 
   return (
     <>
@@ -1484,13 +1564,17 @@ function ChatEmptyState({ onSessionCreated, createSession, selectedModel, select
           <p className="mt-1 text-xs text-text-dim">
             Describe what you want to build and the AI agent will help you create it.
           </p>
+          <label className="mt-4 flex items-center gap-2 text-xs text-text-muted" title="The agent works in a copy of the project; you accept or reject each file it changes">
+            <input type="checkbox" checked={reviewMode} onChange={(e) => setReviewMode(e.target.checked)} disabled={isCreating} className="rounded border-border" />
+            Review changes before applying
+          </label>
         </div>
       </div>
       <ChatInput
         onSend={(msg) => {
           setIsCreating(true)
           const bridge = getBridgeFromModel(selectedModel)
-          createSession({ bridge }).then((session) => onSessionCreated(session.id, msg)).catch(() => setIsCreating(false))
+          createSession({ bridge, mode: reviewMode ? 'staged' : 'direct' }).then((session) => onSessionCreated(session.id, msg)).catch(() => setIsCreating(false))
         }}
         disabled={isCreating}
         selectedModel={selectedModel}
@@ -1503,6 +1587,268 @@ function ChatEmptyState({ onSessionCreated, createSession, selectedModel, select
   )
 }
 
+// ── Staged (review-before-apply) changes ─────────────────────────────
+
+const STAGED_ACTIONS: Record<CheckpointFileChange['status'], 'create' | 'update' | 'delete' | 'rename'> = {
+  added: 'create',
+  modified: 'update',
+  deleted: 'delete',
+  renamed: 'rename',
+}
+
+function StagedDiffModal({ projectId, sessionId, path, onClose }: {
+  projectId: string
+  sessionId: string
+  path: string
+  onClose: () => void
+}) {
+  const { diff, isLoading, error } = useStagedDiff(projectId, sessionId, path)
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div className="flex h-[80vh] w-full max-w-4xl flex-col rounded-lg border border-border bg-surface shadow-lg" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2 border-b border-border px-4 py-3">
+          <Eye className="h-4 w-4 text-text-muted" />
+          <span className="truncate font-mono text-sm text-text">{path}</span>
+          <button onClick={onClose} className="ml-auto rounded-md p-1 text-text-dim hover:text-text-muted" title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        {isLoading ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-text-dim" />
+          </div>
+        ) : error ? (
+          <p className="p-4 text-sm text-destructive">{error.message || 'Failed to load diff'}</p>
+        ) : diff?.binary ? (
+          <p className="p-4 text-sm text-text-dim">Binary file — no text diff.</p>
+        ) : (
+          <PatchView patch={diff?.patch ?? ''} truncated={diff?.truncated} className="flex-1" />
+        )}
+      </div>
+    </div>
+  )
+}
+
+function StagedChangesPanel({ projectId, sessionId, files, isRunning, onApplied }: {
+  projectId: string
+  sessionId: string
+  files: CheckpointFileChange[]
+  isRunning: boolean
+  onApplied?: () => void
+}) {
+  const { accept, reject, isReviewing } = useReviewStagedChanges(projectId, sessionId)
+  const [diffPath, setDiffPath] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [expanded, setExpanded] = useState(true)
+  const disabled = isRunning || isReviewing
+
+  const review = async (action: 'accept' | 'reject', paths: string[]) => {
+    setError('')
+    try {
+      if (action === 'accept') {
+        await accept(paths)
+        onApplied?.()
+      } else {
+        await reject(paths)
+      }
+    } catch (err) {
+      setError((err as ApiError).message || `Failed to ${action} changes`)
+    }
+  }
+
+  return (
+    <div className="border-t border-border px-4 py-2">
+      <div className="flex items-center gap-2 text-xs">
+        <button onClick={() => setExpanded(!expanded)} className="flex items-center gap-1.5 text-text-muted hover:text-text">
+          {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          <Eye className="h-3.5 w-3.5" />
+          <span className="font-medium">Review mode</span>
+          <span className="text-text-dim">
+            {files.length === 0 ? '— no pending changes' : `— ${files.length} file${files.length !== 1 ? 's' : ''} to review`}
+          </span>
+        </button>
+        {files.length > 0 && (
+          <div className="ml-auto flex items-center gap-1">
+            <button
+              onClick={() => review('reject', files.map((f) => f.path))}
+              disabled={disabled}
+              className="rounded px-2 py-0.5 text-text-dim hover:bg-surface-hover hover:text-destructive disabled:opacity-40"
+            >
+              Reject all
+            </button>
+            <button
+              onClick={() => review('accept', files.map((f) => f.path))}
+              disabled={disabled}
+              className="rounded bg-primary/10 px-2 py-0.5 text-primary hover:bg-primary/20 disabled:opacity-40"
+            >
+              Accept all
+            </button>
+          </div>
+        )}
+      </div>
+
+      {expanded && files.length > 0 && (
+        <div className="mt-2 max-h-48 space-y-1 overflow-y-auto">
+          {files.map((f) => (
+            <div key={f.path} className="flex items-center gap-2">
+              <FileOpBadge
+                part={{ type: 'file', action: STAGED_ACTIONS[f.status], path: f.oldPath ?? f.path, newPath: f.oldPath ? f.path : undefined }}
+                onFileSelect={() => setDiffPath(f.path)}
+              />
+              {!f.binary && (
+                <span className="font-mono text-[11px] text-text-dim">
+                  <span className="text-success">+{f.additions}</span> <span className="text-destructive">-{f.deletions}</span>
+                </span>
+              )}
+              <div className="ml-auto flex items-center gap-0.5">
+                <button
+                  onClick={() => review('reject', [f.path])}
+                  disabled={disabled}
+                  className="rounded p-1 text-text-dim hover:bg-surface-hover hover:text-destructive disabled:opacity-40"
+                  title="Reject — discard this change"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  onClick={() => review('accept', [f.path])}
+                  disabled={disabled}
+                  className="rounded p-1 text-text-dim hover:bg-surface-hover hover:text-success disabled:opacity-40"
+                  title="Accept — apply this change to the project"
+                >
+                  <Check className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isRunning && files.length > 0 && (
+        <p className="mt-1 text-[11px] text-text-dim">Review is available once the agent finishes.</p>
+      )}
+      {error && (
+        <p className="mt-1 flex items-center gap-1.5 text-[11px] text-destructive">
+          <AlertCircle className="h-3 w-3" /> {error}
+        </p>
+      )}
+
+      {diffPath && (
+        <StagedDiffModal projectId={projectId} sessionId={sessionId} path={diffPath} onClose={() => setDiffPath(null)} />
+      )}
+    </div>
+  )
+}
+
+function QueuedMessagesPanel({ messages, paused, isResuming, onEdit, onRemove, onResume }: {
+  messages: AgentMessage[]
+  paused: boolean
+  isResuming: boolean
+  onEdit: (messageId: string, content: string) => Promise<unknown>
+  onRemove: (messageId: string) => Promise<unknown>
+  onResume: () => Promise<unknown>
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState('')
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setError('')
+    try {
+      await action()
+      return true
+    } catch (err) {
+      setError((err as ApiError).message || fallback)
+      return false
+    }
+  }
+
+  const saveEdit = async () => {
+    if (!editingId || !draft.trim()) return
+    if (await run(() => onEdit(editingId, draft.trim()), 'Failed to update message')) setEditingId(null)
+  }
+
+  return (
+    <div className="border-t border-border px-4 py-2">
+      <div className="flex items-center gap-1.5 text-xs text-text-muted">
+        <Clock className="h-3.5 w-3.5" />
+        <span className="font-medium">Queued</span>
+        <span className="text-text-dim">
+          — {messages.length} message{messages.length !== 1 ? 's' : ''} {paused ? 'waiting' : 'will be sent when the agent finishes'}
+        </span>
+        {paused && (
+          <button
+            onClick={() => { void run(onResume, 'Failed to resume queue') }}
+            disabled={isResuming}
+            className="ml-auto rounded bg-primary/10 px-2 py-0.5 text-primary hover:bg-primary/20 disabled:opacity-40"
+          >
+            {isResuming ? 'Resuming…' : 'Resume queue'}
+          </button>
+        )}
+      </div>
+
+      <div className="mt-2 max-h-48 space-y-1 overflow-y-auto">
+        {messages.map((msg, idx) => (
+          <div key={msg.id} className="flex items-start gap-2 rounded-md bg-primary/5 px-2 py-1.5 text-xs">
+            <span className="mt-0.5 shrink-0 font-mono text-[10px] text-text-dim">{idx + 1}.</span>
+            {editingId === msg.id ? (
+              <div className="flex-1">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); void saveEdit() }
+                    if (e.key === 'Escape') setEditingId(null)
+                  }}
+                  rows={3}
+                  autoFocus
+                  className="w-full resize-none rounded border border-border bg-background px-2 py-1 text-xs text-text focus:outline-none"
+                />
+                <div className="mt-1 flex justify-end gap-1">
+                  <button onClick={() => setEditingId(null)} className="rounded px-2 py-0.5 text-text-dim hover:bg-surface-hover">Cancel</button>
+                  <button
+                    onClick={() => { void saveEdit() }}
+                    disabled={!draft.trim()}
+                    className="rounded bg-primary/10 px-2 py-0.5 text-primary hover:bg-primary/20 disabled:opacity-40"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <p className="min-w-0 flex-1 whitespace-pre-wrap break-words text-text line-clamp-3">{msg.content}</p>
+                <div className="flex shrink-0 items-center gap-0.5">
+                  <button
+                    onClick={() => { setEditingId(msg.id); setDraft(msg.content) }}
+                    className="rounded p-1 text-text-dim hover:bg-surface-hover hover:text-text"
+                    title="Edit queued message"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => { void run(() => onRemove(msg.id), 'Failed to remove message') }}
+                    className="rounded p-1 text-text-dim hover:bg-surface-hover hover:text-destructive"
+                    title="Remove from queue"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <p className="mt-1 flex items-center gap-1.5 text-[11px] text-destructive">
+          <AlertCircle className="h-3 w-3" /> {error}
+        </p>
+      )}
+    </div>
+  )
+}
+
 function ChatSession({ projectId, sessionId, pendingMessage, onPendingMessageSent, selectedModel, selectedSpeed, onModelChange, onSpeedChange, availableModels, onRefreshFiles, onFileSelect, workspaceDisabled, onAiRunningChange, stopAiRef }: {
   projectId: string
   sessionId: string
@@ -1519,7 +1865,13 @@ function ChatSession({ projectId, sessionId, pendingMessage, onPendingMessageSen
   onAiRunningChange?: (running: boolean) => void
   stopAiRef?: React.MutableRefObject<(() => void) | null>
 }) {
-  const { session, messages, isLoading, sendMessage, isSending, sendError, invalidateAndRefetch, cancelSession, isCancelling } = useAgentSession(projectId, sessionId)
+  const {
+    session, messages: allMessages, isLoading, sendMessage, isSending, sendError, invalidateAndRefetch, cancelSession, isCancelling,
+    updateQueued, removeQueued, resumeQueue, isResumingQueue,
+  } = useAgentSession(projectId, sessionId)
+  // Follow-ups typed during a run wait server-side; they join the transcript once dispatched
+  const messages = useMemo(() => allMessages.filter((m) => m.queueStatus !== 'queued'), [allMessages])
+  const queuedMessages = useMemo(() => allMessages.filter((m) => m.queueStatus === 'queued'), [allMessages])
   // AI Assistant — Feature 1 (prompt enhancer). Intercepts send when available.
   const assistant = useAssistant(projectId)
   const enhanceJob = assistant.job?.kind === 'enhance' ? assistant.job : null
@@ -1541,6 +1893,10 @@ function ChatSession({ projectId, sessionId, pendingMessage, onPendingMessageSen
     streamActive,
     session?.status ?? null,
   )
+  // Review mode: edits land in a scratch copy, so file ops refresh the pending list, not the tree
+  const staged = session?.mode === 'staged'
+  const { files: stagedFiles, refetch: refetchStaged } = useStagedChanges(projectId, sessionId, staged)
+  const refreshAfterFileOps = staged ? refetchStaged : onRefreshFiles
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const pendingSentRef = useRef(false)
   const prevFileChangesRef = useRef(0)
@@ -1604,17 +1960,17 @@ function ChatSession({ projectId, sessionId, pendingMessage, onPendingMessageSen
   useEffect(() => {
     if (streamingState.fileChanges.length > prevFileChangesRef.current) {
       prevFileChangesRef.current = streamingState.fileChanges.length
-      onRefreshFiles?.()
+      refreshAfterFileOps?.()
     }
-  }, [streamingState.fileChanges.length, onRefreshFiles])
+  }, [streamingState.fileChanges.length, refreshAfterFileOps])
 
   useEffect(() => {
     const completed = streamingState.items.filter((item) => item.kind === 'file-op' && item.fileStatus === 'completed').length
     if (completed > prevCompletedOpsRef.current) {
       prevCompletedOpsRef.current = completed
-      onRefreshFiles?.()
+      refreshAfterFileOps?.()
     }
-  }, [streamingState.items, onRefreshFiles])
+  }, [streamingState.items, refreshAfterFileOps])
 
   // Track message count at stream start to detect when persisted agent message replaces streaming.
   // This avoids effect-based timing gaps where streaming hides before persisted content loads.
@@ -1639,6 +1995,25 @@ function ChatSession({ projectId, sessionId, pendingMessage, onPendingMessageSen
     }
   }, [session?.status, invalidateAndRefetch])
 
+  // Fresh stream for a turn whose user message sits at `startIndex`
+  const beginTurn = useCallback((startIndex: number) => {
+    setAwaitingStream(true)
+    resetStream()
+    streamStartMessageCountRef.current = startIndex
+    completionHandledRef.current = false
+    prevFileChangesRef.current = 0
+    prevCompletedOpsRef.current = 0
+  }, [resetStream])
+
+  // A queued message showing up in the transcript means the server started its turn
+  const queuedIdsRef = useRef<Set<string>>(new Set())
+  useEffect(() => {
+    const wasQueued = queuedIdsRef.current
+    queuedIdsRef.current = new Set(queuedMessages.map((m) => m.id))
+    const dispatchedIdx = messages.findIndex((m) => wasQueued.has(m.id))
+    if (dispatchedIdx !== -1) beginTurn(dispatchedIdx)
+  }, [messages, queuedMessages, beginTurn])
+
   const isRunning = session?.status === 'running'
 
   useEffect(() => {
@@ -1646,19 +2021,30 @@ function ChatSession({ projectId, sessionId, pendingMessage, onPendingMessageSen
   }, [isRunning, awaitingStream, onAiRunningChange])
 
   const doSend = useCallback(async (message: string) => {
-    if (!message || isSending || session?.status === 'running') return
-    setAwaitingStream(true)
-    resetStream()
-    streamStartMessageCountRef.current = messagesLenRef.current
-    completionHandledRef.current = false
-    prevFileChangesRef.current = 0
-    prevCompletedOpsRef.current = 0
+    if (!message || isSending) return
+    const payload = { content: message, model: selectedModel, bridge: getBridgeFromModel(selectedModel), speed: selectedSpeed }
+    // Busy (or earlier follow-ups still waiting): the server queues it behind them
+    if (session?.status === 'running' || awaitingStream || queuedMessages.length > 0) {
+      try {
+        const queued = await sendMessage(payload)
+        if (queued.queueStatus === 'queued') queuedIdsRef.current.add(queued.id)
+      } catch {
+        // surfaced through sendError
+      }
+      return
+    }
+    beginTurn(messagesLenRef.current)
     try {
-      await sendMessage({ content: message, model: selectedModel, bridge: getBridgeFromModel(selectedModel), speed: selectedSpeed })
+      const sent = await sendMessage(payload)
+      // Lost the race with a turn that started meanwhile — it went to the queue instead
+      if (sent.queueStatus === 'queued') {
+        queuedIdsRef.current.add(sent.id)
+        setAwaitingStream(false)
+      }
     } catch {
       setAwaitingStream(false)
     }
-  }, [isSending, sendMessage, selectedModel, selectedSpeed, session?.status, resetStream])
+  }, [isSending, sendMessage, selectedModel, selectedSpeed, session?.status, awaitingStream, queuedMessages.length, beginTurn])
 
   // When the Assistant is available, intercept send → open the enhancer modal instead.
   const handleSend = useCallback((message: string) => {
@@ -1773,6 +2159,16 @@ function ChatSession({ projectId, sessionId, pendingMessage, onPendingMessageSen
                     )}>
                       <MessageContent message={msg} onFileSelect={onFileSelect} />
                     </div>
+                    {msg.role === 'user' && msg.checkpointBefore && (
+                      <TurnCheckpointActions
+                        projectId={projectId}
+                        sessionId={sessionId}
+                        message={msg}
+                        disabled={isRunning || awaitingStream}
+                        onFileSelect={onFileSelect}
+                        onRestored={onRefreshFiles}
+                      />
+                    )}
                   </div>
                 </div>
               )
@@ -1802,6 +2198,25 @@ function ChatSession({ projectId, sessionId, pendingMessage, onPendingMessageSen
         )}
       </div>
       <div>
+        {staged && (
+          <StagedChangesPanel
+            projectId={projectId}
+            sessionId={sessionId}
+            files={stagedFiles}
+            isRunning={isRunning || awaitingStream}
+            onApplied={onRefreshFiles}
+          />
+        )}
+        {queuedMessages.length > 0 && (
+          <QueuedMessagesPanel
+            messages={queuedMessages}
+            paused={!isRunning && !awaitingStream}
+            isResuming={isResumingQueue}
+            onEdit={(messageId, content) => updateQueued({ messageId, content })}
+            onRemove={removeQueued}
+            onResume={resumeQueue}
+          />
+        )}
         {sendError && (
           <div className="px-4 pt-3 flex items-center gap-1.5 text-xs text-destructive">
             <AlertCircle className="h-3 w-3" />
@@ -1810,7 +2225,7 @@ function ChatSession({ projectId, sessionId, pendingMessage, onPendingMessageSen
         )}
         <ChatInput
           onSend={handleSend}
-          disabled={isSending || session?.status === 'running' || workspaceDisabled}
+          disabled={isSending || workspaceDisabled}
           isRunning={isRunning || awaitingStream}
           isCancelling={isCancelling}
           onCancel={handleCancel}
@@ -1861,14 +2276,16 @@ function MobileTabButton({ active, icon: Icon, label, onClick }: {
 
 // ── File tree panel (shared between mobile & desktop) ────────────────
 
-function FileTreePanel({ files, filesLoading, refetchFiles, onFileSelect, selectedFile, fileOps, disabled }: {
+function FileTreePanel({ files, filesLoading, refetchFiles, onFileSelect, onSearch, selectedFile, fileOps, disabled, problems }: {
   files: FileTreeEntry[]
   filesLoading: boolean
   refetchFiles: () => void
   onFileSelect?: (path: string) => void
+  onSearch?: () => void
   selectedFile?: string | null
   fileOps: ReturnType<typeof useFileOperations>
   disabled?: boolean
+  problems?: ProblemCounts
 }) {
   const [createFileOpen, setCreateFileOpen] = useState(false)
   const [createFolderOpen, setCreateFolderOpen] = useState(false)
@@ -1891,6 +2308,15 @@ function FileTreePanel({ files, filesLoading, refetchFiles, onFileSelect, select
       <div className="mb-2 flex items-center justify-between px-3">
         <p className="text-xs font-medium uppercase tracking-wider text-text-dim">Files</p>
         <div className="flex items-center gap-1">
+          {onSearch && (
+            <button
+              onClick={onSearch}
+              className="rounded p-0.5 text-text-dim hover:text-text-muted"
+              title="Search in files (Ctrl+Shift+F)"
+            >
+              <Search className="h-3 w-3" />
+            </button>
+          )}
           <button
             onClick={() => { setCreateError(''); setCreateFileOpen(true) }}
             disabled={disabled}
@@ -1946,7 +2372,7 @@ function FileTreePanel({ files, filesLoading, refetchFiles, onFileSelect, select
       ) : files.length > 0 ? (
         <div>
           {files.map((entry) => (
-            <FileTreeNode key={entry.path} entry={entry} onFileSelect={onFileSelect} selectedFile={selectedFile} fileOps={fileOps} />
+            <FileTreeNode key={entry.path} entry={entry} onFileSelect={onFileSelect} selectedFile={selectedFile} fileOps={fileOps} problems={problems} />
           ))}
         </div>
       ) : (
@@ -1964,6 +2390,23 @@ function FileTreePanel({ files, filesLoading, refetchFiles, onFileSelect, select
 
 // ── Editor panel (shared between mobile & desktop) ───────────────────
 
+// "abc1234 Author Name  2026-01-31" in front of the line number while blame is on
+const BLAME_LABEL_WIDTH = 33
+
+const EDITOR_OPTIONS = {
+  minimap: { enabled: false },
+  fontSize: 13,
+  fontFamily: "'JetBrains Mono', 'Fira Code', ui-monospace, monospace",
+  lineNumbers: 'on',
+  scrollBeyondLastLine: false,
+  wordWrap: 'on',
+  padding: { top: 12 },
+  renderLineHighlight: 'line',
+  cursorBlinking: 'smooth',
+  smoothScrolling: true,
+  bracketPairColorization: { enabled: true },
+} as const
+
 function getLanguageFromPath(filePath: string): string {
   if (filePath.endsWith('.gradle.kts')) return 'kotlin'
   const ext = filePath.split('.').pop()?.toLowerCase() ?? ''
@@ -1984,11 +2427,175 @@ function getLanguageFromPath(filePath: string): string {
   return map[ext] ?? 'plaintext'
 }
 
-function EditorPanel({ projectId, selectedFile, fileOps, disabled, onExitGraphView }: { projectId: string; selectedFile: string | null; fileOps: ReturnType<typeof useFileOperations>; disabled?: boolean; onExitGraphView?: () => void }) {
+/** Teammates connected to the project — highlighted when they have this file open. */
+function PresenceAvatars({ peers, selectedFile }: { peers: CollabPeer[]; selectedFile: string | null }) {
+  if (peers.length === 0) return null
+  return (
+    <div className="flex shrink-0 items-center -space-x-1">
+      {peers.map((peer) => {
+        const here = !!selectedFile && peer.path === selectedFile
+        return (
+          <span
+            key={peer.clientId}
+            className={cn(
+              'flex h-5 w-5 items-center justify-center rounded-full border border-surface text-[9px] font-semibold uppercase text-black',
+              !here && 'opacity-40',
+            )}
+            style={{ backgroundColor: peer.color }}
+            title={`${peer.username} — ${peer.path ?? 'no file open'}`}
+          >
+            {peer.username.charAt(0)}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
+
+function EditorPanel({ projectId, selectedFile, fileOps, disabled, readOnly, agentRunning, onExitGraphView, onOpenFile, revealTarget, onShowHistory, diagnostics }: { projectId: string; selectedFile: string | null; fileOps: ReturnType<typeof useFileOperations>; disabled?: boolean; readOnly?: boolean; agentRunning?: boolean; onExitGraphView?: () => void; onOpenFile?: (path: string, position?: IPosition) => void; revealTarget?: RevealTarget | null; onShowHistory?: (path: string, sha?: string) => void; diagnostics?: BuildDiagnostic[] }) {
   const isGraphView = selectedFile === GRAPH_VIEW_PATH
   const { content, isLoading, error } = useFileContent(projectId, isGraphView ? null : selectedFile)
   const [editedContent, setEditedContent] = useState<string | null>(null)
   const [saveError, setSaveError] = useState('')
+  const [mounted, setMounted] = useState<{ editor: Parameters<OnMount>[0]; monaco: Monaco } | null>(null)
+
+  // Live editing over the workspace WebSocket. Falls back to load-and-save over
+  // HTTP when the file can't be shared (too large…) or the socket never came up.
+  const { connection, status: collabStatus, clientId, peers } = useCollab(projectId)
+  const collab = useCollabDocument(connection, isGraphView ? null : selectedFile)
+  const isCollab = !!connection && !collab.error && editedContent === null && (collab.doc !== null || collabStatus !== 'disconnected')
+  const collabText = isCollab && collab.doc ? collab.doc.getText('content') : null
+  const otherPeers = useMemo(() => peers.filter((p) => p.clientId !== clientId), [peers, clientId])
+
+  // Bind the editor to the shared document (rebinds after every resync)
+  useEffect(() => {
+    if (!mounted || !collabText) return
+    return bindEditorToText(mounted.editor, collabText)
+  }, [mounted, collabText])
+
+  // Share which file is focused and where the cursor is
+  useEffect(() => {
+    if (!connection) return
+    const path = isGraphView ? null : selectedFile
+    connection.setPresence(path, null)
+    if (!mounted || !collabText || !path) return
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const subscription = mounted.editor.onDidChangeCursorSelection(() => {
+      if (timer) return
+      timer = setTimeout(() => {
+        timer = null
+        connection.setPresence(path, selectionToCursor(mounted.editor, collabText))
+      }, 100)
+    })
+    return () => {
+      subscription.dispose()
+      if (timer) clearTimeout(timer)
+    }
+  }, [connection, mounted, collabText, selectedFile, isGraphView])
+
+  // Teammates' cursors and selections in this file
+  useEffect(() => {
+    const model = mounted?.editor.getModel()
+    if (!mounted || !model || !collabText) return
+    const here = otherPeers.filter((p) => p.path === selectedFile)
+    const decorations = mounted.editor.createDecorationsCollection(peerDecorations(model, collabText, here))
+    return () => decorations.clear()
+  }, [mounted, collabText, otherPeers, selectedFile])
+
+  // Java/Kotlin language server: completion, hover, go-to-definition, rename, live diagnostics
+  const { connection: lsp, status: lspStatus } = useLanguageServer(projectId, isGraphView ? null : selectedFile)
+  useEffect(() => {
+    if (!mounted || !lsp || !selectedFile) return
+    return bindLanguageServer(mounted.editor, mounted.monaco, {
+      connection: lsp,
+      path: selectedFile,
+      languageId: getLanguageFromPath(selectedFile),
+      readOnly,
+      openFile: (path, position) => onOpenFile?.(path, position),
+    })
+  }, [mounted, lsp, selectedFile, readOnly, onOpenFile])
+
+  // Each target is revealed once, when its file's content is in the model
+  const revealed = useRef<RevealTarget | null>(null)
+  useEffect(() => {
+    const model = mounted?.editor.getModel()
+    if (!mounted || !model || !revealTarget || revealed.current === revealTarget || revealTarget.path !== selectedFile) return
+    const { position, length } = revealTarget
+    if (model.getLineCount() < position.lineNumber) return
+    revealed.current = revealTarget
+    mounted.editor.setSelection({
+      startLineNumber: position.lineNumber,
+      startColumn: position.column,
+      endLineNumber: position.lineNumber,
+      endColumn: position.column + (length ?? 0),
+    })
+    mounted.editor.revealPositionInCenter(position)
+    mounted.editor.focus()
+  }, [mounted, selectedFile, revealTarget, content, collabText])
+
+  // Git blame in the line-number gutter; clicking a line number opens its commit
+  const [blameOn, setBlameOn] = useState(false)
+  const { data: blame } = useBlame(projectId, blameOn && !isGraphView ? selectedFile : null)
+  useEffect(() => {
+    if (!mounted || !blame || !selectedFile) return
+    const { editor, monaco } = mounted
+    const shaByLine = new Map<number, string>()
+    const labels = new Map<number, string>()
+    for (const range of blame.ranges) {
+      for (let i = 0; i < range.lineCount; i++) shaByLine.set(range.startLine + i, range.sha)
+      const commit = blame.commits[range.sha]
+      labels.set(range.startLine, range.sha === UNCOMMITTED_SHA
+        ? 'Uncommitted'
+        : `${range.sha.slice(0, 7)} ${commit.author.slice(0, 12).padEnd(12)} ${commit.date.slice(0, 10)}`)
+    }
+    editor.updateOptions({
+      lineNumbers: (line: number) => `${(labels.get(line) ?? '').padEnd(BLAME_LABEL_WIDTH)} ${line}`,
+      lineNumbersMinChars: BLAME_LABEL_WIDTH + 5,
+    })
+    const subscription = editor.onMouseDown((e) => {
+      if (e.target.type !== monaco.editor.MouseTargetType.GUTTER_LINE_NUMBERS || !e.target.position) return
+      const sha = shaByLine.get(e.target.position.lineNumber)
+      if (sha && sha !== UNCOMMITTED_SHA) onShowHistory?.(selectedFile, sha)
+    })
+    return () => {
+      subscription.dispose()
+      editor.updateOptions({ lineNumbers: EDITOR_OPTIONS.lineNumbers, lineNumbersMinChars: 5 })
+    }
+  }, [mounted, blame, selectedFile, onShowHistory])
+
+  const fileDiagnostics = useMemo(
+    () => (selectedFile && diagnostics ? diagnostics.filter((d) => d.file === selectedFile) : []),
+    [diagnostics, selectedFile],
+  )
+  const fileErrorCount = fileDiagnostics.filter((d) => d.severity === 'error').length
+
+  // Build diagnostics → Monaco markers on the current model (re-applied when the file or its content changes).
+  useEffect(() => {
+    if (!mounted) return
+    const { editor, monaco } = mounted
+    const model = editor.getModel()
+    if (!model) return
+    const lineCount = model.getLineCount()
+    monaco.editor.setModelMarkers(
+      model,
+      'build',
+      fileDiagnostics
+        .filter((d) => d.line >= 1 && d.line <= lineCount)
+        .map((d) => {
+          const column = d.column ?? model.getLineFirstNonWhitespaceColumn(d.line) ?? 1
+          const word = d.column ? model.getWordAtPosition({ lineNumber: d.line, column: d.column }) : null
+          return {
+            severity: d.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+            message: d.message,
+            source: d.source,
+            startLineNumber: d.line,
+            startColumn: Math.max(1, column),
+            endLineNumber: d.line,
+            endColumn: word ? word.endColumn : d.column ? d.column + 1 : model.getLineMaxColumn(d.line),
+          }
+        }),
+    )
+  }, [mounted, fileDiagnostics, content, collabText])
 
   const hasUnsavedChanges = editedContent !== null && editedContent !== content
 
@@ -2077,18 +2684,65 @@ function EditorPanel({ projectId, selectedFile, fileOps, disabled, onExitGraphVi
               Unsaved
             </span>
           )}
+          {selectedFile && isCollab && collab.doc && (
+            <span
+              className={cn('flex shrink-0 items-center gap-1 text-[10px]', collab.synced ? 'text-success' : 'text-text-dim')}
+              title={collab.synced ? 'Changes are saved automatically and shared live' : 'Reconnecting — editing is paused'}
+            >
+              <span className={cn('h-1.5 w-1.5 rounded-full', collab.synced ? 'bg-success' : 'bg-text-dim')} />
+              {collab.synced ? 'Live' : 'Reconnecting…'}
+            </span>
+          )}
+          {selectedFile && (lspStatus === 'connecting' || lspStatus === 'unavailable') && (
+            <span
+              className="flex shrink-0 items-center gap-1 text-[10px] text-text-dim"
+              title={lspStatus === 'connecting' ? 'Completions and diagnostics start once the project is indexed' : 'Code intelligence is unavailable for this project right now'}
+            >
+              {lspStatus === 'connecting' && <Loader2 className="h-2.5 w-2.5 animate-spin" />}
+              {lspStatus === 'connecting' ? 'Starting language server…' : 'No language server'}
+            </span>
+          )}
+          {fileDiagnostics.length > 0 && (
+            <span className={cn('flex shrink-0 items-center gap-1 text-[10px]', fileErrorCount > 0 ? 'text-destructive' : 'text-warning')}>
+              <AlertCircle className="h-3 w-3" />
+              {fileErrorCount > 0
+                ? `${fileErrorCount} error${fileErrorCount !== 1 ? 's' : ''}`
+                : `${fileDiagnostics.length} warning${fileDiagnostics.length !== 1 ? 's' : ''}`}
+            </span>
+          )}
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <PresenceAvatars peers={otherPeers} selectedFile={selectedFile} />
+          {selectedFile && onShowHistory && (
+            <>
+              <button
+                onClick={() => setBlameOn((on) => !on)}
+                className={cn('rounded p-0.5 text-text-dim hover:text-text-muted', blameOn && 'text-primary hover:text-primary')}
+                title={blameOn ? 'Hide blame' : 'Show who last changed each line'}
+              >
+                <GitCommitVertical className="h-3.5 w-3.5" />
+              </button>
+              <button
+                onClick={() => onShowHistory(selectedFile)}
+                className="rounded p-0.5 text-text-dim hover:text-text-muted"
+                title="File history"
+              >
+                <History className="h-3.5 w-3.5" />
+              </button>
+            </>
+          )}
+          {selectedFile && hasUnsavedChanges && (
+            <button
+              onClick={handleSave}
+              disabled={fileOps.isSaving || disabled}
+              className="flex shrink-0 items-center gap-1.5 rounded-md bg-primary/10 px-2.5 py-1 text-[11px] font-medium text-primary transition-colors hover:bg-primary/20 disabled:opacity-50"
+              title="Save (Ctrl+S)"
+            >
+              {fileOps.isSaving ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+              Save
+            </button>
+          )}
         </div>
-        {selectedFile && hasUnsavedChanges && (
-          <button
-            onClick={handleSave}
-            disabled={fileOps.isSaving || disabled}
-            className="flex shrink-0 items-center gap-1.5 rounded-md bg-primary/10 px-2.5 py-1 text-[11px] font-medium text-primary transition-colors hover:bg-primary/20 disabled:opacity-50"
-            title="Save (Ctrl+S)"
-          >
-            {fileOps.isSaving ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
-            Save
-          </button>
-        )}
       </div>
       {saveError && (
         <div className="flex items-center gap-1.5 border-b border-destructive/10 bg-destructive/5 px-4 py-1.5 text-[11px] text-destructive">
@@ -2109,6 +2763,21 @@ function EditorPanel({ projectId, selectedFile, fileOps, disabled, onExitGraphVi
             Select a file from the file tree or click a file badge in the chat to view its contents.
           </p>
         </div>
+      ) : isCollab ? (
+        collab.doc ? (
+          <Editor
+            height="100%"
+            theme="vs-dark"
+            language={getLanguageFromPath(selectedFile)}
+            defaultValue={collabText?.toString() ?? ''}
+            onMount={(editor, monaco) => setMounted({ editor, monaco })}
+            options={{ ...EDITOR_OPTIONS, readOnly: readOnly || !collab.synced }}
+          />
+        ) : (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-text-dim" />
+          </div>
+        )
       ) : isLoading ? (
         <div className="flex flex-1 items-center justify-center">
           <Loader2 className="h-5 w-5 animate-spin text-text-dim" />
@@ -2129,19 +2798,8 @@ function EditorPanel({ projectId, selectedFile, fileOps, disabled, onExitGraphVi
             const v = value ?? ''
             if (v !== content) setEditedContent(v)
           }}
-          options={{
-            minimap: { enabled: false },
-            fontSize: 13,
-            fontFamily: "'JetBrains Mono', 'Fira Code', ui-monospace, monospace",
-            lineNumbers: 'on',
-            scrollBeyondLastLine: false,
-            wordWrap: 'on',
-            padding: { top: 12 },
-            renderLineHighlight: 'line',
-            cursorBlinking: 'smooth',
-            smoothScrolling: true,
-            bracketPairColorization: { enabled: true },
-          }}
+          onMount={(editor, monaco) => setMounted({ editor, monaco })}
+          options={{ ...EDITOR_OPTIONS, readOnly: readOnly || agentRunning }}
         />
       )}
     </div>
@@ -2214,19 +2872,24 @@ export default function WorkspacePage() {
   const [mobileTab, setMobileTab] = useState<'chat' | 'files' | 'code'>('chat')
   const [layoutMode, setLayoutMode] = useState<string>('chat-first')
   const [selectedFile, setSelectedFile] = useState<string | null>(null)
-  const [jars, setJars] = useState<{ maven: string | null; gradle: string | null }>({ maven: null, gradle: null })
-  const [jarMenuOpen, setJarMenuOpen] = useState(false)
-  const jarMenuRef = useRef<HTMLDivElement>(null)
+  const [revealTarget, setRevealTarget] = useState<RevealTarget | null>(null)
+  const [sidebarView, setSidebarView] = useState<'files' | 'search' | 'conflicts'>('files')
+  const [historyView, setHistoryView] = useState<{ filePath: string | null; sha: string | null } | null>(null)
   const [githubConnected, setGithubConnected] = useState(false)
   const [githubUsername, setGithubUsername] = useState<string | null>(null)
   const [gitStatus, setGitStatus] = useState<{ connected: boolean; repoUrl: string | null; repoBranch: string | null; githubAuth: boolean } | null>(null)
   const [gitConnectModalOpen, setGitConnectModalOpen] = useState(false)
   const [pushModalOpen, setPushModalOpen] = useState(false)
+  const [pullModalOpen, setPullModalOpen] = useState(false)
+  const [prModalOpen, setPrModalOpen] = useState(false)
+  const [conflictPath, setConflictPath] = useState<string | null>(null)
   const [branches, setBranches] = useState<string[]>([])
   const [selectedBranch, setSelectedBranch] = useState('')
   const [commitMessage, setCommitMessage] = useState('')
   const [pushing, setPushing] = useState(false)
   const [forcePush, setForcePush] = useState(false)
+  const [pushFindings, setPushFindings] = useState<SecretFinding[]>([])
+  const [allowedPushFindings, setAllowedPushFindings] = useState<string[]>([])
   const [resetModalOpen, setResetModalOpen] = useState(false)
   const [resetBranch, setResetBranch] = useState('')
   const [resetCommit, setResetCommit] = useState('')
@@ -2304,7 +2967,10 @@ export default function WorkspacePage() {
   // ── Review Lock System ──────────────────────────────────────────────
   const [reviewLock, setReviewLock] = useState<{ status: 'pending' | 'error' | 'completed'; reviewId: string; error?: string } | null>(null)
   const isReviewLocked = reviewLock?.status === 'pending'
-  const isWorkspaceLocked = isReviewLocked || aiRunning
+  // Viewers can browse the workspace but every editing control stays disabled
+  const isViewOnly = project?.role === 'viewer'
+  const [terminalOpen, setTerminalOpen] = useState(false)
+  const isWorkspaceLocked = isReviewLocked || aiRunning || isViewOnly
 
   // ── Toast Notifications ─────────────────────────────────────────────
   const { addToast, ToastContainer } = useToasts()
@@ -2401,6 +3067,28 @@ const handleAutoFix = () => {
     setAutoFixPayload({ prompt: naivePrompt(), model: selectedModel })
   }
 
+  // Same error-fix flow as CodeRabbit issues, fed with compiler diagnostics from the latest build.
+  const handleFixDiagnostics = async (buildDiagnostics: BuildDiagnostic[]) => {
+    const errors = buildDiagnostics.filter(d => d.severity === 'error')
+    const selected = errors.length > 0 ? errors : buildDiagnostics
+    if (selected.length === 0) return
+    if (isMobile) setMobileTab('chat')
+
+    if (assistant.available) {
+      try {
+        const { jobId } = await assistant.errorFix({ diagnostics: selected })
+        errorFixAutoSend.track(jobId)
+        return
+      } catch {
+        // Another assistant job is active (or it errored) — fall back to the naive prompt.
+      }
+    }
+    const prompt = `Fix the following build errors:\n\n${selected
+      .map((d, i) => `${i + 1}. [${d.severity}] ${d.file}:${d.line}${d.column ? `:${d.column}` : ''}\n${d.message}\n`)
+      .join('\n')}`
+    setAutoFixPayload({ prompt, model: selectedModel })
+  }
+
   const fetchReviewHistory = async () => {
     try {
       const res = await fetch(`/api/projects/${projectId}/coderabbit/reviews`, { credentials: 'include' })
@@ -2454,6 +3142,8 @@ const handleAutoFix = () => {
   const [settingRemote, setSettingRemote] = useState(false)
   const fileOps = useFileOperations(projectId ?? '')
   const initialTabSetRef = useRef(false)
+  const { diagnostics } = useDiagnostics(projectId ?? '')
+  const problems = useMemo(() => countProblems(diagnostics), [diagnostics])
 
   useEffect(() => {
     if (project) {
@@ -2485,32 +3175,59 @@ const handleAutoFix = () => {
     if (isMobile) setMobileTab('code')
   }, [isMobile])
 
-  // Open the Graphify web view inside the editor panel (not raw HTML).
-  const handleViewGraph = useCallback(() => {
-    setSelectedFile(GRAPH_VIEW_PATH)
+  // Open a file with the cursor at `position` (search results, go-to-definition)
+  const handleOpenFileAt = useCallback((filePath: string, position?: IPosition, length?: number) => {
+    setRevealTarget(position ? { path: filePath, position, length } : null)
+    handleFileSelect(filePath)
+  }, [handleFileSelect])
+
+  const handleShowHistory = useCallback((filePath: string, sha?: string) => {
+    setHistoryView({ filePath, sha: sha ?? null })
+  }, [])
+
+  // A pull that stopped on conflicts: the sidebar lists them, the editor shows the open one three-way
+  const { data: syncState } = useSyncState(projectId ?? '', isPaid && !!gitStatus?.connected)
+  const syncConflicts = syncState?.operation ? syncState.conflicts : []
+  const activeConflict = conflictPath && syncConflicts.some((c) => c.path === conflictPath) ? conflictPath : null
+  const { data: prData } = usePullRequests(projectId ?? '', isPaid && !!gitStatus?.connected)
+  const latestPr = prData?.pullRequests[0] ?? null
+
+  const handleOpenConflict = useCallback((filePath: string) => {
+    setConflictPath(filePath)
     if (isMobile) setMobileTab('code')
   }, [isMobile])
 
-  useEffect(() => {
-    if (!projectId) return
-    fetch(`/api/projects/${projectId}/jars`, { credentials: 'include' })
-      .then(r => r.json())
-      .then(setJars)
-      .catch(() => setJars({ maven: null, gradle: null }))
-  }, [projectId])
+  const handlePulled = (result: SyncResult) => {
+    setPullModalOpen(false)
+    if (result.status !== 'conflicts') return
+    setSidebarView('conflicts')
+    setConflictPath(result.conflicts[0]?.path ?? null)
+    if (isMobile) setMobileTab('files')
+  }
+
+  const handleConflictResolved = (filePath: string) => {
+    const next = syncConflicts.find((c) => c.path !== filePath)
+    setConflictPath(next?.path ?? null)
+  }
 
+  // Ctrl+Shift+F: search in files
   useEffect(() => {
-    const handler = (e: MouseEvent) => {
-      if (jarMenuRef.current && !jarMenuRef.current.contains(e.target as Node)) setJarMenuOpen(false)
+    const handler = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault()
+        setSidebarView('search')
+        if (isMobile) setMobileTab('files')
+      }
     }
-    if (jarMenuOpen) document.addEventListener('mousedown', handler)
-    return () => document.removeEventListener('mousedown', handler)
-  }, [jarMenuOpen])
+    window.addEventListener('keydown', handler)
+    return () => window.removeEventListener('keydown', handler)
+  }, [isMobile])
 
-  const downloadJar = (type: 'maven' | 'gradle') => {
-    window.location.href = `/api/projects/${projectId}/jars/${type}/download`
-    setJarMenuOpen(false)
-  }
+  // Open the Graphify web view inside the editor panel (not raw HTML).
+  const handleViewGraph = useCallback(() => {
+    setSelectedFile(GRAPH_VIEW_PATH)
+    if (isMobile) setMobileTab('code')
+  }, [isMobile])
 
   const fetchGitStatus = useCallback(async () => {
     if (!projectId) return
@@ -2591,6 +3308,8 @@ const handleAutoFix = () => {
     setBranches(data.branches || [])
     setSelectedBranch(data.currentBranch || '')
     setNeedsRemote(false)
+    setPushFindings([])
+    setAllowedPushFindings([])
     setPushModalOpen(true)
   }
 
@@ -2781,6 +3500,14 @@ const handleAutoFix = () => {
       />
     ) : null
 
+  const pushFindingsView = (
+    <SecretFindings
+      findings={pushFindings}
+      allowed={allowedPushFindings}
+      onToggle={(id, allow) => setAllowedPushFindings((prev) => allow ? [...prev, id] : prev.filter((x) => x !== id))}
+    />
+  )
+
   const handlePush = async () => {
     if (!commitMessage.trim()) return
     setPushing(true)
@@ -2789,15 +3516,28 @@ const handleAutoFix = () => {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ branch: selectedBranch, message: commitMessage, force: forcePush }),
+        body: JSON.stringify({ branch: selectedBranch, message: commitMessage, force: forcePush, allowedFindings: allowedPushFindings }),
       })
       if (res.ok) {
         setPushModalOpen(false)
         setCommitMessage('')
         setForcePush(false)
+        setPushFindings([])
+        setAllowedPushFindings([])
         addToast('Code pushed successfully!', 'success')
+        const { warnings } = await res.json() as { warnings?: SecretFinding[] }
+        if (warnings?.length) {
+          addToast(`${warnings.length} possible secret${warnings.length === 1 ? '' : 's'} flagged in the commit — check the pushed files`, 'info')
+        }
       } else {
         const data = await res.json()
+        if (res.status === 409 && data.findings) {
+          const findings = data.findings as SecretFinding[]
+          setPushFindings(findings)
+          // Heuristic hits are pre-ticked; known credential formats need an explicit tick
+          setAllowedPushFindings((prev) => [...new Set([...prev, ...findings.filter((f) => f.severity === 'warn').map((f) => f.id)])])
+          return
+        }
         addToast(data.error || 'Failed to push code', 'error')
       }
     } catch (err) {
@@ -2830,6 +3570,75 @@ const handleAutoFix = () => {
     )
   }
 
+  const fileSidebar = sidebarView === 'conflicts' && syncState?.operation ? (
+    <ConflictsPanel
+      projectId={project.id}
+      operation={syncState.operation}
+      branch={syncState.repoBranch}
+      conflicts={syncState.conflicts}
+      activePath={activeConflict}
+      readOnly={isWorkspaceLocked}
+      onOpenConflict={handleOpenConflict}
+      onAskAgent={(prompt) => {
+        setAutoFixPayload({ prompt, model: selectedModel })
+        if (isMobile) setMobileTab('chat')
+      }}
+      onClose={() => setSidebarView('files')}
+      onNotify={addToast}
+    />
+  ) : sidebarView === 'search' ? (
+    <SearchPanel
+      projectId={project.id}
+      readOnly={isViewOnly}
+      onOpenMatch={(path, match) => handleOpenFileAt(path, { lineNumber: match.line, column: match.column }, match.length)}
+      onClose={() => setSidebarView('files')}
+    />
+  ) : (
+    <FileTreePanel files={files} filesLoading={filesLoading} refetchFiles={refetchFiles} onFileSelect={handleFileSelect} onSearch={() => setSidebarView('search')} selectedFile={selectedFile} fileOps={fileOps} disabled={isWorkspaceLocked} problems={problems} />
+  )
+
+  const editorPane = activeConflict && syncState?.operation ? (
+    <MergeConflictView
+      key={activeConflict}
+      projectId={project.id}
+      path={activeConflict}
+      operation={syncState.operation}
+      branch={syncState.repoBranch}
+      language={getLanguageFromPath(activeConflict)}
+      readOnly={isWorkspaceLocked}
+      onResolved={handleConflictResolved}
+      onClose={() => setConflictPath(null)}
+      onNotify={addToast}
+    />
+  ) : (
+    <EditorPanel projectId={project.id} selectedFile={selectedFile} fileOps={fileOps} disabled={isReviewLocked} readOnly={isViewOnly} agentRunning={aiRunning} onExitGraphView={() => setSelectedFile(null)} onOpenFile={handleOpenFileAt} revealTarget={revealTarget} onShowHistory={handleShowHistory} diagnostics={diagnostics} />
+  )
+
+  const pullModal = pullModalOpen && syncState ? (
+    <PullModal
+      projectId={project.id}
+      branch={syncState.repoBranch}
+      onClose={() => setPullModalOpen(false)}
+      onPulled={handlePulled}
+      onNotify={addToast}
+    />
+  ) : null
+
+  const prModal = prModalOpen ? (
+    <PullRequestModal projectId={project.id} onClose={() => setPrModalOpen(false)} onNotify={addToast} />
+  ) : null
+
+  const historyModal = historyView ? (
+    <GitHistoryModal
+      projectId={project.id}
+      filePath={historyView.filePath}
+      initialSha={historyView.sha}
+      readOnly={isWorkspaceLocked}
+      onClose={() => setHistoryView(null)}
+      onNotify={addToast}
+    />
+  ) : null
+
   if (isMobile) {
     const mobileTabs = isChatFirst
       ? [{ id: 'chat' as const, icon: MessageCircle, label: 'Chat' }, { id: 'files' as const, icon: FolderTree, label: 'Files' }, { id: 'code' as const, icon: Code2, label: 'Code' }]
@@ -2839,7 +3648,16 @@ const handleAutoFix = () => {
       <>
         <ToastContainer />
         {assistantRecModal}
-        {isWorkspaceLocked && (
+        {historyModal}
+        {pullModal}
+        {prModal}
+        {isViewOnly && (
+          <div className="shrink-0 flex items-center justify-center gap-2 bg-surface py-1.5 px-4 text-xs text-text-muted border-b border-border z-50">
+            <Eye className="h-3.5 w-3.5" />
+            <span>View-only access — shared by {project.ownerUsername}</span>
+          </div>
+        )}
+        {(isReviewLocked || aiRunning) && (
           <div className="shrink-0 flex items-center justify-center gap-2 bg-primary/90 py-2 px-4 text-sm font-medium text-primary-foreground backdrop-blur animate-pulse z-50">
             <Loader2 className="h-4 w-4 animate-spin" />
             <span>{isReviewLocked ? 'Review is ongoing, please wait' : 'AI is generating code, please wait'}</span>
@@ -2882,6 +3700,32 @@ const handleAutoFix = () => {
                     >
                       <Upload className="h-3.5 w-3.5" />
                     </button>
+                    <button
+                      onClick={() => setPullModalOpen(true)}
+                      disabled={isWorkspaceLocked || !!syncState?.operation}
+                      className="rounded-md p-1.5 text-text-dim hover:text-text-muted disabled:opacity-40 disabled:cursor-not-allowed"
+                      title={syncState?.behind ? `Pull from GitHub (${syncState.behind} new)` : 'Pull from GitHub'}
+                    >
+                      <Download className="h-3.5 w-3.5" />
+                    </button>
+                    {syncState?.operation && (
+                      <button
+                        onClick={() => { setSidebarView('conflicts'); setMobileTab('files') }}
+                        className="rounded-md p-1.5 text-warning hover:text-warning/80"
+                        title={`${syncState.conflicts.length} conflicted file${syncState.conflicts.length === 1 ? '' : 's'}`}
+                      >
+                        <GitMerge className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setPrModalOpen(true)}
+                      disabled={isWorkspaceLocked || !!syncState?.operation}
+                      className="rounded-md p-1.5 text-text-dim hover:text-text-muted disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Create pull request"
+                    >
+                      <GitPullRequest className="h-3.5 w-3.5" />
+                    </button>
+                    {latestPr && <PullRequestBadge pr={latestPr} compact />}
                     <button
                       onClick={() => setResetModalOpen(true)}
                       disabled={isWorkspaceLocked}
@@ -2951,34 +3795,10 @@ const handleAutoFix = () => {
                 <Download className="h-3.5 w-3.5" />
               </a>
             )}
-            <div className="relative" ref={jarMenuRef}>
-              <button 
-                onClick={() => !isWorkspaceLocked && setJarMenuOpen(!jarMenuOpen)} 
-                className={cn("rounded-md p-1.5 text-text-dim hover:text-text-muted", (!jars.maven && !jars.gradle) && "opacity-40 cursor-not-allowed", isWorkspaceLocked && "opacity-40 cursor-not-allowed")} 
-                title="Download plugin JAR"
-                disabled={(!jars.maven && !jars.gradle) || isWorkspaceLocked}
-              >
-                <Package className="h-3.5 w-3.5" />
-              </button>
-              {jarMenuOpen && (
-                <div className="absolute right-0 top-full mt-1 w-32 rounded-md border border-border bg-surface shadow-lg z-50">
-                  <button
-                    onClick={() => downloadJar('maven')}
-                    disabled={!jars.maven}
-                    className="w-full px-3 py-2 text-left text-sm hover:bg-surface-hover disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Maven
-                  </button>
-                  <button
-                    onClick={() => downloadJar('gradle')}
-                    disabled={!jars.gradle}
-                    className="w-full px-3 py-2 text-left text-sm hover:bg-surface-hover disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    Gradle
-                  </button>
-                </div>
-              )}
-            </div>
+            <BuildMenu projectId={projectId ?? ''} compact disabled={isWorkspaceLocked} onNotify={addToast} onFixDiagnostics={handleFixDiagnostics} />
+            <button onClick={() => setHistoryView({ filePath: null, sha: null })} className="rounded-md p-1.5 text-text-dim hover:text-text-muted" title="Commit history">
+              <History className="h-3.5 w-3.5" />
+            </button>
             <Link to={`/project/${projectId}/settings`} className={cn("rounded-md p-1.5 text-text-dim hover:text-text-muted", isWorkspaceLocked && "opacity-40 pointer-events-none")} title="Settings">
               <Settings className="h-3.5 w-3.5" />
             </Link>
@@ -3008,10 +3828,10 @@ const handleAutoFix = () => {
             />
           </div>
           <div className={cn('h-full', mobileTab !== 'files' && 'hidden')}>
-            <FileTreePanel files={files} filesLoading={filesLoading} refetchFiles={refetchFiles} onFileSelect={handleFileSelect} selectedFile={selectedFile} fileOps={fileOps} disabled={isWorkspaceLocked} />
+            {fileSidebar}
           </div>
           <div className={cn('h-full', mobileTab !== 'code' && 'hidden')}>
-            <EditorPanel projectId={project.id} selectedFile={selectedFile} fileOps={fileOps} disabled={isWorkspaceLocked} onExitGraphView={() => setSelectedFile(null)} />
+            {editorPane}
           </div>
         </div>
 
@@ -3091,6 +3911,7 @@ const handleAutoFix = () => {
                       />
                       Force push (overwrite remote changes)
                     </label>
+                    {pushFindings.length > 0 && pushFindingsView}
                   </div>
 
                   <div className="mt-6 flex gap-3">
@@ -3584,7 +4405,16 @@ const handleAutoFix = () => {
     <div className="flex h-screen flex-col bg-background">
       <ToastContainer />
       {assistantRecModal}
-      {isWorkspaceLocked && (
+      {historyModal}
+      {pullModal}
+      {prModal}
+      {isViewOnly && (
+        <div className="shrink-0 flex items-center justify-center gap-2 bg-surface py-1.5 px-4 text-xs text-text-muted border-b border-border z-50">
+          <Eye className="h-3.5 w-3.5" />
+          <span>View-only access — shared by {project.ownerUsername}</span>
+        </div>
+      )}
+      {(isReviewLocked || aiRunning) && (
         <div className="shrink-0 flex items-center justify-center gap-2 bg-primary/90 py-2 px-4 text-sm font-medium text-primary-foreground backdrop-blur animate-pulse z-50">
           <Loader2 className="h-4 w-4 animate-spin" />
           <span>{isReviewLocked ? 'Review is ongoing, please wait' : 'AI is generating code, please wait'}</span>
@@ -3629,6 +4459,34 @@ const handleAutoFix = () => {
                   >
                     <Upload className="h-4 w-4" />
                   </button>
+                  <button
+                    onClick={() => setPullModalOpen(true)}
+                    disabled={isWorkspaceLocked || !!syncState?.operation}
+                    className="relative rounded-md border border-border p-1.5 text-text-dim hover:bg-surface-hover hover:text-text-muted disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={syncState?.behind ? `Pull from GitHub (${syncState.behind} new commit${syncState.behind === 1 ? '' : 's'})` : 'Pull from GitHub'}
+                  >
+                    <Download className="h-4 w-4" />
+                    {!!syncState?.behind && <span className="absolute -right-0.5 -top-0.5 h-2 w-2 rounded-full bg-primary" />}
+                  </button>
+                  {syncState?.operation && (
+                    <button
+                      onClick={() => setSidebarView('conflicts')}
+                      className="flex items-center gap-1.5 rounded-md border border-warning/50 p-1.5 text-warning hover:bg-warning/10"
+                      title={`The ${syncState.operation} stopped on conflicts`}
+                    >
+                      <GitMerge className="h-4 w-4" />
+                      <span className="text-[10px] font-medium">{syncState.conflicts.length} conflict{syncState.conflicts.length === 1 ? '' : 's'}</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setPrModalOpen(true)}
+                    disabled={isWorkspaceLocked || !!syncState?.operation}
+                    className="rounded-md border border-border p-1.5 text-text-dim hover:bg-surface-hover hover:text-text-muted disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Create pull request"
+                  >
+                    <GitPullRequest className="h-4 w-4" />
+                  </button>
+                  {latestPr && <PullRequestBadge pr={latestPr} />}
                   <button
                     onClick={() => setResetModalOpen(true)}
                     disabled={isWorkspaceLocked}
@@ -3692,13 +4550,26 @@ const handleAutoFix = () => {
             <ArrowLeftRight className="h-3.5 w-3.5" />
             {isChatFirst ? 'Chat First' : 'Code First'}
           </button>
+          <BuildMenu projectId={projectId ?? ''} disabled={isWorkspaceLocked} onNotify={addToast} onFixDiagnostics={handleFixDiagnostics} />
           <button
-            className="inline-flex items-center gap-1.5 rounded-md bg-success/10 px-3 py-1.5 text-xs font-medium text-success opacity-50"
-            disabled
+            onClick={() => setHistoryView({ filePath: null, sha: null })}
+            className="rounded-md border border-border p-1.5 text-text-dim transition-colors hover:bg-surface-hover hover:text-text-muted"
+            title="Commit history"
           >
-            <Play className="h-3 w-3" />
-            Compile
+            <History className="h-4 w-4" />
           </button>
+          {!isViewOnly && (
+            <button
+              onClick={() => setTerminalOpen((open) => !open)}
+              className={cn(
+                'rounded-md border border-border p-1.5 text-text-dim transition-colors hover:bg-surface-hover hover:text-text-muted',
+                terminalOpen && 'bg-surface-hover text-text-muted',
+              )}
+              title={terminalOpen ? 'Hide terminal' : 'Show terminal'}
+            >
+              <TerminalSquare className="h-4 w-4" />
+            </button>
+          )}
           <GraphifyControls projectId={projectId ?? ''} isPaid={isPaid} onViewGraph={handleViewGraph} disabled={isWorkspaceLocked} />
           <div className="mt-3"><AssistantControls projectId={projectId ?? ''} isPaid={isPaid} /></div>
           {isPaid && (
@@ -3747,21 +4618,35 @@ const handleAutoFix = () => {
             </aside>
 
             <aside className="w-56 shrink-0 overflow-hidden border-r border-border">
-              <FileTreePanel files={files} filesLoading={filesLoading} refetchFiles={refetchFiles} onFileSelect={handleFileSelect} selectedFile={selectedFile} fileOps={fileOps} disabled={isWorkspaceLocked} />
+              {fileSidebar}
             </aside>
 
-            <main className="flex-1 overflow-hidden">
-              <EditorPanel projectId={project.id} selectedFile={selectedFile} fileOps={fileOps} disabled={isWorkspaceLocked} onExitGraphView={() => setSelectedFile(null)} />
+            <main className="flex flex-1 flex-col overflow-hidden">
+              <div className="min-h-0 flex-1">
+                {editorPane}
+              </div>
+              {terminalOpen && !isViewOnly && (
+                <div className="h-72 shrink-0 border-t border-border">
+                  <TerminalPanel projectId={project.id} onClose={() => setTerminalOpen(false)} />
+                </div>
+              )}
             </main>
           </>
         ) : (
           <>
             <aside className="w-56 shrink-0 overflow-hidden border-r border-border">
-              <FileTreePanel files={files} filesLoading={filesLoading} refetchFiles={refetchFiles} onFileSelect={handleFileSelect} selectedFile={selectedFile} fileOps={fileOps} disabled={isWorkspaceLocked} />
+              {fileSidebar}
             </aside>
 
-            <main className="flex-1 overflow-hidden">
-              <EditorPanel projectId={project.id} selectedFile={selectedFile} fileOps={fileOps} disabled={isWorkspaceLocked} onExitGraphView={() => setSelectedFile(null)} />
+            <main className="flex flex-1 flex-col overflow-hidden">
+              <div className="min-h-0 flex-1">
+                {editorPane}
+              </div>
+              {terminalOpen && !isViewOnly && (
+                <div className="h-72 shrink-0 border-t border-border">
+                  <TerminalPanel projectId={project.id} onClose={() => setTerminalOpen(false)} />
+                </div>
+              )}
             </main>
 
             <aside className="flex w-[400px] shrink-0 flex-col border-l border-border bg-surface">
@@ -3858,6 +4743,7 @@ const handleAutoFix = () => {
                     />
                     Force push (overwrite remote changes)
                   </label>
+                  {pushFindings.length > 0 && pushFindingsView}
                 </div>
 
                 <div className="mt-6 flex gap-3">
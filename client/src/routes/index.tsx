@@ -13,8 +13,11 @@ import PrivacyPage from '@/pages/privacy'
 import LoginPage from '@/pages/login'
 import RegisterPage from '@/pages/register'
 import ForgotPasswordPage from '@/pages/forgot-password'
+import ResetPasswordPage from '@/pages/reset-password'
+import VerifyEmailPage from '@/pages/verify-email'
 import DashboardPage from '@/pages/dashboard'
 import NewProjectPage from '@/pages/new-project'
+import SecurityPage from '@/pages/security'
 import WorkspacePage from '@/pages/workspace'
 import ProjectMenuPage from '@/pages/project-menu'
 import CommunityPage from '@/pages/community'
@@ -43,12 +46,15 @@ export function AppRoutes() {
           <Route path="login" element={<GuestRoute><LoginPage /></GuestRoute>} />
           <Route path="register" element={<GuestRoute><RegisterPage /></GuestRoute>} />
           <Route path="forgot-password" element={<ForgotPasswordPage />} />
+          <Route path="reset-password" element={<ResetPasswordPage />} />
+          <Route path="verify-email" element={<VerifyEmailPage />} />
         </Route>
 
         {/* Protected app pages */}
         <Route element={<ProtectedRoute><AppLayout /></ProtectedRoute>}>
           <Route path="dashboard" element={<DashboardPage />} />
           <Route path="projects/new" element={<NewProjectPage />} />
+          <Route path="settings/security" element={<SecurityPage />} />
         </Route>
 
         {/* Workspace (full viewport, no footer) */}
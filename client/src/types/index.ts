@@ -4,6 +4,8 @@ export interface User {
   email: string
   role: 'user' | 'admin'
   tier?: 'free' | 'paid'
+  /** Paid features stay locked (tier reads 'free') until this is true */
+  emailVerified?: boolean
   aiTokens?: number
   tokensUsed?: number
   coderabbitEnabled?: boolean
@@ -34,6 +36,45 @@ export interface Project {
   assistantModel: string
   createdAt: string
   updatedAt: string
+  /** The current user's role — owned projects are 'owner'. */
+  role?: ProjectRole
+  /** Set on projects shared with the current user. */
+  ownerUsername?: string
+}
+
+export type ProjectRole = 'owner' | 'editor' | 'viewer'
+export type MemberRole = Exclude<ProjectRole, 'owner'>
+
+export interface ProjectMember {
+  userId: string
+  username: string
+  role: ProjectRole
+  createdAt?: string
+}
+
+export interface ProjectInvitation {
+  id: string
+  userId: string
+  username: string
+  role: MemberRole
+  createdAt: string
+}
+
+export interface ProjectMembers {
+  owner: ProjectMember
+  members: ProjectMember[]
+  invitations: ProjectInvitation[]
+  role: ProjectRole
+}
+
+/** An invitation addressed to the current user */
+export interface PendingInvitation {
+  id: string
+  projectId: string
+  projectName: string
+  role: MemberRole
+  invitedBy: string
+  createdAt: string
 }
 
 export interface CreateProjectInput {
@@ -114,6 +155,8 @@ export interface AgentSession {
   opencodeSessionId?: string | null
   bridge?: 'opencode' | 'kiro'
   kiroSessionId?: string | null
+  /** 'staged': the agent works in a scratch copy and its edits wait for review. */
+  mode?: 'direct' | 'staged'
   createdAt: string
   updatedAt: string
 }
@@ -128,6 +171,12 @@ export interface AgentMessage {
   role: 'user' | 'agent' | 'system'
   content: string
   metadata?: MessageMetadata | null
+  /** User messages: workspace checkpoints taken before/after the agent turn. */
+  checkpointBefore?: string | null
+  checkpointAfter?: string | null
+  /** User messages sent while the agent was busy wait here until dispatched. */
+  queueStatus?: 'queued' | null
+  queuedOptions?: { model?: string; speed?: string; bridge?: 'opencode' | 'kiro' } | null
   createdAt: string
 }
 
@@ -169,6 +218,18 @@ export interface AdminStats {
   totalUsers: number
   totalProjects: number
   totalAgentSessions: number
+  openLedgerDrift: number
+}
+
+export interface LedgerDrift {
+  id: string
+  userId: string
+  username: string
+  balance: number
+  ledgerBalance: number
+  drift: number
+  detectedAt: string
+  lastCheckedAt: string
 }
 
 export interface AdminProject {
@@ -230,6 +291,7 @@ export type StreamEvent =
   | { type: 'todo'; items: StreamTodoItem[] }
   | { type: 'status'; status: string; message?: string }
   | { type: 'file-change'; file: string }
+  | { type: 'build-log'; stream: 'stdout' | 'stderr'; content: string }
   | { type: 'error'; message: string }
   | { type: 'complete' }
 
@@ -297,3 +359,50 @@ export interface ApiError {
   message: string
   statusCode: number
 }
+
+/** A possible credential in staged changes (mirror server/src/utils/secret-scanner.ts) */
+export interface SecretFinding {
+  id: string
+  file: string
+  line: number
+  rule: string
+  severity: 'block' | 'warn'
+  message: string
+  preview: string
+}
+
+// ── Builds (mirror server/src/routes/builds.ts serializeBuild) ───────
+
+export type BuildTool = 'maven' | 'gradle' | 'both'
+export type BuildStatus = 'running' | 'success' | 'failed' | 'cancelled'
+
+export interface BuildArtifact {
+  tool: 'maven' | 'gradle'
+  name: string
+  path: string
+  size: number
+}
+
+export interface BuildDiagnostic {
+  file: string
+  line: number
+  column: number | null
+  severity: 'error' | 'warning'
+  message: string
+  source: 'javac' | 'kotlinc' | 'maven' | 'gradle'
+}
+
+export interface Build {
+  id: string
+  projectId: string
+  tool: BuildTool
+  status: BuildStatus
+  exitCode: number | null
+  durationMs: number | null
+  artifacts: BuildArtifact[]
+  diagnosticCount: number
+  error: string | null
+  log?: string
+  createdAt: string
+  completedAt: string | null
+}
@@ -37,6 +37,8 @@ export default {
       '/api': {
         target: 'http://localhost:3000',
         changeOrigin: true,
+        // Workspace WebSocket (collaborative editing)
+        ws: true,
       },
     },
   },
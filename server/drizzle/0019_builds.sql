@@ -0,0 +1,27 @@
+-- Server-side build pipeline: one row per Maven/Gradle run.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+CREATE TABLE IF NOT EXISTS "builds" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "project_id" uuid NOT NULL,
+  "user_id" uuid NOT NULL,
+  "tool" varchar(16) NOT NULL,
+  "status" varchar(16) DEFAULT 'running' NOT NULL,
+  "exit_code" integer,
+  "duration_ms" integer,
+  "log" text DEFAULT '' NOT NULL,
+  "artifacts" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "error" text,
+  "created_at" timestamptz DEFAULT now() NOT NULL,
+  "completed_at" timestamptz
+);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "builds" ADD CONSTRAINT "builds_project_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "builds" ADD CONSTRAINT "builds_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "builds_project_idx" ON "builds" ("project_id","created_at");
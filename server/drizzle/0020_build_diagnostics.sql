@@ -0,0 +1,3 @@
+-- Structured compiler diagnostics parsed from each build's log.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+ALTER TABLE "builds" ADD COLUMN IF NOT EXISTS "diagnostics" jsonb DEFAULT '[]'::jsonb NOT NULL;
@@ -0,0 +1,20 @@
+-- Idempotency keys on the token ledger + drift flags from the periodic balance check.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+ALTER TABLE "token_transactions" ADD COLUMN IF NOT EXISTS "idempotency_key" varchar(160);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "token_transactions_idempotency_idx" ON "token_transactions" ("user_id", "idempotency_key") WHERE "idempotency_key" IS NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "token_ledger_drift" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE cascade,
+  "balance" bigint NOT NULL,
+  "ledger_balance" bigint NOT NULL,
+  "drift" bigint NOT NULL,
+  "detected_at" timestamptz DEFAULT now() NOT NULL,
+  "last_checked_at" timestamptz DEFAULT now() NOT NULL,
+  "resolved_at" timestamptz,
+  "resolved_by" uuid REFERENCES "users"("id") ON DELETE set null,
+  "resolution" varchar(20)
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "token_ledger_drift_open_idx" ON "token_ledger_drift" ("user_id") WHERE "resolved_at" IS NULL;
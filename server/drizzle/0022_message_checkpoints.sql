@@ -0,0 +1,5 @@
+-- Per-turn workspace checkpoints linked to the user message that started the turn.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+ALTER TABLE "agent_messages" ADD COLUMN IF NOT EXISTS "checkpoint_before" varchar(40);
+--> statement-breakpoint
+ALTER TABLE "agent_messages" ADD COLUMN IF NOT EXISTS "checkpoint_after" varchar(40);
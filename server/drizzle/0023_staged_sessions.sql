@@ -0,0 +1,3 @@
+-- Review-before-apply ("staged") agent sessions.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+ALTER TABLE "agent_sessions" ADD COLUMN IF NOT EXISTS "mode" varchar(16) DEFAULT 'direct' NOT NULL;
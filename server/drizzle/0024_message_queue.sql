@@ -0,0 +1,7 @@
+-- Follow-up messages queued while an agent turn is running.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+ALTER TABLE "agent_messages" ADD COLUMN IF NOT EXISTS "queue_status" varchar(16);
+--> statement-breakpoint
+ALTER TABLE "agent_messages" ADD COLUMN IF NOT EXISTS "queued_options" jsonb;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "agent_messages_queued_idx" ON "agent_messages" ("session_id", "created_at") WHERE "queue_status" IS NOT NULL;
@@ -0,0 +1,12 @@
+-- Durable, resumable SSE streams (agent sessions and assistant jobs).
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+CREATE TABLE IF NOT EXISTS "stream_events" (
+  "id" bigserial PRIMARY KEY NOT NULL,
+  "stream_key" varchar(80) NOT NULL,
+  "event" jsonb NOT NULL,
+  "created_at" timestamptz DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stream_events_stream_key_id_idx" ON "stream_events" ("stream_key", "id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stream_events_created_at_idx" ON "stream_events" ("created_at");
@@ -0,0 +1,15 @@
+-- Multi-instance support: node heartbeats and which node owns running sessions, jobs and reviews.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+CREATE TABLE IF NOT EXISTS "cluster_nodes" (
+  "node_id" varchar(64) PRIMARY KEY NOT NULL,
+  "started_at" timestamptz DEFAULT now() NOT NULL,
+  "last_seen_at" timestamptz DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "agent_sessions" ADD COLUMN IF NOT EXISTS "owner_node" varchar(64);
+--> statement-breakpoint
+ALTER TABLE "agent_sessions" ADD COLUMN IF NOT EXISTS "last_model" varchar(100);
+--> statement-breakpoint
+ALTER TABLE "assistant_jobs" ADD COLUMN IF NOT EXISTS "owner_node" varchar(64);
+--> statement-breakpoint
+ALTER TABLE "code_reviews" ADD COLUMN IF NOT EXISTS "owner_node" varchar(64);
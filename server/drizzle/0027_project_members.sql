@@ -0,0 +1,45 @@
+-- Project collaborators (editor/viewer roles) and pending invitations.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+CREATE TABLE IF NOT EXISTS "project_members" (
+  "project_id" uuid NOT NULL,
+  "user_id" uuid NOT NULL,
+  "role" varchar(16) NOT NULL,
+  "created_at" timestamptz DEFAULT now() NOT NULL
+);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_members" ADD CONSTRAINT "project_members_project_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_members" ADD CONSTRAINT "project_members_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "project_members_project_user_idx" ON "project_members" ("project_id","user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "project_members_user_idx" ON "project_members" ("user_id");--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "project_invitations" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "project_id" uuid NOT NULL,
+  "invited_user_id" uuid NOT NULL,
+  "invited_by" uuid NOT NULL,
+  "role" varchar(16) NOT NULL,
+  "created_at" timestamptz DEFAULT now() NOT NULL
+);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_invitations" ADD CONSTRAINT "project_invitations_project_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_invitations" ADD CONSTRAINT "project_invitations_invited_user_id_fk" FOREIGN KEY ("invited_user_id") REFERENCES "users"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_invitations" ADD CONSTRAINT "project_invitations_invited_by_fk" FOREIGN KEY ("invited_by") REFERENCES "users"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "project_invitations_project_user_idx" ON "project_invitations" ("project_id","invited_user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "project_invitations_invited_user_idx" ON "project_invitations" ("invited_user_id");
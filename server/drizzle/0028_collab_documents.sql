@@ -0,0 +1,14 @@
+-- Writer leases for collaboratively edited files.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+CREATE TABLE IF NOT EXISTS "collab_documents" (
+  "project_id" uuid NOT NULL,
+  "path" text NOT NULL,
+  "writer_node" varchar(64) NOT NULL,
+  "lease_until" timestamptz NOT NULL,
+  CONSTRAINT "collab_documents_project_id_path_pk" PRIMARY KEY("project_id","path")
+);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "collab_documents" ADD CONSTRAINT "collab_documents_project_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
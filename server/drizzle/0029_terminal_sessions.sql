@@ -0,0 +1,44 @@
+-- Workspace terminal sessions (for the per-user cap) and the command audit trail.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+CREATE TABLE IF NOT EXISTS "terminal_sessions" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "project_id" uuid NOT NULL,
+  "user_id" uuid NOT NULL,
+  "owner_node" varchar(64) NOT NULL,
+  "created_at" timestamptz DEFAULT now() NOT NULL
+);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "terminal_sessions" ADD CONSTRAINT "terminal_sessions_project_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "terminal_sessions" ADD CONSTRAINT "terminal_sessions_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "terminal_sessions_user_idx" ON "terminal_sessions" ("user_id");--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "terminal_commands" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "project_id" uuid NOT NULL,
+  "terminal_id" uuid NOT NULL,
+  "user_id" uuid,
+  "username" varchar(255) NOT NULL,
+  "command" text NOT NULL,
+  "cwd" text NOT NULL,
+  "status" varchar(16) NOT NULL,
+  "exit_code" integer,
+  "started_at" timestamptz DEFAULT now() NOT NULL,
+  "finished_at" timestamptz
+);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "terminal_commands" ADD CONSTRAINT "terminal_commands_project_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "terminal_commands" ADD CONSTRAINT "terminal_commands_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE set null;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "terminal_commands_project_started_idx" ON "terminal_commands" ("project_id","started_at");
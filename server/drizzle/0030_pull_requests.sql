@@ -0,0 +1,28 @@
+-- Pull requests opened from the workspace (last-seen GitHub state).
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+CREATE TABLE IF NOT EXISTS "pull_requests" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "project_id" uuid NOT NULL,
+  "user_id" uuid,
+  "repo" varchar(255) NOT NULL,
+  "number" integer NOT NULL,
+  "url" text NOT NULL,
+  "title" text NOT NULL,
+  "head_branch" varchar(255) NOT NULL,
+  "base_branch" varchar(255) NOT NULL,
+  "state" varchar(16) DEFAULT 'open' NOT NULL,
+  "draft" boolean DEFAULT false NOT NULL,
+  "created_at" timestamptz DEFAULT now() NOT NULL,
+  "updated_at" timestamptz DEFAULT now() NOT NULL
+);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pull_requests" ADD CONSTRAINT "pull_requests_project_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pull_requests" ADD CONSTRAINT "pull_requests_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE set null;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "pull_requests_project_created_idx" ON "pull_requests" ("project_id","created_at");
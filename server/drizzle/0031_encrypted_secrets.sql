@@ -0,0 +1,12 @@
+-- Provider API keys and GitHub tokens are envelope-encrypted by the server
+-- (utils/envelope-encryption.ts); existing plaintext rows are encrypted by the
+-- rotation pass at startup or `npm run db:rotate-keys`. The hint keeps the
+-- masked form for admin listings, filled here for rows that are still plaintext.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+ALTER TABLE "provider_api_keys" ADD COLUMN IF NOT EXISTS "api_key_hint" varchar(32);--> statement-breakpoint
+UPDATE "provider_api_keys"
+SET "api_key_hint" = CASE
+  WHEN length("api_key") > 12 THEN left("api_key", 8) || '••••••••' || right("api_key", 4)
+  ELSE '••••••••'
+END
+WHERE "api_key_hint" IS NULL AND "api_key" NOT LIKE 'enc:v1:%';
@@ -0,0 +1,25 @@
+-- Email verification and password reset.
+-- Accounts that existed before verification was introduced count as verified,
+-- so paid users aren't locked out by the upgrade.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "email_verified_at" timestamptz;--> statement-breakpoint
+-- Backfill only on the first run (before auth_tokens exists), so a re-run
+-- doesn't verify accounts registered since
+UPDATE "users" SET "email_verified_at" = "created_at"
+WHERE "email_verified_at" IS NULL AND to_regclass('public.auth_tokens') IS NULL;--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "auth_tokens" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL,
+  "purpose" varchar(32) NOT NULL,
+  "token_hash" varchar(64) NOT NULL,
+  "expires_at" timestamptz NOT NULL,
+  "used_at" timestamptz,
+  "created_at" timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT "auth_tokens_token_hash_unique" UNIQUE("token_hash")
+);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "auth_tokens" ADD CONSTRAINT "auth_tokens_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "auth_tokens_user_purpose_idx" ON "auth_tokens" ("user_id","purpose");
@@ -0,0 +1,21 @@
+-- Scoped personal access tokens, accepted as `Authorization: Bearer` by the auth middleware.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+CREATE TABLE IF NOT EXISTS "personal_access_tokens" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" uuid NOT NULL,
+  "name" varchar(100) NOT NULL,
+  "token_hash" varchar(64) NOT NULL,
+  "token_prefix" varchar(16) NOT NULL,
+  "scopes" jsonb NOT NULL,
+  "expires_at" timestamptz,
+  "last_used_at" timestamptz,
+  "last_used_ip" varchar(64),
+  "created_at" timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT "personal_access_tokens_token_hash_unique" UNIQUE("token_hash")
+);--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "personal_access_tokens" ADD CONSTRAINT "personal_access_tokens_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE cascade;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "personal_access_tokens_user_id_idx" ON "personal_access_tokens" ("user_id");
@@ -0,0 +1,10 @@
+-- At most one running build per project: POST /api/projects/:id/builds inserts ON CONFLICT DO NOTHING.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+-- Fail all but the newest running build of any project that already has several.
+UPDATE "builds" SET "status" = 'failed', "error" = 'Build was interrupted.', "completed_at" = now()
+WHERE "status" = 'running' AND "id" NOT IN (
+  SELECT DISTINCT ON ("project_id") "id" FROM "builds"
+  WHERE "status" = 'running'
+  ORDER BY "project_id", "created_at" DESC
+);--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "builds_one_running_idx" ON "builds" ("project_id") WHERE "status" = 'running';
@@ -0,0 +1,3 @@
+-- Which replica runs a build, so cancel is routed there and only a dead node's builds count as stale.
+-- Hand-written idempotent (this deployment's migration tracking is drifted — see CLAUDE.md).
+ALTER TABLE "builds" ADD COLUMN IF NOT EXISTS "owner_node" varchar(64);
@@ -102,13 +102,18 @@ export async function runEnhance(
 
 export async function runErrorFix(
   ctx: AssistantJobContext,
-  input: { issues: Array<{ severity?: string; fileName?: string; codegenInstructions?: string; message?: string }> },
+  input: {
+    issues?: Array<{ severity?: string; fileName?: string; codegenInstructions?: string; message?: string }>
+    diagnostics?: Array<{ file?: string; line?: number; column?: number | null; severity?: string; message?: string; source?: string }>
+  },
   usage: UsageTotals,
   onProgress: ProgressFn,
 ): Promise<ErrorFixArtifact> {
-  const system = `You are AuroraCraft's fix-prompt assistant. You only READ the project for context; you never write code. Given a set of code-review issues, produce a SINGLE highly-detailed, well-explained prompt instructing the coding agent how to fix every issue. Reference exact files and explain the fix rationale. Use the read-only tools to inspect the affected files. The output MUST be under ${ERROR_FIX_MAX_CHARS} characters. Output ONLY the fix prompt.`
-  const user = `Code-review issues to fix:\n${JSON.stringify(input.issues, null, 2)}`
-  let prompt = (await runAgenticLoop(ctx, system, user, usage, onProgress)).trim()
+  const system = `You are AuroraCraft's fix-prompt assistant. You only READ the project for context; you never write code. Given a set of code-review issues and/or compiler diagnostics from a failed build, produce a SINGLE highly-detailed, well-explained prompt instructing the coding agent how to fix every one of them. Reference exact files (and lines for compiler diagnostics) and explain the fix rationale. Use the read-only tools to inspect the affected files. The output MUST be under ${ERROR_FIX_MAX_CHARS} characters. Output ONLY the fix prompt.`
+  const sections: string[] = []
+  if (input.issues?.length) sections.push(`Code-review issues to fix:\n${JSON.stringify(input.issues, null, 2)}`)
+  if (input.diagnostics?.length) sections.push(`Compiler diagnostics from the latest build:\n${JSON.stringify(input.diagnostics, null, 2)}`)
+  let prompt = (await runAgenticLoop(ctx, system, sections.join('\n\n'), usage, onProgress)).trim()
   if (prompt.length > ERROR_FIX_MAX_CHARS) prompt = prompt.slice(0, ERROR_FIX_MAX_CHARS)
   return { prompt }
 }
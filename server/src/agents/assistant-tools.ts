@@ -7,12 +7,12 @@ import { agentSessions } from '../db/schema/agent-sessions.js'
 import { agentMessages } from '../db/schema/agent-messages.js'
 import type { NimToolDef } from '../bridges/nim-client.js'
 import type { AssistantJobContext } from './assistant-types.js'
+import { IGNORED_DIRS } from '../utils/workspace-search.js'
 
 // All Assistant tools are READ-ONLY. They run in-process (the server can read any
 // workspace) and never mutate files, the DB, or processes.
 
 const MAX_FILE_BYTES = 200_000
-const IGNORED_DIRS = new Set(['node_modules', '.git', 'target', 'build', '.gradle', 'graphify-out', '.config', 'dist'])
 
 export const ASSISTANT_TOOLS: NimToolDef[] = [
   { type: 'function', function: { name: 'list_project_files', description: 'List all source files in the project (relative paths).', parameters: { type: 'object', properties: {} } } },
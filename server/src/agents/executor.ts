@@ -6,8 +6,9 @@ import { agentLogs } from '../db/schema/agent-logs.js'
 import { bridgeRegistry } from '../bridges/index.js'
 import type { AgentExecutionContext, AgentStreamCallback, AgentExecutionResult } from './types.js'
 import { calculateActualCost, reconcileTokens } from '../utils/token-service.js'
+import { createCheckpoint } from '../utils/checkpoint-service.js'
 
-function cleanBadgeMarkers(text: string): string {
+export function cleanBadgeMarkers(text: string): string {
   if (!text) return text
   // Remove any line containing badge markers, regardless of position
   return text
@@ -45,6 +46,7 @@ export class AgentExecutor {
 
     callbacks.onStatus('running')
     await this.addLog(context.sessionId, 'status', 'Execution started')
+    await this.checkpoint(context, 'before')
 
     try {
       const result = await bridge.streamResponse(
@@ -123,15 +125,29 @@ export class AgentExecutor {
       // Reconcile pre-charged tokens against actual usage
       if (context.userId && context.estimatedCost && context.estimatedCost > 0 && context.model) {
         try {
-          const { getModelById } = await import('../config/ai-models.js')
+          const { getModelById, calculateTokenCost } = await import('../config/ai-models.js')
           const modelDef = getModelById(context.model)
           if (modelDef) {
-            const actualCost = calculateActualCost(
-              context.prompt,
-              result.output,
-              modelDef,
-              context.providerId as any,
-            )
+            // Prefer the usage the bridge got from the provider; the text-length
+            // estimate misses tool calls, file reads, thinking and cached input.
+            const usage = result.metadata?.usage
+            const actualCost = usage
+              ? calculateTokenCost(
+                  usage.inputTokens,
+                  usage.outputTokens,
+                  modelDef,
+                  context.providerId as any,
+                  usage.cachedInputTokens,
+                )
+              : calculateActualCost(
+                  context.prompt,
+                  result.output,
+                  modelDef,
+                  context.providerId as any,
+                )
+            if (!usage) {
+              console.warn('[AgentExecutor] No provider usage reported — reconciling against estimate for session:', context.sessionId)
+            }
             const reconcileResult = await reconcileTokens(
               context.userId,
               context.estimatedCost,
@@ -139,6 +155,7 @@ export class AgentExecutor {
               modelDef.name,
               context.providerId,
               context.sessionId,
+              { idempotencyKey: context.chargeKey },
             )
             if (reconcileResult.balanceExhausted) {
               await this.addLog(context.sessionId, 'warning', 'Token balance exhausted during generation. AI output may have been truncated to available credits.')
@@ -185,6 +202,26 @@ export class AgentExecutor {
       callbacks.onError(errorMessage)
       this.activeExecutions.delete(context.sessionId)
       return { status: 'failed', output: '', error: errorMessage }
+    } finally {
+      await this.checkpoint(context, 'after')
+    }
+  }
+
+  /**
+   * Snapshot the workspace and record the checkpoint on the turn's user message.
+   * Best-effort: a failed snapshot never blocks or fails the turn.
+   */
+  private async checkpoint(context: AgentExecutionContext, phase: 'before' | 'after'): Promise<void> {
+    // Staged turns never touch the project; their edits are reviewed instead.
+    if (!context.messageId || !context.projectDirectory || context.staged) return
+    try {
+      const sha = await createCheckpoint(context.projectDirectory, { messageId: context.messageId, phase })
+      await db
+        .update(agentMessages)
+        .set(phase === 'before' ? { checkpointBefore: sha } : { checkpointAfter: sha })
+        .where(eq(agentMessages.id, context.messageId))
+    } catch (err) {
+      console.warn(`[AgentExecutor] Workspace checkpoint (${phase}) failed for session:`, context.sessionId, err)
     }
   }
 
@@ -5,6 +5,8 @@ export type AgentStatus = 'idle' | 'running' | 'completed' | 'failed' | 'cancell
 export interface AgentExecutionContext {
   sessionId: string
   projectId: string
+  /** The user message that started this turn; its checkpoints are recorded on it. */
+  messageId?: string
   prompt: string
   bridgeName: string
   model?: string
@@ -19,10 +21,14 @@ export interface AgentExecutionContext {
   compiler?: string
   javaVersion?: string
   projectDirectory?: string
+  /** Review-before-apply session: projectDirectory is a scratch copy, not the project. */
+  staged?: boolean
   userHomeDir?: string
   firecrawlApiKey?: string
   userId?: string
   estimatedCost?: number
+  /** Idempotency key of the pre-charge; reconciliation is keyed off it. */
+  chargeKey?: string
   providerId?: string
   litellmUrl?: string
   maxOutputTokens?: number
@@ -0,0 +1,665 @@
+/**
+ * Language servers for the editor — jdtls for Java, kotlin-language-server for
+ * Kotlin — one per project workspace and language, shared by everyone who has
+ * the project open (routes/lsp.ts).
+ *
+ * Lifecycle follows OpenCodeProcessManager: `acquire` starts or reuses a
+ * server and takes a reference, `release` drops it, and a server without
+ * references is stopped after LSP_IDLE_TIMEOUT. References are released on
+ * the instance `acquire` returned, so a socket outliving a crashed server
+ * can't drop a reference its replacement holds. Servers run as the project
+ * owner's system user with the isolated HOME (Maven settings.xml) and the
+ * shared Gradle cache, so dependencies resolve against the same caches builds
+ * use.
+ *
+ * A server is initialized once, here. Browsers talk LSP to it through
+ * `attach()`, which multiplexes them onto the one process:
+ * - their `initialize` is answered from the cached result, and lifecycle
+ *   messages (`initialized`, `shutdown`, `exit`) are swallowed;
+ * - request ids are remapped per browser, and only editor features are let
+ *   through (no `workspace/executeCommand`);
+ * - document opens are reference-counted, versions are assigned here, and
+ *   diagnostics are replayed to browsers that join later;
+ * - requests from the server to the client are answered here.
+ * Browsers address files as `file:///project/<path>`; URIs are rewritten to
+ * and from the workspace path on the way through.
+ */
+import { spawn, type ChildProcess } from 'child_process'
+import { pathToFileURL } from 'url'
+import { env } from '../env.js'
+import { getJavaHomePath } from './opencode-process-manager.js'
+import { getProjectConfigDirectory } from '../utils/provider-config.js'
+import { SHARED_CACHE_PATHS } from '../utils/shared-cache.js'
+import { NODE_ID } from '../utils/cluster.js'
+
+export const LSP_LANGUAGES = ['java', 'kotlin'] as const
+export type LspLanguage = (typeof LSP_LANGUAGES)[number]
+
+/** Root URI browsers use for project files */
+export const CLIENT_ROOT_URI = 'file:///project/'
+
+const SERVER_BINARIES: Record<LspLanguage, string> = {
+  java: '/usr/local/bin/jdtls',
+  kotlin: '/usr/local/bin/kotlin-language-server',
+}
+// Both servers need a modern runtime whatever JDK the project targets
+const SERVER_JAVA_VERSION = '21'
+
+// Methods a browser may call; everything else is refused
+const ALLOWED_REQUESTS = new Set([
+  'textDocument/completion',
+  'completionItem/resolve',
+  'textDocument/hover',
+  'textDocument/signatureHelp',
+  'textDocument/definition',
+  'textDocument/typeDefinition',
+  'textDocument/references',
+  'textDocument/documentHighlight',
+  'textDocument/prepareRename',
+  'textDocument/rename',
+  'java/classFileContents',
+])
+
+const CLIENT_CAPABILITIES = {
+  workspace: { configuration: true, workspaceFolders: true, applyEdit: false },
+  textDocument: {
+    synchronization: { dynamicRegistration: false, didSave: true },
+    completion: {
+      completionItem: { snippetSupport: true, documentationFormat: ['markdown', 'plaintext'] },
+      contextSupport: true,
+    },
+    hover: { contentFormat: ['markdown', 'plaintext'] },
+    signatureHelp: { signatureInformation: { documentationFormat: ['markdown', 'plaintext'] } },
+    definition: { linkSupport: false },
+    typeDefinition: { linkSupport: false },
+    rename: { prepareSupport: true },
+    publishDiagnostics: { relatedInformation: false },
+  },
+  window: { workDoneProgress: false },
+}
+
+type JsonRpcId = number | string
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0'
+  id?: JsonRpcId | null
+  method?: string
+  params?: unknown
+  result?: unknown
+  error?: { code: number; message: string; data?: unknown }
+}
+
+export interface LanguageServerOptions {
+  directory: string
+  language: LspLanguage
+  /** Owner of the workspace — the server runs as their system user */
+  ownerUsername: string
+}
+
+export interface LspClient {
+  send(message: JsonRpcMessage): void
+  /** The language server went away; close the transport */
+  close(reason: string): void
+}
+
+interface OpenDocument {
+  version: number
+  owners: Set<LspAttachment>
+}
+
+function isRoot(): boolean {
+  return process.getuid?.() === 0
+}
+
+/** Single-quote escape for safe inclusion in a `sh -c` string. */
+function shellQuote(s: string): string {
+  return `'${s.replace(/'/g, `'\\''`)}'`
+}
+
+/** Copy of `value` with URI prefixes rewritten in every string and object key. */
+function rewriteUris(value: unknown, rewrite: (s: string) => string): unknown {
+  if (typeof value === 'string') return rewrite(value)
+  if (Array.isArray(value)) return value.map((v) => rewriteUris(v, rewrite))
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {}
+    for (const [key, v] of Object.entries(value)) out[rewrite(key)] = rewriteUris(v, rewrite)
+    return out
+  }
+  return value
+}
+
+/** Project files (no `..` segments) and jdtls library class files only. */
+function isAllowedUri(uri: string): boolean {
+  if (uri.startsWith('jdt://')) return true
+  if (!uri.startsWith(CLIENT_ROOT_URI)) return false
+  return !uri.slice(CLIENT_ROOT_URI.length).split('/').some((segment) => {
+    try {
+      return decodeURIComponent(segment) === '..'
+    } catch {
+      return true
+    }
+  })
+}
+
+function settingAt(settings: Record<string, unknown>, section: string | undefined): unknown {
+  if (!section) return settings
+  let value: unknown = settings
+  for (const key of section.split('.')) {
+    if (!value || typeof value !== 'object') return null
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value ?? null
+}
+
+/** One browser's view of a shared language server. */
+export class LspAttachment {
+  readonly documents = new Set<string>()
+  initialized = false
+
+  constructor(
+    private readonly server: LanguageServer,
+    readonly client: LspClient,
+    /** Viewers can query but not change document contents */
+    readonly canEdit: boolean,
+  ) {}
+
+  receive(message: JsonRpcMessage): void {
+    this.server.handleClientMessage(this, message)
+  }
+
+  detach(): void {
+    this.server.detach(this)
+  }
+}
+
+export class LanguageServer {
+  status: 'starting' | 'ready' | 'stopping' | 'stopped' = 'starting'
+  refCount = 0
+  lastActivity = new Date()
+  idleTimer?: ReturnType<typeof setTimeout>
+
+  private readonly rootUri: string
+  private readonly serverRoots: string[]
+  private readonly settings: Record<string, unknown>
+  private readonly attachments = new Set<LspAttachment>()
+  private readonly documents = new Map<string, OpenDocument>()
+  private readonly diagnostics = new Map<string, unknown>()
+  // Server id → the browser request it stands for
+  private readonly forwarded = new Map<number, { attachment: LspAttachment; id: JsonRpcId }>()
+  // Requests this process made itself (initialize)
+  private readonly own = new Map<number, { resolve(result: unknown): void; reject(err: Error): void }>()
+  private initializeResult: unknown = null
+  private nextId = 1
+  private buffer: Buffer = Buffer.alloc(0)
+
+  constructor(
+    readonly key: string,
+    readonly options: LanguageServerOptions,
+    readonly process: ChildProcess,
+  ) {
+    this.rootUri = `${pathToFileURL(options.directory).href}/`
+    // jdtls sometimes reports `file:/path` rather than `file:///path`
+    this.serverRoots = [this.rootUri, this.rootUri.replace('file:///', 'file:/')]
+    this.settings = options.language === 'java'
+      ? {
+          java: {
+            configuration: { updateBuildConfiguration: 'automatic' },
+            import: { gradle: { enabled: true, user: { home: SHARED_CACHE_PATHS.gradle.caches } }, maven: { enabled: true } },
+            maven: { downloadSources: true },
+            autobuild: { enabled: true },
+          },
+        }
+      : {}
+
+    process.stdout?.on('data', (chunk: Buffer) => this.receive(chunk))
+    process.stdin?.on('error', () => { /* server exited while we were writing */ })
+  }
+
+  /** Send `initialize` and wait for the server's capabilities. */
+  async initialize(dataDirectory: string): Promise<void> {
+    this.initializeResult = await this.request('initialize', {
+      processId: globalThis.process.pid,
+      rootUri: this.rootUri,
+      rootPath: this.options.directory,
+      workspaceFolders: [{ uri: this.rootUri, name: 'project' }],
+      capabilities: CLIENT_CAPABILITIES,
+      initializationOptions: this.options.language === 'java'
+        ? { settings: this.settings, extendedClientCapabilities: { classFileContentsSupport: true } }
+        : { storagePath: dataDirectory },
+    })
+    this.write({ jsonrpc: '2.0', method: 'initialized', params: {} })
+    this.write({ jsonrpc: '2.0', method: 'workspace/didChangeConfiguration', params: { settings: this.settings } })
+    this.status = 'ready'
+  }
+
+  attach(client: LspClient, canEdit: boolean): LspAttachment {
+    const attachment = new LspAttachment(this, client, canEdit)
+    this.attachments.add(attachment)
+    this.lastActivity = new Date()
+    return attachment
+  }
+
+  detach(attachment: LspAttachment): void {
+    if (!this.attachments.delete(attachment)) return
+    for (const uri of attachment.documents) this.closeDocument(attachment, uri)
+    for (const [serverId, target] of this.forwarded) {
+      if (target.attachment !== attachment) continue
+      this.forwarded.delete(serverId)
+      this.write({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: serverId } })
+    }
+  }
+
+  /** The process exited: tell every browser and fail what's in flight. */
+  terminated(reason: string): void {
+    this.status = 'stopped'
+    for (const { reject } of this.own.values()) reject(new Error(reason))
+    this.own.clear()
+    this.forwarded.clear()
+    for (const attachment of this.attachments) attachment.client.close(reason)
+    this.attachments.clear()
+  }
+
+  handleClientMessage(attachment: LspAttachment, raw: JsonRpcMessage): void {
+    if (this.status !== 'ready') return
+    this.lastActivity = new Date()
+    const message = rewriteUris(raw, (s) => this.toServerUri(s)) as JsonRpcMessage
+    const method = message.method
+    if (!method) return // Responses to server requests are answered here instead
+
+    const textDocument = (message.params as { textDocument?: { uri?: unknown } } | undefined)?.textDocument
+    if (textDocument && (typeof textDocument.uri !== 'string' || !isAllowedUri(this.toClientUri(textDocument.uri)))) {
+      if (message.id !== undefined && message.id !== null) this.replyError(attachment, message.id, -32602, 'Document is outside the project')
+      return
+    }
+
+    if (message.id === undefined || message.id === null) {
+      this.handleClientNotification(attachment, method, message.params)
+      return
+    }
+
+    switch (method) {
+      case 'initialize':
+        attachment.client.send({ jsonrpc: '2.0', id: message.id, result: this.toClient(this.initializeResult) })
+        if (!attachment.initialized) {
+          attachment.initialized = true
+          for (const params of this.diagnostics.values()) {
+            attachment.client.send({ jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: this.toClient(params) })
+          }
+        }
+        return
+      case 'shutdown':
+        attachment.client.send({ jsonrpc: '2.0', id: message.id, result: null })
+        return
+    }
+
+    if (!ALLOWED_REQUESTS.has(method)) {
+      this.replyError(attachment, message.id, -32601, `Method not available: ${method}`)
+      return
+    }
+    const serverId = this.nextId++
+    this.forwarded.set(serverId, { attachment, id: message.id })
+    this.write({ jsonrpc: '2.0', id: serverId, method, params: message.params })
+  }
+
+  stop(): void {
+    this.status = 'stopping'
+    this.process.kill('SIGTERM')
+    setTimeout(() => {
+      if (this.process.exitCode === null && this.process.signalCode === null) this.process.kill('SIGKILL')
+    }, 5000).unref()
+  }
+
+  private handleClientNotification(attachment: LspAttachment, method: string, params: unknown): void {
+    switch (method) {
+      case 'textDocument/didOpen': {
+        const { uri, languageId, text } = (params as { textDocument: { uri: string; languageId: string; text: string } }).textDocument
+        attachment.documents.add(uri)
+        const open = this.documents.get(uri)
+        if (open) {
+          open.owners.add(attachment)
+          // Someone else opened it first; bring the server up to this browser's text
+          if (attachment.canEdit) this.changeDocument(open, uri, [{ text }])
+          return
+        }
+        this.documents.set(uri, { version: 1, owners: new Set([attachment]) })
+        this.write({ jsonrpc: '2.0', method, params: { textDocument: { uri, languageId, version: 1, text } } })
+        return
+      }
+      case 'textDocument/didChange': {
+        const { textDocument, contentChanges } = params as { textDocument: { uri: string }; contentChanges: unknown[] }
+        const open = this.documents.get(textDocument.uri)
+        if (open && open.owners.has(attachment) && attachment.canEdit) this.changeDocument(open, textDocument.uri, contentChanges)
+        return
+      }
+      case 'textDocument/didSave': {
+        const { uri } = (params as { textDocument: { uri: string } }).textDocument
+        if (this.documents.has(uri)) this.write({ jsonrpc: '2.0', method, params })
+        return
+      }
+      case 'textDocument/didClose':
+        this.closeDocument(attachment, (params as { textDocument: { uri: string } }).textDocument.uri)
+        return
+      case '$/cancelRequest': {
+        const id = (params as { id?: JsonRpcId }).id
+        for (const [serverId, target] of this.forwarded) {
+          if (target.attachment === attachment && target.id === id) {
+            this.write({ jsonrpc: '2.0', method, params: { id: serverId } })
+            break
+          }
+        }
+        return
+      }
+      // `initialized` and `exit` concern the browser's session only
+    }
+  }
+
+  private changeDocument(open: OpenDocument, uri: string, contentChanges: unknown[]): void {
+    open.version++
+    this.write({ jsonrpc: '2.0', method: 'textDocument/didChange', params: { textDocument: { uri, version: open.version }, contentChanges } })
+  }
+
+  private closeDocument(attachment: LspAttachment, uri: string): void {
+    attachment.documents.delete(uri)
+    const open = this.documents.get(uri)
+    if (!open || !open.owners.delete(attachment) || open.owners.size > 0) return
+    this.documents.delete(uri)
+    this.write({ jsonrpc: '2.0', method: 'textDocument/didClose', params: { textDocument: { uri } } })
+  }
+
+  private handleServerMessage(message: JsonRpcMessage): void {
+    // Request from the server
+    if (message.method && message.id !== undefined && message.id !== null) {
+      this.answerServerRequest(message)
+      return
+    }
+
+    // Notification
+    if (message.method) {
+      switch (message.method) {
+        case 'textDocument/publishDiagnostics':
+          this.diagnostics.set((message.params as { uri: string }).uri, message.params)
+          break
+        case 'window/logMessage':
+        case 'telemetry/event':
+        case '$/progress':
+          return
+      }
+      this.broadcast({ jsonrpc: '2.0', method: message.method, params: this.toClient(message.params) })
+      return
+    }
+
+    // Response
+    if (typeof message.id !== 'number') return
+    const own = this.own.get(message.id)
+    if (own) {
+      this.own.delete(message.id)
+      if (message.error) own.reject(new Error(message.error.message))
+      else own.resolve(message.result)
+      return
+    }
+    const target = this.forwarded.get(message.id)
+    if (!target) return
+    this.forwarded.delete(message.id)
+    target.attachment.client.send({
+      jsonrpc: '2.0',
+      id: target.id,
+      ...(message.error ? { error: message.error } : { result: this.toClient(message.result ?? null) }),
+    })
+  }
+
+  private answerServerRequest(message: JsonRpcMessage): void {
+    let result: unknown = null
+    switch (message.method) {
+      case 'workspace/configuration': {
+        const items = (message.params as { items?: { section?: string }[] }).items ?? []
+        result = items.map((item) => settingAt(this.settings, item.section))
+        break
+      }
+      case 'workspace/workspaceFolders':
+        result = [{ uri: this.rootUri, name: 'project' }]
+        break
+      case 'workspace/applyEdit':
+        result = { applied: false }
+        break
+    }
+    this.write({ jsonrpc: '2.0', id: message.id, result })
+  }
+
+  private request(method: string, params: unknown): Promise<unknown> {
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      this.own.set(id, { resolve, reject })
+      this.write({ jsonrpc: '2.0', id, method, params })
+    })
+  }
+
+  private replyError(attachment: LspAttachment, id: JsonRpcId, code: number, message: string): void {
+    attachment.client.send({ jsonrpc: '2.0', id, error: { code, message } })
+  }
+
+  private broadcast(message: JsonRpcMessage): void {
+    for (const attachment of this.attachments) {
+      if (attachment.initialized) attachment.client.send(message)
+    }
+  }
+
+  private toServerUri(s: string): string {
+    return s.startsWith(CLIENT_ROOT_URI) ? this.rootUri + s.slice(CLIENT_ROOT_URI.length) : s
+  }
+
+  private toClientUri(s: string): string {
+    for (const root of this.serverRoots) {
+      if (s.startsWith(root)) return CLIENT_ROOT_URI + s.slice(root.length)
+    }
+    return s
+  }
+
+  private toClient(value: unknown): unknown {
+    // Replace everywhere (hover text links too) so workspace paths never reach the browser
+    return rewriteUris(value, (s) => {
+      if (!s.includes('file:/')) return s
+      let out = s
+      for (const root of this.serverRoots) out = out.replaceAll(root, CLIENT_ROOT_URI)
+      return out
+    })
+  }
+
+  private write(message: JsonRpcMessage): void {
+    if (this.status === 'stopped') return
+    const body = Buffer.from(JSON.stringify(message), 'utf8')
+    this.process.stdin?.write(`Content-Length: ${body.length}\r\n\r\n`)
+    this.process.stdin?.write(body)
+  }
+
+  /** Split stdout into `Content-Length` framed messages. */
+  private receive(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n')
+      if (headerEnd === -1) return
+      const length = /Content-Length:\s*(\d+)/i.exec(this.buffer.subarray(0, headerEnd).toString('ascii'))
+      const start = headerEnd + 4
+      if (!length) {
+        this.buffer = this.buffer.subarray(start)
+        continue
+      }
+      const end = start + Number(length[1])
+      if (this.buffer.length < end) return
+      const body = this.buffer.subarray(start, end).toString('utf8')
+      this.buffer = this.buffer.subarray(end)
+      try {
+        this.handleServerMessage(JSON.parse(body) as JsonRpcMessage)
+      } catch (err) {
+        console.warn(`[LanguageServer] Bad message from ${this.key}:`, err instanceof Error ? err.message : err)
+      }
+    }
+  }
+}
+
+// ── Process Manager ─────────────────────────────────────────────────
+
+export class LanguageServerManager {
+  private servers = new Map<string, LanguageServer>()
+  private startPromises = new Map<string, Promise<LanguageServer>>()
+  private readonly idleTimeoutMs: number
+  // jdtls imports the whole Maven/Gradle build before answering `initialize`
+  private readonly STARTUP_TIMEOUT_MS = 180_000
+
+  constructor() {
+    this.idleTimeoutMs = env.LSP_IDLE_TIMEOUT
+  }
+
+  static keyFor(directory: string, language: LspLanguage): string {
+    return `${directory}#${language}`
+  }
+
+  async acquire(opts: LanguageServerOptions): Promise<LanguageServer> {
+    const key = LanguageServerManager.keyFor(opts.directory, opts.language)
+
+    const existing = this.servers.get(key)
+    if (existing && existing.status === 'ready') {
+      this.cancelIdleTimer(existing)
+      existing.refCount++
+      existing.lastActivity = new Date()
+      return existing
+    }
+
+    const pending = this.startPromises.get(key)
+    if (pending) {
+      const server = await pending
+      server.refCount++
+      server.lastActivity = new Date()
+      this.cancelIdleTimer(server)
+      return server
+    }
+
+    const startPromise = this.startServer(key, opts)
+    this.startPromises.set(key, startPromise)
+
+    try {
+      const server = await startPromise
+      server.refCount++
+      return server
+    } finally {
+      this.startPromises.delete(key)
+    }
+  }
+
+  /** Drop a reference taken by `acquire`; a server that has since exited or been replaced is ignored. */
+  release(server: LanguageServer): void {
+    if (this.servers.get(server.key) !== server) return
+
+    server.refCount = Math.max(0, server.refCount - 1)
+    server.lastActivity = new Date()
+    if (server.refCount === 0) {
+      this.scheduleIdleShutdown(server)
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    console.log(`[LanguageServer] Shutting down all language servers (${this.servers.size} active)`)
+    await Promise.allSettled([...this.servers.keys()].map((key) => this.stopServer(key)))
+    this.servers.clear()
+    this.startPromises.clear()
+  }
+
+  /**
+   * Start a server with a hard timeout, like OpenCodeProcessManager: a server
+   * that never answers `initialize` is killed and the promise rejects.
+   */
+  private async startServer(key: string, opts: LanguageServerOptions): Promise<LanguageServer> {
+    const { directory, language, ownerUsername } = opts
+    const configDir = getProjectConfigDirectory(directory)
+    // Per replica: jdtls locks its data directory
+    const dataDir = `${configDir}/.lsp/${language}-${NODE_ID}`
+    const javaHome = getJavaHomePath(SERVER_JAVA_VERSION)
+    const binary = SERVER_BINARIES[language]
+
+    const shellCmd =
+      `mkdir -p ${shellQuote(dataDir)} && ` +
+      `cd ${shellQuote(directory)} && ` +
+      `export HOME=${shellQuote(configDir)} && ` +
+      `export JAVA_HOME=${shellQuote(javaHome)} && ` +
+      `export PATH=${shellQuote(`${javaHome}/bin:/usr/local/bin:/usr/bin:/bin`)} && ` +
+      `export MAVEN_OPTS=${shellQuote(`-Dmaven.repo.local=${SHARED_CACHE_PATHS.maven.repository}`)} && ` +
+      `export GRADLE_USER_HOME=${shellQuote(SHARED_CACHE_PATHS.gradle.caches)} && ` +
+      `exec ${shellQuote(binary)}${language === 'java' ? ` -data ${shellQuote(dataDir)}` : ''}`
+
+    console.log(`[LanguageServer] Starting ${language} language server for ${directory}`)
+    const systemUser = `auroracraft-${ownerUsername.toLowerCase()}`
+    const runuserArgs = ['-l', systemUser, '-c', shellCmd]
+    const child = isRoot()
+      ? spawn('runuser', runuserArgs, { stdio: ['pipe', 'pipe', 'pipe'] })
+      : spawn('sudo', ['runuser', ...runuserArgs], { stdio: ['pipe', 'pipe', 'pipe'] })
+
+    const server = new LanguageServer(key, opts, child)
+    this.servers.set(key, server)
+
+    child.stderr?.on('data', (data: Buffer) => {
+      console.error(`[LanguageServer:${language}] ${data.toString().trim()}`)
+    })
+    child.on('error', (err) => {
+      console.error(`[LanguageServer] Failed to spawn ${binary}:`, err.message)
+    })
+    child.on('exit', (code, signal) => {
+      console.log(`[LanguageServer] ${language} server for ${directory} exited (code: ${code}, signal: ${signal})`)
+      this.cleanupServer(key, server)
+      server.terminated(server.status === 'stopping' ? 'Language server stopped' : 'Language server exited')
+    })
+
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutHandle = setTimeout(() => {
+        reject(new Error(`The ${language} language server did not start within ${this.STARTUP_TIMEOUT_MS / 1000}s`))
+      }, this.STARTUP_TIMEOUT_MS)
+    })
+
+    try {
+      await Promise.race([server.initialize(dataDir), timeoutPromise])
+      console.log(`[LanguageServer] ${language} server ready for ${directory}`)
+      return server
+    } catch (err) {
+      this.cleanupServer(key, server)
+      try { child.kill('SIGKILL') } catch { /* ignore */ }
+      throw err
+    } finally {
+      if (timeoutHandle) clearTimeout(timeoutHandle)
+    }
+  }
+
+  private async stopServer(key: string): Promise<void> {
+    const server = this.servers.get(key)
+    if (!server || server.status === 'stopped') return
+    this.cancelIdleTimer(server)
+    if (server.process.exitCode !== null || server.process.signalCode !== null) return
+    const exited = new Promise<void>((resolve) => server.process.once('exit', () => resolve()))
+    server.stop()
+    await exited
+  }
+
+  private cleanupServer(key: string, server: LanguageServer): void {
+    this.cancelIdleTimer(server)
+    if (this.servers.get(key) === server) this.servers.delete(key)
+  }
+
+  private scheduleIdleShutdown(server: LanguageServer): void {
+    this.cancelIdleTimer(server)
+    server.idleTimer = setTimeout(() => {
+      if (server.refCount === 0 && server.status === 'ready') {
+        console.log(`[LanguageServer] Idle timeout reached for ${server.key} — stopping`)
+        this.stopServer(server.key).catch((err) => {
+          console.error(`[LanguageServer] Error stopping idle server ${server.key}:`, err)
+        })
+      }
+    }, this.idleTimeoutMs)
+  }
+
+  private cancelIdleTimer(server: LanguageServer): void {
+    if (server.idleTimer) {
+      clearTimeout(server.idleTimer)
+      server.idleTimer = undefined
+    }
+  }
+}
+
+export const languageServers = new LanguageServerManager()
@@ -40,6 +40,37 @@ async function resolveUserIds(username: string): Promise<{ uid: number; gid: num
   return result
 }
 
+async function readMasterKey(directory: string): Promise<string | undefined> {
+  try {
+    const keyData = await readFile(`${getProjectConfigDirectory(directory)}/.litellm-master-key`, 'utf8')
+    if (keyData.trim().startsWith('sk-litellm-')) return keyData.trim()
+  } catch {
+    // No key file — requests without auth will fail if master_key is set
+  }
+  return undefined
+}
+
+// ── Spend logs ────────────────────────────────────────────────────────
+
+interface LiteLLMSpendLog {
+  startTime?: string
+  prompt_tokens?: number
+  completion_tokens?: number
+  metadata?: {
+    usage_object?: {
+      prompt_tokens_details?: { cached_tokens?: number } | null
+      cache_read_input_tokens?: number
+    } | null
+  } | null
+}
+
+export interface LiteLLMUsage {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  cachedInputTokens: number
+}
+
 // ── Process Manager ───────────────────────────────────────────────────
 
 export interface LiteLLMAcquireOptions {
@@ -118,6 +149,45 @@ export class LiteLLMProcessManager {
     return null
   }
 
+  /**
+   * Sum the proxy's spend logs for requests started at or after `since`.
+   * Returns null when the proxy has no spend tracking (no database configured)
+   * or is unreachable, so callers can fall back to another usage source.
+   */
+  async getUsageSince(directory: string, url: string, since: Date): Promise<LiteLLMUsage | null> {
+    const headers: Record<string, string> = {}
+    const masterKey = await readMasterKey(directory)
+    if (masterKey) headers['Authorization'] = `Bearer ${masterKey}`
+
+    // start_date/end_date are day-granular; filter precisely on startTime below.
+    const day = (d: Date) => d.toISOString().slice(0, 10)
+    const end = new Date(Date.now() + 24 * 60 * 60 * 1000)
+    try {
+      const res = await fetch(`${url}/spend/logs?start_date=${day(since)}&end_date=${day(end)}`, {
+        method: 'GET',
+        headers,
+        signal: AbortSignal.timeout(10000),
+      })
+      if (!res.ok) return null
+      const logs = (await res.json()) as LiteLLMSpendLog[]
+      if (!Array.isArray(logs)) return null
+
+      const usage: LiteLLMUsage = { requests: 0, inputTokens: 0, outputTokens: 0, cachedInputTokens: 0 }
+      for (const log of logs) {
+        const started = log.startTime ? new Date(log.startTime).getTime() : NaN
+        if (!Number.isFinite(started) || started < since.getTime()) continue
+        const details = log.metadata?.usage_object
+        usage.requests++
+        usage.inputTokens += log.prompt_tokens ?? 0
+        usage.outputTokens += log.completion_tokens ?? 0
+        usage.cachedInputTokens += details?.prompt_tokens_details?.cached_tokens ?? details?.cache_read_input_tokens ?? 0
+      }
+      return usage
+    } catch {
+      return null
+    }
+  }
+
   async shutdown(): Promise<void> {
     console.log(`[LiteLLM] Shutting down all instances (${this.instances.size} active)`)
 
@@ -162,16 +232,7 @@ export class LiteLLMProcessManager {
     await mkdir(isolatedConfigDir, { recursive: true })
 
     // Read the master key for health-check authentication
-    let masterKey: string | undefined
-    try {
-      const keyFile = `${isolatedConfigDir}/.litellm-master-key`
-      const keyData = await readFile(keyFile, 'utf8')
-      if (keyData.trim().startsWith('sk-litellm-')) {
-        masterKey = keyData.trim()
-      }
-    } catch {
-      // No key file — health checks without auth will fail if master_key is set
-    }
+    const masterKey = await readMasterKey(directory)
 
     // Spawn LiteLLM with the generated config
     const child = spawn(litellmPath, [
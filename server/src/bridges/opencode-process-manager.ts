@@ -60,7 +60,7 @@ export interface AcquireOptions {
   language?: string
 }
 
-function getJavaHomePath(javaVersion: string | undefined): string {
+export function getJavaHomePath(javaVersion: string | undefined): string {
   // Map common version strings to installed JDK paths
   const versionMap: Record<string, string> = {
     '8': '/usr/lib/jvm/java-8-openjdk-amd64',
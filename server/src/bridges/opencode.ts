@@ -1,9 +1,10 @@
-import type { BridgeInterface, BridgeTask, BridgeResult, BridgeStreamEvent, MessagePart, TodoItem, StreamEvent } from './types.js'
+import type { BridgeInterface, BridgeTask, BridgeResult, BridgeStreamEvent, MessagePart, TodoItem, StreamEvent, TokenUsage } from './types.js'
 import { processManager } from './opencode-process-manager.js'
+import { litellmProcessManager } from './litellm-process-manager.js'
 import { AGENT_SYSTEM_PROMPT } from './system-prompt.js'
+import { sessionEventBus } from './session-event-bus.js'
 import { existsSync } from 'fs'
 import { join } from 'path'
-import { estimateTokens } from '../config/ai-models.js'
 
 // No default model override — let OpenCode use its configured default
 
@@ -48,6 +49,12 @@ interface OpenCodeMessage {
     sessionID?: string
     id?: string
     time?: { created?: number; completed?: number }
+    tokens?: {
+      input?: number
+      output?: number
+      reasoning?: number
+      cache?: { read?: number; write?: number }
+    }
     [key: string]: unknown
   }
   parts?: OpenCodePart[]
@@ -972,7 +979,10 @@ export class OpenCodeBridge implements BridgeInterface {
 
         let unsub: (() => void) | null = null
         unsub = this.subscriptionManager.subscribe(directory, opencodeSessionId, (event) => {
-          if (controller.signal.aborted || resolved) return
+          if (controller.signal.aborted) return
+          // Mirror the raw events onto the durable session stream the SSE endpoint serves
+          sessionEventBus.emit(task.sessionId, event)
+          if (resolved) return
           lastEventTime = Date.now()
 
           switch (event.type) {
@@ -1098,6 +1108,7 @@ export class OpenCodeBridge implements BridgeInterface {
       }
 
       console.log('[OpenCode] Sending prompt to session:', opencodeSessionId, 'baseline msgs:', baselineAssistantCount)
+      const promptSentAt = Date.now()
       await this.sendPromptAsync(baseUrl, opencodeSessionId, contextPrompt, task.context?.model, task.context?.maxOutputTokens)
       console.log('[OpenCode] Prompt sent successfully')
 
@@ -1132,6 +1143,7 @@ export class OpenCodeBridge implements BridgeInterface {
       // Handle timeout — return failure instead of silently succeeding
       if (timedOut) {
         this.subscriptionManager.dispatchComplete(directory, opencodeSessionId)
+        sessionEventBus.emitComplete(task.sessionId)
         const errorMsg = 'Session timed out after 30 minutes'
         onEvent({ type: 'error', content: errorMsg, timestamp: new Date().toISOString() })
         onEvent({ type: 'complete', content: 'Timed out', timestamp: new Date().toISOString() })
@@ -1263,9 +1275,10 @@ export class OpenCodeBridge implements BridgeInterface {
         parts.push({ type: 'todo-list', items: latestTodos })
       }
 
-      // Calculate token usage from actual text lengths for reconciliation
-      const inputTokens = estimateTokens(task.prompt)
-      const outputTokens = estimateTokens(outputText)
+      // Provider-reported usage for this turn (every step, tool round-trip and
+      // cached read included). Left undefined when neither source reports it,
+      // in which case the executor falls back to a text-length estimate.
+      const usage = await this.fetchTurnUsage(baseUrl, opencodeSessionId, promptSentAt, task)
 
       return {
         success: true,
@@ -1273,10 +1286,7 @@ export class OpenCodeBridge implements BridgeInterface {
         metadata: {
           opencodeSessionId,
           parts: parts.length > 0 ? parts : undefined,
-          usage: {
-            inputTokens,
-            outputTokens,
-          },
+          usage,
         },
       }
     } catch (err) {
@@ -1300,6 +1310,55 @@ export class OpenCodeBridge implements BridgeInterface {
     }
   }
 
+  /**
+   * Re-attach to a turn a server restart interrupted. Brings the project's
+   * OpenCode instance up and, if the session's reply to the turn (assistant
+   * messages created since `since`) finished, returns it as a completed
+   * result. Null when there is nothing finished to adopt.
+   */
+  async recoverTurn(task: BridgeTask, opencodeSessionId: string, since: number): Promise<BridgeResult | null> {
+    const directory = task.context?.projectDirectory ?? '.'
+    let baseUrl: string
+    try {
+      baseUrl = await processManager.acquire({
+        directory,
+        javaVersion: task.context?.javaVersion ?? '21',
+        compiler: task.context?.compiler ?? 'maven',
+      })
+    } catch (err) {
+      console.warn('[OpenCode] Could not start instance to recover session:', opencodeSessionId, err instanceof Error ? err.message : err)
+      return null
+    }
+
+    try {
+      const res = await fetch(`${baseUrl}/session/${opencodeSessionId}/message`, {
+        method: 'GET',
+        signal: AbortSignal.timeout(10000),
+      })
+      if (!res.ok) return null
+
+      const messages = (await res.json()) as OpenCodeMessage[]
+      const replies = messages.filter((m) => m.info?.role === 'assistant' && (m.info.time?.created ?? 0) >= since)
+      const last = replies[replies.length - 1]
+      // A step that ended in tool calls means the agent was still working
+      if (!last?.info?.time?.completed || last.info.finish === 'tool-calls') return null
+
+      const output = this.extractTextFromMessage(last)
+        .replace(THINKING_TAG_RE, '')
+        .replace(REASONING_TAG_RE, '')
+        .replace(DEEPSEEK_THINKING_RE, '')
+        .trim()
+      if (!output) return null
+
+      const usage = await this.fetchTurnUsage(baseUrl, opencodeSessionId, since, task)
+      return { success: true, output, metadata: { opencodeSessionId, usage } }
+    } catch {
+      return null
+    } finally {
+      processManager.release(directory).catch(() => {})
+    }
+  }
+
   async deleteSession(_opencodeSessionId: string): Promise<void> {
     // No-op: with per-project instances, sessions are cleaned up when the process stops.
     // The process manager's idle timeout handles cleanup automatically.
@@ -1401,6 +1460,59 @@ export class OpenCodeBridge implements BridgeInterface {
     }
   }
 
+  /**
+   * Token usage for the assistant messages created since `since`. Sessions
+   * routed through LiteLLM prefer the proxy's spend logs (what the upstream
+   * provider actually billed); OpenCode's own per-message token counts are
+   * used otherwise, or when the spend logs don't cover every step yet.
+   */
+  private async fetchTurnUsage(baseUrl: string, sessionId: string, since: number, task: BridgeTask): Promise<TokenUsage | undefined> {
+    let messages: OpenCodeMessage[] = []
+    try {
+      const res = await fetch(`${baseUrl}/session/${sessionId}/message`, {
+        method: 'GET',
+        signal: AbortSignal.timeout(10000),
+      })
+      if (res.ok) messages = (await res.json()) as OpenCodeMessage[]
+    } catch {
+      // Fall through to LiteLLM / estimate
+    }
+
+    const turnMessages = messages.filter((m) => m.info?.role === 'assistant' && (m.info.time?.created ?? 0) >= since)
+
+    const litellmUrl = task.context?.litellmUrl
+    const projectDir = task.context?.projectDirectory
+    if (litellmUrl && projectDir) {
+      const spend = await litellmProcessManager.getUsageSince(projectDir, litellmUrl, new Date(since))
+      // Each assistant message is one upstream request; a shorter log means
+      // LiteLLM hasn't flushed every step yet.
+      if (spend && spend.requests > 0 && spend.requests >= turnMessages.length) {
+        return {
+          inputTokens: spend.inputTokens,
+          outputTokens: spend.outputTokens,
+          cachedInputTokens: spend.cachedInputTokens,
+        }
+      }
+    }
+
+    let reported = false
+    let inputTokens = 0
+    let outputTokens = 0
+    let cachedInputTokens = 0
+    for (const m of turnMessages) {
+      const t = m.info?.tokens
+      if (!t) continue
+      reported = true
+      // OpenCode reports uncached input separately from cache reads/writes;
+      // TokenUsage.inputTokens is the total with the cached share inside it.
+      const cacheRead = t.cache?.read ?? 0
+      inputTokens += (t.input ?? 0) + cacheRead + (t.cache?.write ?? 0)
+      cachedInputTokens += cacheRead
+      outputTokens += (t.output ?? 0) + (t.reasoning ?? 0)
+    }
+    return reported && inputTokens + outputTokens > 0 ? { inputTokens, outputTokens, cachedInputTokens } : undefined
+  }
+
   private extractTextFromMessage(message: OpenCodeMessage): string {
     const textChunks: string[] = []
 
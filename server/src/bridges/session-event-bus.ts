@@ -1,3 +1,7 @@
+import { and, asc, between, eq, gt, lt } from 'drizzle-orm'
+import { db } from '../db/index.js'
+import { streamEvents } from '../db/schema/stream-events.js'
+import { onStreamNotice, publishStreamNotice, type StreamNotice } from '../utils/cluster.js'
 import type { StreamEvent } from './types.js'
 
 // ── Bridge-agnostic session event bus ────────────────────────────────
@@ -5,72 +9,164 @@ import type { StreamEvent } from './types.js'
 // Any bridge (OpenCode, Kiro, …) can emit StreamEvent events through
 // this bus, and the SSE endpoint can subscribe to them without knowing
 // which bridge produced them.
+//
+// Agent session and `assistant:<jobId>` streams are durable: every event
+// is appended to the `stream_events` table and gets a monotonically
+// increasing id before it is dispatched, so a subscriber can resume
+// from a Last-Event-ID after a reconnect or a server restart. Other
+// streams (e.g. `build:<id>`, whose log is persisted on the build row)
+// stay in a small in-memory buffer.
+//
+// With several server replicas, every event is also announced to the
+// others over Postgres NOTIFY (utils/cluster.ts), so an SSE client
+// connected to any replica sees the streams produced on all of them.
+
+/** Live dispatch; `id` is the durable event id (absent for in-memory streams). */
+type Callback = (event: StreamEvent, id?: number) => void
 
-type Callback = (event: StreamEvent) => void
+export interface SubscribeOptions {
+  /**
+   * Resume after this event id: replay everything newer, including the
+   * terminal `complete`. Without it, the current run is replayed minus
+   * `complete`, so late joiners still wait for a live terminal signal.
+   */
+  afterId?: number
+}
+
+const EPHEMERAL_PREFIXES = ['build:']
 
 const MAX_BUFFER_SIZE = 500
 const AUTO_CLEANUP_DELAY = 60_000 // 60s after last listener leaves
 
+const EVENT_RETENTION_MS = 24 * 60 * 60_000
+const PRUNE_INTERVAL_MS = 60 * 60_000
+
+/** Marks "start a new run" in a stream's write queue (see clearBuffer). */
+const CLEAR = Symbol('clear')
+
 export class SessionEventBus {
   private listeners = new Map<string, Set<Callback>>()
   private buffers = new Map<string, StreamEvent[]>()
   private cleanupTimers = new Map<string, ReturnType<typeof setTimeout>>()
+  // Durable streams: events waiting to be written, and the streams with a flush in flight
+  private pending = new Map<string, Array<StreamEvent | typeof CLEAR>>()
+  private flushing = new Set<string>()
+  // Per-stream chain of reads for events announced by other replicas, kept in order
+  private remoteReads = new Map<string, Promise<void>>()
+  private pruneTimer: ReturnType<typeof setInterval> | null = null
 
   // ── Public API ───────────────────────────────────────────────────
 
   /**
    * Subscribe to events for a given session.
-   * Any buffered (non-terminal) events are replayed immediately.
+   * Stored (or buffered) events are replayed first, then live ones follow.
    * Returns an unsubscribe function.
    */
-  subscribe(sessionId: string, callback: Callback): () => void {
+  subscribe(sessionId: string, callback: Callback, options: SubscribeOptions = {}): () => void {
     // Cancel any pending auto-cleanup for this session
     this.cancelCleanupTimer(sessionId)
 
-    let set = this.listeners.get(sessionId)
-    if (!set) {
-      set = new Set()
-      this.listeners.set(sessionId, set)
+    if (!this.isDurable(sessionId)) {
+      this.addListener(sessionId, callback)
+
+      // Replay buffered events to the new subscriber
+      const buffered = this.buffers.get(sessionId)
+      if (buffered && buffered.length > 0) {
+        for (const event of buffered) {
+          callback(event)
+        }
+      }
+
+      return () => {
+        this.removeListener(sessionId, callback)
+      }
     }
-    set.add(callback)
 
-    // Replay buffered events to the new subscriber
-    const buffered = this.buffers.get(sessionId)
-    if (buffered && buffered.length > 0) {
-      for (const event of buffered) {
-        callback(event)
+    // Listen before reading the log so nothing written meanwhile is missed;
+    // live events are held back until the replay is done, then deduplicated.
+    let replaying = true
+    let lastId = options.afterId ?? 0
+    const held: Array<[StreamEvent, number | undefined]> = []
+    const listener: Callback = (event, id) => {
+      if (replaying) {
+        held.push([event, id])
+        return
       }
+      if (id !== undefined) lastId = Math.max(lastId, id)
+      callback(event, id)
     }
+    this.addListener(sessionId, listener)
+
+    let active = true
+    this.readLog(sessionId, lastId)
+      .then((rows) => {
+        for (const row of rows) {
+          if (!active) return
+          lastId = row.id
+          if (row.event.type === 'complete' && options.afterId === undefined) continue
+          callback(row.event, row.id)
+        }
+      })
+      .catch((err) => {
+        console.warn('[SessionEventBus] Failed to replay stream:', sessionId, err)
+      })
+      .finally(() => {
+        replaying = false
+        for (const [event, id] of held) {
+          if (!active) return
+          if (id !== undefined && id <= lastId) continue
+          listener(event, id)
+        }
+        held.length = 0
+      })
 
     return () => {
-      this.removeListener(sessionId, callback)
+      active = false
+      this.removeListener(sessionId, listener)
     }
   }
 
   /**
    * Emit a StreamEvent to all current listeners for a session.
-   * Non-terminal events are buffered for late-joining subscribers.
+   * Durable streams persist it first; others buffer non-terminal events
+   * for late-joining subscribers.
    */
   emit(sessionId: string, event: StreamEvent): void {
-    // Buffer non-terminal events so late-joining listeners can catch up.
-    // 'complete' is terminal and should only be dispatched live.
-    if (event.type !== 'complete') {
-      let buffer = this.buffers.get(sessionId)
-      if (!buffer) {
-        buffer = []
-        this.buffers.set(sessionId, buffer)
-      }
-      buffer.push(event)
-      if (buffer.length > MAX_BUFFER_SIZE) {
-        buffer.splice(0, buffer.length - MAX_BUFFER_SIZE)
-      }
+    if (this.isDurable(sessionId)) {
+      this.enqueue(sessionId, event)
+      return
     }
 
-    // Dispatch to live listeners
-    const set = this.listeners.get(sessionId)
-    if (set) {
-      for (const cb of [...set]) cb(event)
+    this.bufferAndDispatch(sessionId, event)
+    publishStreamNotice({ key: sessionId, event })
+  }
+
+  /** Deliver events another replica produced to this replica's listeners. */
+  receiveRemote(notice: StreamNotice): void {
+    if ('event' in notice) {
+      this.bufferAndDispatch(notice.key, notice.event)
+      return
     }
+    // Stored events: nobody here is watching, so there is nothing to read
+    if (!this.listeners.has(notice.key)) return
+
+    const previous = this.remoteReads.get(notice.key) ?? Promise.resolve()
+    const read: Promise<void> = previous
+      .then(async () => {
+        const rows = await db
+          .select({ id: streamEvents.id, event: streamEvents.event })
+          .from(streamEvents)
+          .where(and(eq(streamEvents.streamKey, notice.key), between(streamEvents.id, notice.fromId, notice.toId)))
+          .orderBy(asc(streamEvents.id))
+        for (const row of rows) this.dispatch(notice.key, row.event, row.id)
+      })
+      .catch((err) => {
+        console.warn('[SessionEventBus] Failed to read remote events for stream:', notice.key, err)
+      })
+      .finally(() => {
+        if (this.remoteReads.get(notice.key) === read) this.remoteReads.delete(notice.key)
+      })
+    this.remoteReads.set(notice.key, read)
   }
 
   /** Convenience: emit a `complete` event for a session. */
@@ -83,8 +179,16 @@ export class SessionEventBus {
     this.emit(sessionId, { type: 'error', message })
   }
 
-  /** Clear the event buffer for a session (e.g. before a new prompt). */
+  /**
+   * Clear the event buffer for a session (e.g. before a new prompt). For
+   * durable streams the stored events are deleted, in order with writes,
+   * so events emitted after this call are kept.
+   */
   clearBuffer(sessionId: string): void {
+    if (this.isDurable(sessionId)) {
+      this.enqueue(sessionId, CLEAR)
+      return
+    }
     this.buffers.delete(sessionId)
   }
 
@@ -97,8 +201,121 @@ export class SessionEventBus {
     this.buffers.delete(sessionId)
   }
 
+  /** Drop stored events older than the retention window, hourly. */
+  startPruning(): void {
+    if (this.pruneTimer) return
+    const run = () => {
+      db.delete(streamEvents)
+        .where(lt(streamEvents.createdAt, new Date(Date.now() - EVENT_RETENTION_MS)))
+        .catch((err) => {
+          console.error('[SessionEventBus] Failed to prune stream events:', err)
+        })
+    }
+    setTimeout(run, 60_000).unref()
+    this.pruneTimer = setInterval(run, PRUNE_INTERVAL_MS)
+    this.pruneTimer.unref()
+  }
+
   // ── Internal helpers ─────────────────────────────────────────────
 
+  private isDurable(sessionId: string): boolean {
+    return !EPHEMERAL_PREFIXES.some((prefix) => sessionId.startsWith(prefix))
+  }
+
+  private bufferAndDispatch(sessionId: string, event: StreamEvent): void {
+    // Buffer non-terminal events so late-joining listeners can catch up.
+    // 'complete' is terminal and should only be dispatched live.
+    if (event.type !== 'complete') {
+      let buffer = this.buffers.get(sessionId)
+      if (!buffer) {
+        buffer = []
+        this.buffers.set(sessionId, buffer)
+      }
+      buffer.push(event)
+      if (buffer.length > MAX_BUFFER_SIZE) {
+        buffer.splice(0, buffer.length - MAX_BUFFER_SIZE)
+      }
+    }
+
+    this.dispatch(sessionId, event)
+  }
+
+  private dispatch(sessionId: string, event: StreamEvent, id?: number): void {
+    const set = this.listeners.get(sessionId)
+    if (set) {
+      for (const cb of [...set]) cb(event, id)
+    }
+  }
+
+  private addListener(sessionId: string, callback: Callback): void {
+    let set = this.listeners.get(sessionId)
+    if (!set) {
+      set = new Set()
+      this.listeners.set(sessionId, set)
+    }
+    set.add(callback)
+  }
+
+  private async readLog(sessionId: string, afterId: number) {
+    return db
+      .select({ id: streamEvents.id, event: streamEvents.event })
+      .from(streamEvents)
+      .where(and(eq(streamEvents.streamKey, sessionId), gt(streamEvents.id, afterId)))
+      .orderBy(asc(streamEvents.id))
+  }
+
+  private enqueue(sessionId: string, item: StreamEvent | typeof CLEAR): void {
+    let queue = this.pending.get(sessionId)
+    if (!queue) {
+      queue = []
+      this.pending.set(sessionId, queue)
+    }
+    queue.push(item)
+    if (!this.flushing.has(sessionId)) void this.flush(sessionId)
+  }
+
+  /**
+   * Write queued events one stream at a time, batching whatever piled up
+   * during the previous write, and dispatch each with its stored id. A
+   * failed write still dispatches live (without an id) so the stream
+   * keeps flowing; only resumability is lost.
+   */
+  private async flush(sessionId: string): Promise<void> {
+    this.flushing.add(sessionId)
+    try {
+      for (;;) {
+        const queue = this.pending.get(sessionId)
+        if (!queue || queue.length === 0) break
+        const clearAt = queue.indexOf(CLEAR)
+        const batch = queue.splice(0, clearAt === -1 ? queue.length : clearAt) as StreamEvent[]
+
+        if (batch.length === 0) {
+          queue.shift()
+          await db.delete(streamEvents).where(eq(streamEvents.streamKey, sessionId)).catch((err) => {
+            console.warn('[SessionEventBus] Failed to clear stream:', sessionId, err)
+          })
+          continue
+        }
+
+        let ids: number[] = []
+        try {
+          const rows = await db
+            .insert(streamEvents)
+            .values(batch.map((event) => ({ streamKey: sessionId, event })))
+            .returning({ id: streamEvents.id })
+          ids = rows.map((r) => r.id).sort((a, b) => a - b)
+          publishStreamNotice({ key: sessionId, fromId: ids[0], toId: ids[ids.length - 1] })
+        } catch (err) {
+          console.warn('[SessionEventBus] Failed to persist events for stream:', sessionId, err)
+        }
+        batch.forEach((event, i) => this.dispatch(sessionId, event, ids[i]))
+      }
+    } finally {
+      this.flushing.delete(sessionId)
+      if (this.pending.get(sessionId)?.length === 0) this.pending.delete(sessionId)
+    }
+  }
+
   private removeListener(sessionId: string, callback: Callback): void {
     const set = this.listeners.get(sessionId)
     if (!set) return
@@ -142,6 +359,14 @@ export class SessionEventBus {
   }
 }
 
+/** Parse a client's resume cursor (`Last-Event-ID` header or `lastEventId` query). */
+export function parseLastEventId(value: unknown): number | undefined {
+  const raw = Array.isArray(value) ? value[0] : value
+  if (typeof raw !== 'string' || !/^\d+$/.test(raw)) return undefined
+  return Number(raw)
+}
+
 // ── Singleton ────────────────────────────────────────────────────────
 
 export const sessionEventBus = new SessionEventBus()
+onStreamNotice((notice) => sessionEventBus.receiveRemote(notice))
@@ -78,6 +78,7 @@ export type StreamEvent =
   | { type: 'todo'; items: StreamTodoItem[] }
   | { type: 'status'; status: 'running' | 'idle' | 'error'; message?: string }
   | { type: 'file-change'; file: string }
+  | { type: 'build-log'; stream: 'stdout' | 'stderr'; content: string }
   | { type: 'error'; message: string }
   | { type: 'complete' }
 
@@ -13,11 +13,22 @@ import * as projectLikes from './schema/project-likes.js'
 import * as projectViews from './schema/project-views.js'
 import * as assistantJobs from './schema/assistant-jobs.js'
 import * as assistantMemory from './schema/assistant-memory.js'
+import * as builds from './schema/builds.js'
+import * as streamEvents from './schema/stream-events.js'
+import * as clusterNodes from './schema/cluster-nodes.js'
+import * as projectMembers from './schema/project-members.js'
+import * as collabDocuments from './schema/collab-documents.js'
+import * as terminalSessions from './schema/terminal-sessions.js'
+import * as pullRequests from './schema/pull-requests.js'
+import * as authTokens from './schema/auth-tokens.js'
+import * as recoveryCodes from './schema/recovery-codes.js'
+import * as personalAccessTokens from './schema/personal-access-tokens.js'
 
-const client = postgres(env.DATABASE_URL)
+// Exported for LISTEN/NOTIFY (utils/cluster.ts); queries go through `db`.
+export const client = postgres(env.DATABASE_URL)
 
 export const db = drizzle(client, {
-  schema: { ...users, ...sessions, ...projects, ...agentSessions, ...agentMessages, ...agentLogs, ...codeReviews, ...providerApiKeys, ...projectLikes, ...projectViews, ...assistantJobs, ...assistantMemory },
+  schema: { ...users, ...sessions, ...projects, ...agentSessions, ...agentMessages, ...agentLogs, ...codeReviews, ...providerApiKeys, ...projectLikes, ...projectViews, ...assistantJobs, ...assistantMemory, ...builds, ...streamEvents, ...clusterNodes, ...projectMembers, ...collabDocuments, ...terminalSessions, ...pullRequests, ...authTokens, ...recoveryCodes, ...personalAccessTokens },
 })
 
 export type Database = typeof db
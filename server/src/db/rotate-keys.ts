@@ -0,0 +1,16 @@
+import 'dotenv/config'
+import { rewrapStoredSecrets } from '../utils/secret-rotation.js'
+
+// Encrypt legacy plaintext secrets and re-wrap everything under the first
+// ENCRYPTION_KEYS entry. The server also does this on boot.
+async function rotateKeys() {
+  console.log('Re-wrapping stored secrets...')
+  const result = await rewrapStoredSecrets()
+  console.log(`Updated ${result.githubTokens} GitHub token(s), ${result.providerKeys} provider key(s) and ${result.totpSecrets} two-factor secret(s)`)
+  process.exit(0)
+}
+
+rotateKeys().catch((err) => {
+  console.error('Key rotation failed:', err)
+  process.exit(1)
+})
@@ -1,6 +1,14 @@
-import { pgTable, uuid, text, jsonb, pgEnum, timestamp, index } from 'drizzle-orm/pg-core'
+import { pgTable, uuid, text, jsonb, pgEnum, timestamp, index, varchar } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
 import { agentSessions } from './agent-sessions'
 
+export interface QueuedSendOptions {
+  model?: string
+  speed?: 'fast' | 'slow' | 'rate_limited'
+  bridge?: 'opencode' | 'kiro'
+  userId?: string // who sent it (and pays for the turn) — may be a collaborator
+}
+
 export const messageRoleEnum = pgEnum('message_role', ['user', 'agent', 'system'])
 
 export const agentMessages = pgTable('agent_messages', {
@@ -9,9 +17,20 @@ export const agentMessages = pgTable('agent_messages', {
   role: messageRoleEnum('role').notNull(),
   content: text('content').notNull(),
   metadata: jsonb('metadata'),
+  // User messages only: workspace snapshots (commits on hidden refs in the
+  // project's git repo) taken right before and after the agent turn ran.
+  checkpointBefore: varchar('checkpoint_before', { length: 40 }),
+  checkpointAfter: varchar('checkpoint_after', { length: 40 }),
+  // User messages sent while the agent was busy wait as 'queued' (null once
+  // sent), together with the model/speed/bridge they were sent with.
+  queueStatus: varchar('queue_status', { length: 16 }),
+  queuedOptions: jsonb('queued_options').$type<QueuedSendOptions>(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => [
   index('agent_messages_session_id_idx').on(table.sessionId),
+  index('agent_messages_queued_idx')
+    .on(table.sessionId, table.createdAt)
+    .where(sql`${table.queueStatus} IS NOT NULL`),
 ])
 
 export type AgentMessage = typeof agentMessages.$inferSelect
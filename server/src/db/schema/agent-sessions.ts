@@ -10,6 +10,14 @@ export const agentSessions = pgTable('agent_sessions', {
   opencodeSessionId: varchar('opencode_session_id', { length: 255 }),
   bridge: varchar('bridge', { length: 32 }).default('opencode').notNull(),
   kiroSessionId: varchar('kiro_session_id', { length: 255 }),
+  // 'staged': the bridge works in a scratch copy and edits are reviewed before
+  // they reach the project directory (see utils/staging-service.ts).
+  mode: varchar('mode', { length: 16 }).default('direct').notNull(),
+  // The server replica running the current turn (cancel/answer are routed
+  // there), and the model of the last OpenCode turn — a model change starts
+  // a fresh OpenCode session.
+  ownerNode: varchar('owner_node', { length: 64 }),
+  lastModel: varchar('last_model', { length: 100 }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => [
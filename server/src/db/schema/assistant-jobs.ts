@@ -27,6 +27,7 @@ export const assistantJobs = pgTable(
     estimatedTokens: bigint('estimated_tokens', { mode: 'number' }).default(0),
     inputTokens: bigint('input_tokens', { mode: 'number' }).default(0),
     outputTokens: bigint('output_tokens', { mode: 'number' }).default(0),
+    ownerNode: varchar('owner_node', { length: 64 }), // replica running the job (stop is routed there)
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
     completedAt: timestamp('completed_at', { withTimezone: true }),
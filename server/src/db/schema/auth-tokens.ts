@@ -0,0 +1,19 @@
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core'
+import { users } from './users'
+
+// Single-use tokens mailed to the user (password reset, email verification).
+// Only a SHA-256 of the token is stored; the token itself exists in the email.
+export const authTokens = pgTable('auth_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  // password_reset | email_verification
+  purpose: varchar('purpose', { length: 32 }).notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).unique().notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('auth_tokens_user_purpose_idx').on(table.userId, table.purpose),
+])
+
+export type AuthToken = typeof authTokens.$inferSelect
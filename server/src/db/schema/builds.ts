@@ -0,0 +1,58 @@
+import { sql } from 'drizzle-orm'
+import { pgTable, uuid, varchar, jsonb, text, timestamp, integer, index, uniqueIndex } from 'drizzle-orm/pg-core'
+import { projects } from './projects.js'
+import { users } from './users.js'
+
+export interface BuildArtifact {
+  tool: 'maven' | 'gradle'
+  name: string
+  /** Path relative to the project workspace, e.g. `target/my-plugin-1.0.jar`. */
+  path: string
+  size: number
+}
+
+export interface BuildDiagnostic {
+  /** Path relative to the project workspace. */
+  file: string
+  line: number
+  column: number | null
+  severity: 'error' | 'warning'
+  message: string
+  source: 'javac' | 'kotlinc' | 'maven' | 'gradle'
+}
+
+/**
+ * One row per server-side build run (POST /api/projects/:id/builds).
+ *
+ * tool:   maven | gradle | both (both runs Maven then Gradle in the same run)
+ * status: running | success | failed | cancelled
+ */
+export const builds = pgTable(
+  'builds',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    projectId: uuid('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    tool: varchar('tool', { length: 16 }).notNull(),
+    status: varchar('status', { length: 16 }).notNull().default('running'),
+    exitCode: integer('exit_code'),
+    durationMs: integer('duration_ms'),
+    log: text('log').default('').notNull(),
+    artifacts: jsonb('artifacts').$type<BuildArtifact[]>().default([]).notNull(),
+    diagnostics: jsonb('diagnostics').$type<BuildDiagnostic[]>().default([]).notNull(),
+    error: text('error'),
+    ownerNode: varchar('owner_node', { length: 64 }), // replica running the build (cancel is routed there)
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+  },
+  (t) => ({
+    projectIdx: index('builds_project_idx').on(t.projectId, t.createdAt),
+    // At most one running build per project, even under concurrent starts
+    runningIdx: uniqueIndex('builds_one_running_idx')
+      .on(t.projectId)
+      .where(sql`${t.status} = 'running'`),
+  }),
+)
+
+export type Build = typeof builds.$inferSelect
+export type NewBuild = typeof builds.$inferInsert
@@ -0,0 +1,12 @@
+import { pgTable, varchar, timestamp } from 'drizzle-orm/pg-core'
+
+// One row per server replica, refreshed by its heartbeat (see utils/cluster.ts).
+// A node whose last_seen_at is stale is treated as gone: the sessions and
+// jobs it owned are recovered by the survivors.
+export const clusterNodes = pgTable('cluster_nodes', {
+  nodeId: varchar('node_id', { length: 64 }).primaryKey(),
+  startedAt: timestamp('started_at', { withTimezone: true }).defaultNow().notNull(),
+  lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).defaultNow().notNull(),
+})
+
+export type ClusterNode = typeof clusterNodes.$inferSelect
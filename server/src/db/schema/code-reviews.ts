@@ -9,6 +9,7 @@ export const codeReviews = pgTable('code_reviews', {
   scope: varchar('scope', { length: 50 }).notNull(), // 'full', 'uncommitted', 'recent'
   status: varchar('status', { length: 50 }).notNull().default('pending'), // 'pending', 'passed', 'failed', 'fixed', 'pushed', 'ignored'
   issuesJson: jsonb('issues_json'),
+  ownerNode: varchar('owner_node', { length: 64 }), // replica running a pending review
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   resolvedAt: timestamp('resolved_at', { withTimezone: true }),
 })
@@ -0,0 +1,17 @@
+import { pgTable, uuid, text, varchar, timestamp, primaryKey } from 'drizzle-orm/pg-core'
+import { projects } from './projects'
+
+// Which replica writes an open collaborative document back to disk (and merges
+// outside changes into it). Every replica holding the document keeps its own
+// Yjs copy; the writer holds a short lease it renews while the file stays open.
+// See utils/collab-service.ts.
+export const collabDocuments = pgTable('collab_documents', {
+  projectId: uuid('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  path: text('path').notNull(),
+  writerNode: varchar('writer_node', { length: 64 }).notNull(),
+  leaseUntil: timestamp('lease_until', { withTimezone: true }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.projectId, table.path] }),
+])
+
+export type CollabDocument = typeof collabDocuments.$inferSelect
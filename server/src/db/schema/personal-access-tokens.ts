@@ -0,0 +1,32 @@
+import { pgTable, uuid, varchar, timestamp, jsonb, index } from 'drizzle-orm/pg-core'
+import { users } from './users'
+
+// What a token may do; `:write` includes `:read` of the same area (utils/access-tokens.ts)
+export type TokenScope =
+  | 'projects:read'
+  | 'projects:write'
+  | 'agent:read'
+  | 'agent:write'
+  | 'builds:read'
+  | 'builds:write'
+
+// Personal access tokens for scripting the API (CI, terminals). Sent as
+// `Authorization: Bearer <token>`; only a SHA-256 of the token is stored.
+export const personalAccessTokens = pgTable('personal_access_tokens', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).unique().notNull(),
+  // First characters of the token, so it can be recognised in the list
+  tokenPrefix: varchar('token_prefix', { length: 16 }).notNull(),
+  scopes: jsonb('scopes').$type<TokenScope[]>().notNull(),
+  // Null = never expires
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  lastUsedIp: varchar('last_used_ip', { length: 64 }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('personal_access_tokens_user_id_idx').on(table.userId),
+])
+
+export type PersonalAccessToken = typeof personalAccessTokens.$inferSelect
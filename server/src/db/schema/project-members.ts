@@ -0,0 +1,32 @@
+import { pgTable, uuid, varchar, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core'
+import { users } from './users'
+import { projects } from './projects'
+
+// Collaborators on a project. The owner is projects.user_id and has no row
+// here; members are 'editor' (can change the workspace and run the agent) or
+// 'viewer' (read-only). See utils/project-access.ts.
+export const projectMembers = pgTable('project_members', {
+  projectId: uuid('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: varchar('role', { length: 16 }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('project_members_project_user_idx').on(table.projectId, table.userId),
+  index('project_members_user_idx').on(table.userId),
+])
+
+// Pending invitations. Accepting one turns it into a project_members row.
+export const projectInvitations = pgTable('project_invitations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  invitedUserId: uuid('invited_user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  invitedBy: uuid('invited_by').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  role: varchar('role', { length: 16 }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('project_invitations_project_user_idx').on(table.projectId, table.invitedUserId),
+  index('project_invitations_invited_user_idx').on(table.invitedUserId),
+])
+
+export type ProjectMember = typeof projectMembers.$inferSelect
+export type ProjectInvitation = typeof projectInvitations.$inferSelect
@@ -1,4 +1,5 @@
-import { pgTable, uuid, varchar, boolean, timestamp, text, bigint } from 'drizzle-orm/pg-core'
+import { pgTable, uuid, varchar, boolean, timestamp, text, bigint, uniqueIndex } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
 import { users } from './users.js'
 import { agentSessions } from './agent-sessions.js'
 
@@ -6,7 +7,10 @@ export const providerApiKeys = pgTable('provider_api_keys', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').notNull().references(() => users.id),
   provider: varchar('provider', { length: 50 }).notNull(),
+  /** Envelope-encrypted (utils/envelope-encryption.ts); decrypt only where the key is used */
   apiKey: text('api_key').notNull(),
+  /** Masked form for display, so listing keys never decrypts them */
+  apiKeyHint: varchar('api_key_hint', { length: 32 }),
   isActive: boolean('is_active').default(true),
   createdBy: uuid('created_by').references(() => users.id),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
@@ -16,15 +20,59 @@ export const providerApiKeys = pgTable('provider_api_keys', {
 export type ProviderApiKey = typeof providerApiKeys.$inferSelect
 export type NewProviderApiKey = typeof providerApiKeys.$inferInsert
 
-export const tokenTransactions = pgTable('token_transactions', {
-  id: uuid('id').primaryKey().defaultRandom(),
-  userId: uuid('user_id').notNull().references(() => users.id),
-  amount: bigint('amount', { mode: 'number' }).notNull(),
-  type: varchar('type', { length: 20 }).notNull(),
-  description: text('description'),
-  sessionId: uuid('session_id').references(() => agentSessions.id, { onDelete: 'set null' }),
-  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
-})
+/**
+ * Append-only token ledger. Every change to `users.ai_tokens` writes exactly one
+ * row here in the same transaction (see utils/token-service.ts), so the sum of
+ * `amount` per user always equals their balance.
+ *
+ * type: grant | deduct | refund | adjustment
+ */
+export const tokenTransactions = pgTable(
+  'token_transactions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').notNull().references(() => users.id),
+    amount: bigint('amount', { mode: 'number' }).notNull(),
+    type: varchar('type', { length: 20 }).notNull(),
+    description: text('description'),
+    sessionId: uuid('session_id').references(() => agentSessions.id, { onDelete: 'set null' }),
+    /** Caller-supplied key; a retried charge/refund with the same key is applied once. */
+    idempotencyKey: varchar('idempotency_key', { length: 160 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  },
+  (t) => ({
+    idempotencyIdx: uniqueIndex('token_transactions_idempotency_idx')
+      .on(t.userId, t.idempotencyKey)
+      .where(sql`${t.idempotencyKey} IS NOT NULL`),
+  }),
+)
 
 export type TokenTransaction = typeof tokenTransactions.$inferSelect
 export type NewTokenTransaction = typeof tokenTransactions.$inferInsert
+
+/**
+ * Balances that disagree with the ledger, found by the periodic consistency
+ * check. At most one open (unresolved) row per user.
+ */
+export const tokenLedgerDrift = pgTable(
+  'token_ledger_drift',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    balance: bigint('balance', { mode: 'number' }).notNull(),
+    ledgerBalance: bigint('ledger_balance', { mode: 'number' }).notNull(),
+    drift: bigint('drift', { mode: 'number' }).notNull(),
+    detectedAt: timestamp('detected_at', { withTimezone: true }).defaultNow().notNull(),
+    lastCheckedAt: timestamp('last_checked_at', { withTimezone: true }).defaultNow().notNull(),
+    resolvedAt: timestamp('resolved_at', { withTimezone: true }),
+    resolvedBy: uuid('resolved_by').references(() => users.id, { onDelete: 'set null' }),
+    resolution: varchar('resolution', { length: 20 }),
+  },
+  (t) => ({
+    openIdx: uniqueIndex('token_ledger_drift_open_idx')
+      .on(t.userId)
+      .where(sql`${t.resolvedAt} IS NULL`),
+  }),
+)
+
+export type TokenLedgerDrift = typeof tokenLedgerDrift.$inferSelect
@@ -0,0 +1,27 @@
+import { pgTable, uuid, varchar, text, integer, boolean, timestamp, index } from 'drizzle-orm/pg-core'
+import { users } from './users'
+import { projects } from './projects'
+
+// Pull requests opened from the workspace. GitHub is the source of truth; the
+// state here is the last one seen and is refreshed when the list is read.
+export const pullRequests = pgTable('pull_requests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+  // owner/name on GitHub
+  repo: varchar('repo', { length: 255 }).notNull(),
+  number: integer('number').notNull(),
+  url: text('url').notNull(),
+  title: text('title').notNull(),
+  headBranch: varchar('head_branch', { length: 255 }).notNull(),
+  baseBranch: varchar('base_branch', { length: 255 }).notNull(),
+  // open | closed | merged
+  state: varchar('state', { length: 16 }).notNull().default('open'),
+  draft: boolean('draft').notNull().default(false),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('pull_requests_project_created_idx').on(table.projectId, table.createdAt),
+])
+
+export type PullRequest = typeof pullRequests.$inferSelect
@@ -0,0 +1,16 @@
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core'
+import { users } from './users'
+
+// One-time codes that stand in for a TOTP code when the authenticator is lost.
+// Only a SHA-256 of each code is stored; the codes are shown once, at generation.
+export const recoveryCodes = pgTable('recovery_codes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  codeHash: varchar('code_hash', { length: 64 }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('recovery_codes_user_id_idx').on(table.userId),
+])
+
+export type RecoveryCode = typeof recoveryCodes.$inferSelect
@@ -6,6 +6,10 @@ export const sessions = pgTable('sessions', {
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   token: varchar('token', { length: 255 }).unique().notNull(),
   expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  // Where the session was signed in from, shown on the Security page
+  userAgent: varchar('user_agent', { length: 512 }),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).defaultNow().notNull(),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 }, (table) => [
   index('sessions_token_idx').on(table.token),
@@ -0,0 +1,18 @@
+import { pgTable, bigserial, varchar, jsonb, timestamp, index } from 'drizzle-orm/pg-core'
+import type { StreamEvent } from '../../bridges/types'
+
+// Append-only log of live stream events (agent sessions and `assistant:<jobId>`
+// jobs), so SSE clients can resume with Last-Event-ID across reconnects and
+// server restarts. Rows are dropped when a stream starts a new run and pruned
+// once they age out.
+export const streamEvents = pgTable('stream_events', {
+  id: bigserial('id', { mode: 'number' }).primaryKey(),
+  streamKey: varchar('stream_key', { length: 80 }).notNull(),
+  event: jsonb('event').$type<StreamEvent>().notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('stream_events_stream_key_id_idx').on(table.streamKey, table.id),
+  index('stream_events_created_at_idx').on(table.createdAt),
+])
+
+export type StreamEventRow = typeof streamEvents.$inferSelect
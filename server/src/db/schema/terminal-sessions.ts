@@ -0,0 +1,39 @@
+import { pgTable, uuid, varchar, text, integer, timestamp, index } from 'drizzle-orm/pg-core'
+import { users } from './users'
+import { projects } from './projects'
+
+// Open workspace terminals, one row per WebSocket. Used to enforce the
+// per-user session cap across replicas; rows of dead replicas are ignored.
+// See utils/terminal-service.ts.
+export const terminalSessions = pgTable('terminal_sessions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  ownerNode: varchar('owner_node', { length: 64 }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index('terminal_sessions_user_idx').on(table.userId),
+])
+
+// Audit trail: every command line run in a workspace terminal. Kept when the
+// user is deleted (username is a snapshot), so the owner still sees who did what.
+export const terminalCommands = pgTable('terminal_commands', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  projectId: uuid('project_id').notNull().references(() => projects.id, { onDelete: 'cascade' }),
+  terminalId: uuid('terminal_id').notNull(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+  username: varchar('username', { length: 255 }).notNull(),
+  command: text('command').notNull(),
+  // Relative to the project root ('' for the root itself)
+  cwd: text('cwd').notNull(),
+  // running | completed | killed | timeout | interrupted
+  status: varchar('status', { length: 16 }).notNull(),
+  exitCode: integer('exit_code'),
+  startedAt: timestamp('started_at', { withTimezone: true }).defaultNow().notNull(),
+  finishedAt: timestamp('finished_at', { withTimezone: true }),
+}, (table) => [
+  index('terminal_commands_project_started_idx').on(table.projectId, table.startedAt),
+])
+
+export type TerminalSession = typeof terminalSessions.$inferSelect
+export type TerminalCommand = typeof terminalCommands.$inferSelect
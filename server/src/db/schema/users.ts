@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, pgEnum, timestamp, text, boolean, bigint } from 'drizzle-orm/pg-core'
+import { pgTable, uuid, varchar, pgEnum, timestamp, text, boolean, bigint, integer } from 'drizzle-orm/pg-core'
 
 export const roleEnum = pgEnum('user_role', ['user', 'admin'])
 export const tierEnum = pgEnum('user_tier', ['free', 'paid'])
@@ -8,10 +8,18 @@ export const users = pgTable('users', {
   username: varchar('username', { length: 32 }).unique().notNull(),
   email: varchar('email', { length: 255 }).unique().notNull(),
   passwordHash: varchar('password_hash', { length: 255 }).notNull(),
+  // Null until the emailed verification link is followed; paid features wait for it
+  emailVerifiedAt: timestamp('email_verified_at', { withTimezone: true }),
+  /** Envelope-encrypted base32 TOTP secret; set during setup, active once totpEnabledAt is set */
+  totpSecret: text('totp_secret'),
+  totpEnabledAt: timestamp('totp_enabled_at', { withTimezone: true }),
+  // Time step of the last accepted code, so a code can't be used twice
+  totpLastStep: integer('totp_last_step'),
   role: roleEnum('role').default('user').notNull(),
   tier: tierEnum('tier').default('free').notNull(),
   aiTokens: bigint('ai_tokens', { mode: 'number' }).default(0),
   tokensUsed: bigint('tokens_used', { mode: 'number' }).default(0),
+  /** Envelope-encrypted (utils/envelope-encryption.ts) */
   githubAccessToken: text('github_access_token'),
   githubUsername: varchar('github_username', { length: 255 }),
   githubConnectedAt: timestamp('github_connected_at', { withTimezone: true }),
@@ -33,6 +33,7 @@ async function seed() {
       email: 'admin@auroracraft.dev',
       passwordHash,
       role: 'admin',
+      emailVerifiedAt: new Date(),
     })
     console.log('Admin user created (username: admin, password: admin123)')
 
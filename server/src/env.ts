@@ -16,9 +16,27 @@ const envSchema = z.object({
   LITELLM_PORT_MIN: z.coerce.number().default(8000),
   LITELLM_PORT_MAX: z.coerce.number().default(8999),
   LITELLM_IDLE_TIMEOUT: z.coerce.number().default(120000),
+  LSP_IDLE_TIMEOUT: z.coerce.number().default(300000),
   GITHUB_CLIENT_ID: z.string().optional(),
   GITHUB_CLIENT_SECRET: z.string().optional(),
   GITHUB_CALLBACK_URL: z.string().url().optional(),
+  // REST API base; point at a local mock server for testing
+  GITHUB_API_URL: z.string().url().default('https://api.github.com'),
+  // Master keys for secrets at rest: "id:base64(32 bytes)" list, first one encrypts.
+  // Rotate by prepending a new key; drop the old one after the re-wrap pass
+  ENCRYPTION_KEYS: z.string().optional(),
+  // Outgoing mail. "log" prints messages to the server log instead of sending;
+  // the default is smtp when SMTP_HOST is set, log otherwise
+  MAIL_TRANSPORT: z.enum(['smtp', 'log']).optional(),
+  MAIL_FROM: z.string().default('AuroraCraft <no-reply@auroracraft.local>'),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().default(587),
+  // none for local catchers like MailHog (port 1025), tls for implicit TLS (465)
+  SMTP_TLS: z.enum(['none', 'starttls', 'tls']).default('starttls'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  // Identifies this replica when several servers share the database; defaults to the hostname
+  NODE_ID: z.string().min(1).max(64).optional(),
 })
 
 export const env = envSchema.parse(process.env)
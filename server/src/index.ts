@@ -5,11 +5,21 @@ import path from 'path'
 import { fileURLToPath } from 'url'
 import { env } from './env.js'
 import { processManager } from './bridges/opencode-process-manager.js'
+import { languageServers } from './bridges/language-server-manager.js'
 import { initializeSharedCaches } from './utils/shared-cache.js'
+import { startLedgerConsistencyCheck } from './utils/token-service.js'
+import { sessionEventBus } from './bridges/session-event-bus.js'
+import { recoverInterruptedWork, startOrphanRecovery } from './utils/recovery-service.js'
+import { startCluster, stopCluster } from './utils/cluster.js'
+import { collabService } from './utils/collab-service.js'
+import { closeAllTerminals } from './utils/terminal-service.js'
+import { rewrapStoredSecrets } from './utils/secret-rotation.js'
 import corsPlugin from './plugins/cors.js'
 import cookiePlugin from './plugins/cookie.js'
 import websocketPlugin from './plugins/websocket.js'
 import { authRoutes } from './routes/auth.js'
+import { securityRoutes } from './routes/security.js'
+import { accessTokenRoutes } from './routes/access-tokens.js'
 import { healthRoutes } from './routes/health.js'
 import { projectRoutes } from './routes/projects.js'
 import { agentRoutes } from './routes/agents.js'
@@ -19,8 +29,21 @@ import { githubRoutes } from './routes/github.js'
 import coderabbitRoutes from './routes/coderabbit.js'
 import { graphifyRoutes } from './routes/graphify.js'
 import { assistantRoutes } from './routes/assistant.js'
+import { buildRoutes } from './routes/builds.js'
+import { checkpointRoutes } from './routes/checkpoints.js'
+import { stagedChangesRoutes } from './routes/staged-changes.js'
+import { projectMemberRoutes } from './routes/project-members.js'
+import { collabRoutes } from './routes/collab.js'
+import { terminalRoutes } from './routes/terminal.js'
+import { lspRoutes } from './routes/lsp.js'
+import { searchRoutes } from './routes/search.js'
+import { gitHistoryRoutes } from './routes/git-history.js'
+import { gitSyncRoutes } from './routes/git-sync.js'
+import { pullRequestRoutes } from './routes/pull-requests.js'
+import { syncRoutes } from './routes/sync.js'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const bootedAt = new Date()
 
 const app = Fastify({
   logger: {
@@ -41,6 +64,8 @@ await app.register(fastifyMultipart, { limits: { fileSize: 50 * 1024 * 1024 } })
 
 // Routes
 await app.register(authRoutes)
+await app.register(securityRoutes)
+await app.register(accessTokenRoutes)
 await app.register(healthRoutes)
 await app.register(projectRoutes)
 await app.register(agentRoutes)
@@ -50,6 +75,18 @@ await app.register(githubRoutes)
 await app.register(coderabbitRoutes)
 await app.register(graphifyRoutes)
 await app.register(assistantRoutes)
+await app.register(buildRoutes)
+await app.register(checkpointRoutes)
+await app.register(stagedChangesRoutes)
+await app.register(projectMemberRoutes)
+await app.register(collabRoutes)
+await app.register(terminalRoutes)
+await app.register(lspRoutes)
+await app.register(searchRoutes)
+await app.register(gitHistoryRoutes)
+await app.register(gitSyncRoutes)
+await app.register(pullRequestRoutes)
+await app.register(syncRoutes)
 
 // Serve built client in production
 const clientDist = path.resolve(__dirname, '../../client/dist')
@@ -70,12 +107,33 @@ app.setNotFoundHandler(async (request, reply) => {
 // Graceful shutdown: stop all OpenCode instances
 app.addHook('onClose', async () => {
   await processManager.shutdown()
+  await languageServers.shutdown()
+  // Save open collaborative documents before leaving the cluster
+  await collabService.shutdown()
+  await closeAllTerminals()
+  await stopCluster()
 })
 
 // Start
 try {
+  // Join the cluster first so this node owns nothing before others can see it's alive
+  await startCluster()
   await app.listen({ port: env.PORT, host: env.HOST })
   console.log(`Server running at http://${env.HOST}:${env.PORT}`)
+  startLedgerConsistencyCheck()
+  sessionEventBus.startPruning()
+  collabService.start()
+  // Settle sessions, Assistant jobs and reviews the previous process left in
+  // flight, then keep sweeping for work left by replicas that die later
+  recoverInterruptedWork(bootedAt)
+    .then((r) => app.log.info(r, 'Crash recovery finished'))
+    .catch((err) => app.log.error({ err }, 'Crash recovery failed'))
+    .finally(() => startOrphanRecovery(bootedAt))
+  // Encrypt secrets stored before encryption existed and move ones under a
+  // retired master key onto the active one
+  rewrapStoredSecrets()
+    .then((r) => app.log.info(r, 'Stored secrets re-wrapped'))
+    .catch((err) => app.log.error({ err }, 'Re-wrapping stored secrets failed'))
 } catch (err) {
   app.log.error(err)
   process.exit(1)
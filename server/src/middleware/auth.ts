@@ -3,11 +3,92 @@ import { eq, and, gt } from 'drizzle-orm'
 import { db } from '../db/index.js'
 import { sessions } from '../db/schema/sessions.js'
 import { users } from '../db/schema/users.js'
+import { effectiveTier } from '../utils/token-service.js'
+import { resolveAccessToken, requiredScope, scopeGranted, touchAccessToken } from '../utils/access-tokens.js'
+
+type UserRow = Omit<NonNullable<FastifyRequest['user']>, 'emailVerified'> & { emailVerifiedAt: Date | null }
+
+// `tier` is what the user can use right now: paid features wait for a verified email
+function toRequestUser({ emailVerifiedAt, ...user }: UserRow): NonNullable<FastifyRequest['user']> {
+  return { ...user, tier: effectiveTier(user.tier, emailVerifiedAt), emailVerified: !!emailVerifiedAt }
+}
+
+// last_seen_at is only rewritten when it is at least this stale, not on every request
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000
+
+function touchSession(session: { id: string; lastSeenAt: Date }) {
+  if (Date.now() - session.lastSeenAt.getTime() < LAST_SEEN_RESOLUTION_MS) return
+  db.update(sessions).set({ lastSeenAt: new Date() }).where(eq(sessions.id, session.id)).catch(() => {})
+}
+
+async function findRequestUser(userId: string): Promise<NonNullable<FastifyRequest['user']> | null> {
+  const [user] = await db
+    .select({
+      id: users.id,
+      username: users.username,
+      email: users.email,
+      role: users.role,
+      tier: users.tier,
+      emailVerifiedAt: users.emailVerifiedAt,
+      createdAt: users.createdAt,
+      updatedAt: users.updatedAt,
+    })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1)
+  return user ? toRequestUser(user) : null
+}
+
+// `Authorization: Bearer <personal access token>`, for scripts and CI
+function bearerToken(request: FastifyRequest): string | null {
+  const header = request.headers.authorization
+  if (!header?.startsWith('Bearer ')) return null
+  return header.slice('Bearer '.length).trim() || null
+}
+
+/**
+ * Authenticate with a personal access token. Sets request.user when the token
+ * is valid and its scopes cover the route; otherwise returns the error to send.
+ */
+async function authenticateAccessToken(
+  request: FastifyRequest,
+  token: string,
+): Promise<{ statusCode: number; message: string } | null> {
+  const accessToken = await resolveAccessToken(token)
+  if (!accessToken) {
+    return { statusCode: 401, message: 'Invalid or expired access token' }
+  }
+
+  const scope = requiredScope(request.method, request.routeOptions.url)
+  if (!scope) {
+    return { statusCode: 403, message: 'This endpoint cannot be used with an access token' }
+  }
+  if (!scopeGranted(accessToken.scopes, scope)) {
+    return { statusCode: 403, message: `This access token is missing the ${scope} scope` }
+  }
+
+  const user = await findRequestUser(accessToken.userId)
+  if (!user) {
+    return { statusCode: 401, message: 'User not found' }
+  }
+
+  request.user = user
+  request.accessTokenId = accessToken.id
+  touchAccessToken(accessToken, request.ip)
+  return null
+}
 
 export async function authMiddleware(
   request: FastifyRequest,
   reply: FastifyReply,
 ): Promise<void> {
+  const bearer = bearerToken(request)
+  if (bearer) {
+    const error = await authenticateAccessToken(request, bearer)
+    if (error) reply.status(error.statusCode).send(error)
+    return
+  }
+
   const token = request.cookies.session
 
   if (!token) {
@@ -32,31 +113,27 @@ export async function authMiddleware(
     return
   }
 
-  const [user] = await db
-    .select({
-      id: users.id,
-      username: users.username,
-      email: users.email,
-      role: users.role,
-      tier: users.tier,
-      createdAt: users.createdAt,
-      updatedAt: users.updatedAt,
-    })
-    .from(users)
-    .where(eq(users.id, session.userId))
-    .limit(1)
-
+  const user = await findRequestUser(session.userId)
   if (!user) {
     reply.status(401).send({ message: 'User not found', statusCode: 401 })
     return
   }
 
   request.user = user
+  request.sessionId = session.id
+  touchSession(session)
 }
 
 export async function optionalAuthMiddleware(
   request: FastifyRequest,
 ): Promise<void> {
+  // A token that doesn't authenticate leaves the request anonymous
+  const bearer = bearerToken(request)
+  if (bearer) {
+    await authenticateAccessToken(request, bearer)
+    return
+  }
+
   const token = request.cookies.session
 
   if (!token) {
@@ -78,22 +155,11 @@ export async function optionalAuthMiddleware(
     return
   }
 
-  const [user] = await db
-    .select({
-      id: users.id,
-      username: users.username,
-      email: users.email,
-      role: users.role,
-      tier: users.tier,
-      createdAt: users.createdAt,
-      updatedAt: users.updatedAt,
-    })
-    .from(users)
-    .where(eq(users.id, session.userId))
-    .limit(1)
-
+  const user = await findRequestUser(session.userId)
   if (user) {
     request.user = user
+    request.sessionId = session.id
+    touchSession(session)
   }
 }
 
@@ -118,8 +184,13 @@ declare module 'fastify' {
       email: string
       role: 'user' | 'admin'
       tier: 'free' | 'paid' | null
+      emailVerified: boolean
       createdAt: Date
       updatedAt: Date
     }
+    /** The sessions row behind the request's cookie */
+    sessionId?: string
+    /** The personal access token the request authenticated with, instead of a cookie */
+    accessTokenId?: string
   }
 }
@@ -0,0 +1,100 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { and, count, desc, eq } from 'drizzle-orm'
+import { db } from '../db/index.js'
+import { personalAccessTokens } from '../db/schema/personal-access-tokens.js'
+import { authMiddleware } from '../middleware/auth.js'
+import { createAccessToken, TOKEN_SCOPES, MAX_TOKENS_PER_USER, type TokenScope } from '../utils/access-tokens.js'
+
+const scopeIds = Object.keys(TOKEN_SCOPES) as [TokenScope, ...TokenScope[]]
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(scopeIds)).min(1, 'Pick at least one scope'),
+  // Null = never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+})
+
+const tokenColumns = {
+  id: personalAccessTokens.id,
+  name: personalAccessTokens.name,
+  tokenPrefix: personalAccessTokens.tokenPrefix,
+  scopes: personalAccessTokens.scopes,
+  expiresAt: personalAccessTokens.expiresAt,
+  lastUsedAt: personalAccessTokens.lastUsedAt,
+  lastUsedIp: personalAccessTokens.lastUsedIp,
+  createdAt: personalAccessTokens.createdAt,
+}
+
+// Personal access tokens are managed from a browser session only: /api/auth/*
+// is outside every token scope, so a token can't mint or revoke tokens.
+export async function accessTokenRoutes(app: FastifyInstance) {
+  app.get('/api/auth/access-tokens', { preHandler: [authMiddleware] }, async (request) => {
+    const tokens = await db
+      .select(tokenColumns)
+      .from(personalAccessTokens)
+      .where(eq(personalAccessTokens.userId, request.user!.id))
+      .orderBy(desc(personalAccessTokens.createdAt))
+
+    return {
+      tokens,
+      scopes: Object.entries(TOKEN_SCOPES).map(([id, description]) => ({ id, description })),
+    }
+  })
+
+  // The plain token is in this response only
+  app.post('/api/auth/access-tokens', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const parsed = createTokenSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+    const { name, scopes, expiresInDays } = parsed.data
+    const userId = request.user!.id
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(personalAccessTokens)
+      .where(eq(personalAccessTokens.userId, userId))
+    if (total >= MAX_TOKENS_PER_USER) {
+      return reply.status(409).send({
+        message: `You can have at most ${MAX_TOKENS_PER_USER} access tokens. Revoke unused ones first.`,
+        statusCode: 409,
+      })
+    }
+
+    const uniqueScopes = [...new Set(scopes)]
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null
+    const created = await createAccessToken(userId, name, uniqueScopes, expiresAt)
+
+    app.log.info({ userId, tokenId: created.id, scopes: uniqueScopes }, 'Personal access token created')
+    return reply.status(201).send({
+      id: created.id,
+      name,
+      tokenPrefix: created.tokenPrefix,
+      scopes: uniqueScopes,
+      expiresAt,
+      lastUsedAt: null,
+      lastUsedIp: null,
+      createdAt: created.createdAt,
+      token: created.token,
+    })
+  })
+
+  app.delete('/api/auth/access-tokens/:tokenId', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { tokenId } = request.params as { tokenId: string }
+    if (!z.string().uuid().safeParse(tokenId).success) {
+      return reply.status(404).send({ message: 'Token not found', statusCode: 404 })
+    }
+
+    const deleted = await db
+      .delete(personalAccessTokens)
+      .where(and(eq(personalAccessTokens.id, tokenId), eq(personalAccessTokens.userId, request.user!.id)))
+      .returning({ id: personalAccessTokens.id })
+    if (deleted.length === 0) {
+      return reply.status(404).send({ message: 'Token not found', statusCode: 404 })
+    }
+
+    app.log.info({ userId: request.user!.id, tokenId }, 'Personal access token revoked')
+    return { success: true }
+  })
+}
@@ -1,13 +1,20 @@
 import type { FastifyInstance } from 'fastify'
-import { sql, eq, desc, and } from 'drizzle-orm'
+import { sql, eq, desc, and, isNull } from 'drizzle-orm'
 import { access, constants } from 'fs/promises'
 import { db } from '../db/index.js'
 import { users } from '../db/schema/users.js'
 import { projects } from '../db/schema/projects.js'
 import { agentSessions } from '../db/schema/agent-sessions.js'
-import { providerApiKeys } from '../db/schema/provider-api-keys.js'
+import { providerApiKeys, tokenLedgerDrift } from '../db/schema/provider-api-keys.js'
 import { authMiddleware, adminGuard } from '../middleware/auth.js'
-import { grantTokens, getUserTokens, deductTokens } from '../utils/token-service.js'
+import { grantTokens, deductTokens, checkLedgerConsistency, resolveLedgerDrift } from '../utils/token-service.js'
+import { encryptSecret, maskSecret } from '../utils/envelope-encryption.js'
+
+/** Scope an admin-supplied Idempotency-Key header so it can't collide with internal charge keys. */
+function adminIdempotencyKey(headers: Record<string, unknown>): string | undefined {
+  const key = headers['idempotency-key']
+  return typeof key === 'string' && key.trim() ? `admin:${key.trim().slice(0, 128)}` : undefined
+}
 
 export async function adminRoutes(app: FastifyInstance) {
   app.addHook('preHandler', authMiddleware)
@@ -18,11 +25,16 @@ export async function adminRoutes(app: FastifyInstance) {
     const [userCount] = await db.select({ count: sql<number>`count(*)::int` }).from(users)
     const [projectCount] = await db.select({ count: sql<number>`count(*)::int` }).from(projects)
     const [sessionCount] = await db.select({ count: sql<number>`count(*)::int` }).from(agentSessions)
+    const [driftCount] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(tokenLedgerDrift)
+      .where(isNull(tokenLedgerDrift.resolvedAt))
 
     return {
       totalUsers: userCount.count,
       totalProjects: projectCount.count,
       totalAgentSessions: sessionCount.count,
+      openLedgerDrift: driftCount.count,
     }
   })
 
@@ -242,7 +254,7 @@ export async function adminRoutes(app: FastifyInstance) {
       return reply.status(400).send({ message: 'Amount must be positive', statusCode: 400 })
     }
 
-    await grantTokens(id, amount, description || 'Admin grant', request.user!.id)
+    await grantTokens(id, amount, description || 'Admin grant', request.user!.id, { idempotencyKey: adminIdempotencyKey(request.headers) })
     return { success: true, granted: amount }
   })
 
@@ -255,32 +267,80 @@ export async function adminRoutes(app: FastifyInstance) {
       return reply.status(400).send({ message: 'Amount must be positive', statusCode: 400 })
     }
 
-    const currentBalance = await getUserTokens(id)
-    if (amount > currentBalance) {
+    // The balance check happens under the ledger's row lock (requireFull).
+    const result = await deductTokens(id, amount, description || `Admin deduction by ${request.user!.username}`, undefined, {
+      idempotencyKey: adminIdempotencyKey(request.headers),
+      requireFull: true,
+    })
+    if (!result.success) {
       return reply.status(400).send({
-        message: `Cannot deduct ${amount} tokens. User only has ${currentBalance} tokens available.`,
+        message: `Cannot deduct ${amount} tokens. User only has ${result.remainingBalance} tokens available.`,
         statusCode: 400,
-        currentBalance,
+        currentBalance: result.remainingBalance,
         requestedAmount: amount,
       })
     }
+    return { success: true, deducted: result.deducted, remainingBalance: result.remainingBalance }
+  })
+
+  // ── Token ledger consistency ──────────────────────────────────────────
+
+  // Open drift flags: users whose balance disagrees with their ledger
+  app.get('/api/admin/token-ledger/drift', async () => {
+    return db
+      .select({
+        id: tokenLedgerDrift.id,
+        userId: tokenLedgerDrift.userId,
+        username: users.username,
+        balance: tokenLedgerDrift.balance,
+        ledgerBalance: tokenLedgerDrift.ledgerBalance,
+        drift: tokenLedgerDrift.drift,
+        detectedAt: tokenLedgerDrift.detectedAt,
+        lastCheckedAt: tokenLedgerDrift.lastCheckedAt,
+      })
+      .from(tokenLedgerDrift)
+      .innerJoin(users, eq(tokenLedgerDrift.userId, users.id))
+      .where(isNull(tokenLedgerDrift.resolvedAt))
+      .orderBy(desc(tokenLedgerDrift.detectedAt))
+  })
+
+  // Run the consistency check now instead of waiting for the hourly run
+  app.post('/api/admin/token-ledger/check', async () => {
+    return checkLedgerConsistency()
+  })
+
+  app.post('/api/admin/token-ledger/drift/:id/resolve', async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const { action } = (request.body ?? {}) as { action?: string }
+
+    if (action !== 'keep_balance' && action !== 'restore_ledger') {
+      return reply.status(400).send({ message: 'Action must be keep_balance or restore_ledger', statusCode: 400 })
+    }
 
-    await deductTokens(id, amount, description || `Admin deduction by ${request.user!.username}`, undefined)
-    return { success: true, deducted: amount, remainingBalance: currentBalance - amount }
+    const result = await resolveLedgerDrift(id, request.user!.id, action)
+    if (!result) return reply.status(404).send({ message: 'Drift flag not found or already resolved', statusCode: 404 })
+    return { success: true, balance: result.balance }
   })
 
   // Per-user provider key management
   app.get('/api/admin/users/:id/provider-keys', async (request) => {
     const { id } = request.params as { id: string }
+    // Keys are listed by their stored hint; the ciphertext is never selected here
     const keys = await db
-      .select()
+      .select({
+        id: providerApiKeys.id,
+        provider: providerApiKeys.provider,
+        apiKeyHint: providerApiKeys.apiKeyHint,
+        isActive: providerApiKeys.isActive,
+        createdAt: providerApiKeys.createdAt,
+      })
       .from(providerApiKeys)
       .where(eq(providerApiKeys.userId, id))
       .orderBy(desc(providerApiKeys.createdAt))
     return keys.map(k => ({
       id: k.id,
       provider: k.provider,
-      apiKey: k.apiKey.length > 12 ? `${k.apiKey.slice(0, 8)}••••••••${k.apiKey.slice(-4)}` : '••••••••',
+      apiKey: k.apiKeyHint ?? '••••••••',
       isActive: k.isActive,
       createdAt: k.createdAt,
     }))
@@ -307,7 +367,7 @@ export async function adminRoutes(app: FastifyInstance) {
     }
 
     const [existing] = await db
-      .select()
+      .select({ id: providerApiKeys.id })
       .from(providerApiKeys)
       .where(and(eq(providerApiKeys.userId, id), eq(providerApiKeys.provider, provider)))
       .limit(1)
@@ -322,7 +382,8 @@ export async function adminRoutes(app: FastifyInstance) {
     await db.insert(providerApiKeys).values({
       userId: id,
       provider,
-      apiKey,
+      apiKey: encryptSecret(apiKey),
+      apiKeyHint: maskSecret(apiKey),
       createdBy: request.user!.id,
       isActive: true,
     })
@@ -340,7 +401,7 @@ export async function adminRoutes(app: FastifyInstance) {
 
     await db
       .update(providerApiKeys)
-      .set({ apiKey: apiKey.trim(), updatedAt: new Date() })
+      .set({ apiKey: encryptSecret(apiKey.trim()), apiKeyHint: maskSecret(apiKey.trim()), updatedAt: new Date() })
       .where(and(eq(providerApiKeys.userId, id), eq(providerApiKeys.provider, provider)))
 
     return { success: true }
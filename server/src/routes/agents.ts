@@ -1,27 +1,33 @@
 import type { FastifyInstance } from 'fastify'
 import { z } from 'zod'
-import { eq, and, desc } from 'drizzle-orm'
+import { eq, and, asc, desc, ne } from 'drizzle-orm'
 import { db } from '../db/index.js'
-import { projects } from '../db/schema/projects.js'
+import { projects, type Project } from '../db/schema/projects.js'
 import { users } from '../db/schema/users.js'
-import { agentSessions } from '../db/schema/agent-sessions.js'
-import { agentMessages } from '../db/schema/agent-messages.js'
+import { agentSessions, type AgentSession } from '../db/schema/agent-sessions.js'
+import { agentMessages, type AgentMessage, type QueuedSendOptions } from '../db/schema/agent-messages.js'
 import { agentLogs } from '../db/schema/agent-logs.js'
 import { providerApiKeys } from '../db/schema/provider-api-keys.js'
 import { authMiddleware } from '../middleware/auth.js'
 import { agentExecutor } from '../agents/executor.js'
 import { opencodeBridge, sessionEventBus } from '../bridges/index.js'
+import { parseLastEventId } from '../bridges/session-event-bus.js'
 import { processManager } from '../bridges/opencode-process-manager.js'
 import { generateOpenCodeKnowledge } from '../utils/opencode-knowledge.js'
 import { AI_MODELS, getModelById, getProviderForModel, canUseModel, modelCanUseZen } from '../config/ai-models.js'
-import { getUserTokens, hasEnoughTokens, deductTokens, estimateMessageCost, canAccessTier, getUserProviderKeys, calculateMaxOutputTokens, MIN_PREMIUM_BALANCE } from '../utils/token-service.js'
+import { getUserTokens, hasEnoughTokens, deductTokens, estimateMessageCost, canAccessTier, effectiveTier, getUserProviderKeys, getConfiguredProviders, calculateMaxOutputTokens, MIN_PREMIUM_BALANCE, type DeductResult } from '../utils/token-service.js'
 import { generateProviderConfig, generateLiteLLMProviderConfig, generateMinimalProjectConfig, writeProjectConfig, writeIsolatedProjectConfig, writeZenAuthJson } from '../utils/provider-config.js'
 import { generateLiteLLMConfig, writeLiteLLMConfig } from '../utils/litellm-config.js'
 import { litellmProcessManager } from '../bridges/litellm-process-manager.js'
+import { getStagingDirectory, prepareStagingWorkspace } from '../utils/staging-service.js'
+import { NODE_ID, handleClusterRequest, runOnOwner } from '../utils/cluster.js'
+import { requireProjectRole } from '../utils/project-access.js'
 import { readFile } from 'fs/promises'
+import { basename } from 'path'
 
 const createSessionSchema = z.object({
   bridge: z.enum(['opencode', 'kiro']).optional(),
+  mode: z.enum(['direct', 'staged']).optional(),
 })
 
 const sendMessageSchema = z.object({
@@ -31,313 +37,152 @@ const sendMessageSchema = z.object({
   speed: z.enum(['fast', 'slow', 'rate_limited']).optional(),
 })
 
-const sessionModelTracker = new Map<string, string>()
+const updateQueuedMessageSchema = z.object({
+  content: z.string().min(1).max(10000),
+})
 
-async function verifyProjectOwnership(userId: string, projectId: string) {
-  const [project] = await db
-    .select()
-    .from(projects)
-    .where(and(eq(projects.id, projectId), eq(projects.userId, userId)))
-    .limit(1)
-  return project
-}
+type TurnRejection = { statusCode: number; message: string }
+
+type AnswerRequest = { sessionId: string; username: string; questionId: string; answer: string }
 
 function getProjectDirectory(username: string, linkId: string | null): string {
   if (!linkId) return '.'
   return `/home/auroracraft-${username.toLowerCase()}/${linkId}`
 }
 
-export async function agentRoutes(app: FastifyInstance) {
-  // List agent sessions for a project
-  app.get('/api/projects/:projectId/agent/sessions', { preHandler: [authMiddleware] }, async (request, reply) => {
-    const { projectId } = request.params as { projectId: string }
-
-    const project = await verifyProjectOwnership(request.user!.id, projectId)
-    if (!project) {
-      return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
-    }
-
-    const sessions = await db
-      .select()
-      .from(agentSessions)
-      .where(eq(agentSessions.projectId, projectId))
-      .orderBy(desc(agentSessions.createdAt))
-
-    return sessions
-  })
-
-  // Create a new agent session
-  app.post('/api/projects/:projectId/agent/sessions', { preHandler: [authMiddleware] }, async (request, reply) => {
-    const { projectId } = request.params as { projectId: string }
-
-    const project = await verifyProjectOwnership(request.user!.id, projectId)
-    if (!project) {
-      return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
-    }
-
-    const parsed = createSessionSchema.safeParse(request.body ?? {})
-    const bridge = parsed.success ? (parsed.data.bridge ?? 'opencode') : 'opencode'
-
-    const [session] = await db
-      .insert(agentSessions)
-      .values({ projectId, bridge })
-      .returning()
-
-    return reply.status(201).send(session)
-  })
-
-  // Get a specific agent session with its messages
-  app.get('/api/projects/:projectId/agent/sessions/:sessionId', { preHandler: [authMiddleware] }, async (request, reply) => {
-    const { projectId, sessionId } = request.params as { projectId: string; sessionId: string }
-
-    const project = await verifyProjectOwnership(request.user!.id, projectId)
-    if (!project) {
-      return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
-    }
-
-    const [session] = await db
-      .select()
-      .from(agentSessions)
-      .where(and(eq(agentSessions.id, sessionId), eq(agentSessions.projectId, projectId)))
-      .limit(1)
-
-    if (!session) {
-      return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
-    }
-
-    const messages = await db
-      .select()
-      .from(agentMessages)
-      .where(eq(agentMessages.sessionId, sessionId))
-      .orderBy(agentMessages.createdAt)
+// The directory the session's bridge works in: the project itself, or for
+// staged sessions the scratch copy whose edits wait for review.
+function getSessionDirectory(username: string, linkId: string | null, session: AgentSession): string {
+  const projectDir = getProjectDirectory(username, linkId)
+  return session.mode === 'staged' && linkId ? getStagingDirectory(projectDir, session.id) : projectDir
+}
 
-    return { ...session, messages }
-  })
+// Atomically flip a session to 'running' unless it already is. Only the
+// caller that wins the claim may start a turn, and its replica owns the turn.
+async function claimSession(sessionId: string): Promise<boolean> {
+  const claimed = await db
+    .update(agentSessions)
+    .set({ status: 'running', ownerNode: NODE_ID, updatedAt: new Date() })
+    .where(and(eq(agentSessions.id, sessionId), ne(agentSessions.status, 'running')))
+    .returning({ id: agentSessions.id })
+  return claimed.length > 0
+}
 
-  // SSE streaming endpoint for live updates
-  app.get('/api/projects/:projectId/agent/sessions/:sessionId/stream', { preHandler: [authMiddleware] }, async (request, reply) => {
-    const { projectId, sessionId } = request.params as { projectId: string; sessionId: string }
+async function hasQueuedMessages(sessionId: string): Promise<boolean> {
+  const [queued] = await db
+    .select({ id: agentMessages.id })
+    .from(agentMessages)
+    .where(and(eq(agentMessages.sessionId, sessionId), eq(agentMessages.queueStatus, 'queued')))
+    .limit(1)
+  return !!queued
+}
 
-    const project = await verifyProjectOwnership(request.user!.id, projectId)
-    if (!project) {
-      return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
-    }
+async function enqueueMessage(sessionId: string, content: string, options: QueuedSendOptions): Promise<AgentMessage> {
+  const [message] = await db
+    .insert(agentMessages)
+    .values({ sessionId, role: 'user', content, queueStatus: 'queued', queuedOptions: options })
+    .returning()
+  return message
+}
 
-    const [session] = await db
-      .select()
+export async function agentRoutes(app: FastifyInstance) {
+  // Forward a question's answer to the OpenCode instance serving the session.
+  // Runs on the replica that owns the session (see the answer route).
+  async function answerQuestion({ sessionId, username, questionId, answer }: AnswerRequest): Promise<void> {
+    const [row] = await db
+      .select({ project: projects, session: agentSessions })
       .from(agentSessions)
-      .where(and(eq(agentSessions.id, sessionId), eq(agentSessions.projectId, projectId)))
+      .innerJoin(projects, eq(agentSessions.projectId, projects.id))
+      .where(eq(agentSessions.id, sessionId))
       .limit(1)
+    if (!row?.session.opencodeSessionId) throw new Error('No OpenCode session found')
+    const { project, session } = row
 
-    if (!session) {
-      return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
-    }
-
-    const username = request.user!.username
-    const projectDir = getProjectDirectory(username, project.linkId)
+    const directory = getSessionDirectory(username, project.linkId, session)
 
-    // Hijack the response for raw SSE streaming
-    reply.hijack()
-    const raw = reply.raw
-    raw.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'X-Accel-Buffering': 'no',
-    })
-
-    const sendSSE = (data: unknown) => {
-      if (!raw.destroyed) {
-        raw.write(`data: ${JSON.stringify(data)}\n\n`)
-      }
-    }
-
-    // Heartbeat to keep connection alive
-    const heartbeat = setInterval(() => {
-      if (!raw.destroyed) {
-        raw.write(': heartbeat\n\n')
-      }
-    }, 15000)
-
-    let unsubscribe: (() => void) | null = null
-    let subscribed = false
-
-    if (session.bridge === 'kiro') {
-      // Kiro uses the bridge-agnostic session event bus — no process URL needed
-      subscribed = true
-
-      if (session.status === 'running' || session.status === 'idle') {
-        sendSSE({ type: 'status', status: 'running' })
-      }
-
-      unsubscribe = sessionEventBus.subscribe(sessionId, (event) => sendSSE(event))
-    } else {
-      // OpenCode: subscribe via the OpenCode subscription manager
-      const trySubscribe = () => {
-        if (subscribed) return
-
-        const doSubscribe = async () => {
-          let opencodeId = session.opencodeSessionId
-
-          // Poll for up to 30 seconds if no opencodeSessionId yet
-          if (!opencodeId) {
-            for (let i = 0; i < 60; i++) {
-              if (raw.destroyed) return
-              await new Promise((r) => setTimeout(r, 500))
-
-              const [refreshed] = await db
-                .select({ opencodeSessionId: agentSessions.opencodeSessionId })
-                .from(agentSessions)
-                .where(eq(agentSessions.id, sessionId))
-                .limit(1)
-
-              if (refreshed?.opencodeSessionId) {
-                opencodeId = refreshed.opencodeSessionId
-                break
-              }
-            }
-          }
-
-          if (!opencodeId || raw.destroyed) return
-
-          // Poll for the OpenCode instance URL (may still be starting)
-          let instanceUrl: string | null = null
-          for (let j = 0; j < 60; j++) {
-            if (raw.destroyed) return
-            instanceUrl = processManager.getInstanceUrl(projectDir)
-            if (instanceUrl) break
-            await new Promise((r) => setTimeout(r, 500))
-          }
-          if (!instanceUrl || raw.destroyed) return
-
-          subscribed = true
-
-          const [current] = await db
-            .select({ status: agentSessions.status })
-            .from(agentSessions)
-            .where(eq(agentSessions.id, sessionId))
-            .limit(1)
-
-          if (current && (current.status === 'running' || current.status === 'idle')) {
-            sendSSE({ type: 'status', status: 'running' })
-          }
-
-          unsubscribe = opencodeBridge.subscriptionManager.subscribe(
-            projectDir,
-            opencodeId,
-            (event) => sendSSE(event),
-            instanceUrl,
-          )
-        }
-
-        doSubscribe().catch(() => {})
-      }
-
-      trySubscribe()
+    // Generate project-specific rules and skills for OpenCode
+    try {
+      await generateOpenCodeKnowledge(session.mode === 'staged' && project.linkId ? { ...project, linkId: basename(directory) } : project, username)
+    } catch (err) {
+      app.log.warn({ err, sessionId }, 'Failed to generate OpenCode knowledge — continuing without custom rules')
     }
 
-    // Send initial connection event
-    sendSSE({ type: 'status', status: 'connected' })
-
-    // Clean up on disconnect
-    request.raw.on('close', () => {
-      clearInterval(heartbeat)
-      unsubscribe?.()
+    const url = await processManager.acquire({
+      directory,
+      javaVersion: project.javaVersion ?? '21',
+      compiler: project.compiler ?? 'maven',
     })
-  })
 
-  // Send a message to an agent session
-  app.post('/api/projects/:projectId/agent/sessions/:sessionId/messages', { preHandler: [authMiddleware] }, async (request, reply) => {
-    const { projectId, sessionId } = request.params as { projectId: string; sessionId: string }
-    console.log('[DEBUG] Received message request body:', JSON.stringify(request.body))
-    const parsed = sendMessageSchema.safeParse(request.body)
-    if (!parsed.success) {
-      console.log('[DEBUG] Validation failed:', parsed.error.issues)
-      return reply.status(400).send({
-        message: parsed.error.issues[0].message,
-        statusCode: 400,
+    try {
+      await fetch(`${url}/session/${session.opencodeSessionId}/question/${questionId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answer }),
       })
+    } finally {
+      await processManager.release(directory)
     }
-
-    const project = await verifyProjectOwnership(request.user!.id, projectId)
-    if (!project) {
-      return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
-    }
-
-    const [session] = await db
-      .select()
-      .from(agentSessions)
-      .where(and(eq(agentSessions.id, sessionId), eq(agentSessions.projectId, projectId)))
-      .limit(1)
-
-    if (!session) {
-      return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
-    }
-
-    if (session.status === 'running') {
-      return reply.status(409).send({ message: 'Agent is already processing', statusCode: 409 })
-    }
-
-    // Persist the user message and flip the session to 'running' IMMEDIATELY —
-    // before any of the slow provisioning below (LiteLLM proxy cold-start, OpenCode
-    // instance spawn, knowledge generation), which can take 10-20s on a fresh
-    // project or premium model. This is the durable, refresh-proof signal that a
-    // request is in flight: if the user reloads mid-setup, the reload reads the saved
-    // message + 'running' status from the DB and restores the loading UI, instead of
-    // showing an empty "Session started" / idle chat while the backend keeps working.
-    // (Previously the save happened only AFTER LiteLLM/OpenCode startup, so a refresh
-    // during that window lost the message entirely.) Validation below may still reject
-    // the request; on those paths rejectSend() rolls back so nothing is left dangling.
-    const prevSessionStatus = session.status
-    const [message] = await db
-      .insert(agentMessages)
-      .values({ sessionId, role: 'user', content: parsed.data.content })
-      .returning()
-    await db
-      .update(agentSessions)
-      .set({ status: 'running', updatedAt: new Date() })
-      .where(eq(agentSessions.id, sessionId))
-
-    // Roll back the optimistic message + status when validation rejects the send,
-    // so a rejected request doesn't leave a dangling user message on a stuck
-    // 'running' session.
-    const rejectSend = async (statusCode: number, msg: string) => {
-      await db.delete(agentMessages).where(eq(agentMessages.id, message.id)).catch(() => {})
-      await db
-        .update(agentSessions)
-        .set({ status: prevSessionStatus, updatedAt: new Date() })
-        .where(eq(agentSessions.id, sessionId))
-        .catch(() => {})
-      return reply.status(statusCode).send({ message: msg, statusCode })
-    }
+  }
+
+  // Other replicas route cancel/answer here when this one owns the session
+  handleClusterRequest('agent.cancel', ({ sessionId }: { sessionId: string }) => agentExecutor.cancel(sessionId))
+  handleClusterRequest('agent.answer', (req: AnswerRequest) => answerQuestion(req))
+
+  // Provision and launch the agent turn for an already-persisted user message
+  // (the session must already be claimed as 'running'). Returns why the turn
+  // was refused, if it was — the caller decides how to roll back.
+  async function startTurn(turn: {
+    userId: string // who pays for the turn
+    username: string // the project owner's — the workspace lives under their system user
+    project: Project
+    session: AgentSession
+    message: AgentMessage
+    options: QueuedSendOptions
+  }): Promise<TurnRejection | null> {
+    const { project, session, message, options } = turn
+    const sessionId = session.id
+    const projectId = project.id
+    const reject = (statusCode: number, msg: string): TurnRejection => ({ statusCode, message: msg })
 
     // Resolve project directory and bridge
-    const username = request.user!.username
-    const projectDir = getProjectDirectory(username, project.linkId)
-    const bridgeName = parsed.data.bridge || session.bridge || 'opencode'
+    const username = turn.username
+    const projectDir = getSessionDirectory(username, project.linkId, session)
+    const staged = session.mode === 'staged' && !!project.linkId
+    const bridgeName = options.bridge || session.bridge || 'opencode'
     let resolvedModelId: string | undefined
     let estimatedCost = 0
     let providerId: string | undefined
     let modelDef: ReturnType<typeof getModelById> = undefined
     let litellmUrl: string | undefined
     let providerChanged = false
-    let deductResult: { deducted: number; remainingBalance: number; balanceExhausted: boolean } | undefined
+    let deductResult: DeductResult | undefined
     let maxOutputTokens: number | undefined
 
-    const [user] = await db.select().from(users).where(eq(users.id, request.user!.id)).limit(1)
-    const userTier = user?.tier ?? 'free'
-    const requestedModelId = parsed.data.model ?? ''
-    const requestedSpeed = parsed.data.speed ?? 'fast'
+    const [user] = await db.select().from(users).where(eq(users.id, turn.userId)).limit(1)
+    const userTier = effectiveTier(user?.tier, user?.emailVerifiedAt)
+    const requestedModelId = options.model ?? ''
+    const requestedSpeed = options.speed ?? 'fast'
+
+    const userKeys = await getUserProviderKeys(turn.userId)
 
-    const userKeys = await getUserProviderKeys(request.user!.id)
+    // Staged sessions: the scratch copy has to exist before any config is
+    // written into it or a bridge instance is started there.
+    if (staged) {
+      try {
+        await prepareStagingWorkspace(getProjectDirectory(username, project.linkId), projectDir)
+      } catch (err) {
+        app.log.error({ err, sessionId, projectDir }, 'Failed to prepare staging workspace')
+        return reject(500, 'Failed to prepare the review workspace')
+      }
+    }
 
     if (requestedModelId) {
       modelDef = getModelById(requestedModelId)
       if (!modelDef) {
-        return rejectSend(400, 'Unknown model selected')
+        return reject(400, 'Unknown model selected')
       }
       if (!canUseModel(requestedModelId, userTier)) {
-        return rejectSend(403, `Model ${modelDef.name} requires a paid subscription. Upgrade your account to access it.`)
+        return reject(403, `Model ${modelDef.name} requires a paid subscription. Upgrade your account to access it.`)
       }
 
       const provider = getProviderForModel(requestedModelId, requestedSpeed, userKeys)
@@ -350,61 +195,64 @@ export async function agentRoutes(app: FastifyInstance) {
           : `${provider.id}/${provider.modelId}`
       }
       if (!provider) {
-        return rejectSend(400, `Provider not available for ${modelDef.name} at ${requestedSpeed} speed`)
+        return reject(400, `Provider not available for ${modelDef.name} at ${requestedSpeed} speed`)
       }
 
       if (provider.requiresApiKey) {
         const userApiKey = userKeys[provider.id]
 
         if (!userApiKey) {
-          return rejectSend(503, `You don't have an API key for ${provider.id}. Please contact an administrator to set one up.`)
+          return reject(503, `You don't have an API key for ${provider.id}. Please contact an administrator to set one up.`)
         }
 
         if (modelDef.minTier !== 'free') {
-          const currentBalance = await getUserTokens(request.user!.id)
+          const currentBalance = await getUserTokens(turn.userId)
           if (currentBalance < MIN_PREMIUM_BALANCE) {
-            return rejectSend(402, `Your token balance is too low for premium models. Minimum required: ${MIN_PREMIUM_BALANCE} tokens. You have ${currentBalance} tokens. Please purchase more tokens or use a free model.`)
+            return reject(402, `Your token balance is too low for premium models. Minimum required: ${MIN_PREMIUM_BALANCE} tokens. You have ${currentBalance} tokens. Please purchase more tokens or use a free model.`)
           }
 
-          estimatedCost = estimateMessageCost(parsed.data.content, modelDef, provider.id)
-          const hasTokens = await hasEnoughTokens(request.user!.id, estimatedCost)
+          estimatedCost = estimateMessageCost(message.content, modelDef, provider.id)
+          const hasTokens = await hasEnoughTokens(turn.userId, estimatedCost)
           if (!hasTokens) {
-            return rejectSend(402, `Insufficient AI tokens. Estimated cost: ${estimatedCost} tokens. Please purchase more tokens or use a free model.`)
+            return reject(402, `Insufficient AI tokens. Estimated cost: ${estimatedCost} tokens. Please purchase more tokens or use a free model.`)
           }
 
+          // Keyed on the user message so a retried request can't charge twice;
+          // the executor's reconciliation derives its key from the same value.
           deductResult = await deductTokens(
-            request.user!.id,
+            turn.userId,
             estimatedCost,
             `Pre-charge for ${modelDef.name} (${provider.id})`,
             sessionId,
+            { idempotencyKey: `agent:${message.id}`, requireFull: true },
           )
-          if (deductResult.deducted < estimatedCost) {
-            app.log.warn({ userId: request.user!.id, requested: estimatedCost, deducted: deductResult.deducted, remaining: deductResult.remainingBalance }, 'Partial token deduction — race condition or concurrent usage')
+          if (!deductResult.success) {
+            // A concurrent send or Assistant job spent the balance after the check above.
+            return reject(402, `Insufficient AI tokens. Estimated cost: ${estimatedCost} tokens. Please purchase more tokens or use a free model.`)
           }
         }
 
-    // Calculate max output tokens based on user's total available balance
-    // so generation is hard-capped and cannot exceed what they can afford
-    if (modelDef) {
-      const totalAvailableBalance = (deductResult?.deducted ?? 0) + (deductResult?.remainingBalance ?? await getUserTokens(request.user!.id))
-      maxOutputTokens = calculateMaxOutputTokens(
-        totalAvailableBalance,
-        parsed.data.content,
-        modelDef,
-        provider?.id,
-      )
-      app.log.info({ userId: request.user!.id, maxOutputTokens, totalAvailableBalance, model: modelDef.id }, 'Calculated max output tokens')
-    }
+        // Calculate max output tokens based on user's total available balance
+        // so generation is hard-capped and cannot exceed what they can afford
+        if (modelDef) {
+          const totalAvailableBalance = (deductResult?.deducted ?? 0) + (deductResult?.remainingBalance ?? await getUserTokens(turn.userId))
+          maxOutputTokens = calculateMaxOutputTokens(
+            totalAvailableBalance,
+            message.content,
+            modelDef,
+            provider?.id,
+          )
+          app.log.info({ userId: turn.userId, maxOutputTokens, totalAvailableBalance, model: modelDef.id }, 'Calculated max output tokens')
+        }
 
-    let litellmUrl: string | undefined
-    let litellmMasterKey: string | undefined
+        let litellmMasterKey: string | undefined
 
         try {
           // For premium external providers, route through LiteLLM Proxy instead of
           // hitting the provider directly. LiteLLM enforces per-project budget
           // (converted from tokens → USD) and provides unified model routing.
           if (provider.id !== 'opencode') {
-            const userTokenBalance = await getUserTokens(request.user!.id)
+            const userTokenBalance = await getUserTokens(turn.userId)
             const llmConfig = await generateLiteLLMConfig(projectDir, AI_MODELS, userKeys, userTokenBalance)
             const configPath = await writeLiteLLMConfig(projectDir, llmConfig)
             litellmUrl = await litellmProcessManager.acquire({ directory: projectDir, configPath })
@@ -469,15 +317,19 @@ export async function agentRoutes(app: FastifyInstance) {
     let opencodeSessionId: string | undefined
 
     if (bridgeName === 'opencode') {
-      // Track model per session — force new OpenCode session when model changes
-      const requestedModel = parsed.data.model ?? ''
-      const lastModel = sessionModelTracker.get(sessionId)
+      // Track model per session (in the DB, so any replica sees it) — force
+      // a new OpenCode session when the model changes
+      const requestedModel = options.model ?? ''
+      const lastModel = session.lastModel
       const modelChanged = !!(requestedModel && lastModel && requestedModel !== lastModel)
-      if (requestedModel) sessionModelTracker.set(sessionId, requestedModel)
+      if (requestedModel && requestedModel !== lastModel) {
+        await db.update(agentSessions).set({ lastModel: requestedModel }).where(eq(agentSessions.id, sessionId))
+      }
 
-      // Generate project-specific rules and skills for OpenCode
+      // Generate project-specific rules and skills for OpenCode (keyed by the
+      // directory name, which for staged sessions is the scratch copy's)
       try {
-        await generateOpenCodeKnowledge(project, username)
+        await generateOpenCodeKnowledge(staged ? { ...project, linkId: basename(projectDir) } : project, username)
       } catch (err) {
         app.log.warn({ err, sessionId }, 'Failed to generate OpenCode knowledge — continuing without custom rules')
       }
@@ -535,20 +387,21 @@ export async function agentRoutes(app: FastifyInstance) {
       if (opencodeSessionId) {
         opencodeBridge.subscriptionManager.clearBuffer(projectDir, opencodeSessionId)
       }
-    } else if (bridgeName === 'kiro') {
-      // Clear stale buffered events for Kiro sessions
-      sessionEventBus.clearBuffer(sessionId)
     }
 
+    // New run: drop the previous turn's stored stream events
+    sessionEventBus.clearBuffer(sessionId)
+
     // Fire-and-forget: launch the AI agent executor asynchronously
     agentExecutor.execute(
       {
         sessionId,
         projectId,
-        prompt: parsed.data.content,
+        messageId: message.id,
+        prompt: message.content,
         bridgeName,
-        model: parsed.data.model ?? resolvedModelId,
-        speed: parsed.data.speed,
+        model: options.model ?? resolvedModelId,
+        speed: options.speed,
         opencodeSessionId: bridgeName === 'opencode' ? opencodeSessionId : undefined,
         kiroSessionId: bridgeName === 'kiro' ? (session.kiroSessionId ?? undefined) : undefined,
         username,
@@ -559,10 +412,12 @@ export async function agentRoutes(app: FastifyInstance) {
         compiler: project.compiler,
         javaVersion: project.javaVersion,
         projectDirectory: projectDir,
+        staged,
         userHomeDir: `/home/auroracraft-${username.toLowerCase()}`,
         firecrawlApiKey: userTier === 'paid' ? userKeys.firecrawl : undefined,
-        userId: request.user!.id,
+        userId: turn.userId,
         estimatedCost,
+        chargeKey: deductResult ? `agent:${message.id}` : undefined,
         providerId,
         litellmUrl,
         maxOutputTokens,
@@ -574,22 +429,405 @@ export async function agentRoutes(app: FastifyInstance) {
         onComplete: () => { app.log.info({ sessionId }, 'Agent execution completed') },
         onError: (error) => { app.log.error({ sessionId, error }, 'Agent execution error') },
       },
-    ).catch((err) => {
+    ).then((result) => {
+      // A finished turn hands over to the next queued follow-up; a failed or
+      // cancelled one leaves the queue paused until the user resumes it.
+      if (result.status === 'completed') void dispatchNextQueued(sessionId)
+    }).catch((err) => {
       app.log.error({ sessionId, err }, 'Unhandled agent execution error')
     })
 
+    return null
+  }
+
+  // Send the oldest queued follow-up of a session, if the session is free.
+  // If the turn is refused (e.g. out of tokens), the message goes back to the
+  // head of the queue, the queue pauses, and a system message says why.
+  async function dispatchNextQueued(sessionId: string): Promise<void> {
+    try {
+      const [next] = await db
+        .select()
+        .from(agentMessages)
+        .where(and(eq(agentMessages.sessionId, sessionId), eq(agentMessages.queueStatus, 'queued')))
+        .orderBy(asc(agentMessages.createdAt))
+        .limit(1)
+      if (!next) return
+
+      const [row] = await db
+        .select({ session: agentSessions, project: projects, username: users.username })
+        .from(agentSessions)
+        .innerJoin(projects, eq(agentSessions.projectId, projects.id))
+        .innerJoin(users, eq(projects.userId, users.id))
+        .where(eq(agentSessions.id, sessionId))
+        .limit(1)
+      if (!row) return
+
+      const prevSessionStatus = row.session.status
+      if (!(await claimSession(sessionId))) return
+
+      // Out of the queue and into the transcript, after everything sent before it
+      const [message] = await db
+        .update(agentMessages)
+        .set({ queueStatus: null, createdAt: new Date() })
+        .where(and(eq(agentMessages.id, next.id), eq(agentMessages.queueStatus, 'queued')))
+        .returning()
+
+      const rejection = message
+        ? await startTurn({
+            userId: next.queuedOptions?.userId ?? row.project.userId,
+            username: row.username,
+            project: row.project,
+            session: row.session,
+            message,
+            options: next.queuedOptions ?? {},
+          }).catch((err): TurnRejection => {
+            app.log.error({ err, sessionId }, 'Failed to start queued agent turn')
+            return { statusCode: 500, message: 'Failed to start the agent' }
+          })
+        : null
+
+      if (!message || rejection) {
+        if (message) {
+          await db
+            .update(agentMessages)
+            .set({ queueStatus: 'queued', createdAt: next.createdAt })
+            .where(eq(agentMessages.id, next.id))
+          await db.insert(agentMessages).values({
+            sessionId,
+            role: 'system',
+            content: `Queued message not sent: ${rejection!.message}`,
+          })
+        }
+        await db
+          .update(agentSessions)
+          .set({ status: prevSessionStatus, updatedAt: new Date() })
+          .where(eq(agentSessions.id, sessionId))
+      }
+    } catch (err) {
+      app.log.error({ err, sessionId }, 'Failed to dispatch queued message')
+    }
+  }
+
+  // List agent sessions for a project
+  app.get('/api/projects/:projectId/agent/sessions', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { projectId } = request.params as { projectId: string }
+
+    const access = await requireProjectRole(request, reply, projectId, 'viewer')
+    if (!access) return reply
+
+    const sessions = await db
+      .select()
+      .from(agentSessions)
+      .where(eq(agentSessions.projectId, projectId))
+      .orderBy(desc(agentSessions.createdAt))
+
+    return sessions
+  })
+
+  // Create a new agent session
+  app.post('/api/projects/:projectId/agent/sessions', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { projectId } = request.params as { projectId: string }
+
+    const access = await requireProjectRole(request, reply, projectId, 'editor')
+    if (!access) return reply
+    const { project } = access
+
+    const parsed = createSessionSchema.safeParse(request.body ?? {})
+    const bridge = parsed.success ? (parsed.data.bridge ?? 'opencode') : 'opencode'
+    const mode = parsed.success ? (parsed.data.mode ?? 'direct') : 'direct'
+
+    if (mode === 'staged' && !project.linkId) {
+      return reply.status(400).send({ message: 'Review mode needs a project workspace', statusCode: 400 })
+    }
+
+    const [session] = await db
+      .insert(agentSessions)
+      .values({ projectId, bridge, mode })
+      .returning()
+
+    return reply.status(201).send(session)
+  })
+
+  // Get a specific agent session with its messages
+  app.get('/api/projects/:projectId/agent/sessions/:sessionId', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { projectId, sessionId } = request.params as { projectId: string; sessionId: string }
+
+    const access = await requireProjectRole(request, reply, projectId, 'viewer')
+    if (!access) return reply
+
+    const [session] = await db
+      .select()
+      .from(agentSessions)
+      .where(and(eq(agentSessions.id, sessionId), eq(agentSessions.projectId, projectId)))
+      .limit(1)
+
+    if (!session) {
+      return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
+    }
+
+    const messages = await db
+      .select()
+      .from(agentMessages)
+      .where(eq(agentMessages.sessionId, sessionId))
+      .orderBy(agentMessages.createdAt)
+
+    return { ...session, messages }
+  })
+
+  // SSE streaming endpoint for live updates
+  app.get('/api/projects/:projectId/agent/sessions/:sessionId/stream', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { projectId, sessionId } = request.params as { projectId: string; sessionId: string }
+
+    const access = await requireProjectRole(request, reply, projectId, 'viewer')
+    if (!access) return reply
+
+    const [session] = await db
+      .select()
+      .from(agentSessions)
+      .where(and(eq(agentSessions.id, sessionId), eq(agentSessions.projectId, projectId)))
+      .limit(1)
+
+    if (!session) {
+      return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
+    }
+
+    // Resume point: EventSource sends Last-Event-ID on reconnect; a fresh page can pass ?lastEventId=
+    const { lastEventId } = request.query as { lastEventId?: string }
+    const afterId = parseLastEventId(request.headers['last-event-id'] ?? lastEventId)
+
+    // Hijack the response for raw SSE streaming
+    reply.hijack()
+    const raw = reply.raw
+    raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    })
+
+    const sendSSE = (data: unknown, id?: number) => {
+      if (!raw.destroyed) {
+        raw.write(`${id !== undefined ? `id: ${id}\n` : ''}data: ${JSON.stringify(data)}\n\n`)
+      }
+    }
+
+    // Heartbeat to keep connection alive
+    const heartbeat = setInterval(() => {
+      if (!raw.destroyed) {
+        raw.write(': heartbeat\n\n')
+      }
+    }, 15000)
+
+    if (session.status === 'running' || session.status === 'idle') {
+      sendSSE({ type: 'status', status: 'running' })
+    }
+
+    // Both bridges publish onto the durable session event bus, so the stream
+    // replays from storage and survives reconnects and server restarts.
+    const unsubscribe = sessionEventBus.subscribe(sessionId, (event, id) => sendSSE(event, id), { afterId })
+
+    // Send initial connection event
+    sendSSE({ type: 'status', status: 'connected' })
+
+    // Clean up on disconnect
+    request.raw.on('close', () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+    })
+  })
+
+  // Send a message to an agent session
+  app.post('/api/projects/:projectId/agent/sessions/:sessionId/messages', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { projectId, sessionId } = request.params as { projectId: string; sessionId: string }
+    console.log('[DEBUG] Received message request body:', JSON.stringify(request.body))
+    const parsed = sendMessageSchema.safeParse(request.body)
+    if (!parsed.success) {
+      console.log('[DEBUG] Validation failed:', parsed.error.issues)
+      return reply.status(400).send({
+        message: parsed.error.issues[0].message,
+        statusCode: 400,
+      })
+    }
+
+    const access = await requireProjectRole(request, reply, projectId, 'editor')
+    if (!access) return reply
+    const { project } = access
+
+    const [session] = await db
+      .select()
+      .from(agentSessions)
+      .where(and(eq(agentSessions.id, sessionId), eq(agentSessions.projectId, projectId)))
+      .limit(1)
+
+    if (!session) {
+      return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
+    }
+
+    const options: QueuedSendOptions = {
+      model: parsed.data.model,
+      speed: parsed.data.speed,
+      bridge: parsed.data.bridge,
+      userId: request.user!.id,
+    }
+
+    // Busy, or earlier follow-ups still waiting: queue behind them. A paused
+    // queue (after a cancel or failure) is resumed by the new message.
+    if (session.status === 'running' || await hasQueuedMessages(sessionId)) {
+      const queued = await enqueueMessage(sessionId, parsed.data.content, options)
+      if (session.status !== 'running') void dispatchNextQueued(sessionId)
+      return reply.status(201).send(queued)
+    }
+
+    // Claim the session and persist the user message IMMEDIATELY —
+    // before any of the slow provisioning in startTurn (LiteLLM proxy cold-start,
+    // OpenCode instance spawn, knowledge generation), which can take 10-20s on a fresh
+    // project or premium model. This is the durable, refresh-proof signal that a
+    // request is in flight: if the user reloads mid-setup, the reload reads the saved
+    // message + 'running' status from the DB and restores the loading UI, instead of
+    // showing an empty "Session started" / idle chat while the backend keeps working.
+    // (Previously the save happened only AFTER LiteLLM/OpenCode startup, so a refresh
+    // during that window lost the message entirely.) Validation may still reject
+    // the request; on those paths the send is rolled back so nothing is left dangling.
+    const prevSessionStatus = session.status
+    if (!(await claimSession(sessionId))) {
+      // Another send or a queued follow-up got there first
+      const queued = await enqueueMessage(sessionId, parsed.data.content, options)
+      return reply.status(201).send(queued)
+    }
+    const [message] = await db
+      .insert(agentMessages)
+      .values({ sessionId, role: 'user', content: parsed.data.content })
+      .returning()
+
+    const rejection = await startTurn({
+      userId: request.user!.id,
+      username: access.ownerUsername,
+      project,
+      session,
+      message,
+      options,
+    })
+
+    // Roll back the optimistic message + status when validation rejects the send,
+    // so a rejected request doesn't leave a dangling user message on a stuck
+    // 'running' session.
+    if (rejection) {
+      await db.delete(agentMessages).where(eq(agentMessages.id, message.id)).catch(() => {})
+      await db
+        .update(agentSessions)
+        .set({ status: prevSessionStatus, updatedAt: new Date() })
+        .where(eq(agentSessions.id, sessionId))
+        .catch(() => {})
+      return reply.status(rejection.statusCode).send({ message: rejection.message, statusCode: rejection.statusCode })
+    }
+
     return reply.status(201).send(message)
   })
 
-  // Cancel an agent session
-  app.post('/api/projects/:projectId/agent/sessions/:sessionId/cancel', { preHandler: [authMiddleware] }, async (request, reply) => {
+  // Edit a queued follow-up before it is sent
+  app.patch('/api/projects/:projectId/agent/sessions/:sessionId/messages/:messageId', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { projectId, sessionId, messageId } = request.params as { projectId: string; sessionId: string; messageId: string }
+    const parsed = updateQueuedMessageSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+
+    const access = await requireProjectRole(request, reply, projectId, 'editor')
+    if (!access) return reply
+
+    const [session] = await db
+      .select({ id: agentSessions.id })
+      .from(agentSessions)
+      .where(and(eq(agentSessions.id, sessionId), eq(agentSessions.projectId, projectId)))
+      .limit(1)
+
+    if (!session) {
+      return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
+    }
+
+    const [updated] = await db
+      .update(agentMessages)
+      .set({ content: parsed.data.content })
+      .where(and(
+        eq(agentMessages.id, messageId),
+        eq(agentMessages.sessionId, sessionId),
+        eq(agentMessages.queueStatus, 'queued'),
+      ))
+      .returning()
+
+    if (!updated) {
+      return reply.status(409).send({ message: 'Only queued messages can be edited', statusCode: 409 })
+    }
+
+    return updated
+  })
+
+  // Remove a queued follow-up before it is sent
+  app.delete('/api/projects/:projectId/agent/sessions/:sessionId/messages/:messageId', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { projectId, sessionId, messageId } = request.params as { projectId: string; sessionId: string; messageId: string }
+
+    const access = await requireProjectRole(request, reply, projectId, 'editor')
+    if (!access) return reply
+
+    const [session] = await db
+      .select({ id: agentSessions.id })
+      .from(agentSessions)
+      .where(and(eq(agentSessions.id, sessionId), eq(agentSessions.projectId, projectId)))
+      .limit(1)
+
+    if (!session) {
+      return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
+    }
+
+    const [removed] = await db
+      .delete(agentMessages)
+      .where(and(
+        eq(agentMessages.id, messageId),
+        eq(agentMessages.sessionId, sessionId),
+        eq(agentMessages.queueStatus, 'queued'),
+      ))
+      .returning({ id: agentMessages.id })
+
+    if (!removed) {
+      return reply.status(409).send({ message: 'Only queued messages can be removed', statusCode: 409 })
+    }
+
+    return reply.status(204).send()
+  })
+
+  // Resume a paused queue (after a cancel, a failed turn or a refused send)
+  app.post('/api/projects/:projectId/agent/sessions/:sessionId/queue/resume', { preHandler: [authMiddleware] }, async (request, reply) => {
     const { projectId, sessionId } = request.params as { projectId: string; sessionId: string }
 
-    const project = await verifyProjectOwnership(request.user!.id, projectId)
-    if (!project) {
-      return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
+    const access = await requireProjectRole(request, reply, projectId, 'editor')
+    if (!access) return reply
+
+    const [session] = await db
+      .select()
+      .from(agentSessions)
+      .where(and(eq(agentSessions.id, sessionId), eq(agentSessions.projectId, projectId)))
+      .limit(1)
+
+    if (!session) {
+      return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
+    }
+
+    if (session.status === 'running') {
+      return reply.status(409).send({ message: 'Agent is already processing', statusCode: 409 })
     }
 
+    await dispatchNextQueued(sessionId)
+    return { success: true }
+  })
+
+  // Cancel an agent session. Queued follow-ups are kept but not sent until
+  // the queue is resumed.
+  app.post('/api/projects/:projectId/agent/sessions/:sessionId/cancel', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { projectId, sessionId } = request.params as { projectId: string; sessionId: string }
+
+    const access = await requireProjectRole(request, reply, projectId, 'editor')
+    if (!access) return reply
+
     const [session] = await db
       .select()
       .from(agentSessions)
@@ -604,7 +842,13 @@ export async function agentRoutes(app: FastifyInstance) {
       return reply.status(400).send({ message: 'Session is not active', statusCode: 400 })
     }
 
-    await agentExecutor.cancel(sessionId)
+    // The bridge process lives on the replica running the turn
+    try {
+      await runOnOwner(session.ownerNode, 'agent.cancel', { sessionId }, () => agentExecutor.cancel(sessionId))
+    } catch (err) {
+      app.log.error({ err, sessionId, ownerNode: session.ownerNode }, 'Failed to cancel session on its owner node')
+      return reply.status(503).send({ message: 'Could not reach the server running this session. Try again.', statusCode: 503 })
+    }
 
     const [updated] = await db
       .update(agentSessions)
@@ -626,10 +870,8 @@ export async function agentRoutes(app: FastifyInstance) {
     const { projectId, sessionId } = request.params as { projectId: string; sessionId: string }
     const { questionId, answer } = request.body as { questionId: string; answer: string }
 
-    const project = await verifyProjectOwnership(request.user!.id, projectId)
-    if (!project) {
-      return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
-    }
+    const access = await requireProjectRole(request, reply, projectId, 'editor')
+    if (!access) return reply
 
     const [session] = await db
       .select()
@@ -641,36 +883,17 @@ export async function agentRoutes(app: FastifyInstance) {
       return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
     }
 
-    const opencodeSessionId = session.opencodeSessionId ?? undefined
-    if (!opencodeSessionId) {
+    if (!session.opencodeSessionId) {
       return reply.status(400).send({ message: 'No OpenCode session found', statusCode: 400 })
     }
 
-    // Generate project-specific rules and skills for OpenCode
-    try {
-      await generateOpenCodeKnowledge(project, request.user!.username)
-    } catch (err) {
-      app.log.warn({ err, sessionId }, 'Failed to generate OpenCode knowledge — continuing without custom rules')
-    }
-
-    const directory = getProjectDirectory(request.user!.username, project.linkId)
-    const url = await processManager.acquire({
-      directory,
-      javaVersion: project.javaVersion ?? '21',
-      compiler: project.compiler ?? 'maven',
-    })
-
+    // The OpenCode instance lives on the replica that owns the session
+    const answerRequest: AnswerRequest = { sessionId, username: access.ownerUsername, questionId, answer }
     try {
-      await fetch(`${url}/session/${opencodeSessionId}/question/${questionId}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ answer }),
-      })
+      await runOnOwner(session.ownerNode, 'agent.answer', answerRequest, () => answerQuestion(answerRequest))
       return { success: true }
     } catch (error) {
       return reply.status(500).send({ message: 'Failed to answer question', statusCode: 500 })
-    } finally {
-      await processManager.release(directory)
     }
   })
 
@@ -678,9 +901,16 @@ export async function agentRoutes(app: FastifyInstance) {
   app.get('/api/projects/:projectId/agent/sessions/:sessionId/logs', { preHandler: [authMiddleware] }, async (request, reply) => {
     const { projectId, sessionId } = request.params as { projectId: string; sessionId: string }
 
-    const project = await verifyProjectOwnership(request.user!.id, projectId)
-    if (!project) {
-      return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
+    const access = await requireProjectRole(request, reply, projectId, 'viewer')
+    if (!access) return reply
+
+    const [session] = await db
+      .select({ id: agentSessions.id })
+      .from(agentSessions)
+      .where(and(eq(agentSessions.id, sessionId), eq(agentSessions.projectId, projectId)))
+      .limit(1)
+    if (!session) {
+      return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
     }
 
     const logs = await db
@@ -693,9 +923,9 @@ export async function agentRoutes(app: FastifyInstance) {
   })
 
   app.get('/api/ai/models', { preHandler: [authMiddleware] }, async (request, reply) => {
-    const [user] = await db.select({ tier: users.tier }).from(users).where(eq(users.id, request.user!.id)).limit(1)
-    const tier = user?.tier ?? 'free'
-    const userKeys = await getUserProviderKeys(request.user!.id)
+    const [user] = await db.select({ tier: users.tier, emailVerifiedAt: users.emailVerifiedAt }).from(users).where(eq(users.id, request.user!.id)).limit(1)
+    const tier = effectiveTier(user?.tier, user?.emailVerifiedAt)
+    const configured = await getConfiguredProviders(request.user!.id)
 
     const models = AI_MODELS.filter(m => {
       if (tier === 'paid') return true
@@ -709,34 +939,35 @@ export async function agentRoutes(app: FastifyInstance) {
         id: p.id,
         speed: p.speed,
         requiresApiKey: p.requiresApiKey,
-        hasKey: p.requiresApiKey ? !!userKeys[p.id] : true,
+        hasKey: p.requiresApiKey ? configured.has(p.id) : true,
       })),
-      disabled: m.minTier !== 'free' && m.providers.every(p => p.requiresApiKey && !userKeys[p.id]),
-      disabledReason: m.minTier !== 'free' && m.providers.every(p => p.requiresApiKey && !userKeys[p.id])
+      disabled: m.minTier !== 'free' && m.providers.every(p => p.requiresApiKey && !configured.has(p.id)),
+      disabledReason: m.minTier !== 'free' && m.providers.every(p => p.requiresApiKey && !configured.has(p.id))
         ? 'No API key configured for any provider'
         : undefined,
     }))
 
-    return { models, tier, userKeys: Object.keys(userKeys) }
+    return { models, tier, userKeys: [...configured] }
   })
 
   app.get('/api/user/tokens', { preHandler: [authMiddleware] }, async (request, reply) => {
-    const [user] = await db.select({ aiTokens: users.aiTokens, tokensUsed: users.tokensUsed, tier: users.tier }).from(users).where(eq(users.id, request.user!.id)).limit(1)
+    const [user] = await db.select({ aiTokens: users.aiTokens, tokensUsed: users.tokensUsed, tier: users.tier, emailVerifiedAt: users.emailVerifiedAt }).from(users).where(eq(users.id, request.user!.id)).limit(1)
     return {
       balance: user?.aiTokens ?? 0,
       used: user?.tokensUsed ?? 0,
-      tier: user?.tier ?? 'free',
+      tier: effectiveTier(user?.tier, user?.emailVerifiedAt),
     }
   })
 
   app.get('/api/user/provider-keys', { preHandler: [authMiddleware] }, async (request) => {
+    // Listed by the stored hint; the encrypted key itself is never read here
     const keys = await db
-      .select({ provider: providerApiKeys.provider, apiKey: providerApiKeys.apiKey, isActive: providerApiKeys.isActive, createdAt: providerApiKeys.createdAt })
+      .select({ provider: providerApiKeys.provider, apiKeyHint: providerApiKeys.apiKeyHint, isActive: providerApiKeys.isActive, createdAt: providerApiKeys.createdAt })
       .from(providerApiKeys)
       .where(and(eq(providerApiKeys.userId, request.user!.id), eq(providerApiKeys.isActive, true)))
     return keys.map(k => ({
       provider: k.provider,
-      apiKey: k.apiKey.length > 12 ? `${k.apiKey.slice(0, 8)}••••••••${k.apiKey.slice(-4)}` : '••••••••',
+      apiKey: k.apiKeyHint ?? '••••••••',
       isActive: k.isActive,
       createdAt: k.createdAt,
     }))
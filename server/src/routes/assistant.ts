@@ -1,14 +1,15 @@
-import type { FastifyInstance } from 'fastify'
-import { and, desc, eq } from 'drizzle-orm'
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import { and, eq } from 'drizzle-orm'
 import { authMiddleware } from '../middleware/auth.js'
 import { db } from '../db/index.js'
 import { projects } from '../db/schema/projects.js'
 import { assistantJobs } from '../db/schema/assistant-jobs.js'
-import { getUserProviderKeys } from '../utils/token-service.js'
+import { getConfiguredProviders } from '../utils/token-service.js'
 import { ASSISTANT_MODELS, getAssistantModel } from '../config/assistant-models.js'
-import { sessionEventBus } from '../bridges/session-event-bus.js'
+import { sessionEventBus, parseLastEventId } from '../bridges/session-event-bus.js'
 import type { StreamEvent } from '../bridges/types.js'
-import { startJob, reviseJob, stopJob, getActiveJob } from '../utils/assistant-service.js'
+import { requireProjectRole, type ProjectRole } from '../utils/project-access.js'
+import { startJob, reviseJob, stopJobOnOwner, getActiveJob } from '../utils/assistant-service.js'
 
 type JobRow = typeof assistantJobs.$inferSelect
 
@@ -31,33 +32,42 @@ function serializeJob(j: JobRow) {
 }
 
 export async function assistantRoutes(app: FastifyInstance) {
-  async function loadOwnedProject(userId: string, id: string) {
-    const [p] = await db
-      .select()
-      .from(projects)
-      .where(and(eq(projects.id, id), eq(projects.userId, userId)))
-      .limit(1)
-    return p ?? null
-  }
-
-  async function loadOwnedJob(userId: string, projectId: string, jobId: string): Promise<JobRow | null> {
+  /** Load a job of a project the user holds at least `minRole` on; replies and returns null otherwise. */
+  async function loadProjectJob(req: FastifyRequest, reply: FastifyReply, projectId: string, jobId: string, minRole: ProjectRole): Promise<JobRow | null> {
+    const access = await requireProjectRole(req, reply, projectId, minRole)
+    if (!access) return null
     const [j] = await db
       .select()
       .from(assistantJobs)
-      .where(and(eq(assistantJobs.id, jobId), eq(assistantJobs.projectId, projectId), eq(assistantJobs.userId, userId)))
+      .where(and(eq(assistantJobs.id, jobId), eq(assistantJobs.projectId, projectId)))
       .limit(1)
-    return j ?? null
+    if (!j) {
+      reply.status(404).send({ message: 'Job not found' })
+      return null
+    }
+    return j
+  }
+
+  /** Abort a job wherever it runs; false only if its replica could not be reached. */
+  async function abortJob(job: JobRow): Promise<boolean> {
+    try {
+      await stopJobOnOwner(job)
+      return true
+    } catch (err) {
+      app.log.error({ err, jobId: job.id, ownerNode: job.ownerNode }, 'Failed to stop Assistant job on its owner node')
+      return false
+    }
   }
 
   // ── Config ─────────────────────────────────────────────────────────────────
 
   app.get('/api/projects/:id/assistant', { preHandler: [authMiddleware] }, async (req, reply) => {
     const { id } = req.params as { id: string }
-    const project = await loadOwnedProject(req.user!.id, id)
-    if (!project) return reply.status(404).send({ message: 'Project not found' })
+    const access = await requireProjectRole(req, reply, id, 'viewer')
+    if (!access) return reply
+    const { project } = access
     const tier = req.user!.tier ?? 'free'
-    const keys = await getUserProviderKeys(req.user!.id)
-    const hasKey = !!keys['nvidia-nim']
+    const hasKey = (await getConfiguredProviders(req.user!.id)).has('nvidia-nim')
     return {
       enabled: project.assistantEnabled,
       model: project.assistantModel,
@@ -71,8 +81,7 @@ export async function assistantRoutes(app: FastifyInstance) {
   app.patch('/api/projects/:id/assistant', { preHandler: [authMiddleware] }, async (req, reply) => {
     const { id } = req.params as { id: string }
     const body = req.body as { enabled?: boolean; model?: string }
-    const project = await loadOwnedProject(req.user!.id, id)
-    if (!project) return reply.status(404).send({ message: 'Project not found' })
+    if (!(await requireProjectRole(req, reply, id, 'owner'))) return reply
     const patch: Record<string, unknown> = { updatedAt: new Date() }
     if (typeof body.model === 'string') {
       if (!getAssistantModel(body.model)) return reply.status(400).send({ message: 'Unknown model' })
@@ -81,8 +90,7 @@ export async function assistantRoutes(app: FastifyInstance) {
     if (typeof body.enabled === 'boolean') {
       if (body.enabled) {
         if ((req.user!.tier ?? 'free') !== 'paid') return reply.status(403).send({ message: 'Assistant requires a paid subscription.' })
-        const keys = await getUserProviderKeys(req.user!.id)
-        if (!keys['nvidia-nim']) return reply.status(403).send({ message: 'No NVIDIA NIM API key is set for your account.' })
+        if (!(await getConfiguredProviders(req.user!.id)).has('nvidia-nim')) return reply.status(403).send({ message: 'No NVIDIA NIM API key is set for your account.' })
       }
       patch.assistantEnabled = body.enabled
       patch.assistantEnabledSnapshot = null // explicit user action clears any pending restore
@@ -98,25 +106,29 @@ export async function assistantRoutes(app: FastifyInstance) {
     const { prompt, style } = req.body as { prompt?: string; style?: string }
     if (!prompt?.trim()) return reply.status(400).send({ message: 'Prompt required' })
     if (!['optimized', 'structured', 'explanatory', 'feature_adding'].includes(style ?? '')) return reply.status(400).send({ message: 'Invalid style' })
-    const project = await loadOwnedProject(req.user!.id, id)
-    if (!project) return reply.status(404).send({ message: 'Project not found' })
+    const access = await requireProjectRole(req, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
     if ((req.user!.tier ?? 'free') !== 'paid' || !project.assistantEnabled) return reply.status(403).send({ message: 'Assistant unavailable' })
     if (await getActiveJob(id)) return reply.status(409).send({ message: 'An assistant task is already in progress.' })
     const { jobId } = await startJob({ projectId: id, userId: req.user!.id, kind: 'enhance', input: { prompt: prompt.trim(), style } })
     return reply.status(202).send({ jobId })
   })
 
-  // ── Feature 2: error-fix ───────────────────────────────────────────────────────
+  // ── Feature 2: error-fix (CodeRabbit issues and/or compiler diagnostics) ─────
 
   app.post('/api/projects/:id/assistant/error-fix', { preHandler: [authMiddleware] }, async (req, reply) => {
     const { id } = req.params as { id: string }
-    const { issues } = req.body as { issues?: unknown[] }
-    if (!Array.isArray(issues) || !issues.length) return reply.status(400).send({ message: 'No issues' })
-    const project = await loadOwnedProject(req.user!.id, id)
-    if (!project) return reply.status(404).send({ message: 'Project not found' })
+    const { issues, diagnostics } = req.body as { issues?: unknown[]; diagnostics?: unknown[] }
+    const hasIssues = Array.isArray(issues) && issues.length > 0
+    const hasDiagnostics = Array.isArray(diagnostics) && diagnostics.length > 0
+    if (!hasIssues && !hasDiagnostics) return reply.status(400).send({ message: 'No issues' })
+    const access = await requireProjectRole(req, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
     if ((req.user!.tier ?? 'free') !== 'paid' || !project.assistantEnabled) return reply.status(403).send({ message: 'Assistant unavailable' })
     if (await getActiveJob(id)) return reply.status(409).send({ message: 'An assistant task is already in progress.' })
-    const { jobId } = await startJob({ projectId: id, userId: req.user!.id, kind: 'error_fix', input: { issues } })
+    const { jobId } = await startJob({ projectId: id, userId: req.user!.id, kind: 'error_fix', input: { issues: hasIssues ? issues : [], diagnostics: hasDiagnostics ? diagnostics : [] } })
     return reply.status(202).send({ jobId })
   })
 
@@ -126,8 +138,8 @@ export async function assistantRoutes(app: FastifyInstance) {
     const { id, jobId } = req.params as { id: string; jobId: string }
     const { feedback } = req.body as { feedback?: string }
     if (!feedback?.trim()) return reply.status(400).send({ message: 'Feedback required' })
-    const job = await loadOwnedJob(req.user!.id, id, jobId)
-    if (!job) return reply.status(404).send({ message: 'Job not found' })
+    const job = await loadProjectJob(req, reply, id, jobId, 'editor')
+    if (!job) return reply
     try {
       await reviseJob(jobId, feedback.trim())
     } catch (e: any) {
@@ -138,8 +150,8 @@ export async function assistantRoutes(app: FastifyInstance) {
 
   app.post('/api/projects/:id/assistant/jobs/:jobId/confirm', { preHandler: [authMiddleware] }, async (req, reply) => {
     const { id, jobId } = req.params as { id: string; jobId: string }
-    const job = await loadOwnedJob(req.user!.id, id, jobId)
-    if (!job) return reply.status(404).send({ message: 'Job not found' })
+    const job = await loadProjectJob(req, reply, id, jobId, 'editor')
+    if (!job) return reply
     if (job.kind !== 'enhance' || job.status !== 'awaiting_user') return reply.status(409).send({ message: 'Not confirmable' })
     await db
       .update(assistantJobs)
@@ -151,8 +163,9 @@ export async function assistantRoutes(app: FastifyInstance) {
   app.post('/api/projects/:id/assistant/jobs/:jobId/accept-action', { preHandler: [authMiddleware] }, async (req, reply) => {
     const { id, jobId } = req.params as { id: string; jobId: string }
     const { actionId } = req.body as { actionId?: string }
-    const job = await loadOwnedJob(req.user!.id, id, jobId)
-    if (!job || job.kind !== 'post_session' || job.status !== 'awaiting_user') return reply.status(409).send({ message: 'Not actionable' })
+    const job = await loadProjectJob(req, reply, id, jobId, 'editor')
+    if (!job) return reply
+    if (job.kind !== 'post_session' || job.status !== 'awaiting_user') return reply.status(409).send({ message: 'Not actionable' })
     const action = ((job.result as any)?.actions ?? []).find((a: any) => a.id === actionId)
     if (!action) return reply.status(400).send({ message: 'Unknown action' })
     await db
@@ -164,9 +177,10 @@ export async function assistantRoutes(app: FastifyInstance) {
 
   app.post('/api/projects/:id/assistant/jobs/:jobId/cancel', { preHandler: [authMiddleware] }, async (req, reply) => {
     const { id, jobId } = req.params as { id: string; jobId: string }
-    const job = await loadOwnedJob(req.user!.id, id, jobId)
-    if (!job) return reply.status(404).send({ message: 'Job not found' })
-    stopJob(jobId) // abort if mid-run
+    const job = await loadProjectJob(req, reply, id, jobId, 'editor')
+    if (!job) return reply
+    // abort if mid-run (on whichever replica runs it)
+    if (!(await abortJob(job))) return reply.status(503).send({ message: 'Could not reach the server running this job. Try again.' })
     await db
       .update(assistantJobs)
       .set({ status: 'cancelled', completedAt: new Date(), updatedAt: new Date() })
@@ -176,9 +190,9 @@ export async function assistantRoutes(app: FastifyInstance) {
 
   app.post('/api/projects/:id/assistant/jobs/:jobId/stop', { preHandler: [authMiddleware] }, async (req, reply) => {
     const { id, jobId } = req.params as { id: string; jobId: string }
-    const job = await loadOwnedJob(req.user!.id, id, jobId)
-    if (!job) return reply.status(404).send({ message: 'Job not found' })
-    stopJob(jobId)
+    const job = await loadProjectJob(req, reply, id, jobId, 'editor')
+    if (!job) return reply
+    if (!(await abortJob(job))) return reply.status(503).send({ message: 'Could not reach the server running this job. Try again.' })
     return { success: true }
   })
 
@@ -186,16 +200,15 @@ export async function assistantRoutes(app: FastifyInstance) {
 
   app.get('/api/projects/:id/assistant/jobs/active', { preHandler: [authMiddleware] }, async (req, reply) => {
     const { id } = req.params as { id: string }
-    const project = await loadOwnedProject(req.user!.id, id)
-    if (!project) return reply.status(404).send({ message: 'Project not found' })
+    if (!(await requireProjectRole(req, reply, id, 'viewer'))) return reply
     const job = await getActiveJob(id)
     return job ? serializeJob(job) : null
   })
 
   app.get('/api/projects/:id/assistant/jobs/:jobId', { preHandler: [authMiddleware] }, async (req, reply) => {
     const { id, jobId } = req.params as { id: string; jobId: string }
-    const job = await loadOwnedJob(req.user!.id, id, jobId)
-    if (!job) return reply.status(404).send({ message: 'Job not found' })
+    const job = await loadProjectJob(req, reply, id, jobId, 'viewer')
+    if (!job) return reply
     return serializeJob(job)
   })
 
@@ -203,8 +216,11 @@ export async function assistantRoutes(app: FastifyInstance) {
 
   app.get('/api/projects/:id/assistant/jobs/:jobId/stream', { preHandler: [authMiddleware] }, async (req, reply) => {
     const { id, jobId } = req.params as { id: string; jobId: string }
-    const job = await loadOwnedJob(req.user!.id, id, jobId)
-    if (!job) return reply.status(404).send({ message: 'Job not found' })
+    const job = await loadProjectJob(req, reply, id, jobId, 'viewer')
+    if (!job) return reply
+
+    const { lastEventId } = req.query as { lastEventId?: string }
+    const afterId = parseLastEventId(req.headers['last-event-id'] ?? lastEventId)
 
     reply.hijack()
     const raw = reply.raw
@@ -215,8 +231,8 @@ export async function assistantRoutes(app: FastifyInstance) {
       'X-Accel-Buffering': 'no',
     })
 
-    const sendSSE = (data: unknown) => {
-      if (!raw.destroyed) raw.write(`data: ${JSON.stringify(data)}\n\n`)
+    const sendSSE = (data: unknown, id?: number) => {
+      if (!raw.destroyed && !raw.writableEnded) raw.write(`${id !== undefined ? `id: ${id}\n` : ''}data: ${JSON.stringify(data)}\n\n`)
     }
     const heartbeat = setInterval(() => {
       if (!raw.destroyed) raw.write(': heartbeat\n\n')
@@ -224,8 +240,8 @@ export async function assistantRoutes(app: FastifyInstance) {
 
     sendSSE({ type: 'status', status: 'connected' })
 
-    const unsubscribe = sessionEventBus.subscribe(`assistant:${jobId}`, (event: StreamEvent) => {
-      sendSSE(event)
+    const unsubscribe = sessionEventBus.subscribe(`assistant:${jobId}`, (event: StreamEvent, id?: number) => {
+      sendSSE(event, id)
       if (event.type === 'complete' || event.type === 'error') {
         clearInterval(heartbeat)
         if (!raw.destroyed) raw.end()
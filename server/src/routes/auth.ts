@@ -1,15 +1,26 @@
-import type { FastifyInstance } from 'fastify'
+import type { FastifyInstance, FastifyRequest } from 'fastify'
 import { z } from 'zod'
-import { eq, or } from 'drizzle-orm'
+import { and, eq, isNull, or } from 'drizzle-orm'
 import crypto from 'crypto'
 import { mkdir } from 'fs/promises'
 import { db } from '../db/index.js'
 import { users } from '../db/schema/users.js'
 import { sessions } from '../db/schema/sessions.js'
 import { hashPassword, verifyPassword } from '../utils/password.js'
-import { createSystemUser, toSystemUsername } from '../utils/system-user.js'
+import { createSystemUser, toSystemUsername, systemUserExists, changeSystemUserPassword } from '../utils/system-user.js'
 import { authMiddleware } from '../middleware/auth.js'
 import { env } from '../env.js'
+import { queueMail } from '../utils/mail-service.js'
+import { secondFactorThrottled, verifySecondFactor } from '../utils/two-factor.js'
+import { verifyEmailMail, passwordResetMail, passwordChangedMail } from '../utils/mail-templates.js'
+import {
+  issueAuthToken,
+  issuedRecently,
+  consumeAuthToken,
+  releaseAuthToken,
+  RESET_TOKEN_TTL_MS,
+  VERIFICATION_TOKEN_TTL_MS,
+} from '../utils/auth-tokens.js'
 
 const registerSchema = z.object({
   username: z.string().min(3).max(32).regex(/^[a-z0-9_-]+$/, 'Username must be lowercase and contain only letters, numbers, underscores, and hyphens'),
@@ -20,6 +31,21 @@ const registerSchema = z.object({
 const loginSchema = z.object({
   login: z.string().min(1),
   password: z.string().min(1),
+  // TOTP or recovery code, required when the account has 2FA on
+  code: z.string().max(32).optional(),
+})
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email().max(255),
+})
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1).max(128),
+  password: z.string().min(8).max(128),
+})
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1).max(128),
 })
 
 const SESSION_DURATION_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
@@ -28,6 +54,19 @@ function createSessionToken(): string {
   return crypto.randomBytes(48).toString('base64url')
 }
 
+/** Start a session for the user, recording where it was signed in from. Returns the cookie token. */
+async function createSession(userId: string, request: FastifyRequest): Promise<string> {
+  const token = createSessionToken()
+  await db.insert(sessions).values({
+    userId,
+    token,
+    expiresAt: new Date(Date.now() + SESSION_DURATION_MS),
+    userAgent: request.headers['user-agent']?.slice(0, 512) ?? null,
+    ipAddress: request.ip.slice(0, 64),
+  })
+  return token
+}
+
 function setCookieOptions() {
   let secure: boolean
   if (env.COOKIE_SECURE === 'auto') {
@@ -44,6 +83,12 @@ function setCookieOptions() {
   }
 }
 
+/** Mail a fresh verification link; older unused links stop working. */
+async function sendVerificationEmail(user: { id: string; username: string; email: string }) {
+  const token = await issueAuthToken(user.id, 'email_verification', VERIFICATION_TOKEN_TTL_MS)
+  queueMail(user.email, verifyEmailMail(user.username, token, VERIFICATION_TOKEN_TTL_MS / 3_600_000))
+}
+
 export async function authRoutes(app: FastifyInstance) {
   // Register
   app.post('/api/auth/register', async (request, reply) => {
@@ -85,12 +130,9 @@ export async function authRoutes(app: FastifyInstance) {
         updatedAt: users.updatedAt,
       })
 
-    const token = createSessionToken()
-    await db.insert(sessions).values({
-      userId: user.id,
-      token,
-      expiresAt: new Date(Date.now() + SESSION_DURATION_MS),
-    })
+    await sendVerificationEmail(user)
+
+    const token = await createSession(user.id, request)
 
     // Create system user with home directory (adduser creates /home/auroracraft-<username> automatically)
     try {
@@ -105,7 +147,7 @@ export async function authRoutes(app: FastifyInstance) {
 
     reply.setCookie('session', token, setCookieOptions())
 
-    return reply.status(201).send(user)
+    return reply.status(201).send({ ...user, emailVerified: false })
   })
 
   // Login
@@ -143,12 +185,37 @@ export async function authRoutes(app: FastifyInstance) {
       })
     }
 
-    const token = createSessionToken()
-    await db.insert(sessions).values({
-      userId: user.id,
-      token,
-      expiresAt: new Date(Date.now() + SESSION_DURATION_MS),
-    })
+    // Second factor. The client learns 2FA is on only after the right password,
+    // then repeats the login with the code.
+    if (user.totpEnabledAt) {
+      if (secondFactorThrottled(user.id)) {
+        return reply.status(429).send({
+          message: 'Too many incorrect codes. Try again in a few minutes.',
+          statusCode: 429,
+          twoFactorRequired: true,
+        })
+      }
+      if (!parsed.data.code) {
+        return reply.status(401).send({
+          message: 'Enter the code from your authenticator app',
+          statusCode: 401,
+          twoFactorRequired: true,
+        })
+      }
+      const method = await verifySecondFactor(user.id, parsed.data.code)
+      if (!method) {
+        return reply.status(401).send({
+          message: 'Invalid two-factor code',
+          statusCode: 401,
+          twoFactorRequired: true,
+        })
+      }
+      if (method === 'recovery') {
+        app.log.info({ userId: user.id }, 'Signed in with a recovery code')
+      }
+    }
+
+    const token = await createSession(user.id, request)
 
     // Ensure user home directory exists (defensive, non-blocking)
     const homeDir = `/home/${toSystemUsername(user.username)}`
@@ -163,6 +230,7 @@ export async function authRoutes(app: FastifyInstance) {
       username: user.username,
       email: user.email,
       role: user.role,
+      emailVerified: !!user.emailVerifiedAt,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     }
@@ -182,4 +250,102 @@ export async function authRoutes(app: FastifyInstance) {
   app.get('/api/auth/me', { preHandler: [authMiddleware] }, async (request) => {
     return request.user
   })
+
+  // Request a password reset link. The answer is the same whether or not the
+  // address belongs to an account, so it can't be used to probe for users.
+  app.post('/api/auth/forgot-password', async (request, reply) => {
+    const parsed = forgotPasswordSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: 'Enter a valid email address', statusCode: 400 })
+    }
+
+    const [user] = await db
+      .select({ id: users.id, username: users.username, email: users.email })
+      .from(users)
+      .where(eq(users.email, parsed.data.email))
+      .limit(1)
+
+    if (user && !(await issuedRecently(user.id, 'password_reset'))) {
+      const token = await issueAuthToken(user.id, 'password_reset', RESET_TOKEN_TTL_MS)
+      queueMail(user.email, passwordResetMail(user.username, token, RESET_TOKEN_TTL_MS / 60_000))
+    }
+
+    return { success: true }
+  })
+
+  // Set a new password from a reset link. Keeps the workspace system user's
+  // password (set by createSystemUser) in step and signs out every session.
+  app.post('/api/auth/reset-password', async (request, reply) => {
+    const parsed = resetPasswordSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+    const { token, password } = parsed.data
+
+    const claimed = await consumeAuthToken(token, 'password_reset')
+    if (!claimed) {
+      return reply.status(400).send({ message: 'This reset link is invalid or has expired', statusCode: 400 })
+    }
+
+    const [user] = await db
+      .select({ id: users.id, username: users.username, email: users.email })
+      .from(users)
+      .where(eq(users.id, claimed.userId))
+      .limit(1)
+    if (!user) {
+      return reply.status(400).send({ message: 'This reset link is invalid or has expired', statusCode: 400 })
+    }
+
+    try {
+      if (await systemUserExists(user.username)) {
+        await changeSystemUserPassword(user.username, password)
+      }
+    } catch (err) {
+      app.log.error({ err, userId: user.id }, 'Failed to update system user password')
+      await releaseAuthToken(claimed.id)
+      return reply.status(500).send({ message: 'Failed to reset password. Try the link again.', statusCode: 500 })
+    }
+
+    const passwordHash = await hashPassword(password)
+    await db.transaction(async (tx) => {
+      await tx.update(users).set({ passwordHash, updatedAt: new Date() }).where(eq(users.id, user.id))
+      await tx.delete(sessions).where(eq(sessions.userId, user.id))
+    })
+
+    queueMail(user.email, passwordChangedMail(user.username, new Date(), request.ip))
+    return { success: true }
+  })
+
+  // Confirm the email address from the emailed link
+  app.post('/api/auth/verify-email', async (request, reply) => {
+    const parsed = verifyEmailSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: 'Invalid verification link', statusCode: 400 })
+    }
+
+    const claimed = await consumeAuthToken(parsed.data.token, 'email_verification')
+    if (!claimed) {
+      return reply.status(400).send({ message: 'This verification link is invalid or has expired', statusCode: 400 })
+    }
+
+    await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(users.id, claimed.userId), isNull(users.emailVerifiedAt)))
+
+    return { success: true }
+  })
+
+  // Send another verification link to the signed-in user
+  app.post('/api/auth/verify-email/resend', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const user = request.user!
+    if (user.emailVerified) {
+      return reply.status(409).send({ message: 'Your email is already verified', statusCode: 409 })
+    }
+    if (await issuedRecently(user.id, 'email_verification')) {
+      return reply.status(429).send({ message: 'A verification email was just sent. Check your inbox or try again in a minute.', statusCode: 429 })
+    }
+    await sendVerificationEmail(user)
+    return { success: true }
+  })
 }
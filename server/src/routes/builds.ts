@@ -0,0 +1,219 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import { z } from 'zod'
+import { and, desc, eq, ne } from 'drizzle-orm'
+import { createReadStream } from 'fs'
+import { stat } from 'fs/promises'
+import path from 'path'
+import { authMiddleware } from '../middleware/auth.js'
+import { db } from '../db/index.js'
+import { builds, type Build, type BuildArtifact } from '../db/schema/builds.js'
+import { sessionEventBus } from '../bridges/session-event-bus.js'
+import type { StreamEvent } from '../bridges/types.js'
+import { requireProjectRole, getWorkspaceDirectory, type ProjectAccess, type ProjectRole } from '../utils/project-access.js'
+import { startBuild, cancelBuild, getActiveBuild, buildEventKey } from '../utils/build-service.js'
+
+const startBuildSchema = z.object({
+  tool: z.enum(['maven', 'gradle', 'both']).optional(),
+})
+
+function serializeBuild(b: Build, withLog = false) {
+  return {
+    id: b.id,
+    projectId: b.projectId,
+    tool: b.tool,
+    status: b.status,
+    exitCode: b.exitCode,
+    durationMs: b.durationMs,
+    artifacts: b.artifacts ?? [],
+    diagnosticCount: (b.diagnostics ?? []).length,
+    error: b.error ?? null,
+    ...(withLog ? { log: b.log } : {}),
+    createdAt: b.createdAt instanceof Date ? b.createdAt.toISOString() : b.createdAt,
+    completedAt: b.completedAt instanceof Date ? b.completedAt.toISOString() : b.completedAt ?? null,
+  }
+}
+
+export async function buildRoutes(app: FastifyInstance) {
+  /** Load a build of a project the user holds at least `minRole` on; replies and returns null otherwise. */
+  async function loadProjectBuild(request: FastifyRequest, reply: FastifyReply, projectId: string, buildId: string, minRole: ProjectRole): Promise<{ access: ProjectAccess; build: Build } | null> {
+    const access = await requireProjectRole(request, reply, projectId, minRole)
+    if (!access) return null
+    const [build] = await db
+      .select()
+      .from(builds)
+      .where(and(eq(builds.id, buildId), eq(builds.projectId, projectId)))
+      .limit(1)
+    if (!build) {
+      reply.status(404).send({ message: 'Build not found', statusCode: 404 })
+      return null
+    }
+    return { access, build }
+  }
+
+  // List recent builds (newest first, without logs)
+  app.get('/api/projects/:id/builds', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    if (!(await requireProjectRole(request, reply, id, 'viewer'))) return reply
+
+    // Lazily clears a stale `running` row left over from a restart.
+    await getActiveBuild(id)
+
+    const rows = await db
+      .select()
+      .from(builds)
+      .where(eq(builds.projectId, id))
+      .orderBy(desc(builds.createdAt))
+      .limit(20)
+    return { builds: rows.map((b) => serializeBuild(b)) }
+  })
+
+  // Start a build with the project's configured compiler (or an explicit tool)
+  app.post('/api/projects/:id/builds', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const parsed = startBuildSchema.safeParse(request.body ?? {})
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(400).send({ message: 'Project has no workspace', statusCode: 400 })
+
+    if (await getActiveBuild(id)) {
+      return reply.status(409).send({ message: 'A build is already running for this project.', statusCode: 409 })
+    }
+
+    const started = await startBuild({
+      projectId: id,
+      userId: request.user!.id,
+      username: access.ownerUsername,
+      linkId: project.linkId,
+      javaVersion: project.javaVersion,
+      tool: parsed.data.tool ?? project.compiler,
+    })
+    // Lost a race with a concurrent start
+    if (!started) {
+      return reply.status(409).send({ message: 'A build is already running for this project.', statusCode: 409 })
+    }
+    return reply.status(202).send({ buildId: started.buildId })
+  })
+
+  // Single build including its full log
+  app.get('/api/projects/:id/builds/:buildId', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id, buildId } = request.params as { id: string; buildId: string }
+    const loaded = await loadProjectBuild(request, reply, id, buildId, 'viewer')
+    if (!loaded) return reply
+    return serializeBuild(loaded.build, true)
+  })
+
+  app.post('/api/projects/:id/builds/:buildId/cancel', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id, buildId } = request.params as { id: string; buildId: string }
+    const loaded = await loadProjectBuild(request, reply, id, buildId, 'editor')
+    if (!loaded) return reply
+    if (loaded.build.status !== 'running' || !(await cancelBuild(loaded.build))) {
+      return reply.status(409).send({ message: 'Build is not running', statusCode: 409 })
+    }
+    return { success: true }
+  })
+
+  // Download one artifact recorded on the build
+  app.get('/api/projects/:id/builds/:buildId/artifacts/:name', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id, buildId, name } = request.params as { id: string; buildId: string; name: string }
+    const loaded = await loadProjectBuild(request, reply, id, buildId, 'viewer')
+    if (!loaded) return reply
+    const { access, build } = loaded
+    if (!access.project.linkId) return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
+
+    const artifact = (build.artifacts as BuildArtifact[]).find((a) => a.name === name)
+    if (!artifact) return reply.status(404).send({ message: 'Artifact not found', statusCode: 404 })
+
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, access.project.linkId)
+    const fullPath = path.resolve(projectDir, artifact.path)
+    if (!fullPath.startsWith(projectDir + '/')) {
+      return reply.status(400).send({ message: 'Invalid artifact path', statusCode: 400 })
+    }
+
+    try {
+      const s = await stat(fullPath)
+      if (!s.isFile()) throw new Error('not a file')
+    } catch {
+      // A later build (or the agent) removed/renamed it since.
+      return reply.status(410).send({ message: 'Artifact no longer exists on disk', statusCode: 410 })
+    }
+
+    reply.header('Content-Type', 'application/java-archive')
+    reply.header('Content-Disposition', `attachment; filename="${artifact.name}"`)
+    return reply.send(createReadStream(fullPath))
+  })
+
+  // Compiler diagnostics from the most recent finished build
+  app.get('/api/projects/:id/diagnostics', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    if (!(await requireProjectRole(request, reply, id, 'viewer'))) return reply
+
+    const [latest] = await db
+      .select()
+      .from(builds)
+      .where(and(eq(builds.projectId, id), ne(builds.status, 'running')))
+      .orderBy(desc(builds.createdAt))
+      .limit(1)
+    if (!latest) return { buildId: null, status: null, createdAt: null, diagnostics: [] }
+
+    return {
+      buildId: latest.id,
+      status: latest.status,
+      createdAt: latest.createdAt instanceof Date ? latest.createdAt.toISOString() : latest.createdAt,
+      diagnostics: latest.diagnostics ?? [],
+    }
+  })
+
+  // ── SSE live log (mirrors agents.ts stream skeleton) ─────────────────────────
+
+  app.get('/api/projects/:id/builds/:buildId/stream', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id, buildId } = request.params as { id: string; buildId: string }
+    const loaded = await loadProjectBuild(request, reply, id, buildId, 'viewer')
+    if (!loaded) return reply
+    const { build } = loaded
+
+    reply.hijack()
+    const raw = reply.raw
+    raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    })
+
+    const sendSSE = (data: unknown) => {
+      if (!raw.destroyed) raw.write(`data: ${JSON.stringify(data)}\n\n`)
+    }
+
+    // Already finished: replay the persisted log and the terminal event, then close.
+    if (build.status !== 'running') {
+      if (build.log) sendSSE({ type: 'build-log', stream: 'stdout', content: build.log })
+      sendSSE(build.status === 'success' ? { type: 'complete' } : { type: 'error', message: build.error ?? 'Build failed.' })
+      raw.end()
+      return
+    }
+
+    const heartbeat = setInterval(() => {
+      if (!raw.destroyed) raw.write(': heartbeat\n\n')
+    }, 15000)
+
+    sendSSE({ type: 'status', status: 'connected' })
+
+    const unsubscribe = sessionEventBus.subscribe(buildEventKey(buildId), (event: StreamEvent) => {
+      sendSSE(event)
+      if (event.type === 'complete' || event.type === 'error') {
+        clearInterval(heartbeat)
+        if (!raw.destroyed) raw.end()
+      }
+    })
+
+    request.raw.on('close', () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+    })
+  })
+}
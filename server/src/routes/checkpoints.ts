@@ -0,0 +1,108 @@
+import type { FastifyInstance } from 'fastify'
+import { and, asc, eq, gt, isNull } from 'drizzle-orm'
+import { authMiddleware } from '../middleware/auth.js'
+import { db } from '../db/index.js'
+import { agentSessions } from '../db/schema/agent-sessions.js'
+import { agentMessages, type AgentMessage } from '../db/schema/agent-messages.js'
+import { requireProjectRole, getWorkspaceDirectory } from '../utils/project-access.js'
+import { createCheckpoint, getCheckpointChanges, restoreCheckpoint } from '../utils/checkpoint-service.js'
+
+type TurnParams = { projectId: string; sessionId: string; messageId: string }
+
+export async function checkpointRoutes(app: FastifyInstance) {
+  async function loadTurnMessage(projectId: string, sessionId: string, messageId: string): Promise<AgentMessage | null> {
+    const [row] = await db
+      .select({ message: agentMessages })
+      .from(agentMessages)
+      .innerJoin(agentSessions, eq(agentMessages.sessionId, agentSessions.id))
+      .where(and(eq(agentMessages.id, messageId), eq(agentMessages.sessionId, sessionId), eq(agentSessions.projectId, projectId)))
+      .limit(1)
+    return row?.message.role === 'user' ? row.message : null
+  }
+
+  // What one agent turn changed: the turn's "before" checkpoint against its
+  // "after" one — or, while it's still running / if that snapshot is missing,
+  // the next turn's "before", then the live workspace.
+  app.get('/api/projects/:projectId/agent/sessions/:sessionId/messages/:messageId/changes', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { projectId, sessionId, messageId } = request.params as TurnParams
+    const access = await requireProjectRole(request, reply, projectId, 'viewer')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
+
+    const message = await loadTurnMessage(projectId, sessionId, messageId)
+    if (!message) return reply.status(404).send({ message: 'Message not found', statusCode: 404 })
+    if (!message.checkpointBefore) {
+      return reply.status(404).send({ message: 'No checkpoint was recorded for this message', statusCode: 404 })
+    }
+
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, project.linkId)
+    let to = message.checkpointAfter
+    let live = false
+    if (!to) {
+      const [next] = await db
+        .select({ checkpointBefore: agentMessages.checkpointBefore })
+        .from(agentMessages)
+        .where(and(
+          eq(agentMessages.sessionId, sessionId),
+          eq(agentMessages.role, 'user'),
+          isNull(agentMessages.queueStatus),
+          gt(agentMessages.createdAt, message.createdAt),
+        ))
+        .orderBy(asc(agentMessages.createdAt))
+        .limit(1)
+      to = next?.checkpointBefore ?? null
+    }
+
+    try {
+      if (!to) {
+        to = await createCheckpoint(projectDir)
+        live = true
+      }
+      const changes = await getCheckpointChanges(projectDir, message.checkpointBefore, to)
+      return { from: message.checkpointBefore, to, live, ...changes }
+    } catch (err) {
+      app.log.error({ err, messageId }, 'Failed to diff checkpoint')
+      return reply.status(500).send({ message: 'Failed to read checkpoint changes', statusCode: 500 })
+    }
+  })
+
+  // Put the workspace back the way it was before this message's turn ran
+  app.post('/api/projects/:projectId/agent/sessions/:sessionId/messages/:messageId/restore', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { projectId, sessionId, messageId } = request.params as TurnParams
+    const access = await requireProjectRole(request, reply, projectId, 'editor')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
+
+    const message = await loadTurnMessage(projectId, sessionId, messageId)
+    if (!message) return reply.status(404).send({ message: 'Message not found', statusCode: 404 })
+    if (!message.checkpointBefore) {
+      return reply.status(404).send({ message: 'No checkpoint was recorded for this message', statusCode: 404 })
+    }
+
+    const [running] = await db
+      .select({ id: agentSessions.id })
+      .from(agentSessions)
+      .where(and(eq(agentSessions.projectId, projectId), eq(agentSessions.status, 'running')))
+      .limit(1)
+    if (running) {
+      return reply.status(409).send({ message: 'Stop the running agent before restoring a checkpoint.', statusCode: 409 })
+    }
+
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, project.linkId)
+    try {
+      const undoCheckpoint = await restoreCheckpoint(projectDir, message.checkpointBefore)
+      const preview = message.content.length > 80 ? `${message.content.slice(0, 80)}…` : message.content
+      await db.insert(agentMessages).values({
+        sessionId,
+        role: 'system',
+        content: `Workspace restored to before: "${preview}"`,
+      })
+      return { success: true, restoredTo: message.checkpointBefore, undoCheckpoint }
+    } catch (err) {
+      app.log.error({ err, messageId }, 'Failed to restore checkpoint')
+      return reply.status(500).send({ message: 'Failed to restore checkpoint', statusCode: 500 })
+    }
+  })
+}
@@ -5,6 +5,8 @@ import { projects } from '../db/schema/projects'
 import { codeReviews } from '../db/schema/code-reviews'
 import { eq, and, desc, or, sql } from 'drizzle-orm'
 import { authMiddleware, adminGuard } from '../middleware/auth'
+import { NODE_ID } from '../utils/cluster'
+import { requireProjectRole, getWorkspaceDirectory } from '../utils/project-access'
 import { access, readdir, unlink, rm } from 'fs/promises'
 import { join } from 'path'
 
@@ -307,10 +309,8 @@ export default async function coderabbitRoutes(app: FastifyInstance) {
     if (!paidCheck(request, reply)) return
     const { id } = request.params as { id: string }
 
-    const [project] = await db.select().from(projects).where(eq(projects.id, id)).limit(1)
-    if (!project || project.userId !== request.user!.id) {
-      reply.status(404).send({ error: 'Project not found' }); return
-    }
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
 
     const [user] = await db
       .select({ coderabbitEnabled: users.coderabbitEnabled })
@@ -327,10 +327,9 @@ export default async function coderabbitRoutes(app: FastifyInstance) {
     const { id } = request.params as { id: string }
     const { scope = 'full' } = request.body as { scope?: string }
 
-    const [project] = await db.select().from(projects).where(eq(projects.id, id)).limit(1)
-    if (!project || project.userId !== request.user!.id) {
-      reply.status(404).send({ error: 'Project not found' }); return
-    }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
 
     const [user] = await db
       .select({ coderabbitEnabled: users.coderabbitEnabled, username: users.username })
@@ -342,7 +341,8 @@ export default async function coderabbitRoutes(app: FastifyInstance) {
       reply.status(403).send({ error: 'CodeRabbit not enabled for your account' }); return
     }
 
-    const projectDir = project.linkId ? `/home/auroracraft-${user.username.toLowerCase()}/${project.linkId}` : null
+    // The owner's workspace, reviewed with the requesting user's CodeRabbit login
+    const projectDir = project.linkId ? getWorkspaceDirectory(access.ownerUsername, project.linkId) : null
     if (!projectDir) {
       reply.status(404).send({ error: 'Project directory not found' }); return
     }
@@ -360,7 +360,6 @@ export default async function coderabbitRoutes(app: FastifyInstance) {
         .set({ status: 'superseded' })
         .where(and(
           eq(codeReviews.projectId, id),
-          eq(codeReviews.userId, request.user!.id),
           eq(codeReviews.status, 'pending')
         ))
 
@@ -372,6 +371,7 @@ export default async function coderabbitRoutes(app: FastifyInstance) {
           userId: request.user!.id,
           scope,
           status: 'pending',
+          ownerNode: NODE_ID,
         })
         .returning()
 
@@ -523,10 +523,8 @@ export default async function coderabbitRoutes(app: FastifyInstance) {
     if (!paidCheck(request, reply)) return
     const { id } = request.params as { id: string }
 
-    const [project] = await db.select().from(projects).where(eq(projects.id, id)).limit(1)
-    if (!project || project.userId !== request.user!.id) {
-      reply.status(404).send({ error: 'Project not found' }); return
-    }
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
 
     const allReviews = await db
       .select()
@@ -549,10 +547,8 @@ export default async function coderabbitRoutes(app: FastifyInstance) {
     const { id, reviewId } = request.params as { id: string; reviewId: string }
     const { status } = request.body as { status: string }
 
-    const [project] = await db.select().from(projects).where(eq(projects.id, id)).limit(1)
-    if (!project || project.userId !== request.user!.id) {
-      reply.status(404).send({ error: 'Project not found' }); return
-    }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
 
     await db
       .update(codeReviews)
@@ -568,10 +564,8 @@ export default async function coderabbitRoutes(app: FastifyInstance) {
     const { id, reviewId } = request.params as { id: string; reviewId: string }
     const { fixedIndices } = request.body as { fixedIndices: number[] }
 
-    const [project] = await db.select().from(projects).where(eq(projects.id, id)).limit(1)
-    if (!project || project.userId !== request.user!.id) {
-      reply.status(404).send({ error: 'Project not found' }); return
-    }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
 
     const [review] = await db
       .select()
@@ -617,27 +611,23 @@ export default async function coderabbitRoutes(app: FastifyInstance) {
     if (!paidCheck(request, reply)) return
     const { id } = request.params as { id: string }
 
-    const [project] = await db.select().from(projects).where(eq(projects.id, id)).limit(1)
-    if (!project || project.userId !== request.user!.id) {
-      reply.status(404).send({ error: 'Project not found' }); return
-    }
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
 
     // Clean up stale pending reviews (older than 10 minutes — likely orphaned by server restart)
     try {
       await db.execute(sql`UPDATE code_reviews SET status = 'stale', issues_json = '[{"type":"error","message":"Review was interrupted (server restart or timeout)"}]', resolved_at = NOW()
-         WHERE project_id = ${id} AND user_id = ${request.user!.id} AND status = 'pending' AND created_at < NOW() - INTERVAL '10 minutes'`)
+         WHERE project_id = ${id} AND status = 'pending' AND created_at < NOW() - INTERVAL '10 minutes'`)
     } catch {
       // Non-fatal
     }
 
-    // Find the most recent review for this project (any status)
+    // Find the most recent review for this project (any status, by any collaborator —
+    // a pending review locks the workspace for everyone)
     const [latestReview] = await db
       .select()
       .from(codeReviews)
-      .where(and(
-        eq(codeReviews.projectId, id),
-        eq(codeReviews.userId, request.user!.id),
-      ))
+      .where(eq(codeReviews.projectId, id))
       .orderBy(desc(codeReviews.createdAt))
       .limit(1)
 
@@ -687,14 +677,12 @@ export default async function coderabbitRoutes(app: FastifyInstance) {
     if (!paidCheck(request, reply)) return
     const { id, reviewId } = request.params as { id: string; reviewId: string }
 
-    const [project] = await db.select().from(projects).where(eq(projects.id, id)).limit(1)
-    if (!project || project.userId !== request.user!.id) {
-      reply.status(404).send({ error: 'Project not found' }); return
-    }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
 
     await db
       .delete(codeReviews)
-      .where(and(eq(codeReviews.id, reviewId), eq(codeReviews.projectId, id), eq(codeReviews.userId, request.user!.id)))
+      .where(and(eq(codeReviews.id, reviewId), eq(codeReviews.projectId, id)))
 
     return { success: true }
   })
@@ -0,0 +1,99 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import { randomUUID } from 'crypto'
+import { z } from 'zod'
+import { authMiddleware } from '../middleware/auth.js'
+import { requireProjectRole, hasProjectRole, getWorkspaceDirectory, type ProjectAccess } from '../utils/project-access.js'
+import { collabService, peerColor, type CollabClient } from '../utils/collab-service.js'
+
+const PING_INTERVAL_MS = 30_000
+
+const pathSchema = z.string().min(1).max(1024)
+
+const messageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('open'), path: pathSchema }),
+  z.object({ type: z.literal('close'), path: pathSchema }),
+  z.object({ type: z.literal('update'), path: pathSchema, update: z.string().min(1) }),
+  z.object({ type: z.literal('presence'), path: pathSchema.nullable(), cursor: z.unknown().optional() }),
+])
+
+export async function collabRoutes(app: FastifyInstance) {
+  // Access is checked before the upgrade so refusals are plain HTTP errors
+  const accessByRequest = new WeakMap<FastifyRequest, ProjectAccess>()
+
+  async function loadAccess(request: FastifyRequest, reply: FastifyReply) {
+    const { id } = request.params as { id: string }
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return
+    if (!access.project.linkId) {
+      reply.status(400).send({ message: 'Project has no workspace', statusCode: 400 })
+      return
+    }
+    accessByRequest.set(request, access)
+  }
+
+  // Workspace channel: live document sync for open files, plus presence
+  app.get('/api/projects/:id/collab', { websocket: true, preHandler: [authMiddleware, loadAccess] }, (socket, request) => {
+    const access = accessByRequest.get(request)!
+    const user = request.user!
+
+    const client: CollabClient = {
+      peer: {
+        clientId: randomUUID(),
+        userId: user.id,
+        username: user.username,
+        color: peerColor(user.id),
+        path: null,
+        cursor: null,
+      },
+      projectId: access.project.id,
+      projectDir: getWorkspaceDirectory(access.ownerUsername, access.project.linkId!),
+      canEdit: hasProjectRole(access.role, 'editor'),
+      send(message) {
+        if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message))
+      },
+      disconnect() {
+        socket.close(1008, 'Access revoked')
+      },
+    }
+    collabService.join(client)
+
+    socket.on('message', (raw: Buffer) => {
+      let parsed
+      try {
+        parsed = messageSchema.safeParse(JSON.parse(raw.toString()))
+      } catch {
+        parsed = null
+      }
+      if (!parsed?.success) {
+        client.send({ type: 'error', message: 'Invalid message' })
+        return
+      }
+
+      const message = parsed.data
+      switch (message.type) {
+        case 'open':
+          collabService.open(client, message.path).catch((err) => {
+            app.log.error({ err, path: message.path }, 'Failed to open collaborative document')
+            client.send({ type: 'error', path: message.path, message: 'Failed to open file' })
+          })
+          break
+        case 'close':
+          collabService.close(client, message.path)
+          break
+        case 'update':
+          collabService.update(client, message.path, message.update)
+          break
+        case 'presence':
+          collabService.setPresence(client, message.path, message.cursor)
+          break
+      }
+    })
+
+    // Keep idle connections alive through proxies
+    const ping = setInterval(() => socket.ping(), PING_INTERVAL_MS)
+    socket.on('close', () => {
+      clearInterval(ping)
+      collabService.leave(client)
+    })
+  })
+}
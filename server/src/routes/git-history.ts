@@ -0,0 +1,141 @@
+import type { FastifyInstance } from 'fastify'
+import { and, eq } from 'drizzle-orm'
+import { z } from 'zod'
+import { db } from '../db/index.js'
+import { agentSessions } from '../db/schema/agent-sessions.js'
+import { authMiddleware } from '../middleware/auth.js'
+import { requireProjectRole, getWorkspaceDirectory } from '../utils/project-access.js'
+import { collabService } from '../utils/collab-service.js'
+import { getCommitLog, getCommit, getBlame, revertCommit, restoreFile } from '../utils/git-history-service.js'
+
+const restoreFileSchema = z.object({
+  sha: z.string().regex(/^[0-9a-f]{4,40}$/i, 'Invalid commit'),
+  path: z.string().min(1).max(4096),
+})
+
+export async function gitHistoryRoutes(app: FastifyInstance) {
+  async function agentRunning(projectId: string): Promise<boolean> {
+    const [running] = await db
+      .select({ id: agentSessions.id })
+      .from(agentSessions)
+      .where(and(eq(agentSessions.projectId, projectId), eq(agentSessions.status, 'running')))
+      .limit(1)
+    return !!running
+  }
+
+  // Commit log from HEAD, newest first; `path` gives one file's history
+  app.get('/api/projects/:id/git/commits', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const { skip, limit, path } = request.query as { skip?: string; limit?: string; path?: string }
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+
+    try {
+      return await getCommitLog(getWorkspaceDirectory(access.ownerUsername, project.linkId), {
+        skip: Number(skip) || 0,
+        limit: Number(limit) || undefined,
+        filePath: path || undefined,
+      })
+    } catch (err) {
+      app.log.error({ err, projectId: id }, 'Failed to read git log')
+      return reply.status(500).send({ message: 'Failed to read commit history', statusCode: 500 })
+    }
+  })
+
+  // One commit with a unified diff per file (only `path`'s when given)
+  app.get('/api/projects/:id/git/commits/:sha', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id, sha } = request.params as { id: string; sha: string }
+    const { path } = request.query as { path?: string }
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+
+    try {
+      const commit = await getCommit(getWorkspaceDirectory(access.ownerUsername, project.linkId), sha, path || undefined)
+      if (!commit) return reply.status(404).send({ message: 'Commit not found', statusCode: 404 })
+      return commit
+    } catch (err) {
+      app.log.error({ err, projectId: id, sha }, 'Failed to read git commit')
+      return reply.status(500).send({ message: 'Failed to read commit', statusCode: 500 })
+    }
+  })
+
+  // Who last changed each line of a file, for the editor gutter
+  app.get('/api/projects/:id/git/blame', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const { path } = request.query as { path?: string }
+    if (!path) return reply.status(400).send({ message: 'Missing path query parameter', statusCode: 400 })
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+
+    try {
+      const blame = await getBlame(getWorkspaceDirectory(access.ownerUsername, project.linkId), path)
+      if (!blame) return reply.status(404).send({ message: 'File is not tracked by git', statusCode: 404 })
+      return blame
+    } catch (err) {
+      app.log.error({ err, projectId: id }, 'Failed to run git blame')
+      return reply.status(500).send({ message: 'Failed to read blame', statusCode: 500 })
+    }
+  })
+
+  // Commit the inverse of a past commit on the current branch
+  app.post('/api/projects/:id/git/commits/:sha/revert', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id, sha } = request.params as { id: string; sha: string }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+    if (await agentRunning(id)) {
+      return reply.status(409).send({ message: 'Stop the running agent before reverting a commit.', statusCode: 409 })
+    }
+
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, project.linkId)
+    const user = request.user!
+    let result
+    try {
+      result = await revertCommit(projectDir, sha, { name: user.username, email: user.email })
+    } catch (err) {
+      app.log.error({ err, projectId: id, sha }, 'Failed to revert commit')
+      return reply.status(500).send({ message: 'Failed to revert commit', statusCode: 500 })
+    }
+    if (!result) return reply.status(404).send({ message: 'Commit not found', statusCode: 404 })
+    if ('error' in result) return reply.status(409).send({ message: result.error, statusCode: 409 })
+
+    for (const file of result.files) collabService.fileWritten(project.id, projectDir, file)
+    return { success: true, sha: result.sha, files: result.files }
+  })
+
+  // Put one file back to a past revision (left uncommitted)
+  app.post('/api/projects/:id/git/restore-file', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const parsed = restoreFileSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+    if (await agentRunning(id)) {
+      return reply.status(409).send({ message: 'Stop the running agent before restoring a file.', statusCode: 409 })
+    }
+
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, project.linkId)
+    let result
+    try {
+      result = await restoreFile(projectDir, parsed.data.sha, parsed.data.path)
+    } catch (err) {
+      app.log.error({ err, projectId: id }, 'Failed to restore file from git')
+      return reply.status(500).send({ message: 'Failed to restore file', statusCode: 500 })
+    }
+    if (!result) return reply.status(404).send({ message: 'The file does not exist in that commit', statusCode: 404 })
+
+    collabService.fileWritten(project.id, projectDir, result.path)
+    return { success: true, path: result.path }
+  })
+}
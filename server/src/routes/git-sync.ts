@@ -0,0 +1,266 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import { and, eq } from 'drizzle-orm'
+import { z } from 'zod'
+import { db } from '../db/index.js'
+import { users } from '../db/schema/users.js'
+import { agentSessions } from '../db/schema/agent-sessions.js'
+import { authMiddleware } from '../middleware/auth.js'
+import { requireProjectRole, getWorkspaceDirectory } from '../utils/project-access.js'
+import { collabService } from '../utils/collab-service.js'
+import { tokenRemoteUrl } from '../utils/github-client.js'
+import { decryptSecret } from '../utils/envelope-encryption.js'
+import {
+  getSyncState,
+  isValidBranchName,
+  fetchRemote,
+  pullFromRemote,
+  getConflictVersions,
+  resolveConflict,
+  continueSync,
+  abortSync,
+  type RemoteTarget,
+  type SyncResult,
+} from '../utils/git-sync-service.js'
+
+const pullSchema = z.object({
+  strategy: z.enum(['merge', 'rebase']).default('merge'),
+})
+
+const resolveSchema = z.object({
+  path: z.string().min(1).max(4096),
+  content: z.string().max(5 * 1024 * 1024).optional(),
+  take: z.enum(['ours', 'theirs']).optional(),
+  delete: z.literal(true).optional(),
+}).refine(
+  (body) => [body.content !== undefined, body.take !== undefined, body.delete !== undefined].filter(Boolean).length === 1,
+  'Give exactly one of content, take or delete',
+)
+
+export async function gitSyncRoutes(app: FastifyInstance) {
+  const paidCheck = (request: FastifyRequest, reply: FastifyReply) => {
+    if (request.user?.tier !== 'paid') {
+      reply.status(403).send({ message: 'GitHub integration requires a paid subscription.', statusCode: 403 })
+      return false
+    }
+    return true
+  }
+
+  async function agentRunning(projectId: string): Promise<boolean> {
+    const [running] = await db
+      .select({ id: agentSessions.id })
+      .from(agentSessions)
+      .where(and(eq(agentSessions.projectId, projectId), eq(agentSessions.status, 'running')))
+      .limit(1)
+    return !!running
+  }
+
+  /** The connected repo/branch, with the requesting user's token for private GitHub repos. */
+  async function remoteFor(userId: string, repoUrl: string, branch: string): Promise<RemoteTarget> {
+    const [user] = await db
+      .select({ githubAccessToken: users.githubAccessToken })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1)
+    return { url: user?.githubAccessToken ? tokenRemoteUrl(repoUrl, decryptSecret(user.githubAccessToken)) : repoUrl, branch }
+  }
+
+  /** Let open editors pick up what a pull/continue/abort wrote to disk. */
+  function notifyWritten(projectId: string, projectDir: string, result: SyncResult | { files: string[] }) {
+    const files = 'files' in result ? result.files : 'conflicts' in result ? result.conflicts.map((c) => c.path) : []
+    for (const file of files) collabService.fileWritten(projectId, projectDir, file)
+  }
+
+  // Merge/rebase in progress, its conflicted files, and ahead/behind the remote branch
+  app.get('/api/projects/:id/git/sync', { preHandler: [authMiddleware] }, async (request, reply) => {
+    if (!paidCheck(request, reply)) return reply
+    const { id } = request.params as { id: string }
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+
+    try {
+      const state = await getSyncState(getWorkspaceDirectory(access.ownerUsername, project.linkId), project.repoBranch || 'main')
+      return { ...state, repoUrl: project.repoUrl, repoBranch: project.repoBranch || 'main' }
+    } catch (err) {
+      app.log.error({ err, projectId: id }, 'Failed to read git sync state')
+      return reply.status(500).send({ message: 'Failed to read sync state', statusCode: 500 })
+    }
+  })
+
+  // Update the remote-tracking branch so ahead/behind is current; leaves the workspace alone
+  app.post('/api/projects/:id/git/fetch', { preHandler: [authMiddleware] }, async (request, reply) => {
+    if (!paidCheck(request, reply)) return reply
+    const { id } = request.params as { id: string }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+    if (!project.repoUrl) return reply.status(400).send({ message: 'No repository is connected to this project', statusCode: 400 })
+
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, project.linkId)
+    const branch = project.repoBranch || 'main'
+    if (!(await isValidBranchName(projectDir, branch))) {
+      return reply.status(400).send({ message: 'The connected branch name is invalid', statusCode: 400 })
+    }
+    try {
+      const error = await fetchRemote(projectDir, await remoteFor(request.user!.id, project.repoUrl, branch))
+      if (error) return reply.status(409).send({ message: error.error, statusCode: 409 })
+      return await getSyncState(projectDir, branch)
+    } catch (err) {
+      app.log.error({ err, projectId: id }, 'Failed to fetch from remote')
+      return reply.status(500).send({ message: 'Failed to fetch from the remote', statusCode: 500 })
+    }
+  })
+
+  // Fetch the connected branch and merge or rebase the workspace onto it
+  app.post('/api/projects/:id/git/pull', { preHandler: [authMiddleware] }, async (request, reply) => {
+    if (!paidCheck(request, reply)) return reply
+    const { id } = request.params as { id: string }
+    const parsed = pullSchema.safeParse(request.body ?? {})
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+    if (!project.repoUrl) return reply.status(400).send({ message: 'No repository is connected to this project', statusCode: 400 })
+    if (await agentRunning(id)) {
+      return reply.status(409).send({ message: 'Stop the running agent before pulling.', statusCode: 409 })
+    }
+
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, project.linkId)
+    const branch = project.repoBranch || 'main'
+    if (!(await isValidBranchName(projectDir, branch))) {
+      return reply.status(400).send({ message: 'The connected branch name is invalid', statusCode: 400 })
+    }
+    const user = request.user!
+    let result
+    try {
+      result = await pullFromRemote(
+        projectDir,
+        await remoteFor(user.id, project.repoUrl, branch),
+        parsed.data.strategy,
+        { name: user.username, email: user.email },
+      )
+    } catch (err) {
+      app.log.error({ err, projectId: id }, 'Failed to pull from remote')
+      return reply.status(500).send({ message: 'Failed to pull from the remote', statusCode: 500 })
+    }
+    if ('error' in result) return reply.status(409).send({ message: result.error, statusCode: 409 })
+
+    notifyWritten(project.id, projectDir, result)
+    return result
+  })
+
+  // Base, ours, theirs and the marked-up working copy of one conflicted file
+  app.get('/api/projects/:id/git/conflicts/file', { preHandler: [authMiddleware] }, async (request, reply) => {
+    if (!paidCheck(request, reply)) return reply
+    const { id } = request.params as { id: string }
+    const { path } = request.query as { path?: string }
+    if (!path) return reply.status(400).send({ message: 'Missing path query parameter', statusCode: 400 })
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+
+    try {
+      const versions = await getConflictVersions(getWorkspaceDirectory(access.ownerUsername, project.linkId), path)
+      if (!versions) return reply.status(404).send({ message: 'File is not conflicted', statusCode: 404 })
+      return versions
+    } catch (err) {
+      app.log.error({ err, projectId: id }, 'Failed to read conflict versions')
+      return reply.status(500).send({ message: 'Failed to read the conflicted file', statusCode: 500 })
+    }
+  })
+
+  // Resolve one file: with edited content, one side's version, or by deleting it
+  app.post('/api/projects/:id/git/conflicts/resolve', { preHandler: [authMiddleware] }, async (request, reply) => {
+    if (!paidCheck(request, reply)) return reply
+    const { id } = request.params as { id: string }
+    const parsed = resolveSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+    if (await agentRunning(id)) {
+      return reply.status(409).send({ message: 'Stop the running agent before resolving conflicts.', statusCode: 409 })
+    }
+
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, project.linkId)
+    const { path, content, take } = parsed.data
+    let result
+    try {
+      result = await resolveConflict(
+        projectDir,
+        path,
+        content !== undefined ? { content } : take ? { take } : { delete: true },
+      )
+    } catch (err) {
+      app.log.error({ err, projectId: id }, 'Failed to resolve conflict')
+      return reply.status(500).send({ message: 'Failed to resolve the conflict', statusCode: 500 })
+    }
+    if (!result) return reply.status(404).send({ message: 'File is not conflicted', statusCode: 404 })
+    if ('error' in result) return reply.status(409).send({ message: result.error, statusCode: 409 })
+
+    collabService.fileWritten(project.id, projectDir, result.path)
+    return { success: true, path: result.path }
+  })
+
+  // Commit the resolved merge / move the rebase on (which may stop on the next commit's conflicts)
+  app.post('/api/projects/:id/git/sync/continue', { preHandler: [authMiddleware] }, async (request, reply) => {
+    if (!paidCheck(request, reply)) return reply
+    const { id } = request.params as { id: string }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+    if (await agentRunning(id)) {
+      return reply.status(409).send({ message: 'Stop the running agent before continuing.', statusCode: 409 })
+    }
+
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, project.linkId)
+    const user = request.user!
+    let result
+    try {
+      result = await continueSync(projectDir, { name: user.username, email: user.email })
+    } catch (err) {
+      app.log.error({ err, projectId: id }, 'Failed to continue merge/rebase')
+      return reply.status(500).send({ message: 'Failed to continue the pull', statusCode: 500 })
+    }
+    if ('error' in result) return reply.status(409).send({ message: result.error, statusCode: 409 })
+
+    notifyWritten(project.id, projectDir, result)
+    return result
+  })
+
+  // Abandon the merge/rebase and put the workspace back as it was
+  app.post('/api/projects/:id/git/sync/abort', { preHandler: [authMiddleware] }, async (request, reply) => {
+    if (!paidCheck(request, reply)) return reply
+    const { id } = request.params as { id: string }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+    if (await agentRunning(id)) {
+      return reply.status(409).send({ message: 'Stop the running agent before aborting.', statusCode: 409 })
+    }
+
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, project.linkId)
+    let result
+    try {
+      result = await abortSync(projectDir)
+    } catch (err) {
+      app.log.error({ err, projectId: id }, 'Failed to abort merge/rebase')
+      return reply.status(500).send({ message: 'Failed to abort the pull', statusCode: 500 })
+    }
+    if ('error' in result) return reply.status(409).send({ message: result.error, statusCode: 409 })
+
+    notifyWritten(project.id, projectDir, result)
+    return { success: true }
+  })
+}
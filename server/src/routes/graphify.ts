@@ -1,10 +1,11 @@
 import type { FastifyInstance } from 'fastify'
-import { eq, and } from 'drizzle-orm'
+import { eq } from 'drizzle-orm'
 import { createReadStream, existsSync } from 'fs'
 import { join } from 'path'
 import { db } from '../db/index.js'
 import { projects } from '../db/schema/projects.js'
 import { authMiddleware } from '../middleware/auth.js'
+import { requireProjectRole } from '../utils/project-access.js'
 import {
   buildProjectGraph,
   removeProjectGraph,
@@ -25,22 +26,12 @@ export async function graphifyRoutes(app: FastifyInstance) {
   const isPaid = (request: { user?: { tier?: 'free' | 'paid' | null } }): boolean =>
     (request.user?.tier ?? 'free') === 'paid'
 
-  async function loadOwnedProject(userId: string, id: string) {
-    const [project] = await db
-      .select()
-      .from(projects)
-      .where(and(eq(projects.id, id), eq(projects.userId, userId)))
-      .limit(1)
-    return project ?? null
-  }
-
   // ── Status ──────────────────────────────────────────────────────────────
   app.get('/api/projects/:id/graphify', { preHandler: [authMiddleware] }, async (request, reply) => {
     const { id } = request.params as { id: string }
-    const project = await loadOwnedProject(request.user!.id, id)
-    if (!project) {
-      return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
-    }
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
+    const { project } = access
     return {
       enabled: project.graphifyEnabled,
       status: project.graphifyStatus,
@@ -54,10 +45,10 @@ export async function graphifyRoutes(app: FastifyInstance) {
     if (!isPaid(request)) {
       return reply.status(403).send({ message: 'Graphify requires a paid subscription.', statusCode: 403 })
     }
-    const project = await loadOwnedProject(request.user!.id, id)
-    if (!project) {
-      return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
-    }
+    // A project setting riding on the owner's subscription
+    const access = await requireProjectRole(request, reply, id, 'owner')
+    if (!access) return reply
+    const { project } = access
     if (!project.linkId) {
       return reply.status(400).send({ message: 'Project has no workspace directory yet', statusCode: 400 })
     }
@@ -66,7 +57,7 @@ export async function graphifyRoutes(app: FastifyInstance) {
       .set({ graphifyEnabled: true, graphifyStatus: 'building', updatedAt: new Date() })
       .where(eq(projects.id, id))
 
-    const directory = getWorkspaceDir(request.user!.username, project.linkId)
+    const directory = getWorkspaceDir(access.ownerUsername, project.linkId)
     // Fire-and-forget: the build is no-AI and can take a few seconds.
     void buildProjectGraph(id, directory).catch((err) => {
       app.log.error({ err, projectId: id }, 'Graphify build failed')
@@ -81,13 +72,12 @@ export async function graphifyRoutes(app: FastifyInstance) {
     if (!isPaid(request)) {
       return reply.status(403).send({ message: 'Graphify requires a paid subscription.', statusCode: 403 })
     }
-    const project = await loadOwnedProject(request.user!.id, id)
-    if (!project) {
-      return reply.status(404).send({ message: 'Project not found', statusCode: 404 })
-    }
+    const access = await requireProjectRole(request, reply, id, 'owner')
+    if (!access) return reply
+    const { project } = access
 
     if (project.linkId) {
-      const directory = getWorkspaceDir(request.user!.username, project.linkId)
+      const directory = getWorkspaceDir(access.ownerUsername, project.linkId)
       await removeProjectGraph(id, directory, { clearIntent: true })
     } else {
       await db.update(projects)
@@ -104,12 +94,14 @@ export async function graphifyRoutes(app: FastifyInstance) {
     if (!isPaid(request)) {
       return reply.status(404).send({ message: 'Not found', statusCode: 404 })
     }
-    const project = await loadOwnedProject(request.user!.id, id)
-    if (!project || !project.linkId || project.graphifyStatus !== 'ready') {
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId || project.graphifyStatus !== 'ready') {
       return reply.status(404).send({ message: 'Graph not available', statusCode: 404 })
     }
 
-    const htmlPath = join(getWorkspaceDir(request.user!.username, project.linkId), 'graphify-out', 'graph.html')
+    const htmlPath = join(getWorkspaceDir(access.ownerUsername, project.linkId), 'graphify-out', 'graph.html')
     if (!existsSync(htmlPath)) {
       return reply.status(404).send({ message: 'Graph not available', statusCode: 404 })
     }
@@ -0,0 +1,94 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import { authMiddleware } from '../middleware/auth.js'
+import { hasProjectRole, requireProjectRole, getWorkspaceDirectory, type ProjectAccess } from '../utils/project-access.js'
+import {
+  languageServers,
+  LSP_LANGUAGES,
+  type LanguageServer,
+  type JsonRpcMessage,
+  type LspAttachment,
+  type LspLanguage,
+} from '../bridges/language-server-manager.js'
+
+const PING_INTERVAL_MS = 30_000
+const MAX_MESSAGE_BYTES = 4 * 1024 * 1024
+
+export async function lspRoutes(app: FastifyInstance) {
+  // Access is checked before the upgrade so refusals are plain HTTP errors
+  const accessByRequest = new WeakMap<FastifyRequest, ProjectAccess>()
+
+  async function loadAccess(request: FastifyRequest, reply: FastifyReply) {
+    const { id, language } = request.params as { id: string; language: string }
+    if (!(LSP_LANGUAGES as readonly string[]).includes(language)) {
+      reply.status(404).send({ message: 'No language server for this language', statusCode: 404 })
+      return
+    }
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return
+    if (!access.project.linkId) {
+      reply.status(400).send({ message: 'Project has no workspace', statusCode: 400 })
+      return
+    }
+    accessByRequest.set(request, access)
+  }
+
+  // Language server (LSP over JSON messages) for the project's Java or Kotlin sources
+  app.get('/api/projects/:id/lsp/:language', { websocket: true, preHandler: [authMiddleware, loadAccess] }, (socket, request) => {
+    const access = accessByRequest.get(request)!
+    const language = (request.params as { language: LspLanguage }).language
+    const directory = getWorkspaceDirectory(access.ownerUsername, access.project.linkId!)
+    let closed = false
+    let server: LanguageServer | null = null
+
+    // Messages can arrive while the server starts; chaining on this keeps them in order
+    const attached: Promise<LspAttachment | null> = languageServers
+      .acquire({ directory, language, ownerUsername: access.ownerUsername })
+      .then((acquired) => {
+        if (closed) {
+          languageServers.release(acquired)
+          return null
+        }
+        server = acquired
+        return server.attach(
+          {
+            send: (message) => {
+              if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message))
+            },
+            close: (reason) => socket.close(1011, reason),
+          },
+          hasProjectRole(access.role, 'editor'),
+        )
+      })
+      .catch((err) => {
+        app.log.error({ err, projectId: access.project.id, language }, 'Failed to start language server')
+        socket.close(1011, 'Language server unavailable')
+        return null
+      })
+
+    socket.on('message', (raw: Buffer) => {
+      if (raw.length > MAX_MESSAGE_BYTES) return
+      void attached.then((attachment) => {
+        if (!attachment) return
+        let message: JsonRpcMessage
+        try {
+          message = JSON.parse(raw.toString()) as JsonRpcMessage
+        } catch {
+          return
+        }
+        if (!message || typeof message !== 'object' || message.jsonrpc !== '2.0') return
+        attachment.receive(message)
+      })
+    })
+
+    const ping = setInterval(() => socket.ping(), PING_INTERVAL_MS)
+    socket.on('close', () => {
+      closed = true
+      clearInterval(ping)
+      void attached.then((attachment) => {
+        if (!attachment) return
+        attachment.detach()
+        if (server) languageServers.release(server)
+      })
+    })
+  })
+}
@@ -0,0 +1,242 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { and, asc, eq, ne, or, sql } from 'drizzle-orm'
+import { authMiddleware } from '../middleware/auth.js'
+import { db } from '../db/index.js'
+import { projects } from '../db/schema/projects.js'
+import { users } from '../db/schema/users.js'
+import { projectMembers, projectInvitations } from '../db/schema/project-members.js'
+import { requireProjectRole, getWorkspaceDirectory, type MemberRole } from '../utils/project-access.js'
+import { grantWorkspaceAccess, revokeWorkspaceAccess } from '../utils/system-user.js'
+import { collabService } from '../utils/collab-service.js'
+
+const inviteSchema = z.object({
+  // Username or email of an existing account
+  user: z.string().min(1).max(255),
+  role: z.enum(['editor', 'viewer']),
+})
+
+const updateMemberSchema = z.object({
+  role: z.enum(['editor', 'viewer']),
+})
+
+export async function projectMemberRoutes(app: FastifyInstance) {
+  // Mirror a membership change onto the workspace's filesystem ACLs. Failures
+  // are logged, not surfaced: the app-level role is what the API enforces.
+  async function syncWorkspaceAccess(projectId: string, memberId: string, role: MemberRole | null) {
+    const [row] = await db
+      .select({ linkId: projects.linkId, ownerId: projects.userId, ownerUsername: users.username })
+      .from(projects)
+      .innerJoin(users, eq(projects.userId, users.id))
+      .where(eq(projects.id, projectId))
+      .limit(1)
+    const [member] = await db.select({ username: users.username }).from(users).where(eq(users.id, memberId)).limit(1)
+    if (!row?.linkId || !member) return
+
+    const projectDir = getWorkspaceDirectory(row.ownerUsername, row.linkId)
+    try {
+      if (role) {
+        await grantWorkspaceAccess(row.ownerUsername, member.username, projectDir, role)
+      } else {
+        // Keep traverse on the owner's home while another of their projects is still shared
+        const [other] = await db
+          .select({ projectId: projectMembers.projectId })
+          .from(projectMembers)
+          .innerJoin(projects, eq(projectMembers.projectId, projects.id))
+          .where(and(eq(projectMembers.userId, memberId), eq(projects.userId, row.ownerId), ne(projects.id, projectId)))
+          .limit(1)
+        await revokeWorkspaceAccess(row.ownerUsername, member.username, projectDir, !!other)
+      }
+    } catch (err) {
+      app.log.error({ err, projectId, memberId, role }, 'Failed to update workspace ACLs')
+    }
+  }
+
+  // Owner, members and pending invitations of a project
+  app.get('/api/projects/:id/members', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
+
+    const members = await db
+      .select({ userId: users.id, username: users.username, role: projectMembers.role, createdAt: projectMembers.createdAt })
+      .from(projectMembers)
+      .innerJoin(users, eq(projectMembers.userId, users.id))
+      .where(eq(projectMembers.projectId, id))
+      .orderBy(asc(projectMembers.createdAt))
+
+    const invitations = access.role === 'owner'
+      ? await db
+          .select({ id: projectInvitations.id, userId: users.id, username: users.username, role: projectInvitations.role, createdAt: projectInvitations.createdAt })
+          .from(projectInvitations)
+          .innerJoin(users, eq(projectInvitations.invitedUserId, users.id))
+          .where(eq(projectInvitations.projectId, id))
+          .orderBy(asc(projectInvitations.createdAt))
+      : []
+
+    return {
+      owner: { userId: access.project.userId, username: access.ownerUsername, role: 'owner' as const },
+      members,
+      invitations,
+      role: access.role,
+    }
+  })
+
+  // Invite an existing user by username or email
+  app.post('/api/projects/:id/invitations', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const parsed = inviteSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+    const access = await requireProjectRole(request, reply, id, 'owner')
+    if (!access) return reply
+
+    const identifier = parsed.data.user.trim().toLowerCase()
+    const [invitee] = await db
+      .select({ id: users.id, username: users.username })
+      .from(users)
+      .where(or(sql`lower(${users.username}) = ${identifier}`, sql`lower(${users.email}) = ${identifier}`))
+      .limit(1)
+    if (!invitee) {
+      return reply.status(404).send({ message: 'No user with that username or email', statusCode: 404 })
+    }
+    if (invitee.id === access.project.userId) {
+      return reply.status(409).send({ message: 'The owner already has full access', statusCode: 409 })
+    }
+
+    const [member] = await db
+      .select({ userId: projectMembers.userId })
+      .from(projectMembers)
+      .where(and(eq(projectMembers.projectId, id), eq(projectMembers.userId, invitee.id)))
+      .limit(1)
+    if (member) {
+      return reply.status(409).send({ message: `${invitee.username} is already a member`, statusCode: 409 })
+    }
+
+    const [invitation] = await db
+      .insert(projectInvitations)
+      .values({ projectId: id, invitedUserId: invitee.id, invitedBy: request.user!.id, role: parsed.data.role })
+      .onConflictDoNothing()
+      .returning()
+    if (!invitation) {
+      return reply.status(409).send({ message: `${invitee.username} has already been invited`, statusCode: 409 })
+    }
+
+    return reply.status(201).send({ ...invitation, username: invitee.username })
+  })
+
+  // Revoke a pending invitation
+  app.delete('/api/projects/:id/invitations/:invitationId', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id, invitationId } = request.params as { id: string; invitationId: string }
+    const access = await requireProjectRole(request, reply, id, 'owner')
+    if (!access) return reply
+
+    const deleted = await db
+      .delete(projectInvitations)
+      .where(and(eq(projectInvitations.id, invitationId), eq(projectInvitations.projectId, id)))
+      .returning({ id: projectInvitations.id })
+    if (deleted.length === 0) {
+      return reply.status(404).send({ message: 'Invitation not found', statusCode: 404 })
+    }
+    return reply.status(204).send()
+  })
+
+  // Change a member's role
+  app.patch('/api/projects/:id/members/:userId', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id, userId } = request.params as { id: string; userId: string }
+    const parsed = updateMemberSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+    const access = await requireProjectRole(request, reply, id, 'owner')
+    if (!access) return reply
+
+    const [updated] = await db
+      .update(projectMembers)
+      .set({ role: parsed.data.role })
+      .where(and(eq(projectMembers.projectId, id), eq(projectMembers.userId, userId)))
+      .returning()
+    if (!updated) {
+      return reply.status(404).send({ message: 'Member not found', statusCode: 404 })
+    }
+
+    await syncWorkspaceAccess(id, userId, parsed.data.role)
+    collabService.memberChanged(id, userId, parsed.data.role)
+    return updated
+  })
+
+  // Remove a member — the owner can remove anyone, a member can leave
+  app.delete('/api/projects/:id/members/:userId', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id, userId } = request.params as { id: string; userId: string }
+    const access = await requireProjectRole(request, reply, id, userId === request.user!.id ? 'viewer' : 'owner')
+    if (!access) return reply
+
+    const deleted = await db
+      .delete(projectMembers)
+      .where(and(eq(projectMembers.projectId, id), eq(projectMembers.userId, userId)))
+      .returning({ userId: projectMembers.userId })
+    if (deleted.length === 0) {
+      return reply.status(404).send({ message: 'Member not found', statusCode: 404 })
+    }
+
+    await syncWorkspaceAccess(id, userId, null)
+    collabService.memberChanged(id, userId, null)
+    return reply.status(204).send()
+  })
+
+  // ── Invitations addressed to the current user ──────────────────────
+
+  app.get('/api/invitations', { preHandler: [authMiddleware] }, async (request) => {
+    return db
+      .select({
+        id: projectInvitations.id,
+        projectId: projects.id,
+        projectName: projects.name,
+        role: projectInvitations.role,
+        invitedBy: users.username,
+        createdAt: projectInvitations.createdAt,
+      })
+      .from(projectInvitations)
+      .innerJoin(projects, eq(projectInvitations.projectId, projects.id))
+      .innerJoin(users, eq(projectInvitations.invitedBy, users.id))
+      .where(eq(projectInvitations.invitedUserId, request.user!.id))
+      .orderBy(asc(projectInvitations.createdAt))
+  })
+
+  app.post('/api/invitations/:invitationId/accept', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { invitationId } = request.params as { invitationId: string }
+
+    const member = await db.transaction(async (tx) => {
+      const [invitation] = await tx
+        .delete(projectInvitations)
+        .where(and(eq(projectInvitations.id, invitationId), eq(projectInvitations.invitedUserId, request.user!.id)))
+        .returning()
+      if (!invitation) return null
+      const [row] = await tx
+        .insert(projectMembers)
+        .values({ projectId: invitation.projectId, userId: request.user!.id, role: invitation.role })
+        .onConflictDoUpdate({ target: [projectMembers.projectId, projectMembers.userId], set: { role: invitation.role } })
+        .returning()
+      return row
+    })
+    if (!member) {
+      return reply.status(404).send({ message: 'Invitation not found', statusCode: 404 })
+    }
+
+    await syncWorkspaceAccess(member.projectId, member.userId, member.role as MemberRole)
+    return member
+  })
+
+  app.post('/api/invitations/:invitationId/decline', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { invitationId } = request.params as { invitationId: string }
+    const deleted = await db
+      .delete(projectInvitations)
+      .where(and(eq(projectInvitations.id, invitationId), eq(projectInvitations.invitedUserId, request.user!.id)))
+      .returning({ id: projectInvitations.id })
+    if (deleted.length === 0) {
+      return reply.status(404).send({ message: 'Invitation not found', statusCode: 404 })
+    }
+    return reply.status(204).send()
+  })
+}
@@ -0,0 +1,218 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import { and, desc, eq, isNotNull } from 'drizzle-orm'
+import { z } from 'zod'
+import { db } from '../db/index.js'
+import { users } from '../db/schema/users.js'
+import { agentSessions } from '../db/schema/agent-sessions.js'
+import { assistantJobs } from '../db/schema/assistant-jobs.js'
+import { pullRequests, type PullRequest } from '../db/schema/pull-requests.js'
+import { authMiddleware } from '../middleware/auth.js'
+import { requireProjectRole, getWorkspaceDirectory } from '../utils/project-access.js'
+import { GitHubApiError, parseRepoSlug, tokenRemoteUrl, createPullRequest, getPullRequest } from '../utils/github-client.js'
+import { getSyncState, isValidBranchName, stageAll, commitStaged, pushHeadTo } from '../utils/git-sync-service.js'
+import { scanStagedChanges, unresolvedFindings, type SecretFinding } from '../utils/secret-scanner.js'
+import { decryptOptional } from '../utils/envelope-encryption.js'
+import type { PostSessionArtifact } from '../agents/assistant-types.js'
+
+const createSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(256),
+  body: z.string().max(65536).default(''),
+  branch: z.string().trim().min(1, 'Branch name is required').max(200),
+  draft: z.boolean().default(false),
+  // Secret-scan finding ids the user chose to commit anyway
+  allowedFindings: z.array(z.string()).max(200).optional(),
+})
+
+// Open PRs are re-read from GitHub at most this often when the list is fetched
+const REFRESH_AFTER_MS = 30_000
+const LIST_LIMIT = 10
+
+function toResponse(pr: PullRequest) {
+  return {
+    id: pr.id,
+    number: pr.number,
+    url: pr.url,
+    title: pr.title,
+    state: pr.state,
+    draft: pr.draft,
+    headBranch: pr.headBranch,
+    baseBranch: pr.baseBranch,
+    createdAt: pr.createdAt,
+  }
+}
+
+/** Title and body from the Assistant's analysis of the last agent session. */
+function draftFromAnalysis(artifact: PostSessionArtifact | null): { title: string; body: string } {
+  const summary = artifact?.analysis?.summary?.trim()
+  if (!summary) return { title: '', body: '' }
+  const firstSentence = summary.split(/(?<=[.!?])\s/)[0].replace(/[.!?]$/, '')
+  const issues = artifact?.analysis.issues ?? []
+  const body = [
+    '## Summary',
+    summary,
+    ...(issues.length > 0 ? ['', '## Known issues', ...issues.map((issue) => `- ${issue}`)] : []),
+  ].join('\n')
+  return { title: firstSentence.slice(0, 120), body }
+}
+
+export async function pullRequestRoutes(app: FastifyInstance) {
+  const paidCheck = (request: FastifyRequest, reply: FastifyReply) => {
+    if (request.user?.tier !== 'paid') {
+      reply.status(403).send({ message: 'GitHub integration requires a paid subscription.', statusCode: 403 })
+      return false
+    }
+    return true
+  }
+
+  async function githubToken(userId: string): Promise<string | null> {
+    const [user] = await db
+      .select({ githubAccessToken: users.githubAccessToken })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1)
+    return decryptOptional(user?.githubAccessToken)
+  }
+
+  // Pull requests opened from this workspace, newest first; open ones are refreshed from GitHub
+  app.get('/api/projects/:id/git/pull-requests', { preHandler: [authMiddleware] }, async (request, reply) => {
+    if (!paidCheck(request, reply)) return reply
+    const { id } = request.params as { id: string }
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
+
+    const rows = await db
+      .select()
+      .from(pullRequests)
+      .where(eq(pullRequests.projectId, id))
+      .orderBy(desc(pullRequests.createdAt))
+      .limit(LIST_LIMIT)
+
+    const stale = rows.filter((pr) => pr.state === 'open' && Date.now() - pr.updatedAt.getTime() > REFRESH_AFTER_MS)
+    const token = stale.length > 0 ? await githubToken(request.user!.id) : null
+    if (token) {
+      await Promise.all(stale.map(async (pr) => {
+        const [owner, repo] = pr.repo.split('/')
+        try {
+          const current = await getPullRequest(token, { owner, repo }, pr.number)
+          const [updated] = await db
+            .update(pullRequests)
+            .set({ state: current.state, draft: current.draft, title: current.title, updatedAt: new Date() })
+            .where(eq(pullRequests.id, pr.id))
+            .returning()
+          Object.assign(pr, updated)
+        } catch (err) {
+          // Keep the last known state; the repo may have gone or the token lost access
+          app.log.warn({ err, projectId: id, number: pr.number }, 'Failed to refresh pull request')
+        }
+      }))
+    }
+
+    return { pullRequests: rows.map(toResponse) }
+  })
+
+  // Suggested title/body (from the Assistant's post-session summary) and branch for a new PR
+  app.get('/api/projects/:id/git/pull-requests/draft', { preHandler: [authMiddleware] }, async (request, reply) => {
+    if (!paidCheck(request, reply)) return reply
+    const { id } = request.params as { id: string }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+
+    const [job] = await db
+      .select({ result: assistantJobs.result })
+      .from(assistantJobs)
+      .where(and(eq(assistantJobs.projectId, id), eq(assistantJobs.kind, 'post_session'), isNotNull(assistantJobs.result)))
+      .orderBy(desc(assistantJobs.createdAt))
+      .limit(1)
+
+    const stamp = new Date().toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '-')
+    return {
+      ...draftFromAnalysis((job?.result as PostSessionArtifact | undefined) ?? null),
+      branch: `auroracraft/${stamp}`,
+      baseBranch: access.project.repoBranch || 'main',
+    }
+  })
+
+  // Commit the workspace, push it to a new branch and open a PR against the connected branch
+  app.post('/api/projects/:id/git/pull-requests', { preHandler: [authMiddleware] }, async (request, reply) => {
+    if (!paidCheck(request, reply)) return reply
+    const { id } = request.params as { id: string }
+    const parsed = createSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+    if (!project.repoUrl) return reply.status(400).send({ message: 'No repository is connected to this project', statusCode: 400 })
+    const slug = parseRepoSlug(project.repoUrl)
+    if (!slug) return reply.status(400).send({ message: 'Pull requests are only supported for GitHub repositories', statusCode: 400 })
+
+    const token = await githubToken(request.user!.id)
+    if (!token) return reply.status(400).send({ message: 'GitHub account not connected', statusCode: 400 })
+
+    const [running] = await db
+      .select({ id: agentSessions.id })
+      .from(agentSessions)
+      .where(and(eq(agentSessions.projectId, id), eq(agentSessions.status, 'running')))
+      .limit(1)
+    if (running) {
+      return reply.status(409).send({ message: 'Stop the running agent before opening a pull request.', statusCode: 409 })
+    }
+
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, project.linkId)
+    const { title, body, branch, draft, allowedFindings } = parsed.data
+    const baseBranch = project.repoBranch || 'main'
+    if (!(await isValidBranchName(projectDir, branch))) {
+      return reply.status(400).send({ message: 'Invalid branch name', statusCode: 400 })
+    }
+    if (branch === baseBranch) {
+      return reply.status(400).send({ message: `Pick a branch other than ${baseBranch}`, statusCode: 400 })
+    }
+
+    const user = request.user!
+    let pr
+    let warnings: SecretFinding[] = []
+    try {
+      if ((await getSyncState(projectDir, baseBranch)).operation) {
+        return reply.status(409).send({ message: 'Finish or abort the pull in progress first.', statusCode: 409 })
+      }
+      if (await stageAll(projectDir)) {
+        const scan = unresolvedFindings(await scanStagedChanges(projectDir), allowedFindings)
+        warnings = scan.warnings
+        if (scan.blocking.length > 0) {
+          return reply.status(409).send({ message: 'Possible secrets in the changes to commit', statusCode: 409, findings: [...scan.blocking, ...scan.warnings] })
+        }
+        await commitStaged(projectDir, title, { name: user.username, email: user.email })
+      }
+      const pushError = await pushHeadTo(projectDir, { url: tokenRemoteUrl(project.repoUrl, token), branch })
+      if (pushError) return reply.status(409).send({ message: pushError.error, statusCode: 409 })
+      pr = await createPullRequest(token, slug, { title, body, head: branch, base: baseBranch, draft })
+    } catch (err) {
+      if (err instanceof GitHubApiError) {
+        // e.g. 422 "No commits between main and <branch>"; the branch stays pushed
+        return reply.status(err.status === 422 ? 409 : 502).send({ message: `GitHub: ${err.message}`, statusCode: err.status === 422 ? 409 : 502 })
+      }
+      app.log.error({ err, projectId: id }, 'Failed to open pull request')
+      return reply.status(500).send({ message: 'Failed to open the pull request', statusCode: 500 })
+    }
+
+    const [row] = await db
+      .insert(pullRequests)
+      .values({
+        projectId: id,
+        userId: user.id,
+        repo: `${slug.owner}/${slug.repo}`,
+        number: pr.number,
+        url: pr.url,
+        title: pr.title,
+        headBranch: pr.headBranch,
+        baseBranch: pr.baseBranch,
+        state: pr.state,
+        draft: pr.draft,
+      })
+      .returning()
+    // Heuristic secret-scan hits don't stop the PR but are still worth a look
+    return { ...toResponse(row), warnings }
+  })
+}
@@ -0,0 +1,119 @@
+import type { FastifyInstance } from 'fastify'
+import { z } from 'zod'
+import { authMiddleware } from '../middleware/auth.js'
+import { requireProjectRole, getWorkspaceDirectory } from '../utils/project-access.js'
+import { collabService } from '../utils/collab-service.js'
+import { searchWorkspace, replaceInWorkspace, type SearchQuery } from '../utils/workspace-search.js'
+
+const queryFields = {
+  query: z.string().min(1).max(1000),
+  regex: z.boolean().default(false),
+  caseSensitive: z.boolean().default(false),
+  wholeWord: z.boolean().default(false),
+  include: z.string().max(1000).optional(),
+  exclude: z.string().max(1000).optional(),
+}
+
+const previewSchema = z.object({
+  ...queryFields,
+  replacement: z.string().max(10000),
+})
+
+const replaceSchema = previewSchema.extend({
+  /** Limit the replace to these files (project-relative) */
+  paths: z.array(z.string().min(1)).max(5000).optional(),
+})
+
+const flag = (value: string | undefined) => value === 'true' || value === '1'
+
+export async function searchRoutes(app: FastifyInstance) {
+  // Search project files: literal or regex, optional case/whole-word, include/exclude globs
+  app.get('/api/projects/:id/search', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const { q, regex, case: caseSensitive, word, include, exclude } = request.query as Record<string, string | undefined>
+    if (!q) {
+      return reply.status(400).send({ message: 'Missing q query parameter', statusCode: 400 })
+    }
+    if (q.length > 1000) {
+      return reply.status(400).send({ message: 'Search text is too long', statusCode: 400 })
+    }
+
+    const access = await requireProjectRole(request, reply, id, 'viewer')
+    if (!access) return reply
+    if (!access.project.linkId) {
+      return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+    }
+
+    const query: SearchQuery = {
+      query: q,
+      regex: flag(regex),
+      caseSensitive: flag(caseSensitive),
+      wholeWord: flag(word),
+      include,
+      exclude,
+    }
+    const result = await searchWorkspace(getWorkspaceDirectory(access.ownerUsername, access.project.linkId), query)
+    if ('error' in result) {
+      return reply.status(400).send({ message: result.error, statusCode: 400 })
+    }
+    return result
+  })
+
+  // What a replace would change: matches with their replaced previews
+  app.post('/api/projects/:id/search/replace/preview', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const parsed = previewSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+    if (!access.project.linkId) {
+      return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+    }
+
+    const { replacement, ...query } = parsed.data
+    const result = await searchWorkspace(getWorkspaceDirectory(access.ownerUsername, access.project.linkId), query, replacement)
+    if ('error' in result) {
+      return reply.status(400).send({ message: result.error, statusCode: 400 })
+    }
+    return result
+  })
+
+  // Replace in every matching file (or only `paths`) and write the files back
+  app.post('/api/projects/:id/search/replace', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const parsed = replaceSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+    const { project } = access
+    if (!project.linkId) {
+      return reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+    }
+
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, project.linkId)
+    const { replacement, paths, ...query } = parsed.data
+    let result
+    try {
+      result = await replaceInWorkspace(projectDir, query, replacement, paths)
+    } catch (err) {
+      app.log.error({ err, projectId: id }, 'Search and replace failed')
+      return reply.status(500).send({ message: 'Failed to write files', statusCode: 500 })
+    }
+    if ('error' in result) {
+      return reply.status(400).send({ message: result.error, statusCode: 400 })
+    }
+
+    // Merged into the live documents of anyone who has the files open
+    for (const file of result.files) collabService.fileWritten(project.id, projectDir, file.path)
+    return {
+      files: result.files,
+      totalReplacements: result.files.reduce((sum, f) => sum + f.replacements, 0),
+    }
+  })
+}
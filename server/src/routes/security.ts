@@ -0,0 +1,186 @@
+import type { FastifyInstance, FastifyReply } from 'fastify'
+import { z } from 'zod'
+import { and, desc, eq, gt, ne } from 'drizzle-orm'
+import { db } from '../db/index.js'
+import { users } from '../db/schema/users.js'
+import { sessions } from '../db/schema/sessions.js'
+import { authMiddleware } from '../middleware/auth.js'
+import { verifyPassword } from '../utils/password.js'
+import { totpUri } from '../utils/totp.js'
+import {
+  beginTotpSetup,
+  enableTotp,
+  disableTotp,
+  regenerateRecoveryCodes,
+  remainingRecoveryCodes,
+  secondFactorThrottled,
+  verifySecondFactor,
+} from '../utils/two-factor.js'
+import { describeUserAgent } from '../utils/user-agent.js'
+import { queueMail } from '../utils/mail-service.js'
+import { twoFactorChangedMail } from '../utils/mail-templates.js'
+
+const passwordSchema = z.object({
+  password: z.string().min(1).max(128),
+})
+
+const codeSchema = z.object({
+  code: z.string().min(1).max(32),
+})
+
+const disableSchema = passwordSchema.merge(codeSchema)
+
+function throttled(reply: FastifyReply) {
+  return reply.status(429).send({ message: 'Too many incorrect codes. Try again in a few minutes.', statusCode: 429 })
+}
+
+// Account security: TOTP two-factor authentication and the signed-in sessions list
+export async function securityRoutes(app: FastifyInstance) {
+  async function passwordMatches(userId: string, password: string): Promise<boolean> {
+    const [user] = await db.select({ passwordHash: users.passwordHash }).from(users).where(eq(users.id, userId)).limit(1)
+    return !!user && verifyPassword(user.passwordHash, password)
+  }
+
+  // ── Two-factor authentication ──────────────────────────────────────────────
+
+  app.get('/api/auth/2fa', { preHandler: [authMiddleware] }, async (request) => {
+    const [user] = await db
+      .select({ enabledAt: users.totpEnabledAt })
+      .from(users)
+      .where(eq(users.id, request.user!.id))
+      .limit(1)
+    return {
+      enabled: !!user?.enabledAt,
+      enabledAt: user?.enabledAt ?? null,
+      recoveryCodesRemaining: user?.enabledAt ? await remainingRecoveryCodes(request.user!.id) : 0,
+    }
+  })
+
+  // New secret for the authenticator app. Nothing is enforced until /enable.
+  app.post('/api/auth/2fa/setup', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const parsed = passwordSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: 'Enter your password', statusCode: 400 })
+    }
+    const user = request.user!
+
+    if (!(await passwordMatches(user.id, parsed.data.password))) {
+      return reply.status(401).send({ message: 'Incorrect password', statusCode: 401 })
+    }
+    const [row] = await db.select({ enabledAt: users.totpEnabledAt }).from(users).where(eq(users.id, user.id)).limit(1)
+    if (row?.enabledAt) {
+      return reply.status(409).send({ message: 'Two-factor authentication is already on', statusCode: 409 })
+    }
+
+    const secret = await beginTotpSetup(user.id)
+    return { secret, uri: totpUri(secret, user.email) }
+  })
+
+  // Confirm the app is set up by entering its current code; returns the recovery codes once
+  app.post('/api/auth/2fa/enable', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const parsed = codeSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: 'Enter the 6-digit code from your app', statusCode: 400 })
+    }
+    const user = request.user!
+    if (secondFactorThrottled(user.id)) return throttled(reply)
+
+    const recoveryCodes = await enableTotp(user.id, parsed.data.code)
+    if (!recoveryCodes) {
+      return reply.status(400).send({ message: 'That code didn\'t match. Check the time on your device and try again.', statusCode: 400 })
+    }
+
+    queueMail(user.email, twoFactorChangedMail(user.username, true, new Date(), request.ip))
+    return { recoveryCodes }
+  })
+
+  app.post('/api/auth/2fa/disable', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const parsed = disableSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: 'Enter your password and a two-factor code', statusCode: 400 })
+    }
+    const user = request.user!
+    if (secondFactorThrottled(user.id)) return throttled(reply)
+
+    if (!(await passwordMatches(user.id, parsed.data.password))) {
+      return reply.status(401).send({ message: 'Incorrect password', statusCode: 401 })
+    }
+    if (!(await verifySecondFactor(user.id, parsed.data.code))) {
+      return reply.status(401).send({ message: 'Invalid two-factor code', statusCode: 401 })
+    }
+
+    await disableTotp(user.id)
+    queueMail(user.email, twoFactorChangedMail(user.username, false, new Date(), request.ip))
+    return { success: true }
+  })
+
+  // Replace every recovery code (used or not) with a fresh set
+  app.post('/api/auth/2fa/recovery-codes', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const parsed = codeSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: 'Enter a two-factor code', statusCode: 400 })
+    }
+    const user = request.user!
+    if (secondFactorThrottled(user.id)) return throttled(reply)
+
+    if (!(await verifySecondFactor(user.id, parsed.data.code))) {
+      return reply.status(401).send({ message: 'Invalid two-factor code', statusCode: 401 })
+    }
+    return { recoveryCodes: await regenerateRecoveryCodes(user.id) }
+  })
+
+  // ── Sessions ───────────────────────────────────────────────────────────────
+
+  app.get('/api/auth/sessions', { preHandler: [authMiddleware] }, async (request) => {
+    const rows = await db
+      .select({
+        id: sessions.id,
+        userAgent: sessions.userAgent,
+        ipAddress: sessions.ipAddress,
+        createdAt: sessions.createdAt,
+        lastSeenAt: sessions.lastSeenAt,
+        expiresAt: sessions.expiresAt,
+      })
+      .from(sessions)
+      .where(and(eq(sessions.userId, request.user!.id), gt(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.lastSeenAt))
+
+    return {
+      sessions: rows.map((row) => ({
+        ...row,
+        device: describeUserAgent(row.userAgent),
+        current: row.id === request.sessionId,
+      })),
+    }
+  })
+
+  // Revoke one session. Revoking the current one signs this browser out.
+  app.delete('/api/auth/sessions/:sessionId', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { sessionId } = request.params as { sessionId: string }
+    if (!z.string().uuid().safeParse(sessionId).success) {
+      return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
+    }
+
+    const deleted = await db
+      .delete(sessions)
+      .where(and(eq(sessions.id, sessionId), eq(sessions.userId, request.user!.id)))
+      .returning({ id: sessions.id })
+    if (deleted.length === 0) {
+      return reply.status(404).send({ message: 'Session not found', statusCode: 404 })
+    }
+
+    if (sessionId === request.sessionId) {
+      reply.clearCookie('session', { path: '/' })
+    }
+    return { success: true }
+  })
+
+  // Revoke every session except the one making the request
+  app.delete('/api/auth/sessions', { preHandler: [authMiddleware] }, async (request) => {
+    const deleted = await db
+      .delete(sessions)
+      .where(and(eq(sessions.userId, request.user!.id), ne(sessions.id, request.sessionId!)))
+      .returning({ id: sessions.id })
+    return { revoked: deleted.length }
+  })
+}
@@ -0,0 +1,113 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import { z } from 'zod'
+import { and, eq } from 'drizzle-orm'
+import { authMiddleware } from '../middleware/auth.js'
+import { db } from '../db/index.js'
+import { agentSessions } from '../db/schema/agent-sessions.js'
+import { requireProjectRole, getWorkspaceDirectory, type ProjectRole } from '../utils/project-access.js'
+import { getStagingDirectory, getStagedChanges, acceptStagedFiles, rejectStagedFiles } from '../utils/staging-service.js'
+
+type SessionParams = { projectId: string; sessionId: string }
+
+const reviewSchema = z.object({
+  paths: z.array(z.string().min(1).max(1024)).min(1).max(1000),
+})
+
+export async function stagedChangesRoutes(app: FastifyInstance) {
+  // Staged session of a project the user holds at least `minRole` on, with the
+  // project and staging directories. Replies and returns null otherwise.
+  async function loadStagedSession(request: FastifyRequest, reply: FastifyReply, projectId: string, sessionId: string, minRole: ProjectRole) {
+    const access = await requireProjectRole(request, reply, projectId, minRole)
+    if (!access) return null
+    const [session] = await db
+      .select()
+      .from(agentSessions)
+      .where(and(eq(agentSessions.id, sessionId), eq(agentSessions.projectId, projectId)))
+      .limit(1)
+    if (!session || session.mode !== 'staged' || !access.project.linkId) {
+      reply.status(404).send({ message: 'Staged session not found', statusCode: 404 })
+      return null
+    }
+    const projectDir = getWorkspaceDirectory(access.ownerUsername, access.project.linkId)
+    return { project: access.project, session, projectDir, stagingDir: getStagingDirectory(projectDir, session.id) }
+  }
+
+  // Edits a staged session has made that are still waiting for review
+  app.get('/api/projects/:projectId/agent/sessions/:sessionId/staged', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { projectId, sessionId } = request.params as SessionParams
+    const staged = await loadStagedSession(request, reply, projectId, sessionId, 'viewer')
+    if (!staged) return reply
+
+    try {
+      const { files } = await getStagedChanges(staged.stagingDir)
+      return { files }
+    } catch (err) {
+      app.log.error({ err, sessionId }, 'Failed to list staged changes')
+      return reply.status(500).send({ message: 'Failed to read staged changes', statusCode: 500 })
+    }
+  })
+
+  // Unified diff of one staged file against the project's version of it
+  app.get('/api/projects/:projectId/agent/sessions/:sessionId/staged/diff', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { projectId, sessionId } = request.params as SessionParams
+    const { path } = request.query as { path?: string }
+    if (!path) return reply.status(400).send({ message: 'path is required', statusCode: 400 })
+
+    const staged = await loadStagedSession(request, reply, projectId, sessionId, 'viewer')
+    if (!staged) return reply
+
+    try {
+      const { files } = await getStagedChanges(staged.stagingDir)
+      const file = files.find((f) => f.path === path)
+      if (!file) return reply.status(404).send({ message: 'No pending change for that file', statusCode: 404 })
+
+      const { patch, truncated } = await getStagedChanges(staged.stagingDir, file.oldPath ? [file.oldPath, file.path] : [file.path])
+      return { ...file, patch, truncated }
+    } catch (err) {
+      app.log.error({ err, sessionId, path }, 'Failed to diff staged file')
+      return reply.status(500).send({ message: 'Failed to read staged changes', statusCode: 500 })
+    }
+  })
+
+  async function review(request: FastifyRequest, reply: FastifyReply, action: 'accept' | 'reject') {
+    const { projectId, sessionId } = request.params as SessionParams
+    const parsed = reviewSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+
+    const staged = await loadStagedSession(request, reply, projectId, sessionId, 'editor')
+    if (!staged) return reply
+    if (staged.session.status === 'running') {
+      return reply.status(409).send({ message: 'Wait for the agent to finish before reviewing its changes.', statusCode: 409 })
+    }
+
+    try {
+      const { files } = await getStagedChanges(staged.stagingDir)
+      const byPath = new Map(files.map((f) => [f.path, f]))
+      const missing = parsed.data.paths.find((p) => !byPath.has(p))
+      if (missing) {
+        return reply.status(400).send({ message: `No pending change for ${missing}`, statusCode: 400 })
+      }
+
+      const selected = parsed.data.paths.map((p) => byPath.get(p)!)
+      if (action === 'accept') {
+        await acceptStagedFiles(staged.projectDir, staged.stagingDir, selected)
+      } else {
+        await rejectStagedFiles(staged.stagingDir, selected)
+      }
+      return { success: true, files: files.filter((f) => !parsed.data.paths.includes(f.path)) }
+    } catch (err) {
+      app.log.error({ err, sessionId, action }, 'Failed to review staged changes')
+      return reply.status(500).send({ message: `Failed to ${action} staged changes`, statusCode: 500 })
+    }
+  }
+
+  // Apply staged files to the project directory
+  app.post('/api/projects/:projectId/agent/sessions/:sessionId/staged/accept', { preHandler: [authMiddleware] }, (request, reply) =>
+    review(request, reply, 'accept'))
+
+  // Discard staged files
+  app.post('/api/projects/:projectId/agent/sessions/:sessionId/staged/reject', { preHandler: [authMiddleware] }, (request, reply) =>
+    review(request, reply, 'reject'))
+}
@@ -0,0 +1,85 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import { z } from 'zod'
+import { authMiddleware } from '../middleware/auth.js'
+import { requireProjectRole, getWorkspaceDirectory, type ProjectRole } from '../utils/project-access.js'
+import { collabService } from '../utils/collab-service.js'
+import { applySyncChanges, buildManifest, readSyncFiles, MAX_TRANSFER_BYTES } from '../utils/workspace-sync.js'
+
+const sha256Hex = z.string().regex(/^[0-9a-f]{64}$/, 'Invalid hash')
+
+const downloadSchema = z.object({
+  paths: z.array(z.string().min(1).max(1024)).min(1).max(1000),
+})
+
+const uploadSchema = z.object({
+  changes: z.array(z.object({
+    path: z.string().min(1).max(1024),
+    baseHash: sha256Hex.nullable(),
+    // base64; null deletes the file
+    content: z.string().nullable(),
+  })).min(1).max(500),
+})
+
+// base64 of MAX_TRANSFER_BYTES plus JSON overhead
+const UPLOAD_BODY_LIMIT = Math.ceil(MAX_TRANSFER_BYTES * 4 / 3) + 1024 * 1024
+
+/** Workspace of a project the user holds `minRole` on; a bulk copy of the sources is a paid feature, like the ZIP download. */
+async function syncWorkspace(request: FastifyRequest, reply: FastifyReply, minRole: ProjectRole) {
+  if ((request.user!.tier ?? 'free') === 'free') {
+    reply.status(403).send({ message: 'Folder sync requires a paid subscription', statusCode: 403 })
+    return null
+  }
+  const { id } = request.params as { id: string }
+  const access = await requireProjectRole(request, reply, id, minRole)
+  if (!access) return null
+  if (!access.project.linkId) {
+    reply.status(404).send({ message: 'Project directory not found', statusCode: 404 })
+    return null
+  }
+  return { projectId: access.project.id, directory: getWorkspaceDirectory(access.ownerUsername, access.project.linkId) }
+}
+
+export async function syncRoutes(app: FastifyInstance) {
+  // Every synced file with its sha256, plus the rules for what is synced
+  app.get('/api/projects/:id/sync/manifest', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const workspace = await syncWorkspace(request, reply, 'viewer')
+    if (!workspace) return reply
+    return buildManifest(workspace.directory)
+  })
+
+  // File contents (base64), a batch at a time
+  app.post('/api/projects/:id/sync/download', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const parsed = downloadSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+    const workspace = await syncWorkspace(request, reply, 'viewer')
+    if (!workspace) return reply
+    return { files: await readSyncFiles(workspace.directory, parsed.data.paths) }
+  })
+
+  // Write or delete files; a change made against an outdated hash is returned as a conflict
+  app.post('/api/projects/:id/sync/upload', { preHandler: [authMiddleware], bodyLimit: UPLOAD_BODY_LIMIT }, async (request, reply) => {
+    const parsed = uploadSchema.safeParse(request.body)
+    if (!parsed.success) {
+      return reply.status(400).send({ message: parsed.error.issues[0].message, statusCode: 400 })
+    }
+    const workspace = await syncWorkspace(request, reply, 'editor')
+    if (!workspace) return reply
+
+    let result
+    try {
+      // Merged into (or, for a delete, closes) the live document if someone has the file open
+      result = await applySyncChanges(workspace.directory, parsed.data.changes, (path, deleted) => deleted
+        ? collabService.fileDeleted(workspace.projectId, workspace.directory, path)
+        : collabService.fileWritten(workspace.projectId, workspace.directory, path))
+    } catch (err) {
+      app.log.error({ err, projectId: workspace.projectId }, 'Sync upload failed')
+      return reply.status(500).send({ message: 'Failed to write files', statusCode: 500 })
+    }
+    if ('error' in result) {
+      return reply.status(400).send({ message: result.error, statusCode: 400 })
+    }
+    return result
+  })
+}
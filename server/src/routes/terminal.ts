@@ -0,0 +1,129 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import { z } from 'zod'
+import { and, desc, eq } from 'drizzle-orm'
+import { authMiddleware } from '../middleware/auth.js'
+import { db } from '../db/index.js'
+import { terminalCommands } from '../db/schema/terminal-sessions.js'
+import { requireProjectRole, getWorkspaceDirectory, type ProjectAccess } from '../utils/project-access.js'
+import { openTerminal, type TerminalSession, type TerminalServerMessage } from '../utils/terminal-service.js'
+
+const PING_INTERVAL_MS = 30_000
+
+const messageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('run'), command: z.string().max(8192) }),
+  z.object({ type: z.literal('input'), data: z.string().max(65536) }),
+  z.object({ type: z.literal('resize'), cols: z.number().int().min(10).max(500), rows: z.number().int().min(2).max(200) }),
+])
+
+export async function terminalRoutes(app: FastifyInstance) {
+  // Access is checked before the upgrade so refusals are plain HTTP errors
+  const accessByRequest = new WeakMap<FastifyRequest, ProjectAccess>()
+
+  async function loadAccess(request: FastifyRequest, reply: FastifyReply) {
+    const { id } = request.params as { id: string }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return
+    if (!access.project.linkId) {
+      reply.status(400).send({ message: 'Project has no workspace', statusCode: 400 })
+      return
+    }
+    accessByRequest.set(request, access)
+  }
+
+  // Workspace terminal: sandboxed commands as the project's system user
+  app.get('/api/projects/:id/terminal', { websocket: true, preHandler: [authMiddleware, loadAccess] }, (socket, request) => {
+    const access = accessByRequest.get(request)!
+    const user = request.user!
+    const send = (message: TerminalServerMessage) => {
+      if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message))
+    }
+
+    // Messages can arrive before the session exists; chaining on this keeps them in order
+    const opened: Promise<TerminalSession | null> = openTerminal({
+      projectId: access.project.id,
+      userId: user.id,
+      username: user.username,
+      ownerUsername: access.ownerUsername,
+      projectDir: getWorkspaceDirectory(access.ownerUsername, access.project.linkId!),
+      javaVersion: access.project.javaVersion,
+      compiler: access.project.compiler,
+      send,
+      close: () => socket.close(1000),
+    }).then((result) => {
+      if ('error' in result) {
+        send({ type: 'closed', reason: result.error })
+        socket.close(1000)
+        return null
+      }
+      return result.terminal
+    }).catch((err) => {
+      app.log.error({ err, projectId: access.project.id }, 'Failed to open terminal')
+      send({ type: 'closed', reason: 'Failed to open the terminal' })
+      socket.close(1011)
+      return null
+    })
+
+    socket.on('message', (raw: Buffer) => {
+      void opened.then(async (terminal) => {
+        if (!terminal) return
+        let parsed
+        try {
+          parsed = messageSchema.safeParse(JSON.parse(raw.toString()))
+        } catch {
+          parsed = null
+        }
+        if (!parsed?.success) return
+
+        const message = parsed.data
+        switch (message.type) {
+          case 'run':
+            await terminal.run(message.command).catch((err) => {
+              app.log.error({ err, projectId: access.project.id }, 'Terminal command failed')
+              send({ type: 'output', data: '[AuroraCraft] Failed to run the command.\r\n' })
+              send({ type: 'exit', code: null, cwd: '' })
+            })
+            break
+          case 'input':
+            terminal.input(message.data)
+            break
+          case 'resize':
+            terminal.resize(message.cols, message.rows)
+            break
+        }
+      })
+    })
+
+    const ping = setInterval(() => socket.ping(), PING_INTERVAL_MS)
+    socket.on('close', () => {
+      clearInterval(ping)
+      void opened.then((terminal) => terminal?.close())
+    })
+  })
+
+  // Command audit trail: the owner sees everyone's commands, editors their own
+  app.get('/api/projects/:id/terminal/commands', { preHandler: [authMiddleware] }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const access = await requireProjectRole(request, reply, id, 'editor')
+    if (!access) return reply
+
+    const { limit: rawLimit } = request.query as { limit?: string }
+    const limit = Math.min(Math.max(Number(rawLimit) || 100, 1), 500)
+    return db
+      .select({
+        id: terminalCommands.id,
+        username: terminalCommands.username,
+        command: terminalCommands.command,
+        cwd: terminalCommands.cwd,
+        status: terminalCommands.status,
+        exitCode: terminalCommands.exitCode,
+        startedAt: terminalCommands.startedAt,
+        finishedAt: terminalCommands.finishedAt,
+      })
+      .from(terminalCommands)
+      .where(access.role === 'owner'
+        ? eq(terminalCommands.projectId, id)
+        : and(eq(terminalCommands.projectId, id), eq(terminalCommands.userId, request.user!.id)))
+      .orderBy(desc(terminalCommands.startedAt))
+      .limit(limit)
+  })
+}
@@ -0,0 +1,123 @@
+/**
+ * Personal access tokens: creation, lookup and which routes a scope opens.
+ *
+ * Scopes are checked once, in the auth middleware, against the matched route
+ * pattern rather than in every handler. Token access is deny-by-default: a
+ * route that no rule below covers (account settings, admin, terminals, member
+ * management…) only accepts the session cookie. Project roles still apply on
+ * top — a token can never do more than its owner could in the browser.
+ */
+import { createHash, randomBytes } from 'crypto'
+import { and, eq, gt, isNull, or } from 'drizzle-orm'
+import { db } from '../db/index.js'
+import { personalAccessTokens, type TokenScope } from '../db/schema/personal-access-tokens.js'
+
+export type { TokenScope }
+
+export const TOKEN_SCOPES: Record<TokenScope, string> = {
+  'projects:read': 'List projects and read files, git history and search results',
+  'projects:write': 'Create projects, edit files, push and pull, request code reviews',
+  'agent:read': 'Read agent sessions and follow their live output',
+  'agent:write': 'Send prompts to the agent, answer its questions and cancel runs',
+  'builds:read': 'Read builds and download compiled JARs',
+  'builds:write': 'Start and cancel builds',
+}
+
+export const TOKEN_PREFIX = 'acp_'
+export const MAX_TOKENS_PER_USER = 50
+// last_used_at is only rewritten when it is at least this stale
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+// ── Route rules ──────────────────────────────────────────────────────────────
+
+// 'any' = any valid token; null = not available to tokens
+type RuleScope = TokenScope | 'any' | null
+
+interface RouteRule {
+  pattern: RegExp
+  read: RuleScope
+  write: RuleScope
+}
+
+// First match wins; patterns are Fastify route URLs (`/api/projects/:id/...`)
+const ROUTE_RULES: RouteRule[] = [
+  { pattern: /^\/api\/(auth\/me|ai\/models|user\/tokens)$/, read: 'any', write: null },
+  { pattern: /^\/api\/projects\/:\w+\/(agent|assistant)(\/|$)/, read: 'agent:read', write: 'agent:write' },
+  { pattern: /^\/api\/projects\/:\w+\/(builds|jars|diagnostics)(\/|$)/, read: 'builds:read', write: 'builds:write' },
+  // Interactive sockets and sharing stay browser-only
+  { pattern: /^\/api\/projects\/:\w+\/(terminal|lsp|collab|members|invitations)(\/|$)/, read: null, write: null },
+  // Sync downloads are POSTs (long path lists) that only read
+  { pattern: /^\/api\/projects\/:\w+\/sync\/(manifest|download)$/, read: 'projects:read', write: 'projects:read' },
+  { pattern: /^\/api\/projects(\/|$)/, read: 'projects:read', write: 'projects:write' },
+  { pattern: /^\/api\/community\//, read: 'any', write: 'projects:write' },
+]
+
+/** The scope a request needs when made with a token; null if tokens can't call it at all. */
+export function requiredScope(method: string, routeUrl: string | undefined): TokenScope | 'any' | null {
+  if (!routeUrl) return null
+  const rule = ROUTE_RULES.find((r) => r.pattern.test(routeUrl))
+  if (!rule) return null
+  return method === 'GET' || method === 'HEAD' ? rule.read : rule.write
+}
+
+export function scopeGranted(scopes: TokenScope[], required: TokenScope | 'any'): boolean {
+  if (required === 'any') return true
+  if (scopes.includes(required)) return true
+  // write includes read
+  return required.endsWith(':read') && scopes.includes(required.replace(/:read$/, ':write') as TokenScope)
+}
+
+// ── Storage ──────────────────────────────────────────────────────────────────
+
+/** Store a new token; the plain token is returned once and never again. */
+export async function createAccessToken(
+  userId: string,
+  name: string,
+  scopes: TokenScope[],
+  expiresAt: Date | null,
+): Promise<{ id: string; token: string; tokenPrefix: string; createdAt: Date }> {
+  const token = TOKEN_PREFIX + randomBytes(30).toString('base64url')
+  const tokenPrefix = token.slice(0, 12)
+  const [row] = await db
+    .insert(personalAccessTokens)
+    .values({ userId, name, scopes, expiresAt, tokenHash: hashToken(token), tokenPrefix })
+    .returning({ id: personalAccessTokens.id, createdAt: personalAccessTokens.createdAt })
+  return { id: row.id, token, tokenPrefix, createdAt: row.createdAt }
+}
+
+export interface ResolvedAccessToken {
+  id: string
+  userId: string
+  scopes: TokenScope[]
+  lastUsedAt: Date | null
+}
+
+/** Look up an unexpired token by its plain value. */
+export async function resolveAccessToken(token: string): Promise<ResolvedAccessToken | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) return null
+  const [row] = await db
+    .select({
+      id: personalAccessTokens.id,
+      userId: personalAccessTokens.userId,
+      scopes: personalAccessTokens.scopes,
+      lastUsedAt: personalAccessTokens.lastUsedAt,
+    })
+    .from(personalAccessTokens)
+    .where(and(
+      eq(personalAccessTokens.tokenHash, hashToken(token)),
+      or(isNull(personalAccessTokens.expiresAt), gt(personalAccessTokens.expiresAt, new Date())),
+    ))
+    .limit(1)
+  return row ?? null
+}
+
+/** Record use of a token (coarsely — not a write per request). */
+export function touchAccessToken(token: ResolvedAccessToken, ip: string) {
+  if (token.lastUsedAt && Date.now() - token.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS) return
+  db.update(personalAccessTokens)
+    .set({ lastUsedAt: new Date(), lastUsedIp: ip.slice(0, 64) })
+    .where(eq(personalAccessTokens.id, token.id))
+    .catch(() => {})
+}
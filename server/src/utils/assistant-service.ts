@@ -5,9 +5,11 @@ import { projects } from '../db/schema/projects.js'
 import { users } from '../db/schema/users.js'
 import { agentSessions } from '../db/schema/agent-sessions.js'
 import { sessionEventBus } from '../bridges/session-event-bus.js'
+import { NODE_ID, handleClusterRequest, runOnOwner } from './cluster.js'
 import type { StreamEvent } from '../bridges/types.js'
 import {
   getUserProviderKeys,
+  effectiveTier,
   getUserTokens,
   deductTokens,
   reconcileTokens,
@@ -27,6 +29,7 @@ import {
 } from '../agents/assistant-types.js'
 
 // In-memory registry of running jobs' abort controllers (for force-stop / timeout).
+// Jobs run on the replica that queued them (`owner_node`); stops are routed there.
 const controllers = new Map<string, AbortController>()
 
 const evKey = (jobId: string) => `assistant:${jobId}`
@@ -52,13 +55,14 @@ async function buildContext(jobId: string, projectId: string): Promise<Assistant
       enabled: projects.assistantEnabled,
       username: users.username,
       tier: users.tier,
+      emailVerifiedAt: users.emailVerifiedAt,
     })
     .from(projects)
     .innerJoin(users, eq(projects.userId, users.id))
     .where(eq(projects.id, projectId))
     .limit(1)
   if (!row) throw new Error('project not found')
-  if (row.tier !== 'paid') throw new Error('Assistant requires a paid subscription.')
+  if (effectiveTier(row.tier, row.emailVerifiedAt) !== 'paid') throw new Error('Assistant requires a paid subscription and a verified email.')
   if (!row.enabled) throw new Error('Assistant is disabled for this project.')
   if (!row.linkId) throw new Error('project has no workspace')
   const keys = await getUserProviderKeys(row.userId)
@@ -82,7 +86,7 @@ async function buildContext(jobId: string, projectId: string): Promise<Assistant
 /** Pre-charge estimate per job kind (kept non-trivial so reconcile's 2× cap stays sane). */
 function preChargeEstimate(kind: AssistantJobKind, input: any, modelDef: any): number {
   if (kind === 'enhance') return Math.max(60, estimateMessageCost(String(input?.prompt ?? ''), modelDef, 'nvidia-nim'))
-  if (kind === 'error_fix') return Math.max(80, estimateMessageCost(JSON.stringify(input?.issues ?? []), modelDef, 'nvidia-nim'))
+  if (kind === 'error_fix') return Math.max(80, estimateMessageCost(JSON.stringify([input?.issues ?? [], input?.diagnostics ?? []]), modelDef, 'nvidia-nim'))
   // post_session reads a lot — baseline ~6000 in / 2000 out.
   return Math.max(120, calculateTokenCost(6000, 2000, modelDef, 'nvidia-nim'))
 }
@@ -111,6 +115,7 @@ export async function startJob(opts: {
       status: 'queued',
       model,
       input: opts.input as any,
+      ownerNode: NODE_ID,
     })
     .returning({ id: assistantJobs.id })
 
@@ -143,6 +148,9 @@ async function runJob(jobId: string): Promise<void> {
   const usage: UsageTotals = { inputTokens: 0, outputTokens: 0 }
   const modelDef = assistantModelOrDefault(job.model)
   const estimate = preChargeEstimate(job.kind as AssistantJobKind, job.input, modelDef as any)
+  // One charge per run: a revision re-queues the job (bumping updated_at), so it bills again.
+  const chargeKey = `assistant:${job.id}:${job.updatedAt.getTime()}`
+  let charged = 0
 
   const onProgress: ProgressFn = (e) => {
     if (e.type === 'text-delta') emit(jobId, { type: 'text-delta', content: e.content ?? '' })
@@ -154,7 +162,12 @@ async function runJob(jobId: string): Promise<void> {
   try {
     const balance = await getUserTokens(job.userId)
     if (balance < MIN_PREMIUM_BALANCE) throw new Error(`Insufficient AI tokens (need at least ${MIN_PREMIUM_BALANCE}).`)
-    await deductTokens(job.userId, estimate, `Assistant ${job.kind} (pre-charge)`, job.sessionId ?? undefined)
+    const deduct = await deductTokens(job.userId, estimate, `Assistant ${job.kind} (pre-charge)`, job.sessionId ?? undefined, {
+      idempotencyKey: chargeKey,
+      requireFull: true,
+    })
+    if (!deduct.success) throw new Error(`Insufficient AI tokens (need ${estimate}).`)
+    charged = deduct.deducted
     await setStatus(jobId, 'running', { estimatedTokens: estimate })
     emit(jobId, { type: 'status', status: 'running', message: 'running' })
 
@@ -173,7 +186,7 @@ async function runJob(jobId: string): Promise<void> {
 
     // Reconcile actual cost against the pre-charge.
     const actual = calculateTokenCost(usage.inputTokens, usage.outputTokens, modelDef as any, 'nvidia-nim')
-    await reconcileTokens(job.userId, estimate, actual, modelDef.name, 'nvidia-nim', job.sessionId ?? undefined)
+    await reconcileTokens(job.userId, charged, actual, modelDef.name, 'nvidia-nim', job.sessionId ?? undefined, { idempotencyKey: chargeKey })
     await db
       .update(assistantJobs)
       .set({ inputTokens: usage.inputTokens, outputTokens: usage.outputTokens })
@@ -182,9 +195,10 @@ async function runJob(jobId: string): Promise<void> {
   } catch (err: any) {
     const aborted = ctrl.signal.aborted
     const isTimeout = ctrl.signal.reason === 'timeout'
-    // Refund the pre-charge on failure/stop (actual = 0).
+    // Refund whatever was pre-charged on failure/stop (actual = 0). Nothing to
+    // refund if the job failed before the charge went through.
     try {
-      await reconcileTokens(job.userId, estimate, 0, modelDef.name, 'nvidia-nim', job.sessionId ?? undefined)
+      await reconcileTokens(job.userId, charged, 0, modelDef.name, 'nvidia-nim', job.sessionId ?? undefined, { idempotencyKey: chargeKey })
     } catch {
       /* best-effort */
     }
@@ -214,7 +228,7 @@ export async function reviseJob(jobId: string, feedback: string): Promise<void>
   const prevDraft = (job.draft as any)?.prompt ?? ''
   await db
     .update(assistantJobs)
-    .set({ status: 'queued', input: { ...(job.input as any), feedback, previousDraft: prevDraft }, updatedAt: new Date() })
+    .set({ status: 'queued', input: { ...(job.input as any), feedback, previousDraft: prevDraft }, ownerNode: NODE_ID, updatedAt: new Date() })
     .where(eq(assistantJobs.id, jobId))
   void runJob(jobId).catch(() => {})
 }
@@ -229,6 +243,13 @@ export function stopJob(jobId: string): boolean {
   return false
 }
 
+/** Force-stop a job on whichever replica is running it. */
+export function stopJobOnOwner(job: { id: string; ownerNode: string | null }): Promise<boolean> {
+  return runOnOwner(job.ownerNode, 'assistant.stop', { jobId: job.id }, async () => stopJob(job.id))
+}
+
+handleClusterRequest('assistant.stop', async ({ jobId }: { jobId: string }) => stopJob(jobId))
+
 /** The single active job (queued/running/awaiting_user) for a project, or null. */
 export async function getActiveJob(projectId: string) {
   const [row] = await db
@@ -272,12 +293,12 @@ export async function assistantOnSessionEnd(directory: string): Promise<void> {
     const parsed = parseWorkspaceDir(directory)
     if (!parsed) return
     const [row] = await db
-      .select({ id: projects.id, userId: projects.userId, enabled: projects.assistantEnabled, tier: users.tier })
+      .select({ id: projects.id, userId: projects.userId, enabled: projects.assistantEnabled, tier: users.tier, emailVerifiedAt: users.emailVerifiedAt })
       .from(projects)
       .innerJoin(users, eq(projects.userId, users.id))
       .where(eq(projects.linkId, parsed.linkId))
       .limit(1)
-    if (!row || !row.enabled || row.tier !== 'paid') return
+    if (!row || !row.enabled || effectiveTier(row.tier, row.emailVerifiedAt) !== 'paid') return
     const keys = await getUserProviderKeys(row.userId)
     if (!keys['nvidia-nim']) return
     const active = await getActiveJob(row.id)
@@ -0,0 +1,68 @@
+/**
+ * Single-use emailed tokens (password reset, email verification).
+ *
+ * The random token goes into the link; the database keeps its SHA-256, so a
+ * leaked table can't be replayed. Issuing a new token of a purpose voids the
+ * user's older unused ones, and consuming is a conditional update, so two
+ * requests racing with the same link can't both succeed.
+ */
+import { createHash, randomBytes } from 'crypto'
+import { and, desc, eq, gt, isNull } from 'drizzle-orm'
+import { db } from '../db/index.js'
+import { authTokens } from '../db/schema/auth-tokens.js'
+
+export type AuthTokenPurpose = 'password_reset' | 'email_verification'
+
+export const RESET_TOKEN_TTL_MS = 60 * 60 * 1000 // 1 hour
+export const VERIFICATION_TOKEN_TTL_MS = 48 * 60 * 60 * 1000 // 48 hours
+// A new email of the same kind is sent at most this often per user
+export const RESEND_INTERVAL_MS = 60 * 1000
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+export async function issueAuthToken(userId: string, purpose: AuthTokenPurpose, ttlMs: number): Promise<string> {
+  const token = randomBytes(32).toString('base64url')
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(authTokens)
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)))
+    await tx.insert(authTokens).values({
+      userId,
+      purpose,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + ttlMs),
+    })
+  })
+  return token
+}
+
+/** True when a token of this purpose was issued to the user within RESEND_INTERVAL_MS. */
+export async function issuedRecently(userId: string, purpose: AuthTokenPurpose): Promise<boolean> {
+  const [latest] = await db
+    .select({ createdAt: authTokens.createdAt })
+    .from(authTokens)
+    .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose)))
+    .orderBy(desc(authTokens.createdAt))
+    .limit(1)
+  return !!latest && Date.now() - latest.createdAt.getTime() < RESEND_INTERVAL_MS
+}
+
+/** Mark a valid, unused, unexpired token used. Null when it is none of those. */
+export async function consumeAuthToken(token: string, purpose: AuthTokenPurpose): Promise<{ id: string; userId: string } | null> {
+  const [row] = await db
+    .update(authTokens)
+    .set({ usedAt: new Date() })
+    .where(and(
+      eq(authTokens.tokenHash, hashToken(token)),
+      eq(authTokens.purpose, purpose),
+      isNull(authTokens.usedAt),
+      gt(authTokens.expiresAt, new Date()),
+    ))
+    .returning({ id: authTokens.id, userId: authTokens.userId })
+  return row ?? null
+}
+
+/** Undo consumeAuthToken when the action it authorised failed, so the link can be retried. */
+export async function releaseAuthToken(id: string): Promise<void> {
+  await db.update(authTokens).set({ usedAt: null }).where(eq(authTokens.id, id))
+}
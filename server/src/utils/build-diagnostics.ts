@@ -0,0 +1,115 @@
+/**
+ * Parses raw javac / kotlinc / Maven / Gradle output into structured
+ * diagnostics. Only diagnostics that point at a file inside the project are
+ * kept; paths are returned relative to the project directory so they line up
+ * with the file tree and the file-content API.
+ */
+import path from 'path'
+import type { BuildDiagnostic } from '../db/schema/builds.js'
+
+const MAX_DIAGNOSTICS = 500
+
+const ANSI_RE = /\x1b\[[0-9;]*m/g
+
+// [ERROR] /abs/Foo.java:[12,5] cannot find symbol          (maven-compiler-plugin)
+const MAVEN_JAVAC_RE = /^\[(ERROR|WARNING)\]\s+(\/\S+?\.java):\[(\d+),(\d+)\]\s*(.*)$/
+// [ERROR] file:///abs/Foo.kt: (12, 5) Unresolved reference  (kotlin-maven-plugin)
+const MAVEN_KOTLIN_RE = /^\[(ERROR|WARNING)\]\s+(?:file:\/\/)?(\/\S+?\.kts?):\s*\((\d+),\s*(\d+)\)\s*(.*)$/
+// [ERROR] Malformed POM /abs/pom.xml: ... @ line 12, column 5
+const MAVEN_POM_RE = /^\[(ERROR|FATAL|WARNING)\]\s+(.*?)(\/\S+?pom\.xml)\b(.*?)@ line (\d+), column (\d+)/
+// e: file:///abs/Foo.kt:12:5 Unresolved reference: x     (Kotlin ≥ 1.8)
+const KOTLINC_RE = /^([ew]):\s+(?:file:\/\/)?(\/\S+?\.kts?):(\d+):(\d+)\s+(.*)$/
+// e: /abs/Foo.kt: (12, 5): Unresolved reference: x       (older Kotlin)
+const KOTLINC_OLD_RE = /^([ew]):\s+(\/\S+?\.kts?):\s*\((\d+),\s*(\d+)\):\s*(.*)$/
+// /abs/Foo.java:12: error: cannot find symbol              (plain javac / Gradle)
+const JAVAC_RE = /^(\/\S+?\.java):(\d+):\s*(error|warning):\s*(.*)$/
+// Build file '/abs/build.gradle' line: 12                 (Gradle script errors)
+const GRADLE_SCRIPT_RE = /^Build file '(\/.+?)' line: (\d+)$/
+// javac follow-up detail lines ("symbol:", "location:", "required:", ...)
+const DETAIL_RE = /^\s*(?:\[(?:ERROR|WARNING)\])?\s+(symbol|location|required|found|reason):\s*(.*)$/
+
+function toRelative(projectDir: string, file: string): string | null {
+  const resolved = path.resolve(file)
+  if (!resolved.startsWith(projectDir + '/')) return null
+  return resolved.slice(projectDir.length + 1)
+}
+
+export function parseBuildDiagnostics(log: string, projectDir: string): BuildDiagnostic[] {
+  const lines = log.replace(ANSI_RE, '').split(/\r?\n/)
+  const out: BuildDiagnostic[] = []
+  const seen = new Set<string>()
+
+  const push = (d: BuildDiagnostic | null) => {
+    if (!d) return
+    const key = `${d.file}:${d.line}:${d.column ?? ''}:${d.severity}:${d.message}`
+    if (seen.has(key)) return
+    seen.add(key)
+    out.push(d)
+  }
+
+  const make = (
+    file: string,
+    line: string,
+    column: string | number | null,
+    severity: BuildDiagnostic['severity'],
+    message: string,
+    source: BuildDiagnostic['source'],
+  ): BuildDiagnostic | null => {
+    const rel = toRelative(projectDir, file)
+    if (!rel) return null
+    const col = column === null ? null : Number(column)
+    return { file: rel, line: Number(line), column: col && col > 0 ? col : null, severity, message: message.trim(), source }
+  }
+
+  // Append "symbol: …" style detail lines that follow a javac diagnostic.
+  const withDetails = (d: BuildDiagnostic | null, start: number): BuildDiagnostic | null => {
+    if (!d) return d
+    for (let j = start; j < Math.min(lines.length, start + 6); j++) {
+      if (JAVAC_RE.test(lines[j]) || MAVEN_JAVAC_RE.test(lines[j])) break
+      const m = lines[j].match(DETAIL_RE)
+      if (m) d.message += `\n${m[1]}: ${m[2].trim()}`
+    }
+    return d
+  }
+
+  for (let i = 0; i < lines.length && out.length < MAX_DIAGNOSTICS; i++) {
+    const line = lines[i]
+    let m: RegExpMatchArray | null
+
+    if ((m = line.match(MAVEN_JAVAC_RE))) {
+      push(withDetails(make(m[2], m[3], m[4], m[1] === 'ERROR' ? 'error' : 'warning', m[5], 'javac'), i + 1))
+    } else if ((m = line.match(MAVEN_KOTLIN_RE))) {
+      push(make(m[2], m[3], m[4], m[1] === 'ERROR' ? 'error' : 'warning', m[5], 'kotlinc'))
+    } else if ((m = line.match(MAVEN_POM_RE))) {
+      const message = `${m[2].trim()}${m[4]}`.replace(/[\s:,]+$/, '') || 'Invalid POM'
+      push(make(m[3], m[5], m[6], m[1] === 'WARNING' ? 'warning' : 'error', message, 'maven'))
+    } else if ((m = line.match(KOTLINC_RE)) || (m = line.match(KOTLINC_OLD_RE))) {
+      push(make(m[2], m[3], m[4], m[1] === 'e' ? 'error' : 'warning', m[5], 'kotlinc'))
+    } else if ((m = line.match(JAVAC_RE))) {
+      // javac prints the offending source line, then a caret under the column.
+      let column: number | null = null
+      for (let j = i + 1; j <= i + 2 && j < lines.length; j++) {
+        const caret = lines[j].match(/^(\s*)\^\s*$/)
+        if (caret) {
+          column = caret[1].length + 1
+          break
+        }
+      }
+      push(withDetails(make(m[1], m[2], column, m[3] === 'error' ? 'error' : 'warning', m[4], 'javac'), i + 1))
+    } else if ((m = line.match(GRADLE_SCRIPT_RE))) {
+      // The reason follows under "* What went wrong:" a few lines later.
+      let message = 'Build script error'
+      for (let j = i + 1; j < Math.min(lines.length, i + 8); j++) {
+        if (lines[j].startsWith('* What went wrong:')) {
+          const reason: string[] = []
+          for (let k = j + 1; k < Math.min(lines.length, j + 5) && lines[k].trim(); k++) reason.push(lines[k].trim())
+          if (reason.length) message = reason.join(' ')
+          break
+        }
+      }
+      push(make(m[1], m[2], null, 'error', message, 'gradle'))
+    }
+  }
+
+  return out
+}
@@ -0,0 +1,260 @@
+/**
+ * Build service — runs the project's configured compiler (Maven, Gradle or both)
+ * as the project owner's `auroracraft-<user>` system user and persists each run
+ * in the `builds` table.
+ *
+ * Live stdout/stderr is emitted on the session event bus under `build:<buildId>`
+ * (same skeleton as the agent/assistant streams); the DB row is the source of
+ * truth once the run finishes (status, exit code, duration, log, artifacts and
+ * the compiler diagnostics parsed from the log).
+ */
+import { type ChildProcess } from 'child_process'
+import { existsSync } from 'fs'
+import { readdir, stat } from 'fs/promises'
+import { join } from 'path'
+import { and, eq, isNull, sql } from 'drizzle-orm'
+import { db } from '../db/index.js'
+import { builds, type Build, type BuildArtifact } from '../db/schema/builds.js'
+import { sessionEventBus } from '../bridges/session-event-bus.js'
+import { getJavaHomePath } from '../bridges/opencode-process-manager.js'
+import { SHARED_CACHE_PATHS } from './shared-cache.js'
+import { parseBuildDiagnostics } from './build-diagnostics.js'
+import { shellQuote, spawnShellAsSystemUser } from './system-user.js'
+import { NODE_ID, getLiveNodes, handleClusterRequest, runOnOwner } from './cluster.js'
+
+export type BuildTool = 'maven' | 'gradle' | 'both'
+export type BuildStatus = 'running' | 'success' | 'failed' | 'cancelled'
+
+const BUILD_TIMEOUT_MS = 10 * 60_000
+// Keep only the tail of very chatty builds (dependency downloads can be huge).
+const MAX_LOG_CHARS = 512 * 1024
+const KEEP_BUILDS_PER_PROJECT = 30
+
+interface RunningBuild {
+  child: ChildProcess | null
+  cancelled: boolean
+}
+
+// In-memory registry of builds running on this process (for cancel + stale detection).
+// Other replicas' builds are only known through builds.owner_node.
+const running = new Map<string, RunningBuild>()
+
+export const buildEventKey = (buildId: string) => `build:${buildId}`
+
+function buildCommand(tool: 'maven' | 'gradle', directory: string): string {
+  if (tool === 'maven') {
+    const mvn = existsSync(join(directory, 'mvnw')) ? './mvnw' : 'mvn'
+    return `${mvn} -B package`
+  }
+  const gradle = existsSync(join(directory, 'gradlew')) ? './gradlew' : 'gradle'
+  return `${gradle} build --no-daemon --console=plain`
+}
+
+/**
+ * Jars in the tool's output directory after a successful run, excluding
+ * sources/javadoc/shade leftovers. Not filtered by mtime: Gradle leaves an
+ * UP-TO-DATE jar untouched, and that jar is still this build's output.
+ */
+async function collectArtifacts(directory: string, tool: 'maven' | 'gradle'): Promise<BuildArtifact[]> {
+  const relDir = tool === 'maven' ? 'target' : join('build', 'libs')
+  const out: BuildArtifact[] = []
+  try {
+    for (const name of await readdir(join(directory, relDir))) {
+      if (!name.endsWith('.jar')) continue
+      if (name.endsWith('-sources.jar') || name.endsWith('-javadoc.jar') || name.startsWith('original-')) continue
+      const s = await stat(join(directory, relDir, name))
+      if (!s.isFile()) continue
+      out.push({ tool, name, path: join(relDir, name), size: s.size })
+    }
+  } catch {
+    // No output directory — the build produced nothing.
+  }
+  return out
+}
+
+/** Spawn one compiler run and resolve with its exit code (null when killed). */
+function runTool(
+  buildId: string,
+  tool: 'maven' | 'gradle',
+  opts: { systemUser: string; directory: string; javaHome: string },
+  onOutput: (stream: 'stdout' | 'stderr', chunk: string) => void,
+): Promise<number | null> {
+  const shellCmd =
+    `cd ${shellQuote(opts.directory)} && ` +
+    `export JAVA_HOME=${shellQuote(opts.javaHome)} && ` +
+    `export PATH=${shellQuote(`${opts.javaHome}/bin:/usr/local/bin:/usr/bin:/bin`)} && ` +
+    `export MAVEN_OPTS=${shellQuote(`-Dmaven.repo.local=${SHARED_CACHE_PATHS.maven.repository}`)} && ` +
+    `export GRADLE_USER_HOME=${shellQuote(SHARED_CACHE_PATHS.gradle.caches)} && ` +
+    buildCommand(tool, opts.directory)
+
+  const child = spawnShellAsSystemUser(opts.systemUser, shellCmd, ['ignore', 'pipe', 'pipe'])
+
+  const entry = running.get(buildId)
+  if (entry) entry.child = child
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      onOutput('stderr', `\n[AuroraCraft] Build timed out after ${BUILD_TIMEOUT_MS / 60_000} minutes.\n`)
+      child.kill('SIGTERM')
+    }, BUILD_TIMEOUT_MS)
+
+    child.stdout?.on('data', (data: Buffer) => onOutput('stdout', data.toString()))
+    child.stderr?.on('data', (data: Buffer) => onOutput('stderr', data.toString()))
+    child.on('error', (err) => {
+      onOutput('stderr', `\n[AuroraCraft] Failed to start ${tool}: ${err.message}\n`)
+    })
+    child.on('close', (code) => {
+      clearTimeout(timer)
+      if (entry) entry.child = null
+      resolve(code)
+    })
+  })
+}
+
+/**
+ * The project's running build, if any. A `running` row nobody is running any
+ * more — this server's from before a restart, or one owned by a replica that
+ * stopped heartbeating — is marked failed lazily so it can never block new
+ * builds. A live replica's build is left alone.
+ */
+export async function getActiveBuild(projectId: string): Promise<Build | null> {
+  const [row] = await db
+    .select()
+    .from(builds)
+    .where(and(eq(builds.projectId, projectId), eq(builds.status, 'running')))
+    .limit(1)
+  if (!row) return null
+  if (running.has(row.id)) return row
+  if (row.ownerNode && row.ownerNode !== NODE_ID && (await getLiveNodes()).includes(row.ownerNode)) return row
+  await db
+    .update(builds)
+    .set({ status: 'failed', error: 'Build was interrupted.', completedAt: new Date() })
+    .where(and(
+      eq(builds.id, row.id),
+      eq(builds.status, 'running'),
+      row.ownerNode ? eq(builds.ownerNode, row.ownerNode) : isNull(builds.ownerNode),
+    ))
+  return null
+}
+
+/**
+ * Create a build row (status=running) and kick off the runner fire-and-forget.
+ * Returns null when the project already has a running build (builds_one_running_idx).
+ */
+export async function startBuild(opts: {
+  projectId: string
+  userId: string
+  username: string
+  linkId: string
+  javaVersion: string
+  tool: BuildTool
+}): Promise<{ buildId: string } | null> {
+  const [build] = await db
+    .insert(builds)
+    .values({ projectId: opts.projectId, userId: opts.userId, tool: opts.tool, status: 'running', ownerNode: NODE_ID })
+    .onConflictDoNothing()
+    .returning({ id: builds.id })
+  if (!build) return null
+
+  // Bound table growth: keep only the most-recent finished builds per project.
+  void db
+    .execute(
+      sql`DELETE FROM builds
+          WHERE project_id = ${opts.projectId}
+            AND status <> 'running'
+            AND id NOT IN (
+              SELECT id FROM builds
+              WHERE project_id = ${opts.projectId} AND status <> 'running'
+              ORDER BY created_at DESC LIMIT ${KEEP_BUILDS_PER_PROJECT}
+            )`,
+    )
+    .catch(() => {})
+
+  running.set(build.id, { child: null, cancelled: false })
+  void runBuild(build.id, opts).catch((err) => {
+    console.error(`[Build] ${build.id} crashed:`, err instanceof Error ? err.message : err)
+  })
+  return { buildId: build.id }
+}
+
+async function runBuild(
+  buildId: string,
+  opts: { username: string; linkId: string; javaVersion: string; tool: BuildTool },
+): Promise<void> {
+  const key = buildEventKey(buildId)
+  const username = opts.username.toLowerCase()
+  const systemUser = `auroracraft-${username}`
+  const directory = `/home/${systemUser}/${opts.linkId}`
+  const javaHome = getJavaHomePath(opts.javaVersion)
+  const tools: Array<'maven' | 'gradle'> = opts.tool === 'both' ? ['maven', 'gradle'] : [opts.tool]
+  const startedAt = Date.now()
+
+  let log = ''
+  const append = (stream: 'stdout' | 'stderr', content: string) => {
+    log += content
+    if (log.length > MAX_LOG_CHARS) log = log.slice(log.length - MAX_LOG_CHARS)
+    sessionEventBus.emit(key, { type: 'build-log', stream, content })
+  }
+
+  sessionEventBus.emit(key, { type: 'status', status: 'running', message: 'Build started' })
+
+  let exitCode: number | null = 0
+  let error: string | null = null
+  const artifacts: BuildArtifact[] = []
+  try {
+    for (const tool of tools) {
+      if (running.get(buildId)?.cancelled) break
+      append('stdout', `[AuroraCraft] $ ${buildCommand(tool, directory)}  (JAVA_HOME=${javaHome})\n`)
+      exitCode = await runTool(buildId, tool, { systemUser, directory, javaHome }, append)
+      if (exitCode !== 0) break
+      artifacts.push(...(await collectArtifacts(directory, tool)))
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+    exitCode = null
+  }
+
+  const cancelled = running.get(buildId)?.cancelled ?? false
+  running.delete(buildId)
+
+  const status: BuildStatus = cancelled ? 'cancelled' : exitCode === 0 && !error ? 'success' : 'failed'
+  if (status === 'failed' && !error) {
+    error = exitCode === null ? 'Build process was terminated.' : `Build exited with code ${exitCode}.`
+  }
+
+  await db
+    .update(builds)
+    .set({
+      status,
+      exitCode,
+      durationMs: Date.now() - startedAt,
+      log,
+      artifacts,
+      diagnostics: parseBuildDiagnostics(log, directory),
+      error: cancelled ? 'Cancelled by user.' : error,
+      completedAt: new Date(),
+    })
+    .where(eq(builds.id, buildId))
+
+  if (status === 'success') {
+    sessionEventBus.emit(key, { type: 'status', status: 'idle', message: 'Build succeeded' })
+    sessionEventBus.emit(key, { type: 'complete' })
+  } else {
+    sessionEventBus.emit(key, { type: 'error', message: cancelled ? 'Cancelled by user.' : error ?? 'Build failed.' })
+  }
+}
+
+function cancelLocalBuild(buildId: string): boolean {
+  const entry = running.get(buildId)
+  if (!entry) return false
+  entry.cancelled = true
+  entry.child?.kill('SIGTERM')
+  return true
+}
+
+/** Cancel a running build on whichever replica runs it. Returns false if nobody is running it. */
+export function cancelBuild(build: { id: string; ownerNode: string | null }): Promise<boolean> {
+  return runOnOwner(build.ownerNode, 'build.cancel', { buildId: build.id }, async () => cancelLocalBuild(build.id))
+}
+
+handleClusterRequest('build.cancel', async ({ buildId }: { buildId: string }) => cancelLocalBuild(buildId))
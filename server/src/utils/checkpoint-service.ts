@@ -0,0 +1,190 @@
+/**
+ * Checkpoint service — per-turn workspace snapshots for agent sessions.
+ *
+ * A checkpoint is a commit on a hidden ref (`refs/auroracraft/checkpoints/…`)
+ * in the project's own git repo. It is built through a throwaway index file
+ * (GIT_INDEX_FILE), so the user's HEAD, index and branches are never touched
+ * and the snapshots never show up in `git log`/`git status` or get pushed.
+ *
+ * The executor snapshots the workspace before and after every agent turn and
+ * stores both SHAs on the user message that started it; the checkpoint routes
+ * diff and restore against them.
+ *
+ * All git commands run as the project owner's `auroracraft-<user>` system user.
+ * Regenerable build output (target/, build/, .gradle/, graphify-out/) is left
+ * out of snapshots, so restoring never deletes or rewrites it.
+ */
+import { execShellAsSystemUser, shellQuote, workspaceSystemUser } from './system-user.js'
+
+const GIT_TIMEOUT_MS = 120_000
+const REF_PREFIX = 'refs/auroracraft/checkpoints'
+// Patches beyond this are cut off; the per-file summary is always complete.
+const MAX_PATCH_CHARS = 256 * 1024
+
+const EXCLUDE_PATHSPECS = ['**/target/**', '**/build/**', '**/.gradle/**', 'graphify-out/**']
+  .map((p) => shellQuote(`:(exclude,glob)${p}`))
+  .join(' ')
+
+// Commit identity for snapshot commits (the user's git config may have none).
+const GIT_IDENTITY =
+  'GIT_AUTHOR_NAME=AuroraCraft GIT_AUTHOR_EMAIL=checkpoints@auroracraft.local ' +
+  'GIT_COMMITTER_NAME=AuroraCraft GIT_COMMITTER_EMAIL=checkpoints@auroracraft.local'
+
+const SHA_RE = /^[0-9a-f]{40}$/
+
+export interface CheckpointFileChange {
+  path: string
+  /** Previous path for renames. */
+  oldPath?: string
+  status: 'added' | 'modified' | 'deleted' | 'renamed'
+  additions: number
+  deletions: number
+  binary: boolean
+}
+
+export interface CheckpointChanges {
+  files: CheckpointFileChange[]
+  patch: string
+  truncated: boolean
+}
+
+/** Run a shell script inside the workspace as its system user; returns stdout. */
+function runGit(directory: string, script: string): Promise<string> {
+  return execShellAsSystemUser(workspaceSystemUser(directory), `set -e; cd ${shellQuote(directory)}; ${script}`, GIT_TIMEOUT_MS)
+}
+
+/**
+ * Shell prelude that stages the whole working tree into a private index and
+ * leaves its tree id in `$tree`.
+ */
+const STAGE_WORKTREE = [
+  '[ -e .git ] || git init -q',
+  'idx="$(git rev-parse --absolute-git-dir)/auroracraft-checkpoint-$$.index"',
+  `trap 'rm -f "$idx"' EXIT`,
+  'export GIT_INDEX_FILE="$idx"',
+  `git add -A -- . ${EXCLUDE_PATHSPECS}`,
+  'tree=$(git write-tree)',
+].join('; ')
+
+function snapshotScript(label: string, ref?: string): string {
+  return [
+    STAGE_WORKTREE,
+    'parent=$(git rev-parse -q --verify "HEAD^{commit}" || true)',
+    `commit=$(${GIT_IDENTITY} git commit-tree "$tree" \${parent:+-p "$parent"} -m ${shellQuote(label)})`,
+    ref ? `git update-ref ${shellQuote(ref)} "$commit"` : ':',
+    'echo "$commit"',
+  ].join('; ')
+}
+
+function assertSha(sha: string): void {
+  if (!SHA_RE.test(sha)) throw new Error(`Invalid checkpoint id: ${sha}`)
+}
+
+/**
+ * Commit the working tree as it is right now. With `ref`, the commit is pinned
+ * there so git gc keeps it; without, it is a throwaway snapshot used only for
+ * diffing against the live tree.
+ */
+export async function snapshotWorkspace(directory: string, ref?: string, label = 'AuroraCraft snapshot'): Promise<string> {
+  const sha = (await runGit(directory, snapshotScript(label, ref))).trim().split('\n').pop() ?? ''
+  assertSha(sha)
+  return sha
+}
+
+/** Snapshot the workspace, pinned under the turn's hidden ref when `messageId` is given. */
+export async function createCheckpoint(
+  directory: string,
+  opts: { messageId?: string; phase?: 'before' | 'after' } = {},
+): Promise<string> {
+  if (!opts.messageId) return snapshotWorkspace(directory)
+  const phase = opts.phase ?? 'before'
+  return snapshotWorkspace(directory, `${REF_PREFIX}/${opts.messageId}-${phase}`, `AuroraCraft checkpoint (${phase} ${opts.messageId})`)
+}
+
+function parseStatus(code: string): CheckpointFileChange['status'] {
+  if (code.startsWith('A')) return 'added'
+  if (code.startsWith('D')) return 'deleted'
+  if (code.startsWith('R')) return 'renamed'
+  return 'modified'
+}
+
+/**
+ * Files changed between two checkpoints, with a (possibly truncated) unified
+ * patch. `paths` limits the diff to those files; `patch: false` skips it.
+ */
+export async function getCheckpointChanges(
+  directory: string,
+  from: string,
+  to: string,
+  opts: { paths?: string[]; patch?: boolean } = {},
+): Promise<CheckpointChanges> {
+  assertSha(from)
+  assertSha(to)
+  const pathspec = opts.paths?.length ? ` -- ${opts.paths.map((p) => shellQuote(`:(literal)${p}`)).join(' ')}` : ''
+  const range = `${from} ${to}${pathspec}`
+  const diffFlags = '--no-color --no-ext-diff -M'
+
+  const [nameStatus, numstat, patch] = await Promise.all([
+    runGit(directory, `git diff ${diffFlags} --name-status -z ${range}`),
+    runGit(directory, `git diff ${diffFlags} --numstat -z ${range}`),
+    opts.patch === false ? Promise.resolve('') : runGit(directory, `git diff ${diffFlags} ${range}`),
+  ])
+
+  // --name-status -z: STATUS\0path\0 (renames: STATUS\0old\0new\0)
+  const files: CheckpointFileChange[] = []
+  const ns = nameStatus.split('\0')
+  for (let i = 0; i < ns.length - 1; ) {
+    const code = ns[i++]
+    if (!code) continue
+    if (code.startsWith('R') || code.startsWith('C')) {
+      const oldPath = ns[i++]
+      const path = ns[i++]
+      files.push({ path, oldPath, status: 'renamed', additions: 0, deletions: 0, binary: false })
+    } else {
+      files.push({ path: ns[i++], status: parseStatus(code), additions: 0, deletions: 0, binary: false })
+    }
+  }
+
+  // --numstat -z: "add\tdel\tpath\0" or, for renames, "add\tdel\t\0old\0new\0"
+  const byPath = new Map(files.map((f) => [f.path, f]))
+  const nums = numstat.split('\0')
+  for (let i = 0; i < nums.length - 1; ) {
+    const [add, del, statPath] = nums[i++].split('\t')
+    let path = statPath
+    if (!path) {
+      i++ // rename: skip the old path, key on the new one
+      path = nums[i++]
+    }
+    const f = byPath.get(path)
+    if (!f) continue
+    f.binary = add === '-'
+    f.additions = f.binary ? 0 : Number(add) || 0
+    f.deletions = f.binary ? 0 : Number(del) || 0
+  }
+
+  const truncated = patch.length > MAX_PATCH_CHARS
+  return { files, patch: truncated ? patch.slice(0, MAX_PATCH_CHARS) : patch, truncated }
+}
+
+/**
+ * Make the working tree match `checkpoint` exactly (outside the excluded build
+ * directories): files added since are removed, changed/deleted files are
+ * rewritten. The current state is snapshotted first and pinned under
+ * `<prefix>/pre-restore`, whose SHA is returned so the restore can be undone.
+ */
+export async function restoreCheckpoint(directory: string, checkpoint: string): Promise<string> {
+  assertSha(checkpoint)
+  const script = [
+    STAGE_WORKTREE,
+    'parent=$(git rev-parse -q --verify "HEAD^{commit}" || true)',
+    `safety=$(${GIT_IDENTITY} git commit-tree "$tree" \${parent:+-p "$parent"} -m 'AuroraCraft checkpoint (pre-restore)')`,
+    `git update-ref ${REF_PREFIX}/pre-restore "$safety"`,
+    `git diff-tree -r -z --name-only --no-renames --diff-filter=A "${checkpoint}^{tree}" "$tree" | xargs -0 -r rm -f --`,
+    `git read-tree ${checkpoint}`,
+    'git checkout-index -a -f',
+    'echo "$safety"',
+  ].join('; ')
+  const sha = (await runGit(directory, script)).trim().split('\n').pop() ?? ''
+  assertSha(sha)
+  return sha
+}
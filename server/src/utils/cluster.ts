@@ -0,0 +1,283 @@
+/**
+ * Cluster layer — lets several server replicas share one database.
+ *
+ * Live work (OpenCode and LiteLLM processes, Assistant abort controllers, SSE
+ * listeners) stays in the process that started it. What has to cross
+ * replicas goes through Postgres LISTEN/NOTIFY:
+ *
+ * - Stream fan-out: after the session event bus persists a batch it announces
+ *   the id range; other replicas read those rows and dispatch them to their
+ *   own SSE subscribers. In-memory streams send the event itself.
+ * - Control requests: cancel / answer / stop for a session or job owned by
+ *   another replica (its `owner_node`) are sent there and the reply awaited.
+ * - Broadcasts: topic messages for every other replica (collaborative
+ *   editing updates and presence), split across several NOTIFYs when large.
+ * - Heartbeats: each replica keeps its `cluster_nodes` row fresh. One that
+ *   stops beating is treated as gone and its in-flight work is recovered by
+ *   the others (see recovery-service.ts).
+ *
+ * A single-replica deployment runs the same code and never hears from anyone.
+ */
+import { hostname } from 'os'
+import { randomUUID } from 'crypto'
+import { and, eq, gt } from 'drizzle-orm'
+import { db, client } from '../db/index.js'
+import { clusterNodes } from '../db/schema/cluster-nodes.js'
+import { env } from '../env.js'
+import type { StreamEvent } from '../bridges/types.js'
+
+export const NODE_ID = env.NODE_ID ?? hostname()
+
+const STREAM_CHANNEL = 'auroracraft_stream'
+const CONTROL_CHANNEL = 'auroracraft_control'
+const BROADCAST_CHANNEL = 'auroracraft_broadcast'
+
+const HEARTBEAT_INTERVAL_MS = 15_000
+const NODE_STALE_MS = 60_000
+const REQUEST_TIMEOUT_MS = 10_000
+const MAX_PAYLOAD_BYTES = 7_900 // Postgres caps NOTIFY payloads at 8000 bytes
+const BROADCAST_CHUNK_CHARS = 7_000
+const BROADCAST_ASSEMBLY_TIMEOUT_MS = 10_000
+
+/** Events a replica wrote to a stream: the range of stored ids, or the event itself. */
+type StreamNoticeBody =
+  | { key: string; fromId: number; toId: number }
+  | { key: string; event: StreamEvent }
+
+export type StreamNotice = StreamNoticeBody & { node: string }
+
+type ControlMessage =
+  | { kind: 'request'; id: string; from: string; to: string; action: string; data: unknown }
+  | { kind: 'reply'; id: string; to: string; ok: boolean; result?: unknown; error?: string }
+
+type BroadcastMessage =
+  | { node: string; topic: string; body: string }
+  | { node: string; topic: string; id: string; part: number; parts: number; chunk: string }
+
+type RequestHandler = (data: any) => Promise<unknown>
+type BroadcastHandler = (data: any, node: string) => void
+
+const requestHandlers = new Map<string, RequestHandler>()
+const pendingRequests = new Map<string, { resolve: (value: unknown) => void; reject: (err: Error) => void; timer: ReturnType<typeof setTimeout> }>()
+const broadcastHandlers = new Map<string, BroadcastHandler>()
+// Chunked broadcasts being reassembled, by message id
+const partialBroadcasts = new Map<string, { chunks: string[]; received: number; timer: ReturnType<typeof setTimeout> }>()
+let streamHandler: ((notice: StreamNotice) => void) | null = null
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null
+
+function notify(channel: string, message: object): boolean {
+  const payload = JSON.stringify(message)
+  if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) return false
+  client.notify(channel, payload).catch((err) => {
+    console.warn('[Cluster] NOTIFY failed on', channel, err)
+  })
+  return true
+}
+
+// ── Stream fan-out ───────────────────────────────────────────────────
+
+/** Announce stream events to the other replicas. Returns false if the notice is too large to send. */
+export function publishStreamNotice(notice: StreamNoticeBody): boolean {
+  return notify(STREAM_CHANNEL, { ...notice, node: NODE_ID })
+}
+
+/** Register the (single) receiver for other replicas' stream notices. */
+export function onStreamNotice(handler: (notice: StreamNotice) => void): void {
+  streamHandler = handler
+}
+
+// ── Control requests ─────────────────────────────────────────────────
+
+/** Serve `action` requests sent by other replicas. */
+export function handleClusterRequest(action: string, handler: RequestHandler): void {
+  requestHandlers.set(action, handler)
+}
+
+/** Ask another replica to run `action` and wait for its result. */
+export function requestNode(node: string, action: string, data: unknown): Promise<unknown> {
+  const id = randomUUID()
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pendingRequests.delete(id)
+      reject(new Error(`Node ${node} did not answer ${action} in time`))
+    }, REQUEST_TIMEOUT_MS)
+    pendingRequests.set(id, { resolve, reject, timer })
+    if (!notify(CONTROL_CHANNEL, { kind: 'request', id, from: NODE_ID, to: node, action, data })) {
+      clearTimeout(timer)
+      pendingRequests.delete(id)
+      reject(new Error(`${action} request is too large to route`))
+    }
+  })
+}
+
+/**
+ * Run an operation on the replica that owns the work: here when this node
+ * owns it (or nobody live does — the process is gone, so there is nothing
+ * remote to reach), otherwise on the owner via a control request whose
+ * handler must do the same as `local`.
+ */
+export async function runOnOwner<T>(ownerNode: string | null, action: string, data: unknown, local: () => Promise<T>): Promise<T> {
+  if (!ownerNode || ownerNode === NODE_ID || !(await isNodeAlive(ownerNode))) return local()
+  return (await requestNode(ownerNode, action, data)) as T
+}
+
+async function serveRequest(msg: Extract<ControlMessage, { kind: 'request' }>): Promise<void> {
+  const handler = requestHandlers.get(msg.action)
+  try {
+    if (!handler) throw new Error(`Unknown cluster action: ${msg.action}`)
+    const result = await handler(msg.data)
+    notify(CONTROL_CHANNEL, { kind: 'reply', id: msg.id, to: msg.from, ok: true, result })
+  } catch (err) {
+    notify(CONTROL_CHANNEL, { kind: 'reply', id: msg.id, to: msg.from, ok: false, error: err instanceof Error ? err.message : String(err) })
+  }
+}
+
+function onControlMessage(payload: string): void {
+  let msg: ControlMessage
+  try {
+    msg = JSON.parse(payload)
+  } catch {
+    return
+  }
+  if (msg.to !== NODE_ID) return
+
+  if (msg.kind === 'request') {
+    void serveRequest(msg)
+    return
+  }
+  const pending = pendingRequests.get(msg.id)
+  if (!pending) return
+  pendingRequests.delete(msg.id)
+  clearTimeout(pending.timer)
+  if (msg.ok) pending.resolve(msg.result)
+  else pending.reject(new Error(msg.error ?? 'Cluster request failed'))
+}
+
+function onStreamMessage(payload: string): void {
+  let notice: StreamNotice
+  try {
+    notice = JSON.parse(payload)
+  } catch {
+    return
+  }
+  if (notice.node === NODE_ID) return
+  streamHandler?.(notice)
+}
+
+// ── Broadcasts ───────────────────────────────────────────────────────
+
+/**
+ * Send `data` to the `topic` handler of every other replica. Delivery and
+ * ordering are best-effort (NOTIFYs may arrive out of order), so receivers
+ * must tolerate both.
+ */
+export function broadcast(topic: string, data: unknown): void {
+  const body = JSON.stringify(data)
+  if (notify(BROADCAST_CHANNEL, { node: NODE_ID, topic, body })) return
+
+  // Too large for one NOTIFY: send the base64 of the body in ASCII-only chunks
+  const encoded = Buffer.from(body).toString('base64')
+  const id = randomUUID()
+  const parts = Math.ceil(encoded.length / BROADCAST_CHUNK_CHARS)
+  for (let part = 0; part < parts; part++) {
+    const chunk = encoded.slice(part * BROADCAST_CHUNK_CHARS, (part + 1) * BROADCAST_CHUNK_CHARS)
+    notify(BROADCAST_CHANNEL, { node: NODE_ID, topic, id, part, parts, chunk })
+  }
+}
+
+/** Register the receiver for other replicas' broadcasts on `topic`. */
+export function onBroadcast(topic: string, handler: BroadcastHandler): void {
+  broadcastHandlers.set(topic, handler)
+}
+
+function deliverBroadcast(topic: string, body: string, node: string): void {
+  const handler = broadcastHandlers.get(topic)
+  if (!handler) return
+  try {
+    handler(JSON.parse(body), node)
+  } catch (err) {
+    console.warn('[Cluster] Broadcast handler failed for', topic, err)
+  }
+}
+
+function onBroadcastMessage(payload: string): void {
+  let msg: BroadcastMessage
+  try {
+    msg = JSON.parse(payload)
+  } catch {
+    return
+  }
+  if (msg.node === NODE_ID) return
+  if ('body' in msg) {
+    deliverBroadcast(msg.topic, msg.body, msg.node)
+    return
+  }
+
+  let partial = partialBroadcasts.get(msg.id)
+  if (!partial) {
+    const timer = setTimeout(() => partialBroadcasts.delete(msg.id), BROADCAST_ASSEMBLY_TIMEOUT_MS)
+    partial = { chunks: new Array(msg.parts), received: 0, timer }
+    partialBroadcasts.set(msg.id, partial)
+  }
+  if (partial.chunks[msg.part] !== undefined) return
+  partial.chunks[msg.part] = msg.chunk
+  if (++partial.received < msg.parts) return
+
+  clearTimeout(partial.timer)
+  partialBroadcasts.delete(msg.id)
+  deliverBroadcast(msg.topic, Buffer.from(partial.chunks.join(''), 'base64').toString(), msg.node)
+}
+
+// ── Membership ───────────────────────────────────────────────────────
+
+/** Whether a replica has sent a heartbeat recently. */
+export async function isNodeAlive(nodeId: string): Promise<boolean> {
+  if (nodeId === NODE_ID) return true
+  const [row] = await db
+    .select({ nodeId: clusterNodes.nodeId })
+    .from(clusterNodes)
+    .where(and(eq(clusterNodes.nodeId, nodeId), gt(clusterNodes.lastSeenAt, new Date(Date.now() - NODE_STALE_MS))))
+    .limit(1)
+  return !!row
+}
+
+/**
+ * Replicas with a recent heartbeat, this one included. Work owned by any
+ * other node (stale, shut down, or never seen) has nobody left to run it.
+ */
+export async function getLiveNodes(): Promise<string[]> {
+  const rows = await db
+    .select({ nodeId: clusterNodes.nodeId })
+    .from(clusterNodes)
+    .where(gt(clusterNodes.lastSeenAt, new Date(Date.now() - NODE_STALE_MS)))
+  return [...new Set([NODE_ID, ...rows.map((r) => r.nodeId)])]
+}
+
+async function heartbeat(): Promise<void> {
+  const now = new Date()
+  await db
+    .insert(clusterNodes)
+    .values({ nodeId: NODE_ID, startedAt: now, lastSeenAt: now })
+    .onConflictDoUpdate({ target: clusterNodes.nodeId, set: { lastSeenAt: now } })
+}
+
+/** Join the cluster: start listening for notices and beating. Call once, before accepting requests. */
+export async function startCluster(): Promise<void> {
+  await client.listen(STREAM_CHANNEL, onStreamMessage)
+  await client.listen(CONTROL_CHANNEL, onControlMessage)
+  await client.listen(BROADCAST_CHANNEL, onBroadcastMessage)
+  await heartbeat()
+  heartbeatTimer = setInterval(() => {
+    heartbeat().catch((err) => {
+      console.warn('[Cluster] Heartbeat failed:', err)
+    })
+  }, HEARTBEAT_INTERVAL_MS)
+  heartbeatTimer.unref()
+}
+
+/** Leave the cluster on shutdown so others can take over this node's work straight away. */
+export async function stopCluster(): Promise<void> {
+  if (heartbeatTimer) clearInterval(heartbeatTimer)
+  heartbeatTimer = null
+  await db.delete(clusterNodes).where(eq(clusterNodes.nodeId, NODE_ID))
+}
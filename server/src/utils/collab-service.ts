@@ -0,0 +1,762 @@
+/**
+ * Collaborative editing — live, conflict-free editing of workspace files.
+ *
+ * Every file open in someone's editor is a Yjs document (a CRDT), so edits
+ * from any number of browsers merge without conflicts whatever order they
+ * arrive in. Browsers reach it over the workspace WebSocket (routes/collab.ts).
+ *
+ * - Replicas: each replica with a client on a file keeps its own copy of the
+ *   document and broadcasts its updates to the others (utils/cluster.ts). A
+ *   replica opening a file that another one already holds asks for its state
+ *   instead of reading the disk, so every copy shares one history.
+ * - Disk: one replica per document, the writer (a lease in `collab_documents`),
+ *   saves it shortly after every change and watches the file for outside
+ *   writes — the agent, PUT /files/content, a checkpoint restore, git. An
+ *   outside write is diffed against the content last synced with disk and
+ *   replayed on top of that version, so it merges with the edits made in the
+ *   meantime instead of replacing them.
+ * - Presence: who is connected to a project, which file they have focused
+ *   and where their cursor is.
+ */
+import * as Y from 'yjs'
+import { readFile, stat, writeFile } from 'fs/promises'
+import { randomUUID } from 'crypto'
+import path from 'path'
+import { and, eq, lt, or } from 'drizzle-orm'
+import { db } from '../db/index.js'
+import { collabDocuments } from '../db/schema/collab-documents.js'
+import { NODE_ID, broadcast, getLiveNodes, onBroadcast } from './cluster.js'
+import { hasProjectRole, type MemberRole } from './project-access.js'
+
+const SAVE_DELAY_MS = 500
+const DISK_POLL_INTERVAL_MS = 1_000
+const LEASE_MS = 30_000
+const LEASE_RENEW_INTERVAL_MS = 10_000
+const SYNC_WAIT_MS = 1_000
+const PRESENCE_REFRESH_MS = 20_000
+const PEER_TTL_MS = 60_000
+const MAX_DOCUMENT_BYTES = 2 * 1024 * 1024
+const MAX_DIFF_EDITS = 2_000
+
+const PEER_COLORS = ['#f87171', '#fb923c', '#facc15', '#4ade80', '#2dd4bf', '#60a5fa', '#a78bfa', '#f472b6']
+
+// Transaction origins for changes that don't come from a local client
+const FROM_REPLICA = Symbol('replica')
+const FROM_SYNC = Symbol('sync')
+const FROM_DISK_LOAD = Symbol('disk-load')
+const FROM_DISK_MERGE = Symbol('disk-merge')
+
+export interface CollabPeer {
+  clientId: string
+  userId: string
+  username: string
+  color: string
+  /** File the peer has focused, relative to the project root */
+  path: string | null
+  /** Selection as Yjs relative positions — opaque to the server */
+  cursor: unknown
+}
+
+export type CollabServerMessage =
+  | { type: 'welcome'; clientId: string; color: string; peers: CollabPeer[] }
+  | { type: 'sync'; path: string; update: string }
+  | { type: 'update'; path: string; update: string }
+  | { type: 'peer'; peer: CollabPeer }
+  | { type: 'peer-left'; clientId: string }
+  | { type: 'error'; path?: string; message: string }
+
+/** One WebSocket connection to a project's workspace channel. */
+export interface CollabClient {
+  peer: CollabPeer
+  projectId: string
+  projectDir: string
+  canEdit: boolean
+  send(message: CollabServerMessage): void
+  /** Close the connection (access was revoked) */
+  disconnect(): void
+}
+
+class CollabRoom {
+  readonly doc = new Y.Doc()
+  readonly text = this.doc.getText('content')
+  readonly clients = new Set<CollabClient>()
+  ready: Promise<void> = Promise.resolve()
+  loaded = false
+  closed = false
+  isWriter = false
+  // What the disk held when last synced, and the document state that produced it
+  diskText = ''
+  diskState: Uint8Array = new Uint8Array()
+  diskMtimeMs = 0
+  diskSize = 0
+  // Saves and disk checks run one at a time
+  diskQueue: Promise<void> = Promise.resolve()
+  saveTimer: ReturnType<typeof setTimeout> | null = null
+  pollTimer: ReturnType<typeof setInterval> | null = null
+
+  constructor(
+    readonly projectId: string,
+    readonly path: string,
+    readonly fullPath: string,
+  ) {}
+}
+
+function roomKey(projectId: string, filePath: string): string {
+  return `${projectId}:${filePath}`
+}
+
+function toBase64(update: Uint8Array): string {
+  return Buffer.from(update).toString('base64')
+}
+
+function fromBase64(update: string): Uint8Array {
+  return new Uint8Array(Buffer.from(update, 'base64'))
+}
+
+export function peerColor(userId: string): string {
+  let hash = 0
+  for (const ch of userId) hash = (hash * 31 + ch.charCodeAt(0)) | 0
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length]
+}
+
+// ── Text diff ────────────────────────────────────────────────────────
+
+interface Hunk {
+  aStart: number
+  aEnd: number
+  bStart: number
+  bEnd: number
+}
+
+/**
+ * Line hunks turning `a` into `b` (Myers' O(ND) diff), or null when they
+ * differ in more than MAX_DIFF_EDITS lines.
+ */
+function diffLines(a: string[], b: string[]): Hunk[] | null {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, MAX_DIFF_EDITS)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // trace[d] holds v for k in [-(d + 1), d + 1] as it was before step d
+  const trace: Int32Array[] = []
+
+  let found = false
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - (d + 1), offset + d + 2))
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+  }
+  if (!found) return null
+
+  // Walk back from the end, collecting the non-diagonal moves as hunks
+  const hunks: Hunk[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const at = (k: number) => trace[d][k + d + 1]
+    const k = x - y
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      x--
+      y--
+    }
+    if (d > 0) {
+      const last = hunks[hunks.length - 1]
+      if (last && last.aStart === x && last.bStart === y) {
+        last.aStart = prevX
+        last.bStart = prevY
+      } else {
+        hunks.push({ aStart: prevX, aEnd: x, bStart: prevY, bEnd: y })
+      }
+    }
+    x = prevX
+    y = prevY
+  }
+  return hunks.reverse()
+}
+
+/** Apply the edits turning `oldText` (the current content of `text`) into `newText`. */
+function applyTextDiff(text: Y.Text, oldText: string, newText: string): void {
+  const a = oldText.split(/(?<=\n)/)
+  const b = newText.split(/(?<=\n)/)
+  const hunks = diffLines(a, b) ?? [{ aStart: 0, aEnd: a.length, bStart: 0, bEnd: b.length }]
+
+  const starts = [0]
+  for (const line of a) starts.push(starts[starts.length - 1] + line.length)
+
+  // Back to front, so earlier offsets stay valid
+  for (const hunk of hunks.reverse()) {
+    const start = starts[hunk.aStart]
+    const removed = oldText.slice(start, starts[hunk.aEnd])
+    const inserted = b.slice(hunk.bStart, hunk.bEnd).join('')
+
+    // Narrow the hunk to the characters that actually changed
+    let prefix = 0
+    while (prefix < removed.length && prefix < inserted.length && removed[prefix] === inserted[prefix]) prefix++
+    let suffix = 0
+    while (
+      suffix < removed.length - prefix &&
+      suffix < inserted.length - prefix &&
+      removed[removed.length - 1 - suffix] === inserted[inserted.length - 1 - suffix]
+    ) suffix++
+
+    const deleteLength = removed.length - prefix - suffix
+    if (deleteLength > 0) text.delete(start + prefix, deleteLength)
+    const insert = inserted.slice(prefix, inserted.length - suffix)
+    if (insert) text.insert(start + prefix, insert)
+  }
+}
+
+// ── Service ──────────────────────────────────────────────────────────
+
+type SyncReply = { to: string; requestId: string; update: string }
+
+export class CollabService {
+  private rooms = new Map<string, CollabRoom>()
+  private clientRooms = new Map<CollabClient, Set<CollabRoom>>()
+  private projectClients = new Map<string, Set<CollabClient>>()
+  private remotePeers = new Map<string, Map<string, { peer: CollabPeer; seenAt: number }>>()
+  private syncRequests = new Map<string, (update: Uint8Array) => void>()
+  private leaseTimer: ReturnType<typeof setInterval> | null = null
+  private presenceTimer: ReturnType<typeof setInterval> | null = null
+
+  // ── Connections ──────────────────────────────────────────────────
+
+  /** Register a connection and greet it with everyone already in the project. */
+  join(client: CollabClient): void {
+    const clients = this.projectClients.get(client.projectId) ?? new Set()
+    this.projectClients.set(client.projectId, clients)
+
+    const peers = [
+      ...[...clients].map((c) => c.peer),
+      ...[...(this.remotePeers.get(client.projectId)?.values() ?? [])].map((p) => p.peer),
+    ]
+    clients.add(client)
+    this.clientRooms.set(client, new Set())
+    client.send({ type: 'welcome', clientId: client.peer.clientId, color: client.peer.color, peers })
+    this.announcePeer(client)
+  }
+
+  /** Drop a connection: close its files and tell the others it left. */
+  leave(client: CollabClient): void {
+    const rooms = this.clientRooms.get(client)
+    if (!rooms) return
+    this.clientRooms.delete(client)
+    for (const room of rooms) this.removeFromRoom(room, client)
+
+    const clients = this.projectClients.get(client.projectId)
+    clients?.delete(client)
+    if (clients?.size === 0) this.projectClients.delete(client.projectId)
+
+    this.sendToProject(client.projectId, { type: 'peer-left', clientId: client.peer.clientId })
+    broadcast('collab.peer-left', { projectId: client.projectId, clientId: client.peer.clientId })
+  }
+
+  /** Open a file: the client gets its full state, then live updates. */
+  async open(client: CollabClient, filePath: string): Promise<void> {
+    const fullPath = path.resolve(client.projectDir, filePath)
+    if (!fullPath.startsWith(client.projectDir + '/')) {
+      client.send({ type: 'error', path: filePath, message: 'Access denied' })
+      return
+    }
+    const relative = path.relative(client.projectDir, fullPath)
+    const key = roomKey(client.projectId, relative)
+
+    let room = this.rooms.get(key)
+    if (!room) {
+      const created = new CollabRoom(client.projectId, relative, fullPath)
+      created.ready = this.load(created)
+      this.rooms.set(key, created)
+      room = created
+    }
+
+    try {
+      await room.ready
+    } catch (err) {
+      if (this.rooms.get(key) === room) void this.dispose(room)
+      client.send({ type: 'error', path: filePath, message: err instanceof Error ? err.message : 'Failed to open file' })
+      return
+    }
+
+    const rooms = this.clientRooms.get(client)
+    if (!rooms || room.closed) {
+      // Disconnected while loading (or the room was torn down meanwhile)
+      if (room.clients.size === 0 && !room.closed) void this.dispose(room)
+      return
+    }
+    rooms.add(room)
+    room.clients.add(client)
+    client.send({ type: 'sync', path: filePath, update: toBase64(Y.encodeStateAsUpdate(room.doc)) })
+  }
+
+  close(client: CollabClient, filePath: string): void {
+    const room = this.findClientRoom(client, filePath)
+    if (!room) return
+    this.clientRooms.get(client)?.delete(room)
+    this.removeFromRoom(room, client)
+  }
+
+  /** Apply an edit a client made to an open file. */
+  update(client: CollabClient, filePath: string, update: string): void {
+    if (!client.canEdit) {
+      client.send({ type: 'error', path: filePath, message: 'You have view-only access to this project' })
+      return
+    }
+    const room = this.findClientRoom(client, filePath)
+    if (!room) {
+      client.send({ type: 'error', path: filePath, message: 'File is not open' })
+      return
+    }
+    try {
+      Y.applyUpdate(room.doc, fromBase64(update), client)
+    } catch {
+      client.send({ type: 'error', path: filePath, message: 'Invalid update' })
+    }
+  }
+
+  /** Record which file a client has focused and where its cursor is. */
+  setPresence(client: CollabClient, filePath: string | null, cursor: unknown): void {
+    client.peer.path = filePath
+    client.peer.cursor = cursor ?? null
+    this.announcePeer(client)
+  }
+
+  /**
+   * A route wrote a file directly: merge it into the open document now
+   * rather than on the next poll.
+   */
+  fileWritten(projectId: string, projectDir: string, filePath: string): void {
+    const relative = path.relative(projectDir, path.resolve(projectDir, filePath))
+    const room = this.rooms.get(roomKey(projectId, relative))
+    if (room?.isWriter && room.loaded) this.queueDisk(room, () => this.checkDisk(room))
+  }
+
+  /**
+   * A route deleted a file: close its open document on every replica, without
+   * the pending save that would write it back.
+   */
+  fileDeleted(projectId: string, projectDir: string, filePath: string): void {
+    const relative = path.relative(projectDir, path.resolve(projectDir, filePath))
+    this.dropDocument({ projectId, path: relative })
+    broadcast('collab.deleted', { projectId, path: relative })
+  }
+
+  /**
+   * A member's role changed (null: removed). Their open connections, here
+   * and on every other replica, lose editing or are closed — access is
+   * otherwise only checked when the WebSocket connects.
+   */
+  memberChanged(projectId: string, userId: string, role: MemberRole | null): void {
+    this.applyMemberChange({ projectId, userId, role })
+    broadcast('collab.member-changed', { projectId, userId, role })
+  }
+
+  // ── Lifecycle ────────────────────────────────────────────────────
+
+  /** Start lease upkeep and presence refresh. Call once at boot. */
+  start(): void {
+    this.leaseTimer = setInterval(() => {
+      this.maintainLeases().catch((err) => {
+        console.warn('[Collab] Lease upkeep failed:', err)
+      })
+    }, LEASE_RENEW_INTERVAL_MS)
+    this.leaseTimer.unref()
+
+    this.presenceTimer = setInterval(() => this.refreshPresence(), PRESENCE_REFRESH_MS)
+    this.presenceTimer.unref()
+  }
+
+  /** Save every document this replica writes and hand its leases back. */
+  async shutdown(): Promise<void> {
+    if (this.leaseTimer) clearInterval(this.leaseTimer)
+    if (this.presenceTimer) clearInterval(this.presenceTimer)
+    this.leaseTimer = null
+    this.presenceTimer = null
+    await Promise.allSettled([...this.rooms.values()].map((room) => this.dispose(room)))
+  }
+
+  // ── Cluster ──────────────────────────────────────────────────────
+
+  receiveUpdate(data: { projectId: string; path: string; update: string }): void {
+    const room = this.rooms.get(roomKey(data.projectId, data.path))
+    if (!room || room.closed) return
+    try {
+      Y.applyUpdate(room.doc, fromBase64(data.update), FROM_REPLICA)
+    } catch (err) {
+      console.warn('[Collab] Dropped a malformed update for', data.path, err)
+    }
+  }
+
+  answerSyncRequest(data: { requestId: string; projectId: string; path: string }, node: string): void {
+    const room = this.rooms.get(roomKey(data.projectId, data.path))
+    if (!room?.loaded || room.closed) return
+    broadcast('collab.sync-reply', { to: node, requestId: data.requestId, update: toBase64(Y.encodeStateAsUpdate(room.doc)) })
+  }
+
+  receiveSyncReply(data: SyncReply): void {
+    if (data.to !== NODE_ID) return
+    this.syncRequests.get(data.requestId)?.(fromBase64(data.update))
+  }
+
+  receivePeer(data: { projectId: string; peer: CollabPeer }): void {
+    const peers = this.remotePeers.get(data.projectId) ?? new Map()
+    this.remotePeers.set(data.projectId, peers)
+    peers.set(data.peer.clientId, { peer: data.peer, seenAt: Date.now() })
+    this.sendToProject(data.projectId, { type: 'peer', peer: data.peer })
+  }
+
+  receivePeerLeft(data: { projectId: string; clientId: string }): void {
+    if (!this.remotePeers.get(data.projectId)?.delete(data.clientId)) return
+    this.sendToProject(data.projectId, { type: 'peer-left', clientId: data.clientId })
+  }
+
+  receiveDeleted(data: { projectId: string; path: string }): void {
+    this.dropDocument(data)
+  }
+
+  receiveMemberChanged(data: { projectId: string; userId: string; role: MemberRole | null }): void {
+    this.applyMemberChange(data)
+  }
+
+  /** The writer of a document let go of it: take over if we still hold it. */
+  receiveReleased(data: { projectId: string; path: string }): void {
+    const room = this.rooms.get(roomKey(data.projectId, data.path))
+    if (!room?.loaded || room.closed || room.isWriter) return
+    this.takeOver(room).catch((err) => {
+      console.warn('[Collab] Failed to take over', data.path, err)
+    })
+  }
+
+  // ── Internals ────────────────────────────────────────────────────
+
+  private async load(room: CollabRoom): Promise<void> {
+    let fileStat
+    try {
+      fileStat = await stat(room.fullPath)
+    } catch {
+      throw new Error('File not found')
+    }
+    if (!fileStat.isFile()) throw new Error('Path is not a file')
+    if (fileStat.size > MAX_DOCUMENT_BYTES) throw new Error('File is too large to edit collaboratively')
+
+    room.doc.on('update', (update: Uint8Array, origin: unknown) => this.onDocUpdate(room, update, origin))
+
+    const isWriter = await this.claimLease(room)
+    try {
+      const synced = await this.requestState(room)
+      if (!synced && !isWriter) {
+        throw new Error('This file is open on another server that is not responding. Try again in a moment.')
+      }
+
+      if (!synced) {
+        const content = await readFile(room.fullPath, 'utf-8')
+        room.doc.transact(() => room.text.insert(0, content), FROM_DISK_LOAD)
+        this.markDiskSynced(room, content, fileStat.mtimeMs, fileStat.size)
+        room.loaded = true
+        this.startWriting(room)
+        return
+      }
+
+      room.loaded = true
+      if (isWriter) await this.becomeWriterOfHeldDocument(room)
+    } catch (err) {
+      // Don't keep other replicas off a document nobody here could open
+      if (isWriter) {
+        this.stopWriting(room)
+        await this.releaseLease(room).catch((releaseErr) => {
+          console.warn('[Collab] Failed to release lease for', room.path, releaseErr)
+        })
+      }
+      throw err
+    }
+  }
+
+  private onDocUpdate(room: CollabRoom, update: Uint8Array, origin: unknown): void {
+    const encoded = toBase64(update)
+    for (const client of room.clients) {
+      if (client !== origin) client.send({ type: 'update', path: room.path, update: encoded })
+    }
+    // Local edits (a client's or a merged disk write) go to the other replicas
+    if (origin !== FROM_REPLICA && origin !== FROM_SYNC && origin !== FROM_DISK_LOAD) {
+      broadcast('collab.update', { projectId: room.projectId, path: room.path, update: encoded })
+    }
+    if (room.isWriter && origin !== FROM_DISK_LOAD) this.scheduleSave(room)
+  }
+
+  /** Ask the other replicas for the document; false if nobody has it. */
+  private async requestState(room: CollabRoom): Promise<boolean> {
+    if ((await getLiveNodes()).length <= 1) return false
+    const requestId = randomUUID()
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.syncRequests.delete(requestId)
+        resolve(false)
+      }, SYNC_WAIT_MS)
+      this.syncRequests.set(requestId, (update) => {
+        clearTimeout(timer)
+        this.syncRequests.delete(requestId)
+        try {
+          Y.applyUpdate(room.doc, update, FROM_SYNC)
+          resolve(true)
+        } catch {
+          resolve(false)
+        }
+      })
+      broadcast('collab.sync-request', { requestId, projectId: room.projectId, path: room.path })
+    })
+  }
+
+  private async claimLease(room: CollabRoom): Promise<boolean> {
+    const now = new Date()
+    const leaseUntil = new Date(now.getTime() + LEASE_MS)
+    const [row] = await db
+      .insert(collabDocuments)
+      .values({ projectId: room.projectId, path: room.path, writerNode: NODE_ID, leaseUntil })
+      .onConflictDoUpdate({
+        target: [collabDocuments.projectId, collabDocuments.path],
+        set: { writerNode: NODE_ID, leaseUntil },
+        setWhere: or(eq(collabDocuments.writerNode, NODE_ID), lt(collabDocuments.leaseUntil, now)),
+      })
+      .returning({ writerNode: collabDocuments.writerNode })
+    return !!row
+  }
+
+  private async releaseLease(room: CollabRoom): Promise<void> {
+    await db
+      .delete(collabDocuments)
+      .where(and(
+        eq(collabDocuments.projectId, room.projectId),
+        eq(collabDocuments.path, room.path),
+        eq(collabDocuments.writerNode, NODE_ID),
+      ))
+    broadcast('collab.released', { projectId: room.projectId, path: room.path })
+  }
+
+  private async maintainLeases(): Promise<void> {
+    for (const room of this.rooms.values()) {
+      if (!room.loaded || room.closed) continue
+      if (room.isWriter) {
+        if (!(await this.claimLease(room))) this.stopWriting(room)
+      } else {
+        await this.takeOver(room)
+      }
+    }
+  }
+
+  private async takeOver(room: CollabRoom): Promise<void> {
+    if (await this.claimLease(room)) await this.becomeWriterOfHeldDocument(room)
+  }
+
+  /**
+   * Start writing a document this replica already holds (the previous writer
+   * left or died). What it last saw on disk is unknown, so the document wins:
+   * if the file differs, it is overwritten with the document's content.
+   */
+  private async becomeWriterOfHeldDocument(room: CollabRoom): Promise<void> {
+    let mtimeMs = 0
+    let size = 0
+    try {
+      const fileStat = await stat(room.fullPath)
+      mtimeMs = fileStat.mtimeMs
+      size = fileStat.size
+    } catch { /* deleted — the next save recreates it */ }
+    this.markDiskSynced(room, room.text.toString(), mtimeMs, size)
+    this.startWriting(room)
+    this.queueDisk(room, async () => {
+      const onDisk = await readFile(room.fullPath, 'utf-8').catch(() => null)
+      if (onDisk !== room.diskText) await this.save(room, true)
+    })
+  }
+
+  private startWriting(room: CollabRoom): void {
+    room.isWriter = true
+    room.pollTimer = setInterval(() => this.queueDisk(room, () => this.checkDisk(room)), DISK_POLL_INTERVAL_MS)
+    room.pollTimer.unref()
+  }
+
+  private stopWriting(room: CollabRoom): void {
+    room.isWriter = false
+    if (room.pollTimer) clearInterval(room.pollTimer)
+    if (room.saveTimer) clearTimeout(room.saveTimer)
+    room.pollTimer = null
+    room.saveTimer = null
+  }
+
+  private markDiskSynced(room: CollabRoom, content: string, mtimeMs: number, size: number): void {
+    room.diskText = content
+    room.diskState = Y.encodeStateAsUpdate(room.doc)
+    room.diskMtimeMs = mtimeMs
+    room.diskSize = size
+  }
+
+  private queueDisk(room: CollabRoom, task: () => Promise<void>): Promise<void> {
+    room.diskQueue = room.diskQueue.then(task).catch((err) => {
+      console.warn('[Collab] Disk sync failed for', room.path, err)
+    })
+    return room.diskQueue
+  }
+
+  private scheduleSave(room: CollabRoom): void {
+    if (room.saveTimer) clearTimeout(room.saveTimer)
+    room.saveTimer = setTimeout(() => {
+      room.saveTimer = null
+      void this.queueDisk(room, () => this.save(room))
+    }, SAVE_DELAY_MS)
+  }
+
+  private async save(room: CollabRoom, force = false): Promise<void> {
+    if (!force) {
+      // Merge an outside write first instead of overwriting it
+      await this.checkDisk(room)
+      if (room.text.toString() === room.diskText) return
+    }
+    const content = room.text.toString()
+    await writeFile(room.fullPath, content, 'utf-8')
+    const fileStat = await stat(room.fullPath)
+    this.markDiskSynced(room, content, fileStat.mtimeMs, fileStat.size)
+  }
+
+  private async checkDisk(room: CollabRoom): Promise<void> {
+    let fileStat
+    try {
+      fileStat = await stat(room.fullPath)
+    } catch {
+      return // deleted — keep the document; it is only recreated if edited again
+    }
+    if (fileStat.mtimeMs === room.diskMtimeMs && fileStat.size === room.diskSize) return
+
+    const content = await readFile(room.fullPath, 'utf-8')
+    room.diskMtimeMs = fileStat.mtimeMs
+    room.diskSize = fileStat.size
+    if (content !== room.diskText) this.mergeOutsideWrite(room, content)
+  }
+
+  /**
+   * Replay an outside write on a copy of the document as it was when the disk
+   * was last synced, then merge that copy's changes into the live document:
+   * whatever was edited since survives next to the new content.
+   */
+  private mergeOutsideWrite(room: CollabRoom, content: string): void {
+    const base = new Y.Doc()
+    try {
+      Y.applyUpdate(base, room.diskState)
+      const before = Y.encodeStateVector(base)
+      base.transact(() => applyTextDiff(base.getText('content'), room.diskText, content))
+      Y.applyUpdate(room.doc, Y.encodeStateAsUpdate(base, before), FROM_DISK_MERGE)
+      room.diskText = content
+      room.diskState = Y.encodeStateAsUpdate(base)
+    } finally {
+      base.destroy()
+    }
+  }
+
+  private dropDocument(data: { projectId: string; path: string }): void {
+    const room = this.rooms.get(roomKey(data.projectId, data.path))
+    if (!room || room.closed) return
+    if (room.saveTimer) clearTimeout(room.saveTimer)
+    room.saveTimer = null
+    for (const client of room.clients) {
+      this.clientRooms.get(client)?.delete(room)
+      client.send({ type: 'error', path: room.path, message: 'This file was deleted' })
+    }
+    room.clients.clear()
+    void this.dispose(room)
+  }
+
+  private applyMemberChange(data: { projectId: string; userId: string; role: MemberRole | null }): void {
+    for (const client of this.projectClients.get(data.projectId) ?? []) {
+      if (client.peer.userId !== data.userId) continue
+      if (data.role) {
+        client.canEdit = hasProjectRole(data.role, 'editor')
+      } else {
+        client.send({ type: 'error', message: 'You no longer have access to this project' })
+        client.disconnect()
+      }
+    }
+  }
+
+  private removeFromRoom(room: CollabRoom, client: CollabClient): void {
+    room.clients.delete(client)
+    if (room.clients.size === 0 && room.loaded) void this.dispose(room)
+  }
+
+  /** Forget a document nobody here has open any more, saving it first if we write it. */
+  private async dispose(room: CollabRoom): Promise<void> {
+    if (room.closed) return
+    room.closed = true
+    const key = roomKey(room.projectId, room.path)
+    if (this.rooms.get(key) === room) this.rooms.delete(key)
+
+    if (room.isWriter) {
+      const pendingSave = room.saveTimer !== null
+      this.stopWriting(room)
+      if (pendingSave) await this.queueDisk(room, () => this.save(room))
+      else await room.diskQueue
+      await this.releaseLease(room).catch((err) => {
+        console.warn('[Collab] Failed to release lease for', room.path, err)
+      })
+    }
+    room.doc.destroy()
+  }
+
+  private findClientRoom(client: CollabClient, filePath: string): CollabRoom | undefined {
+    const relative = path.relative(client.projectDir, path.resolve(client.projectDir, filePath))
+    for (const room of this.clientRooms.get(client) ?? []) {
+      if (room.path === relative) return room
+    }
+    return undefined
+  }
+
+  private announcePeer(client: CollabClient): void {
+    this.sendToProject(client.projectId, { type: 'peer', peer: client.peer }, client)
+    broadcast('collab.peer', { projectId: client.projectId, peer: client.peer })
+  }
+
+  private sendToProject(projectId: string, message: CollabServerMessage, except?: CollabClient): void {
+    for (const client of this.projectClients.get(projectId) ?? []) {
+      if (client !== except) client.send(message)
+    }
+  }
+
+  /** Re-announce local peers and forget remote ones whose replica went quiet. */
+  private refreshPresence(): void {
+    for (const [projectId, clients] of this.projectClients) {
+      for (const client of clients) broadcast('collab.peer', { projectId, peer: client.peer })
+    }
+    const cutoff = Date.now() - PEER_TTL_MS
+    for (const [projectId, peers] of this.remotePeers) {
+      for (const [clientId, entry] of peers) {
+        if (entry.seenAt >= cutoff) continue
+        peers.delete(clientId)
+        this.sendToProject(projectId, { type: 'peer-left', clientId })
+      }
+      if (peers.size === 0) this.remotePeers.delete(projectId)
+    }
+  }
+}
+
+// Singleton instance
+export const collabService = new CollabService()
+
+onBroadcast('collab.update', (data) => collabService.receiveUpdate(data))
+onBroadcast('collab.sync-request', (data, node) => collabService.answerSyncRequest(data, node))
+onBroadcast('collab.sync-reply', (data) => collabService.receiveSyncReply(data))
+onBroadcast('collab.peer', (data) => collabService.receivePeer(data))
+onBroadcast('collab.peer-left', (data) => collabService.receivePeerLeft(data))
+onBroadcast('collab.deleted', (data) => collabService.receiveDeleted(data))
+onBroadcast('collab.member-changed', (data) => collabService.receiveMemberChanged(data))
+onBroadcast('collab.released', (data) => collabService.receiveReleased(data))
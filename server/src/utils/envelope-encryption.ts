@@ -0,0 +1,135 @@
+/**
+ * Envelope encryption for secrets stored in the database (GitHub tokens,
+ * provider API keys).
+ *
+ * Each value is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is wrapped with a master key from `ENCRYPTION_KEYS`. The stored
+ * form is `enc:v1:<keyId>:<wrapped data key>:<ciphertext>`, so rotating the
+ * master key only re-wraps the small data key — see rewrapSecret and
+ * utils/secret-rotation.ts.
+ *
+ * `ENCRYPTION_KEYS` is a comma-separated `id:base64key` list; the first entry
+ * encrypts, the rest are only used to read values written under them.
+ * Values without the `enc:` prefix are legacy plaintext and are returned
+ * as-is until the rotation pass encrypts them.
+ */
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto'
+import { env } from '../env.js'
+
+const PREFIX = 'enc:v1:'
+const ALGORITHM = 'aes-256-gcm'
+const IV_BYTES = 12
+const TAG_BYTES = 16
+const KEY_BYTES = 32
+// Binds wrapped data keys to their purpose, so one can't be passed off as a ciphertext
+const WRAP_AAD = Buffer.from('auroracraft:data-key')
+
+interface Keyring {
+  activeId: string
+  keys: Map<string, Buffer>
+}
+
+function loadKeyring(): Keyring {
+  if (!env.ENCRYPTION_KEYS) {
+    if (env.NODE_ENV === 'production') {
+      throw new Error('ENCRYPTION_KEYS must be set in production (e.g. ENCRYPTION_KEYS=k1:$(openssl rand -base64 32))')
+    }
+    // Development only: a stable key derived from the session secret
+    const key = Buffer.from(hkdfSync('sha256', env.SESSION_SECRET, '', 'auroracraft:dev-master-key', KEY_BYTES))
+    return { activeId: 'dev', keys: new Map([['dev', key]]) }
+  }
+
+  const keys = new Map<string, Buffer>()
+  let activeId = ''
+  for (const entry of env.ENCRYPTION_KEYS.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const match = entry.match(/^([A-Za-z0-9_-]{1,32}):(.+)$/)
+    const key = match ? Buffer.from(match[2], 'base64') : null
+    if (!match || !key || key.length !== KEY_BYTES) {
+      throw new Error(`ENCRYPTION_KEYS: entries must be <id>:<base64 of ${KEY_BYTES} bytes>`)
+    }
+    if (keys.has(match[1])) throw new Error(`ENCRYPTION_KEYS: duplicate key id "${match[1]}"`)
+    keys.set(match[1], key)
+    activeId ||= match[1]
+  }
+  if (!activeId) throw new Error('ENCRYPTION_KEYS is empty')
+  return { activeId, keys }
+}
+
+const keyring = loadKeyring()
+
+function seal(key: Buffer, plaintext: Buffer, aad?: Buffer): Buffer {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv(ALGORITHM, key, iv)
+  if (aad) cipher.setAAD(aad)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()])
+}
+
+function open(key: Buffer, sealed: Buffer, aad?: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_BYTES)
+  const tag = sealed.subarray(sealed.length - TAG_BYTES)
+  const decipher = createDecipheriv(ALGORITHM, key, iv)
+  if (aad) decipher.setAAD(aad)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES, sealed.length - TAG_BYTES)), decipher.final()])
+}
+
+function parse(stored: string): { keyId: string; wrappedKey: Buffer; payload: Buffer } {
+  const [keyId, wrappedKey, payload] = stored.slice(PREFIX.length).split(':')
+  if (!keyId || !wrappedKey || !payload) throw new Error('Malformed encrypted value')
+  return { keyId, wrappedKey: Buffer.from(wrappedKey, 'base64url'), payload: Buffer.from(payload, 'base64url') }
+}
+
+function masterKey(keyId: string): Buffer {
+  const key = keyring.keys.get(keyId)
+  if (!key) throw new Error(`Encrypted with unknown master key "${keyId}"; add it back to ENCRYPTION_KEYS`)
+  return key
+}
+
+const format = (keyId: string, wrappedKey: Buffer, payload: Buffer) =>
+  `${PREFIX}${keyId}:${wrappedKey.toString('base64url')}:${payload.toString('base64url')}`
+
+export function isEncrypted(stored: string): boolean {
+  return stored.startsWith(PREFIX)
+}
+
+export function encryptSecret(plaintext: string): string {
+  const dataKey = randomBytes(KEY_BYTES)
+  const payload = seal(dataKey, Buffer.from(plaintext, 'utf8'))
+  return format(keyring.activeId, seal(masterKey(keyring.activeId), dataKey, WRAP_AAD), payload)
+}
+
+export function decryptSecret(stored: string): string {
+  if (!isEncrypted(stored)) return stored
+  const { keyId, wrappedKey, payload } = parse(stored)
+  const dataKey = open(masterKey(keyId), wrappedKey, WRAP_AAD)
+  return open(dataKey, payload).toString('utf8')
+}
+
+/** Null-tolerant decryptSecret for nullable columns. */
+export function decryptOptional(stored: string | null | undefined): string | null {
+  return stored ? decryptSecret(stored) : null
+}
+
+/** True for plaintext and for values wrapped under a master key other than the active one. */
+export function needsRewrap(stored: string): boolean {
+  return !isEncrypted(stored) || parse(stored).keyId !== keyring.activeId
+}
+
+/**
+ * Bring a stored value onto the active master key: plaintext is encrypted,
+ * values under an older key have their data key re-wrapped (the ciphertext
+ * itself is unchanged).
+ */
+export function rewrapSecret(stored: string): string {
+  if (!isEncrypted(stored)) return encryptSecret(stored)
+  const { keyId, wrappedKey, payload } = parse(stored)
+  if (keyId === keyring.activeId) return stored
+  const dataKey = open(masterKey(keyId), wrappedKey, WRAP_AAD)
+  return format(keyring.activeId, seal(masterKey(keyring.activeId), dataKey, WRAP_AAD), payload)
+}
+
+/** Display form of a secret: first 8 and last 4 characters, or dots for short ones. */
+export function maskSecret(plaintext: string): string {
+  return plaintext.length > 12 ? `${plaintext.slice(0, 8)}••••••••${plaintext.slice(-4)}` : '••••••••'
+}
@@ -0,0 +1,335 @@
+/**
+ * Git history service — read the project's commit log, per-commit diffs and
+ * blame, and undo past changes (revert a commit, restore one file).
+ *
+ * Every command runs as `runuser -u auroracraft-<owner> -- git -C <dir> …`
+ * like the GitHub routes, but through execFile with an argument list, so
+ * paths and revisions never pass through a shell. Revisions are resolved to
+ * full SHAs before use and paths are passed as literal pathspecs.
+ */
+import path from 'path'
+import { execAsSystemUser, workspaceSystemUser } from './system-user.js'
+
+const GIT_TIMEOUT_MS = 60_000
+const MAX_LOG_PAGE = 100
+// Per-file and whole-commit cut-offs for patches; the file list is always complete.
+const MAX_FILE_PATCH_CHARS = 64 * 1024
+const MAX_COMMIT_PATCH_CHARS = 1024 * 1024
+// `git hash-object -t tree /dev/null`: the parent side of a root commit's diff
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'
+
+const REV_RE = /^[0-9a-f]{4,40}$/i
+const FIELD = '\x1f'
+const RECORD = '\x1e'
+const LOG_FORMAT = ['%H', '%h', '%an', '%ae', '%aI', '%P', '%s'].join('%x1f') + '%x1e'
+
+export interface GitCommitSummary {
+  sha: string
+  shortSha: string
+  author: string
+  authorEmail: string
+  /** ISO 8601 author date */
+  date: string
+  parents: string[]
+  subject: string
+}
+
+export interface GitCommitLog {
+  commits: GitCommitSummary[]
+  hasMore: boolean
+}
+
+export interface GitFileDiff {
+  path: string
+  /** Previous path for renames. */
+  oldPath?: string
+  status: 'added' | 'modified' | 'deleted' | 'renamed'
+  additions: number
+  deletions: number
+  binary: boolean
+  /** Unified diff for this file alone */
+  patch: string
+  truncated: boolean
+}
+
+export interface GitCommitDetail extends GitCommitSummary {
+  /** Full message, subject included */
+  message: string
+  files: GitFileDiff[]
+}
+
+export interface GitBlameCommit {
+  author: string
+  date: string
+  summary: string
+}
+
+export interface GitBlame {
+  /** Keyed by SHA; uncommitted lines use the all-zero SHA. */
+  commits: Record<string, GitBlameCommit>
+  /** Consecutive lines last changed by the same commit (1-based lines). */
+  ranges: { sha: string; startLine: number; lineCount: number }[]
+}
+
+export interface GitIdentity {
+  name: string
+  email: string
+}
+
+/** Run git in the workspace as its system user; returns stdout. */
+export function git(directory: string, args: string[]): Promise<string> {
+  return execAsSystemUser(workspaceSystemUser(directory), ['git', '-C', directory, ...args], GIT_TIMEOUT_MS)
+}
+
+/** What a failed git command printed; git reports some failures on stdout. */
+export function outputOf(err: unknown): string {
+  const { stdout = '', stderr = '' } = err as { stdout?: string; stderr?: string }
+  return `${stdout}\n${stderr}`
+}
+
+/** Project-relative path, or null if it would leave the project. */
+export function cleanPath(filePath: string): string | null {
+  const normalized = path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^\.\//, '')
+  if (!normalized || normalized === '.' || path.posix.isAbsolute(normalized) || normalized.startsWith('../')) return null
+  return normalized
+}
+
+const literal = (filePath: string) => `:(literal)${filePath}`
+
+/** Full SHA of a commit, or null if `rev` doesn't name one. */
+async function resolveCommit(directory: string, rev: string): Promise<string | null> {
+  if (!REV_RE.test(rev)) return null
+  try {
+    return (await git(directory, ['rev-parse', '--verify', '--quiet', `${rev}^{commit}`])).trim() || null
+  } catch {
+    return null
+  }
+}
+
+export async function hasHead(directory: string): Promise<boolean> {
+  try {
+    await git(directory, ['rev-parse', '--verify', '--quiet', 'HEAD^{commit}'])
+    return true
+  } catch {
+    return false
+  }
+}
+
+function parseCommitSummary(record: string): GitCommitSummary {
+  const [sha, shortSha, author, authorEmail, date, parents, subject] = record.split(FIELD)
+  return { sha, shortSha, author, authorEmail, date, parents: parents ? parents.split(' ') : [], subject: subject ?? '' }
+}
+
+/**
+ * One page of the log from HEAD, newest first. With `filePath`, only commits
+ * that touched that file, following renames.
+ */
+export async function getCommitLog(
+  directory: string,
+  opts: { skip?: number; limit?: number; filePath?: string } = {},
+): Promise<GitCommitLog> {
+  // An empty repo, or no repo at all yet, has no history
+  if (!(await hasHead(directory))) {
+    return { commits: [], hasMore: false }
+  }
+  const limit = Math.min(Math.max(opts.limit ?? 50, 1), MAX_LOG_PAGE)
+  const args = ['log', `--format=${LOG_FORMAT}`, `--skip=${Math.max(opts.skip ?? 0, 0)}`, `--max-count=${limit + 1}`]
+  if (opts.filePath) {
+    const filePath = cleanPath(opts.filePath)
+    if (!filePath) return { commits: [], hasMore: false }
+    args.push('--follow', '--', literal(filePath))
+  }
+  const records = (await git(directory, args)).split(RECORD).map((r) => r.replace(/^\n/, '')).filter(Boolean)
+  return { commits: records.slice(0, limit).map(parseCommitSummary), hasMore: records.length > limit }
+}
+
+function parseStatus(code: string): GitFileDiff['status'] {
+  if (code.startsWith('A')) return 'added'
+  if (code.startsWith('D')) return 'deleted'
+  if (code.startsWith('R')) return 'renamed'
+  return 'modified'
+}
+
+/**
+ * A commit with its message and a unified diff per file, against its first
+ * parent. `filePath` limits the diff to that file. Null if there's no such commit.
+ */
+export async function getCommit(directory: string, rev: string, filePath?: string): Promise<GitCommitDetail | null> {
+  const sha = await resolveCommit(directory, rev)
+  if (!sha) return null
+  let pathspec: string[] = []
+  if (filePath) {
+    const cleaned = cleanPath(filePath)
+    if (!cleaned) return null
+    pathspec = ['--', literal(cleaned)]
+  }
+
+  const [header, message] = await Promise.all([
+    git(directory, ['show', '-s', `--format=${LOG_FORMAT}`, sha]),
+    git(directory, ['show', '-s', '--format=%B', sha]),
+  ])
+  const summary = parseCommitSummary(header.split(RECORD)[0])
+  const range = [summary.parents[0] ?? EMPTY_TREE, sha]
+  const diffFlags = ['--no-color', '--no-ext-diff', '-M']
+
+  const [nameStatus, numstat, patch] = await Promise.all([
+    git(directory, ['diff', ...diffFlags, '--name-status', '-z', ...range, ...pathspec]),
+    git(directory, ['diff', ...diffFlags, '--numstat', '-z', ...range, ...pathspec]),
+    git(directory, ['diff', ...diffFlags, ...range, ...pathspec]),
+  ])
+
+  // --name-status -z: STATUS\0path\0 (renames: STATUS\0old\0new\0)
+  const files: GitFileDiff[] = []
+  const ns = nameStatus.split('\0')
+  for (let i = 0; i < ns.length - 1; ) {
+    const code = ns[i++]
+    if (!code) continue
+    const base = { additions: 0, deletions: 0, binary: false, patch: '', truncated: false }
+    if (code.startsWith('R') || code.startsWith('C')) {
+      const oldPath = ns[i++]
+      files.push({ ...base, path: ns[i++], oldPath, status: 'renamed' })
+    } else {
+      files.push({ ...base, path: ns[i++], status: parseStatus(code) })
+    }
+  }
+
+  // --numstat -z: "add\tdel\tpath\0" or, for renames, "add\tdel\t\0old\0new\0"
+  const byPath = new Map(files.map((f) => [f.path, f]))
+  const nums = numstat.split('\0')
+  for (let i = 0; i < nums.length - 1; ) {
+    const [add, del, statPath] = nums[i++].split('\t')
+    let statFile = statPath
+    if (!statFile) {
+      i++
+      statFile = nums[i++]
+    }
+    const f = byPath.get(statFile)
+    if (!f) continue
+    f.binary = add === '-'
+    f.additions = f.binary ? 0 : Number(add) || 0
+    f.deletions = f.binary ? 0 : Number(del) || 0
+  }
+
+  // The patch lists files in the same order as --name-status, one "diff --git" block each
+  const blocks = patch.split(/^(?=diff --git )/m).filter((b) => b.startsWith('diff --git '))
+  let budget = MAX_COMMIT_PATCH_CHARS
+  files.forEach((f, i) => {
+    const block = blocks[i] ?? ''
+    const limit = Math.min(MAX_FILE_PATCH_CHARS, budget)
+    f.truncated = block.length > limit
+    f.patch = f.truncated ? block.slice(0, limit) : block
+    budget -= f.patch.length
+  })
+
+  return { ...summary, message: message.trimEnd(), files }
+}
+
+/**
+ * Who last changed each line of a file as it is in the working tree. Null if
+ * git doesn't track the file.
+ */
+export async function getBlame(directory: string, filePath: string): Promise<GitBlame | null> {
+  const cleaned = cleanPath(filePath)
+  if (!cleaned || !(await hasHead(directory))) return null
+  let output: string
+  try {
+    output = await git(directory, ['blame', '--porcelain', '--', cleaned])
+  } catch {
+    return null
+  }
+
+  // Porcelain: "<sha> <orig-line> <final-line> [<group-size>]", then header
+  // fields the first time a commit appears, then "\t<line content>".
+  const commits: Record<string, GitBlameCommit> = {}
+  const ranges: GitBlame['ranges'] = []
+  let current: { sha: string; line: number } | null = null
+  let pending: Partial<{ author: string; time: number; summary: string }> = {}
+  for (const line of output.split('\n')) {
+    if (line.startsWith('\t')) {
+      if (!current) continue
+      const { sha, line: lineNumber } = current
+      if (!commits[sha]) {
+        commits[sha] = {
+          author: pending.author ?? '',
+          date: pending.time ? new Date(pending.time * 1000).toISOString() : '',
+          summary: pending.summary ?? '',
+        }
+      }
+      const last = ranges[ranges.length - 1]
+      if (last && last.sha === sha && last.startLine + last.lineCount === lineNumber) last.lineCount++
+      else ranges.push({ sha, startLine: lineNumber, lineCount: 1 })
+      current = null
+      pending = {}
+      continue
+    }
+    const header = line.match(/^([0-9a-f]{40}) \d+ (\d+)/)
+    if (header) {
+      current = { sha: header[1], line: Number(header[2]) }
+    } else if (line.startsWith('author ')) {
+      pending.author = line.slice(7)
+    } else if (line.startsWith('author-time ')) {
+      pending.time = Number(line.slice(12))
+    } else if (line.startsWith('summary ')) {
+      pending.summary = line.slice(8)
+    }
+  }
+  return { commits, ranges }
+}
+
+export function identityArgs(identity: GitIdentity): string[] {
+  return ['-c', `user.name=${identity.name}`, '-c', `user.email=${identity.email}`]
+}
+
+/**
+ * Commit the inverse of `rev` on the current branch (merges against their
+ * first parent). Returns the new commit and the files it changed; a revert
+ * that doesn't apply cleanly is aborted and leaves the workspace as it was.
+ */
+export async function revertCommit(
+  directory: string,
+  rev: string,
+  identity: GitIdentity,
+): Promise<{ sha: string; files: string[] } | { error: string } | null> {
+  const sha = await resolveCommit(directory, rev)
+  if (!sha) return null
+  const before = (await git(directory, ['rev-parse', 'HEAD'])).trim()
+  const parents = (await git(directory, ['show', '-s', '--format=%P', sha])).trim().split(' ').filter(Boolean)
+
+  try {
+    await git(directory, [...identityArgs(identity), 'revert', '--no-edit', ...(parents.length > 1 ? ['-m', '1'] : []), sha])
+  } catch (err) {
+    await git(directory, ['revert', '--abort']).catch(() => {})
+    const output = outputOf(err)
+    if (/would be overwritten/.test(output)) {
+      return { error: 'You have uncommitted changes to files this commit touched. Commit or discard them first.' }
+    }
+    if (/nothing to commit/.test(output)) {
+      return { error: "This commit's changes have already been undone." }
+    }
+    if (/conflict/i.test(output)) {
+      return { error: 'Later changes conflict with this commit, so it cannot be reverted automatically.' }
+    }
+    throw err
+  }
+
+  const after = (await git(directory, ['rev-parse', 'HEAD'])).trim()
+  const files = (await git(directory, ['diff', '--name-only', '-z', before, after])).split('\0').filter(Boolean)
+  return { sha: after, files }
+}
+
+/**
+ * Put one file back to how it was in `rev`, as an uncommitted change in the
+ * working tree. Null if the commit or the file in it doesn't exist.
+ */
+export async function restoreFile(directory: string, rev: string, filePath: string): Promise<{ path: string } | null> {
+  const sha = await resolveCommit(directory, rev)
+  const cleaned = cleanPath(filePath)
+  if (!sha || !cleaned) return null
+  try {
+    await git(directory, ['cat-file', '-e', `${sha}:${cleaned}`])
+  } catch {
+    return null
+  }
+  await git(directory, ['restore', `--source=${sha}`, '--worktree', '--', literal(cleaned)])
+  return { path: cleaned }
+}
@@ -0,0 +1,328 @@
+/**
+ * Git sync service — bring the connected remote branch into the workspace
+ * without losing local work, and walk through any conflicts that leaves.
+ *
+ * A pull fetches `repoBranch` into `refs/remotes/origin/<branch>` and then
+ * merges or rebases onto it with `--autostash`, so uncommitted edits are set
+ * aside and re-applied afterwards. When git stops on conflicts the workspace
+ * is left mid-merge/rebase: the conflicted files can be inspected (base, ours,
+ * theirs and the marked-up result), resolved one by one, and the operation
+ * continued or aborted. Pull requests use the other direction: commit the
+ * workspace and push HEAD to a new branch. Commands run through the history
+ * service's runner.
+ */
+import { access, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { git, outputOf, cleanPath, hasHead, identityArgs, type GitIdentity } from './git-history-service.js'
+
+export type SyncOperation = 'merge' | 'rebase'
+export type PullStrategy = SyncOperation
+
+export interface ConflictFile {
+  path: string
+  kind: 'both-modified' | 'both-added' | 'both-deleted' | 'added-by-us' | 'added-by-them' | 'deleted-by-us' | 'deleted-by-them'
+}
+
+export interface SyncState {
+  /** Merge or rebase stopped on conflicts, or null */
+  operation: SyncOperation | null
+  conflicts: ConflictFile[]
+  /** Commits on HEAD / on the remote branch the other side lacks, as of the last fetch */
+  ahead: number
+  behind: number
+}
+
+export type SyncResult =
+  | { status: 'up-to-date' }
+  | { status: 'pulled'; files: string[] }
+  | { status: 'conflicts'; operation: SyncOperation; conflicts: ConflictFile[] }
+
+export interface ConflictVersions {
+  /** Null where that side has no version (added on one side, deleted on the other…) */
+  base: string | null
+  ours: string | null
+  theirs: string | null
+  /** The working-tree file, conflict markers included */
+  merged: string | null
+}
+
+export interface RemoteTarget {
+  /** Fetch URL, credentials included when the repo needs them */
+  url: string
+  branch: string
+}
+
+const CONFLICT_KINDS: Record<string, ConflictFile['kind']> = {
+  UU: 'both-modified',
+  AA: 'both-added',
+  DD: 'both-deleted',
+  AU: 'added-by-us',
+  UA: 'added-by-them',
+  DU: 'deleted-by-us',
+  UD: 'deleted-by-them',
+}
+
+// Never wait on a credential prompt; a rejected token fails the fetch instead
+const NO_PROMPT = ['-c', 'core.askPass=false', '-c', 'credential.interactive=never']
+// Continue without opening an editor for the commit message
+const NO_EDITOR = ['-c', 'core.editor=true']
+
+const trackingRef = (branch: string) => `refs/remotes/origin/${branch}`
+
+async function exists(file: string): Promise<boolean> {
+  return access(file).then(() => true, () => false)
+}
+
+async function gitPath(directory: string, name: string): Promise<string> {
+  return path.resolve(directory, (await git(directory, ['rev-parse', '--git-path', name])).trim())
+}
+
+async function currentOperation(directory: string): Promise<SyncOperation | null> {
+  if (await exists(await gitPath(directory, 'rebase-merge')) || await exists(await gitPath(directory, 'rebase-apply'))) return 'rebase'
+  if (await exists(await gitPath(directory, 'MERGE_HEAD'))) return 'merge'
+  return null
+}
+
+async function listConflicts(directory: string): Promise<ConflictFile[]> {
+  // --porcelain -z: "XY path\0"; unmerged entries are the XY codes above
+  const entries = (await git(directory, ['status', '--porcelain=v1', '-z', '--untracked-files=no'])).split('\0')
+  const conflicts: ConflictFile[] = []
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]
+    if (!entry) continue
+    const code = entry.slice(0, 2)
+    if (code[0] === 'R' || code[0] === 'C') i++ // skip the rename source
+    const kind = CONFLICT_KINDS[code]
+    if (kind) conflicts.push({ path: entry.slice(3), kind })
+  }
+  return conflicts
+}
+
+async function aheadBehind(directory: string, branch: string): Promise<{ ahead: number; behind: number }> {
+  try {
+    const out = await git(directory, ['rev-list', '--left-right', '--count', `HEAD...${trackingRef(branch)}`])
+    const [ahead, behind] = out.trim().split(/\s+/).map(Number)
+    return { ahead: ahead || 0, behind: behind || 0 }
+  } catch {
+    // Nothing fetched yet
+    return { ahead: 0, behind: 0 }
+  }
+}
+
+export async function getSyncState(directory: string, branch: string): Promise<SyncState> {
+  if (!(await hasHead(directory))) return { operation: null, conflicts: [], ahead: 0, behind: 0 }
+  const operation = await currentOperation(directory)
+  return {
+    operation,
+    conflicts: operation ? await listConflicts(directory) : [],
+    ...(await aheadBehind(directory, branch)),
+  }
+}
+
+export async function isValidBranchName(directory: string, branch: string): Promise<boolean> {
+  try {
+    await git(directory, ['check-ref-format', '--branch', branch])
+    return !branch.startsWith('-')
+  } catch {
+    return false
+  }
+}
+
+const CREDENTIALS_REJECTED = /authentication failed|could not read username|repository not found|403/i
+
+/** Update `refs/remotes/origin/<branch>` from the remote. */
+export async function fetchRemote(directory: string, remote: RemoteTarget): Promise<{ error: string } | null> {
+  try {
+    await git(directory, [...NO_PROMPT, 'fetch', '--no-tags', remote.url, `+refs/heads/${remote.branch}:${trackingRef(remote.branch)}`])
+    return null
+  } catch (err) {
+    const output = outputOf(err)
+    if (/couldn't find remote ref/i.test(output)) return { error: `Branch ${remote.branch} does not exist on the remote.` }
+    if (CREDENTIALS_REJECTED.test(output)) {
+      return { error: 'The remote rejected the credentials. Reconnect your GitHub account and try again.' }
+    }
+    throw err
+  }
+}
+
+/** Stage everything in the working tree. False when there is nothing to commit. */
+export async function stageAll(directory: string): Promise<boolean> {
+  await git(directory, ['add', '-A'])
+  return git(directory, ['diff', '--cached', '--quiet']).then(() => false, () => true)
+}
+
+/** Commit what stageAll staged (scan it for secrets in between). */
+export async function commitStaged(directory: string, message: string, identity: GitIdentity): Promise<void> {
+  await git(directory, [...identityArgs(identity), 'commit', '--quiet', '--no-verify', '-m', message])
+}
+
+/**
+ * Push HEAD to `remote.branch` without force. The workspace stays on its own
+ * branch; the pushed branch only exists on the remote.
+ */
+export async function pushHeadTo(directory: string, remote: RemoteTarget): Promise<{ error: string } | null> {
+  if (!(await hasHead(directory))) return { error: 'Nothing has been committed in this workspace yet.' }
+  try {
+    await git(directory, [...NO_PROMPT, 'push', '--no-verify', remote.url, `HEAD:refs/heads/${remote.branch}`])
+    return null
+  } catch (err) {
+    const output = outputOf(err)
+    if (/\[rejected\]|non-fast-forward|fetch first/i.test(output)) {
+      return { error: `Branch ${remote.branch} already exists on the remote with other commits. Pick another name.` }
+    }
+    if (CREDENTIALS_REJECTED.test(output)) {
+      return { error: 'The remote rejected the credentials. Reconnect your GitHub account and try again.' }
+    }
+    throw err
+  }
+}
+
+async function changedSince(directory: string, before: string): Promise<string[]> {
+  return (await git(directory, ['diff', '--name-only', '-z', before, 'HEAD'])).split('\0').filter(Boolean)
+}
+
+/** What happened after a merge/rebase command: done, or stopped on conflicts. */
+async function settle(directory: string, before: string, err: unknown): Promise<SyncResult | { error: string }> {
+  const operation = await currentOperation(directory)
+  const conflicts = operation ? await listConflicts(directory) : []
+  if (operation && conflicts.length > 0) return { status: 'conflicts', operation, conflicts }
+  if (operation) await git(directory, [operation, '--abort']).catch(() => {})
+
+  const output = outputOf(err)
+  if (/untracked working tree files would be overwritten/.test(output)) {
+    return { error: 'Files that are not committed yet would be overwritten by the pull. Commit or remove them first.' }
+  }
+  if (/would be overwritten|Your local changes/.test(output)) {
+    return { error: 'Local changes could not be set aside for the pull. Commit them first.' }
+  }
+  if (/autostash|stash/i.test(output)) {
+    return { error: 'The pull finished, but your uncommitted changes conflict with it. They were saved with git stash.' }
+  }
+  if (await git(directory, ['rev-parse', 'HEAD']).then((head) => head.trim() !== before, () => false)) {
+    return { status: 'pulled', files: await changedSince(directory, before) }
+  }
+  throw err
+}
+
+/**
+ * Fetch the remote branch and merge or rebase the workspace onto it. Local
+ * uncommitted changes are stashed around the operation.
+ */
+export async function pullFromRemote(
+  directory: string,
+  remote: RemoteTarget,
+  strategy: PullStrategy,
+  identity: GitIdentity,
+): Promise<SyncResult | { error: string }> {
+  if (!(await hasHead(directory))) return { error: 'Nothing has been committed in this workspace yet. Use Reset from Git to start from the remote.' }
+  if (await currentOperation(directory)) return { error: 'A merge or rebase is already in progress. Continue or abort it first.' }
+
+  const fetchError = await fetchRemote(directory, remote)
+  if (fetchError) return fetchError
+
+  const target = trackingRef(remote.branch)
+  const upToDate = await git(directory, ['merge-base', '--is-ancestor', target, 'HEAD']).then(() => true, () => false)
+  if (upToDate) return { status: 'up-to-date' }
+
+  const before = (await git(directory, ['rev-parse', 'HEAD'])).trim()
+  const args = strategy === 'rebase'
+    ? ['rebase', '--autostash', target]
+    : ['merge', '--autostash', '--no-edit', target]
+  try {
+    await git(directory, [...identityArgs(identity), ...NO_EDITOR, ...args])
+  } catch (err) {
+    return settle(directory, before, err)
+  }
+  return { status: 'pulled', files: await changedSince(directory, before) }
+}
+
+async function readStage(directory: string, stage: 1 | 2 | 3, filePath: string): Promise<string | null> {
+  try {
+    return await git(directory, ['show', `:${stage}:${filePath}`])
+  } catch {
+    return null
+  }
+}
+
+/** The three sides of a conflicted file plus the marked-up result. Null if it isn't conflicted. */
+export async function getConflictVersions(directory: string, filePath: string): Promise<ConflictVersions | null> {
+  const cleaned = cleanPath(filePath)
+  if (!cleaned) return null
+  const conflicts = await listConflicts(directory)
+  if (!conflicts.some((c) => c.path === cleaned)) return null
+
+  const [base, ours, theirs, merged] = await Promise.all([
+    readStage(directory, 1, cleaned),
+    readStage(directory, 2, cleaned),
+    readStage(directory, 3, cleaned),
+    readFile(path.join(directory, cleaned), 'utf-8').catch(() => null),
+  ])
+  return { base, ours, theirs, merged }
+}
+
+export type ConflictResolution = { content: string } | { take: 'ours' | 'theirs' } | { delete: true }
+
+/** Resolve one conflicted file and mark it resolved. Null if it isn't conflicted. */
+export async function resolveConflict(
+  directory: string,
+  filePath: string,
+  resolution: ConflictResolution,
+): Promise<{ path: string } | { error: string } | null> {
+  const cleaned = cleanPath(filePath)
+  if (!cleaned) return null
+  const conflict = (await listConflicts(directory)).find((c) => c.path === cleaned)
+  if (!conflict) return null
+
+  if ('delete' in resolution) {
+    await git(directory, ['rm', '--quiet', '--force', '--ignore-unmatch', '--', `:(literal)${cleaned}`])
+    return { path: cleaned }
+  }
+  if ('take' in resolution) {
+    try {
+      await git(directory, ['checkout', `--${resolution.take}`, '--', `:(literal)${cleaned}`])
+    } catch {
+      return { error: `That side has no version of ${cleaned}. Delete the file instead.` }
+    }
+  } else {
+    await writeFile(path.join(directory, cleaned), resolution.content, 'utf-8')
+  }
+  await git(directory, ['add', '--', `:(literal)${cleaned}`])
+  return { path: cleaned }
+}
+
+/**
+ * Commit the resolved merge, or move the rebase on to its next commit (which
+ * may stop on new conflicts).
+ */
+export async function continueSync(directory: string, identity: GitIdentity): Promise<SyncResult | { error: string }> {
+  const operation = await currentOperation(directory)
+  if (!operation) return { error: 'No merge or rebase is in progress.' }
+  const remaining = await listConflicts(directory)
+  if (remaining.length > 0) return { error: `Resolve ${remaining.length} conflicted file${remaining.length === 1 ? '' : 's'} first.` }
+
+  // For a rebase the pre-pull HEAD is ORIG_HEAD; a merge's is still HEAD
+  const before = (await git(directory, ['rev-parse', operation === 'rebase' ? 'ORIG_HEAD' : 'HEAD'])).trim()
+  try {
+    await git(directory, [...identityArgs(identity), ...NO_EDITOR, operation, '--continue'])
+  } catch (err) {
+    return settle(directory, before, err)
+  }
+  return { status: 'pulled', files: await changedSince(directory, before) }
+}
+
+/**
+ * Give up on the merge/rebase: the workspace goes back to how it was before
+ * the pull. Returns the files that may have changed on disk.
+ */
+export async function abortSync(directory: string): Promise<{ files: string[] } | { error: string }> {
+  const operation = await currentOperation(directory)
+  if (!operation) return { error: 'No merge or rebase is in progress.' }
+  const list = async (args: string[]) => (await git(directory, ['diff', '--name-only', '-z', ...args])).split('\0').filter(Boolean)
+
+  const head = (await git(directory, ['rev-parse', 'HEAD'])).trim()
+  const touched = await list(['HEAD'])
+  await git(directory, [operation, '--abort'])
+  // A rebase moves HEAD back, and the autostash comes back as local changes
+  const files = new Set([...touched, ...await list([head, 'HEAD']), ...await list(['HEAD'])])
+  return { files: [...files] }
+}
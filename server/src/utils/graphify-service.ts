@@ -23,6 +23,7 @@ import { db } from '../db/index.js'
 import { projects } from '../db/schema/projects.js'
 import { users } from '../db/schema/users.js'
 import { getProjectConfigDirectory } from './provider-config.js'
+import { effectiveTier } from './token-service.js'
 
 const execFileAsync = promisify(execFile)
 
@@ -221,13 +222,13 @@ export async function onSessionEnd(directory: string): Promise<void> {
     const parsed = parseWorkspaceDir(directory)
     if (!parsed) return
     const rows = await db
-      .select({ id: projects.id, enabled: projects.graphifyEnabled, tier: users.tier })
+      .select({ id: projects.id, enabled: projects.graphifyEnabled, tier: users.tier, emailVerifiedAt: users.emailVerifiedAt })
       .from(projects)
       .innerJoin(users, eq(projects.userId, users.id))
       .where(eq(projects.linkId, parsed.linkId))
       .limit(1)
     const row = rows[0]
-    if (!row || !row.enabled || row.tier !== 'paid') return
+    if (!row || !row.enabled || effectiveTier(row.tier, row.emailVerifiedAt) !== 'paid') return
     await buildProjectGraph(row.id, directory)
   } catch (err) {
     console.error(`[Graphify] onSessionEnd failed for ${directory}:`, err instanceof Error ? err.message : err)
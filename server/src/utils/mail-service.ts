@@ -0,0 +1,76 @@
+/**
+ * Mail service — sends the templates in mail-templates.ts through a
+ * pluggable transport.
+ *
+ * `MAIL_TRANSPORT=smtp` relays through SMTP_HOST (a provider, or a local
+ * catcher such as MailHog); `log` writes each message to the server log, which
+ * is the default when no SMTP host is configured so links can still be
+ * followed in development. Other transports implement MailTransport and are
+ * installed with setMailTransport.
+ */
+import { env } from '../env.js'
+import { sendSmtp } from './smtp-client.js'
+import type { MailContent } from './mail-templates.js'
+
+export interface OutgoingMail extends MailContent {
+  from: string
+  to: string
+}
+
+export interface MailTransport {
+  readonly name: string
+  send(mail: OutgoingMail): Promise<void>
+}
+
+class SmtpTransport implements MailTransport {
+  readonly name = 'smtp'
+
+  constructor(private host: string) {}
+
+  send(mail: OutgoingMail): Promise<void> {
+    return sendSmtp({
+      host: this.host,
+      port: env.SMTP_PORT,
+      security: env.SMTP_TLS,
+      user: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+    }, mail)
+  }
+}
+
+class LogTransport implements MailTransport {
+  readonly name = 'log'
+
+  async send(mail: OutgoingMail): Promise<void> {
+    console.log(`[Mail] To: ${mail.to}\n[Mail] Subject: ${mail.subject}\n${mail.text}`)
+  }
+}
+
+function createTransport(): MailTransport {
+  const kind = env.MAIL_TRANSPORT ?? (env.SMTP_HOST ? 'smtp' : 'log')
+  if (kind === 'smtp') {
+    if (!env.SMTP_HOST) throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST')
+    return new SmtpTransport(env.SMTP_HOST)
+  }
+  return new LogTransport()
+}
+
+let transport = createTransport()
+
+export function setMailTransport(next: MailTransport) {
+  transport = next
+}
+
+export async function sendMail(to: string, content: MailContent): Promise<void> {
+  await transport.send({ ...content, from: env.MAIL_FROM, to })
+}
+
+/**
+ * Fire-and-forget send for mail that shouldn't hold up (or fail) the request
+ * that triggered it; failures are logged.
+ */
+export function queueMail(to: string, content: MailContent): void {
+  sendMail(to, content).catch((err) => {
+    console.error(`[Mail] Failed to send "${content.subject}" via ${transport.name}:`, err instanceof Error ? err.message : err)
+  })
+}
@@ -0,0 +1,110 @@
+/**
+ * Transactional email templates. Each returns a subject plus matching plain
+ * text and HTML bodies built from one layout, so every message looks the
+ * same and degrades to readable text.
+ */
+import { env } from '../env.js'
+
+export interface MailContent {
+  subject: string
+  text: string
+  html: string
+}
+
+interface Layout {
+  subject: string
+  greeting: string
+  paragraphs: string[]
+  action?: { label: string; url: string }
+  footer?: string
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+function render({ subject, greeting, paragraphs, action, footer }: Layout): MailContent {
+  const text = [
+    greeting,
+    '',
+    ...paragraphs.flatMap((p) => [p, '']),
+    ...(action ? [`${action.label}: ${action.url}`, ''] : []),
+    ...(footer ? [footer, ''] : []),
+    '— AuroraCraft',
+  ].join('\n')
+
+  const html = `<!doctype html>
+<html><body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,Segoe UI,Roboto,sans-serif;color:#18181b">
+<div style="max-width:520px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+<h1 style="margin:0 0 16px;font-size:18px">${escapeHtml(subject)}</h1>
+<p style="margin:0 0 12px;font-size:14px;line-height:1.5">${escapeHtml(greeting)}</p>
+${paragraphs.map((p) => `<p style="margin:0 0 12px;font-size:14px;line-height:1.5">${escapeHtml(p)}</p>`).join('\n')}
+${action ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="display:inline-block;background:#7c3aed;color:#ffffff;text-decoration:none;padding:10px 18px;border-radius:6px;font-size:14px">${escapeHtml(action.label)}</a></p>
+<p style="margin:0 0 12px;font-size:12px;color:#71717a;word-break:break-all">${escapeHtml(action.url)}</p>` : ''}
+${footer ? `<p style="margin:16px 0 0;font-size:12px;color:#71717a">${escapeHtml(footer)}</p>` : ''}
+</div>
+</body></html>`
+
+  return { subject, text, html }
+}
+
+const clientUrl = (path: string) => `${env.CLIENT_URL.replace(/\/+$/, '')}${path}`
+const formatTime = (date: Date) => date.toUTCString()
+
+export function verifyEmailMail(username: string, token: string, expiresInHours: number): MailContent {
+  return render({
+    subject: 'Verify your email address',
+    greeting: `Hi ${username},`,
+    paragraphs: [
+      'Confirm this is your email address to finish setting up your AuroraCraft account. Paid features unlock once it is verified.',
+    ],
+    action: { label: 'Verify email', url: clientUrl(`/verify-email?token=${encodeURIComponent(token)}`) },
+    footer: `The link expires in ${expiresInHours} hours. If you didn't create an account, you can ignore this email.`,
+  })
+}
+
+export function passwordResetMail(username: string, token: string, expiresInMinutes: number): MailContent {
+  return render({
+    subject: 'Reset your password',
+    greeting: `Hi ${username},`,
+    paragraphs: ['Someone asked to reset the password for your AuroraCraft account. Use the link below to choose a new one.'],
+    action: { label: 'Reset password', url: clientUrl(`/reset-password?token=${encodeURIComponent(token)}`) },
+    footer: `The link works once and expires in ${expiresInMinutes} minutes. If you didn't ask for this, ignore this email — your password stays the same.`,
+  })
+}
+
+export function passwordChangedMail(username: string, at: Date, ip?: string): MailContent {
+  return render({
+    subject: 'Your password was changed',
+    greeting: `Hi ${username},`,
+    paragraphs: [
+      `The password for your AuroraCraft account was changed on ${formatTime(at)}${ip ? ` from ${ip}` : ''}. All other sessions were signed out.`,
+      "If this wasn't you, reset your password right away and contact an administrator.",
+    ],
+    action: { label: 'Reset password', url: clientUrl('/forgot-password') },
+  })
+}
+
+export function githubConnectedMail(username: string, githubUsername: string, at: Date): MailContent {
+  return render({
+    subject: 'GitHub account connected',
+    greeting: `Hi ${username},`,
+    paragraphs: [
+      `The GitHub account ${githubUsername} was connected to your AuroraCraft account on ${formatTime(at)}. AuroraCraft can now push to and open pull requests on repositories that account can access.`,
+      "If this wasn't you, disconnect it from a project's Git settings and change your password.",
+    ],
+  })
+}
+
+export function twoFactorChangedMail(username: string, enabled: boolean, at: Date, ip?: string): MailContent {
+  return render({
+    subject: enabled ? 'Two-factor authentication turned on' : 'Two-factor authentication turned off',
+    greeting: `Hi ${username},`,
+    paragraphs: [
+      enabled
+        ? `Two-factor authentication was turned on for your AuroraCraft account on ${formatTime(at)}${ip ? ` from ${ip}` : ''}. Signing in now also needs a code from your authenticator app or one of your recovery codes.`
+        : `Two-factor authentication was turned off for your AuroraCraft account on ${formatTime(at)}${ip ? ` from ${ip}` : ''}. Signing in now only needs your password.`,
+      "If this wasn't you, change your password and sign out your other sessions from the Security page.",
+    ],
+    action: { label: 'Open Security settings', url: clientUrl('/settings/security') },
+  })
+}
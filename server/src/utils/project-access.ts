@@ -0,0 +1,75 @@
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import { and, eq } from 'drizzle-orm'
+import { db } from '../db/index.js'
+import { projects, type Project } from '../db/schema/projects.js'
+import { users } from '../db/schema/users.js'
+import { projectMembers } from '../db/schema/project-members.js'
+
+/**
+ * Project roles, from most to least privileged:
+ * - owner:  projects.user_id — settings, members, GitHub link, deletion
+ * - editor: changes the workspace, runs the agent, builds, reviews
+ * - viewer: reads files, sessions, builds and reviews
+ */
+export type ProjectRole = 'owner' | 'editor' | 'viewer'
+export type MemberRole = Exclude<ProjectRole, 'owner'>
+
+const ROLE_RANK: Record<ProjectRole, number> = { viewer: 1, editor: 2, owner: 3 }
+
+export interface ProjectAccess {
+  project: Project
+  role: ProjectRole
+  /** The owner's app username — the workspace lives under `auroracraft-<owner>`. */
+  ownerUsername: string
+}
+
+export function hasProjectRole(role: ProjectRole, minRole: ProjectRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minRole]
+}
+
+/** Workspace directory of a project, which always belongs to the owner's system user. */
+export function getWorkspaceDirectory(ownerUsername: string, linkId: string): string {
+  return `/home/auroracraft-${ownerUsername.toLowerCase()}/${linkId}`
+}
+
+/** The user's role on a project (owner or member), or null if they have none. */
+export async function getProjectAccess(userId: string, projectId: string): Promise<ProjectAccess | null> {
+  const [row] = await db
+    .select({ project: projects, ownerUsername: users.username, memberRole: projectMembers.role })
+    .from(projects)
+    .innerJoin(users, eq(projects.userId, users.id))
+    .leftJoin(projectMembers, and(eq(projectMembers.projectId, projects.id), eq(projectMembers.userId, userId)))
+    .where(eq(projects.id, projectId))
+    .limit(1)
+  if (!row) return null
+
+  if (row.project.userId === userId) return { project: row.project, role: 'owner', ownerUsername: row.ownerUsername }
+  if (row.memberRole === 'editor' || row.memberRole === 'viewer') {
+    return { project: row.project, role: row.memberRole, ownerUsername: row.ownerUsername }
+  }
+  return null
+}
+
+/**
+ * Load a project the request's user holds at least `minRole` on. Replies 404
+ * when they have no access at all (so private projects stay invisible) and
+ * 403 when their role is too low, returning null in both cases.
+ */
+export async function requireProjectRole(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  projectId: string,
+  minRole: ProjectRole,
+): Promise<ProjectAccess | null> {
+  const access = await getProjectAccess(request.user!.id, projectId)
+  if (!access) {
+    reply.status(404).send({ message: 'Project not found', statusCode: 404 })
+    return null
+  }
+  if (!hasProjectRole(access.role, minRole)) {
+    const message = minRole === 'owner' ? 'Only the project owner can do this' : 'You have view-only access to this project'
+    reply.status(403).send({ message, statusCode: 403 })
+    return null
+  }
+  return access
+}
@@ -0,0 +1,341 @@
+/**
+ * Recovery service — reconcile work a crash or restart left in flight.
+ *
+ * Agent turns, Assistant jobs and code reviews all run inside this process,
+ * so when it dies their rows stay `running` / `queued` / `pending` forever:
+ * sends get 409s and the review UI stays locked. On boot every such record
+ * is settled exactly once:
+ *
+ * - Agent sessions: an OpenCode turn whose reply finished on the OpenCode side
+ *   is adopted (reply saved, session completed). Anything else is failed with
+ *   a reason and its unsettled pre-charge refunded.
+ * - Assistant jobs: failed and refunded.
+ * - Code reviews: marked stale, the same way the review route does for
+ *   reviews it finds orphaned.
+ * - Terminals: session rows dropped (so they stop counting towards the user's
+ *   cap) and their still-running commands marked interrupted in the audit trail.
+ * - Builds: marked failed, and their live stream told so.
+ *
+ * Each action is written to `agent_logs` when it concerns an agent session;
+ * the rest goes to the server log.
+ *
+ * With several replicas (utils/cluster.ts) a node only settles its own work
+ * and work owned by replicas that have stopped heartbeating; the boot pass is
+ * repeated periodically to pick up after nodes that die later.
+ */
+import { and, desc, eq, inArray, isNotNull, isNull, lt, notInArray, or, type SQL } from 'drizzle-orm'
+import type { AnyPgColumn } from 'drizzle-orm/pg-core'
+import { db } from '../db/index.js'
+import { users } from '../db/schema/users.js'
+import { projects } from '../db/schema/projects.js'
+import { agentSessions } from '../db/schema/agent-sessions.js'
+import { agentMessages } from '../db/schema/agent-messages.js'
+import { agentLogs } from '../db/schema/agent-logs.js'
+import { assistantJobs } from '../db/schema/assistant-jobs.js'
+import { codeReviews } from '../db/schema/code-reviews.js'
+import { terminalSessions, terminalCommands } from '../db/schema/terminal-sessions.js'
+import { builds } from '../db/schema/builds.js'
+import { opencodeBridge } from '../bridges/index.js'
+import { sessionEventBus } from '../bridges/session-event-bus.js'
+import { cleanBadgeMarkers } from '../agents/executor.js'
+import { getStagingDirectory } from './staging-service.js'
+import { buildEventKey } from './build-service.js'
+import { refundUnsettledCharges } from './token-service.js'
+import { NODE_ID, getLiveNodes } from './cluster.js'
+
+const INTERRUPTED_REASON = 'Interrupted by a server restart.'
+const SWEEP_INTERVAL_MS = 60_000
+
+export interface RecoveryResult {
+  sessionsResumed: number
+  sessionsFailed: number
+  jobsFailed: number
+  reviewsStaled: number
+  terminalsClosed: number
+  buildsFailed: number
+}
+
+/**
+ * Rows a pass may take over: ones this node (or a pre-cluster server, which
+ * recorded no owner) last touched before it booted, and ones owned by a
+ * replica that is no longer alive.
+ */
+function orphaned(owner: AnyPgColumn, touched: AnyPgColumn, bootedAt: Date, liveNodes: string[]): SQL | undefined {
+  return or(
+    and(or(isNull(owner), eq(owner, NODE_ID)), lt(touched, bootedAt)),
+    and(isNotNull(owner), notInArray(owner, liveNodes)),
+  )
+}
+
+/** Same owner as when the row was read — so two replicas never settle the same row. */
+function sameOwner(owner: AnyPgColumn, value: string | null): SQL {
+  return value ? eq(owner, value) : isNull(owner)
+}
+
+async function addLog(sessionId: string, logType: string, message: string): Promise<void> {
+  await db.insert(agentLogs).values({ sessionId, logType, message })
+}
+
+type StuckSession = {
+  session: typeof agentSessions.$inferSelect
+  project: typeof projects.$inferSelect
+  username: string
+}
+
+/** Adopt the reply of an interrupted OpenCode turn, if OpenCode finished it. */
+async function tryReattach({ session, project, username }: StuckSession, messageId: string, since: Date): Promise<boolean> {
+  if (session.bridge !== 'opencode' || !session.opencodeSessionId || !project.linkId) return false
+
+  const projectDir = `/home/auroracraft-${username.toLowerCase()}/${project.linkId}`
+  const directory = session.mode === 'staged' ? getStagingDirectory(projectDir, session.id) : projectDir
+  const result = await opencodeBridge.recoverTurn(
+    {
+      sessionId: session.id,
+      projectId: project.id,
+      prompt: '',
+      context: {
+        projectDirectory: directory,
+        projectLinkId: project.linkId,
+        javaVersion: project.javaVersion,
+        compiler: project.compiler,
+      },
+    },
+    session.opencodeSessionId,
+    since.getTime(),
+  )
+  if (!result) return false
+
+  await db.insert(agentMessages).values({
+    sessionId: session.id,
+    role: 'agent',
+    content: cleanBadgeMarkers(result.output),
+  })
+  await db
+    .update(agentSessions)
+    .set({ status: 'completed', updatedAt: new Date() })
+    .where(eq(agentSessions.id, session.id))
+
+  const usage = result.metadata?.usage
+  await addLog(
+    session.id,
+    'status',
+    `Recovered after restart: adopted the finished OpenCode reply for message ${messageId}` +
+      (usage ? ` (${usage.inputTokens} in / ${usage.outputTokens} out tokens); pre-charge kept as the final charge` : ''),
+  )
+  sessionEventBus.emitComplete(session.id)
+  return true
+}
+
+async function recoverSession(stuck: StuckSession): Promise<'resumed' | 'failed'> {
+  const { session } = stuck
+
+  // The in-flight turn is the newest sent (not queued) user message
+  const [turn] = await db
+    .select({ id: agentMessages.id, createdAt: agentMessages.createdAt })
+    .from(agentMessages)
+    .where(and(eq(agentMessages.sessionId, session.id), eq(agentMessages.role, 'user'), isNull(agentMessages.queueStatus)))
+    .orderBy(desc(agentMessages.createdAt))
+    .limit(1)
+
+  if (turn) {
+    try {
+      if (await tryReattach(stuck, turn.id, turn.createdAt)) return 'resumed'
+    } catch (err) {
+      console.warn('[Recovery] Re-attach failed for session:', session.id, err)
+    }
+  }
+
+  await db
+    .update(agentSessions)
+    .set({ status: 'failed', updatedAt: new Date() })
+    .where(and(eq(agentSessions.id, session.id), eq(agentSessions.status, 'running')))
+  await db.insert(agentMessages).values({
+    sessionId: session.id,
+    role: 'agent',
+    content: `⚠️ ${INTERRUPTED_REASON} The agent's work on this message was lost — send it again to retry.`,
+  })
+  await addLog(session.id, 'error', `Recovered after restart: marked failed (${INTERRUPTED_REASON})`)
+
+  if (turn) {
+    // The sender paid — the owner or a collaborator
+    const refunded = await refundUnsettledCharges(null, `agent:${turn.id}`, 'Refund for agent turn interrupted by a server restart', session.id)
+    if (refunded > 0) {
+      await addLog(session.id, 'status', `Recovered after restart: refunded ${refunded} pre-charged tokens`)
+    }
+  }
+
+  sessionEventBus.emitError(session.id, INTERRUPTED_REASON)
+  return 'failed'
+}
+
+async function recoverAssistantJobs(bootedAt: Date, liveNodes: string[]): Promise<number> {
+  const jobs = await db
+    .select()
+    .from(assistantJobs)
+    .where(and(
+      inArray(assistantJobs.status, ['queued', 'running']),
+      orphaned(assistantJobs.ownerNode, assistantJobs.updatedAt, bootedAt, liveNodes),
+    ))
+
+  let failed = 0
+  for (const job of jobs) {
+    const [claimed] = await db
+      .update(assistantJobs)
+      .set({ status: 'failed', error: INTERRUPTED_REASON, ownerNode: NODE_ID, updatedAt: new Date(), completedAt: new Date() })
+      .where(and(
+        eq(assistantJobs.id, job.id),
+        inArray(assistantJobs.status, ['queued', 'running']),
+        sameOwner(assistantJobs.ownerNode, job.ownerNode),
+      ))
+      .returning({ id: assistantJobs.id })
+    if (!claimed) continue
+    failed++
+
+    const refunded = await refundUnsettledCharges(
+      job.userId,
+      `assistant:${job.id}:`,
+      `Refund for Assistant ${job.kind} interrupted by a server restart`,
+      job.sessionId ?? undefined,
+    )
+    if (job.sessionId) {
+      await addLog(
+        job.sessionId,
+        'warning',
+        `Recovered after restart: Assistant ${job.kind} job ${job.id} marked failed` + (refunded > 0 ? `, refunded ${refunded} tokens` : ''),
+      )
+    } else {
+      console.log(`[Recovery] Assistant ${job.kind} job ${job.id} marked failed` + (refunded > 0 ? `, refunded ${refunded} tokens` : ''))
+    }
+    sessionEventBus.emitError(`assistant:${job.id}`, INTERRUPTED_REASON)
+  }
+  return failed
+}
+
+async function recoverCodeReviews(bootedAt: Date, liveNodes: string[]): Promise<number> {
+  // Reviews have no agent session, so there is no agent_logs row to write.
+  const staled = await db
+    .update(codeReviews)
+    .set({
+      status: 'stale',
+      issuesJson: [{ type: 'error', message: 'Review was interrupted (server restart or timeout)' }],
+      resolvedAt: new Date(),
+    })
+    .where(and(eq(codeReviews.status, 'pending'), orphaned(codeReviews.ownerNode, codeReviews.createdAt, bootedAt, liveNodes)))
+    .returning({ id: codeReviews.id })
+  return staled.length
+}
+
+async function recoverTerminals(bootedAt: Date, liveNodes: string[]): Promise<number> {
+  const closed = await db
+    .delete(terminalSessions)
+    .where(orphaned(terminalSessions.ownerNode, terminalSessions.createdAt, bootedAt, liveNodes))
+    .returning({ id: terminalSessions.id })
+  if (closed.length === 0) return 0
+
+  await db
+    .update(terminalCommands)
+    .set({ status: 'interrupted', finishedAt: new Date() })
+    .where(and(
+      eq(terminalCommands.status, 'running'),
+      inArray(terminalCommands.terminalId, closed.map((t) => t.id)),
+    ))
+  return closed.length
+}
+
+async function recoverBuilds(bootedAt: Date, liveNodes: string[]): Promise<number> {
+  const failed = await db
+    .update(builds)
+    .set({ status: 'failed', error: INTERRUPTED_REASON, completedAt: new Date() })
+    .where(and(eq(builds.status, 'running'), orphaned(builds.ownerNode, builds.createdAt, bootedAt, liveNodes)))
+    .returning({ id: builds.id })
+  for (const build of failed) sessionEventBus.emitError(buildEventKey(build.id), INTERRUPTED_REASON)
+  return failed.length
+}
+
+/**
+ * Settle everything a previous process (or a dead replica) left in flight.
+ * Runs at boot in the background; of this node's own rows only those last
+ * touched before `bootedAt` are considered, so work this process starts
+ * meanwhile is left alone.
+ */
+export async function recoverInterruptedWork(bootedAt: Date): Promise<RecoveryResult> {
+  const liveNodes = await getLiveNodes()
+  const stuck = await db
+    .select({ session: agentSessions, project: projects, username: users.username })
+    .from(agentSessions)
+    .innerJoin(projects, eq(agentSessions.projectId, projects.id))
+    .innerJoin(users, eq(projects.userId, users.id))
+    .where(and(
+      eq(agentSessions.status, 'running'),
+      orphaned(agentSessions.ownerNode, agentSessions.updatedAt, bootedAt, liveNodes),
+    ))
+
+  const result: RecoveryResult = { sessionsResumed: 0, sessionsFailed: 0, jobsFailed: 0, reviewsStaled: 0, terminalsClosed: 0, buildsFailed: 0 }
+  for (const row of stuck) {
+    try {
+      const [claimed] = await db
+        .update(agentSessions)
+        .set({ ownerNode: NODE_ID })
+        .where(and(
+          eq(agentSessions.id, row.session.id),
+          eq(agentSessions.status, 'running'),
+          sameOwner(agentSessions.ownerNode, row.session.ownerNode),
+        ))
+        .returning({ id: agentSessions.id })
+      if (!claimed) continue
+
+      const outcome = await recoverSession(row)
+      if (outcome === 'resumed') result.sessionsResumed++
+      else result.sessionsFailed++
+    } catch (err) {
+      console.error('[Recovery] Failed to recover session:', row.session.id, err)
+    }
+  }
+
+  try {
+    result.jobsFailed = await recoverAssistantJobs(bootedAt, liveNodes)
+  } catch (err) {
+    console.error('[Recovery] Failed to recover Assistant jobs:', err)
+  }
+  try {
+    result.reviewsStaled = await recoverCodeReviews(bootedAt, liveNodes)
+  } catch (err) {
+    console.error('[Recovery] Failed to recover code reviews:', err)
+  }
+  try {
+    result.terminalsClosed = await recoverTerminals(bootedAt, liveNodes)
+  } catch (err) {
+    console.error('[Recovery] Failed to recover terminals:', err)
+  }
+  try {
+    result.buildsFailed = await recoverBuilds(bootedAt, liveNodes)
+  } catch (err) {
+    console.error('[Recovery] Failed to recover builds:', err)
+  }
+  return result
+}
+
+/**
+ * Repeat the recovery pass every minute so work owned by a replica that dies
+ * while this one is up gets settled too. Passes never overlap.
+ */
+export function startOrphanRecovery(bootedAt: Date): void {
+  let running = false
+  const timer = setInterval(() => {
+    if (running) return
+    running = true
+    recoverInterruptedWork(bootedAt)
+      .then((r) => {
+        if (r.sessionsResumed + r.sessionsFailed + r.jobsFailed + r.reviewsStaled + r.terminalsClosed + r.buildsFailed > 0) {
+          console.log('[Recovery] Settled work left by a dead node:', r)
+        }
+      })
+      .catch((err) => {
+        console.error('[Recovery] Orphan sweep failed:', err)
+      })
+      .finally(() => {
+        running = false
+      })
+  }, SWEEP_INTERVAL_MS)
+  timer.unref()
+}
@@ -0,0 +1,71 @@
+/**
+ * Secret rotation — move every stored secret onto the active master key.
+ *
+ * Plaintext rows (written before encryption existed) are encrypted, rows under
+ * an older `ENCRYPTION_KEYS` entry get their data key re-wrapped. Runs on boot
+ * and from `npm run db:rotate-keys`. Each update only applies if the column
+ * still holds the value that was read, so concurrent replicas and writes
+ * racing the pass are safe. Once it reports nothing left under a retired key,
+ * that key can be dropped from `ENCRYPTION_KEYS`.
+ */
+import { and, eq, isNotNull } from 'drizzle-orm'
+import { db } from '../db/index.js'
+import { users } from '../db/schema/users.js'
+import { providerApiKeys } from '../db/schema/provider-api-keys.js'
+import { needsRewrap, rewrapSecret, decryptSecret, maskSecret } from './envelope-encryption.js'
+
+export interface RotationResult {
+  githubTokens: number
+  providerKeys: number
+  totpSecrets: number
+}
+
+export async function rewrapStoredSecrets(): Promise<RotationResult> {
+  const result: RotationResult = { githubTokens: 0, providerKeys: 0, totpSecrets: 0 }
+
+  const tokens = await db
+    .select({ id: users.id, token: users.githubAccessToken })
+    .from(users)
+    .where(isNotNull(users.githubAccessToken))
+  for (const row of tokens) {
+    if (!row.token || !needsRewrap(row.token)) continue
+    const updated = await db
+      .update(users)
+      .set({ githubAccessToken: rewrapSecret(row.token) })
+      .where(and(eq(users.id, row.id), eq(users.githubAccessToken, row.token)))
+      .returning({ id: users.id })
+    result.githubTokens += updated.length
+  }
+
+  const totpSecrets = await db
+    .select({ id: users.id, secret: users.totpSecret })
+    .from(users)
+    .where(isNotNull(users.totpSecret))
+  for (const row of totpSecrets) {
+    if (!row.secret || !needsRewrap(row.secret)) continue
+    const updated = await db
+      .update(users)
+      .set({ totpSecret: rewrapSecret(row.secret) })
+      .where(and(eq(users.id, row.id), eq(users.totpSecret, row.secret)))
+      .returning({ id: users.id })
+    result.totpSecrets += updated.length
+  }
+
+  const keys = await db
+    .select({ id: providerApiKeys.id, apiKey: providerApiKeys.apiKey, hint: providerApiKeys.apiKeyHint })
+    .from(providerApiKeys)
+  for (const row of keys) {
+    if (!needsRewrap(row.apiKey)) continue
+    const updated = await db
+      .update(providerApiKeys)
+      .set({
+        apiKey: rewrapSecret(row.apiKey),
+        apiKeyHint: row.hint ?? maskSecret(decryptSecret(row.apiKey)),
+      })
+      .where(and(eq(providerApiKeys.id, row.id), eq(providerApiKeys.apiKey, row.apiKey)))
+      .returning({ id: providerApiKeys.id })
+    result.providerKeys += updated.length
+  }
+
+  return result
+}
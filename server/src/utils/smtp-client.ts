@@ -0,0 +1,217 @@
+/**
+ * Minimal SMTP client — enough of RFC 5321 to hand one message to a relay:
+ * EHLO, optional STARTTLS or implicit TLS, AUTH PLAIN, MAIL/RCPT/DATA.
+ * Works against real providers and local catchers such as MailHog
+ * (`SMTP_PORT=1025 SMTP_TLS=none`).
+ */
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+import { randomUUID } from 'crypto'
+
+export type SmtpSecurity = 'none' | 'starttls' | 'tls'
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  security: SmtpSecurity
+  user?: string
+  password?: string
+  timeoutMs?: number
+}
+
+export interface SmtpMessage {
+  from: string
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+export class SmtpError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+}
+
+interface Reply {
+  code: number
+  lines: string[]
+}
+
+/** Reads CRLF-terminated replies, joining `250-…` continuation lines into one. */
+class SmtpConnection {
+  private buffer = ''
+  private lines: string[] = []
+  private replies: Reply[] = []
+  private waiting: ((reply: Reply) => void) | null = null
+  private failure: Error | null = null
+  private onFailure: ((err: Error) => void) | null = null
+
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(this.timeoutMs, () => this.fail(new Error('SMTP server timed out')))
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')))
+    socket.on('error', (err) => this.fail(err))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private fail(err: Error) {
+    if (this.failure) return
+    this.failure = err
+    this.onFailure?.(err)
+  }
+
+  private receive(data: string) {
+    this.buffer += data
+    let index
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index)
+      this.buffer = this.buffer.slice(index + 2)
+      this.lines.push(line)
+      // "250 OK" ends a reply, "250-…" continues it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.lines.map((l) => l.slice(4)) })
+        this.lines = []
+      }
+    }
+    if (this.waiting && this.replies.length > 0) {
+      const resolve = this.waiting
+      this.waiting = null
+      resolve(this.replies.shift()!)
+    }
+  }
+
+  read(): Promise<Reply> {
+    const queued = this.replies.shift()
+    if (queued) return Promise.resolve(queued)
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise((resolve, reject) => {
+      this.waiting = resolve
+      this.onFailure = reject
+    })
+  }
+
+  async command(line: string, expected: number[]): Promise<Reply> {
+    this.socket.write(`${line}\r\n`)
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      // Never echo AUTH payloads into errors or logs
+      const sent = line.startsWith('AUTH') ? 'AUTH' : line.split(' ')[0]
+      throw new SmtpError(reply.code, `SMTP ${sent} failed: ${reply.code} ${reply.lines.join(' ')}`)
+    }
+    return reply
+  }
+
+  /** Switch the connection to TLS after a successful STARTTLS. */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners()
+    const secure = tls.connect({ socket: this.socket, servername: host })
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve)
+      secure.once('error', reject)
+    })
+    this.socket = secure
+    this.attach(secure)
+  }
+
+  write(data: string) {
+    this.socket.write(data)
+  }
+
+  close() {
+    this.socket.removeAllListeners()
+    this.socket.on('error', () => {})
+    this.socket.end()
+  }
+}
+
+/** Bare address from `Name <addr>` or `addr`. */
+function addressOf(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim()
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function base64Body(content: string): string {
+  return Buffer.from(content, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n')
+}
+
+export function buildMessage(message: SmtpMessage): string {
+  const boundary = `=_${randomUUID()}`
+  const domain = addressOf(message.from).split('@')[1] || 'localhost'
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
+
+async function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.security === 'tls'
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket))
+    socket.once('error', reject)
+    socket.setTimeout(options.timeoutMs ?? 15_000, () => socket.destroy(new Error('SMTP connection timed out')))
+  })
+}
+
+export async function sendSmtp(options: SmtpOptions, message: SmtpMessage): Promise<void> {
+  const socket = await connect(options)
+  socket.removeAllListeners('error')
+  const connection = new SmtpConnection(socket, options.timeoutMs ?? 15_000)
+  try {
+    const greeting = await connection.read()
+    if (greeting.code !== 220) throw new SmtpError(greeting.code, `SMTP server refused the connection: ${greeting.lines.join(' ')}`)
+
+    const hostname = os.hostname() || 'localhost'
+    const ehlo = await connection.command(`EHLO ${hostname}`, [250])
+    if (options.security === 'starttls') {
+      if (!ehlo.lines.some((l) => /^STARTTLS\b/i.test(l))) {
+        throw new SmtpError(0, 'SMTP server does not offer STARTTLS (set SMTP_TLS=none for a local catcher)')
+      }
+      await connection.command('STARTTLS', [220])
+      await connection.upgrade(options.host)
+      await connection.command(`EHLO ${hostname}`, [250])
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.password ?? ''}`, 'utf8').toString('base64')
+      await connection.command(`AUTH PLAIN ${credentials}`, [235])
+    }
+
+    await connection.command(`MAIL FROM:<${addressOf(message.from)}>`, [250])
+    await connection.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251])
+    await connection.command('DATA', [354])
+    // Dot-stuffing: a line starting with "." gets a second one
+    connection.write(buildMessage(message).replace(/^\./gm, '..'))
+    await connection.command('.', [250])
+    await connection.command('QUIT', [221]).catch(() => {})
+  } finally {
+    connection.close()
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Staging service — review-before-apply workspaces for "staged" agent sessions.
+ *
+ * A staged session's bridge never writes into the project directory. It works
+ * in a sibling scratch copy, `/home/auroracraft-<user>/<linkId>.staged-<id>`,
+ * which still looks like a project workspace to the OpenCode process manager,
+ * provider config and knowledge writers, so the bridges run unchanged.
+ *
+ * The copy has its own git repo with a hidden baseline ref. Pending changes
+ * are the diff between that baseline and the copy's working tree. Accepting a
+ * file copies it into the project and moves the baseline forward for that
+ * path; rejecting one restores it in the copy from the baseline. Either way it
+ * drops out of the pending set.
+ *
+ * Like the checkpoint service, everything runs as the project's system user.
+ */
+import { execShellAsSystemUser, shellQuote } from './system-user.js'
+import { snapshotWorkspace, getCheckpointChanges, type CheckpointChanges, type CheckpointFileChange } from './checkpoint-service.js'
+
+const SHELL_TIMEOUT_MS = 300_000
+const BASE_REF = 'refs/auroracraft/staging/base'
+const STAGING_DIR_RE = /^\/home\/(auroracraft-[^/]+)\/[^/]+\.staged-[0-9a-f]{8}$/
+
+// Left out of the scratch copy; build output is regenerated there if needed.
+const COPY_EXCLUDES = ['./.git', './opencode.json', 'target', 'build', '.gradle', 'graphify-out']
+
+// Bridge config the server rewrites in the copy on every turn — never offered for review.
+const IGNORED_PATH_RE = /^(?:opencode\.json$|\.opencode\/)/
+
+const GIT_IDENTITY =
+  'GIT_AUTHOR_NAME=AuroraCraft GIT_AUTHOR_EMAIL=checkpoints@auroracraft.local ' +
+  'GIT_COMMITTER_NAME=AuroraCraft GIT_COMMITTER_EMAIL=checkpoints@auroracraft.local'
+
+function assertStagingDir(stagingDir: string): string {
+  const m = stagingDir.match(STAGING_DIR_RE)
+  if (!m) throw new Error(`Not a staging workspace: ${stagingDir}`)
+  return m[1]
+}
+
+/** Run a shell script as the workspace's system user; returns stdout. */
+function runAs(systemUser: string, script: string): Promise<string> {
+  return execShellAsSystemUser(systemUser, `set -e; ${script}`, SHELL_TIMEOUT_MS)
+}
+
+/** Shell prelude that points git at a throwaway index seeded from `$base`. */
+const PRIVATE_INDEX = [
+  'idx="$(git rev-parse --absolute-git-dir)/auroracraft-staging-$$.index"',
+  `trap 'rm -f "$idx"' EXIT`,
+  'export GIT_INDEX_FILE="$idx"',
+  'git read-tree "$base"',
+].join('; ')
+
+/** The scratch-copy directory a staged session's bridge works in. */
+export function getStagingDirectory(projectDir: string, sessionId: string): string {
+  return `${projectDir}.staged-${sessionId.slice(0, 8)}`
+}
+
+async function readBase(stagingDir: string): Promise<string | null> {
+  const systemUser = assertStagingDir(stagingDir)
+  const out = await runAs(
+    systemUser,
+    `cd ${shellQuote(stagingDir)} 2>/dev/null || exit 0; [ -d .git ] || exit 0; git rev-parse -q --verify ${BASE_REF} || true`,
+  )
+  return out.trim() || null
+}
+
+/**
+ * Pending (not yet accepted or rejected) changes in a staging workspace. The
+ * unified patch is only built when `paths` narrows it to specific files.
+ */
+export async function getStagedChanges(stagingDir: string, paths?: string[]): Promise<CheckpointChanges> {
+  const base = await readBase(stagingDir)
+  if (!base) return { files: [], patch: '', truncated: false }
+  const current = await snapshotWorkspace(stagingDir)
+  const changes = await getCheckpointChanges(stagingDir, base, current, { paths, patch: !!paths?.length })
+  return { ...changes, files: changes.files.filter((f) => !IGNORED_PATH_RE.test(f.path)) }
+}
+
+/**
+ * Make sure the staging workspace exists before a turn. With nothing pending
+ * it is re-synced from the project, so the agent starts from what the user
+ * has now; with changes still awaiting review, the turn builds on top of them.
+ */
+export async function prepareStagingWorkspace(projectDir: string, stagingDir: string): Promise<void> {
+  const systemUser = assertStagingDir(stagingDir)
+  const pending = await getStagedChanges(stagingDir)
+  if (pending.files.length > 0) return
+
+  const excludes = COPY_EXCLUDES.map((p) => `--exclude=${shellQuote(p)}`).join(' ')
+  await runAs(systemUser, [
+    `dst=${shellQuote(stagingDir)}`,
+    'mkdir -p "$dst"',
+    'find "$dst" -mindepth 1 -maxdepth 1 ! -name .git ! -name opencode.json -exec rm -rf {} +',
+    `cd ${shellQuote(projectDir)}`,
+    `tar -cf - ${excludes} . | tar -xf - -C "$dst"`,
+  ].join('; '))
+  await snapshotWorkspace(stagingDir, BASE_REF, 'AuroraCraft staging (base)')
+}
+
+/** Every path a set of pending changes touches, including the old side of renames. */
+function touchedPaths(files: CheckpointFileChange[]): string[] {
+  return [...new Set(files.flatMap((f) => (f.oldPath ? [f.path, f.oldPath] : [f.path])))]
+}
+
+/**
+ * Copy pending changes (entries from getStagedChanges) into the project
+ * directory — deletions included — and fold them into the baseline.
+ */
+export async function acceptStagedFiles(projectDir: string, stagingDir: string, files: CheckpointFileChange[]): Promise<void> {
+  const systemUser = assertStagingDir(stagingDir)
+  const resolved = touchedPaths(files)
+  if (resolved.length === 0) return
+
+  const quoted = resolved.map(shellQuote).join(' ')
+  const pathspecs = resolved.map((p) => shellQuote(`:(literal)${p}`)).join(' ')
+  await runAs(systemUser, [
+    `proj=${shellQuote(projectDir)}`,
+    `cd ${shellQuote(stagingDir)}`,
+    `base=$(git rev-parse --verify ${BASE_REF})`,
+    `for p in ${quoted}; do ` +
+      'if [ -e "$p" ] || [ -L "$p" ]; then mkdir -p "$proj/$(dirname -- "$p")"; cp -pP -- "$p" "$proj/$p"; ' +
+      'else rm -f -- "$proj/$p"; fi; done',
+    PRIVATE_INDEX,
+    `git add -A -- ${pathspecs}`,
+    'tree=$(git write-tree)',
+    `commit=$(${GIT_IDENTITY} git commit-tree "$tree" -p "$base" -m 'AuroraCraft staging (accepted)')`,
+    `git update-ref ${BASE_REF} "$commit" "$base"`,
+  ].join('; '))
+}
+
+/** Throw away pending changes, putting the staging copy back to its baseline for those files. */
+export async function rejectStagedFiles(stagingDir: string, files: CheckpointFileChange[]): Promise<void> {
+  const systemUser = assertStagingDir(stagingDir)
+  const resolved = touchedPaths(files)
+  if (resolved.length === 0) return
+
+  const quoted = resolved.map(shellQuote).join(' ')
+  await runAs(systemUser, [
+    `cd ${shellQuote(stagingDir)}`,
+    `base=$(git rev-parse --verify ${BASE_REF})`,
+    PRIVATE_INDEX,
+    `for p in ${quoted}; do ` +
+      'if git cat-file -e "$base:$p" 2>/dev/null; then git checkout-index -f -- "$p"; else rm -f -- "$p"; fi; done',
+  ].join('; '))
+}
@@ -1,4 +1,4 @@
-import { execFile, spawn } from 'child_process'
+import { execFile, spawn, type ChildProcess, type StdioOptions } from 'child_process'
 import { promisify } from 'util'
 import { setupUserSharedCaches } from './shared-cache.js'
 
@@ -15,6 +15,43 @@ function isRoot(): boolean {
   return process.getuid?.() === 0
 }
 
+/** Single-quote escape for safe inclusion in a `sh -c` string. */
+export function shellQuote(s: string): string {
+  return `'${s.replace(/'/g, `'\\''`)}'`
+}
+
+/** Map /home/auroracraft-<user>/<dir> → the owning system user. */
+export function workspaceSystemUser(directory: string): string {
+  const m = directory.match(/^\/home\/(auroracraft-[^/]+)\/[^/]+$/)
+  if (!m) throw new Error(`Not a project workspace: ${directory}`)
+  return m[1]
+}
+
+/** `runuser` with these arguments, through sudo only when not already root. */
+function runuser(runuserArgs: string[]): [string, string[]] {
+  return isRoot() ? ['runuser', runuserArgs] : ['sudo', ['runuser', ...runuserArgs]]
+}
+
+/** Run a program as a system user with an argument list (no shell); returns stdout. */
+export async function execAsSystemUser(systemUser: string, argv: string[], timeoutMs: number): Promise<string> {
+  const [cmd, args] = runuser(['-u', systemUser, '--', ...argv])
+  const { stdout } = await execFileAsync(cmd, args, { timeout: timeoutMs, maxBuffer: 64 * 1024 * 1024 })
+  return stdout
+}
+
+/** Run a script in a login shell as a system user; returns stdout. */
+export async function execShellAsSystemUser(systemUser: string, script: string, timeoutMs: number): Promise<string> {
+  const [cmd, args] = runuser(['-l', systemUser, '-c', script])
+  const { stdout } = await execFileAsync(cmd, args, { timeout: timeoutMs, maxBuffer: 64 * 1024 * 1024 })
+  return stdout
+}
+
+/** Start a script in a login shell as a system user, for callers that stream its output. */
+export function spawnShellAsSystemUser(systemUser: string, script: string, stdio: StdioOptions): ChildProcess {
+  const [cmd, args] = runuser(['-l', systemUser, '-c', script])
+  return spawn(cmd, args, { stdio })
+}
+
 /** Run a command with sudo only when not already root. */
 async function sudo(cmd: string, args: string[]): Promise<void> {
   if (isRoot()) {
@@ -118,3 +155,43 @@ export async function changeSystemUserPassword(username: string, newPassword: st
   await setSystemUserPassword(systemUsername, newPassword)
   console.log(`[SystemUser] Password changed for ${systemUsername}`)
 }
+
+/**
+ * Give a collaborator's system user access to a workspace owned by another
+ * user, via POSIX ACLs: traverse on the owner's home (750) and rwX (editor) or
+ * r-X (viewer) on the project tree, including a default ACL so files created
+ * later inherit it.
+ */
+export async function grantWorkspaceAccess(
+  ownerUsername: string,
+  memberUsername: string,
+  projectDir: string,
+  role: 'editor' | 'viewer',
+): Promise<void> {
+  const member = toSystemUsername(memberUsername)
+  const perms = role === 'editor' ? 'rwX' : 'r-X'
+  await sudo('setfacl', ['-m', `u:${member}:--x`, `/home/${toSystemUsername(ownerUsername)}`])
+  // Drop any previous grant first so a downgrade removes write access
+  await sudo('setfacl', ['-R', '-x', `u:${member}`, '-x', `d:u:${member}`, projectDir]).catch(() => {})
+  await sudo('setfacl', ['-R', '-m', `u:${member}:${perms}`, '-m', `d:u:${member}:${perms}`, projectDir])
+  // git refuses repositories owned by another user until they are marked safe
+  await sudo('runuser', ['-u', member, '--', 'git', 'config', '--global', '--add', 'safe.directory', projectDir]).catch(() => {})
+}
+
+/**
+ * Remove a collaborator's ACL entries from a workspace, and their traverse
+ * right on the owner's home when `keepHomeAccess` is false (no other project
+ * of that owner is still shared with them).
+ */
+export async function revokeWorkspaceAccess(
+  ownerUsername: string,
+  memberUsername: string,
+  projectDir: string,
+  keepHomeAccess: boolean,
+): Promise<void> {
+  const member = toSystemUsername(memberUsername)
+  await sudo('setfacl', ['-R', '-x', `u:${member}`, '-x', `d:u:${member}`, projectDir])
+  if (!keepHomeAccess) {
+    await sudo('setfacl', ['-x', `u:${member}`, `/home/${toSystemUsername(ownerUsername)}`])
+  }
+}
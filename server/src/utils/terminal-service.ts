@@ -0,0 +1,293 @@
+/**
+ * Terminal service — the workspace terminal.
+ *
+ * A terminal is a WebSocket (routes/terminal.ts) on which the browser sends
+ * whole command lines. Each line runs as the project owner's system user
+ * through `aurora-sandbox`, the same wrapper and environment the agent's
+ * commands get: project-only filesystem, blocked commands, the project's JDK
+ * and build tool. A command gets its own pseudo-terminal (util-linux `script`)
+ * so colours and progress output work, and keystrokes are forwarded to it
+ * while it runs (Ctrl+C included).
+ *
+ * - `cd` is handled here, because it has to outlive a single command. It
+ *   cannot leave the project directory.
+ * - Every line is recorded in `terminal_commands`: who ran it, where, and how
+ *   it ended.
+ * - A user holds at most MAX_SESSIONS_PER_USER terminals across replicas. A
+ *   terminal idle for IDLE_TIMEOUT_MS (no input, nothing running) is closed;
+ *   a command running longer than COMMAND_TIMEOUT_MS is killed.
+ */
+import { type ChildProcess } from 'child_process'
+import { stat } from 'fs/promises'
+import { StringDecoder } from 'string_decoder'
+import path from 'path'
+import { and, count, eq, inArray, sql } from 'drizzle-orm'
+import { db } from '../db/index.js'
+import { terminalSessions, terminalCommands } from '../db/schema/terminal-sessions.js'
+import { getJavaHomePath } from '../bridges/opencode-process-manager.js'
+import { SHARED_CACHE_PATHS } from './shared-cache.js'
+import { NODE_ID, getLiveNodes } from './cluster.js'
+import { shellQuote, spawnShellAsSystemUser } from './system-user.js'
+
+const SANDBOX_PATH = '/usr/local/bin/aurora-sandbox'
+export const MAX_SESSIONS_PER_USER = 3
+const IDLE_TIMEOUT_MS = 15 * 60_000
+const COMMAND_TIMEOUT_MS = 30 * 60_000
+const KILL_GRACE_MS = 5_000
+const MAX_COMMAND_LENGTH = 4096
+
+export type TerminalServerMessage =
+  | { type: 'ready'; cwd: string }
+  | { type: 'output'; data: string }
+  | { type: 'exit'; code: number | null; cwd: string }
+  | { type: 'closed'; reason: string }
+
+export interface TerminalOptions {
+  projectId: string
+  userId: string
+  username: string
+  /** Owner of the workspace — commands run as their system user */
+  ownerUsername: string
+  projectDir: string
+  javaVersion: string
+  compiler: string
+  send(message: TerminalServerMessage): void
+  /** Close the transport (after a final `closed` message) */
+  close(): void
+}
+
+// Terminals open on this process, for shutdown
+const openTerminals = new Set<TerminalSession>()
+
+// `cd <dir>` on its own (no other shell syntax) changes the terminal's directory
+const CD_PATTERN = /^cd(?:\s+(?:'([^']*)'|"([^"$`\\]*)"|([^\s;&|<>()$`\\'"]+)))?\s*$/
+
+export class TerminalSession {
+  readonly id: string
+  private cwd: string
+  private cols = 80
+  private rows = 24
+  private child: ChildProcess | null = null
+  private commandId: string | null = null
+  private killedBy: 'killed' | 'timeout' | null = null
+  private idleTimer: ReturnType<typeof setTimeout> | null = null
+  private commandTimer: ReturnType<typeof setTimeout> | null = null
+  private closed = false
+
+  constructor(id: string, private readonly opts: TerminalOptions) {
+    this.id = id
+    this.cwd = opts.projectDir
+    openTerminals.add(this)
+    opts.send({ type: 'ready', cwd: this.relativeCwd() })
+    this.touch()
+  }
+
+  /** Run one command line. */
+  async run(line: string): Promise<void> {
+    if (this.closed) return
+    this.touch()
+    const command = line.trim()
+    if (this.child) {
+      this.write('\r\n[AuroraCraft] A command is already running — press Ctrl+C to stop it.\r\n')
+      return
+    }
+    if (!command) {
+      this.opts.send({ type: 'exit', code: 0, cwd: this.relativeCwd() })
+      return
+    }
+    if (command.length > MAX_COMMAND_LENGTH) {
+      this.write(`[AuroraCraft] Command is too long (max ${MAX_COMMAND_LENGTH} characters).\r\n`)
+      this.opts.send({ type: 'exit', code: 1, cwd: this.relativeCwd() })
+      return
+    }
+
+    const [row] = await db
+      .insert(terminalCommands)
+      .values({
+        projectId: this.opts.projectId,
+        terminalId: this.id,
+        userId: this.opts.userId,
+        username: this.opts.username,
+        command,
+        cwd: this.relativeCwd(),
+        status: 'running',
+      })
+      .returning({ id: terminalCommands.id })
+
+    const cd = CD_PATTERN.exec(command)
+    if (cd) {
+      const code = await this.changeDirectory(cd[1] ?? cd[2] ?? cd[3] ?? '')
+      await this.finishCommand(row.id, 'completed', code)
+      return
+    }
+
+    this.commandId = row.id
+    this.spawnCommand(command)
+  }
+
+  /** Keystrokes for the running command; ignored when nothing runs. */
+  input(data: string): void {
+    this.touch()
+    this.child?.stdin?.write(data)
+  }
+
+  /** Terminal size for the next command. */
+  resize(cols: number, rows: number): void {
+    this.cols = cols
+    this.rows = rows
+  }
+
+  /** Kill the running command and forget the terminal. */
+  async close(reason?: string): Promise<void> {
+    if (this.closed) return
+    this.closed = true
+    openTerminals.delete(this)
+    if (this.idleTimer) clearTimeout(this.idleTimer)
+    if (this.child) this.kill('killed')
+    if (reason) {
+      this.opts.send({ type: 'closed', reason })
+      this.opts.close()
+    }
+    await db.delete(terminalSessions).where(eq(terminalSessions.id, this.id)).catch((err) => {
+      console.warn('[Terminal] Failed to remove session row:', err)
+    })
+  }
+
+  private spawnCommand(command: string): void {
+    const javaHome = getJavaHomePath(this.opts.javaVersion)
+    const compiler = this.opts.compiler || 'maven'
+    // `script` allocates the pseudo-terminal; the sandbox runs inside it
+    const inPty = `stty rows ${this.rows} cols ${this.cols} 2>/dev/null; exec ${shellQuote(SANDBOX_PATH)} -c ${shellQuote(command)}`
+    const shellCmd =
+      `cd ${shellQuote(this.cwd)} && ` +
+      `export JAVA_HOME=${shellQuote(javaHome)} && ` +
+      `export PATH=${shellQuote(`${javaHome}/bin:/usr/local/bin:/usr/bin:/bin`)} && ` +
+      `export MAVEN_OPTS=${shellQuote(`-Dmaven.repo.local=${SHARED_CACHE_PATHS.maven.repository}`)} && ` +
+      `export GRADLE_USER_HOME=${shellQuote(SHARED_CACHE_PATHS.gradle.caches)} && ` +
+      `export AURORA_PROJECT_DIR=${shellQuote(this.opts.projectDir)} && ` +
+      `export AURORA_JAVA_HOME=${shellQuote(javaHome)} && ` +
+      `export AURORA_COMPILER=${shellQuote(compiler)} && ` +
+      `export TERM=xterm-256color PAGER=cat GIT_PAGER=cat && ` +
+      `exec script -qefc ${shellQuote(inPty)} /dev/null`
+
+    const systemUser = `auroracraft-${this.opts.ownerUsername.toLowerCase()}`
+    const child = spawnShellAsSystemUser(systemUser, shellCmd, ['pipe', 'pipe', 'pipe'])
+    this.child = child
+    this.killedBy = null
+
+    const decoder = new StringDecoder('utf8')
+    const forward = (data: Buffer) => this.write(decoder.write(data))
+    child.stdout?.on('data', forward)
+    child.stderr?.on('data', forward)
+    child.stdin?.on('error', () => { /* command exited while we were writing */ })
+
+    this.commandTimer = setTimeout(() => {
+      this.write(`\r\n[AuroraCraft] Command timed out after ${COMMAND_TIMEOUT_MS / 60_000} minutes.\r\n`)
+      this.kill('timeout')
+    }, COMMAND_TIMEOUT_MS)
+
+    child.on('error', (err) => {
+      this.write(`\r\n[AuroraCraft] Failed to start the command: ${err.message}\r\n`)
+    })
+    child.on('close', (code) => {
+      if (this.commandTimer) clearTimeout(this.commandTimer)
+      this.commandTimer = null
+      this.child = null
+      const commandId = this.commandId
+      this.commandId = null
+      const rest = decoder.end()
+      if (rest) this.write(rest)
+
+      if (commandId) {
+        void this.finishCommand(commandId, this.killedBy ?? 'completed', code)
+      }
+      this.touch()
+    })
+  }
+
+  private async finishCommand(commandId: string, status: string, exitCode: number | null): Promise<void> {
+    if (!this.closed) this.opts.send({ type: 'exit', code: exitCode, cwd: this.relativeCwd() })
+    await db
+      .update(terminalCommands)
+      .set({ status, exitCode, finishedAt: new Date() })
+      .where(eq(terminalCommands.id, commandId))
+      .catch((err) => {
+        console.warn('[Terminal] Failed to record command result:', err)
+      })
+  }
+
+  private async changeDirectory(target: string): Promise<number> {
+    const next = !target || target === '~' ? this.opts.projectDir : path.resolve(this.cwd, target)
+    if (next !== this.opts.projectDir && !next.startsWith(this.opts.projectDir + '/')) {
+      this.write('cd: cannot leave the project directory\r\n')
+      return 1
+    }
+    const isDirectory = await stat(next).then((s) => s.isDirectory()).catch(() => false)
+    if (!isDirectory) {
+      this.write(`cd: ${target}: No such directory\r\n`)
+      return 1
+    }
+    this.cwd = next
+    return 0
+  }
+
+  private kill(reason: 'killed' | 'timeout'): void {
+    const child = this.child
+    if (!child) return
+    this.killedBy = reason
+    child.kill('SIGTERM')
+    setTimeout(() => {
+      if (child.exitCode === null && child.signalCode === null) child.kill('SIGKILL')
+    }, KILL_GRACE_MS).unref()
+  }
+
+  private write(data: string): void {
+    if (data && !this.closed) this.opts.send({ type: 'output', data })
+  }
+
+  private relativeCwd(): string {
+    return path.relative(this.opts.projectDir, this.cwd)
+  }
+
+  /** Restart the idle countdown; it only fires while no command is running. */
+  private touch(): void {
+    if (this.idleTimer) clearTimeout(this.idleTimer)
+    this.idleTimer = setTimeout(() => {
+      if (this.child) return this.touch()
+      void this.close(`Closed after ${IDLE_TIMEOUT_MS / 60_000} minutes of inactivity`)
+    }, IDLE_TIMEOUT_MS)
+    this.idleTimer.unref()
+  }
+}
+
+/**
+ * Open a terminal for a user, unless they already hold MAX_SESSIONS_PER_USER
+ * (terminals on replicas that stopped heartbeating don't count). The count and
+ * the insert run under a per-user advisory lock, so two opens racing on
+ * different replicas can't both squeeze under the cap.
+ */
+export async function openTerminal(opts: TerminalOptions): Promise<{ terminal: TerminalSession } | { error: string }> {
+  const liveNodes = await getLiveNodes()
+  const row = await db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`terminal:${opts.userId}`}))`)
+    const [{ open }] = await tx
+      .select({ open: count() })
+      .from(terminalSessions)
+      .where(and(eq(terminalSessions.userId, opts.userId), inArray(terminalSessions.ownerNode, liveNodes)))
+    if (open >= MAX_SESSIONS_PER_USER) return null
+    const [inserted] = await tx
+      .insert(terminalSessions)
+      .values({ projectId: opts.projectId, userId: opts.userId, ownerNode: NODE_ID })
+      .returning({ id: terminalSessions.id })
+    return inserted
+  })
+  if (!row) {
+    return { error: `You already have ${MAX_SESSIONS_PER_USER} terminals open. Close one to open another.` }
+  }
+  return { terminal: new TerminalSession(row.id, opts) }
+}
+
+/** Close every terminal on this process (server shutdown). */
+export async function closeAllTerminals(): Promise<void> {
+  await Promise.allSettled([...openTerminals].map((t) => t.close('The server is restarting')))
+}
@@ -1,10 +1,11 @@
 import { db } from '../db/index.js'
 import { users } from '../db/schema/users.js'
-import { tokenTransactions, providerApiKeys } from '../db/schema/provider-api-keys.js'
-import { eq, sql, and } from 'drizzle-orm'
+import { tokenTransactions, tokenLedgerDrift, providerApiKeys } from '../db/schema/provider-api-keys.js'
+import { eq, sql, and, isNull, notInArray, like, notLike } from 'drizzle-orm'
 import type { UserTier, ProviderId } from '../config/ai-models.js'
 import { calculateTokenCost, estimateTokens, getModelPricing, TOKEN_MULTIPLIER, TOKENS_PER_USD } from '../config/ai-models.js'
 import type { AIModelDef } from '../config/ai-models.js'
+import { decryptSecret } from './envelope-encryption.js'
 
 /** Minimum token balance required to send messages using premium (paid) models */
 export const MIN_PREMIUM_BALANCE = 30
@@ -19,6 +20,86 @@ export async function hasEnoughTokens(userId: string, required: number): Promise
   return balance >= required
 }
 
+// ── Ledger ───────────────────────────────────────────────────────────
+//
+// Every balance change goes through applyLedgerEntry(): one transaction that
+// locks the user row (SELECT ... FOR UPDATE), writes the token_transactions row
+// and updates users.ai_tokens together. Concurrent sends / Assistant jobs queue
+// on the row lock instead of overwriting each other's balance, and a retried
+// call carrying the same idempotency key is applied at most once.
+
+export type LedgerEntryType = 'grant' | 'deduct' | 'refund' | 'adjustment'
+
+interface LedgerEntry {
+  userId: string
+  /** Signed change: positive credits the user, negative debits them. */
+  amount: number
+  type: LedgerEntryType
+  description: string
+  sessionId?: string
+  idempotencyKey?: string
+  /** Debits only: apply nothing when the balance can't cover the full amount (default: drain to 0). */
+  requireFull?: boolean
+}
+
+interface LedgerResult {
+  /** Signed amount actually applied (0 when nothing was applied). */
+  applied: number
+  balance: number
+  /** The idempotency key had already been applied; `applied` is the original amount. */
+  duplicate: boolean
+  insufficient: boolean
+}
+
+async function applyLedgerEntry(entry: LedgerEntry): Promise<LedgerResult> {
+  return db.transaction(async (tx) => {
+    const [user] = await tx
+      .select({ aiTokens: users.aiTokens })
+      .from(users)
+      .where(eq(users.id, entry.userId))
+      .for('update')
+    if (!user) throw new Error(`User ${entry.userId} not found`)
+    const balance = user.aiTokens ?? 0
+
+    // Checked under the row lock, so a concurrent retry waits and then sees the first write.
+    if (entry.idempotencyKey) {
+      const [existing] = await tx
+        .select({ amount: tokenTransactions.amount })
+        .from(tokenTransactions)
+        .where(and(eq(tokenTransactions.userId, entry.userId), eq(tokenTransactions.idempotencyKey, entry.idempotencyKey)))
+        .limit(1)
+      if (existing) return { applied: existing.amount, balance, duplicate: true, insufficient: false }
+    }
+
+    let applied = entry.amount
+    if (applied < 0 && -applied > balance) {
+      if (entry.requireFull) return { applied: 0, balance, duplicate: false, insufficient: true }
+      applied = -balance
+    }
+
+    await tx.insert(tokenTransactions).values({
+      userId: entry.userId,
+      amount: applied,
+      type: entry.type,
+      description: entry.description,
+      sessionId: entry.sessionId,
+      idempotencyKey: entry.idempotencyKey,
+    })
+
+    // tokens_used tracks net spend: deductions add to it, refunds give it back.
+    const spent = entry.type === 'deduct' || entry.type === 'refund' ? -applied : 0
+    await tx
+      .update(users)
+      .set({
+        aiTokens: sql`COALESCE(${users.aiTokens}, 0) + ${applied}`,
+        ...(spent !== 0 ? { tokensUsed: sql`GREATEST(0, COALESCE(${users.tokensUsed}, 0) + ${spent})` } : {}),
+      })
+      .where(eq(users.id, entry.userId))
+
+    return { applied, balance: balance + applied, duplicate: false, insufficient: false }
+  })
+}
+
 export interface DeductResult {
   success: boolean
   deducted: number
@@ -26,45 +107,38 @@ export interface DeductResult {
   balanceExhausted: boolean
 }
 
+export interface LedgerOptions {
+  /** Makes the call safe to retry: a second call with the same key is a no-op. */
+  idempotencyKey?: string
+}
+
 export async function deductTokens(
   userId: string,
   amount: number,
   description: string,
   sessionId?: string,
+  options: LedgerOptions & { requireFull?: boolean } = {},
 ): Promise<DeductResult> {
   if (amount <= 0) {
     return { success: true, deducted: 0, remainingBalance: await getUserTokens(userId), balanceExhausted: false }
   }
 
-  // Read current balance with row lock to prevent race conditions
-  const [user] = await db
-    .select({ aiTokens: users.aiTokens })
-    .from(users)
-    .where(eq(users.id, userId))
-    .limit(1)
-
-  const balance = user?.aiTokens ?? 0
-  const actualDeduction = Math.min(amount, balance)
-  const remainingBalance = balance - actualDeduction
-  const balanceExhausted = remainingBalance === 0 && amount > 0
-
-  await db.insert(tokenTransactions).values({
+  const result = await applyLedgerEntry({
     userId,
-    amount: -actualDeduction,
+    amount: -amount,
     type: 'deduct',
     description,
     sessionId,
+    idempotencyKey: options.idempotencyKey,
+    requireFull: options.requireFull,
   })
-
-  await db
-    .update(users)
-    .set({
-      aiTokens: remainingBalance,
-      tokensUsed: sql`${users.tokensUsed} + ${actualDeduction}`,
-    })
-    .where(eq(users.id, userId))
-
-  return { success: true, deducted: actualDeduction, remainingBalance, balanceExhausted }
+  const deducted = -result.applied
+  return {
+    success: !result.insufficient,
+    deducted,
+    remainingBalance: result.balance,
+    balanceExhausted: result.balance === 0,
+  }
 }
 
 export async function grantTokens(
@@ -72,22 +146,17 @@ export async function grantTokens(
   amount: number,
   description: string,
   grantedBy?: string,
+  options: LedgerOptions = {},
 ): Promise<void> {
   if (amount <= 0) return
 
-  await db.insert(tokenTransactions).values({
+  await applyLedgerEntry({
     userId,
     amount,
     type: 'grant',
     description: `${description}${grantedBy ? ` (by ${grantedBy})` : ''}`,
+    idempotencyKey: options.idempotencyKey,
   })
-
-  await db
-    .update(users)
-    .set({
-      aiTokens: sql`${users.aiTokens} + ${amount}`,
-    })
-    .where(eq(users.id, userId))
 }
 
 export async function refundTokens(
@@ -95,24 +164,18 @@ export async function refundTokens(
   amount: number,
   description: string,
   sessionId?: string,
+  options: LedgerOptions = {},
 ): Promise<void> {
   if (amount <= 0) return
 
-  await db.insert(tokenTransactions).values({
+  await applyLedgerEntry({
     userId,
     amount,
     type: 'refund',
     description,
     sessionId,
+    idempotencyKey: options.idempotencyKey,
   })
-
-  await db
-    .update(users)
-    .set({
-      aiTokens: sql`${users.aiTokens} + ${amount}`,
-      tokensUsed: sql`CASE WHEN ${users.tokensUsed} >= ${amount} THEN ${users.tokensUsed} - ${amount} ELSE 0 END`,
-    })
-    .where(eq(users.id, userId))
 }
 
 export function estimateMessageCost(inputText: string, model: AIModelDef, providerId?: ProviderId): number {
@@ -174,6 +237,7 @@ export interface ReconcileResult {
  * Refunds the difference if actual < estimated, charges additional if actual > estimated
  * (capped at 2x estimate to prevent surprise overcharges from runaway generation).
  * Returns a result indicating whether the balance was exhausted during extra charging.
+ * Pass the pre-charge's idempotency key so a retried reconciliation settles only once.
  */
 export async function reconcileTokens(
   userId: string,
@@ -182,7 +246,9 @@ export async function reconcileTokens(
   modelName: string,
   providerId?: string,
   sessionId?: string,
+  options: LedgerOptions = {},
 ): Promise<ReconcileResult> {
+  const idempotencyKey = options.idempotencyKey ? `${options.idempotencyKey}:reconcile` : undefined
   const cap = Math.ceil(estimatedCost * 2)
   const clampedActual = Math.min(actualCost, cap)
   let refunded = 0
@@ -196,6 +262,7 @@ export async function reconcileTokens(
       refunded,
       `Refund for ${modelName}${providerId ? ` (${providerId})` : ''}: estimated ${estimatedCost}, actual ${clampedActual}`,
       sessionId,
+      { idempotencyKey },
     )
   } else if (clampedActual > estimatedCost) {
     extraCharged = clampedActual - estimatedCost
@@ -204,6 +271,7 @@ export async function reconcileTokens(
       extraCharged,
       `Additional charge for ${modelName}${providerId ? ` (${providerId})` : ''}: estimated ${estimatedCost}, actual ${clampedActual}`,
       sessionId,
+      { idempotencyKey },
     )
     balanceExhausted = deductResult.balanceExhausted || deductResult.deducted < extraCharged
     if (balanceExhausted) {
@@ -214,15 +282,63 @@ export async function reconcileTokens(
   return { refunded, extraCharged, balanceExhausted }
 }
 
+/**
+ * Refund pre-charges that were never settled — deductions whose key starts
+ * with `keyPrefix` and have no `<key>:reconcile` entry — e.g. for work a
+ * server restart interrupted. The refund uses the reconcile key, so it can't
+ * also be settled (or refunded) a second time. Returns the total refunded.
+ *
+ * Pass `userId: null` when the payer isn't known (a collaborator may have
+ * paid for a turn in someone else's project); each charge is refunded to
+ * whoever paid it.
+ */
+export async function refundUnsettledCharges(
+  userId: string | null,
+  keyPrefix: string,
+  description: string,
+  sessionId?: string,
+): Promise<number> {
+  const charges = await db
+    .select({ userId: tokenTransactions.userId, amount: tokenTransactions.amount, idempotencyKey: tokenTransactions.idempotencyKey })
+    .from(tokenTransactions)
+    .where(and(
+      userId ? eq(tokenTransactions.userId, userId) : undefined,
+      eq(tokenTransactions.type, 'deduct'),
+      like(tokenTransactions.idempotencyKey, `${keyPrefix}%`),
+      notLike(tokenTransactions.idempotencyKey, '%:reconcile'),
+    ))
+
+  let refunded = 0
+  for (const charge of charges) {
+    const settleKey = `${charge.idempotencyKey}:reconcile`
+    const [settled] = await db
+      .select({ id: tokenTransactions.id })
+      .from(tokenTransactions)
+      .where(and(eq(tokenTransactions.userId, charge.userId), eq(tokenTransactions.idempotencyKey, settleKey)))
+      .limit(1)
+    if (settled || charge.amount >= 0) continue
+
+    await refundTokens(charge.userId, -charge.amount, description, sessionId, { idempotencyKey: settleKey })
+    refunded += -charge.amount
+  }
+  return refunded
+}
+
 export function getMinTier(model: AIModelDef): UserTier {
   return model.minTier
 }
 
+/** Paid features wait for a verified email; until then a paid account is treated as free. */
+export function effectiveTier(tier: UserTier | null | undefined, emailVerifiedAt: Date | null | undefined): UserTier {
+  return tier === 'paid' && emailVerifiedAt ? 'paid' : 'free'
+}
+
 export function canAccessTier(userTier: UserTier, requiredTier: UserTier): boolean {
   if (userTier === 'paid') return true
   return requiredTier === 'free'
 }
 
+/** Decrypted active keys by provider — only for code that sends them somewhere. */
 export async function getUserProviderKeys(userId: string): Promise<Record<string, string>> {
   const keys = await db
     .select({ provider: providerApiKeys.provider, apiKey: providerApiKeys.apiKey })
@@ -230,7 +346,139 @@ export async function getUserProviderKeys(userId: string): Promise<Record<string
     .where(and(eq(providerApiKeys.userId, userId), eq(providerApiKeys.isActive, true)))
   const result: Record<string, string> = {}
   for (const k of keys) {
-    result[k.provider] = k.apiKey
+    result[k.provider] = decryptSecret(k.apiKey)
   }
   return result
 }
+
+/** Providers the user has an active key for, without decrypting any. */
+export async function getConfiguredProviders(userId: string): Promise<Set<string>> {
+  const keys = await db
+    .select({ provider: providerApiKeys.provider })
+    .from(providerApiKeys)
+    .where(and(eq(providerApiKeys.userId, userId), eq(providerApiKeys.isActive, true)))
+  return new Set(keys.map((k) => k.provider))
+}
+
+// ── Consistency check ────────────────────────────────────────────────
+//
+// Recomputes every balance from the ledger and flags users whose
+// users.ai_tokens disagrees. Flags stay open (one per user) until an admin
+// resolves them, and clear themselves if the drift disappears.
+
+const LEDGER_CHECK_INTERVAL_MS = 60 * 60 * 1000
+
+export interface LedgerCheckResult {
+  checked: number
+  drifted: number
+}
+
+export async function checkLedgerConsistency(): Promise<LedgerCheckResult> {
+  // One statement, one snapshot: ledger writes are transactional, so an
+  // in-flight charge is either fully visible or not at all.
+  const rows = await db.execute<{ user_id: string; balance: string; ledger_balance: string }>(sql`
+    SELECT u.id AS user_id,
+           COALESCE(u.ai_tokens, 0) AS balance,
+           COALESCE(SUM(t.amount), 0) AS ledger_balance
+    FROM users u
+    LEFT JOIN token_transactions t ON t.user_id = u.id
+    GROUP BY u.id
+  `)
+
+  const drifted = rows.filter((r) => Number(r.balance) !== Number(r.ledger_balance))
+  for (const r of drifted) {
+    const balance = Number(r.balance)
+    const ledgerBalance = Number(r.ledger_balance)
+    await db.execute(sql`
+      INSERT INTO token_ledger_drift (user_id, balance, ledger_balance, drift)
+      VALUES (${r.user_id}, ${balance}, ${ledgerBalance}, ${balance - ledgerBalance})
+      ON CONFLICT (user_id) WHERE resolved_at IS NULL
+      DO UPDATE SET balance = EXCLUDED.balance, ledger_balance = EXCLUDED.ledger_balance,
+                    drift = EXCLUDED.drift, last_checked_at = now()
+    `)
+  }
+
+  const driftedIds = drifted.map((r) => r.user_id)
+  await db
+    .update(tokenLedgerDrift)
+    .set({ resolvedAt: new Date(), resolution: 'cleared' })
+    .where(
+      driftedIds.length > 0
+        ? and(isNull(tokenLedgerDrift.resolvedAt), notInArray(tokenLedgerDrift.userId, driftedIds))
+        : isNull(tokenLedgerDrift.resolvedAt),
+    )
+
+  if (drifted.length > 0) {
+    console.warn(`[TokenService] Ledger drift detected for ${drifted.length} user(s): ${driftedIds.join(', ')}`)
+  }
+  return { checked: rows.length, drifted: drifted.length }
+}
+
+/**
+ * Close an open drift flag.
+ *  - keep_balance:   trust users.ai_tokens; write an 'adjustment' ledger row for the difference
+ *  - restore_ledger: trust the ledger; reset users.ai_tokens to the ledger sum
+ * Both re-read the numbers under the user row lock, so the fix matches the
+ * state at resolve time rather than at detection time.
+ */
+export async function resolveLedgerDrift(
+  driftId: string,
+  adminId: string,
+  action: 'keep_balance' | 'restore_ledger',
+): Promise<{ balance: number } | null> {
+  return db.transaction(async (tx) => {
+    const [flag] = await tx
+      .select()
+      .from(tokenLedgerDrift)
+      .where(and(eq(tokenLedgerDrift.id, driftId), isNull(tokenLedgerDrift.resolvedAt)))
+      .limit(1)
+    if (!flag) return null
+
+    const [user] = await tx
+      .select({ aiTokens: users.aiTokens })
+      .from(users)
+      .where(eq(users.id, flag.userId))
+      .for('update')
+    const [ledger] = await tx
+      .select({ sum: sql<string>`COALESCE(SUM(${tokenTransactions.amount}), 0)` })
+      .from(tokenTransactions)
+      .where(eq(tokenTransactions.userId, flag.userId))
+    const balance = user?.aiTokens ?? 0
+    const ledgerBalance = Number(ledger?.sum ?? 0)
+
+    if (balance !== ledgerBalance) {
+      if (action === 'keep_balance') {
+        await tx.insert(tokenTransactions).values({
+          userId: flag.userId,
+          amount: balance - ledgerBalance,
+          type: 'adjustment',
+          description: `Ledger drift correction (balance ${balance}, ledger ${ledgerBalance})`,
+        })
+      } else {
+        await tx.update(users).set({ aiTokens: ledgerBalance }).where(eq(users.id, flag.userId))
+      }
+    }
+
+    await tx
+      .update(tokenLedgerDrift)
+      .set({ resolvedAt: new Date(), resolvedBy: adminId, resolution: action === 'keep_balance' ? 'adjusted' : 'restored' })
+      .where(eq(tokenLedgerDrift.id, driftId))
+
+    return { balance: action === 'keep_balance' ? balance : ledgerBalance }
+  })
+}
+
+let ledgerCheckTimer: ReturnType<typeof setInterval> | null = null
+
+/** Run the consistency check hourly (first run shortly after startup). */
+export function startLedgerConsistencyCheck(): void {
+  if (ledgerCheckTimer) return
+  const run = () => {
+    checkLedgerConsistency().catch((err) => {
+      console.error('[TokenService] Ledger consistency check failed:', err)
+    })
+  }
+  setTimeout(run, 60_000).unref()
+  ledgerCheckTimer = setInterval(run, LEDGER_CHECK_INTERVAL_MS)
+  ledgerCheckTimer.unref()
+}
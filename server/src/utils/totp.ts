@@ -0,0 +1,85 @@
+/**
+ * RFC 6238 time-based one-time passwords (the 6-digit, 30-second SHA-1
+ * variant every authenticator app supports) and the base32 secrets they use.
+ */
+import { createHmac, randomBytes } from 'crypto'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const STEP_SECONDS = 30
+const DIGITS = 6
+// Codes from one step either side are accepted, to allow for clock drift
+const DRIFT_STEPS = 1
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return output
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error('Invalid base32 character')
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+/** A new 160-bit secret, base32-encoded as authenticator apps expect. */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+export function currentTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS)
+}
+
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0')
+}
+
+/**
+ * The time step `code` belongs to, or null if it doesn't match. Steps at or
+ * before `lastUsedStep` are rejected so an observed code can't be replayed.
+ */
+export function matchTotp(secret: string, code: string, lastUsedStep: number | null = null): number | null {
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d{6}$/.test(normalized)) return null
+  const now = currentTotpStep()
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue
+    if (totpCode(secret, step) === normalized) return step
+  }
+  return null
+}
+
+/** The otpauth:// URI authenticator apps import (as a QR code or a tapped link). */
+export function totpUri(secret: string, accountName: string, issuer = 'AuroraCraft'): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
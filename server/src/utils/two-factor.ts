@@ -0,0 +1,163 @@
+/**
+ * Two-factor authentication for accounts: TOTP enrolment, one-time recovery
+ * codes and the check login runs once the password is right.
+ *
+ * The TOTP secret is envelope-encrypted like the other stored secrets. Accepting
+ * a code advances `totp_last_step` with a conditional update, and spending a
+ * recovery code marks it used the same way, so neither can be used twice even by
+ * racing requests. Wrong codes are throttled per user.
+ */
+import { createHash, randomBytes } from 'crypto'
+import { and, count, eq, isNull, lt, or } from 'drizzle-orm'
+import { db } from '../db/index.js'
+import { users } from '../db/schema/users.js'
+import { recoveryCodes } from '../db/schema/recovery-codes.js'
+import { encryptSecret, decryptSecret } from './envelope-encryption.js'
+import { generateTotpSecret, matchTotp } from './totp.js'
+
+export const RECOVERY_CODE_COUNT = 10
+
+// Wrong codes allowed per user in a window before further attempts are refused.
+// Kept in memory: with several replicas each enforces its own budget.
+const MAX_FAILURES = 5
+const FAILURE_WINDOW_MS = 15 * 60 * 1000
+const failures = new Map<string, { count: number; since: number }>()
+
+const hashCode = (code: string) => createHash('sha256').update(code).digest('hex')
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+function generateRecoveryCode(): string {
+  const raw = randomBytes(8).toString('hex').slice(0, 10)
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`
+}
+
+async function replaceRecoveryCodes(tx: Pick<typeof db, 'delete' | 'insert'>, userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode)
+  await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId))
+  await tx.insert(recoveryCodes).values(codes.map((code) => ({ userId, codeHash: hashCode(normalizeRecoveryCode(code)) })))
+  return codes
+}
+
+/** True while the user has used up their wrong-code budget. */
+export function secondFactorThrottled(userId: string): boolean {
+  const entry = failures.get(userId)
+  if (!entry) return false
+  if (Date.now() - entry.since > FAILURE_WINDOW_MS) {
+    failures.delete(userId)
+    return false
+  }
+  return entry.count >= MAX_FAILURES
+}
+
+function recordFailure(userId: string) {
+  const entry = failures.get(userId)
+  if (!entry || Date.now() - entry.since > FAILURE_WINDOW_MS) {
+    failures.set(userId, { count: 1, since: Date.now() })
+  } else {
+    entry.count++
+  }
+}
+
+/**
+ * Start (or restart) enrolment with a fresh secret. The secret is stored but
+ * not enforced until enableTotp confirms the user's app produces its codes.
+ */
+export async function beginTotpSetup(userId: string): Promise<string> {
+  const secret = generateTotpSecret()
+  await db
+    .update(users)
+    .set({ totpSecret: encryptSecret(secret), totpLastStep: null })
+    .where(and(eq(users.id, userId), isNull(users.totpEnabledAt)))
+  return secret
+}
+
+/** Turn 2FA on if `code` matches the pending secret. Returns the new recovery codes, or null. */
+export async function enableTotp(userId: string, code: string): Promise<string[] | null> {
+  const [user] = await db
+    .select({ secret: users.totpSecret, enabledAt: users.totpEnabledAt })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1)
+  if (!user?.secret || user.enabledAt) return null
+
+  const step = matchTotp(decryptSecret(user.secret), code)
+  if (step === null) {
+    recordFailure(userId)
+    return null
+  }
+
+  return db.transaction(async (tx) => {
+    const enabled = await tx
+      .update(users)
+      .set({ totpEnabledAt: new Date(), totpLastStep: step, updatedAt: new Date() })
+      .where(and(eq(users.id, userId), isNull(users.totpEnabledAt), eq(users.totpSecret, user.secret!)))
+      .returning({ id: users.id })
+    if (enabled.length === 0) return null
+    return replaceRecoveryCodes(tx, userId)
+  })
+}
+
+export async function disableTotp(userId: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx
+      .update(users)
+      .set({ totpSecret: null, totpEnabledAt: null, totpLastStep: null, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+    await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId))
+  })
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  return db.transaction((tx) => replaceRecoveryCodes(tx, userId))
+}
+
+export async function remainingRecoveryCodes(userId: string): Promise<number> {
+  const [row] = await db
+    .select({ remaining: count() })
+    .from(recoveryCodes)
+    .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)))
+  return row?.remaining ?? 0
+}
+
+/**
+ * Check a second factor for a user with 2FA on: a current TOTP code, or an
+ * unused recovery code (which is spent). Returns which one matched, or null.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<'totp' | 'recovery' | null> {
+  const [user] = await db
+    .select({ secret: users.totpSecret, enabledAt: users.totpEnabledAt, lastStep: users.totpLastStep })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1)
+  if (!user?.secret || !user.enabledAt) return null
+
+  const trimmed = code.trim()
+  let method: 'totp' | 'recovery' | null = null
+
+  if (/^\d{6}$/.test(trimmed.replace(/\s/g, ''))) {
+    const step = matchTotp(decryptSecret(user.secret), trimmed, user.lastStep)
+    if (step !== null) {
+      const accepted = await db
+        .update(users)
+        .set({ totpLastStep: step })
+        .where(and(eq(users.id, userId), or(isNull(users.totpLastStep), lt(users.totpLastStep, step))))
+        .returning({ id: users.id })
+      if (accepted.length > 0) method = 'totp'
+    }
+  } else {
+    const spent = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, hashCode(normalizeRecoveryCode(trimmed))),
+        isNull(recoveryCodes.usedAt),
+      ))
+      .returning({ id: recoveryCodes.id })
+    if (spent.length > 0) method = 'recovery'
+  }
+
+  if (method) failures.delete(userId)
+  else recordFailure(userId)
+  return method
+}
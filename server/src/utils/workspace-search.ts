@@ -0,0 +1,362 @@
+/**
+ * Project-wide search and replace over a workspace (routes/search.ts).
+ *
+ * Walks the workspace the way the Assistant's file tools do, skipping
+ * IGNORED_DIRS, binary files and files over MAX_FILE_BYTES. Patterns are user
+ * input, so matching runs in a separate V8 context with a time budget: a
+ * pathological regex fails the search instead of stalling the server.
+ */
+import vm from 'node:vm'
+import { promises as fs } from 'node:fs'
+import { join, relative } from 'node:path'
+
+/** Dependency, VCS and build output directories — never searched or listed */
+export const IGNORED_DIRS = new Set(['node_modules', '.git', 'target', 'build', '.gradle', 'graphify-out', '.config', 'dist'])
+
+const MAX_FILE_BYTES = 1_000_000
+const MAX_FILES = 10_000
+const MAX_MATCHES = 2_000
+const MAX_PREVIEW_CHARS = 200
+const PREVIEW_CONTEXT_CHARS = 40
+const SEARCH_BUDGET_MS = 5_000
+// Error code of a vm script that ran out of time
+const TIMED_OUT = 'ERR_SCRIPT_EXECUTION_TIMEOUT'
+
+export interface SearchQuery {
+  query: string
+  regex: boolean
+  caseSensitive: boolean
+  wholeWord: boolean
+  /** Comma-separated globs; when set, a file must match one */
+  include?: string
+  /** Comma-separated globs; matching files and directories are skipped */
+  exclude?: string
+}
+
+export interface SearchMatch {
+  /** 1-based */
+  line: number
+  /** 1-based */
+  column: number
+  length: number
+  /** The matched line, clipped around the match */
+  preview: string
+  /** Offset of the match within `preview` */
+  previewOffset: number
+  /** Set when previewing a replace: `preview` with this match replaced */
+  replaced?: string
+}
+
+export interface FileMatches {
+  path: string
+  matches: SearchMatch[]
+}
+
+export interface SearchResult {
+  files: FileMatches[]
+  totalMatches: number
+  /** Stopped at MAX_MATCHES */
+  truncated: boolean
+}
+
+// Runs inside the sandbox context; `source`, `flags` and `literal` are context globals.
+// Matches are [index, length] or, when replacing, [index, length, replacement].
+const SCANNER = `
+function expand(template, match, groups, named, index, input) {
+  return template.replace(/\\$(\\$|&|\`|'|<([^>]*)>|(\\d{1,2}))/g, (token, kind, name, digits) => {
+    if (kind === '$') return '$'
+    if (kind === '&') return match
+    if (kind === '\`') return input.slice(0, index)
+    if (kind === "'") return input.slice(index + match.length)
+    if (name !== undefined) return named ? (named[name] ?? '') : token
+    const n = Number(digits)
+    if (n >= 1 && n <= groups.length) return groups[n - 1] ?? ''
+    const first = Number(digits[0])
+    if (digits.length === 2 && first >= 1 && first <= groups.length) return (groups[first - 1] ?? '') + digits[1]
+    return token
+  })
+}
+function scan(text, limit, replacement) {
+  const re = new RegExp(source, flags)
+  const matches = []
+  let m
+  while (matches.length < limit && (m = re.exec(text)) !== null) {
+    if (m[0].length === 0) {
+      re.lastIndex++
+      continue
+    }
+    matches.push(replacement === null
+      ? [m.index, m[0].length]
+      : [m.index, m[0].length, literal ? replacement : expand(replacement, m[0], m.slice(1), m.groups, m.index, text)])
+  }
+  return matches
+}
+`
+
+type RawMatch = [number, number] | [number, number, string]
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** `*`, `**`, `?` and `{a,b}` globs; a glob without `/` matches at any depth. */
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob.includes('/') ? glob.replace(/^\.?\//, '') : `**/${glob}`
+  let re = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]
+    if (c === '*' && pattern[i + 1] === '*') {
+      i++
+      if (pattern[i + 1] === '/') {
+        i++
+        re += '(?:.*/)?'
+      } else {
+        re += '.*'
+      }
+    } else if (c === '*') {
+      re += '[^/]*'
+    } else if (c === '?') {
+      re += '[^/]'
+    } else if (c === '{' && pattern.indexOf('}', i) > i) {
+      const end = pattern.indexOf('}', i)
+      re += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`
+      i = end
+    } else {
+      re += escapeRegExp(c)
+    }
+  }
+  return new RegExp(`^${re}$`)
+}
+
+/** Split a comma-separated glob list, keeping commas inside `{…}`. */
+function parseGlobs(list: string | undefined): RegExp[] {
+  if (!list) return []
+  const globs: string[] = []
+  let depth = 0
+  let current = ''
+  for (const c of list) {
+    if (c === '{') depth++
+    if (c === '}') depth = Math.max(0, depth - 1)
+    if (c === ',' && depth === 0) {
+      globs.push(current)
+      current = ''
+    } else {
+      current += c
+    }
+  }
+  globs.push(current)
+  return globs.map((g) => g.trim()).filter(Boolean).map(globToRegExp)
+}
+
+/** Whether the path, or a directory above it, matches one of the globs. */
+function matchesAny(globs: RegExp[], path: string): boolean {
+  if (globs.length === 0) return false
+  const segments = path.split('/')
+  for (let i = segments.length; i > 0; i--) {
+    const candidate = segments.slice(0, i).join('/')
+    if (globs.some((g) => g.test(candidate))) return true
+  }
+  return false
+}
+
+async function walk(dir: string, base: string, out: string[], depth = 0): Promise<void> {
+  if (depth > 20 || out.length >= MAX_FILES) return
+  let entries: Array<{ name: string; isDirectory(): boolean; isFile(): boolean }> = []
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true })
+  } catch {
+    return
+  }
+  for (const e of entries) {
+    if (IGNORED_DIRS.has(e.name)) continue
+    const full = join(dir, e.name)
+    if (e.isDirectory()) await walk(full, base, out, depth + 1)
+    else if (e.isFile() && out.length < MAX_FILES) out.push(relative(base, full))
+  }
+}
+
+async function readText(path: string): Promise<string | null> {
+  try {
+    const stat = await fs.stat(path)
+    if (stat.size > MAX_FILE_BYTES) return null
+    const data = await fs.readFile(path)
+    // NUL in the first 8 KB: binary
+    if (data.subarray(0, 8192).includes(0)) return null
+    return data.toString('utf8')
+  } catch {
+    return null
+  }
+}
+
+function lineStartsOf(text: string): number[] {
+  const starts = [0]
+  for (let i = 0; i < text.length; i++) if (text.charCodeAt(i) === 10) starts.push(i + 1)
+  return starts
+}
+
+function lineIndexAt(starts: number[], offset: number): number {
+  let lo = 0
+  let hi = starts.length - 1
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1
+    if (starts[mid] <= offset) lo = mid
+    else hi = mid - 1
+  }
+  return lo
+}
+
+function toMatch(text: string, starts: number[], [index, length, replacement]: RawMatch): SearchMatch {
+  const lineIndex = lineIndexAt(starts, index)
+  const lineStart = starts[lineIndex]
+  const lineEnd = lineIndex + 1 < starts.length ? starts[lineIndex + 1] - 1 : text.length
+  const column = index - lineStart
+  // Clip long lines to some context before the match
+  const from = Math.max(0, column - PREVIEW_CONTEXT_CHARS)
+  const line = text.slice(lineStart, lineEnd).replace(/\r$/, '')
+  const preview = (from > 0 ? '…' : '') + line.slice(from, from + MAX_PREVIEW_CHARS)
+  const previewOffset = column - from + (from > 0 ? 1 : 0)
+  const visibleLength = Math.min(length, preview.length - previewOffset)
+  return {
+    line: lineIndex + 1,
+    column: column + 1,
+    length,
+    preview,
+    previewOffset,
+    ...(replacement !== undefined && {
+      replaced: preview.slice(0, previewOffset) + replacement + preview.slice(previewOffset + visibleLength),
+    }),
+  }
+}
+
+/** Apply raw matches (with replacements) to the text. */
+function applyMatches(text: string, matches: RawMatch[]): string {
+  let out = ''
+  let last = 0
+  for (const [index, length, replacement] of matches) {
+    out += text.slice(last, index) + (replacement ?? '')
+    last = index + length
+  }
+  return out + text.slice(last)
+}
+
+/**
+ * A search over one workspace. Construction validates the query; `run` walks
+ * the files. Each scan is time-limited and all scans share SEARCH_BUDGET_MS.
+ */
+class WorkspaceSearch {
+  private readonly context: vm.Context
+  private readonly include: RegExp[]
+  private readonly exclude: RegExp[]
+  private readonly deadline = Date.now() + SEARCH_BUDGET_MS
+
+  constructor(private readonly directory: string, query: SearchQuery, private readonly replacement: string | null) {
+    const body = query.regex ? query.query : escapeRegExp(query.query)
+    const source = query.wholeWord ? `\\b(?:${body})\\b` : body
+    const flags = query.caseSensitive ? 'gm' : 'gim'
+    // Throws SyntaxError on an invalid pattern
+    new RegExp(source, flags)
+    this.context = vm.createContext({ source, flags, literal: !query.regex })
+    vm.runInContext(SCANNER, this.context)
+    this.include = parseGlobs(query.include)
+    this.exclude = parseGlobs(query.exclude)
+  }
+
+  async files(paths?: string[]): Promise<string[]> {
+    let candidates: string[]
+    if (paths) {
+      candidates = paths.filter((p) => !p.split('/').some((s) => s === '..' || s === '' || IGNORED_DIRS.has(s)))
+    } else {
+      candidates = []
+      await walk(this.directory, this.directory, candidates)
+    }
+    return candidates
+      .filter((p) => (this.include.length === 0 || matchesAny(this.include, p)) && !matchesAny(this.exclude, p))
+      .sort()
+  }
+
+  async read(path: string): Promise<string | null> {
+    return readText(join(this.directory, path))
+  }
+
+  scan(text: string, limit: number): RawMatch[] {
+    const remaining = this.deadline - Date.now()
+    if (remaining <= 0) throw Object.assign(new Error('Search time budget exhausted'), { code: TIMED_OUT })
+    this.context.text = text
+    this.context.limit = limit
+    this.context.replacement = this.replacement
+    try {
+      return vm.runInContext('scan(text, limit, replacement)', this.context, { timeout: remaining }) as RawMatch[]
+    } finally {
+      this.context.text = ''
+    }
+  }
+}
+
+function failure(err: unknown): { error: string } {
+  if (err instanceof SyntaxError) return { error: err.message }
+  if ((err as NodeJS.ErrnoException).code === TIMED_OUT) {
+    return { error: 'The search took too long — narrow the pattern or the file filters' }
+  }
+  throw err
+}
+
+/** Find matches, grouped by file. With `replacement`, each match carries its replaced preview. */
+export async function searchWorkspace(
+  directory: string,
+  query: SearchQuery,
+  replacement: string | null = null,
+): Promise<SearchResult | { error: string }> {
+  try {
+    const search = new WorkspaceSearch(directory, query, replacement)
+    const files: FileMatches[] = []
+    let totalMatches = 0
+    for (const path of await search.files()) {
+      const text = await search.read(path)
+      if (text === null) continue
+      const raw = search.scan(text, MAX_MATCHES - totalMatches)
+      if (raw.length === 0) continue
+      const starts = lineStartsOf(text)
+      files.push({ path, matches: raw.map((m) => toMatch(text, starts, m)) })
+      totalMatches += raw.length
+      if (totalMatches >= MAX_MATCHES) return { files, totalMatches, truncated: true }
+    }
+    return { files, totalMatches, truncated: false }
+  } catch (err) {
+    return failure(err)
+  }
+}
+
+/**
+ * Replace every match in the given files (or all matching files) and write
+ * them back. Matching runs on the current contents, so files changed since a
+ * preview are replaced as they are now. Returns what changed.
+ */
+export async function replaceInWorkspace(
+  directory: string,
+  query: SearchQuery,
+  replacement: string,
+  paths?: string[],
+): Promise<{ files: { path: string; replacements: number }[] } | { error: string }> {
+  try {
+    const search = new WorkspaceSearch(directory, query, replacement)
+    // Scan everything first so a timeout can't leave a half-applied replace
+    const pending: { path: string; text: string; raw: RawMatch[] }[] = []
+    for (const path of await search.files(paths)) {
+      const text = await search.read(path)
+      if (text === null) continue
+      const raw = search.scan(text, Number.MAX_SAFE_INTEGER)
+      if (raw.length > 0) pending.push({ path, text, raw })
+    }
+
+    const files: { path: string; replacements: number }[] = []
+    for (const { path, text, raw } of pending) {
+      const updated = applyMatches(text, raw)
+      if (updated === text) continue
+      await fs.writeFile(join(directory, path), updated, 'utf8')
+      files.push({ path, replacements: raw.length })
+    }
+    return { files }
+  } catch (err) {
+    return failure(err)
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Two-way folder sync between a workspace and a local copy (routes/sync.ts).
+ *
+ * The server only knows content hashes: the manifest lists every synced
+ * file's sha256, and each upload names the hash it was based on. A change
+ * whose base no longer matches the file on disk is refused as a conflict
+ * instead of overwriting someone else's edit (the agent's, a teammate's or
+ * the editor's). Remembering the last-synced state and deciding which side
+ * changed is the client's job.
+ */
+import { createHash } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import { dirname, join, posix, relative, resolve } from 'node:path'
+import { IGNORED_DIRS } from './workspace-search.js'
+
+/** Server-managed files that would be overwritten again anyway */
+export const SYNC_IGNORED_FILES = new Set(['opencode.json'])
+
+export const MAX_SYNC_FILE_BYTES = 5 * 1024 * 1024
+export const MAX_SYNC_FILES = 10_000
+/** Raw bytes moved by one download or upload request */
+export const MAX_TRANSFER_BYTES = 8 * 1024 * 1024
+
+export interface ManifestEntry {
+  path: string
+  /** sha256, hex */
+  hash: string
+  size: number
+}
+
+export interface SyncManifest {
+  files: ManifestEntry[]
+  /** Stopped at MAX_SYNC_FILES: a path missing from `files` may still exist */
+  truncated: boolean
+  /** Paths that exist but aren't synced (symlinks, files over maxFileBytes) — not deleted */
+  skipped: string[]
+  /** What the server never syncs, so clients can skip the same things */
+  ignoredDirs: string[]
+  ignoredFiles: string[]
+  maxFileBytes: number
+  maxTransferBytes: number
+}
+
+export interface SyncChange {
+  path: string
+  /** Hash the client last saw for this path; null = the client thinks it doesn't exist */
+  baseHash: string | null
+  /** base64 file content; null deletes the file */
+  content: string | null
+}
+
+export interface SyncConflict {
+  path: string
+  /** What is on the server now (null = no file) */
+  hash: string | null
+}
+
+export interface SyncUploadResult {
+  applied: { path: string; hash: string | null }[]
+  conflicts: SyncConflict[]
+}
+
+// Hashes keyed by absolute path; reused while size and mtime are unchanged
+const hashCache = new Map<string, { size: number; mtimeMs: number; hash: string }>()
+const MAX_CACHED_HASHES = 100_000
+
+// Uploads to one workspace run one at a time, so check-then-write can't interleave
+const uploadQueues = new Map<string, Promise<unknown>>()
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex')
+
+/** Project-relative posix path if it may be synced, otherwise null. */
+export function normalizeSyncPath(path: string): string | null {
+  const normalized = posix.normalize(path.replace(/\\/g, '/'))
+  if (!normalized || normalized === '.' || normalized.startsWith('/') || normalized.startsWith('../')) return null
+  const segments = normalized.split('/')
+  if (segments.some((s) => s === '..' || IGNORED_DIRS.has(s))) return null
+  if (segments.length === 1 && SYNC_IGNORED_FILES.has(normalized)) return null
+  return normalized
+}
+
+function resolveInside(directory: string, path: string): string | null {
+  const full = resolve(directory, path)
+  return full.startsWith(directory + '/') ? full : null
+}
+
+async function hashFile(full: string): Promise<{ hash: string; size: number } | null> {
+  let stat
+  try {
+    stat = await fs.stat(full)
+  } catch {
+    return null
+  }
+  if (!stat.isFile() || stat.size > MAX_SYNC_FILE_BYTES) return null
+
+  const cached = hashCache.get(full)
+  if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+    return { hash: cached.hash, size: stat.size }
+  }
+  const hash = sha256(await fs.readFile(full))
+  if (hashCache.size >= MAX_CACHED_HASHES) hashCache.clear()
+  hashCache.set(full, { size: stat.size, mtimeMs: stat.mtimeMs, hash })
+  return { hash, size: stat.size }
+}
+
+async function walk(dir: string, base: string, out: string[], skipped: string[], depth = 0): Promise<void> {
+  if (depth > 20 || out.length > MAX_SYNC_FILES) return
+  let entries: Array<{ name: string; isDirectory(): boolean; isFile(): boolean; isSymbolicLink(): boolean }> = []
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true })
+  } catch {
+    return
+  }
+  for (const e of entries) {
+    if (IGNORED_DIRS.has(e.name)) continue
+    const full = join(dir, e.name)
+    if (e.isDirectory()) await walk(full, base, out, skipped, depth + 1)
+    else if (e.isFile() && out.length <= MAX_SYNC_FILES) out.push(relative(base, full))
+    else if (e.isSymbolicLink()) skipped.push(relative(base, full))
+  }
+}
+
+/** Every syncable file in the workspace with its content hash. */
+export async function buildManifest(directory: string): Promise<SyncManifest> {
+  const paths: string[] = []
+  const skipped: string[] = []
+  await walk(directory, directory, paths, skipped)
+  const truncated = paths.length > MAX_SYNC_FILES
+
+  const files: ManifestEntry[] = []
+  for (const path of paths.slice(0, MAX_SYNC_FILES).sort()) {
+    if (!normalizeSyncPath(path)) continue
+    const full = join(directory, path)
+    const hashed = await hashFile(full)
+    if (hashed) files.push({ path, ...hashed })
+    // Too large to sync; listed so clients don't take it for deleted
+    else if (await fs.stat(full).then((st) => st.isFile(), () => false)) skipped.push(path)
+  }
+  return {
+    files,
+    truncated,
+    skipped: skipped.filter((path) => normalizeSyncPath(path)).sort(),
+    ignoredDirs: [...IGNORED_DIRS],
+    ignoredFiles: [...SYNC_IGNORED_FILES],
+    maxFileBytes: MAX_SYNC_FILE_BYTES,
+    maxTransferBytes: MAX_TRANSFER_BYTES,
+  }
+}
+
+/**
+ * Contents of the requested files, up to MAX_TRANSFER_BYTES per call —
+ * paths left out are simply asked for again. A path that is no longer a
+ * syncable file comes back with a null hash.
+ */
+export async function readSyncFiles(
+  directory: string,
+  paths: string[],
+): Promise<{ path: string; hash: string | null; content: string | null }[]> {
+  const files: { path: string; hash: string | null; content: string | null }[] = []
+  let total = 0
+  for (const requested of paths) {
+    const path = normalizeSyncPath(requested)
+    const full = path && resolveInside(directory, path)
+    if (!path || !full) {
+      files.push({ path: requested, hash: null, content: null })
+      continue
+    }
+    const hashed = await hashFile(full)
+    if (!hashed) {
+      files.push({ path, hash: null, content: null })
+      continue
+    }
+    // Always send at least one file, however large
+    if (files.some((f) => f.content !== null) && total + hashed.size > MAX_TRANSFER_BYTES) break
+    const data = await fs.readFile(full).catch(() => null)
+    if (!data) {
+      files.push({ path, hash: null, content: null })
+      continue
+    }
+    total += data.length
+    files.push({ path, hash: sha256(data), content: data.toString('base64') })
+  }
+  return files
+}
+
+/**
+ * Apply uploaded changes whose base hash still matches the workspace; the
+ * rest come back as conflicts. Nothing is written if any path can't be
+ * synced. `onChanged` is called for each file written or deleted.
+ */
+export async function applySyncChanges(
+  directory: string,
+  changes: SyncChange[],
+  onChanged: (path: string, deleted: boolean) => void,
+): Promise<SyncUploadResult | { error: string }> {
+  for (const change of changes) {
+    const path = normalizeSyncPath(change.path)
+    if (!path || !resolveInside(directory, path)) return { error: `Path cannot be synced: ${change.path}` }
+    if (change.content !== null && Buffer.byteLength(change.content, 'base64') > MAX_SYNC_FILE_BYTES) {
+      return { error: `${change.path} is larger than ${MAX_SYNC_FILE_BYTES / 1024 / 1024} MB` }
+    }
+  }
+
+  const previous = uploadQueues.get(directory) ?? Promise.resolve()
+  const run = previous.catch(() => {}).then(() => applyChanges(directory, changes, onChanged))
+  uploadQueues.set(directory, run)
+  run.finally(() => {
+    if (uploadQueues.get(directory) === run) uploadQueues.delete(directory)
+  }).catch(() => {})
+  return run
+}
+
+async function applyChanges(
+  directory: string,
+  changes: SyncChange[],
+  onChanged: (path: string, deleted: boolean) => void,
+): Promise<SyncUploadResult> {
+  const result: SyncUploadResult = { applied: [], conflicts: [] }
+  for (const change of changes) {
+    // Checked in applySyncChanges
+    const path = normalizeSyncPath(change.path)!
+    const full = resolveInside(directory, path)!
+
+    const current = (await hashFile(full))?.hash ?? null
+    const data = change.content === null ? null : Buffer.from(change.content, 'base64')
+    const wanted = data ? sha256(data) : null
+
+    // A directory, a symlink or an oversized file in the way is a conflict,
+    // even for a delete: it isn't synced, so it can't be what the client saw
+    const blocked = current === null && await fs.lstat(full).then(() => true, () => false)
+    if (blocked) {
+      result.conflicts.push({ path, hash: null })
+      continue
+    }
+    if (current === wanted) {
+      // Already there (e.g. a retried upload)
+      result.applied.push({ path, hash: current })
+      continue
+    }
+    if (current !== change.baseHash) {
+      result.conflicts.push({ path, hash: current })
+      continue
+    }
+
+    if (data) {
+      await fs.mkdir(dirname(full), { recursive: true })
+      await fs.writeFile(full, data)
+    } else {
+      await fs.rm(full, { force: true })
+      await pruneEmptyDirs(directory, dirname(full))
+    }
+    onChanged(path, !data)
+    result.applied.push({ path, hash: wanted })
+  }
+  return result
+}
+
+/** Remove directories a delete left empty, up to (not including) the workspace root. */
+async function pruneEmptyDirs(directory: string, dir: string): Promise<void> {
+  while (dir.startsWith(directory + '/')) {
+    try {
+      await fs.rmdir(dir)
+    } catch {
+      return
+    }
+    dir = dirname(dir)
+  }
+}